@@ -0,0 +1,56 @@
+-- AlterTable
+ALTER TABLE "services" ADD COLUMN     "setup_buffer_minutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "teardown_buffer_minutes" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "studio_settings" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "slot_interval_minutes" INTEGER NOT NULL DEFAULT 30,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "studio_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "business_hours" (
+    "id" TEXT NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "open_time" TEXT NOT NULL,
+    "close_time" TEXT NOT NULL,
+    "closed" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "business_hours_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "blackout_dates" (
+    "id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "blackout_dates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "business_hours_weekday_key" ON "business_hours"("weekday");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "blackout_dates_date_key" ON "blackout_dates"("date");
+
+-- Insert default settings and the previous fixed 09:00-18:00 opening hours for every weekday
+INSERT INTO "studio_settings" ("id", "slot_interval_minutes", "updated_at") VALUES
+('default', 30, CURRENT_TIMESTAMP);
+
+INSERT INTO "business_hours" ("id", "weekday", "open_time", "close_time", "closed", "updated_at") VALUES
+('hours_0', 0, '09:00', '18:00', false, CURRENT_TIMESTAMP),
+('hours_1', 1, '09:00', '18:00', false, CURRENT_TIMESTAMP),
+('hours_2', 2, '09:00', '18:00', false, CURRENT_TIMESTAMP),
+('hours_3', 3, '09:00', '18:00', false, CURRENT_TIMESTAMP),
+('hours_4', 4, '09:00', '18:00', false, CURRENT_TIMESTAMP),
+('hours_5', 5, '09:00', '18:00', false, CURRENT_TIMESTAMP),
+('hours_6', 6, '09:00', '18:00', false, CURRENT_TIMESTAMP);
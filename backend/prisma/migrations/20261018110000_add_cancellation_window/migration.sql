@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "studio_settings" ADD COLUMN     "cancellation_window_hours" INTEGER NOT NULL DEFAULT 48;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "studio_settings" ADD COLUMN     "time_zone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "time_zone" TEXT NOT NULL DEFAULT 'UTC';
@@ -0,0 +1,83 @@
+-- AlterTable
+ALTER TABLE "studio_settings" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN     "tax_rate_percent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "deposit_percent" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "invoices" (
+    "id" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'invoice',
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "booking_id" TEXT NOT NULL,
+    "quote_id" TEXT,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "subtotal" DECIMAL(10,2) NOT NULL,
+    "discount_total" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "tax_rate_percent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "tax_total" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "total" DECIMAL(10,2) NOT NULL,
+    "deposit_amount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "amount_paid" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "notes" TEXT,
+    "due_date" TIMESTAMP(3),
+    "sent_at" TIMESTAMP(3),
+    "paid_at" TIMESTAMP(3),
+    "voided_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_line_items" (
+    "id" TEXT NOT NULL,
+    "invoice_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "description" TEXT NOT NULL,
+    "quantity" DECIMAL(10,2) NOT NULL,
+    "unit_price" DECIMAL(10,2) NOT NULL,
+    "discount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "total" DECIMAL(10,2) NOT NULL,
+
+    CONSTRAINT "invoice_line_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payments" (
+    "id" TEXT NOT NULL,
+    "invoice_id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "provider_reference" TEXT,
+    "status" TEXT NOT NULL,
+    "failure_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_number_key" ON "invoices"("number");
+
+-- CreateIndex
+CREATE INDEX "invoices_booking_id_idx" ON "invoices"("booking_id");
+
+-- CreateIndex
+CREATE INDEX "payments_invoice_id_idx" ON "payments"("invoice_id");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_quote_id_fkey" FOREIGN KEY ("quote_id") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_line_items" ADD CONSTRAINT "invoice_line_items_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "booking_series" (
+    "id" TEXT NOT NULL,
+    "service_id" TEXT,
+    "recurrence" JSONB NOT NULL,
+    "time_zone" TEXT NOT NULL DEFAULT 'UTC',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "booking_series_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "series_id" TEXT,
+ADD COLUMN     "series_index" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "bookings_series_id_idx" ON "bookings"("series_id");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "booking_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_service_id_fkey" FOREIGN KEY ("service_id") REFERENCES "services"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "calendar_feed_token_hash" TEXT;
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "calendar_sequence" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "external_calendars" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "url" TEXT,
+    "last_synced_at" TIMESTAMP(3),
+    "last_sync_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "external_calendars_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "calendar_busy_blocks" (
+    "id" TEXT NOT NULL,
+    "calendar_id" TEXT NOT NULL,
+    "uid" TEXT,
+    "start_time" TIMESTAMP(3) NOT NULL,
+    "end_time" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "calendar_busy_blocks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_calendar_feed_token_hash_key" ON "users"("calendar_feed_token_hash");
+
+-- CreateIndex
+CREATE INDEX "calendar_busy_blocks_start_time_end_time_idx" ON "calendar_busy_blocks"("start_time", "end_time");
+
+-- AddForeignKey
+ALTER TABLE "calendar_busy_blocks" ADD CONSTRAINT "calendar_busy_blocks_calendar_id_fkey" FOREIGN KEY ("calendar_id") REFERENCES "external_calendars"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "email_messages" (
+    "id" TEXT NOT NULL,
+    "to_email" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "attachments" JSONB,
+    "template_key" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 5,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_error" TEXT,
+    "transport" TEXT,
+    "provider_message_id" TEXT,
+    "sent_at" TIMESTAMP(3),
+    "booking_id" TEXT,
+    "inquiry_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "email_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "email_suppressions" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "details" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_suppressions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "email_messages_status_next_attempt_at_idx" ON "email_messages"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "email_messages_booking_id_idx" ON "email_messages"("booking_id");
+
+-- CreateIndex
+CREATE INDEX "email_messages_inquiry_id_idx" ON "email_messages"("inquiry_id");
+
+-- CreateIndex
+CREATE INDEX "email_messages_provider_message_id_idx" ON "email_messages"("provider_message_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_suppressions_email_key" ON "email_suppressions"("email");
+
+-- AddForeignKey
+ALTER TABLE "email_messages" ADD CONSTRAINT "email_messages_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "email_messages" ADD CONSTRAINT "email_messages_inquiry_id_fkey" FOREIGN KEY ("inquiry_id") REFERENCES "contact_inquiries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
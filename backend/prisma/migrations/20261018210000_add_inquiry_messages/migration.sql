@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "email_messages" ADD COLUMN "reply_to" TEXT;
+
+-- CreateTable
+CREATE TABLE "inquiry_messages" (
+    "id" TEXT NOT NULL,
+    "inquiry_id" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "from_email" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "author_id" TEXT,
+    "email_message_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "inquiry_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inquiry_messages_email_message_id_key" ON "inquiry_messages"("email_message_id");
+
+-- CreateIndex
+CREATE INDEX "inquiry_messages_inquiry_id_created_at_idx" ON "inquiry_messages"("inquiry_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "inquiry_messages" ADD CONSTRAINT "inquiry_messages_inquiry_id_fkey" FOREIGN KEY ("inquiry_id") REFERENCES "contact_inquiries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inquiry_messages" ADD CONSTRAINT "inquiry_messages_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inquiry_messages" ADD CONSTRAINT "inquiry_messages_email_message_id_fkey" FOREIGN KEY ("email_message_id") REFERENCES "email_messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
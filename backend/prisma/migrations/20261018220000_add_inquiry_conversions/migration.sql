@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "contact_inquiries" ADD COLUMN "source" TEXT NOT NULL DEFAULT 'website';
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "inquiry_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "bookings_inquiry_id_idx" ON "bookings"("inquiry_id");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_inquiry_id_fkey" FOREIGN KEY ("inquiry_id") REFERENCES "contact_inquiries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,81 @@
+-- CreateTable
+CREATE TABLE "clients" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "phone" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "clients_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "client_notes" (
+    "id" TEXT NOT NULL,
+    "client_id" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "author_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "client_notes_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "client_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "contact_inquiries" ADD COLUMN "client_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "clients_email_key" ON "clients"("email");
+
+-- CreateIndex
+CREATE INDEX "clients_phone_idx" ON "clients"("phone");
+
+-- CreateIndex
+CREATE INDEX "client_notes_client_id_created_at_idx" ON "client_notes"("client_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "bookings_client_id_idx" ON "bookings"("client_id");
+
+-- CreateIndex
+CREATE INDEX "contact_inquiries_client_id_idx" ON "contact_inquiries"("client_id");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contact_inquiries" ADD CONSTRAINT "contact_inquiries_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_notes" ADD CONSTRAINT "client_notes_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_notes" ADD CONSTRAINT "client_notes_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Create one client per email from existing bookings and inquiries, named after the
+-- most recent one
+INSERT INTO "clients" ("id", "name", "email", "phone", "created_at", "updated_at")
+SELECT DISTINCT ON ("email")
+    'client_' || md5("email"),
+    "name",
+    "email",
+    CASE
+        WHEN regexp_replace("phone", '[^0-9]', '', 'g') = '' THEN NULL
+        WHEN trim("phone") LIKE '+%' THEN '+' || regexp_replace("phone", '[^0-9]', '', 'g')
+        ELSE regexp_replace("phone", '[^0-9]', '', 'g')
+    END,
+    min("created_at") OVER (PARTITION BY "email"),
+    CURRENT_TIMESTAMP
+FROM (
+    SELECT lower(trim("client_email")) AS "email", "client_name" AS "name", "client_phone" AS "phone", "created_at"
+    FROM "bookings"
+    UNION ALL
+    SELECT lower(trim("email")), "name", "phone", "created_at"
+    FROM "contact_inquiries"
+) AS "contacts"
+ORDER BY "email", "created_at" DESC;
+
+UPDATE "bookings" SET "client_id" = 'client_' || md5(lower(trim("client_email")));
+UPDATE "contact_inquiries" SET "client_id" = 'client_' || md5(lower(trim("email")));
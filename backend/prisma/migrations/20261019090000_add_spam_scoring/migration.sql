@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "studio_settings" ADD COLUMN "spam_quarantine_threshold" DOUBLE PRECISION NOT NULL DEFAULT 3,
+ADD COLUMN "spam_reject_threshold" DOUBLE PRECISION NOT NULL DEFAULT 8,
+ADD COLUMN "spam_rule_weights" JSONB NOT NULL DEFAULT '{}';
+
+-- AlterTable
+ALTER TABLE "contact_inquiries" ADD COLUMN "spam_score" DOUBLE PRECISION,
+ADD COLUMN "spam_reasons" JSONB,
+ADD COLUMN "spam_label" TEXT;
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "spam_score" DOUBLE PRECISION,
+ADD COLUMN "spam_reasons" JSONB,
+ADD COLUMN "spam_label" TEXT;
+
+-- CreateTable
+CREATE TABLE "spam_tokens" (
+    "token" TEXT NOT NULL,
+    "spam_count" INTEGER NOT NULL DEFAULT 0,
+    "ham_count" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "spam_tokens_pkey" PRIMARY KEY ("token")
+);
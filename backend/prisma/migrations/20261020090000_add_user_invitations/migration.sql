@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "users" ALTER COLUMN "role" SET DEFAULT 'editor';
+
+-- The first admin becomes the owner, who can't be locked out by other admins
+UPDATE "users" SET "role" = 'owner'
+WHERE "id" = (SELECT "id" FROM "users" WHERE "role" = 'admin' ORDER BY "created_at" ASC LIMIT 1)
+  AND NOT EXISTS (SELECT 1 FROM "users" WHERE "role" = 'owner');
+
+-- CreateTable
+CREATE TABLE "user_invitations" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "first_name" TEXT,
+    "last_name" TEXT,
+    "token_hash" TEXT NOT NULL,
+    "invited_by_id" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "accepted_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_invitations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_invitations_token_hash_key" ON "user_invitations"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "user_invitations_email_idx" ON "user_invitations"("email");
+
+-- AddForeignKey
+ALTER TABLE "user_invitations" ADD CONSTRAINT "user_invitations_invited_by_id_fkey" FOREIGN KEY ("invited_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "client_emails" (
+    "id" TEXT NOT NULL,
+    "client_id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "client_emails_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "client_emails_email_key" ON "client_emails"("email");
+
+-- CreateIndex
+CREATE INDEX "client_emails_client_id_idx" ON "client_emails"("client_id");
+
+-- AddForeignKey
+ALTER TABLE "client_emails" ADD CONSTRAINT "client_emails_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+import { Permission } from './roles';
+
+// Parts of the API an integration can be given. Users and integrations themselves stay
+// with people signed in to the admin area.
+export const API_KEY_AREAS = [
+  'bookings',
+  'inquiries',
+  'clients',
+  'invoices',
+  'services',
+  'portfolio',
+  'files',
+  'settings',
+] as const;
+
+export type ApiKeyArea = typeof API_KEY_AREAS[number];
+
+// `read` allows GET requests; `write` allows changes as well
+export type ApiKeyScope = `${ApiKeyArea}:${'read' | 'write'}`;
+
+export const API_KEY_SCOPES: ApiKeyScope[] = API_KEY_AREAS.flatMap(area => [
+  `${area}:read` as const,
+  `${area}:write` as const,
+]);
+
+export const isApiKeyScope = (value: string): value is ApiKeyScope =>
+  (API_KEY_SCOPES as string[]).includes(value);
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Whether a key's scopes cover a request to a route guarded by `permission`: the
+ * permission's area, read for safe methods and write for anything else.
+ */
+export const scopesAllow = (scopes: readonly string[], permission: Permission, method: string): boolean => {
+  const [area] = permission.split(':');
+  const write = `${area}:write`;
+
+  return SAFE_METHODS.includes(method.toUpperCase())
+    ? scopes.includes(`${area}:read`) || scopes.includes(write)
+    : scopes.includes(write);
+};
@@ -0,0 +1,30 @@
+import { CookieOptions } from 'express';
+
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+
+const ACCESS_TOKEN_MAX_AGE_MS = 15 * 60 * 1000; // matches the access token's own expiry
+
+const baseOptions = (): CookieOptions => {
+  const sameSite = (process.env['COOKIE_SAME_SITE'] || 'lax') as 'lax' | 'strict' | 'none';
+  return {
+    httpOnly: true,
+    // Browsers refuse SameSite=None cookies that aren't Secure
+    secure: process.env['NODE_ENV'] === 'production' || sameSite === 'none',
+    sameSite,
+    ...(process.env['COOKIE_DOMAIN'] && { domain: process.env['COOKIE_DOMAIN'] }),
+  };
+};
+
+// The access token goes to every API route; the refresh token only to the auth routes that use it
+export const accessTokenCookieOptions = (): CookieOptions => ({
+  ...baseOptions(),
+  path: '/api',
+  maxAge: ACCESS_TOKEN_MAX_AGE_MS,
+});
+
+export const refreshTokenCookieOptions = (expiresAt?: Date): CookieOptions => ({
+  ...baseOptions(),
+  path: '/api/auth',
+  ...(expiresAt && { expires: expiresAt }),
+});
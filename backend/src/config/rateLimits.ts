@@ -0,0 +1,101 @@
+import { Request } from 'express';
+
+export interface RateLimitPolicy {
+  name: string;
+  windowMs: number;
+  max: number;
+  message: string;
+  // How long a client stays blocked once over the limit; without it they wait for the window to end
+  blockMs?: number;
+  // Lower the limit for clients with recent violations of any policy
+  progressive?: boolean;
+  // Count requests per signed-in user rather than per IP
+  perUser?: boolean;
+  skipSuccessfulRequests?: boolean;
+  skip?: (req: Request) => boolean;
+}
+
+const MINUTE = 60 * 1000;
+const isDevelopment = process.env['NODE_ENV'] === 'development';
+
+const policies = {
+  // General API rate limiter
+  general: {
+    name: 'general',
+    windowMs: parseInt(process.env['RATE_LIMIT_WINDOW_MS'] || String(15 * MINUTE), 10),
+    max: isDevelopment ? 1000 : parseInt(process.env['RATE_LIMIT_MAX_REQUESTS'] || '100', 10),
+    message: 'Too many requests from this IP, please try again later.',
+    skip: (req: Request) => req.path === '/health',
+  },
+  // Strict limiter for authentication endpoints; successful logins don't count
+  auth: {
+    name: 'auth',
+    windowMs: 15 * MINUTE,
+    max: 5,
+    message: 'Too many requests from this IP, please try again later.',
+    skipSuccessfulRequests: true,
+  },
+  // Reset emails, so an address can't be flooded with links
+  passwordReset: {
+    name: 'passwordReset',
+    windowMs: 60 * MINUTE,
+    max: 5,
+    message: 'Too many password reset requests. Please try again later.',
+  },
+  upload: {
+    name: 'upload',
+    windowMs: 60 * MINUTE,
+    max: 20,
+    message: 'Too many requests from this IP, please try again later.',
+  },
+  contact: {
+    name: 'contact',
+    windowMs: 60 * MINUTE,
+    max: 3,
+    message: 'Too many requests from this IP, please try again later.',
+  },
+  booking: {
+    name: 'booking',
+    windowMs: 60 * MINUTE,
+    max: 10,
+    message: 'Too many requests from this IP, please try again later.',
+  },
+  // More lenient for authenticated admin users
+  admin: {
+    name: 'admin',
+    windowMs: 15 * MINUTE,
+    max: 200,
+    message: 'Too many requests from this IP, please try again later.',
+    perUser: true,
+  },
+  // Increases restrictions for repeat offenders
+  progressive: {
+    name: 'progressive',
+    windowMs: 15 * MINUTE,
+    max: 100,
+    message: 'Too many requests from this IP, please try again later.',
+    progressive: true,
+  },
+  contactForm: {
+    name: 'contactForm',
+    windowMs: 5 * MINUTE,
+    max: 3,
+    blockMs: 15 * MINUTE,
+    message: 'Too many contact form submissions. Please try again later.',
+  },
+  contactEndpoint: {
+    name: 'contactEndpoint',
+    windowMs: MINUTE,
+    max: 10,
+    blockMs: 5 * MINUTE,
+    message: 'Too many requests. Please try again later.',
+  },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof policies;
+
+// Every rate limit in the API, by name
+export const rateLimitPolicies: Record<RateLimitPolicyName, RateLimitPolicy> = policies;
+
+// Violations are remembered this long when lowering progressive limits
+export const VIOLATION_MEMORY_MS = 60 * MINUTE;
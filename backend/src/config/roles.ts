@@ -0,0 +1,34 @@
+export const ROLES = ['owner', 'admin', 'manager', 'editor', 'photographer'] as const;
+
+export type Role = typeof ROLES[number];
+
+// Who may do what in the admin API. Owners can do everything.
+const permissions = {
+  // Invite, edit and remove users
+  'users:manage': ['owner', 'admin'],
+  // API keys and other connections to outside services
+  'integrations:manage': ['owner', 'admin'],
+  // Studio-wide settings: schedule, billing, email, spam filter and rate limits
+  'settings:manage': ['owner', 'admin', 'manager'],
+  'bookings:read': ['owner', 'admin', 'manager', 'photographer'],
+  'bookings:manage': ['owner', 'admin', 'manager'],
+  'inquiries:manage': ['owner', 'admin', 'manager'],
+  'clients:manage': ['owner', 'admin', 'manager'],
+  'invoices:manage': ['owner', 'admin', 'manager'],
+  'services:manage': ['owner', 'admin', 'manager', 'editor'],
+  'portfolio:manage': ['owner', 'admin', 'manager', 'editor', 'photographer'],
+  'files:manage': ['owner', 'admin', 'manager', 'editor', 'photographer'],
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof permissions;
+
+export const rolePermissions: Record<Permission, readonly Role[]> = permissions;
+
+export const isRole = (value: string): value is Role => (ROLES as readonly string[]).includes(value);
+
+export const hasPermission = (role: string, permission: Permission): boolean =>
+  (rolePermissions[permission] as readonly string[]).includes(role);
+
+// Every permission a role has, for clients deciding what to show
+export const permissionsFor = (role: string): Permission[] =>
+  (Object.keys(rolePermissions) as Permission[]).filter(permission => hasPermission(role, permission));
@@ -33,11 +33,17 @@ const swaggerDefinition = {
         bearerFormat: 'JWT',
         description: 'Enter JWT token in the format: Bearer <token>',
       },
+      cookieAuth: {
+        type: 'apiKey',
+        in: 'cookie',
+        name: 'access_token',
+        description: 'Session cookie set at login; changes also need the X-CSRF-Token header',
+      },
       apiKey: {
         type: 'apiKey',
         in: 'header',
         name: 'X-API-Key',
-        description: 'API key for external integrations',
+        description: 'API key for integrations, created by an admin; also accepted as a bearer token. Limited to its scopes',
       },
     },
     schemas: {
@@ -417,6 +423,50 @@ const swaggerDefinition = {
     {
       name: 'Service Categories',
       description: 'Endpoints related to service category management',
+    },
+    {
+      name: 'Schedule',
+      description: 'Studio opening hours and blackout date endpoints',
+    },
+    {
+      name: 'Resources',
+      description: 'Bookable rooms, crew and equipment endpoints',
+    },
+    {
+      name: 'Invoices',
+      description: 'Quotes, invoices, deposits and payment endpoints',
+    },
+    {
+      name: 'Email Templates',
+      description: 'Admin-editable email template endpoints',
+    },
+    {
+      name: 'Email',
+      description: 'Email delivery log, retries and suppression list endpoints',
+    },
+    {
+      name: 'Clients',
+      description: 'Client records, history, notes and duplicate merging endpoints',
+    },
+    {
+      name: 'Spam',
+      description: 'Spam filter thresholds, rules and classifier training endpoints',
+    },
+    {
+      name: 'Challenge',
+      description: 'Proof-of-work challenges for public forms',
+    },
+    {
+      name: 'Rate Limits',
+      description: 'Rate limit counters and blocks per client',
+    },
+    {
+      name: 'Users',
+      description: 'Admin users, roles and invitations',
+    },
+    {
+      name: 'Webhooks',
+      description: 'Outbound webhook subscriptions and their delivery log',
     }
   ],
 };
@@ -0,0 +1,19 @@
+// Events outside systems can subscribe to, with what each one means
+export const WEBHOOK_EVENTS = {
+  'booking.created': 'A client requested a booking',
+  'booking.confirmed': 'A booking was confirmed',
+  'booking.cancelled': 'A booking was cancelled, by the studio or the client',
+  'inquiry.created': 'A contact inquiry arrived',
+  'portfolio.created': 'A portfolio item was added',
+  'portfolio.updated': 'A portfolio item or its media changed',
+  'portfolio.deleted': 'A portfolio item was removed',
+} as const;
+
+export type WebhookEvent = keyof typeof WEBHOOK_EVENTS;
+
+// Sent only by the "send test" action, to whichever events a subscription has
+export const WEBHOOK_PING_EVENT = 'ping';
+
+export const WEBHOOK_EVENT_TYPES = Object.keys(WEBHOOK_EVENTS) as WebhookEvent[];
+
+export const isWebhookEvent = (value: string): value is WebhookEvent => value in WEBHOOK_EVENTS;
@@ -0,0 +1,75 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { API_KEY_SCOPES } from '../config/apiKeyScopes';
+import { AppError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../types/auth';
+import { apiKeyService } from '../services/apiKeyService';
+
+export class ApiKeyController {
+  // Keys that haven't been revoked, with the scopes a new key can be given
+  async getApiKeys(_req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const apiKeys = await apiKeyService.list();
+
+      res.status(200).json({
+        message: 'API keys retrieved successfully',
+        data: { apiKeys, scopes: API_KEY_SCOPES },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get API keys error:', 'Failed to retrieve API keys');
+    }
+  }
+
+  // The key itself is only in this response
+  async createApiKey(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const data = await apiKeyService.create(req.body, req.user!);
+
+      res.status(201).json({
+        message: 'API key created successfully',
+        data,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Create API key error:', 'Failed to create API key');
+    }
+  }
+
+  async revokeApiKey(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      await apiKeyService.revoke(req.params['id'] || '', req.user!);
+
+      res.status(200).json({
+        message: 'API key revoked',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Revoke API key error:', 'Failed to revoke API key');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, logMessage: string, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: error.code,
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        message: 'Invalid API key data',
+        details: error.errors,
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
+
+export const apiKeyController = new ApiKeyController();
@@ -1,7 +1,18 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
+import {
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  accessTokenCookieOptions,
+  refreshTokenCookieOptions,
+} from '../config/authCookies';
+import { permissionsFor } from '../config/roles';
+import { AppError } from '../middleware/errorHandler';
 import { authService } from '../services/authService';
-import { AuthenticatedRequest } from '../types/auth';
+import { SessionClient, sessionService } from '../services/sessionService';
+import { userService } from '../services/userService';
+import { AuthResult, AuthenticatedRequest } from '../types/auth';
+import { parseCookies } from '../utils/cookies';
 
 // Validation schemas
 const registerSchema = z.object({
@@ -18,7 +29,14 @@ const loginSchema = z.object({
 });
 
 const refreshTokenSchema = z.object({
-  refreshToken: z.string().min(1, 'Refresh token is required')
+  refreshToken: z.string().min(1, 'Refresh token is required').optional()
+});
+
+const acceptInvitationSchema = z.object({
+  password: z.string().min(8, 'Password must be at least 8 characters long')
+    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one lowercase letter, one uppercase letter, and one number'),
+  firstName: z.string().optional(),
+  lastName: z.string().optional()
 });
 
 const forgotPasswordSchema = z.object({
@@ -31,6 +49,30 @@ const resetPasswordSchema = z.object({
     .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one lowercase letter, one uppercase letter, and one number')
 });
 
+const sessionClient = (req: Request): SessionClient => ({
+  userAgent: req.get('User-Agent'),
+  ipAddress: req.ip,
+});
+
+// Put the tokens in httpOnly cookies; the refresh token is left out of the response body
+const startCookieSession = (res: Response, result: AuthResult) => {
+  res.cookie(ACCESS_TOKEN_COOKIE, result.accessToken, accessTokenCookieOptions());
+  res.cookie(REFRESH_TOKEN_COOKIE, result.refreshToken, refreshTokenCookieOptions(result.refreshTokenExpiresAt));
+
+  return {
+    user: result.user,
+    accessToken: result.accessToken,
+    csrfToken: result.csrfToken,
+    expiresIn: result.expiresIn
+  };
+};
+
+const clearCookieSession = (res: Response) => {
+  const { maxAge: _accessMaxAge, ...accessOptions } = accessTokenCookieOptions();
+  res.clearCookie(ACCESS_TOKEN_COOKIE, accessOptions);
+  res.clearCookie(REFRESH_TOKEN_COOKIE, refreshTokenCookieOptions());
+};
+
 export class AuthController {
   async register(req: Request, res: Response): Promise<void> {
     try {
@@ -40,12 +82,13 @@ export class AuthController {
         validatedData.email,
         validatedData.password,
         validatedData.firstName,
-        validatedData.lastName
+        validatedData.lastName,
+        sessionClient(req)
       );
 
       res.status(201).json({
         message: 'User registered successfully',
-        data: result
+        data: startCookieSession(res, result)
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -58,10 +101,10 @@ export class AuthController {
       }
 
       if (error instanceof Error) {
-        if (error.message === 'User already exists with this email') {
-          res.status(409).json({
-            error: 'Conflict',
-            message: error.message
+        if (error.message === 'Registration is closed') {
+          res.status(403).json({
+            error: 'Registration closed',
+            message: 'Accounts are created by invitation. Ask an admin to invite you.'
           });
           return;
         }
@@ -81,12 +124,24 @@ export class AuthController {
 
       const result = await authService.login(
         validatedData.email,
-        validatedData.password
+        validatedData.password,
+        sessionClient(req)
       );
 
+      // No cookies yet: the challenge token carries the login to its second factor
+      if ('challengeToken' in result) {
+        res.status(200).json({
+          message: result.twoFactor === 'verify'
+            ? 'Two-factor authentication required'
+            : 'Two-factor authentication must be set up',
+          data: result
+        });
+        return;
+      }
+
       res.status(200).json({
         message: 'Login successful',
-        data: result
+        data: startCookieSession(res, result)
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -98,6 +153,15 @@ export class AuthController {
         return;
       }
 
+      // Locked accounts (423)
+      if (error instanceof AppError) {
+        res.status(error.status).json({
+          error: error.code,
+          message: error.message
+        });
+        return;
+      }
+
       if (error instanceof Error) {
         if (error.message === 'Invalid email or password') {
           res.status(401).json({
@@ -116,15 +180,73 @@ export class AuthController {
     }
   }
 
+  async verifyTwoFactorLogin(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await authService.completeTwoFactorLogin(
+        req.body.challengeToken,
+        req.body.code,
+        sessionClient(req)
+      );
+
+      res.status(200).json({
+        message: 'Login successful',
+        data: startCookieSession(res, result)
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Two-factor login error:', 'Failed to verify authentication code');
+    }
+  }
+
+  async beginTwoFactorSetupAtLogin(req: Request, res: Response): Promise<void> {
+    try {
+      const setup = await authService.beginTwoFactorSetupAtLogin(req.body.challengeToken);
+
+      res.status(200).json({
+        message: 'Scan the QR code with your authenticator app',
+        data: setup
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Two-factor setup error:', 'Failed to start two-factor setup');
+    }
+  }
+
+  // Finish the required enrolment and sign in; the recovery codes are only shown now
+  async enableTwoFactorAtLogin(req: Request, res: Response): Promise<void> {
+    try {
+      const { recoveryCodes, ...result } = await authService.enableTwoFactorAtLogin(
+        req.body.challengeToken,
+        req.body.code,
+        sessionClient(req)
+      );
+
+      res.status(200).json({
+        message: 'Two-factor authentication enabled',
+        data: { ...startCookieSession(res, result), recoveryCodes }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Two-factor enable error:', 'Failed to enable two-factor authentication');
+    }
+  }
+
   async refreshToken(req: Request, res: Response): Promise<void> {
     try {
-      const validatedData = refreshTokenSchema.parse(req.body);
+      const validatedData = refreshTokenSchema.parse(req.body ?? {});
+      const refreshToken = validatedData.refreshToken || parseCookies(req.headers.cookie)[REFRESH_TOKEN_COOKIE];
 
-      const result = await authService.refreshToken(validatedData.refreshToken);
+      if (!refreshToken) {
+        clearCookieSession(res);
+        res.status(401).json({
+          error: 'Authentication failed',
+          message: 'Refresh token required'
+        });
+        return;
+      }
+
+      const result = await authService.refreshToken(refreshToken, sessionClient(req));
 
       res.status(200).json({
         message: 'Token refreshed successfully',
-        data: result
+        data: startCookieSession(res, result)
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -138,6 +260,7 @@ export class AuthController {
 
       if (error instanceof Error) {
         if (error.message.includes('Invalid refresh token') || error.message === 'User not found') {
+          clearCookieSession(res);
           res.status(401).json({
             error: 'Authentication failed',
             message: 'Invalid or expired refresh token'
@@ -154,18 +277,46 @@ export class AuthController {
     }
   }
 
-  async forgotPassword(req: Request, res: Response): Promise<void> {
+  async getInvitation(req: Request, res: Response): Promise<void> {
     try {
-      const validatedData = forgotPasswordSchema.parse(req.body);
+      const invitation = await userService.findInvitation(req.params['token'] as string);
 
-      const resetToken = await authService.forgotPassword(validatedData.email);
+      if (!invitation) {
+        res.status(404).json({
+          error: 'Invalid invitation',
+          message: 'This invitation is invalid, has expired or has already been used'
+        });
+        return;
+      }
 
-      // In a real application, you would send this token via email
-      // For now, we'll return it in the response (NOT recommended for production)
       res.status(200).json({
-        message: 'Password reset token generated',
-        // TODO: Remove this in production - send via email instead
-        resetToken: process.env['NODE_ENV'] === 'development' ? resetToken : undefined
+        message: 'Invitation retrieved successfully',
+        data: { invitation }
+      });
+    } catch (error) {
+      console.error('Get invitation error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to get invitation'
+      });
+    }
+  }
+
+  async acceptInvitation(req: Request, res: Response): Promise<void> {
+    try {
+      const validatedData = acceptInvitationSchema.parse(req.body);
+
+      const result = await authService.acceptInvitation(
+        req.params['token'] as string,
+        validatedData.password,
+        validatedData.firstName,
+        validatedData.lastName,
+        sessionClient(req)
+      );
+
+      res.status(201).json({
+        message: 'Invitation accepted',
+        data: startCookieSession(res, result)
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -177,10 +328,50 @@ export class AuthController {
         return;
       }
 
-      // Always return success message for security (don't reveal if email exists)
+      if (error instanceof AppError) {
+        res.status(error.status).json({
+          error: error.code,
+          message: error.message
+        });
+        return;
+      }
+
+      console.error('Accept invitation error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to accept invitation'
+      });
+    }
+  }
+
+  async forgotPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const validatedData = forgotPasswordSchema.parse(req.body);
+
+      // Respond before the lookup finishes so known and unknown emails can't be told
+      // apart by the response or by how long it takes
+      authService.forgotPassword(validatedData.email).catch(error => {
+        console.error('Forgot password error:', error);
+      });
+
       res.status(200).json({
         message: 'If a user with this email exists, a password reset link has been sent'
       });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Invalid input data',
+          details: error.errors
+        });
+        return;
+      }
+
+      console.error('Forgot password error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to request password reset'
+      });
     }
   }
 
@@ -208,9 +399,9 @@ export class AuthController {
 
       if (error instanceof Error) {
         if (error.message.includes('Invalid reset token')) {
-          res.status(401).json({
-            error: 'Authentication failed',
-            message: 'Invalid or expired reset token'
+          res.status(400).json({
+            error: 'Invalid reset token',
+            message: 'This reset link is invalid, has expired or has already been used'
           });
           return;
         }
@@ -224,10 +415,13 @@ export class AuthController {
     }
   }
 
-  async logout(_req: AuthenticatedRequest, res: Response): Promise<void> {
+  async logout(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      // In a stateless JWT system, logout is handled client-side by removing the token
-      // For enhanced security, you could maintain a blacklist of tokens
+      if (req.sessionId) {
+        await sessionService.revoke(req.sessionId, 'logout');
+      }
+      clearCookieSession(res);
+
       res.status(200).json({
         message: 'Logout successful'
       });
@@ -240,6 +434,94 @@ export class AuthController {
     }
   }
 
+  async logoutAll(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'Please authenticate first'
+        });
+        return;
+      }
+
+      const revoked = await sessionService.revokeAll(req.user.id, 'logout_all');
+      clearCookieSession(res);
+
+      res.status(200).json({
+        message: 'Logged out of all sessions',
+        data: { revoked }
+      });
+    } catch (error) {
+      console.error('Logout all error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to logout'
+      });
+    }
+  }
+
+  async getSessions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'Please authenticate first'
+        });
+        return;
+      }
+
+      const sessions = await sessionService.list(req.user.id, req.sessionId);
+
+      res.status(200).json({
+        message: 'Sessions retrieved successfully',
+        data: { sessions }
+      });
+    } catch (error) {
+      console.error('Get sessions error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to get sessions'
+      });
+    }
+  }
+
+  async revokeSession(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'Please authenticate first'
+        });
+        return;
+      }
+
+      const sessionId = req.params['id'] as string;
+      const revoked = await sessionService.revoke(sessionId, 'revoked', req.user.id);
+
+      if (!revoked) {
+        res.status(404).json({
+          error: 'Not found',
+          message: 'Session not found'
+        });
+        return;
+      }
+
+      if (sessionId === req.sessionId) {
+        clearCookieSession(res);
+      }
+
+      res.status(200).json({
+        message: 'Session revoked successfully'
+      });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to revoke session'
+      });
+    }
+  }
+
   async getProfile(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       if (!req.user) {
@@ -253,7 +535,8 @@ export class AuthController {
       res.status(200).json({
         message: 'Profile retrieved successfully',
         data: {
-          user: req.user
+          user: req.user,
+          permissions: permissionsFor(req.user.role)
         }
       });
     } catch (error) {
@@ -264,6 +547,22 @@ export class AuthController {
       });
     }
   }
+
+  private handleError(res: Response, error: unknown, logMessage: string, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage
+    });
+  }
 }
 
 export const authController = new AuthController();
\ No newline at end of file
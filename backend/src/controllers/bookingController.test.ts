@@ -1,9 +1,17 @@
 import request from 'supertest';
 import app from '../index';
 import { PrismaClient } from '@prisma/client';
+import { solve } from '../utils/proofOfWork';
 
 const prisma = new PrismaClient();
 
+// Fetch a proof-of-work challenge and solve it, as the public forms do
+const solvedChallenge = async () => {
+  const response = await request(app).get('/api/challenge').expect(200);
+  const { challenge, difficulty } = response.body.data;
+  return { challenge, challengeSolution: solve(challenge, difficulty) };
+};
+
 describe('BookingController', () => {
   beforeAll(async () => {
     // Ensure database connection
@@ -87,7 +95,7 @@ describe('BookingController', () => {
 
       const response = await request(app)
         .post('/api/bookings')
-        .send(bookingData)
+        .send({ ...bookingData, ...(await solvedChallenge()) })
         .expect(201);
 
       expect(response.body).toHaveProperty('message');
@@ -119,7 +127,7 @@ describe('BookingController', () => {
 
       const response = await request(app)
         .post('/api/bookings')
-        .send(bookingData)
+        .send({ ...bookingData, ...(await solvedChallenge()) })
         .expect(400);
 
       expect(response.body).toHaveProperty('error');
@@ -149,7 +157,7 @@ describe('BookingController', () => {
 
       const response = await request(app)
         .post('/api/bookings')
-        .send(bookingData)
+        .send({ ...bookingData, ...(await solvedChallenge()) })
         .expect(400);
 
       expect(response.body).toHaveProperty('error');
@@ -179,7 +187,7 @@ describe('BookingController', () => {
 
       const response = await request(app)
         .post('/api/bookings')
-        .send(bookingData)
+        .send({ ...bookingData, ...(await solvedChallenge()) })
         .expect(400);
 
       expect(response.body).toHaveProperty('error');
@@ -188,13 +196,30 @@ describe('BookingController', () => {
   });
 
   describe('GET /api/bookings/:id', () => {
-    it('should return 404 for non-existent booking', async () => {
+    it('should require authentication', async () => {
       const response = await request(app)
         .get('/api/bookings/non-existent-id')
-        .expect(404);
+        .expect(401);
 
       expect(response.body).toHaveProperty('error');
-      expect(response.body.message).toContain('not exist');
+    });
+  });
+
+  describe('DELETE /api/bookings/:id', () => {
+    it('should require authentication', async () => {
+      await request(app)
+        .delete('/api/bookings/non-existent-id')
+        .expect(401);
+    });
+  });
+
+  describe('GET /api/bookings/manage/:token', () => {
+    it('should reject an invalid booking link', async () => {
+      const response = await request(app)
+        .get('/api/bookings/manage/not-a-real-token')
+        .expect(401);
+
+      expect(response.body.error).toBe('Invalid booking link');
     });
   });
 });
\ No newline at end of file
@@ -1,10 +1,50 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../types/auth';
 import { emailService } from '../services/emailService';
+import { scheduleService, ACTIVE_BOOKING_STATUSES } from '../services/scheduleService';
+import { bookingAccessService } from '../services/bookingAccessService';
+import { invoiceService } from '../services/invoiceService';
+import { bookingLifecycleService } from '../services/bookingLifecycleService';
+import { waitlistService } from '../services/waitlistService';
+import { clientService } from '../services/clientService';
+import { SpamVerdict, spamFilterService } from '../services/spamFilterService';
+import { zonedTimeToUtc, addDaysToDateKey } from '../utils/timeZone';
 
 const prisma = new PrismaClient();
 
+// Fields a client may see through their booking link (internal notes stay private)
+const MANAGED_BOOKING_SELECT = {
+  id: true,
+  clientName: true,
+  clientEmail: true,
+  clientPhone: true,
+  serviceId: true,
+  bookingDate: true,
+  startTime: true,
+  endTime: true,
+  timeZone: true,
+  status: true,
+  projectDetails: true,
+  budgetRange: true,
+  location: true,
+  calendarSequence: true,
+  service: {
+    select: {
+      id: true,
+      name: true,
+      duration: true,
+      category: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  },
+} as const;
+
 export class BookingController {
   // Get all bookings with filtering
   async getAllBookings(req: Request, res: Response): Promise<void> {
@@ -20,6 +60,9 @@ export class BookingController {
       
       if (status) {
         where.status = status;
+      } else {
+        // Bookings held as spam only show when asked for
+        where.status = { notIn: ['quarantined', 'spam'] };
       }
       
       if (clientEmail) {
@@ -59,6 +102,13 @@ export class BookingController {
                 },
               },
             },
+            series: {
+              select: {
+                id: true,
+                recurrence: true,
+                _count: { select: { bookings: true } },
+              },
+            },
           },
           orderBy: [
             { bookingDate: 'desc' },
@@ -139,6 +189,30 @@ export class BookingController {
               },
             },
           },
+          resources: {
+            include: {
+              resource: {
+                select: {
+                  id: true,
+                  name: true,
+                  type: true,
+                },
+              },
+            },
+          },
+          invoices: {
+            select: {
+              id: true,
+              number: true,
+              type: true,
+              status: true,
+              currency: true,
+              total: true,
+              depositAmount: true,
+              amountPaid: true,
+            },
+            orderBy: { createdAt: 'asc' },
+          },
         },
       });
 
@@ -172,6 +246,44 @@ export class BookingController {
     }
   }
 
+  // Get the status history of a booking
+  async getBookingHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const booking = await prisma.booking.findUnique({
+        where: { id: id || '' },
+        select: { id: true, status: true },
+      });
+
+      if (!booking) {
+        res.status(404).json({
+          error: 'Booking not found',
+          message: 'Booking with the specified ID does not exist',
+        });
+        return;
+      }
+
+      const events = await bookingLifecycleService.getHistory(booking.id);
+
+      res.status(200).json({
+        message: 'Booking history retrieved successfully',
+        data: {
+          bookingId: booking.id,
+          status: booking.status,
+          allowedTransitions: bookingLifecycleService.getAllowedTransitions(booking.status),
+          events,
+        },
+      });
+    } catch (error) {
+      console.error('Get booking history error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve booking history',
+      });
+    }
+  }
+
   // Create new booking
   async createBooking(req: Request, res: Response): Promise<void> {
     try {
@@ -200,38 +312,25 @@ export class BookingController {
         }
       }
 
-      // Check for double booking - ensure no overlapping bookings exist
       const startTime = new Date(bookingData.startTime);
       const endTime = new Date(bookingData.endTime);
 
-      const overlappingBookings = await prisma.booking.findMany({
-        where: {
-          status: { in: ['pending', 'confirmed'] },
-          OR: [
-            // New booking starts during existing booking
-            {
-              AND: [
-                { startTime: { lte: startTime } },
-                { endTime: { gt: startTime } },
-              ],
-            },
-            // New booking ends during existing booking
-            {
-              AND: [
-                { startTime: { lt: endTime } },
-                { endTime: { gte: endTime } },
-              ],
-            },
-            // New booking completely contains existing booking
-            {
-              AND: [
-                { startTime: { gte: startTime } },
-                { endTime: { lte: endTime } },
-              ],
-            },
-          ],
-        },
-      });
+      // Ensure the booking falls inside the studio's opening hours
+      const windowViolation = await scheduleService.validateBookingWindow(startTime, endTime);
+      if (windowViolation) {
+        res.status(400).json({
+          error: 'Outside studio hours',
+          message: windowViolation.message,
+          details: { reason: windowViolation.reason },
+        });
+        return;
+      }
+
+      // Check the service's resources are free, including setup and teardown buffers
+      const [requirements, overlappingBookings] = await Promise.all([
+        scheduleService.getServiceRequirements(bookingData.serviceId),
+        scheduleService.findBookingConflicts({ start: startTime, end: endTime }, bookingData.serviceId),
+      ]);
 
       if (overlappingBookings.length > 0) {
         res.status(409).json({
@@ -259,12 +358,35 @@ export class BookingController {
         return;
       }
 
+      // Record the studio day and zone so the booking reads the same after a zone change
+      const { timeZone, bookingDate } = await scheduleService.getBookingDay(startTime);
+      const spam = res.locals['spam'] as SpamVerdict | undefined;
+      const quarantined = spam?.action === 'quarantine';
+
+      // Quarantined bookings get a client record only once an admin releases them
+      const clientId = quarantined ? null : await clientService.resolve({
+        name: bookingData.clientName,
+        email: bookingData.clientEmail,
+        phone: bookingData.clientPhone,
+      });
+
       const booking = await prisma.booking.create({
         data: {
           ...bookingData,
+          clientId,
           startTime,
           endTime,
-          bookingDate: new Date(bookingData.bookingDate),
+          bookingDate,
+          timeZone,
+          resources: {
+            create: requirements.map(({ resourceId, quantity }) => ({ resourceId, quantity })),
+          },
+          ...(quarantined && { status: 'quarantined' }),
+          ...(spam && { spamScore: spam.score, spamReasons: spam.reasons }),
+          events: bookingLifecycleService.creationEvent(
+            bookingLifecycleService.clientActor(bookingData),
+            quarantined ? 'quarantined' : 'pending'
+          ),
         },
         include: {
           service: {
@@ -283,6 +405,18 @@ export class BookingController {
         },
       });
 
+      // The spam verdict is for the studio only, not the person booking
+      const { spamScore: _spamScore, spamReasons: _spamReasons, spamLabel: _spamLabel, ...publicBooking } = booking;
+
+      // Held for review: the client sees a pending request and no emails go out yet
+      if (quarantined) {
+        res.status(201).json({
+          message: 'Booking created successfully',
+          data: { booking: { ...publicBooking, status: 'pending' } },
+        });
+        return;
+      }
+
       // TODO: Send confirmation email to client and admin
       // This will be implemented when email service is available
 
@@ -297,13 +431,16 @@ export class BookingController {
             bookingDate: booking.bookingDate,
             startTime: booking.startTime,
             endTime: booking.endTime,
+            timeZone: booking.timeZone,
             status: booking.status,
             projectDetails: booking.projectDetails,
             budgetRange: booking.budgetRange,
             location: booking.location,
             notes: booking.notes,
+            calendarSequence: booking.calendarSequence,
           },
           service: booking.service,
+          manageUrl: bookingAccessService.getManageUrl(bookingAccessService.generateManageToken(booking)),
         };
 
         // Send confirmation email to client
@@ -316,9 +453,11 @@ export class BookingController {
         console.error('Failed to send booking emails:', emailError);
       }
 
+      await bookingLifecycleService.notifyCreated([booking.id]);
+
       res.status(201).json({
         message: 'Booking created successfully',
-        data: { booking },
+        data: { booking: publicBooking },
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -339,7 +478,7 @@ export class BookingController {
   }
 
   // Update booking
-  async updateBooking(req: Request, res: Response): Promise<void> {
+  async updateBooking(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params;
       const updateData = req.body;
@@ -366,6 +505,27 @@ export class BookingController {
         return;
       }
 
+      const statusChanged = !!updateData.status && updateData.status !== existingBooking.status;
+      if (statusChanged && !bookingLifecycleService.canTransition(existingBooking.status, updateData.status)) {
+        res.status(400).json({
+          error: 'Invalid status transition',
+          message: `Cannot change booking status from ${existingBooking.status} to ${updateData.status}`,
+        });
+        return;
+      }
+
+      if (updateData.status === 'confirmed' && existingBooking.status !== 'confirmed') {
+        const depositStatus = await invoiceService.getDepositStatus(id);
+        if (depositStatus.required && !depositStatus.satisfied) {
+          res.status(409).json({
+            error: 'Deposit required',
+            message: 'The deposit must be paid before this booking can be confirmed',
+            details: depositStatus,
+          });
+          return;
+        }
+      }
+
       // If updating serviceId, validate that the service exists
       if (updateData.serviceId && updateData.serviceId !== existingBooking.serviceId) {
         const service = await prisma.service.findUnique({
@@ -389,10 +549,11 @@ export class BookingController {
         }
       }
 
-      // If updating time slots, check for double booking
-      if (updateData.startTime || updateData.endTime) {
+      // If updating time slots or service, re-check opening hours and double booking
+      if (updateData.startTime || updateData.endTime || updateData.serviceId) {
         const startTime = updateData.startTime ? new Date(updateData.startTime) : existingBooking.startTime;
         const endTime = updateData.endTime ? new Date(updateData.endTime) : existingBooking.endTime;
+        const serviceId = updateData.serviceId || existingBooking.serviceId;
 
         // Ensure end time is after start time
         if (endTime <= startTime) {
@@ -403,33 +564,22 @@ export class BookingController {
           return;
         }
 
+        const windowViolation = await scheduleService.validateBookingWindow(startTime, endTime);
+        if (windowViolation) {
+          res.status(400).json({
+            error: 'Outside studio hours',
+            message: windowViolation.message,
+            details: { reason: windowViolation.reason },
+          });
+          return;
+        }
+
         // Check for overlapping bookings (excluding current booking)
-        const overlappingBookings = await prisma.booking.findMany({
-          where: {
-            id: { not: id },
-            status: { in: ['pending', 'confirmed'] },
-            OR: [
-              {
-                AND: [
-                  { startTime: { lte: startTime } },
-                  { endTime: { gt: startTime } },
-                ],
-              },
-              {
-                AND: [
-                  { startTime: { lt: endTime } },
-                  { endTime: { gte: endTime } },
-                ],
-              },
-              {
-                AND: [
-                  { startTime: { gte: startTime } },
-                  { endTime: { lte: endTime } },
-                ],
-              },
-            ],
-          },
-        });
+        const overlappingBookings = await scheduleService.findBookingConflicts(
+          { start: startTime, end: endTime },
+          serviceId,
+          id
+        );
 
         if (overlappingBookings.length > 0) {
           res.status(409).json({
@@ -456,11 +606,32 @@ export class BookingController {
       if (updateData.endTime) {
         processedUpdateData.endTime = new Date(updateData.endTime);
       }
-      if (updateData.bookingDate) {
-        processedUpdateData.bookingDate = new Date(updateData.bookingDate);
+      // The studio day always follows the start time
+      delete processedUpdateData.bookingDate;
+      if (updateData.startTime) {
+        Object.assign(processedUpdateData, await scheduleService.getBookingDay(processedUpdateData.startTime));
+      }
+
+      // Status changes go through the booking lifecycle so they land in the booking's history
+      delete processedUpdateData.status;
+
+      // Calendar apps only apply changes that come with a higher SEQUENCE
+      const timeChanged = (processedUpdateData.startTime && processedUpdateData.startTime.getTime() !== existingBooking.startTime.getTime())
+        || (processedUpdateData.endTime && processedUpdateData.endTime.getTime() !== existingBooking.endTime.getTime());
+      if (timeChanged) {
+        processedUpdateData.calendarSequence = { increment: 1 };
+      }
+
+      // A new service brings its own resource set
+      if (updateData.serviceId && updateData.serviceId !== existingBooking.serviceId) {
+        const requirements = await scheduleService.getServiceRequirements(updateData.serviceId);
+        processedUpdateData.resources = {
+          deleteMany: {},
+          create: requirements.map(({ resourceId, quantity }) => ({ resourceId, quantity })),
+        };
       }
 
-      const booking = await prisma.booking.update({
+      let booking = await prisma.booking.update({
         where: { id },
         data: processedUpdateData,
         include: {
@@ -480,11 +651,30 @@ export class BookingController {
         },
       });
 
+      if (statusChanged) {
+        booking = await bookingLifecycleService.changeStatus(id, updateData.status, {
+          actor: bookingLifecycleService.adminActor(req.user),
+        });
+
+        if (booking.status === 'cancelled') {
+          await this.offerToWaitlist([booking.id]);
+        }
+      }
+
       res.status(200).json({
         message: 'Booking updated successfully',
         data: { booking },
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.status).json({
+          error: error.code,
+          message: error.message,
+          ...(error.details && { details: error.details }),
+        });
+        return;
+      }
+
       if (error instanceof z.ZodError) {
         res.status(400).json({
           error: 'Validation error',
@@ -503,10 +693,10 @@ export class BookingController {
   }
 
   // Update booking status
-  async updateBookingStatus(req: Request, res: Response): Promise<void> {
+  async updateBookingStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { status, notes } = req.body;
+      const { status, notes, reason } = req.body;
 
       if (!id) {
         res.status(400).json({
@@ -530,16 +720,7 @@ export class BookingController {
         return;
       }
 
-      // Validate status transitions
-      const validTransitions: Record<string, string[]> = {
-        pending: ['confirmed', 'cancelled'],
-        confirmed: ['completed', 'cancelled'],
-        cancelled: [], // Cannot change from cancelled
-        completed: [], // Cannot change from completed
-      };
-
-      const allowedTransitions = validTransitions[existingBooking.status] || [];
-      if (!allowedTransitions.includes(status)) {
+      if (!bookingLifecycleService.canTransition(existingBooking.status, status)) {
         res.status(400).json({
           error: 'Invalid status transition',
           message: `Cannot change booking status from ${existingBooking.status} to ${status}`,
@@ -547,29 +728,23 @@ export class BookingController {
         return;
       }
 
-      const updateData: any = { status };
-      if (notes) {
-        updateData.notes = notes;
+      // Bookings that owe a deposit stay pending until it has been paid
+      if (status === 'confirmed') {
+        const depositStatus = await invoiceService.getDepositStatus(id);
+        if (depositStatus.required && !depositStatus.satisfied) {
+          res.status(409).json({
+            error: 'Deposit required',
+            message: 'The deposit must be paid before this booking can be confirmed',
+            details: depositStatus,
+          });
+          return;
+        }
       }
 
-      const booking = await prisma.booking.update({
-        where: { id },
-        data: updateData,
-        include: {
-          service: {
-            select: {
-              id: true,
-              name: true,
-              category: {
-                select: {
-                  id: true,
-                  name: true,
-                  slug: true,
-                },
-              },
-            },
-          },
-        },
+      const booking = await bookingLifecycleService.changeStatus(id, status, {
+        actor: bookingLifecycleService.adminActor(req.user),
+        ...(reason && { reason }),
+        ...(notes && { data: { notes } }),
       });
 
       // TODO: Send status update email to client
@@ -586,13 +761,18 @@ export class BookingController {
             bookingDate: booking.bookingDate,
             startTime: booking.startTime,
             endTime: booking.endTime,
+            timeZone: booking.timeZone,
             status: booking.status,
             projectDetails: booking.projectDetails,
             budgetRange: booking.budgetRange,
             location: booking.location,
             notes: booking.notes,
+            calendarSequence: booking.calendarSequence,
           },
           service: booking.service,
+          ...(ACTIVE_BOOKING_STATUSES.includes(booking.status) && {
+            manageUrl: bookingAccessService.getManageUrl(bookingAccessService.generateManageToken(booking)),
+          }),
         };
 
         await emailService.sendBookingStatusUpdate(emailData, existingBooking.status);
@@ -601,11 +781,24 @@ export class BookingController {
         console.error('Failed to send status update email:', emailError);
       }
 
+      if (booking.status === 'cancelled') {
+        await this.offerToWaitlist([booking.id]);
+      }
+
       res.status(200).json({
         message: 'Booking status updated successfully',
         data: { booking },
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.status).json({
+          error: error.code,
+          message: error.message,
+          ...(error.details && { details: error.details }),
+        });
+        return;
+      }
+
       if (error instanceof z.ZodError) {
         res.status(400).json({
           error: 'Validation error',
@@ -624,7 +817,7 @@ export class BookingController {
   }
 
   // Delete booking (cancel)
-  async deleteBooking(req: Request, res: Response): Promise<void> {
+  async deleteBooking(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params;
 
@@ -650,33 +843,17 @@ export class BookingController {
       }
 
       // Check if booking can be cancelled
-      if (existingBooking.status === 'completed') {
+      if (!bookingLifecycleService.canTransition(existingBooking.status, 'cancelled')) {
         res.status(400).json({
           error: 'Cannot cancel booking',
-          message: 'Cannot cancel a completed booking',
+          message: `Cannot cancel a ${existingBooking.status} booking`,
         });
         return;
       }
 
       // Instead of deleting, update status to cancelled
-      const booking = await prisma.booking.update({
-        where: { id },
-        data: { status: 'cancelled' },
-        include: {
-          service: {
-            select: {
-              id: true,
-              name: true,
-              category: {
-                select: {
-                  id: true,
-                  name: true,
-                  slug: true,
-                },
-              },
-            },
-          },
-        },
+      const booking = await bookingLifecycleService.changeStatus(id, 'cancelled', {
+        actor: bookingLifecycleService.adminActor(req.user),
       });
 
       // TODO: Send cancellation email to client
@@ -693,11 +870,13 @@ export class BookingController {
             bookingDate: booking.bookingDate,
             startTime: booking.startTime,
             endTime: booking.endTime,
+            timeZone: booking.timeZone,
             status: booking.status,
             projectDetails: booking.projectDetails,
             budgetRange: booking.budgetRange,
             location: booking.location,
             notes: booking.notes,
+            calendarSequence: booking.calendarSequence,
           },
           service: booking.service,
         };
@@ -708,11 +887,22 @@ export class BookingController {
         console.error('Failed to send cancellation email:', emailError);
       }
 
+      await this.offerToWaitlist([booking.id]);
+
       res.status(200).json({
         message: 'Booking cancelled successfully',
         data: { booking },
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.status).json({
+          error: error.code,
+          message: error.message,
+          ...(error.details && { details: error.details }),
+        });
+        return;
+      }
+
       if (error instanceof z.ZodError) {
         res.status(400).json({
           error: 'Validation error',
@@ -730,6 +920,277 @@ export class BookingController {
     }
   }
 
+  // Get a booking through the client's signed link
+  async getManagedBooking(req: Request, res: Response): Promise<void> {
+    try {
+      const bookingId = this.resolveManageToken(req, res);
+      if (!bookingId) {
+        return;
+      }
+
+      const [booking, schedule] = await Promise.all([
+        prisma.booking.findUnique({
+          where: { id: bookingId },
+          select: MANAGED_BOOKING_SELECT,
+        }),
+        scheduleService.getWeeklySchedule(),
+      ]);
+
+      if (!booking) {
+        res.status(404).json({
+          error: 'Booking not found',
+          message: 'This booking no longer exists',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        message: 'Booking retrieved successfully',
+        data: {
+          booking,
+          policy: {
+            cancellationWindowHours: schedule.cancellationWindowHours,
+            changeDeadline: bookingAccessService.getChangeDeadline(booking.startTime, schedule.cancellationWindowHours),
+            canChange: bookingAccessService.canClientChange(booking, schedule.cancellationWindowHours),
+          },
+        },
+      });
+    } catch (error) {
+      console.error('Get managed booking error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve booking',
+      });
+    }
+  }
+
+  // Reschedule a booking through the client's signed link
+  async rescheduleManagedBooking(req: Request, res: Response): Promise<void> {
+    try {
+      const bookingId = this.resolveManageToken(req, res);
+      if (!bookingId) {
+        return;
+      }
+
+      const [existingBooking, schedule] = await Promise.all([
+        prisma.booking.findUnique({ where: { id: bookingId } }),
+        scheduleService.getWeeklySchedule(),
+      ]);
+
+      if (!existingBooking) {
+        res.status(404).json({
+          error: 'Booking not found',
+          message: 'This booking no longer exists',
+        });
+        return;
+      }
+
+      if (!bookingAccessService.canClientChange(existingBooking, schedule.cancellationWindowHours)) {
+        res.status(403).json({
+          error: 'Booking locked',
+          message: `Bookings can only be changed online up to ${schedule.cancellationWindowHours} hours before the session. Please contact us instead.`,
+        });
+        return;
+      }
+
+      const startTime = new Date(req.body.startTime);
+      const endTime = new Date(req.body.endTime);
+
+      if (startTime <= new Date()) {
+        res.status(400).json({
+          error: 'Invalid booking time',
+          message: 'Cannot move bookings to past dates',
+        });
+        return;
+      }
+
+      const windowViolation = await scheduleService.validateBookingWindow(startTime, endTime);
+      if (windowViolation) {
+        res.status(400).json({
+          error: 'Outside studio hours',
+          message: windowViolation.message,
+          details: { reason: windowViolation.reason },
+        });
+        return;
+      }
+
+      const overlappingBookings = await scheduleService.findBookingConflicts(
+        { start: startTime, end: endTime },
+        existingBooking.serviceId,
+        existingBooking.id
+      );
+
+      if (overlappingBookings.length > 0) {
+        // Other clients' bookings are not exposed through the public link
+        res.status(409).json({
+          error: 'Time slot unavailable',
+          message: 'The selected time slot is no longer available',
+        });
+        return;
+      }
+
+      // Moved bookings go back to pending so the studio can confirm the new time
+      await bookingLifecycleService.reschedule(
+        existingBooking.id,
+        {
+          ...(await scheduleService.getBookingDay(startTime)),
+          startTime,
+          endTime,
+        },
+        {
+          actor: bookingLifecycleService.clientActor(existingBooking),
+          reason: 'Rescheduled through the booking link',
+        }
+      );
+
+      const booking = await prisma.booking.findUniqueOrThrow({
+        where: { id: existingBooking.id },
+        select: MANAGED_BOOKING_SELECT,
+      });
+
+      try {
+        const emailData = {
+          booking: { ...booking, notes: null },
+          service: booking.service,
+          manageUrl: bookingAccessService.getManageUrl(bookingAccessService.generateManageToken(booking)),
+        };
+
+        await emailService.sendBookingConfirmation(emailData);
+        await emailService.sendBookingNotificationToAdmin(emailData);
+      } catch (emailError) {
+        // Log email error but don't fail the reschedule
+        console.error('Failed to send reschedule emails:', emailError);
+      }
+
+      res.status(200).json({
+        message: 'Booking rescheduled successfully',
+        data: { booking },
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.status).json({
+          error: error.code,
+          message: error.message,
+          ...(error.details && { details: error.details }),
+        });
+        return;
+      }
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Invalid booking data',
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error('Reschedule managed booking error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to reschedule booking',
+      });
+    }
+  }
+
+  // Cancel a booking through the client's signed link
+  async cancelManagedBooking(req: Request, res: Response): Promise<void> {
+    try {
+      const bookingId = this.resolveManageToken(req, res);
+      if (!bookingId) {
+        return;
+      }
+
+      const [existingBooking, schedule] = await Promise.all([
+        prisma.booking.findUnique({ where: { id: bookingId } }),
+        scheduleService.getWeeklySchedule(),
+      ]);
+
+      if (!existingBooking) {
+        res.status(404).json({
+          error: 'Booking not found',
+          message: 'This booking no longer exists',
+        });
+        return;
+      }
+
+      if (!bookingAccessService.canClientChange(existingBooking, schedule.cancellationWindowHours)) {
+        res.status(403).json({
+          error: 'Booking locked',
+          message: `Bookings can only be cancelled online up to ${schedule.cancellationWindowHours} hours before the session. Please contact us instead.`,
+        });
+        return;
+      }
+
+      await bookingLifecycleService.changeStatus(existingBooking.id, 'cancelled', {
+        actor: bookingLifecycleService.clientActor(existingBooking),
+        reason: 'Cancelled through the booking link',
+      });
+
+      const booking = await prisma.booking.findUniqueOrThrow({
+        where: { id: existingBooking.id },
+        select: MANAGED_BOOKING_SELECT,
+      });
+
+      try {
+        await emailService.sendBookingStatusUpdate({
+          booking: { ...booking, notes: null },
+          service: booking.service,
+        }, existingBooking.status);
+      } catch (emailError) {
+        // Log email error but don't fail the cancellation
+        console.error('Failed to send cancellation email:', emailError);
+      }
+
+      await this.offerToWaitlist([booking.id]);
+
+      res.status(200).json({
+        message: 'Booking cancelled successfully',
+        data: { booking },
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.status).json({
+          error: error.code,
+          message: error.message,
+          ...(error.details && { details: error.details }),
+        });
+        return;
+      }
+
+      console.error('Cancel managed booking error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to cancel booking',
+      });
+    }
+  }
+
+  // Offer the slots of cancelled bookings to waitlisted clients
+  private async offerToWaitlist(bookingIds: string[]): Promise<void> {
+    try {
+      await waitlistService.offerFreedSlots(bookingIds);
+    } catch (waitlistError) {
+      // Log waitlist error but don't fail the cancellation
+      console.error('Failed to offer freed slots to the waitlist:', waitlistError);
+    }
+  }
+
+  // Resolve the booking ID from a signed link, responding with 401 when the link is invalid
+  private resolveManageToken(req: Request, res: Response): string | null {
+    const { token } = req.params;
+
+    try {
+      return bookingAccessService.verifyManageToken(token || '');
+    } catch (error) {
+      res.status(401).json({
+        error: 'Invalid booking link',
+        message: 'This booking link is invalid or has expired',
+      });
+      return null;
+    }
+  }
+
   // Get availability for a specific date
   async getAvailability(req: Request, res: Response): Promise<void> {
     try {
@@ -743,15 +1204,16 @@ export class BookingController {
         return;
       }
 
-      const targetDate = new Date(date);
       const durationMinutes = duration || 60;
+      const schedule = await scheduleService.getWeeklySchedule();
 
-      // Validate date is not in the past
-      const now = new Date();
-      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      const requestedDate = new Date(targetDate.getFullYear(), targetDate.getMonth(), targetDate.getDate());
+      // Days are studio calendar days; an instant is read as the day it falls on in the studio's zone
+      const dateKey = /^\d{4}-\d{2}-\d{2}$/.test(date)
+        ? date
+        : scheduleService.toDateKey(new Date(date), schedule.timeZone);
 
-      if (requestedDate < today) {
+      // Validate date is not in the past
+      if (dateKey < scheduleService.toDateKey(new Date(), schedule.timeZone)) {
         res.status(400).json({
           error: 'Invalid date',
           message: 'Cannot check availability for past dates',
@@ -759,89 +1221,105 @@ export class BookingController {
         return;
       }
 
-      // Get all bookings for the specified date
-      const startOfDay = new Date(targetDate.setHours(0, 0, 0, 0));
-      const endOfDay = new Date(targetDate.setHours(23, 59, 59, 999));
-
-      const whereClause: any = {
-        status: { in: ['pending', 'confirmed'] },
-        bookingDate: {
-          gte: startOfDay,
-          lte: endOfDay,
-        },
-      };
-
-      if (serviceId) {
-        whereClause.serviceId = serviceId;
-      }
+      // Get all bookings that hold time on the specified date; resource usage decides which ones clash.
+      // Days can be 23 or 25 hours long across daylight saving changes.
+      const startOfDay = zonedTimeToUtc(dateKey, 0, schedule.timeZone);
+      const endOfDay = zonedTimeToUtc(addDaysToDateKey(dateKey, 1), 0, schedule.timeZone);
 
-      const existingBookings = await prisma.booking.findMany({
-        where: whereClause,
-        orderBy: { startTime: 'asc' },
-        include: {
-          service: {
-            select: {
-              id: true,
-              name: true,
+      const [openingWindow, buffers, requirements, existingBookings, busyTimes, holds] = await Promise.all([
+        scheduleService.getOpeningWindow(dateKey, schedule),
+        scheduleService.getServiceBuffers(serviceId),
+        scheduleService.getServiceRequirements(serviceId),
+        prisma.booking.findMany({
+          where: {
+            status: { in: ['pending', 'confirmed'] },
+            startTime: { lt: endOfDay },
+            endTime: { gte: startOfDay },
+          },
+          orderBy: { startTime: 'asc' },
+          include: {
+            service: {
+              select: {
+                id: true,
+                name: true,
+                setupBufferMinutes: true,
+                teardownBufferMinutes: true,
+              },
+            },
+            resources: {
+              select: {
+                resourceId: true,
+                quantity: true,
+              },
             },
           },
-        },
-      });
+        }),
+        scheduleService.getExternalBusyTimes({ start: startOfDay, end: endOfDay }),
+        scheduleService.getWaitlistHolds({ start: startOfDay, end: endOfDay }),
+      ]);
 
-      // Generate available time slots (9 AM to 6 PM by default)
-      const businessHours = {
-        start: 9, // 9 AM
-        end: 18,  // 6 PM
-      };
+      // External busy time and waitlist holds are listed without details of where they came from
+      const bookedSlots = [
+        ...existingBookings.map(booking => ({
+          start: booking.startTime,
+          end: booking.endTime,
+          bookingId: booking.id,
+          service: booking.service ? { id: booking.service.id, name: booking.service.name } : null,
+          resourceIds: booking.resources.map(allocation => allocation.resourceId),
+          status: booking.status,
+        })),
+        ...[...busyTimes, ...holds].map(busy => ({
+          start: busy.startTime,
+          end: busy.endTime,
+          bookingId: null,
+          service: null,
+          resourceIds: busy.resources?.map(allocation => allocation.resourceId) || [],
+          status: busy.status,
+        })),
+      ];
+
+      // Generate potential time slots within the studio's opening hours for that day
+      const availableSlots = openingWindow
+        ? scheduleService.generateSlots({
+            window: openingWindow,
+            durationMinutes,
+            intervalMinutes: schedule.slotIntervalMinutes,
+            buffers,
+            requirements,
+            bookings: [
+              ...existingBookings.map(booking => ({
+                id: booking.id,
+                startTime: booking.startTime,
+                endTime: booking.endTime,
+                status: booking.status,
+                setupBufferMinutes: booking.service?.setupBufferMinutes ?? 0,
+                teardownBufferMinutes: booking.service?.teardownBufferMinutes ?? 0,
+                resources: booking.resources,
+              })),
+              ...busyTimes,
+              ...holds,
+            ],
+          })
+        : [];
 
-      const availableSlots: any[] = [];
-      const bookedSlots = existingBookings.map(booking => ({
-        start: booking.startTime,
-        end: booking.endTime,
-        bookingId: booking.id,
-        service: booking.service,
-        status: booking.status,
-      }));
-
-      // Generate potential time slots
-      for (let hour = businessHours.start; hour < businessHours.end; hour++) {
-        for (let minute = 0; minute < 60; minute += 30) { // 30-minute intervals
-          const slotStart = new Date(requestedDate);
-          slotStart.setHours(hour, minute, 0, 0);
-          
-          const slotEnd = new Date(slotStart);
-          slotEnd.setMinutes(slotEnd.getMinutes() + durationMinutes);
-
-          // Skip if slot extends beyond business hours
-          if (slotEnd.getHours() > businessHours.end) {
-            continue;
+      const businessHours = openingWindow
+        ? {
+            start: scheduleService.formatTime(openingWindow.start, schedule.timeZone),
+            end: scheduleService.formatTime(openingWindow.end, schedule.timeZone),
           }
-
-          // Check if this slot conflicts with any existing booking
-          const hasConflict = bookedSlots.some(booked => {
-            return (
-              (slotStart >= booked.start && slotStart < booked.end) ||
-              (slotEnd > booked.start && slotEnd <= booked.end) ||
-              (slotStart <= booked.start && slotEnd >= booked.end)
-            );
-          });
-
-          availableSlots.push({
-            startTime: slotStart,
-            endTime: slotEnd,
-            available: !hasConflict,
-            duration: durationMinutes,
-          });
-        }
-      }
+        : null;
 
       res.status(200).json({
         message: 'Availability retrieved successfully',
         data: {
-          date: requestedDate,
+          date: dateKey,
+          timeZone: schedule.timeZone,
           serviceId: serviceId || null,
           duration: durationMinutes,
+          closed: !openingWindow,
           businessHours,
+          slotIntervalMinutes: schedule.slotIntervalMinutes,
+          requiredResources: requirements.map(({ resourceId, quantity }) => ({ resourceId, quantity })),
           availableSlots,
           bookedSlots,
           summary: {
@@ -869,10 +1347,40 @@ export class BookingController {
     }
   }
 
+  // Mark a booking as spam or not spam, training the spam classifier
+  async markBookingSpam(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { spam } = req.body;
+
+      const booking = await spamFilterService.markBooking(id || '', spam, req.user);
+
+      res.status(200).json({
+        message: spam ? 'Booking marked as spam' : 'Booking marked as not spam',
+        data: { booking },
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.status).json({
+          error: error.code,
+          message: error.message,
+          ...(error.details && { details: error.details }),
+        });
+        return;
+      }
+
+      console.error('Mark booking spam error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to update booking',
+      });
+    }
+  }
+
   // Bulk booking operations
-  async bulkBookingOperation(req: Request, res: Response): Promise<void> {
+  async bulkBookingOperation(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { bookingIds, operation, notes } = req.body;
+      const { bookingIds, operation, notes, reason } = req.body;
 
       if (!bookingIds || !Array.isArray(bookingIds) || bookingIds.length === 0) {
         res.status(400).json({
@@ -918,16 +1426,9 @@ export class BookingController {
       }
 
       // Check if all bookings can transition to the target status
-      const invalidTransitions = existingBookings.filter(booking => {
-        const validTransitions: Record<string, string[]> = {
-          pending: ['confirmed', 'cancelled'],
-          confirmed: ['completed', 'cancelled'],
-          cancelled: [],
-          completed: [],
-        };
-        const allowedTransitions = validTransitions[booking.status] || [];
-        return !allowedTransitions.includes(targetStatus);
-      });
+      const invalidTransitions = existingBookings.filter(
+        booking => !bookingLifecycleService.canTransition(booking.status, targetStatus)
+      );
 
       if (invalidTransitions.length > 0) {
         res.status(400).json({
@@ -944,19 +1445,36 @@ export class BookingController {
         return;
       }
 
-      // Perform bulk update
-      const updateData: any = { status: targetStatus };
-      if (notes) {
-        updateData.notes = notes;
+      if (targetStatus === 'confirmed') {
+        const unpaidDeposits = [];
+        for (const booking of existingBookings) {
+          const depositStatus = await invoiceService.getDepositStatus(booking.id);
+          if (depositStatus.required && !depositStatus.satisfied) {
+            unpaidDeposits.push({ id: booking.id, ...depositStatus });
+          }
+        }
+
+        if (unpaidDeposits.length > 0) {
+          res.status(409).json({
+            error: 'Deposit required',
+            message: 'Some bookings cannot be confirmed until their deposit has been paid',
+            details: { unpaidDeposits },
+          });
+          return;
+        }
       }
 
-      const updatedBookings = await prisma.booking.updateMany({
-        where: {
-          id: { in: bookingIds },
-        },
-        data: updateData,
+      // Perform bulk update
+      const updatedCount = await bookingLifecycleService.changeStatusMany(bookingIds, targetStatus, {
+        actor: bookingLifecycleService.adminActor(req.user),
+        ...(reason && { reason }),
+        ...(notes && { data: { notes } }),
       });
 
+      if (targetStatus === 'cancelled') {
+        await this.offerToWaitlist(bookingIds);
+      }
+
       // Get updated bookings with relations
       const bookings = await prisma.booking.findMany({
         where: {
@@ -982,11 +1500,20 @@ export class BookingController {
       res.status(200).json({
         message: `Bulk ${operation} operation completed successfully`,
         data: {
-          updatedCount: updatedBookings.count,
+          updatedCount,
           bookings,
         },
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.status).json({
+          error: error.code,
+          message: error.message,
+          ...(error.details && { details: error.details }),
+        });
+        return;
+      }
+
       if (error instanceof z.ZodError) {
         res.status(400).json({
           error: 'Validation error',
@@ -0,0 +1,151 @@
+import { Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { BookingSeriesController } from './bookingSeriesController';
+import { bookingSeriesService } from '../services/bookingSeriesService';
+import { clientService } from '../services/clientService';
+import { emailService } from '../services/emailService';
+import { scheduleService } from '../services/scheduleService';
+import { SpamVerdict } from '../services/spamFilterService';
+import { waitlistService } from '../services/waitlistService';
+import { webhookService } from '../services/webhookService';
+import { AuthenticatedRequest } from '../types/auth';
+
+jest.mock('@prisma/client', () => jest.requireActual('../test/prismaMock').mockPrismaModule());
+
+jest.mock('../config/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn(), warn: jest.fn() },
+}));
+
+const mockResponse = () => {
+  const res = { status: jest.fn(), json: jest.fn(), locals: {} };
+  res.status.mockReturnValue(res);
+  return res as unknown as Response & { status: jest.Mock; json: jest.Mock };
+};
+
+describe('BookingSeriesController - Webhooks', () => {
+  const prisma = new PrismaClient() as unknown as {
+    service: { findUnique: jest.Mock };
+    bookingSeries: { create: jest.Mock; findUnique: jest.Mock };
+    booking: { findMany: jest.Mock; updateMany: jest.Mock };
+    bookingEvent: { createMany: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let bookingSeriesController: BookingSeriesController;
+
+  const sessions = [
+    { id: 'session-1', status: 'pending', startTime: new Date('2099-03-02T10:00:00.000Z'), calendarSequence: 0 },
+    { id: 'session-2', status: 'pending', startTime: new Date('2099-03-09T10:00:00.000Z'), calendarSequence: 0 },
+  ];
+
+  beforeEach(() => {
+    bookingSeriesController = new BookingSeriesController();
+
+    prisma.$transaction.mockImplementation(async (run: (tx: typeof prisma) => unknown) => run(prisma));
+    prisma.booking.updateMany.mockResolvedValue({ count: 1 });
+    // Bookings as the webhook payload sees them, whatever was asked for
+    prisma.booking.findMany.mockImplementation(async ({ where }) =>
+      where.id.in.map((id: string) => ({ id, status: 'pending' }))
+    );
+
+    jest.spyOn(webhookService, 'dispatch').mockResolvedValue();
+    jest.spyOn(emailService, 'sendBookingConfirmation').mockResolvedValue();
+    jest.spyOn(emailService, 'sendBookingNotificationToAdmin').mockResolvedValue();
+    jest.spyOn(emailService, 'sendBookingStatusUpdate').mockResolvedValue();
+    jest.spyOn(waitlistService, 'offerFreedSlots').mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  const occurrences = sessions.map((session, index) => ({
+    index,
+    startTime: session.startTime,
+    endTime: new Date(session.startTime.getTime() + 60 * 60 * 1000),
+  }));
+
+  // Book both sessions, with the spam verdict the middleware left, if any
+  const createSeries = async (spam?: SpamVerdict) => {
+    jest.spyOn(scheduleService, 'getWeeklySchedule').mockResolvedValue({ timeZone: 'UTC' } as never);
+    jest.spyOn(scheduleService, 'getServiceRequirements').mockResolvedValue([]);
+    jest.spyOn(bookingSeriesService, 'expandOccurrences').mockReturnValue(occurrences);
+    jest.spyOn(bookingSeriesService, 'checkOccurrences')
+      .mockResolvedValue(occurrences.map(occurrence => ({ ...occurrence, available: true })));
+    jest.spyOn(clientService, 'resolve').mockResolvedValue('client-1');
+
+    const res = mockResponse();
+    res.locals = spam ? { spam } : {};
+    await bookingSeriesController.createBookingSeries({
+      body: {
+        clientName: 'Ama Mensah',
+        clientEmail: 'ama@example.com',
+        startTime: occurrences[0]!.startTime.toISOString(),
+        endTime: occurrences[0]!.endTime.toISOString(),
+        recurrence: { frequency: 'weekly', count: 2 },
+      },
+    } as AuthenticatedRequest, res);
+
+    return res;
+  };
+
+  it('should announce every session of a new series', async () => {
+    prisma.bookingSeries.create.mockResolvedValue({ id: 'series-1', service: null, bookings: sessions });
+
+    const res = await createSeries();
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(webhookService.dispatch).toHaveBeenCalledTimes(2);
+    expect(webhookService.dispatch).toHaveBeenCalledWith('booking.created', expect.objectContaining({ id: 'session-1' }));
+    expect(webhookService.dispatch).toHaveBeenCalledWith('booking.created', expect.objectContaining({ id: 'session-2' }));
+  });
+
+  it('should hold every session of a series the spam filter quarantines', async () => {
+    const reasons = [{ rule: 'links', points: 3 }];
+    prisma.bookingSeries.create.mockResolvedValue({
+      id: 'series-1',
+      service: null,
+      bookings: sessions.map(session => ({ ...session, status: 'quarantined', spamScore: 0.7, spamReasons: reasons, spamLabel: null })),
+    });
+
+    const res = await createSeries({ action: 'quarantine', score: 0.7, reasons });
+
+    const { bookings } = prisma.bookingSeries.create.mock.calls[0][0].data;
+    expect(bookings.create).toHaveLength(2);
+    for (const booking of bookings.create) {
+      expect(booking).toEqual(expect.objectContaining({
+        clientId: null,
+        status: 'quarantined',
+        spamScore: 0.7,
+        spamReasons: reasons,
+      }));
+    }
+    expect(clientService.resolve).not.toHaveBeenCalled();
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    const { series } = res.json.mock.calls[0][0].data;
+    for (const booking of series.bookings) {
+      expect(booking.status).toBe('pending');
+      expect(booking).not.toHaveProperty('spamScore');
+      expect(booking).not.toHaveProperty('spamReasons');
+    }
+    expect(webhookService.dispatch).not.toHaveBeenCalled();
+    expect(emailService.sendBookingConfirmation).not.toHaveBeenCalled();
+  });
+
+  it('should announce every session a series cancellation cancels', async () => {
+    prisma.bookingSeries.findUnique.mockResolvedValue({ id: 'series-1', service: null, bookings: sessions });
+
+    const res = mockResponse();
+    await bookingSeriesController.cancelBookingSeries({
+      params: { id: 'series-1' },
+      user: { id: 'user-1', email: 'studio@derjiproductions.com' },
+    } as unknown as AuthenticatedRequest, res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(webhookService.dispatch).toHaveBeenCalledTimes(2);
+    expect(webhookService.dispatch).toHaveBeenCalledWith('booking.cancelled', expect.objectContaining({ id: 'session-1' }));
+    expect(webhookService.dispatch).toHaveBeenCalledWith('booking.cancelled', expect.objectContaining({ id: 'session-2' }));
+  });
+});
@@ -0,0 +1,439 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../types/auth';
+import { emailService } from '../services/emailService';
+import { scheduleService, ACTIVE_BOOKING_STATUSES } from '../services/scheduleService';
+import { bookingAccessService } from '../services/bookingAccessService';
+import { bookingSeriesService } from '../services/bookingSeriesService';
+import { bookingLifecycleService } from '../services/bookingLifecycleService';
+import { waitlistService } from '../services/waitlistService';
+import { clientService } from '../services/clientService';
+import { SpamVerdict } from '../services/spamFilterService';
+
+const prisma = new PrismaClient();
+
+const SERIES_INCLUDE = {
+  service: {
+    select: {
+      id: true,
+      name: true,
+      category: {
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+        },
+      },
+    },
+  },
+  bookings: {
+    orderBy: { startTime: 'asc' },
+  },
+} as const;
+
+export class BookingSeriesController {
+  // Report which sessions of a proposed series can be booked
+  async checkBookingSeries(req: Request, res: Response): Promise<void> {
+    try {
+      const { serviceId, startTime, endTime, recurrence } = req.body;
+
+      const { timeZone } = await scheduleService.getWeeklySchedule();
+      const occurrences = bookingSeriesService.expandOccurrences(
+        recurrence,
+        new Date(startTime),
+        new Date(endTime),
+        timeZone
+      );
+      const reports = await bookingSeriesService.checkOccurrences(occurrences, serviceId);
+
+      res.status(200).json({
+        message: 'Series availability retrieved successfully',
+        data: {
+          timeZone,
+          occurrences: reports,
+          availableCount: reports.filter(report => report.available).length,
+        },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Check booking series error:', 'Failed to check series availability');
+    }
+  }
+
+  // Book every session of a recurring or multi-day series
+  async createBookingSeries(req: Request, res: Response): Promise<void> {
+    try {
+      const { recurrence, skipConflicts, ...bookingData } = req.body;
+
+      // Validate that the service exists if serviceId is provided
+      if (bookingData.serviceId) {
+        const service = await prisma.service.findUnique({
+          where: { id: bookingData.serviceId },
+        });
+
+        if (!service) {
+          res.status(400).json({
+            error: 'Invalid service',
+            message: 'Service with the specified ID does not exist',
+          });
+          return;
+        }
+
+        if (!service.active) {
+          res.status(400).json({
+            error: 'Service unavailable',
+            message: 'The selected service is currently unavailable',
+          });
+          return;
+        }
+      }
+
+      const { timeZone } = await scheduleService.getWeeklySchedule();
+      const occurrences = bookingSeriesService.expandOccurrences(
+        recurrence,
+        new Date(bookingData.startTime),
+        new Date(bookingData.endTime),
+        timeZone
+      );
+      const reports = await bookingSeriesService.checkOccurrences(occurrences, bookingData.serviceId);
+
+      const available = reports.filter(report => report.available);
+      const unavailable = reports.filter(report => !report.available);
+
+      if (unavailable.length > 0 && (!skipConflicts || available.length === 0)) {
+        res.status(409).json({
+          error: 'Sessions unavailable',
+          message: `${unavailable.length} of ${reports.length} sessions cannot be booked`,
+          details: { occurrences: reports },
+        });
+        return;
+      }
+
+      const requirements = await scheduleService.getServiceRequirements(bookingData.serviceId);
+      const creator = bookingLifecycleService.clientActor(bookingData);
+      const spam = res.locals['spam'] as SpamVerdict | undefined;
+      const quarantined = spam?.action === 'quarantine';
+
+      // Quarantined bookings get a client record only once an admin releases them
+      const clientId = quarantined ? null : await clientService.resolve({
+        name: bookingData.clientName,
+        email: bookingData.clientEmail,
+        phone: bookingData.clientPhone,
+      });
+
+      const series = await prisma.bookingSeries.create({
+        data: {
+          serviceId: bookingData.serviceId || null,
+          recurrence,
+          timeZone,
+          bookings: {
+            create: available.map(occurrence => ({
+              ...bookingData,
+              clientId,
+              startTime: occurrence.startTime,
+              endTime: occurrence.endTime,
+              bookingDate: scheduleService.fromDateKey(scheduleService.toDateKey(occurrence.startTime, timeZone)),
+              timeZone,
+              seriesIndex: occurrence.index,
+              resources: {
+                create: requirements.map(({ resourceId, quantity }) => ({ resourceId, quantity })),
+              },
+              ...(quarantined && { status: 'quarantined' }),
+              ...(spam && { spamScore: spam.score, spamReasons: spam.reasons }),
+              events: bookingLifecycleService.creationEvent(creator, quarantined ? 'quarantined' : 'pending'),
+            })),
+          },
+        },
+        include: SERIES_INCLUDE,
+      });
+
+      // The spam verdict is for the studio only, not the person booking
+      const publicSeries = {
+        ...series,
+        bookings: series.bookings.map(({ spamScore: _spamScore, spamReasons: _spamReasons, spamLabel: _spamLabel, ...booking }) => booking),
+      };
+
+      // Held for review: the client sees pending requests and no emails go out yet
+      if (quarantined) {
+        res.status(201).json({
+          message: 'Booking series created successfully',
+          data: {
+            series: { ...publicSeries, bookings: publicSeries.bookings.map(booking => ({ ...booking, status: 'pending' })) },
+            skipped: unavailable,
+          },
+        });
+        return;
+      }
+
+      await bookingLifecycleService.notifyCreated(series.bookings.map(booking => booking.id));
+
+      // One set of emails for the whole series, listing every session
+      const [firstBooking] = series.bookings;
+      if (firstBooking) {
+        try {
+          const emailData = {
+            booking: firstBooking,
+            service: series.service,
+            manageUrl: bookingAccessService.getManageUrl(bookingAccessService.generateManageToken(firstBooking)),
+            sessions: series.bookings,
+          };
+
+          await emailService.sendBookingConfirmation(emailData);
+          await emailService.sendBookingNotificationToAdmin(emailData);
+        } catch (emailError) {
+          // Log email error but don't fail the booking creation
+          console.error('Failed to send booking series emails:', emailError);
+        }
+      }
+
+      res.status(201).json({
+        message: 'Booking series created successfully',
+        data: {
+          series: publicSeries,
+          skipped: unavailable,
+        },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Create booking series error:', 'Failed to create booking series');
+    }
+  }
+
+  // Get a series with all of its sessions
+  async getBookingSeriesById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const series = await prisma.bookingSeries.findUnique({
+        where: { id: id || '' },
+        include: SERIES_INCLUDE,
+      });
+
+      if (!series) {
+        res.status(404).json({
+          error: 'Series not found',
+          message: 'Booking series with the specified ID does not exist',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        message: 'Booking series retrieved successfully',
+        data: { series },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get booking series error:', 'Failed to retrieve booking series');
+    }
+  }
+
+  // Cancel every upcoming session of a series
+  async cancelBookingSeries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const series = await this.findSeriesWithUpcoming(id || '');
+      if (!series) {
+        res.status(404).json({
+          error: 'Series not found',
+          message: 'Booking series with the specified ID does not exist',
+        });
+        return;
+      }
+
+      const upcoming = series.bookings;
+      if (upcoming.length === 0) {
+        res.status(400).json({
+          error: 'Cannot cancel series',
+          message: 'The series has no upcoming sessions left to cancel',
+        });
+        return;
+      }
+
+      await bookingLifecycleService.changeStatusMany(upcoming.map(booking => booking.id), 'cancelled', {
+        actor: bookingLifecycleService.adminActor(req.user),
+        reason: 'Series cancelled',
+      });
+
+      const cancelled = upcoming.map(booking => ({
+        ...booking,
+        status: 'cancelled',
+        calendarSequence: booking.calendarSequence + 1,
+      }));
+
+      const [nextBooking] = upcoming;
+      if (nextBooking) {
+        try {
+          await emailService.sendBookingStatusUpdate(
+            {
+              booking: cancelled[0]!,
+              service: series.service,
+              sessions: cancelled,
+            },
+            nextBooking.status
+          );
+        } catch (emailError) {
+          // Log email error but don't fail the cancellation
+          console.error('Failed to send series cancellation email:', emailError);
+        }
+      }
+
+      try {
+        await waitlistService.offerFreedSlots(upcoming.map(booking => booking.id));
+      } catch (waitlistError) {
+        // Log waitlist error but don't fail the cancellation
+        console.error('Failed to offer freed slots to the waitlist:', waitlistError);
+      }
+
+      res.status(200).json({
+        message: 'Booking series cancelled successfully',
+        data: {
+          cancelledCount: upcoming.length,
+          cancelledBookingIds: upcoming.map(booking => booking.id),
+        },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Cancel booking series error:', 'Failed to cancel booking series');
+    }
+  }
+
+  // Move every upcoming session of a series, keeping their spacing
+  async rescheduleBookingSeries(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { startTime, endTime } = req.body;
+
+      const series = await this.findSeriesWithUpcoming(id || '');
+      if (!series) {
+        res.status(404).json({
+          error: 'Series not found',
+          message: 'Booking series with the specified ID does not exist',
+        });
+        return;
+      }
+
+      const upcoming = series.bookings;
+      if (upcoming.length === 0) {
+        res.status(400).json({
+          error: 'Cannot reschedule series',
+          message: 'The series has no upcoming sessions left to reschedule',
+        });
+        return;
+      }
+
+      const shifted = bookingSeriesService.shiftOccurrences(
+        upcoming.map((booking, i) => ({
+          index: booking.seriesIndex ?? i,
+          startTime: booking.startTime,
+          endTime: booking.endTime,
+        })),
+        new Date(startTime),
+        new Date(endTime),
+        series.timeZone
+      );
+
+      const reports = await bookingSeriesService.checkOccurrences(
+        shifted,
+        series.serviceId,
+        upcoming.map(booking => booking.id)
+      );
+
+      if (reports.some(report => !report.available)) {
+        res.status(409).json({
+          error: 'Sessions unavailable',
+          message: `${reports.filter(report => !report.available).length} of ${reports.length} sessions cannot be moved`,
+          details: { occurrences: reports },
+        });
+        return;
+      }
+
+      await prisma.$transaction(
+        upcoming.map((booking, i) => {
+          const occurrence = shifted[i]!;
+          return prisma.booking.update({
+            where: { id: booking.id },
+            data: {
+              startTime: occurrence.startTime,
+              endTime: occurrence.endTime,
+              bookingDate: scheduleService.fromDateKey(scheduleService.toDateKey(occurrence.startTime, series.timeZone)),
+              calendarSequence: { increment: 1 },
+            },
+          });
+        })
+      );
+
+      const updated = await prisma.bookingSeries.findUnique({
+        where: { id: series.id },
+        include: SERIES_INCLUDE,
+      });
+
+      // The new times go out with a fresh invite so clients' calendars move the sessions
+      const movedIds = new Set(upcoming.map(booking => booking.id));
+      const moved = updated?.bookings.filter(booking => movedIds.has(booking.id)) || [];
+      const [nextBooking] = moved;
+      if (nextBooking) {
+        try {
+          await emailService.sendBookingConfirmation({
+            booking: nextBooking,
+            service: series.service,
+            manageUrl: bookingAccessService.getManageUrl(bookingAccessService.generateManageToken(nextBooking)),
+            sessions: moved,
+          });
+        } catch (emailError) {
+          // Log email error but don't fail the reschedule
+          console.error('Failed to send series reschedule email:', emailError);
+        }
+      }
+
+      res.status(200).json({
+        message: 'Booking series rescheduled successfully',
+        data: { series: updated },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Reschedule booking series error:', 'Failed to reschedule booking series');
+    }
+  }
+
+  // Series with only its active sessions that have not started yet
+  private async findSeriesWithUpcoming(id: string) {
+    return prisma.bookingSeries.findUnique({
+      where: { id },
+      include: {
+        service: SERIES_INCLUDE.service,
+        bookings: {
+          where: {
+            status: { in: ACTIVE_BOOKING_STATUSES },
+            startTime: { gt: new Date() },
+          },
+          orderBy: { startTime: 'asc' },
+        },
+      },
+    });
+  }
+
+  private handleError(res: Response, error: unknown, logMessage: string, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: error.code,
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        message: 'Invalid booking series data',
+        details: error.errors,
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
+
+export const bookingSeriesController = new BookingSeriesController();
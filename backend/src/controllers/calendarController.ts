@@ -0,0 +1,149 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../types/auth';
+import { calendarService } from '../services/calendarService';
+
+export class CalendarController {
+  // Bookings as an iCalendar feed, authenticated by the token in the feed URL
+  async getCalendarFeed(req: Request, res: Response): Promise<void> {
+    try {
+      const { token, status, serviceId } = req.query as any;
+
+      if (!(await calendarService.isValidFeedToken(token))) {
+        res.status(401).json({
+          error: 'Invalid feed token',
+          message: 'This calendar feed link is invalid or has been revoked',
+        });
+        return;
+      }
+
+      const ics = await calendarService.buildFeed({
+        ...(status && { statuses: status }),
+        ...(serviceId && { serviceId }),
+      });
+
+      res
+        .status(200)
+        .type('text/calendar; charset=utf-8')
+        .set('Cache-Control', 'private, max-age=300')
+        .attachment('bookings.ics')
+        .send(ics);
+    } catch (error) {
+      this.handleError(res, error, 'Get calendar feed error:', 'Failed to build calendar feed');
+    }
+  }
+
+  // Issue a new feed URL for the signed-in admin; any earlier URL stops working
+  async createCalendarFeed(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const token = await calendarService.rotateFeedToken(req.user!.id);
+
+      res.status(201).json({
+        message: 'Calendar feed created successfully',
+        data: {
+          url: calendarService.getFeedUrl(token),
+        },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Create calendar feed error:', 'Failed to create calendar feed');
+    }
+  }
+
+  // Stop the signed-in admin's feed URL from working
+  async revokeCalendarFeed(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      await calendarService.revokeFeedToken(req.user!.id);
+
+      res.status(200).json({
+        message: 'Calendar feed revoked successfully',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Revoke calendar feed error:', 'Failed to revoke calendar feed');
+    }
+  }
+
+  // List calendars whose events block out studio time
+  async getExternalCalendars(_req: Request, res: Response): Promise<void> {
+    try {
+      const calendars = await calendarService.getExternalCalendars();
+
+      res.status(200).json({
+        message: 'External calendars retrieved successfully',
+        data: { calendars },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get external calendars error:', 'Failed to retrieve external calendars');
+    }
+  }
+
+  // Add an external calendar from a URL or an uploaded .ics file
+  async createExternalCalendar(req: Request, res: Response): Promise<void> {
+    try {
+      const calendar = await calendarService.createExternalCalendar(req.body);
+
+      res.status(201).json({
+        message: 'External calendar added successfully',
+        data: { calendar },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Create external calendar error:', 'Failed to add external calendar');
+    }
+  }
+
+  // Re-import an external calendar's busy times
+  async syncExternalCalendar(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const calendar = await calendarService.syncExternalCalendar(id || '', req.body.ics);
+
+      res.status(200).json({
+        message: 'External calendar synced successfully',
+        data: { calendar },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Sync external calendar error:', 'Failed to sync external calendar');
+    }
+  }
+
+  // Remove an external calendar and the busy times it blocked
+  async deleteExternalCalendar(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      await calendarService.deleteExternalCalendar(id || '');
+
+      res.status(200).json({
+        message: 'External calendar deleted successfully',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Delete external calendar error:', 'Failed to delete external calendar');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, logMessage: string, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: error.code,
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        message: 'Invalid calendar data',
+        details: error.errors,
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
+
+export const calendarController = new CalendarController();
@@ -0,0 +1,23 @@
+import { Request, Response } from 'express';
+import { challengeService } from '../services/challengeService';
+
+export class ChallengeController {
+  // Issue a proof-of-work challenge for a public form
+  async issueChallenge(_req: Request, res: Response): Promise<void> {
+    try {
+      res.set('Cache-Control', 'no-store');
+      res.status(200).json({
+        message: 'Challenge issued successfully',
+        data: challengeService.issue(),
+      });
+    } catch (error) {
+      console.error('Issue challenge error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to issue challenge',
+      });
+    }
+  }
+}
+
+export const challengeController = new ChallengeController();
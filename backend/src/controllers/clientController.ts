@@ -0,0 +1,111 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../types/auth';
+import { clientService } from '../services/clientService';
+
+export class ClientController {
+  // Search clients by name, email or phone
+  async getClients(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const result = await clientService.search(req.query as any);
+
+      res.status(200).json({
+        message: 'Clients retrieved successfully',
+        data: result,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get clients error:', 'Failed to retrieve clients');
+    }
+  }
+
+  // Get a client with their bookings, inquiries, invoices and notes
+  async getClient(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const client = await clientService.getProfile(req.params['id'] || '');
+
+      res.status(200).json({
+        message: 'Client retrieved successfully',
+        data: { client },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get client error:', 'Failed to retrieve client');
+    }
+  }
+
+  // List clients that are probably duplicates of this one
+  async getDuplicates(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const clients = await clientService.findDuplicates(req.params['id'] || '');
+
+      res.status(200).json({
+        message: 'Possible duplicates retrieved successfully',
+        data: { clients },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get client duplicates error:', 'Failed to retrieve possible duplicates');
+    }
+  }
+
+  // Merge a duplicate client into this one
+  async mergeClient(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const client = await clientService.merge(req.params['id'] || '', req.body.sourceId);
+
+      res.status(200).json({
+        message: 'Clients merged successfully',
+        data: { client },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Merge clients error:', 'Failed to merge clients');
+    }
+  }
+
+  async addNote(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const note = await clientService.addNote(req.params['id'] || '', req.body.body, req.user);
+
+      res.status(201).json({
+        message: 'Note added successfully',
+        data: { note },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Add client note error:', 'Failed to add note');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, logMessage: string, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: error.code,
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        message: 'Invalid client data',
+        details: error.errors,
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
+
+export const clientController = new ClientController();
@@ -1,9 +1,17 @@
 import request from 'supertest';
 import app from '../index';
 import { PrismaClient } from '@prisma/client';
+import { solve } from '../utils/proofOfWork';
 
 const prisma = new PrismaClient();
 
+// Fetch a proof-of-work challenge and solve it, as the public forms do
+const solvedChallenge = async () => {
+  const response = await request(app).get('/api/challenge').expect(200);
+  const { challenge, difficulty } = response.body.data;
+  return { challenge, challengeSolution: solve(challenge, difficulty) };
+};
+
 describe('Contact Controller', () => {
   beforeAll(async () => {
     // Clean up any existing test data
@@ -41,7 +49,7 @@ describe('Contact Controller', () => {
 
       const response = await request(app)
         .post('/api/contact')
-        .send(contactData)
+        .send({ ...contactData, ...(await solvedChallenge()) })
         .expect(201);
 
       expect(response.body.success).toBe(true);
@@ -59,7 +67,7 @@ describe('Contact Controller', () => {
 
       const response = await request(app)
         .post('/api/contact')
-        .send(invalidData)
+        .send({ ...invalidData, ...(await solvedChallenge()) })
         .expect(400);
 
       expect(response.body.error).toBeDefined();
@@ -73,7 +81,7 @@ describe('Contact Controller', () => {
 
       const response = await request(app)
         .post('/api/contact')
-        .send(incompleteData)
+        .send({ ...incompleteData, ...(await solvedChallenge()) })
         .expect(400);
 
       expect(response.body.error).toBeDefined();
@@ -87,10 +95,10 @@ describe('Contact Controller', () => {
       };
 
       // Make multiple requests quickly to trigger rate limiting
-      const requests = Array(5).fill(null).map(() =>
+      const requests = Array(5).fill(null).map(async () =>
         request(app)
           .post('/api/contact')
-          .send(contactData)
+          .send({ ...contactData, ...(await solvedChallenge()) })
       );
 
       const responses = await Promise.all(requests);
@@ -101,6 +109,21 @@ describe('Contact Controller', () => {
     });
   });
 
+  describe('Challenge', () => {
+    it('should require a solved challenge', async () => {
+      const response = await request(app)
+        .post('/api/contact')
+        .send({
+          name: 'No Challenge',
+          email: 'nochallenge-test@example.com',
+          message: 'This message was sent without solving the challenge.',
+        })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('CHALLENGE_REQUIRED');
+    });
+  });
+
   describe('Spam Protection', () => {
     it('should detect and handle spam content', async () => {
       const spamData = {
@@ -111,7 +134,7 @@ describe('Contact Controller', () => {
 
       const response = await request(app)
         .post('/api/contact')
-        .send(spamData)
+        .send({ ...spamData, ...(await solvedChallenge()) })
         .expect(200); // Returns 200 to hide spam detection
 
       expect(response.body.success).toBe(true);
@@ -128,7 +151,7 @@ describe('Contact Controller', () => {
 
       const response = await request(app)
         .post('/api/contact')
-        .send(honeypotData)
+        .send({ ...honeypotData, ...(await solvedChallenge()) })
         .expect(200); // Returns 200 to hide spam detection
 
       expect(response.body.success).toBe(true);
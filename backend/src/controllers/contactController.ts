@@ -1,10 +1,20 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../types/auth';
 import { emailService, ContactEmailData } from '../services/emailService';
+import { inquiryThreadService } from '../services/inquiryThreadService';
+import { inquiryConversionService } from '../services/inquiryConversionService';
+import { clientService } from '../services/clientService';
+import { SpamVerdict, spamFilterService } from '../services/spamFilterService';
+import { webhookService } from '../services/webhookService';
 
 const prisma = new PrismaClient();
 
+// Statuses of submissions held back by the spam filter
+const SPAM_STATUSES = ['quarantined', 'spam'];
+
 /**
  * Submit a new contact inquiry
  */
@@ -13,7 +23,12 @@ export const createContactInquiry = async (
   res: Response
 ): Promise<void> => {
   try {
-    const { name, email, phone, subject, message, serviceInterest } = req.body;
+    const { name, email, phone, subject, message, serviceInterest, source } = req.body;
+    const spam = res.locals['spam'] as SpamVerdict | undefined;
+    const quarantined = spam?.action === 'quarantine';
+
+    // Quarantined inquiries get a client record only once an admin releases them
+    const clientId = quarantined ? null : await clientService.resolve({ name, email, phone });
 
     // Create the contact inquiry
     const inquiry = await prisma.contactInquiry.create({
@@ -24,10 +39,22 @@ export const createContactInquiry = async (
         subject: subject?.trim() || null,
         message: message.trim(),
         serviceInterest: serviceInterest?.trim() || null,
-        status: 'new',
+        ...(source && { source }),
+        clientId,
+        status: quarantined ? 'quarantined' : 'new',
+        ...(spam && { spamScore: spam.score, spamReasons: spam.reasons }),
       },
     });
 
+    // Held for review: answer as usual, but don't alert the studio
+    if (quarantined) {
+      res.status(200).json({
+        success: true,
+        message: 'Thank you for your message. We will get back to you soon.',
+      });
+      return;
+    }
+
     logger.info('Contact inquiry created successfully', {
       inquiryId: inquiry.id,
       email: inquiry.email,
@@ -59,6 +86,8 @@ export const createContactInquiry = async (
       });
     });
 
+    await webhookService.notifyInquiryCreated(inquiry);
+
     res.status(201).json({
       success: true,
       message: 'Thank you for your message. We will get back to you within 24 hours.',
@@ -100,6 +129,9 @@ export const getContactInquiries = async (
 
     if (status) {
       where.status = status;
+    } else {
+      // Submissions held as spam only show when asked for
+      where.status = { notIn: SPAM_STATUSES };
     }
 
     if (search) {
@@ -141,6 +173,11 @@ export const getContactInquiries = async (
           message: true,
           serviceInterest: true,
           status: true,
+          source: true,
+          clientId: true,
+          spamScore: true,
+          spamReasons: true,
+          spamLabel: true,
           createdAt: true,
           updatedAt: true,
         },
@@ -208,6 +245,11 @@ export const getContactInquiry = async (
         message: true,
         serviceInterest: true,
         status: true,
+        source: true,
+        clientId: true,
+        spamScore: true,
+        spamReasons: true,
+        spamLabel: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -292,6 +334,11 @@ export const updateContactInquiry = async (
         message: true,
         serviceInterest: true,
         status: true,
+        source: true,
+        clientId: true,
+        spamScore: true,
+        spamReasons: true,
+        spamLabel: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -326,6 +373,269 @@ export const updateContactInquiry = async (
   }
 };
 
+/**
+ * Get the reply thread of a contact inquiry (admin only)
+ */
+export const getInquiryMessages = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { id } = req.params as { id: string };
+
+  try {
+    const messages = await inquiryThreadService.getThread(id);
+
+    res.json({
+      success: true,
+      data: messages,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+      });
+      return;
+    }
+
+    logger.error('Error retrieving inquiry messages', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      inquiryId: id,
+      service: 'ContactController',
+    });
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Unable to retrieve inquiry messages.',
+      },
+    });
+  }
+};
+
+/**
+ * Email a reply to the person who made the inquiry (admin only)
+ */
+export const replyToInquiry = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { id } = req.params as { id: string };
+  const { body } = req.body as { body: string };
+
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required.',
+        },
+      });
+      return;
+    }
+
+    const message = await inquiryThreadService.reply(id, body, req.user);
+
+    res.status(201).json({
+      success: true,
+      message: 'Reply sent successfully.',
+      data: message,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+      });
+      return;
+    }
+
+    logger.error('Error replying to contact inquiry', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      inquiryId: id,
+      service: 'ContactController',
+    });
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Unable to send your reply.',
+      },
+    });
+  }
+};
+
+/**
+ * Get booking fields pre-filled from a contact inquiry, and the bookings already made from it (admin only)
+ */
+export const getInquiryConversion = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { id } = req.params as { id: string };
+
+  try {
+    const conversion = await inquiryConversionService.getDraft(id);
+
+    res.json({
+      success: true,
+      data: conversion,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+      });
+      return;
+    }
+
+    logger.error('Error retrieving inquiry conversion', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      inquiryId: id,
+      service: 'ContactController',
+    });
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Unable to prepare a booking from this inquiry.',
+      },
+    });
+  }
+};
+
+/**
+ * Convert a contact inquiry into a booking, or a booking with a draft quote (admin only)
+ */
+export const convertContactInquiry = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { id } = req.params as { id: string };
+
+  try {
+    const result = await inquiryConversionService.convert(id, req.body, req.user);
+
+    logger.info('Contact inquiry converted', {
+      inquiryId: id,
+      bookingId: result.booking.id,
+      quoteId: result.quote?.id,
+      type: req.body.type,
+      service: 'ContactController',
+    });
+
+    res.status(201).json({
+      success: true,
+      message: result.quote ? 'Booking and quote created from inquiry.' : 'Booking created from inquiry.',
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error.details && { details: error.details }),
+        },
+      });
+      return;
+    }
+
+    logger.error('Error converting contact inquiry', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      inquiryId: id,
+      service: 'ContactController',
+    });
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Unable to convert contact inquiry.',
+      },
+    });
+  }
+};
+
+/**
+ * Mark a contact inquiry as spam or not spam, training the spam classifier (admin only)
+ */
+export const markContactInquirySpam = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { id } = req.params as { id: string };
+
+  try {
+    const inquiry = await spamFilterService.markInquiry(id, req.body.spam);
+
+    res.json({
+      success: true,
+      message: req.body.spam ? 'Inquiry marked as spam.' : 'Inquiry marked as not spam.',
+      data: inquiry,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+      });
+      return;
+    }
+
+    logger.error('Error marking contact inquiry as spam', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      inquiryId: id,
+      service: 'ContactController',
+    });
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Unable to update contact inquiry.',
+      },
+    });
+  }
+};
+
+/**
+ * Get inquiry conversion rates per service interest and source (admin only)
+ */
+export const getContactInquiryConversions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { dateFrom, dateTo } = req.query as { dateFrom?: string; dateTo?: string };
+    const conversions = await inquiryConversionService.getConversionStats({ dateFrom, dateTo });
+
+    res.json({
+      success: true,
+      data: conversions,
+    });
+  } catch (error) {
+    logger.error('Error retrieving inquiry conversions', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      service: 'ContactController',
+    });
+
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Unable to retrieve conversion statistics.',
+      },
+    });
+  }
+};
+
 /**
  * Delete a contact inquiry (admin only)
  */
@@ -398,14 +708,17 @@ export const getContactInquiryStats = async (
       newInquiries,
       respondedInquiries,
       closedInquiries,
+      quarantinedInquiries,
       recentInquiries,
     ] = await Promise.all([
-      prisma.contactInquiry.count(),
+      prisma.contactInquiry.count({ where: { status: { notIn: SPAM_STATUSES } } }),
       prisma.contactInquiry.count({ where: { status: 'new' } }),
       prisma.contactInquiry.count({ where: { status: 'responded' } }),
       prisma.contactInquiry.count({ where: { status: 'closed' } }),
+      prisma.contactInquiry.count({ where: { status: 'quarantined' } }),
       prisma.contactInquiry.count({
         where: {
+          status: { notIn: SPAM_STATUSES },
           createdAt: {
             gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // Last 7 days
           },
@@ -419,6 +732,7 @@ export const getContactInquiryStats = async (
         new: newInquiries,
         responded: respondedInquiries,
         closed: closedInquiries,
+        quarantined: quarantinedInquiries,
       },
       recent: recentInquiries,
     };
@@ -0,0 +1,149 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../types/auth';
+import { emailOutboxService } from '../services/emailOutboxService';
+import { inquiryThreadService } from '../services/inquiryThreadService';
+import { parseInboundEmail } from '../utils/inboundEmail';
+
+export class EmailController {
+  // List outbox messages, optionally for one booking or inquiry
+  async getMessages(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const result = await emailOutboxService.getMessages(req.query as any);
+
+      res.status(200).json({
+        message: 'Email messages retrieved successfully',
+        data: result,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get email messages error:', 'Failed to retrieve email messages');
+    }
+  }
+
+  // Get a message with its full content
+  async getMessage(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const message = await emailOutboxService.getMessage(req.params['id'] || '');
+
+      res.status(200).json({
+        message: 'Email message retrieved successfully',
+        data: { message },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get email message error:', 'Failed to retrieve email message');
+    }
+  }
+
+  // Send a failed message again
+  async retryMessage(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const message = await emailOutboxService.retry(req.params['id'] || '');
+
+      res.status(200).json({
+        message: 'Email message retried',
+        data: { message },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Retry email message error:', 'Failed to retry email message');
+    }
+  }
+
+  async getSuppressions(_req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const suppressions = await emailOutboxService.getSuppressions();
+
+      res.status(200).json({
+        message: 'Suppressed addresses retrieved successfully',
+        data: { suppressions },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get suppressions error:', 'Failed to retrieve suppressed addresses');
+    }
+  }
+
+  // Stop all email to an address, e.g. at the client's request
+  async addSuppression(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const suppression = await emailOutboxService.suppress(req.body.email, 'manual', req.body.details);
+
+      res.status(201).json({
+        message: 'Address suppressed successfully',
+        data: { suppression },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Add suppression error:', 'Failed to suppress address');
+    }
+  }
+
+  async deleteSuppression(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      await emailOutboxService.removeSuppression(req.params['id'] || '');
+
+      res.status(200).json({
+        message: 'Suppression removed successfully',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Delete suppression error:', 'Failed to remove suppression');
+    }
+  }
+
+  // SendGrid event webhook: bounces and spam reports suppress the address
+  async handleDeliveryEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const processed = await emailOutboxService.handleDeliveryEvents(
+        emailOutboxService.parseSendGridEvents(req.body)
+      );
+
+      res.status(200).json({
+        message: 'Delivery events processed',
+        data: { processed },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Delivery events error:', 'Failed to process delivery events');
+    }
+  }
+
+  // Inbound email webhook: replies to an inquiry's reply address join its thread
+  async handleInboundEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const email = parseInboundEmail(req.body ?? {});
+      const message = email ? await inquiryThreadService.receiveReply(email) : null;
+
+      // Emails that belong to no thread are still acknowledged so the sender does not retry them
+      res.status(200).json({
+        message: message ? 'Reply added to inquiry thread' : 'Email did not match an inquiry thread',
+        data: { matched: !!message },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Inbound email error:', 'Failed to process inbound email');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, logMessage: string, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: error.code,
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        message: 'Invalid email data',
+        details: error.errors,
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
+
+export const emailController = new EmailController();
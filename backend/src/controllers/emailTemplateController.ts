@@ -0,0 +1,104 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../types/auth';
+import { emailTemplateService } from '../services/emailTemplateService';
+
+export class EmailTemplateController {
+  // List the built-in email templates and whether each has been customised
+  async getAllTemplates(_req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const templates = await emailTemplateService.listTemplates();
+
+      res.status(200).json({
+        message: 'Email templates retrieved successfully',
+        data: { templates },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get email templates error:', 'Failed to retrieve email templates');
+    }
+  }
+
+  // Get a template's current source alongside the built-in default
+  async getTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const template = await emailTemplateService.getTemplate(req.params['key'] || '');
+
+      res.status(200).json({
+        message: 'Email template retrieved successfully',
+        data: { template },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get email template error:', 'Failed to retrieve email template');
+    }
+  }
+
+  // Save an admin's version of a template
+  async updateTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const template = await emailTemplateService.updateTemplate(req.params['key'] || '', req.body, req.user?.id);
+
+      res.status(200).json({
+        message: 'Email template updated successfully',
+        data: { template },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Update email template error:', 'Failed to update email template');
+    }
+  }
+
+  // Go back to the built-in template
+  async resetTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const template = await emailTemplateService.resetTemplate(req.params['key'] || '');
+
+      res.status(200).json({
+        message: 'Email template reset successfully',
+        data: { template },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Reset email template error:', 'Failed to reset email template');
+    }
+  }
+
+  // Render a saved template or an unsaved draft with sample data
+  async previewTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const preview = await emailTemplateService.preview(req.params['key'] || '', req.body);
+
+      res.status(200).json({
+        message: 'Email template preview rendered successfully',
+        data: { preview },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Preview email template error:', 'Failed to render email template preview');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, logMessage: string, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: error.code,
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        message: 'Invalid email template data',
+        details: error.errors,
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
+
+export const emailTemplateController = new EmailTemplateController();
@@ -0,0 +1,305 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { invoiceService, INVOICE_INCLUDE } from '../services/invoiceService';
+import { invoiceRenderer } from '../services/invoiceRenderer';
+
+const prisma = new PrismaClient();
+
+export class InvoiceController {
+  // Get all quotes and invoices with filtering
+  async getAllInvoices(req: Request, res: Response): Promise<void> {
+    try {
+      const { bookingId, type, status, page, limit } = req.query as any;
+
+      const where: any = {};
+      if (bookingId) {
+        where.bookingId = bookingId;
+      }
+      if (type) {
+        where.type = type;
+      }
+      if (status) {
+        where.status = status;
+      }
+
+      const currentPage = page || 1;
+      const pageSize = limit || 20;
+
+      const [invoices, totalCount] = await Promise.all([
+        prisma.invoice.findMany({
+          where,
+          skip: (currentPage - 1) * pageSize,
+          take: pageSize,
+          include: INVOICE_INCLUDE,
+          orderBy: { createdAt: 'desc' },
+        }),
+        prisma.invoice.count({ where }),
+      ]);
+
+      const totalPages = Math.ceil(totalCount / pageSize);
+
+      res.status(200).json({
+        message: 'Invoices retrieved successfully',
+        data: {
+          invoices,
+          pagination: {
+            currentPage,
+            totalPages,
+            totalCount,
+            limit: pageSize,
+            hasNextPage: currentPage < totalPages,
+            hasPrevPage: currentPage > 1,
+          },
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Invalid query parameters',
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error('Get invoices error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve invoices',
+      });
+    }
+  }
+
+  // Get invoice by ID
+  async getInvoiceById(req: Request, res: Response): Promise<void> {
+    try {
+      const invoice = await this.findInvoice(req, res);
+      if (!invoice) {
+        return;
+      }
+
+      res.status(200).json({
+        message: 'Invoice retrieved successfully',
+        data: { invoice },
+      });
+    } catch (error) {
+      console.error('Get invoice error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve invoice',
+      });
+    }
+  }
+
+  // Raise a quote or invoice for a booking
+  async createInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const { bookingId, type, ...input } = req.body;
+
+      const invoice = await invoiceService.createForBooking(bookingId, type, input);
+
+      res.status(201).json({
+        message: `${type === 'quote' ? 'Quote' : 'Invoice'} created successfully`,
+        data: { invoice },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Create invoice error:', 'Failed to create invoice');
+    }
+  }
+
+  // Re-price a draft invoice
+  async updateInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const invoice = await invoiceService.updateDraft(id || '', req.body);
+
+      res.status(200).json({
+        message: 'Invoice updated successfully',
+        data: { invoice },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Update invoice error:', 'Failed to update invoice');
+    }
+  }
+
+  // Mark an invoice as sent or void it
+  async updateInvoiceStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { status } = req.body;
+
+      const invoice = await invoiceService.setStatus(id || '', status);
+
+      res.status(200).json({
+        message: `Invoice ${status === 'void' ? 'voided' : 'marked as sent'} successfully`,
+        data: { invoice },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Update invoice status error:', 'Failed to update invoice status');
+    }
+  }
+
+  // Raise an invoice from a quote
+  async convertQuote(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const invoice = await invoiceService.convertQuote(id || '');
+
+      res.status(201).json({
+        message: 'Quote converted to invoice successfully',
+        data: { invoice },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Convert quote error:', 'Failed to convert quote');
+    }
+  }
+
+  // Take a deposit or balance payment through the payment provider
+  async createPayment(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { kind, amount } = req.body;
+
+      const payment = await invoiceService.takePayment(id || '', kind, amount);
+
+      if (payment.status === 'failed') {
+        res.status(402).json({
+          error: 'Payment failed',
+          message: payment.failureReason || 'The payment was declined',
+          details: { payment },
+        });
+        return;
+      }
+
+      res.status(201).json({
+        message: payment.status === 'succeeded' ? 'Payment received successfully' : 'Payment is being processed',
+        data: { payment },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Create payment error:', 'Failed to take payment');
+    }
+  }
+
+  // Render an invoice as an HTML document
+  async getInvoiceHtml(req: Request, res: Response): Promise<void> {
+    try {
+      const invoice = await this.findInvoice(req, res);
+      if (!invoice) {
+        return;
+      }
+
+      res.status(200).type('html').send(invoiceRenderer.renderHtml(invoice));
+    } catch (error) {
+      console.error('Render invoice HTML error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to render invoice',
+      });
+    }
+  }
+
+  // Render an invoice as a PDF download
+  async getInvoicePdf(req: Request, res: Response): Promise<void> {
+    try {
+      const invoice = await this.findInvoice(req, res);
+      if (!invoice) {
+        return;
+      }
+
+      res.status(200)
+        .type('application/pdf')
+        .attachment(`${invoice.number}.pdf`)
+        .send(invoiceRenderer.renderPdf(invoice));
+    } catch (error) {
+      console.error('Render invoice PDF error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to render invoice',
+      });
+    }
+  }
+
+  // Get currency, tax and deposit settings
+  async getBillingSettings(_req: Request, res: Response): Promise<void> {
+    try {
+      const settings = await invoiceService.getBillingSettings();
+
+      res.status(200).json({
+        message: 'Billing settings retrieved successfully',
+        data: { settings },
+      });
+    } catch (error) {
+      console.error('Get billing settings error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve billing settings',
+      });
+    }
+  }
+
+  // Update currency, tax and deposit settings
+  async updateBillingSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const { currency, taxRatePercent, depositPercent } = req.body;
+
+      const settings = await invoiceService.updateBillingSettings({ currency, taxRatePercent, depositPercent });
+
+      res.status(200).json({
+        message: 'Billing settings updated successfully',
+        data: { settings },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Update billing settings error:', 'Failed to update billing settings');
+    }
+  }
+
+  private async findInvoice(req: Request, res: Response) {
+    const { id } = req.params;
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: id || '' },
+      include: INVOICE_INCLUDE,
+    });
+
+    if (!invoice) {
+      res.status(404).json({
+        error: 'Invoice not found',
+        message: 'Invoice with the specified ID does not exist',
+      });
+      return null;
+    }
+
+    return invoice;
+  }
+
+  private handleError(res: Response, error: unknown, logMessage: string, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: error.code,
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        message: 'Invalid invoice data',
+        details: error.errors,
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
+
+export const invoiceController = new InvoiceController();
@@ -2,6 +2,7 @@ import request from 'supertest';
 import { PrismaClient } from '@prisma/client';
 import app from '../index';
 import { authService } from '../services/authService';
+import { AuthResult } from '../types/auth';
 
 const prisma = new PrismaClient();
 
@@ -22,7 +23,8 @@ describe('Portfolio Controller', () => {
       },
     });
 
-    const authResult = await authService.login('portfolio-test@example.com', 'testpassword');
+    // Without two-factor authentication, login signs straight in
+    const authResult = await authService.login('portfolio-test@example.com', 'testpassword') as AuthResult;
     authToken = authResult.accessToken;
   });
 
@@ -11,6 +11,8 @@ import {
   PaginationResult,
   PortfolioItem,
 } from '../types/portfolio';
+import { WebhookEvent } from '../config/webhookEvents';
+import { webhookService } from '../services/webhookService';
 
 const prisma = new PrismaClient();
 
@@ -214,6 +216,7 @@ export class PortfolioController {
 
       // Create content version for tracking
       await this.createContentVersion(portfolioItem.id, portfolioData, req.user?.id);
+      await this.notifyWebhooks('portfolio.created', [portfolioItem.id]);
 
       res.status(201).json({
         message: 'Portfolio item created successfully',
@@ -298,6 +301,7 @@ export class PortfolioController {
 
       // Create content version for tracking
       await this.createContentVersion(id, updateData, req.user?.id);
+      await this.notifyWebhooks('portfolio.updated', [id]);
 
       res.status(200).json({
         message: 'Portfolio item updated successfully',
@@ -355,6 +359,9 @@ export class PortfolioController {
         where: { id },
       });
 
+      // The item is gone, so subscribers get it as it was
+      await webhookService.dispatch('portfolio.deleted', existingItem);
+
       res.status(200).json({
         message: 'Portfolio item deleted successfully',
       });
@@ -530,6 +537,8 @@ export class PortfolioController {
         data: mediaData,
       });
 
+      await this.notifyWebhooks('portfolio.updated', [media.portfolioItemId]);
+
       res.status(201).json({
         message: 'Portfolio media created successfully',
         data: { media },
@@ -584,6 +593,8 @@ export class PortfolioController {
         data: updateData,
       });
 
+      await this.notifyWebhooks('portfolio.updated', [existingMedia.portfolioItemId]);
+
       res.status(200).json({
         message: 'Portfolio media updated successfully',
         data: { media },
@@ -636,6 +647,8 @@ export class PortfolioController {
         where: { id },
       });
 
+      await this.notifyWebhooks('portfolio.updated', [existingMedia.portfolioItemId]);
+
       res.status(200).json({
         message: 'Portfolio media deleted successfully',
       });
@@ -723,6 +736,8 @@ export class PortfolioController {
           return;
       }
 
+      await this.notifyWebhooks('portfolio.updated', existingMedia.map(media => media.portfolioItemId));
+
       res.status(200).json({
         message: `Bulk ${operation} operation completed successfully`,
         data: { result },
@@ -818,6 +833,10 @@ export class PortfolioController {
         uploadedMedia.push(media);
       }
 
+      if (uploadedMedia.length > 0) {
+        await this.notifyWebhooks('portfolio.updated', [portfolioItemId]);
+      }
+
       res.status(201).json({
         message: 'Media files uploaded successfully',
         data: { media: uploadedMedia },
@@ -831,6 +850,27 @@ export class PortfolioController {
     }
   }
 
+  // Tell webhook subscribers about portfolio items that were added or changed, media included
+  private async notifyWebhooks(event: WebhookEvent, portfolioItemIds: string[]): Promise<void> {
+    try {
+      const portfolioItems = await prisma.portfolioItem.findMany({
+        where: { id: { in: [...new Set(portfolioItemIds)] } },
+        include: {
+          media: {
+            orderBy: { sortOrder: 'asc' },
+          },
+        },
+      });
+
+      for (const portfolioItem of portfolioItems) {
+        await webhookService.dispatch(event, portfolioItem);
+      }
+    } catch (error) {
+      console.error('Portfolio webhook error:', error);
+      // Don't throw error as this is not critical for the main operation
+    }
+  }
+
   // Private helper method to create content version
   private async createContentVersion(
     portfolioItemId: string,
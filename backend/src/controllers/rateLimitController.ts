@@ -0,0 +1,51 @@
+import { Response } from 'express';
+import logger from '../config/logger';
+import { RateLimitPolicyName } from '../config/rateLimits';
+import { AuthenticatedRequest } from '../types/auth';
+import { rateLimitService } from '../services/rateLimitService';
+
+export class RateLimitController {
+  // Get a client's hit counts, blocks and violations under every policy
+  async getRateLimits(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      res.status(200).json({
+        message: 'Rate limits retrieved successfully',
+        data: await rateLimitService.inspect(req.params['key'] as string),
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get rate limits error:', 'Failed to retrieve rate limits');
+    }
+  }
+
+  // Lift a client's blocks and reset their counters, for one policy or all of them
+  async clearRateLimits(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const key = req.params['key'] as string;
+      const policy = req.query['policy'] as RateLimitPolicyName | undefined;
+      const data = await rateLimitService.clear(key, policy);
+
+      logger.info('Rate limits cleared', {
+        key,
+        policy: policy ?? 'all',
+        clearedBy: req.user?.email,
+        service: 'RateLimiting',
+      });
+      res.status(200).json({
+        message: 'Rate limits cleared successfully',
+        data,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Clear rate limits error:', 'Failed to clear rate limits');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, logMessage: string, fallbackMessage: string): void {
+    console.error(logMessage, error);
+    res.status(503).json({
+      error: 'Rate limit store unavailable',
+      message: fallbackMessage,
+    });
+  }
+}
+
+export const rateLimitController = new RateLimitController();
@@ -0,0 +1,295 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export class ResourceController {
+  // Get all resources with filtering
+  async getAllResources(req: Request, res: Response): Promise<void> {
+    try {
+      const { type, active } = req.query as any;
+
+      const where: any = {};
+
+      if (type) {
+        where.type = type;
+      }
+
+      if (active !== undefined) {
+        where.active = active;
+      }
+
+      const resources = await prisma.resource.findMany({
+        where,
+        include: {
+          _count: {
+            select: { services: true },
+          },
+        },
+        orderBy: [
+          { type: 'asc' },
+          { name: 'asc' },
+        ],
+      });
+
+      res.status(200).json({
+        message: 'Resources retrieved successfully',
+        data: { resources },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Invalid query parameters',
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error('Get resources error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve resources',
+      });
+    }
+  }
+
+  // Get resource by ID
+  async getResourceById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Resource ID is required',
+        });
+        return;
+      }
+
+      const resource = await prisma.resource.findUnique({
+        where: { id },
+        include: {
+          services: {
+            include: {
+              service: {
+                select: {
+                  id: true,
+                  name: true,
+                  active: true,
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (!resource) {
+        res.status(404).json({
+          error: 'Resource not found',
+          message: 'Resource with the specified ID does not exist',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        message: 'Resource retrieved successfully',
+        data: { resource },
+      });
+    } catch (error) {
+      console.error('Get resource by ID error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve resource',
+      });
+    }
+  }
+
+  // Create new resource
+  async createResource(req: Request, res: Response): Promise<void> {
+    try {
+      const resourceData = req.body;
+
+      const existingResource = await prisma.resource.findUnique({
+        where: { name: resourceData.name },
+      });
+
+      if (existingResource) {
+        res.status(409).json({
+          error: 'Resource already exists',
+          message: 'A resource with this name already exists',
+        });
+        return;
+      }
+
+      const resource = await prisma.resource.create({
+        data: {
+          ...resourceData,
+          description: resourceData.description || null,
+        },
+      });
+
+      res.status(201).json({
+        message: 'Resource created successfully',
+        data: { resource },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Invalid resource data',
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error('Create resource error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to create resource',
+      });
+    }
+  }
+
+  // Update resource
+  async updateResource(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const updateData = req.body;
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Resource ID is required',
+        });
+        return;
+      }
+
+      const existingResource = await prisma.resource.findUnique({
+        where: { id },
+        include: { services: true },
+      });
+
+      if (!existingResource) {
+        res.status(404).json({
+          error: 'Resource not found',
+          message: 'Resource with the specified ID does not exist',
+        });
+        return;
+      }
+
+      // If updating name, check for conflicts
+      if (updateData.name && updateData.name !== existingResource.name) {
+        const conflictResource = await prisma.resource.findUnique({
+          where: { name: updateData.name },
+        });
+
+        if (conflictResource) {
+          res.status(409).json({
+            error: 'Resource conflict',
+            message: 'A resource with this name already exists',
+          });
+          return;
+        }
+      }
+
+      // Services must still be able to fit in the resource
+      if (updateData.capacity !== undefined) {
+        const largestQuantity = Math.max(0, ...existingResource.services.map(service => service.quantity));
+        if (updateData.capacity < largestQuantity) {
+          res.status(400).json({
+            error: 'Invalid capacity',
+            message: `A service needs ${largestQuantity} units of this resource`,
+          });
+          return;
+        }
+      }
+
+      const resource = await prisma.resource.update({
+        where: { id },
+        data: {
+          ...updateData,
+          description: updateData.description !== undefined ? updateData.description || null : undefined,
+        },
+      });
+
+      res.status(200).json({
+        message: 'Resource updated successfully',
+        data: { resource },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Invalid resource data',
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error('Update resource error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to update resource',
+      });
+    }
+  }
+
+  // Delete resource
+  async deleteResource(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Resource ID is required',
+        });
+        return;
+      }
+
+      const existingResource = await prisma.resource.findUnique({
+        where: { id },
+        include: {
+          _count: {
+            select: { bookings: true },
+          },
+        },
+      });
+
+      if (!existingResource) {
+        res.status(404).json({
+          error: 'Resource not found',
+          message: 'Resource with the specified ID does not exist',
+        });
+        return;
+      }
+
+      // Booking history keeps its resources, so booked resources can only be deactivated
+      if (existingResource._count.bookings > 0) {
+        res.status(409).json({
+          error: 'Resource has bookings',
+          message: 'Cannot delete a resource that has been booked; deactivate it instead',
+        });
+        return;
+      }
+
+      await prisma.resource.delete({
+        where: { id },
+      });
+
+      res.status(200).json({
+        message: 'Resource deleted successfully',
+      });
+    } catch (error) {
+      console.error('Delete resource error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to delete resource',
+      });
+    }
+  }
+}
+
+export const resourceController = new ResourceController();
@@ -0,0 +1,160 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { scheduleService } from '../services/scheduleService';
+
+export class ScheduleController {
+  // Get the public studio schedule (weekly hours and upcoming closures)
+  async getSchedule(_req: Request, res: Response): Promise<void> {
+    try {
+      const schedule = await scheduleService.getWeeklySchedule();
+      const blackoutDates = await scheduleService.getBlackoutDates(
+        scheduleService.toDateKey(new Date(), schedule.timeZone)
+      );
+
+      res.status(200).json({
+        message: 'Studio schedule retrieved successfully',
+        data: {
+          schedule,
+          // Reasons are internal, the public calendar only needs the dates
+          blackoutDates: blackoutDates.map(blackout => scheduleService.blackoutDateKey(blackout.date)),
+        },
+      });
+    } catch (error) {
+      console.error('Get schedule error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve studio schedule',
+      });
+    }
+  }
+
+  // Update studio time zone, weekly opening hours, slot interval and cancellation window
+  async updateSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const { timeZone, slotIntervalMinutes, cancellationWindowHours, hours } = req.body;
+
+      const schedule = await scheduleService.updateWeeklySchedule({
+        timeZone,
+        slotIntervalMinutes,
+        cancellationWindowHours,
+        hours,
+      });
+
+      res.status(200).json({
+        message: 'Studio schedule updated successfully',
+        data: { schedule },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Invalid schedule data',
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error('Update schedule error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to update studio schedule',
+      });
+    }
+  }
+
+  // List blackout dates (admin)
+  async getBlackoutDates(req: Request, res: Response): Promise<void> {
+    try {
+      const { from, to } = req.query as any;
+
+      const blackoutDates = await scheduleService.getBlackoutDates(from, to);
+
+      res.status(200).json({
+        message: 'Blackout dates retrieved successfully',
+        data: { blackoutDates },
+      });
+    } catch (error) {
+      console.error('Get blackout dates error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve blackout dates',
+      });
+    }
+  }
+
+  // Add a blackout date
+  async createBlackoutDate(req: Request, res: Response): Promise<void> {
+    try {
+      const { date, reason } = req.body;
+
+      const existingBlackoutDate = await scheduleService.getBlackoutDateByDate(date);
+      if (existingBlackoutDate) {
+        res.status(409).json({
+          error: 'Blackout date already exists',
+          message: 'The studio is already closed on this date',
+        });
+        return;
+      }
+
+      const blackoutDate = await scheduleService.createBlackoutDate(date, reason);
+
+      res.status(201).json({
+        message: 'Blackout date created successfully',
+        data: { blackoutDate },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Invalid blackout date',
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error('Create blackout date error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to create blackout date',
+      });
+    }
+  }
+
+  // Remove a blackout date
+  async deleteBlackoutDate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Blackout date ID is required',
+        });
+        return;
+      }
+
+      const existingBlackoutDate = await scheduleService.getBlackoutDateById(id);
+      if (!existingBlackoutDate) {
+        res.status(404).json({
+          error: 'Blackout date not found',
+          message: 'Blackout date with the specified ID does not exist',
+        });
+        return;
+      }
+
+      await scheduleService.deleteBlackoutDate(id);
+
+      res.status(200).json({
+        message: 'Blackout date deleted successfully',
+      });
+    } catch (error) {
+      console.error('Delete blackout date error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to delete blackout date',
+      });
+    }
+  }
+}
+
+export const scheduleController = new ScheduleController();
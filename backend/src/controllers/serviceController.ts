@@ -224,6 +224,19 @@ export class ServiceController {
               icon: true,
             },
           },
+          resources: {
+            include: {
+              resource: {
+                select: {
+                  id: true,
+                  name: true,
+                  type: true,
+                  capacity: true,
+                  active: true,
+                },
+              },
+            },
+          },
         },
       });
 
@@ -509,6 +522,105 @@ export class ServiceController {
     }
   }
 
+  // Replace the resources a service needs for each booking
+  async setServiceResources(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { resources } = req.body as { resources: Array<{ resourceId: string; quantity: number }> };
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Service ID is required',
+        });
+        return;
+      }
+
+      const existingService = await prisma.service.findUnique({
+        where: { id },
+      });
+
+      if (!existingService) {
+        res.status(404).json({
+          error: 'Service not found',
+          message: 'Service with the specified ID does not exist',
+        });
+        return;
+      }
+
+      // Validate that every resource exists and can hold the requested quantity
+      const knownResources = await prisma.resource.findMany({
+        where: { id: { in: resources.map(item => item.resourceId) } },
+      });
+
+      for (const item of resources) {
+        const resource = knownResources.find(known => known.id === item.resourceId);
+
+        if (!resource) {
+          res.status(400).json({
+            error: 'Invalid resource',
+            message: `Resource ${item.resourceId} does not exist`,
+          });
+          return;
+        }
+
+        if (item.quantity > resource.capacity) {
+          res.status(400).json({
+            error: 'Invalid quantity',
+            message: `${resource.name} only has ${resource.capacity} unit(s) available`,
+          });
+          return;
+        }
+      }
+
+      await prisma.$transaction([
+        prisma.serviceResource.deleteMany({ where: { serviceId: id } }),
+        prisma.serviceResource.createMany({
+          data: resources.map(item => ({
+            serviceId: id,
+            resourceId: item.resourceId,
+            quantity: item.quantity,
+          })),
+        }),
+      ]);
+
+      const serviceResources = await prisma.serviceResource.findMany({
+        where: { serviceId: id },
+        include: {
+          resource: {
+            select: {
+              id: true,
+              name: true,
+              type: true,
+              capacity: true,
+              active: true,
+            },
+          },
+        },
+      });
+
+      res.status(200).json({
+        message: 'Service resources updated successfully',
+        data: { resources: serviceResources },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Invalid service resources',
+          details: error.errors,
+        });
+        return;
+      }
+
+      console.error('Set service resources error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to update service resources',
+      });
+    }
+  }
+
   // Get service availability
   async getServiceAvailability(req: Request, res: Response): Promise<void> {
     try {
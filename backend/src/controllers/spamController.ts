@@ -0,0 +1,81 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../types/auth';
+import { spamFilterService, SpamSettings } from '../services/spamFilterService';
+
+export class SpamController {
+  // Get the thresholds, the rules with their points and how much the classifier has learned
+  async getSettings(_req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const [settings, training] = await Promise.all([
+        spamFilterService.getSettings(),
+        spamFilterService.getTrainingCounts(),
+      ]);
+
+      res.status(200).json({
+        message: 'Spam filter settings retrieved successfully',
+        data: this.present(settings, training),
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get spam settings error:', 'Failed to retrieve spam filter settings');
+    }
+  }
+
+  async updateSettings(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const [settings, training] = await Promise.all([
+        spamFilterService.updateSettings(req.body),
+        spamFilterService.getTrainingCounts(),
+      ]);
+
+      res.status(200).json({
+        message: 'Spam filter settings updated successfully',
+        data: this.present(settings, training),
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Update spam settings error:', 'Failed to update spam filter settings');
+    }
+  }
+
+  private present(settings: SpamSettings, training: { spam: number; ham: number }) {
+    return {
+      quarantineThreshold: settings.quarantineThreshold,
+      rejectThreshold: settings.rejectThreshold,
+      rules: spamFilterService.getRules().map(rule => ({
+        id: rule.id,
+        description: rule.description,
+        defaultPoints: rule.defaultPoints,
+        points: settings.ruleWeights[rule.id] ?? rule.defaultPoints,
+      })),
+      training,
+    };
+  }
+
+  private handleError(res: Response, error: unknown, logMessage: string, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: error.code,
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        message: 'Invalid spam filter settings',
+        details: error.errors,
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
+
+export const spamController = new SpamController();
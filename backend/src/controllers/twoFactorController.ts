@@ -0,0 +1,99 @@
+import { Response } from 'express';
+import { AppError } from '../middleware/errorHandler';
+import { authService } from '../services/authService';
+import { twoFactorService } from '../services/twoFactorService';
+import { AuthenticatedRequest } from '../types/auth';
+
+// Two-factor authentication on the signed-in user's own account
+export class TwoFactorController {
+  async getStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const status = await twoFactorService.getStatus(req.user!.id);
+
+      res.status(200).json({
+        message: 'Two-factor status retrieved successfully',
+        data: status,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get two-factor status error:', 'Failed to get two-factor status');
+    }
+  }
+
+  async beginSetup(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const setup = await twoFactorService.beginSetup(req.user!);
+
+      res.status(200).json({
+        message: 'Scan the QR code with your authenticator app',
+        data: setup,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Two-factor setup error:', 'Failed to start two-factor setup');
+    }
+  }
+
+  async enable(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const recoveryCodes = await twoFactorService.enable(req.user!.id, req.body.code);
+
+      res.status(200).json({
+        message: 'Two-factor authentication enabled',
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Two-factor enable error:', 'Failed to enable two-factor authentication');
+    }
+  }
+
+  async disable(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      await authService.disableTwoFactor(req.user!.id, req.body.password, req.body.code);
+
+      res.status(200).json({
+        message: 'Two-factor authentication disabled',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Two-factor disable error:', 'Failed to disable two-factor authentication');
+    }
+  }
+
+  // New recovery codes replace the old ones; a current code is needed to get them
+  async regenerateRecoveryCodes(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!(await twoFactorService.verify(req.user!.id, req.body.code))) {
+        res.status(401).json({
+          error: 'INVALID_TWO_FACTOR_CODE',
+          message: 'Invalid authentication code',
+        });
+        return;
+      }
+
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user!.id);
+
+      res.status(200).json({
+        message: 'Recovery codes regenerated',
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Regenerate recovery codes error:', 'Failed to regenerate recovery codes');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, logMessage: string, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: error.code,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
+
+export const twoFactorController = new TwoFactorController();
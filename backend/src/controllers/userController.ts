@@ -0,0 +1,189 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../types/auth';
+import { twoFactorService } from '../services/twoFactorService';
+import { userService } from '../services/userService';
+
+export class UserController {
+  async getUsers(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const users = await userService.list(req.query as any);
+
+      res.status(200).json({
+        message: 'Users retrieved successfully',
+        data: { users },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get users error:', 'Failed to retrieve users');
+    }
+  }
+
+  // Get a user with the permissions their role grants
+  async getUser(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const user = await userService.getById(req.params['id'] || '');
+
+      res.status(200).json({
+        message: 'User retrieved successfully',
+        data: { user },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get user error:', 'Failed to retrieve user');
+    }
+  }
+
+  async updateUser(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const user = await userService.update(req.params['id'] || '', req.body, req.user!);
+
+      res.status(200).json({
+        message: 'User updated successfully',
+        data: { user },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Update user error:', 'Failed to update user');
+    }
+  }
+
+  async deleteUser(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      await userService.delete(req.params['id'] || '', req.user!);
+
+      res.status(200).json({
+        message: 'User deleted successfully',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Delete user error:', 'Failed to delete user');
+    }
+  }
+
+  async resetTwoFactor(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      await userService.resetTwoFactor(req.params['id'] || '', req.user!);
+
+      res.status(200).json({
+        message: 'Two-factor authentication reset',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Reset two-factor error:', 'Failed to reset two-factor authentication');
+    }
+  }
+
+  async unlockUser(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      await userService.unlock(req.params['id'] || '', req.user!);
+
+      res.status(200).json({
+        message: 'User unlocked',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Unlock user error:', 'Failed to unlock user');
+    }
+  }
+
+  async getTwoFactorPolicy(_req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const required = await twoFactorService.isRequired();
+
+      res.status(200).json({
+        message: 'Two-factor policy retrieved successfully',
+        data: { required },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get two-factor policy error:', 'Failed to retrieve two-factor policy');
+    }
+  }
+
+  async updateTwoFactorPolicy(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const required = await twoFactorService.setRequired(req.body.required, req.user!);
+
+      res.status(200).json({
+        message: 'Two-factor policy updated successfully',
+        data: { required },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Update two-factor policy error:', 'Failed to update two-factor policy');
+    }
+  }
+
+  // Pending invitations, newest first
+  async getInvitations(_req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const invitations = await userService.listInvitations();
+
+      res.status(200).json({
+        message: 'Invitations retrieved successfully',
+        data: { invitations },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get invitations error:', 'Failed to retrieve invitations');
+    }
+  }
+
+  async createInvitation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const invitation = await userService.invite(req.body, req.user!);
+
+      res.status(201).json({
+        message: 'Invitation sent successfully',
+        data: { invitation },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Create invitation error:', 'Failed to send invitation');
+    }
+  }
+
+  async resendInvitation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const invitation = await userService.resendInvitation(req.params['id'] || '', req.user!);
+
+      res.status(200).json({
+        message: 'Invitation resent successfully',
+        data: { invitation },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Resend invitation error:', 'Failed to resend invitation');
+    }
+  }
+
+  async revokeInvitation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      await userService.revokeInvitation(req.params['id'] || '');
+
+      res.status(200).json({
+        message: 'Invitation revoked successfully',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Revoke invitation error:', 'Failed to revoke invitation');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, logMessage: string, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: error.code,
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        message: 'Invalid user data',
+        details: error.errors,
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
+
+export const userController = new UserController();
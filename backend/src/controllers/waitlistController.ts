@@ -0,0 +1,168 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../middleware/errorHandler';
+import { emailService } from '../services/emailService';
+import { bookingAccessService } from '../services/bookingAccessService';
+import { waitlistService } from '../services/waitlistService';
+
+export class WaitlistController {
+  // Join the waitlist for a fully booked day
+  async joinWaitlist(req: Request, res: Response): Promise<void> {
+    try {
+      const entry = await waitlistService.joinWaitlist(req.body);
+
+      res.status(201).json({
+        message: 'Added to the waitlist successfully',
+        data: { entry },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Join waitlist error:', 'Failed to join the waitlist');
+    }
+  }
+
+  // List waitlist entries
+  async getWaitlist(req: Request, res: Response): Promise<void> {
+    try {
+      const entries = await waitlistService.getEntries(req.query as any);
+
+      res.status(200).json({
+        message: 'Waitlist retrieved successfully',
+        data: { entries },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get waitlist error:', 'Failed to retrieve the waitlist');
+    }
+  }
+
+  // Take a client off the waitlist
+  async deleteWaitlistEntry(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      await waitlistService.removeEntry(id || '');
+
+      res.status(200).json({
+        message: 'Waitlist entry removed successfully',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Delete waitlist entry error:', 'Failed to remove waitlist entry');
+    }
+  }
+
+  // Show the slot held for a waitlisted client through their emailed link
+  async getWaitlistOffer(req: Request, res: Response): Promise<void> {
+    try {
+      const entryId = this.resolveWaitlistToken(req, res);
+      if (!entryId) {
+        return;
+      }
+
+      const entry = await waitlistService.getOffer(entryId);
+
+      res.status(200).json({
+        message: 'Waitlist offer retrieved successfully',
+        data: {
+          offer: {
+            clientName: entry.clientName,
+            startTime: entry.offeredBooking.startTime,
+            endTime: entry.offeredBooking.endTime,
+            timeZone: entry.offeredBooking.timeZone,
+            service: entry.offeredBooking.service,
+            holdExpiresAt: entry.holdExpiresAt,
+          },
+        },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get waitlist offer error:', 'Failed to retrieve waitlist offer');
+    }
+  }
+
+  // Book the held slot through the client's emailed link
+  async claimWaitlistOffer(req: Request, res: Response): Promise<void> {
+    try {
+      const entryId = this.resolveWaitlistToken(req, res);
+      if (!entryId) {
+        return;
+      }
+
+      const booking = await waitlistService.claimOffer(entryId);
+
+      try {
+        const emailData = {
+          booking: {
+            id: booking.id,
+            clientName: booking.clientName,
+            clientEmail: booking.clientEmail,
+            clientPhone: booking.clientPhone,
+            bookingDate: booking.bookingDate,
+            startTime: booking.startTime,
+            endTime: booking.endTime,
+            timeZone: booking.timeZone,
+            status: booking.status,
+            projectDetails: booking.projectDetails,
+            budgetRange: booking.budgetRange,
+            location: booking.location,
+            notes: booking.notes,
+            calendarSequence: booking.calendarSequence,
+          },
+          service: booking.service,
+          manageUrl: bookingAccessService.getManageUrl(bookingAccessService.generateManageToken(booking)),
+        };
+
+        await emailService.sendBookingConfirmation(emailData);
+        await emailService.sendBookingNotificationToAdmin(emailData);
+      } catch (emailError) {
+        // Log email error but don't fail the booking
+        console.error('Failed to send booking emails:', emailError);
+      }
+
+      res.status(201).json({
+        message: 'Booking created successfully',
+        data: { booking },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Claim waitlist offer error:', 'Failed to book the held slot');
+    }
+  }
+
+  // Resolve the waitlist entry ID from a signed link, responding with 401 when the link is invalid
+  private resolveWaitlistToken(req: Request, res: Response): string | null {
+    const { token } = req.params;
+
+    try {
+      return bookingAccessService.verifyWaitlistToken(token || '');
+    } catch (error) {
+      res.status(401).json({
+        error: 'Invalid waitlist link',
+        message: 'This waitlist link is invalid or has expired',
+      });
+      return null;
+    }
+  }
+
+  private handleError(res: Response, error: unknown, logMessage: string, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: error.code,
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        message: 'Invalid waitlist data',
+        details: error.errors,
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
+
+export const waitlistController = new WaitlistController();
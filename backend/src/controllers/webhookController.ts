@@ -0,0 +1,151 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { WEBHOOK_EVENTS } from '../config/webhookEvents';
+import { AppError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../types/auth';
+import { webhookService } from '../services/webhookService';
+
+export class WebhookController {
+  // Subscriptions, with the events a subscription can be given
+  async getWebhooks(_req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const webhooks = await webhookService.list();
+
+      res.status(200).json({
+        message: 'Webhooks retrieved successfully',
+        data: { webhooks, events: WEBHOOK_EVENTS },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get webhooks error:', 'Failed to retrieve webhooks');
+    }
+  }
+
+  // The signing secret is only in this response
+  async createWebhook(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const data = await webhookService.create(req.body, req.user!);
+
+      res.status(201).json({
+        message: 'Webhook created successfully',
+        data,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Create webhook error:', 'Failed to create webhook');
+    }
+  }
+
+  async updateWebhook(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const webhook = await webhookService.update(req.params['id'] || '', req.body);
+
+      res.status(200).json({
+        message: 'Webhook updated successfully',
+        data: { webhook },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Update webhook error:', 'Failed to update webhook');
+    }
+  }
+
+  async deleteWebhook(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      await webhookService.remove(req.params['id'] || '', req.user!);
+
+      res.status(200).json({
+        message: 'Webhook deleted successfully',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Delete webhook error:', 'Failed to delete webhook');
+    }
+  }
+
+  async rotateSecret(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const data = await webhookService.rotateSecret(req.params['id'] || '', req.user!);
+
+      res.status(200).json({
+        message: 'Webhook secret rotated',
+        data,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Rotate webhook secret error:', 'Failed to rotate webhook secret');
+    }
+  }
+
+  // Answers with the outcome of the ping, delivered or not
+  async testWebhook(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const delivery = await webhookService.sendTest(req.params['id'] || '');
+
+      res.status(200).json({
+        message: delivery.status === 'delivered' ? 'Test event delivered' : 'Test event failed',
+        data: { delivery },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Test webhook error:', 'Failed to send test event');
+    }
+  }
+
+  async getDeliveries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const result = await webhookService.getDeliveries(req.params['id'] || '', req.query as any);
+
+      res.status(200).json({
+        message: 'Webhook deliveries retrieved successfully',
+        data: result,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Get webhook deliveries error:', 'Failed to retrieve webhook deliveries');
+    }
+  }
+
+  async redeliver(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id, deliveryId } = req.params;
+      const existing = await webhookService.getDelivery(deliveryId || '');
+      if (existing.subscriptionId !== id) {
+        res.status(404).json({
+          error: 'Delivery not found',
+          message: 'Webhook delivery with the specified ID does not exist',
+        });
+        return;
+      }
+
+      const delivery = await webhookService.redeliver(existing.id);
+
+      res.status(200).json({
+        message: delivery.status === 'delivered' ? 'Webhook redelivered' : 'Redelivery failed',
+        data: { delivery },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Redeliver webhook error:', 'Failed to redeliver webhook');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, logMessage: string, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.status).json({
+        error: error.code,
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        message: 'Invalid webhook data',
+        details: error.errors,
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
+
+export const webhookController = new WebhookController();
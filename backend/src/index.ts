@@ -38,6 +38,12 @@ import {
 // Import services
 import { loggingServiceMiddleware } from './services/loggingService';
 import { monitoringMiddleware, monitoringService } from './services/monitoringService';
+import { waitlistService } from './services/waitlistService';
+import { jobQueueService } from './services/jobQueueService';
+import { reminderService } from './services/reminderService';
+import { emailOutboxService } from './services/emailOutboxService';
+import { webhookService } from './services/webhookService';
+import { rateLimitStore } from './services/rateLimitStore';
 
 // Import configuration
 import { setupSwagger } from './config/swagger';
@@ -51,6 +57,18 @@ import serviceCategoryRoutes from './routes/serviceCategories';
 import portfolioRoutes from './routes/portfolio';
 import bookingRoutes from './routes/bookings';
 import contactRoutes from './routes/contact';
+import scheduleRoutes from './routes/schedule';
+import resourceRoutes from './routes/resources';
+import invoiceRoutes from './routes/invoices';
+import emailTemplateRoutes from './routes/emailTemplates';
+import emailRoutes from './routes/email';
+import clientRoutes from './routes/clients';
+import spamRoutes from './routes/spam';
+import challengeRoutes from './routes/challenge';
+import rateLimitRoutes from './routes/rateLimits';
+import userRoutes from './routes/users';
+import apiKeyRoutes from './routes/apiKeys';
+import webhookRoutes from './routes/webhooks';
 
 const app = express();
 const PORT = process.env['PORT'] || 5000;
@@ -141,6 +159,18 @@ app.use('/api/service-categories', serviceCategoryRoutes);
 app.use('/api/portfolio', portfolioRoutes);
 app.use('/api/bookings', bookingRoutes);
 app.use('/api/contact', contactRoutes);
+app.use('/api/schedule', scheduleRoutes);
+app.use('/api/resources', resourceRoutes);
+app.use('/api/invoices', invoiceRoutes);
+app.use('/api/email-templates', emailTemplateRoutes);
+app.use('/api/email', emailRoutes);
+app.use('/api/clients', clientRoutes);
+app.use('/api/spam', spamRoutes);
+app.use('/api/challenge', challengeRoutes);
+app.use('/api/rate-limits', rateLimitRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/webhooks', webhookRoutes);
 
 // API root endpoint
 app.get('/api', (req, res) => {
@@ -160,6 +190,18 @@ app.get('/api', (req, res) => {
       portfolio: '/api/portfolio',
       bookings: '/api/bookings',
       contact: '/api/contact',
+      schedule: '/api/schedule',
+      resources: '/api/resources',
+      invoices: '/api/invoices',
+      emailTemplates: '/api/email-templates',
+      email: '/api/email',
+      clients: '/api/clients',
+      spam: '/api/spam',
+      challenge: '/api/challenge',
+      rateLimits: '/api/rate-limits',
+      users: '/api/users',
+      apiKeys: '/api/api-keys',
+      webhooks: '/api/webhooks',
       docs: '/api-docs',
     },
     requestId: req.headers['x-request-id'],
@@ -192,6 +234,15 @@ if (process.env['NODE_ENV'] !== 'test') {
     console.log(`🌍 Environment: ${process.env['NODE_ENV'] || 'development'}`);
   });
 
+  // Pass expired waitlist holds on to the next client
+  waitlistService.start();
+
+  // Booking reminders, follow-ups, the admin digest, and email and webhook retries
+  reminderService.register();
+  emailOutboxService.register();
+  webhookService.register();
+  jobQueueService.start();
+
   // Graceful shutdown
   const gracefulShutdown = async (signal: string) => {
     logger.info('Graceful shutdown initiated', { signal });
@@ -207,6 +258,9 @@ if (process.env['NODE_ENV'] !== 'test') {
       try {
         // Shutdown monitoring service
         monitoringService.shutdown();
+        waitlistService.shutdown();
+        jobQueueService.shutdown();
+        await rateLimitStore.close();
         
         // Close logger
         await closeLogger();
@@ -0,0 +1,165 @@
+import request from 'supertest';
+import express from 'express';
+
+jest.mock('../services/authService', () => ({
+  authService: {
+    verifyAccessToken: jest.fn(() => ({ userId: 'user-1', sessionId: 'session-1', type: 'access' })),
+    getUserById: jest.fn(async () => ({ id: 'user-1', email: 'team@example.com', role: 'editor' })),
+  },
+}));
+
+jest.mock('../services/sessionService', () => ({
+  sessionService: {
+    getActive: jest.fn(async () => ({ id: 'session-1' })),
+    verifyCsrfToken: jest.fn((_sessionId: string, token?: string) => token === 'csrf-token'),
+  },
+}));
+
+jest.mock('../services/apiKeyService', () => ({
+  apiKeyService: {
+    isApiKey: jest.fn((token: string) => token.startsWith('dpk_')),
+    authenticate: jest.fn(async (key: string) => key === 'dpk_valid'
+      ? { apiKey: { id: 'key-1', name: 'Website', scopes: ['services:read', 'portfolio:write'] }, userId: 'user-1' }
+      : null),
+  },
+}));
+
+import { authenticateToken, requireRole, requireSession } from './auth';
+
+describe('Auth Middleware', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  describe('authenticateToken', () => {
+    beforeEach(() => {
+      app.get('/profile', authenticateToken, (req: any, res) => res.json({ user: req.user, sessionId: req.sessionId }));
+      app.post('/portfolio', authenticateToken, (_req, res) => res.json({ success: true }));
+    });
+
+    it('should accept the access token from the session cookie', async () => {
+      const response = await request(app).get('/profile').set('Cookie', 'access_token=jwt');
+
+      expect(response.status).toBe(200);
+      expect(response.body.sessionId).toBe('session-1');
+    });
+
+    it('should require the CSRF token for changes made with the cookie', async () => {
+      const withoutToken = await request(app).post('/portfolio').set('Cookie', 'access_token=jwt');
+      const withToken = await request(app)
+        .post('/portfolio')
+        .set('Cookie', 'access_token=jwt')
+        .set('X-CSRF-Token', 'csrf-token');
+
+      expect(withoutToken.status).toBe(403);
+      expect(withToken.status).toBe(200);
+    });
+
+    it('should not require the CSRF token with a bearer token', async () => {
+      const response = await request(app).post('/portfolio').set('Authorization', 'Bearer jwt');
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should refuse requests without a token', async () => {
+      const response = await request(app).get('/profile');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should accept an API key in X-API-Key or as the bearer token, acting as its creator', async () => {
+      const fromHeader = await request(app).get('/profile').set('X-API-Key', 'dpk_valid');
+      const asBearer = await request(app).get('/profile').set('Authorization', 'Bearer dpk_valid');
+
+      expect(fromHeader.status).toBe(200);
+      expect(fromHeader.body.user.id).toBe('user-1');
+      expect(fromHeader.body.sessionId).toBeUndefined();
+      expect(asBearer.status).toBe(200);
+    });
+
+    it('should refuse unknown, expired or revoked API keys', async () => {
+      const response = await request(app).get('/profile').set('X-API-Key', 'dpk_revoked');
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Invalid API key');
+    });
+  });
+
+  describe('API key scopes', () => {
+    beforeEach(() => {
+      app.get('/services', authenticateToken, requireRole('services:manage'), (_req, res) => res.json({ success: true }));
+      app.post('/services', authenticateToken, requireRole('services:manage'), (_req, res) => res.json({ success: true }));
+      app.post('/portfolio', authenticateToken, requireRole('portfolio:manage'), (_req, res) => res.json({ success: true }));
+      app.get('/users', authenticateToken, requireRole('users:manage'), (_req, res) => res.json({ success: true }));
+      app.get('/reports', authenticateToken, requireRole(['editor']), (_req, res) => res.json({ success: true }));
+      app.get('/sessions', authenticateToken, requireSession, (_req, res) => res.json({ success: true }));
+    });
+
+    it('should allow reads with a read scope and changes only with a write scope', async () => {
+      expect((await request(app).get('/services').set('X-API-Key', 'dpk_valid')).status).toBe(200);
+      expect((await request(app).post('/services').set('X-API-Key', 'dpk_valid')).status).toBe(403);
+      expect((await request(app).post('/portfolio').set('X-API-Key', 'dpk_valid')).status).toBe(200);
+    });
+
+    it('should refuse areas outside the scopes and routes guarded by role lists', async () => {
+      const users = await request(app).get('/users').set('X-API-Key', 'dpk_valid');
+      const reports = await request(app).get('/reports').set('X-API-Key', 'dpk_valid');
+
+      expect(users.status).toBe(403);
+      expect(reports.status).toBe(403);
+      expect(reports.body.error).toBe('Insufficient scope');
+    });
+
+    it('should keep account endpoints to signed-in sessions', async () => {
+      expect((await request(app).get('/sessions').set('X-API-Key', 'dpk_valid')).status).toBe(403);
+      expect((await request(app).get('/sessions').set('Authorization', 'Bearer jwt')).status).toBe(200);
+    });
+  });
+
+  describe('requireRole', () => {
+    const signedInAs = (role: string) => (req: any, _res: express.Response, next: express.NextFunction) => {
+      req.user = { id: 'user-1', email: 'team@example.com', role };
+      next();
+    };
+
+    it('should allow roles that hold the permission', async () => {
+      app.get('/invoices', signedInAs('manager'), requireRole('invoices:manage'), (_req, res) => {
+        res.json({ success: true });
+      });
+
+      const response = await request(app).get('/invoices');
+      expect(response.status).toBe(200);
+    });
+
+    it('should refuse roles without the permission', async () => {
+      app.get('/invoices', signedInAs('photographer'), requireRole('invoices:manage'), (_req, res) => {
+        res.json({ success: true });
+      });
+
+      const response = await request(app).get('/invoices');
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('Insufficient permissions');
+    });
+
+    it('should always let owners through', async () => {
+      app.get('/reports', signedInAs('owner'), requireRole(['manager']), (_req, res) => {
+        res.json({ success: true });
+      });
+
+      const response = await request(app).get('/reports');
+      expect(response.status).toBe(200);
+    });
+
+    it('should require a signed-in user', async () => {
+      app.get('/invoices', requireRole('invoices:manage'), (_req, res) => {
+        res.json({ success: true });
+      });
+
+      const response = await request(app).get('/invoices');
+      expect(response.status).toBe(401);
+    });
+  });
+});
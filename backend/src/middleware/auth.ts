@@ -1,6 +1,43 @@
-import { Response, NextFunction } from 'express';
+import { Request, Response, NextFunction } from 'express';
+import { scopesAllow } from '../config/apiKeyScopes';
+import { ACCESS_TOKEN_COOKIE } from '../config/authCookies';
+import { Permission, rolePermissions } from '../config/roles';
+import { apiKeyService } from '../services/apiKeyService';
 import { authService } from '../services/authService';
+import { sessionService } from '../services/sessionService';
 import { AuthenticatedRequest } from '../types/auth';
+import { parseCookies } from '../utils/cookies';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// The access token from the Authorization header, or else from the session cookie
+const readAccessToken = (req: Request): { token: string; fromCookie: boolean } | null => {
+  const authHeader = req.headers.authorization;
+  const bearer = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+  if (bearer) {
+    return { token: bearer, fromCookie: false };
+  }
+
+  const cookie = parseCookies(req.headers.cookie)[ACCESS_TOKEN_COOKIE];
+  return cookie ? { token: cookie, fromCookie: true } : null;
+};
+
+// An integration's API key, from X-API-Key or in place of a bearer access token
+const readApiKey = (req: Request): string | null => {
+  const header = req.get('X-API-Key');
+  if (header) {
+    return header;
+  }
+
+  const bearer = req.headers.authorization?.split(' ')[1];
+  return bearer && apiKeyService.isApiKey(bearer) ? bearer : null;
+};
+
+// Browsers attach cookies to cross-site requests too, so changes made with one must carry the CSRF token
+const passesCsrfCheck = (req: Request, fromCookie: boolean, sessionId: string): boolean =>
+  !fromCookie
+  || SAFE_METHODS.includes(req.method)
+  || sessionService.verifyCsrfToken(sessionId, req.get('X-CSRF-Token'));
 
 export const authenticateToken = async (
   req: AuthenticatedRequest,
@@ -8,10 +45,15 @@ export const authenticateToken = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+    const apiKey = readApiKey(req);
+    if (apiKey) {
+      await authenticateApiKey(req, res, next, apiKey);
+      return;
+    }
+
+    const credentials = readAccessToken(req);
 
-    if (!token) {
+    if (!credentials) {
       res.status(401).json({
         error: 'Access token required',
         message: 'Please provide a valid access token'
@@ -20,7 +62,25 @@ export const authenticateToken = async (
     }
 
     // Verify token
-    const decoded = authService.verifyAccessToken(token);
+    const decoded = authService.verifyAccessToken(credentials.token);
+
+    if (!passesCsrfCheck(req, credentials.fromCookie, decoded.sessionId)) {
+      res.status(403).json({
+        error: 'Invalid CSRF token',
+        message: 'Missing or invalid X-CSRF-Token header'
+      });
+      return;
+    }
+
+    // Tokens stop working as soon as their session is signed out
+    const session = await sessionService.getActive(decoded.sessionId);
+    if (!session) {
+      res.status(401).json({
+        error: 'Invalid token',
+        message: 'Session has ended'
+      });
+      return;
+    }
 
     // Get user from database
     const user = await authService.getUserById(decoded.userId);
@@ -34,6 +94,7 @@ export const authenticateToken = async (
 
     // Attach user to request
     req.user = user;
+    req.sessionId = session.id;
     next();
   } catch (error) {
     res.status(401).json({
@@ -43,7 +104,37 @@ export const authenticateToken = async (
   }
 };
 
-export const requireRole = (allowedRoles: string[]) => {
+// Requests made with an API key act as the user who created it
+const authenticateApiKey = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+  key: string
+): Promise<void> => {
+  const result = await apiKeyService.authenticate(key, req.ip);
+  const user = result && await authService.getUserById(result.userId);
+
+  if (!result || !user) {
+    res.status(401).json({
+      error: 'Invalid API key',
+      message: 'API key is invalid, expired or revoked'
+    });
+    return;
+  }
+
+  req.user = user;
+  req.apiKey = result.apiKey;
+  next();
+};
+
+/**
+ * Allow only the given roles through, or the roles holding a permission from
+ * config/roles. Owners always pass. Requests made with an API key also need a
+ * scope covering the permission, so routes guarded by a list of roles refuse them.
+ */
+export const requireRole = (allowed: readonly string[] | Permission) => {
+  const allowedRoles = typeof allowed === 'string' ? rolePermissions[allowed] : allowed;
+
   return (req: AuthenticatedRequest, _res: Response, next: NextFunction): void => {
     if (!req.user) {
       _res.status(401).json({
@@ -53,7 +144,7 @@ export const requireRole = (allowedRoles: string[]) => {
       return;
     }
 
-    if (!allowedRoles.includes(req.user.role)) {
+    if (req.user.role !== 'owner' && !allowedRoles.includes(req.user.role)) {
       _res.status(403).json({
         error: 'Insufficient permissions',
         message: `Access denied. Required roles: ${allowedRoles.join(', ')}`
@@ -61,11 +152,32 @@ export const requireRole = (allowedRoles: string[]) => {
       return;
     }
 
+    if (req.apiKey && (typeof allowed !== 'string' || !scopesAllow(req.apiKey.scopes, allowed, req.method))) {
+      _res.status(403).json({
+        error: 'Insufficient scope',
+        message: 'This API key is not allowed to make this request'
+      });
+      return;
+    }
+
     next();
   };
 };
 
-export const requireAdmin = requireRole(['admin']);
+// For the signed-in user's own account and sessions, which API keys can't reach
+export const requireSession = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+  if (!req.sessionId) {
+    res.status(403).json({
+      error: 'Session required',
+      message: 'Sign in to use this endpoint; API keys are not accepted'
+    });
+    return;
+  }
+
+  next();
+};
+
+export const requireAdmin = requireRole('users:manage');
 
 export const optionalAuth = async (
   req: AuthenticatedRequest,
@@ -73,14 +185,17 @@ export const optionalAuth = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader && authHeader.split(' ')[1];
+    const credentials = readAccessToken(req);
 
-    if (token) {
-      const decoded = authService.verifyAccessToken(token);
-      const user = await authService.getUserById(decoded.userId);
+    if (credentials) {
+      const decoded = authService.verifyAccessToken(credentials.token);
+      const session = passesCsrfCheck(req, credentials.fromCookie, decoded.sessionId)
+        ? await sessionService.getActive(decoded.sessionId)
+        : null;
+      const user = session && await authService.getUserById(decoded.userId);
       if (user) {
         req.user = user;
+        req.sessionId = decoded.sessionId;
       }
     }
 
@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from 'express';
+import logger from '../config/logger';
+import { AppError } from './errorHandler';
+import { challengeService } from '../services/challengeService';
+
+/**
+ * Require a solved proof-of-work challenge from `GET /api/challenge` in the
+ * `challenge` and `challengeSolution` body fields. Runs before validation, which
+ * strips both fields from the body.
+ */
+export const requireChallenge = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { challenge, challengeSolution } = req.body ?? {};
+
+  if (typeof challenge !== 'string' || typeof challengeSolution !== 'string') {
+    res.status(400).json({
+      error: {
+        code: 'CHALLENGE_REQUIRED',
+        message: 'Please reload the page and submit the form again.',
+      },
+    });
+    return;
+  }
+
+  try {
+    await challengeService.verify(challenge, challengeSolution);
+    next();
+  } catch (error) {
+    if (error instanceof AppError) {
+      logger.warn('Form challenge rejected', {
+        reason: error.message,
+        path: req.originalUrl,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+        service: 'Challenge',
+      });
+
+      res.status(error.status).json({
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+      });
+      return;
+    }
+
+    next(error);
+  }
+};
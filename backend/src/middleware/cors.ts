@@ -73,6 +73,7 @@ export const corsOptions: cors.CorsOptions = {
     'Authorization',
     'X-Request-ID',
     'X-API-Key',
+    'X-CSRF-Token',
     'Cache-Control',
     'Pragma',
     'Expires'
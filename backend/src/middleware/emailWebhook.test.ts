@@ -0,0 +1,48 @@
+import request from 'supertest';
+import express from 'express';
+import multer from 'multer';
+
+jest.mock('../services/emailOutboxService', () => ({
+  emailOutboxService: {
+    isValidWebhookToken: jest.fn((token: string) => token === 's3cret'),
+  },
+}));
+
+import { requireEmailWebhookToken } from './emailWebhook';
+
+describe('Email Webhook Token Middleware', () => {
+  let app: express.Application;
+  const parse = jest.fn();
+
+  beforeEach(() => {
+    parse.mockReset();
+
+    const form = multer({ storage: multer.memoryStorage() });
+    app = express();
+    app.post('/inbound', requireEmailWebhookToken, (req, res, next) => {
+      parse();
+      form.any()(req, res, next);
+    }, (_req, res) => {
+      res.json({ success: true });
+    });
+  });
+
+  it('should accept the configured token', async () => {
+    const response = await request(app)
+      .post('/inbound?token=s3cret')
+      .field('from', 'ama@example.com');
+
+    expect(response.status).toBe(200);
+    expect(parse).toHaveBeenCalled();
+  });
+
+  it('should refuse a wrong token before reading the upload', async () => {
+    const response = await request(app)
+      .post('/inbound?token=guess')
+      .attach('attachment1', Buffer.alloc(1024), 'notes.txt');
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe('Invalid webhook token');
+    expect(parse).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,23 @@
+import { Request, Response, NextFunction } from 'express';
+import { emailOutboxService } from '../services/emailOutboxService';
+
+/**
+ * Require the EMAIL_WEBHOOK_SECRET `token` query parameter on the email provider's
+ * webhooks. Runs before the body is parsed, so unauthenticated uploads are refused
+ * before any of them is read into memory.
+ */
+export const requireEmailWebhookToken = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!emailOutboxService.isValidWebhookToken(String(req.query['token']))) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Invalid webhook token',
+    });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,98 @@
+import request from 'supertest';
+import express from 'express';
+import { createRateLimiter } from './rateLimiting';
+import { RateLimitPolicy } from '../config/rateLimits';
+import { RateLimitService } from '../services/rateLimitService';
+import { MemoryRateLimitStore, RateLimitStore } from '../services/rateLimitStore';
+
+describe('Rate limiting with a shared store', () => {
+  const policy: RateLimitPolicy = {
+    name: 'contactForm',
+    windowMs: 5 * 60 * 1000,
+    max: 2,
+    blockMs: 15 * 60 * 1000,
+    message: 'Too many contact form submissions. Please try again later.',
+  };
+
+  let store: RateLimitStore;
+  let service: RateLimitService;
+
+  const appWith = (limiterPolicy: RateLimitPolicy) => {
+    const app = express();
+    app.set('trust proxy', true);
+    app.post('/contact', createRateLimiter(limiterPolicy, service), (_req, res) => {
+      res.json({ success: true });
+    });
+    return app;
+  };
+
+  const submit = (app: express.Application, ip = '203.0.113.7') =>
+    request(app).post('/contact').set('X-Forwarded-For', ip);
+
+  beforeEach(() => {
+    store = new MemoryRateLimitStore();
+    service = new RateLimitService(store, { contactForm: policy } as any);
+  });
+
+  it('should block a client once they go over the limit', async () => {
+    const app = appWith(policy);
+
+    expect((await submit(app)).status).toBe(200);
+    expect((await submit(app)).status).toBe(200);
+
+    const limited = await submit(app);
+    expect(limited.status).toBe(429);
+    expect(limited.body.error).toMatchObject({ code: 'RATE_LIMIT_EXCEEDED', message: policy.message });
+    expect(limited.body.error.retryAfter).toBe(15 * 60);
+    expect((await submit(app, '198.51.100.1')).status).toBe(200);
+  });
+
+  it('should keep the block across limiter instances sharing a store', async () => {
+    await submit(appWith(policy));
+    await submit(appWith(policy));
+    await submit(appWith(policy));
+
+    const state = await service.inspect('203.0.113.7');
+    expect(state.violations).toBe(1);
+    expect(state.policies[0]).toMatchObject({ policy: 'contactForm', hits: 3, limit: 2 });
+    expect(state.policies[0]?.blockedUntil).toBeInstanceOf(Date);
+
+    // A fresh window on another replica still sees the block
+    await store.delete([service.counterKey('contactForm', '203.0.113.7')]);
+    expect((await submit(appWith(policy))).status).toBe(429);
+  });
+
+  it('should let a client back in once their block is cleared', async () => {
+    const app = appWith(policy);
+    await submit(app);
+    await submit(app);
+    await submit(app);
+
+    const state = await service.clear('203.0.113.7');
+    expect(state.violations).toBe(0);
+    expect(state.policies[0]).toMatchObject({ hits: 0, blockedUntil: null });
+    expect((await submit(app)).status).toBe(200);
+  });
+
+  it('should lower progressive limits for repeat offenders', async () => {
+    const progressive: RateLimitPolicy = { name: 'progressive', windowMs: 60000, max: 10, message: 'Too many requests', progressive: true };
+    await store.increment('rl:violations:203.0.113.7', 60000);
+    await store.increment('rl:violations:203.0.113.7', 60000);
+
+    expect(await service.limitFor(progressive, '203.0.113.7')).toBe(8);
+    expect(await service.limitFor(progressive, '198.51.100.1')).toBe(10);
+  });
+
+  it('should let requests through when the store is unavailable', async () => {
+    const failing = new MemoryRateLimitStore();
+    const unavailable = () => Promise.reject(new Error('connect ECONNREFUSED'));
+    failing.increment = unavailable;
+    failing.get = unavailable;
+    service = new RateLimitService(failing, { contactForm: policy } as any);
+
+    const app = appWith(policy);
+    for (let i = 0; i < 3; i++) {
+      expect((await submit(app)).status).toBe(200);
+    }
+  });
+});
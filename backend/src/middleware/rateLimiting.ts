@@ -1,127 +1,170 @@
-import rateLimit from 'express-rate-limit';
-import { Request, Response } from 'express';
+import rateLimit, { AugmentedRequest, ClientRateLimitInfo, Store } from 'express-rate-limit';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import logger from '../config/logger';
+import { RateLimitPolicy, RateLimitPolicyName, rateLimitPolicies } from '../config/rateLimits';
+import { RateLimitService, rateLimitService } from '../services/rateLimitService';
+import { RedisRateLimitStore } from '../services/rateLimitStore';
 
-// Store for tracking rate limit violations
-const violationStore = new Map<string, { count: number; lastViolation: Date }>();
+// Who a policy counts requests for: the signed-in user on per-user policies, otherwise the IP
+const clientKey = (policy: RateLimitPolicy, req: Request): string => {
+  const user = (req as any).user;
+  return (policy.perUser && user?.id) || req.ip || 'unknown';
+};
 
 // Custom rate limit message handler
-const rateLimitMessage = (req: Request, res: Response) => {
-  const clientId = req.ip || 'unknown';
-  const violation = violationStore.get(clientId) || { count: 0, lastViolation: new Date() };
-  
-  violation.count += 1;
-  violation.lastViolation = new Date();
-  violationStore.set(clientId, violation);
+const rateLimitMessage = (req: Request, res: Response, policy: RateLimitPolicy, retryAt?: Date) => {
+  const retryAfter = retryAt ? Math.max(Math.ceil((retryAt.getTime() - Date.now()) / 1000), 1) : undefined;
+  if (retryAfter) {
+    res.setHeader('Retry-After', retryAfter);
+  }
 
   return res.status(429).json({
     error: {
-      message: 'Too many requests from this IP, please try again later.',
+      message: policy.message,
       code: 'RATE_LIMIT_EXCEEDED',
       status: 429,
       timestamp: new Date().toISOString(),
-      retryAfter: res.getHeader('Retry-After'),
+      retryAfter,
       requestId: req.headers['x-request-id'] || 'unknown',
     },
   });
 };
 
+/**
+ * Hands express-rate-limit's counters to the shared rate limit store, under the
+ * policy's own keys
+ */
+class SharedStore implements Store {
+  readonly localKeys = false;
+  readonly prefix: string;
+
+  constructor(private readonly policy: RateLimitPolicy, private readonly service: RateLimitService) {
+    this.prefix = service.counterKey(policy.name, '');
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const counter = await this.service.store.get(this.prefix + key);
+    return counter ? { totalHits: counter.count, resetTime: counter.resetAt } : undefined;
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const counter = await this.service.store.increment(this.prefix + key, this.policy.windowMs);
+    return { totalHits: counter.count, resetTime: counter.resetAt };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await this.service.store.decrement(this.prefix + key);
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await this.service.store.delete([this.prefix + key]);
+  }
+}
+
+// Redis counters go through rate-limit-redis; any other store through SharedStore
+const limiterStore = (policy: RateLimitPolicy, service: RateLimitService): Store =>
+  service.store instanceof RedisRateLimitStore
+    ? service.store.limiterStore(service.counterKey(policy.name, ''))
+    : new SharedStore(policy, service);
+
+/**
+ * Rate limiter for a policy from config/rateLimits. Counters, blocks and violations
+ * live in the shared store; if the store is unreachable requests are let through.
+ */
+export const createRateLimiter = (
+  policy: RateLimitPolicy,
+  service: RateLimitService = rateLimitService
+): RequestHandler => {
+  const limiter = rateLimit({
+    windowMs: policy.windowMs,
+    limit: (req: Request) => service.limitFor(policy, clientKey(policy, req)),
+    standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
+    legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+    keyGenerator: (req: Request) => clientKey(policy, req),
+    skipSuccessfulRequests: policy.skipSuccessfulRequests ?? false,
+    passOnStoreError: true,
+    store: limiterStore(policy, service),
+    handler: async (req: Request, res: Response) => {
+      const key = clientKey(policy, req);
+      let retryAt = (req as AugmentedRequest)['rateLimit']?.resetTime;
+
+      try {
+        retryAt = (await service.recordViolation(policy, key)) ?? retryAt;
+      } catch (error) {
+        logger.error('Failed to record rate limit violation', {
+          policy: policy.name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          service: 'RateLimiting',
+        });
+      }
+
+      logger.warn('Rate limit exceeded', {
+        policy: policy.name,
+        key,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+        path: req.originalUrl,
+        service: 'RateLimiting',
+      });
+
+      rateLimitMessage(req, res, policy, retryAt);
+    },
+  });
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (policy.skip?.(req)) {
+      next();
+      return;
+    }
+
+    if (policy.blockMs) {
+      try {
+        const blockedUntil = await service.getBlock(policy, clientKey(policy, req));
+        if (blockedUntil) {
+          rateLimitMessage(req, res, policy, blockedUntil);
+          return;
+        }
+      } catch (error) {
+        logger.error('Failed to check rate limit block', {
+          policy: policy.name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          service: 'RateLimiting',
+        });
+      }
+    }
+
+    limiter(req, res, next);
+  };
+};
+
+const limiterFor = (name: RateLimitPolicyName) => createRateLimiter(rateLimitPolicies[name]);
+
 // General API rate limiter
-export const generalLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: process.env.NODE_ENV === 'development' ? 1000 : 100, // Higher limit in development
-  message: rateLimitMessage,
-  standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
-  legacyHeaders: false, // Disable the `X-RateLimit-*` headers
-  keyGenerator: (req: Request) => {
-    // Use IP address as key, but could be enhanced with user ID for authenticated requests
-    return req.ip || 'unknown';
-  },
-  skip: (req: Request) => {
-    // Skip rate limiting for health checks
-    return req.path === '/health';
-  },
-});
+export const generalLimiter = limiterFor('general');
 
 // Strict rate limiter for authentication endpoints
-export const authLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 5, // limit each IP to 5 requests per windowMs for auth endpoints
-  message: rateLimitMessage,
-  standardHeaders: true,
-  legacyHeaders: false,
-  skipSuccessfulRequests: true, // Don't count successful requests
-});
+export const authLimiter = limiterFor('auth');
+
+// Password reset requests
+export const passwordResetLimiter = limiterFor('passwordReset');
 
 // File upload rate limiter
-export const uploadLimiter = rateLimit({
-  windowMs: 60 * 60 * 1000, // 1 hour
-  max: 20, // limit each IP to 20 uploads per hour
-  message: rateLimitMessage,
-  standardHeaders: true,
-  legacyHeaders: false,
-});
+export const uploadLimiter = limiterFor('upload');
 
 // Contact form rate limiter
-export const contactLimiter = rateLimit({
-  windowMs: 60 * 60 * 1000, // 1 hour
-  max: 3, // limit each IP to 3 contact form submissions per hour
-  message: rateLimitMessage,
-  standardHeaders: true,
-  legacyHeaders: false,
-});
+export const contactLimiter = limiterFor('contact');
 
 // Booking rate limiter
-export const bookingLimiter = rateLimit({
-  windowMs: 60 * 60 * 1000, // 1 hour
-  max: 10, // limit each IP to 10 booking attempts per hour
-  message: rateLimitMessage,
-  standardHeaders: true,
-  legacyHeaders: false,
-});
+export const bookingLimiter = limiterFor('booking');
 
 // Admin operations rate limiter (more lenient for authenticated admin users)
-export const adminLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 200, // higher limit for admin operations
-  message: rateLimitMessage,
-  standardHeaders: true,
-  legacyHeaders: false,
-  keyGenerator: (req: Request) => {
-    // Use user ID if authenticated, otherwise IP
-    const user = (req as any).user;
-    return user?.id || req.ip || 'unknown';
-  },
-});
+export const adminLimiter = limiterFor('admin');
 
 // Progressive rate limiting - increases restrictions for repeat offenders
-export const progressiveLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: (req: Request) => {
-    const clientId = req.ip || 'unknown';
-    const violation = violationStore.get(clientId);
-    
-    if (!violation) return 100; // Default limit
-    
-    // Reduce limit based on violation history
-    const baseLimit = 100;
-    const reductionFactor = Math.min(violation.count * 0.1, 0.8); // Max 80% reduction
-    return Math.floor(baseLimit * (1 - reductionFactor));
-  },
-  message: rateLimitMessage,
-  standardHeaders: true,
-  legacyHeaders: false,
-});
-
-// Clean up old violation records periodically
-setInterval(() => {
-  const now = new Date();
-  const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
-  
-  for (const [clientId, violation] of violationStore.entries()) {
-    if (violation.lastViolation < oneHourAgo) {
-      violationStore.delete(clientId);
-    }
-  }
-}, 60 * 60 * 1000); // Clean up every hour
+export const progressiveLimiter = limiterFor('progressive');
+
+// Contact form submissions, blocking for 15 minutes once exceeded
+export const contactFormLimiter = limiterFor('contactForm');
 
-export { violationStore };
\ No newline at end of file
+// General contact endpoint access
+export const contactEndpointLimiter = limiterFor('contactEndpoint');
@@ -0,0 +1,161 @@
+import { Router } from 'express';
+import { apiKeyController } from '../controllers/apiKeyController';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { apiKeyIdSchema, createApiKeySchema } from '../schemas/apiKey';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ApiKey:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: Website builder
+ *         prefix:
+ *           type: string
+ *           description: Start of the key, to recognise it by
+ *           example: dpk_Xk2r9Q
+ *         scopes:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: [bookings:read, portfolio:write]
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastUsedIp:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         createdBy:
+ *           type: object
+ *           description: The user requests made with the key act as
+ */
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   get:
+ *     summary: List API keys (Owner or admin)
+ *     description: Keys that haven't been revoked, and the scopes a key can be given.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     apiKeys:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ApiKey'
+ *                     scopes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       403:
+ *         description: Owner or admin required
+ */
+router.get('/', authenticateToken, requireRole('integrations:manage'), apiKeyController.getApiKeys.bind(apiKeyController));
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   post:
+ *     summary: Create an API key (Owner or admin)
+ *     description: >
+ *       Requests made with the key act as you, limited to its scopes: `<area>:read`
+ *       for GET requests and `<area>:write` for changes. Send it in the X-API-Key
+ *       header or as a bearer token. The key is only returned here.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *     responses:
+ *       201:
+ *         description: API key created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     apiKey:
+ *                       $ref: '#/components/schemas/ApiKey'
+ *                     key:
+ *                       type: string
+ *       400:
+ *         description: Invalid scopes or expiry
+ */
+router.post('/', authenticateToken, requireRole('integrations:manage'), validate(createApiKeySchema), apiKeyController.createApiKey.bind(apiKeyController));
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key (Owner or admin)
+ *     description: The key stops working straight away.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *       404:
+ *         description: API key not found
+ */
+router.delete('/:id', authenticateToken, requireRole('integrations:manage'), validate(apiKeyIdSchema), apiKeyController.revokeApiKey.bind(apiKeyController));
+
+export default router;
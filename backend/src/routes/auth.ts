@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { authController } from '../controllers/authController';
-import { authenticateToken } from '../middleware/auth';
+import { twoFactorController } from '../controllers/twoFactorController';
+import { authenticateToken, requireSession } from '../middleware/auth';
+import { passwordResetLimiter } from '../middleware/rateLimiting';
 import { validate } from '../middleware/validation';
 import {
   registerSchema,
@@ -8,6 +10,13 @@ import {
   refreshTokenSchema,
   forgotPasswordSchema,
   resetPasswordSchema,
+  sessionIdParamSchema,
+  acceptInvitationSchema,
+  verifyTwoFactorLoginSchema,
+  twoFactorSetupAtLoginSchema,
+  enableTwoFactorAtLoginSchema,
+  twoFactorCodeBodySchema,
+  disableTwoFactorSchema,
 } from '../schemas/auth';
 
 const router = Router();
@@ -29,6 +38,10 @@ const router = Router();
  *           type: string
  *         lastName:
  *           type: string
+ *         twoFactorEnabledAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -42,10 +55,56 @@ const router = Router();
  *           $ref: '#/components/schemas/User'
  *         accessToken:
  *           type: string
- *         refreshToken:
+ *           description: Also set as the httpOnly access_token cookie
+ *         csrfToken:
+ *           type: string
+ *           description: Send as X-CSRF-Token on changes made with the session cookies
+ *         expiresIn:
+ *           type: number
+ *     TwoFactorChallenge:
+ *       type: object
+ *       description: Returned by login instead of tokens when a second factor is needed
+ *       properties:
+ *         twoFactor:
+ *           type: string
+ *           enum: [verify, setup]
+ *           description: Enter a code (verify), or set up two-factor authentication first (setup)
+ *         challengeToken:
  *           type: string
  *         expiresIn:
  *           type: number
+ *     TwoFactorSetup:
+ *       type: object
+ *       properties:
+ *         secret:
+ *           type: string
+ *           description: Base32 secret, for typing into the authenticator app
+ *         otpauthUrl:
+ *           type: string
+ *           description: Provisioning URI to show as a QR code
+ *     Session:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         device:
+ *           type: string
+ *           example: Chrome on macOS
+ *         userAgent:
+ *           type: string
+ *         ipAddress:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         lastSeenAt:
+ *           type: string
+ *           format: date-time
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         current:
+ *           type: boolean
  *   securitySchemes:
  *     bearerAuth:
  *       type: http
@@ -57,7 +116,10 @@ const router = Router();
  * @swagger
  * /api/auth/register:
  *   post:
- *     summary: Register a new user
+ *     summary: Register the first user
+ *     description: >
+ *       Creates the first account, as its owner. Once anyone has an account,
+ *       registration is closed and people join through invitations.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -93,8 +155,8 @@ const router = Router();
  *                   $ref: '#/components/schemas/AuthResult'
  *       400:
  *         description: Validation error
- *       409:
- *         description: User already exists
+ *       403:
+ *         description: Registration is closed
  */
 router.post('/register', validate({ body: registerSchema.shape.body }), authController.register.bind(authController));
 
@@ -103,6 +165,11 @@ router.post('/register', validate({ body: registerSchema.shape.body }), authCont
  * /api/auth/login:
  *   post:
  *     summary: Login user
+ *     description: >
+ *       Signs in, or returns a two-factor challenge when the user has two-factor
+ *       authentication on or the studio requires it. Five wrong passwords in a row
+ *       lock the account, for 15 minutes at first and twice as long each time after,
+ *       and email its owner.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -130,17 +197,61 @@ router.post('/register', validate({ body: registerSchema.shape.body }), authCont
  *                 message:
  *                   type: string
  *                 data:
- *                   $ref: '#/components/schemas/AuthResult'
+ *                   oneOf:
+ *                     - $ref: '#/components/schemas/AuthResult'
+ *                     - $ref: '#/components/schemas/TwoFactorChallenge'
  *       401:
  *         description: Invalid credentials
+ *       423:
+ *         description: Account locked after too many failed attempts
  */
 router.post('/login', validate({ body: loginSchema.shape.body }), authController.login.bind(authController));
 
 /**
  * @swagger
- * /api/auth/refresh:
+ * /api/auth/login/2fa:
  *   post:
- *     summary: Refresh access token
+ *     summary: Finish login with a two-factor code
+ *     description: Takes a code from the authenticator app or an unused recovery code
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthResult'
+ *       401:
+ *         description: Invalid code, or the challenge has expired
+ *       423:
+ *         description: Account locked after too many failed attempts
+ */
+router.post('/login/2fa', validate({ body: verifyTwoFactorLoginSchema.shape.body }), authController.verifyTwoFactorLogin.bind(authController));
+
+/**
+ * @swagger
+ * /api/auth/login/2fa/setup:
+ *   post:
+ *     summary: Start the two-factor setup required to log in
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -149,7 +260,74 @@ router.post('/login', validate({ body: loginSchema.shape.body }), authController
  *           schema:
  *             type: object
  *             required:
- *               - refreshToken
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Secret and provisioning URI for the authenticator app
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/TwoFactorSetup'
+ *       401:
+ *         description: The challenge has expired
+ */
+router.post('/login/2fa/setup', validate({ body: twoFactorSetupAtLoginSchema.shape.body }), authController.beginTwoFactorSetupAtLogin.bind(authController));
+
+/**
+ * @swagger
+ * /api/auth/login/2fa/enable:
+ *   post:
+ *     summary: Confirm the required two-factor setup and log in
+ *     description: Returns the session along with recovery codes, which are not shown again
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled and logged in
+ *       400:
+ *         description: Invalid code
+ *       401:
+ *         description: The challenge has expired
+ */
+router.post('/login/2fa/enable', validate({ body: enableTwoFactorAtLoginSchema.shape.body }), authController.enableTwoFactorAtLogin.bind(authController));
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Refresh access token
+ *     description: >
+ *       Rotates the refresh token from the refresh_token cookie (or the body, for
+ *       clients without cookies) and sets new session cookies. Reusing a refresh token
+ *       that was already rotated revokes its session.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
  *             properties:
  *               refreshToken:
  *                 type: string
@@ -170,11 +348,96 @@ router.post('/login', validate({ body: loginSchema.shape.body }), authController
  */
 router.post('/refresh', validate({ body: refreshTokenSchema.shape.body }), authController.refreshToken.bind(authController));
 
+/**
+ * @swagger
+ * /api/auth/invitations/{token}:
+ *   get:
+ *     summary: Look up an invitation from its emailed link
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     invitation:
+ *                       $ref: '#/components/schemas/UserInvitation'
+ *       404:
+ *         description: Invitation is invalid, expired or already used
+ */
+router.get('/invitations/:token', authController.getInvitation.bind(authController));
+
+/**
+ * @swagger
+ * /api/auth/invitations/{token}/accept:
+ *   post:
+ *     summary: Accept an invitation
+ *     description: Creates the account with the invited role and signs in
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Invitation accepted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthResult'
+ *       400:
+ *         description: Invitation is invalid, expired or already used
+ */
+router.post(
+  '/invitations/:token/accept',
+  validate({ params: acceptInvitationSchema.shape.params, body: acceptInvitationSchema.shape.body }),
+  authController.acceptInvitation.bind(authController)
+);
+
 /**
  * @swagger
  * /api/auth/forgot-password:
  *   post:
  *     summary: Request password reset
+ *     description: |
+ *       Emails a single-use reset link, valid for an hour, when the email belongs to an
+ *       account. The response is the same whether or not it does.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -190,9 +453,11 @@ router.post('/refresh', validate({ body: refreshTokenSchema.shape.body }), authC
  *                 format: email
  *     responses:
  *       200:
- *         description: Password reset token generated
+ *         description: Reset link sent if the account exists
+ *       429:
+ *         description: Too many reset requests
  */
-router.post('/forgot-password', validate({ body: forgotPasswordSchema.shape.body }), authController.forgotPassword.bind(authController));
+router.post('/forgot-password', passwordResetLimiter, validate({ body: forgotPasswordSchema.shape.body }), authController.forgotPassword.bind(authController));
 
 /**
  * @swagger
@@ -218,8 +483,8 @@ router.post('/forgot-password', validate({ body: forgotPasswordSchema.shape.body
  *     responses:
  *       200:
  *         description: Password reset successfully
- *       401:
- *         description: Invalid or expired reset token
+ *       400:
+ *         description: Validation error, or an invalid, expired or already used reset token
  */
 router.post('/reset-password', validate({ body: resetPasswordSchema.shape.body }), authController.resetPassword.bind(authController));
 
@@ -228,16 +493,98 @@ router.post('/reset-password', validate({ body: resetPasswordSchema.shape.body }
  * /api/auth/logout:
  *   post:
  *     summary: Logout user
+ *     description: Ends the current session and clears the session cookies
  *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
+ *       - cookieAuth: []
  *     responses:
  *       200:
  *         description: Logout successful
  *       401:
  *         description: Authentication required
  */
-router.post('/logout', authenticateToken, authController.logout.bind(authController));
+router.post('/logout', authenticateToken, requireSession, authController.logout.bind(authController));
+
+/**
+ * @swagger
+ * /api/auth/logout-all:
+ *   post:
+ *     summary: Log out everywhere
+ *     description: Ends every session of the signed-in user, this one included
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: All sessions ended
+ *       401:
+ *         description: Authentication required
+ */
+router.post('/logout-all', authenticateToken, requireSession, authController.logoutAll.bind(authController));
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     sessions:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Session'
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/sessions', authenticateToken, requireSession, authController.getSessions.bind(authController));
+
+/**
+ * @swagger
+ * /api/auth/sessions/{id}:
+ *   delete:
+ *     summary: Revoke a session
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Session not found
+ */
+router.delete(
+  '/sessions/:id',
+  authenticateToken,
+  requireSession,
+  validate({ params: sessionIdParamSchema.shape.params }),
+  authController.revokeSession.bind(authController)
+);
 
 /**
  * @swagger
@@ -265,6 +612,146 @@ router.post('/logout', authenticateToken, authController.logout.bind(authControl
  *       401:
  *         description: Authentication required
  */
-router.get('/profile', authenticateToken, authController.getProfile.bind(authController));
+router.get('/profile', authenticateToken, requireSession, authController.getProfile.bind(authController));
+
+/**
+ * @swagger
+ * /api/auth/2fa:
+ *   get:
+ *     summary: Two-factor status of the current user
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Whether two-factor is on, recovery codes left and whether the studio requires it
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/2fa', authenticateToken, requireSession, twoFactorController.getStatus.bind(twoFactorController));
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     summary: Start setting up two-factor authentication
+ *     description: Starting again replaces a secret that was never confirmed
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret and provisioning URI for the authenticator app
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/TwoFactorSetup'
+ *       409:
+ *         description: Two-factor authentication is already on
+ */
+router.post('/2fa/setup', authenticateToken, requireSession, twoFactorController.beginSetup.bind(twoFactorController));
+
+/**
+ * @swagger
+ * /api/auth/2fa/enable:
+ *   post:
+ *     summary: Confirm two-factor setup with a code from the app
+ *     description: Returns recovery codes, which are not shown again
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *       400:
+ *         description: Invalid code, or setup not started
+ */
+router.post('/2fa/enable', authenticateToken, requireSession, validate({ body: twoFactorCodeBodySchema.shape.body }), twoFactorController.enable.bind(twoFactorController));
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     summary: Turn off two-factor authentication
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - code
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       401:
+ *         description: Incorrect password or code
+ *       403:
+ *         description: The studio requires two-factor authentication
+ */
+router.post('/2fa/disable', authenticateToken, requireSession, validate({ body: disableTwoFactorSchema.shape.body }), twoFactorController.disable.bind(twoFactorController));
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Replace the recovery codes
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes; the old ones stop working
+ *       401:
+ *         description: Invalid code
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authenticateToken,
+  requireSession,
+  validate({ body: twoFactorCodeBodySchema.shape.body }),
+  twoFactorController.regenerateRecoveryCodes.bind(twoFactorController)
+);
 
 export default router;
\ No newline at end of file
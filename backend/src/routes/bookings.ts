@@ -1,7 +1,12 @@
 import { Router } from 'express';
 import { bookingController } from '../controllers/bookingController';
-import { authenticateToken } from '../middleware/auth';
+import { bookingSeriesController } from '../controllers/bookingSeriesController';
+import { calendarController } from '../controllers/calendarController';
+import { waitlistController } from '../controllers/waitlistController';
+import { authenticateToken, requireRole } from '../middleware/auth';
 import { validate } from '../middleware/validation';
+import { spamDetection } from '../middleware/spamProtection';
+import { requireChallenge } from '../middleware/challenge';
 import {
   createBookingSchema,
   updateBookingSchema,
@@ -11,6 +16,18 @@ import {
   availabilitySchema,
   updateBookingStatusSchema,
   bulkBookingOperationSchema,
+  manageBookingSchema,
+  rescheduleBookingSchema,
+  createBookingSeriesSchema,
+  checkBookingSeriesSchema,
+  getBookingSeriesSchema,
+  rescheduleBookingSeriesSchema,
+  calendarFeedSchema,
+  joinWaitlistSchema,
+  waitlistFiltersSchema,
+  waitlistEntrySchema,
+  waitlistOfferSchema,
+  markBookingSpamSchema,
 } from '../schemas/booking';
 
 const router = Router();
@@ -35,15 +52,21 @@ const router = Router();
  *         bookingDate:
  *           type: string
  *           format: date
+ *           description: Studio calendar day of the start time
  *         startTime:
  *           type: string
  *           format: date-time
  *         endTime:
  *           type: string
  *           format: date-time
+ *         timeZone:
+ *           type: string
+ *           description: IANA zone of the studio when the booking was made
+ *           example: Africa/Accra
  *         status:
  *           type: string
- *           enum: [pending, confirmed, cancelled, completed]
+ *           enum: [pending, confirmed, cancelled, completed, quarantined, spam]
+ *           description: Quarantined bookings await spam review and do not hold their slot
  *         projectDetails:
  *           type: string
  *         budgetRange:
@@ -52,6 +75,12 @@ const router = Router();
  *           type: string
  *         notes:
  *           type: string
+ *         seriesId:
+ *           type: string
+ *           description: Series the booking is a session of
+ *         seriesIndex:
+ *           type: integer
+ *           description: Position of the session in its series, starting at 0
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -60,6 +89,49 @@ const router = Router();
  *           format: date-time
  *         service:
  *           $ref: '#/components/schemas/Service'
+ *     RecurrenceRule:
+ *       type: object
+ *       required:
+ *         - type
+ *       description: |
+ *         weekly repeats every intervalWeeks weeks, interval repeats every everyDays days,
+ *         dates adds sessions on the listed studio days. Sessions keep the first session's time of day.
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [weekly, interval, dates]
+ *         count:
+ *           type: integer
+ *           minimum: 2
+ *           maximum: 52
+ *         intervalWeeks:
+ *           type: integer
+ *           default: 1
+ *         everyDays:
+ *           type: integer
+ *         dates:
+ *           type: array
+ *           items:
+ *             type: string
+ *             format: date
+ *     OccurrenceReport:
+ *       type: object
+ *       properties:
+ *         index:
+ *           type: integer
+ *         startTime:
+ *           type: string
+ *           format: date-time
+ *         endTime:
+ *           type: string
+ *           format: date-time
+ *         available:
+ *           type: boolean
+ *         reason:
+ *           type: string
+ *           enum: [past, blackout, closed, outside_hours, series_overlap, conflict]
+ *         message:
+ *           type: string
  *     TimeSlot:
  *       type: object
  *       properties:
@@ -84,15 +156,56 @@ const router = Router();
  *           format: date-time
  *         bookingId:
  *           type: string
+ *           nullable: true
  *         service:
  *           type: object
+ *           nullable: true
  *           properties:
  *             id:
  *               type: string
  *             name:
  *               type: string
+ *         resourceIds:
+ *           type: array
+ *           items:
+ *             type: string
  *         status:
  *           type: string
+ *           description: Booking status, or 'busy' for time blocked by an external calendar
+ *     BookingEvent:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         type:
+ *           type: string
+ *           enum: [created, status_changed, rescheduled]
+ *         fromStatus:
+ *           type: string
+ *           nullable: true
+ *         toStatus:
+ *           type: string
+ *         actorType:
+ *           type: string
+ *           enum: [admin, client, system]
+ *         actorName:
+ *           type: string
+ *           nullable: true
+ *           description: Admin email or client name at the time of the change
+ *         actor:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             id:
+ *               type: string
+ *             email:
+ *               type: string
+ *         reason:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
  */
 
 /**
@@ -107,8 +220,8 @@ const router = Router();
  *         required: true
  *         schema:
  *           type: string
- *           format: date-time
- *         description: Date to check availability for
+ *           example: '2026-03-14'
+ *         description: Studio calendar day (YYYY-MM-DD), or an ISO timestamp read in the studio's time zone
  *       - in: query
  *         name: serviceId
  *         schema:
@@ -136,17 +249,38 @@ const router = Router();
  *                     date:
  *                       type: string
  *                       format: date
+ *                     timeZone:
+ *                       type: string
+ *                       description: Studio zone; business hours are wall-clock times in this zone
  *                     serviceId:
  *                       type: string
  *                     duration:
  *                       type: integer
+ *                     closed:
+ *                       type: boolean
+ *                       description: True when the studio is closed on this date (weekly hours or blackout date)
  *                     businessHours:
  *                       type: object
+ *                       nullable: true
  *                       properties:
  *                         start:
- *                           type: integer
+ *                           type: string
+ *                           example: '09:00'
  *                         end:
- *                           type: integer
+ *                           type: string
+ *                           example: '18:00'
+ *                     slotIntervalMinutes:
+ *                       type: integer
+ *                     requiredResources:
+ *                       type: array
+ *                       description: Resources the service needs; slots are only free while enough capacity remains
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           resourceId:
+ *                             type: string
+ *                           quantity:
+ *                             type: integer
  *                     availableSlots:
  *                       type: array
  *                       items:
@@ -187,8 +321,8 @@ router.get('/availability', validate(availabilitySchema), bookingController.getA
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, confirmed, cancelled, completed]
- *         description: Filter by booking status
+ *           enum: [pending, confirmed, cancelled, completed, quarantined, spam]
+ *         description: Filter by booking status; quarantined and spam bookings are only listed when asked for
  *       - in: query
  *         name: clientEmail
  *         schema:
@@ -253,7 +387,7 @@ router.get('/availability', validate(availabilitySchema), bookingController.getA
  *       401:
  *         description: Authentication required
  */
-router.get('/', authenticateToken, validate(bookingFiltersSchema), bookingController.getAllBookings.bind(bookingController));
+router.get('/', authenticateToken, requireRole('bookings:read'), validate(bookingFiltersSchema), bookingController.getAllBookings.bind(bookingController));
 
 /**
  * @swagger
@@ -270,10 +404,17 @@ router.get('/', authenticateToken, validate(bookingFiltersSchema), bookingContro
  *             required:
  *               - clientName
  *               - clientEmail
- *               - bookingDate
  *               - startTime
  *               - endTime
+ *               - challenge
+ *               - challengeSolution
  *             properties:
+ *               challenge:
+ *                 type: string
+ *                 description: Challenge from GET /api/challenge
+ *               challengeSolution:
+ *                 type: string
+ *                 description: Solution to the challenge
  *               clientName:
  *                 type: string
  *                 maxLength: 255
@@ -289,6 +430,8 @@ router.get('/', authenticateToken, validate(bookingFiltersSchema), bookingContro
  *               bookingDate:
  *                 type: string
  *                 format: date-time
+ *                 deprecated: true
+ *                 description: Ignored; the studio day is derived from startTime
  *               startTime:
  *                 type: string
  *                 format: date-time
@@ -309,7 +452,7 @@ router.get('/', authenticateToken, validate(bookingFiltersSchema), bookingContro
  *                 maxLength: 1000
  *     responses:
  *       201:
- *         description: Booking created successfully
+ *         description: Booking created successfully. Submissions the spam filter quarantines are reported as pending.
  *         content:
  *           application/json:
  *             schema:
@@ -323,11 +466,13 @@ router.get('/', authenticateToken, validate(bookingFiltersSchema), bookingContro
  *                     booking:
  *                       $ref: '#/components/schemas/Booking'
  *       400:
- *         description: Validation error or invalid booking time
+ *         description: Validation error, missing challenge, invalid booking time or outside studio hours
+ *       403:
+ *         description: Challenge expired, reused or not solved
  *       409:
- *         description: Time slot unavailable (double booking)
+ *         description: Time slot unavailable (a required resource is fully booked, including service buffers)
  */
-router.post('/', validate(createBookingSchema), bookingController.createBooking.bind(bookingController));
+router.post('/', requireChallenge, spamDetection('booking'), validate(createBookingSchema), bookingController.createBooking.bind(bookingController));
 
 /**
  * @swagger
@@ -358,6 +503,10 @@ router.post('/', validate(createBookingSchema), bookingController.createBooking.
  *               notes:
  *                 type: string
  *                 maxLength: 1000
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Why the status changed, kept in the booking's history
  *     responses:
  *       200:
  *         description: Bulk operation completed successfully
@@ -383,25 +532,42 @@ router.post('/', validate(createBookingSchema), bookingController.createBooking.
  *         description: Authentication required
  *       404:
  *         description: Some bookings not found
+ *       409:
+ *         description: Some bookings still owe a deposit
  */
-router.post('/bulk', authenticateToken, validate(bulkBookingOperationSchema), bookingController.bulkBookingOperation.bind(bookingController));
+router.post('/bulk', authenticateToken, requireRole('bookings:manage'), validate(bulkBookingOperationSchema), bookingController.bulkBookingOperation.bind(bookingController));
 
 /**
  * @swagger
- * /api/bookings/{id}:
- *   get:
- *     summary: Get booking by ID
+ * /api/bookings/series/check:
+ *   post:
+ *     summary: Check which sessions of a proposed series can be booked
  *     tags: [Bookings]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *         description: Booking ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startTime
+ *               - endTime
+ *               - recurrence
+ *             properties:
+ *               serviceId:
+ *                 type: string
+ *               startTime:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Start of the first session
+ *               endTime:
+ *                 type: string
+ *                 format: date-time
+ *               recurrence:
+ *                 $ref: '#/components/schemas/RecurrenceRule'
  *     responses:
  *       200:
- *         description: Booking retrieved successfully
+ *         description: Availability of every session
  *         content:
  *           application/json:
  *             schema:
@@ -412,102 +578,146 @@ router.post('/bulk', authenticateToken, validate(bulkBookingOperationSchema), bo
  *                 data:
  *                   type: object
  *                   properties:
- *                     booking:
- *                       $ref: '#/components/schemas/Booking'
- *       404:
- *         description: Booking not found
+ *                     timeZone:
+ *                       type: string
+ *                     availableCount:
+ *                       type: integer
+ *                     occurrences:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/OccurrenceReport'
+ *       400:
+ *         description: Validation error
  */
-router.get('/:id', validate(getBookingSchema), bookingController.getBookingById.bind(bookingController));
+router.post('/series/check', validate(checkBookingSeriesSchema), bookingSeriesController.checkBookingSeries.bind(bookingSeriesController));
 
 /**
  * @swagger
- * /api/bookings/{id}:
- *   put:
- *     summary: Update booking (Admin only)
+ * /api/bookings/series:
+ *   post:
+ *     summary: Book a recurring or multi-day series of sessions
  *     tags: [Bookings]
- *     security:
- *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *         description: Booking ID
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
+ *             required:
+ *               - clientName
+ *               - clientEmail
+ *               - startTime
+ *               - endTime
+ *               - recurrence
+ *               - challenge
+ *               - challengeSolution
  *             properties:
+ *               challenge:
+ *                 type: string
+ *                 description: Challenge from GET /api/challenge
+ *               challengeSolution:
+ *                 type: string
+ *                 description: Solution to the challenge
  *               clientName:
  *                 type: string
- *                 maxLength: 255
  *               clientEmail:
  *                 type: string
  *                 format: email
- *                 maxLength: 255
  *               clientPhone:
  *                 type: string
- *                 maxLength: 50
  *               serviceId:
  *                 type: string
- *               bookingDate:
- *                 type: string
- *                 format: date-time
  *               startTime:
  *                 type: string
  *                 format: date-time
+ *                 description: Start of the first session
  *               endTime:
  *                 type: string
  *                 format: date-time
- *               status:
- *                 type: string
- *                 enum: [pending, confirmed, cancelled, completed]
+ *               recurrence:
+ *                 $ref: '#/components/schemas/RecurrenceRule'
+ *               skipConflicts:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Book the free sessions and skip the rest instead of rejecting the series
  *               projectDetails:
  *                 type: string
- *                 maxLength: 2000
  *               budgetRange:
  *                 type: string
- *                 maxLength: 50
  *               location:
  *                 type: string
- *                 maxLength: 255
  *               notes:
  *                 type: string
- *                 maxLength: 1000
+ *     responses:
+ *       201:
+ *         description: Booking series created successfully, with any skipped sessions. Series the spam filter quarantines are reported as pending.
+ *       400:
+ *         description: Validation error, missing challenge or invalid service
+ *       403:
+ *         description: Challenge expired, reused or not solved
+ *       409:
+ *         description: Some sessions cannot be booked; details list every session's availability
+ */
+router.post('/series', requireChallenge, spamDetection('booking'), validate(createBookingSeriesSchema), bookingSeriesController.createBookingSeries.bind(bookingSeriesController));
+
+/**
+ * @swagger
+ * /api/bookings/series/{id}:
+ *   get:
+ *     summary: Get a booking series with all of its sessions (Admin only)
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
- *         description: Booking updated successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 message:
- *                   type: string
- *                 data:
- *                   type: object
- *                   properties:
- *                     booking:
- *                       $ref: '#/components/schemas/Booking'
+ *         description: Booking series retrieved successfully
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Series not found
+ */
+router.get('/series/:id', authenticateToken, requireRole('bookings:read'), validate(getBookingSeriesSchema), bookingSeriesController.getBookingSeriesById.bind(bookingSeriesController));
+
+/**
+ * @swagger
+ * /api/bookings/series/{id}/cancel:
+ *   put:
+ *     summary: Cancel every upcoming session of a series (Admin only)
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Booking series cancelled successfully
  *       400:
- *         description: Validation error
+ *         description: No upcoming sessions left
  *       401:
  *         description: Authentication required
  *       404:
- *         description: Booking not found
- *       409:
- *         description: Time slot unavailable
+ *         description: Series not found
  */
-router.put('/:id', authenticateToken, validate(updateBookingSchema), bookingController.updateBooking.bind(bookingController));
+router.put('/series/:id/cancel', authenticateToken, requireRole('bookings:manage'), validate(getBookingSeriesSchema), bookingSeriesController.cancelBookingSeries.bind(bookingSeriesController));
 
 /**
  * @swagger
- * /api/bookings/{id}/status:
+ * /api/bookings/series/{id}/reschedule:
  *   put:
- *     summary: Update booking status (Admin only)
+ *     summary: Move every upcoming session of a series (Admin only)
+ *     description: |
+ *       The times are the new slot for the next upcoming session. Later sessions move by
+ *       the same number of days and onto the same time of day.
  *     tags: [Bookings]
  *     security:
  *       - bearerAuth: []
@@ -517,7 +727,6 @@ router.put('/:id', authenticateToken, validate(updateBookingSchema), bookingCont
  *         required: true
  *         schema:
  *           type: string
- *         description: Booking ID
  *     requestBody:
  *       required: true
  *       content:
@@ -525,17 +734,78 @@ router.put('/:id', authenticateToken, validate(updateBookingSchema), bookingCont
  *           schema:
  *             type: object
  *             required:
- *               - status
+ *               - startTime
+ *               - endTime
  *             properties:
- *               status:
+ *               startTime:
  *                 type: string
- *                 enum: [pending, confirmed, cancelled, completed]
- *               notes:
+ *                 format: date-time
+ *               endTime:
  *                 type: string
- *                 maxLength: 1000
+ *                 format: date-time
  *     responses:
  *       200:
- *         description: Booking status updated successfully
+ *         description: Booking series rescheduled successfully
+ *       400:
+ *         description: Validation error or no upcoming sessions left
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Series not found
+ *       409:
+ *         description: Some sessions cannot be moved; details list every session's availability
+ */
+router.put('/series/:id/reschedule', authenticateToken, requireRole('bookings:manage'), validate(rescheduleBookingSeriesSchema), bookingSeriesController.rescheduleBookingSeries.bind(bookingSeriesController));
+
+/**
+ * @swagger
+ * /api/bookings/calendar.ics:
+ *   get:
+ *     summary: Subscribe to bookings as an iCalendar feed
+ *     description: Authenticated by the token in the feed URL rather than a login, so calendar apps can poll it.
+ *     tags: [Bookings]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           example: pending,confirmed
+ *         description: Comma-separated statuses to include, defaults to pending and confirmed
+ *       - in: query
+ *         name: serviceId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: iCalendar feed
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Invalid or revoked feed token
+ */
+router.get('/calendar.ics', validate(calendarFeedSchema), calendarController.getCalendarFeed.bind(calendarController));
+
+/**
+ * @swagger
+ * /api/bookings/calendar/feed:
+ *   post:
+ *     summary: Create a calendar feed URL for the signed-in admin (Admin only)
+ *     description: Replaces any earlier feed URL of the admin. The URL is only returned once.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Calendar feed created successfully
  *         content:
  *           application/json:
  *             schema:
@@ -546,23 +816,579 @@ router.put('/:id', authenticateToken, validate(updateBookingSchema), bookingCont
  *                 data:
  *                   type: object
  *                   properties:
- *                     booking:
- *                       $ref: '#/components/schemas/Booking'
- *       400:
- *         description: Invalid status transition
+ *                     url:
+ *                       type: string
+ *       401:
+ *         description: Authentication required
+ *   delete:
+ *     summary: Revoke the signed-in admin's calendar feed URL (Admin only)
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Calendar feed revoked successfully
  *       401:
  *         description: Authentication required
- *       404:
- *         description: Booking not found
  */
-router.put('/:id/status', authenticateToken, validate(updateBookingStatusSchema), bookingController.updateBookingStatus.bind(bookingController));
+router.post('/calendar/feed', authenticateToken, requireRole('bookings:read'), calendarController.createCalendarFeed.bind(calendarController));
+router.delete('/calendar/feed', authenticateToken, requireRole('bookings:read'), calendarController.revokeCalendarFeed.bind(calendarController));
 
 /**
  * @swagger
- * /api/bookings/{id}:
- *   delete:
- *     summary: Cancel booking
+ * /api/bookings/waitlist:
+ *   post:
+ *     summary: Join the waitlist for a fully booked day
+ *     description: When a booking on the day is cancelled, the first client waiting for it is emailed a link to claim the freed slot, which is held for them for a limited time.
  *     tags: [Bookings]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - clientName
+ *               - clientEmail
+ *               - date
+ *               - challenge
+ *               - challengeSolution
+ *             properties:
+ *               challenge:
+ *                 type: string
+ *                 description: Challenge from GET /api/challenge
+ *               challengeSolution:
+ *                 type: string
+ *                 description: Solution to the challenge
+ *               clientName:
+ *                 type: string
+ *               clientEmail:
+ *                 type: string
+ *                 format: email
+ *               clientPhone:
+ *                 type: string
+ *               serviceId:
+ *                 type: string
+ *                 description: Leave out to accept a slot for any service
+ *               date:
+ *                 type: string
+ *                 example: '2026-03-14'
+ *                 description: Studio calendar day
+ *     responses:
+ *       201:
+ *         description: Added to the waitlist successfully
+ *       400:
+ *         description: Validation error, missing challenge, invalid service or past date
+ *       403:
+ *         description: Challenge expired, reused or not solved
+ *       409:
+ *         description: Already on the waitlist for this day
+ *   get:
+ *     summary: List waitlist entries (Admin only)
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           example: '2026-03-14'
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [waiting, offered, booked, expired]
+ *       - in: query
+ *         name: serviceId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Waitlist retrieved successfully
+ *       401:
+ *         description: Authentication required
+ */
+router.post('/waitlist', requireChallenge, validate(joinWaitlistSchema), waitlistController.joinWaitlist.bind(waitlistController));
+router.get('/waitlist', authenticateToken, requireRole('bookings:read'), validate(waitlistFiltersSchema), waitlistController.getWaitlist.bind(waitlistController));
+
+/**
+ * @swagger
+ * /api/bookings/waitlist/{id}:
+ *   delete:
+ *     summary: Remove a waitlist entry (Admin only)
+ *     description: A slot held for the entry is offered to the next client waiting for it.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Waitlist entry removed successfully
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Waitlist entry not found
+ */
+router.delete('/waitlist/:id', authenticateToken, requireRole('bookings:manage'), validate(waitlistEntrySchema), waitlistController.deleteWaitlistEntry.bind(waitlistController));
+
+/**
+ * @swagger
+ * /api/bookings/waitlist/offer/{token}:
+ *   get:
+ *     summary: View the slot held for a waitlisted client through their emailed link
+ *     tags: [Bookings]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Signed waitlist token from the offer email
+ *     responses:
+ *       200:
+ *         description: Waitlist offer retrieved successfully
+ *       401:
+ *         description: Invalid or expired waitlist link
+ *       410:
+ *         description: The offer has expired or has already been used
+ */
+router.get('/waitlist/offer/:token', validate(waitlistOfferSchema), waitlistController.getWaitlistOffer.bind(waitlistController));
+
+/**
+ * @swagger
+ * /api/bookings/waitlist/offer/{token}/claim:
+ *   post:
+ *     summary: Book the slot held for a waitlisted client
+ *     tags: [Bookings]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: Booking created successfully
+ *       401:
+ *         description: Invalid or expired waitlist link
+ *       409:
+ *         description: The held slot is no longer available
+ *       410:
+ *         description: The offer has expired or has already been used
+ */
+router.post('/waitlist/offer/:token/claim', validate(waitlistOfferSchema), waitlistController.claimWaitlistOffer.bind(waitlistController));
+
+/**
+ * @swagger
+ * /api/bookings/manage/{token}:
+ *   get:
+ *     summary: View a booking through the client's emailed link
+ *     tags: [Bookings]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Signed booking token from the confirmation email
+ *     responses:
+ *       200:
+ *         description: Booking retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     booking:
+ *                       $ref: '#/components/schemas/Booking'
+ *                     policy:
+ *                       type: object
+ *                       properties:
+ *                         cancellationWindowHours:
+ *                           type: integer
+ *                         changeDeadline:
+ *                           type: string
+ *                           format: date-time
+ *                         canChange:
+ *                           type: boolean
+ *       401:
+ *         description: Invalid or expired booking link
+ *       404:
+ *         description: Booking not found
+ */
+router.get('/manage/:token', validate(manageBookingSchema), bookingController.getManagedBooking.bind(bookingController));
+
+/**
+ * @swagger
+ * /api/bookings/manage/{token}:
+ *   put:
+ *     summary: Reschedule a booking through the client's emailed link
+ *     tags: [Bookings]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startTime
+ *               - endTime
+ *             properties:
+ *               bookingDate:
+ *                 type: string
+ *                 format: date-time
+ *                 deprecated: true
+ *                 description: Ignored; the studio day is derived from startTime
+ *               startTime:
+ *                 type: string
+ *                 format: date-time
+ *               endTime:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Booking rescheduled and returned to pending
+ *       400:
+ *         description: Validation error or outside studio hours
+ *       401:
+ *         description: Invalid or expired booking link
+ *       403:
+ *         description: Inside the cancellation window
+ *       409:
+ *         description: Time slot unavailable
+ */
+router.put('/manage/:token', validate(rescheduleBookingSchema), bookingController.rescheduleManagedBooking.bind(bookingController));
+
+/**
+ * @swagger
+ * /api/bookings/manage/{token}:
+ *   delete:
+ *     summary: Cancel a booking through the client's emailed link
+ *     tags: [Bookings]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Booking cancelled successfully
+ *       401:
+ *         description: Invalid or expired booking link
+ *       403:
+ *         description: Inside the cancellation window
+ */
+router.delete('/manage/:token', validate(manageBookingSchema), bookingController.cancelManagedBooking.bind(bookingController));
+
+/**
+ * @swagger
+ * /api/bookings/{id}:
+ *   get:
+ *     summary: Get booking by ID (Admin only)
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Booking ID
+ *     responses:
+ *       200:
+ *         description: Booking retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     booking:
+ *                       $ref: '#/components/schemas/Booking'
+ *       404:
+ *         description: Booking not found
+ */
+router.get('/:id', authenticateToken, requireRole('bookings:read'), validate(getBookingSchema), bookingController.getBookingById.bind(bookingController));
+
+/**
+ * @swagger
+ * /api/bookings/{id}/history:
+ *   get:
+ *     summary: Get the status history of a booking (Admin only)
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Booking history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     bookingId:
+ *                       type: string
+ *                     status:
+ *                       type: string
+ *                     allowedTransitions:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     events:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/BookingEvent'
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Booking not found
+ */
+router.get('/:id/history', authenticateToken, requireRole('bookings:read'), validate(getBookingSchema), bookingController.getBookingHistory.bind(bookingController));
+
+/**
+ * @swagger
+ * /api/bookings/{id}:
+ *   put:
+ *     summary: Update booking (Admin only)
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Booking ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               clientName:
+ *                 type: string
+ *                 maxLength: 255
+ *               clientEmail:
+ *                 type: string
+ *                 format: email
+ *                 maxLength: 255
+ *               clientPhone:
+ *                 type: string
+ *                 maxLength: 50
+ *               serviceId:
+ *                 type: string
+ *               bookingDate:
+ *                 type: string
+ *                 format: date-time
+ *                 deprecated: true
+ *                 description: Ignored; the studio day is derived from startTime
+ *               startTime:
+ *                 type: string
+ *                 format: date-time
+ *               endTime:
+ *                 type: string
+ *                 format: date-time
+ *               status:
+ *                 type: string
+ *                 enum: [pending, confirmed, cancelled, completed]
+ *               projectDetails:
+ *                 type: string
+ *                 maxLength: 2000
+ *               budgetRange:
+ *                 type: string
+ *                 maxLength: 50
+ *               location:
+ *                 type: string
+ *                 maxLength: 255
+ *               notes:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       200:
+ *         description: Booking updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     booking:
+ *                       $ref: '#/components/schemas/Booking'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Booking not found
+ *       409:
+ *         description: Time slot unavailable or deposit unpaid
+ */
+router.put('/:id', authenticateToken, requireRole('bookings:manage'), validate(updateBookingSchema), bookingController.updateBooking.bind(bookingController));
+
+/**
+ * @swagger
+ * /api/bookings/{id}/status:
+ *   put:
+ *     summary: Update booking status (Admin only)
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Booking ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [pending, confirmed, cancelled, completed]
+ *               notes:
+ *                 type: string
+ *                 maxLength: 1000
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Why the status changed, kept in the booking's history
+ *     responses:
+ *       200:
+ *         description: Booking status updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     booking:
+ *                       $ref: '#/components/schemas/Booking'
+ *       400:
+ *         description: Invalid status transition
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Booking not found
+ *       409:
+ *         description: Deposit must be paid before confirming
+ */
+router.put('/:id/status', authenticateToken, requireRole('bookings:manage'), validate(updateBookingStatusSchema), bookingController.updateBookingStatus.bind(bookingController));
+
+/**
+ * @swagger
+ * /api/bookings/{id}/spam:
+ *   put:
+ *     summary: Mark a booking as spam or not spam
+ *     description: |
+ *       Trains the spam classifier with the booking. Marking a pending or quarantined booking
+ *       as spam frees its slot. A quarantined or spam booking marked as not spam becomes pending
+ *       if its slot is still free, and the confirmation held back by the quarantine is sent.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Booking ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - spam
+ *             properties:
+ *               spam:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Booking labelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     booking:
+ *                       $ref: '#/components/schemas/Booking'
+ *       400:
+ *         description: The booking is already confirmed, completed or cancelled
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Booking not found
+ *       409:
+ *         description: The booking's time slot has been taken in the meantime
+ */
+router.put('/:id/spam', authenticateToken, requireRole('bookings:manage'), validate(markBookingSpamSchema), bookingController.markBookingSpam.bind(bookingController));
+
+/**
+ * @swagger
+ * /api/bookings/{id}:
+ *   delete:
+ *     summary: Cancel booking (Admin only)
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -590,6 +1416,6 @@ router.put('/:id/status', authenticateToken, validate(updateBookingStatusSchema)
  *       404:
  *         description: Booking not found
  */
-router.delete('/:id', validate(deleteBookingSchema), bookingController.deleteBooking.bind(bookingController));
+router.delete('/:id', authenticateToken, requireRole('bookings:manage'), validate(deleteBookingSchema), bookingController.deleteBooking.bind(bookingController));
 
 export default router;
\ No newline at end of file
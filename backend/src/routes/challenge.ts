@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { challengeController } from '../controllers/challengeController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Challenge:
+ *       type: object
+ *       properties:
+ *         challenge:
+ *           type: string
+ *           description: Signed challenge token
+ *         difficulty:
+ *           type: integer
+ *           description: Leading zero bits the solution's hash needs
+ *           example: 16
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/challenge:
+ *   get:
+ *     summary: Get a proof-of-work challenge for a public form
+ *     description: |
+ *       `POST /api/contact` and `POST /api/bookings` need a solved challenge in the
+ *       `challenge` and `challengeSolution` body fields. A solution is any string for which
+ *       SHA-256 of `<challenge>:<solution>` starts with `difficulty` zero bits. Each challenge
+ *       submits one form.
+ *     tags: [Challenge]
+ *     responses:
+ *       200:
+ *         description: Challenge issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Challenge'
+ */
+router.get('/', challengeController.issueChallenge.bind(challengeController));
+
+export default router;
@@ -0,0 +1,229 @@
+import { Router } from 'express';
+import { clientController } from '../controllers/clientController';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import {
+  clientFiltersSchema,
+  getClientSchema,
+  mergeClientSchema,
+  createClientNoteSchema,
+} from '../schemas/client';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Client:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         email:
+ *           type: string
+ *           description: Lowercase and trimmed; bookings and inquiries with this email belong to the client
+ *         phone:
+ *           type: string
+ *           description: Digits only, with a leading + for international numbers
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         _count:
+ *           type: object
+ *           properties:
+ *             bookings:
+ *               type: integer
+ *             inquiries:
+ *               type: integer
+ *     ClientNote:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         body:
+ *           type: string
+ *         author:
+ *           type: object
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/clients:
+ *   get:
+ *     summary: Search clients by name, email or phone (Admin only)
+ *     tags: [Clients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Clients retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     clients:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Client'
+ *                     pagination:
+ *                       type: object
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/', authenticateToken, requireRole('clients:manage'), validate(clientFiltersSchema), clientController.getClients.bind(clientController));
+
+/**
+ * @swagger
+ * /api/clients/{id}:
+ *   get:
+ *     summary: Get a client with their bookings, inquiries, invoices and notes (Admin only)
+ *     tags: [Clients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Client retrieved successfully
+ *       404:
+ *         description: Client not found
+ */
+router.get('/:id', authenticateToken, requireRole('clients:manage'), validate(getClientSchema), clientController.getClient.bind(clientController));
+
+/**
+ * @swagger
+ * /api/clients/{id}/duplicates:
+ *   get:
+ *     summary: List clients with the same name or phone number (Admin only)
+ *     tags: [Clients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Possible duplicates retrieved successfully
+ *       404:
+ *         description: Client not found
+ */
+router.get('/:id/duplicates', authenticateToken, requireRole('clients:manage'), validate(getClientSchema), clientController.getDuplicates.bind(clientController));
+
+/**
+ * @swagger
+ * /api/clients/{id}/merge:
+ *   post:
+ *     summary: Merge a duplicate client into this one (Admin only)
+ *     description: Moves the duplicate's bookings, inquiries and notes to this client and deletes the duplicate.
+ *     tags: [Clients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Client to keep
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sourceId
+ *             properties:
+ *               sourceId:
+ *                 type: string
+ *                 description: Duplicate client to merge and delete
+ *     responses:
+ *       200:
+ *         description: Clients merged successfully
+ *       400:
+ *         description: A client cannot be merged into itself
+ *       404:
+ *         description: Client not found
+ */
+router.post('/:id/merge', authenticateToken, requireRole('clients:manage'), validate(mergeClientSchema), clientController.mergeClient.bind(clientController));
+
+/**
+ * @swagger
+ * /api/clients/{id}/notes:
+ *   post:
+ *     summary: Add a note to a client's profile (Admin only)
+ *     tags: [Clients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - body
+ *             properties:
+ *               body:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Note added successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     note:
+ *                       $ref: '#/components/schemas/ClientNote'
+ *       404:
+ *         description: Client not found
+ */
+router.post('/:id/notes', authenticateToken, requireRole('clients:manage'), validate(createClientNoteSchema), clientController.addNote.bind(clientController));
+
+export default router;
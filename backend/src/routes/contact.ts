@@ -6,21 +6,30 @@ import {
   updateContactInquiry,
   deleteContactInquiry,
   getContactInquiryStats,
+  getInquiryMessages,
+  replyToInquiry,
+  getInquiryConversion,
+  convertContactInquiry,
+  getContactInquiryConversions,
+  markContactInquirySpam,
 } from '../controllers/contactController';
 import { validate } from '../middleware/validation';
-import { authenticateToken } from '../middleware/auth';
-import {
-  contactFormRateLimit,
-  contactEndpointRateLimit,
-  spamDetection,
-  addHoneypotInfo,
-} from '../middleware/spamProtection';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { requireChallenge } from '../middleware/challenge';
+import { contactFormLimiter, contactEndpointLimiter } from '../middleware/rateLimiting';
+import { spamDetection, addHoneypotInfo } from '../middleware/spamProtection';
 import {
   createContactInquirySchema,
   updateContactInquirySchema,
   getContactInquiriesSchema,
   getContactInquirySchema,
   deleteContactInquirySchema,
+  getInquiryMessagesSchema,
+  replyToInquirySchema,
+  getInquiryConversionSchema,
+  convertContactInquirySchema,
+  markContactInquirySpamSchema,
+  getContactInquiryConversionsSchema,
 } from '../schemas/contact';
 
 const router = Router();
@@ -56,8 +65,29 @@ const router = Router();
  *           description: Service the person is interested in (optional)
  *         status:
  *           type: string
- *           enum: [new, responded, closed]
- *           description: Current status of the inquiry
+ *           enum: [new, responded, closed, quarantined, spam]
+ *           description: Current status of the inquiry; quarantined inquiries await spam review
+ *         spamScore:
+ *           type: number
+ *           description: Points the spam filter gave the submission
+ *         spamReasons:
+ *           type: array
+ *           description: Spam rules the submission matched
+ *           items:
+ *             type: object
+ *             properties:
+ *               rule:
+ *                 type: string
+ *               points:
+ *                 type: number
+ *         spamLabel:
+ *           type: string
+ *           enum: [spam, ham]
+ *           description: How an admin labelled the inquiry for the spam classifier
+ *         source:
+ *           type: string
+ *           description: Where the inquiry came from, e.g. the utm_source of the contact page
+ *           example: website
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -73,7 +103,15 @@ const router = Router();
  *         - name
  *         - email
  *         - message
+ *         - challenge
+ *         - challengeSolution
  *       properties:
+ *         challenge:
+ *           type: string
+ *           description: Challenge from GET /api/challenge
+ *         challengeSolution:
+ *           type: string
+ *           description: Solution to the challenge
  *         name:
  *           type: string
  *           minLength: 2
@@ -103,6 +141,10 @@ const router = Router();
  *           type: string
  *           maxLength: 100
  *           description: Service the person is interested in (optional)
+ *         source:
+ *           type: string
+ *           maxLength: 50
+ *           description: Where the visitor came from, e.g. a utm_source (optional, defaults to website)
  *     
  *     UpdateContactInquiryRequest:
  *       type: object
@@ -117,6 +159,45 @@ const router = Router();
  *           type: string
  *           maxLength: 1000
  *           description: Admin notes (optional)
+ *
+ *     InquiryMessage:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         direction:
+ *           type: string
+ *           enum: [outbound, inbound]
+ *           description: Admin reply sent from the panel, or the client's answer
+ *         fromEmail:
+ *           type: string
+ *           format: email
+ *         body:
+ *           type: string
+ *           description: Plain text; inbound replies have the quoted history removed
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         author:
+ *           type: object
+ *           nullable: true
+ *           description: Admin who wrote an outbound reply
+ *         emailMessage:
+ *           type: object
+ *           nullable: true
+ *           description: Delivery status of an outbound reply
+ *           properties:
+ *             id:
+ *               type: string
+ *             status:
+ *               type: string
+ *             sentAt:
+ *               type: string
+ *               format: date-time
+ *               nullable: true
+ *             lastError:
+ *               type: string
+ *               nullable: true
  */
 
 /**
@@ -157,7 +238,9 @@ const router = Router();
  *                       type: string
  *                       format: date-time
  *       400:
- *         description: Validation error
+ *         description: Validation error or missing challenge
+ *       403:
+ *         description: Challenge expired, reused or not solved
  *       429:
  *         description: Rate limit exceeded
  *       500:
@@ -165,8 +248,9 @@ const router = Router();
  */
 router.post(
   '/',
-  contactFormRateLimit,
-  spamDetection,
+  contactFormLimiter,
+  requireChallenge,
+  spamDetection('inquiry'),
   addHoneypotInfo,
   validate(createContactInquirySchema),
   createContactInquiry
@@ -186,8 +270,8 @@ router.post(
  *         name: status
  *         schema:
  *           type: string
- *           enum: [new, responded, closed]
- *         description: Filter by inquiry status
+ *           enum: [new, responded, closed, quarantined, spam]
+ *         description: Filter by inquiry status; quarantined and spam inquiries are only listed when asked for
  *       - in: query
  *         name: page
  *         schema:
@@ -260,8 +344,9 @@ router.post(
  */
 router.get(
   '/',
-  contactEndpointRateLimit,
+  contactEndpointLimiter,
   authenticateToken,
+  requireRole('inquiries:manage'),
   validate(getContactInquiriesSchema),
   getContactInquiries
 );
@@ -311,11 +396,78 @@ router.get(
  */
 router.get(
   '/stats',
-  contactEndpointRateLimit,
+  contactEndpointLimiter,
   authenticateToken,
+  requireRole('inquiries:manage'),
   getContactInquiryStats
 );
 
+/**
+ * @swagger
+ * /api/contact/conversions:
+ *   get:
+ *     summary: Get inquiry conversion rates (Admin only)
+ *     description: Share of inquiries that were converted into a booking, per service interest and per source
+ *     tags: [Contact]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Count inquiries received from this date
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Count inquiries received up to this date
+ *     responses:
+ *       200:
+ *         description: Conversion statistics retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     overall:
+ *                       type: object
+ *                       properties:
+ *                         inquiries:
+ *                           type: integer
+ *                         converted:
+ *                           type: integer
+ *                         rate:
+ *                           type: number
+ *                           description: Percentage of inquiries converted
+ *                     byService:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     bySource:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *       401:
+ *         description: Unauthorized
+ */
+router.get(
+  '/conversions',
+  contactEndpointLimiter,
+  authenticateToken,
+  requireRole('inquiries:manage'),
+  validate(getContactInquiryConversionsSchema),
+  getContactInquiryConversions
+);
+
 /**
  * @swagger
  * /api/contact/{id}:
@@ -354,12 +506,284 @@ router.get(
  */
 router.get(
   '/:id',
-  contactEndpointRateLimit,
+  contactEndpointLimiter,
   authenticateToken,
+  requireRole('inquiries:manage'),
   validate(getContactInquirySchema),
   getContactInquiry
 );
 
+/**
+ * @swagger
+ * /api/contact/{id}/messages:
+ *   get:
+ *     summary: Get the reply thread of a contact inquiry (Admin only)
+ *     tags: [Contact]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Contact inquiry ID
+ *     responses:
+ *       200:
+ *         description: Thread retrieved successfully, oldest message first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/InquiryMessage'
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Contact inquiry not found
+ */
+router.get(
+  '/:id/messages',
+  contactEndpointLimiter,
+  authenticateToken,
+  requireRole('inquiries:manage'),
+  validate(getInquiryMessagesSchema),
+  getInquiryMessages
+);
+
+/**
+ * @swagger
+ * /api/contact/{id}/messages:
+ *   post:
+ *     summary: Reply to a contact inquiry (Admin only)
+ *     description: Emails the reply to the client with a Reply-To address that routes their answer back into the thread, and marks the inquiry responded.
+ *     tags: [Contact]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Contact inquiry ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [body]
+ *             properties:
+ *               body:
+ *                 type: string
+ *                 maxLength: 10000
+ *     responses:
+ *       201:
+ *         description: Reply sent successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/InquiryMessage'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Contact inquiry not found
+ */
+router.post(
+  '/:id/messages',
+  contactEndpointLimiter,
+  authenticateToken,
+  requireRole('inquiries:manage'),
+  validate(replyToInquirySchema),
+  replyToInquiry
+);
+
+/**
+ * @swagger
+ * /api/contact/{id}/conversion:
+ *   get:
+ *     summary: Get a booking pre-filled from a contact inquiry (Admin only)
+ *     description: Client details and the service best matching the inquiry's service interest, with the bookings already made from the inquiry
+ *     tags: [Contact]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Contact inquiry ID
+ *     responses:
+ *       200:
+ *         description: Draft retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Contact inquiry not found
+ */
+router.get(
+  '/:id/conversion',
+  contactEndpointLimiter,
+  authenticateToken,
+  requireRole('inquiries:manage'),
+  validate(getInquiryConversionSchema),
+  getInquiryConversion
+);
+
+/**
+ * @swagger
+ * /api/contact/{id}/convert:
+ *   post:
+ *     summary: Convert a contact inquiry into a booking or quote (Admin only)
+ *     description: |
+ *       Books the slot for the inquiry's client after the usual opening-hours and availability checks, and links
+ *       the booking to the inquiry. A 'booking' sends the client a confirmation; a 'quote' also raises a draft quote
+ *       priced from the service.
+ *     tags: [Contact]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Contact inquiry ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type, clientName, clientEmail, startTime, endTime]
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [booking, quote]
+ *               clientName:
+ *                 type: string
+ *               clientEmail:
+ *                 type: string
+ *                 format: email
+ *               clientPhone:
+ *                 type: string
+ *               serviceId:
+ *                 type: string
+ *                 description: Required for quotes
+ *               startTime:
+ *                 type: string
+ *                 format: date-time
+ *               endTime:
+ *                 type: string
+ *                 format: date-time
+ *               projectDetails:
+ *                 type: string
+ *               budgetRange:
+ *                 type: string
+ *               location:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Booking (and quote) created from the inquiry
+ *       400:
+ *         description: Validation error, unavailable service or outside studio hours
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Contact inquiry not found
+ *       409:
+ *         description: The time slot conflicts with an existing booking
+ */
+router.post(
+  '/:id/convert',
+  contactEndpointLimiter,
+  authenticateToken,
+  requireRole('inquiries:manage'),
+  validate(convertContactInquirySchema),
+  convertContactInquiry
+);
+
+/**
+ * @swagger
+ * /api/contact/{id}/spam:
+ *   put:
+ *     summary: Mark a contact inquiry as spam or not spam (Admin only)
+ *     description: |
+ *       Trains the spam classifier with the inquiry. Spam inquiries move to the spam status;
+ *       quarantined or spam inquiries marked as not spam go back to new, and the notification
+ *       held back by the quarantine is sent.
+ *     tags: [Contact]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Contact inquiry ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - spam
+ *             properties:
+ *               spam:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Contact inquiry labelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/ContactInquiry'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Contact inquiry not found
+ */
+router.put(
+  '/:id/spam',
+  contactEndpointLimiter,
+  authenticateToken,
+  requireRole('inquiries:manage'),
+  validate(markContactInquirySpamSchema),
+  markContactInquirySpam
+);
+
 /**
  * @swagger
  * /api/contact/{id}:
@@ -409,8 +833,9 @@ router.get(
  */
 router.put(
   '/:id',
-  contactEndpointRateLimit,
+  contactEndpointLimiter,
   authenticateToken,
+  requireRole('inquiries:manage'),
   validate(updateContactInquirySchema),
   updateContactInquiry
 );
@@ -454,8 +879,9 @@ router.put(
  */
 router.delete(
   '/:id',
-  contactEndpointRateLimit,
+  contactEndpointLimiter,
   authenticateToken,
+  requireRole('inquiries:manage'),
   validate(deleteContactInquirySchema),
   deleteContactInquiry
 );
@@ -0,0 +1,354 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { emailController } from '../controllers/emailController';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { requireEmailWebhookToken } from '../middleware/emailWebhook';
+import { validate } from '../middleware/validation';
+import {
+  emailMessageFiltersSchema,
+  getEmailMessageSchema,
+  retryEmailMessageSchema,
+  createSuppressionSchema,
+  deleteSuppressionSchema,
+  deliveryEventsSchema,
+  inboundEmailSchema,
+} from '../schemas/email';
+
+const router = Router();
+
+// Inbound Parse posts multipart forms; attachments are read into memory and ignored
+const inboundEmailForm = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024,
+    files: 10,
+    fields: 30, // Inbound Parse sends fewer than 20: headers, text, html, envelope, charsets, ...
+    fieldSize: 5 * 1024 * 1024, // text and html bodies arrive as fields
+  },
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     EmailMessage:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         toEmail:
+ *           type: string
+ *           format: email
+ *         subject:
+ *           type: string
+ *         templateKey:
+ *           type: string
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [queued, sending, sent, failed, suppressed, bounced]
+ *         attempts:
+ *           type: integer
+ *         maxAttempts:
+ *           type: integer
+ *         nextAttemptAt:
+ *           type: string
+ *           format: date-time
+ *         lastError:
+ *           type: string
+ *           nullable: true
+ *         transport:
+ *           type: string
+ *           nullable: true
+ *           example: sendgrid
+ *         sentAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         bookingId:
+ *           type: string
+ *           nullable: true
+ *         inquiryId:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     EmailSuppression:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         email:
+ *           type: string
+ *           format: email
+ *         reason:
+ *           type: string
+ *           enum: [bounce, complaint, manual]
+ *         details:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/email/messages:
+ *   get:
+ *     summary: List sent and pending emails (Admin only)
+ *     tags: [Email]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: bookingId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: inquiryId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [queued, sending, sent, failed, suppressed, bounced]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Email messages retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     messages:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/EmailMessage'
+ *                     pagination:
+ *                       type: object
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/messages', authenticateToken, requireRole('settings:manage'), validate(emailMessageFiltersSchema), emailController.getMessages.bind(emailController));
+
+/**
+ * @swagger
+ * /api/email/messages/{id}:
+ *   get:
+ *     summary: Get an email with its HTML and text content (Admin only)
+ *     tags: [Email]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Email message retrieved successfully
+ *       404:
+ *         description: Email message not found
+ */
+router.get('/messages/:id', authenticateToken, requireRole('settings:manage'), validate(getEmailMessageSchema), emailController.getMessage.bind(emailController));
+
+/**
+ * @swagger
+ * /api/email/messages/{id}/retry:
+ *   post:
+ *     summary: Send a failed email again (Admin only)
+ *     tags: [Email]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Email message retried
+ *       404:
+ *         description: Email message not found
+ *       409:
+ *         description: The message has not failed, or the address is suppressed
+ */
+router.post('/messages/:id/retry', authenticateToken, requireRole('settings:manage'), validate(retryEmailMessageSchema), emailController.retryMessage.bind(emailController));
+
+/**
+ * @swagger
+ * /api/email/suppressions:
+ *   get:
+ *     summary: List addresses that no email is sent to (Admin only)
+ *     tags: [Email]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Suppressed addresses retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     suppressions:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/EmailSuppression'
+ */
+router.get('/suppressions', authenticateToken, requireRole('settings:manage'), emailController.getSuppressions.bind(emailController));
+
+/**
+ * @swagger
+ * /api/email/suppressions:
+ *   post:
+ *     summary: Suppress an address (Admin only)
+ *     tags: [Email]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               details:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Address suppressed successfully
+ *       400:
+ *         description: Validation error
+ */
+router.post('/suppressions', authenticateToken, requireRole('settings:manage'), validate(createSuppressionSchema), emailController.addSuppression.bind(emailController));
+
+/**
+ * @swagger
+ * /api/email/suppressions/{id}:
+ *   delete:
+ *     summary: Allow email to a suppressed address again (Admin only)
+ *     tags: [Email]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Suppression removed successfully
+ *       404:
+ *         description: Suppression not found
+ */
+router.delete('/suppressions/:id', authenticateToken, requireRole('settings:manage'), validate(deleteSuppressionSchema), emailController.deleteSuppression.bind(emailController));
+
+/**
+ * @swagger
+ * /api/email/events:
+ *   post:
+ *     summary: SendGrid event webhook
+ *     description: Bounces and spam reports suppress the address. Authenticated with the EMAIL_WEBHOOK_SECRET token.
+ *     tags: [Email]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: array
+ *             items:
+ *               type: object
+ *     responses:
+ *       200:
+ *         description: Delivery events processed
+ *       401:
+ *         description: Invalid webhook token
+ */
+router.post('/events', requireEmailWebhookToken, validate(deliveryEventsSchema), emailController.handleDeliveryEvents.bind(emailController));
+
+/**
+ * @swagger
+ * /api/email/inbound:
+ *   post:
+ *     summary: Inbound email webhook
+ *     description: |
+ *       Receives emails sent to the INBOUND_EMAIL_ADDRESS mailbox, as posted by SendGrid Inbound Parse
+ *       (multipart form) or a local mail catcher (JSON with the same fields). A client's answer to an
+ *       inquiry reply is added to the inquiry's thread. Authenticated with the EMAIL_WEBHOOK_SECRET token.
+ *     tags: [Email]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [from, to]
+ *             properties:
+ *               from:
+ *                 type: string
+ *                 example: Ama Mensah <ama@example.com>
+ *               to:
+ *                 type: string
+ *               cc:
+ *                 type: string
+ *               subject:
+ *                 type: string
+ *               text:
+ *                 type: string
+ *               html:
+ *                 type: string
+ *               envelope:
+ *                 type: string
+ *                 description: JSON with the SMTP envelope's from and to addresses
+ *     responses:
+ *       200:
+ *         description: Email processed; data.matched says whether it joined a thread
+ *       401:
+ *         description: Invalid webhook token
+ */
+router.post('/inbound', requireEmailWebhookToken, inboundEmailForm.any(), validate(inboundEmailSchema), emailController.handleInboundEmail.bind(emailController));
+
+export default router;
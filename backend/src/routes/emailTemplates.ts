@@ -0,0 +1,214 @@
+import { Router } from 'express';
+import { emailTemplateController } from '../controllers/emailTemplateController';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import {
+  getEmailTemplateSchema,
+  updateEmailTemplateSchema,
+  resetEmailTemplateSchema,
+  previewEmailTemplateSchema,
+} from '../schemas/emailTemplate';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     EmailTemplate:
+ *       type: object
+ *       properties:
+ *         key:
+ *           type: string
+ *           example: booking-confirmation
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *         variables:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Values the template can use, e.g. booking.clientName
+ *         subject:
+ *           type: string
+ *           description: Subject line in the template language
+ *         body:
+ *           type: string
+ *           description: HTML placed inside the shared layout; values are escaped automatically
+ *         defaultSubject:
+ *           type: string
+ *         defaultBody:
+ *           type: string
+ *         customised:
+ *           type: boolean
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *     EmailPreview:
+ *       type: object
+ *       properties:
+ *         subject:
+ *           type: string
+ *         html:
+ *           type: string
+ *         text:
+ *           type: string
+ *           description: Plain-text version generated from the HTML
+ */
+
+/**
+ * @swagger
+ * /api/email-templates:
+ *   get:
+ *     summary: List email templates (Admin only)
+ *     tags: [Email Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Email templates retrieved successfully
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/', authenticateToken, requireRole('settings:manage'), emailTemplateController.getAllTemplates.bind(emailTemplateController));
+
+/**
+ * @swagger
+ * /api/email-templates/{key}:
+ *   get:
+ *     summary: Get an email template (Admin only)
+ *     tags: [Email Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Email template retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     template:
+ *                       $ref: '#/components/schemas/EmailTemplate'
+ *       404:
+ *         description: Template not found
+ */
+router.get('/:key', authenticateToken, requireRole('settings:manage'), validate(getEmailTemplateSchema), emailTemplateController.getTemplate.bind(emailTemplateController));
+
+/**
+ * @swagger
+ * /api/email-templates/{key}:
+ *   put:
+ *     summary: Customise an email template (Admin only)
+ *     tags: [Email Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [subject, body]
+ *             properties:
+ *               subject:
+ *                 type: string
+ *               body:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email template updated successfully
+ *       400:
+ *         description: The template does not parse
+ *       404:
+ *         description: Template not found
+ */
+router.put('/:key', authenticateToken, requireRole('settings:manage'), validate(updateEmailTemplateSchema), emailTemplateController.updateTemplate.bind(emailTemplateController));
+
+/**
+ * @swagger
+ * /api/email-templates/{key}:
+ *   delete:
+ *     summary: Restore the built-in version of an email template (Admin only)
+ *     tags: [Email Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Email template reset successfully
+ *       404:
+ *         description: Template not found
+ */
+router.delete('/:key', authenticateToken, requireRole('settings:manage'), validate(resetEmailTemplateSchema), emailTemplateController.resetTemplate.bind(emailTemplateController));
+
+/**
+ * @swagger
+ * /api/email-templates/{key}/preview:
+ *   post:
+ *     summary: Preview an email template with sample data (Admin only)
+ *     description: Renders the draft subject and body when given, otherwise the saved template.
+ *     tags: [Email Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               subject:
+ *                 type: string
+ *               body:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email template preview rendered successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     preview:
+ *                       $ref: '#/components/schemas/EmailPreview'
+ *       400:
+ *         description: The template does not parse
+ */
+router.post('/:key/preview', authenticateToken, requireRole('settings:manage'), validate(previewEmailTemplateSchema), emailTemplateController.previewTemplate.bind(emailTemplateController));
+
+export default router;
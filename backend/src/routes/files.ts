@@ -8,7 +8,7 @@ import {
   getFileInfo,
 } from '../controllers/fileController';
 import { uploadSingle, uploadMultiple } from '../middleware/fileUpload';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireRole } from '../middleware/auth';
 
 const router = Router();
 
@@ -202,7 +202,7 @@ const router = Router();
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.post('/upload', authenticateToken, uploadSingle('file'), uploadSingleFile);
+router.post('/upload', authenticateToken, requireRole('files:manage'), uploadSingle('file'), uploadSingleFile);
 
 /**
  * @swagger
@@ -275,7 +275,7 @@ router.post('/upload', authenticateToken, uploadSingle('file'), uploadSingleFile
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.post('/upload/multiple', authenticateToken, uploadMultiple('files', 10), uploadMultipleFiles);
+router.post('/upload/multiple', authenticateToken, requireRole('files:manage'), uploadMultiple('files', 10), uploadMultipleFiles);
 
 /**
  * @swagger
@@ -340,7 +340,7 @@ router.post('/upload/multiple', authenticateToken, uploadMultiple('files', 10),
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.delete('/:key', authenticateToken, deleteFile);
+router.delete('/:key', authenticateToken, requireRole('files:manage'), deleteFile);
 
 /**
  * @swagger
@@ -399,7 +399,7 @@ router.delete('/:key', authenticateToken, deleteFile);
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.delete('/bulk-delete', authenticateToken, deleteMultipleFiles);
+router.delete('/bulk-delete', authenticateToken, requireRole('files:manage'), deleteMultipleFiles);
 
 /**
  * @swagger
@@ -458,7 +458,7 @@ router.delete('/bulk-delete', authenticateToken, deleteMultipleFiles);
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get('/:key/signed-url', authenticateToken, generateSignedUrl);
+router.get('/:key/signed-url', authenticateToken, requireRole('files:manage'), generateSignedUrl);
 
 /**
  * @swagger
@@ -519,6 +519,6 @@ router.get('/:key/signed-url', authenticateToken, generateSignedUrl);
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get('/:key/info', authenticateToken, getFileInfo);
+router.get('/:key/info', authenticateToken, requireRole('files:manage'), getFileInfo);
 
 export default router;
\ No newline at end of file
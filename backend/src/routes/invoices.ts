@@ -0,0 +1,457 @@
+import { Router } from 'express';
+import { invoiceController } from '../controllers/invoiceController';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import {
+  createInvoiceSchema,
+  updateInvoiceSchema,
+  getInvoiceSchema,
+  updateInvoiceStatusSchema,
+  createPaymentSchema,
+  invoiceFiltersSchema,
+  updateBillingSettingsSchema,
+} from '../schemas/invoice';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     InvoiceLineItem:
+ *       type: object
+ *       properties:
+ *         description:
+ *           type: string
+ *         quantity:
+ *           type: number
+ *         unitPrice:
+ *           type: number
+ *         discount:
+ *           type: number
+ *     Invoice:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         number:
+ *           type: string
+ *           example: INV-2026-0001
+ *         type:
+ *           type: string
+ *           enum: [quote, invoice]
+ *         status:
+ *           type: string
+ *           enum: [draft, sent, paid, void]
+ *         bookingId:
+ *           type: string
+ *         quoteId:
+ *           type: string
+ *           description: Quote this invoice was raised from
+ *         currency:
+ *           type: string
+ *         subtotal:
+ *           type: number
+ *         discountTotal:
+ *           type: number
+ *         taxRatePercent:
+ *           type: number
+ *         taxTotal:
+ *           type: number
+ *         total:
+ *           type: number
+ *         depositAmount:
+ *           type: number
+ *           description: Amount that must be paid before the booking can be confirmed
+ *         amountPaid:
+ *           type: number
+ *         dueDate:
+ *           type: string
+ *           format: date-time
+ *         lineItems:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/InvoiceLineItem'
+ *     InvoicePricing:
+ *       type: object
+ *       properties:
+ *         lineItems:
+ *           type: array
+ *           description: Defaults to the booked service's price
+ *           items:
+ *             $ref: '#/components/schemas/InvoiceLineItem'
+ *         discount:
+ *           type: object
+ *           properties:
+ *             type:
+ *               type: string
+ *               enum: [percent, amount]
+ *             value:
+ *               type: number
+ *         taxRatePercent:
+ *           type: number
+ *         depositPercent:
+ *           type: integer
+ *         notes:
+ *           type: string
+ *         dueDate:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/invoices:
+ *   get:
+ *     summary: List quotes and invoices (Admin only)
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: bookingId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [quote, invoice]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, sent, paid, void]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Invoices retrieved successfully
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/', authenticateToken, requireRole('invoices:manage'), validate(invoiceFiltersSchema), invoiceController.getAllInvoices.bind(invoiceController));
+
+/**
+ * @swagger
+ * /api/invoices:
+ *   post:
+ *     summary: Raise a quote or invoice for a booking (Admin only)
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/InvoicePricing'
+ *               - type: object
+ *                 required:
+ *                   - bookingId
+ *                 properties:
+ *                   bookingId:
+ *                     type: string
+ *                   type:
+ *                     type: string
+ *                     enum: [quote, invoice]
+ *                     default: invoice
+ *     responses:
+ *       201:
+ *         description: Invoice created successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Booking not found
+ */
+router.post('/', authenticateToken, requireRole('invoices:manage'), validate(createInvoiceSchema), invoiceController.createInvoice.bind(invoiceController));
+
+/**
+ * @swagger
+ * /api/invoices/settings:
+ *   get:
+ *     summary: Get currency, tax and deposit settings (Admin only)
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Billing settings retrieved successfully
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/settings', authenticateToken, requireRole('invoices:manage'), invoiceController.getBillingSettings.bind(invoiceController));
+
+/**
+ * @swagger
+ * /api/invoices/settings:
+ *   put:
+ *     summary: Update currency, tax and deposit settings (Admin only)
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               currency:
+ *                 type: string
+ *                 example: USD
+ *               taxRatePercent:
+ *                 type: number
+ *               depositPercent:
+ *                 type: integer
+ *                 description: Share of the total required before a booking can be confirmed
+ *     responses:
+ *       200:
+ *         description: Billing settings updated successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Authentication required
+ */
+router.put('/settings', authenticateToken, requireRole('invoices:manage'), validate(updateBillingSettingsSchema), invoiceController.updateBillingSettings.bind(invoiceController));
+
+/**
+ * @swagger
+ * /api/invoices/{id}:
+ *   get:
+ *     summary: Get an invoice with its line items and payments (Admin only)
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invoice retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Invoice'
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Invoice not found
+ */
+router.get('/:id', authenticateToken, requireRole('invoices:manage'), validate(getInvoiceSchema), invoiceController.getInvoiceById.bind(invoiceController));
+
+/**
+ * @swagger
+ * /api/invoices/{id}:
+ *   put:
+ *     summary: Re-price a draft invoice (Admin only)
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/InvoicePricing'
+ *     responses:
+ *       200:
+ *         description: Invoice updated successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Invoice not found
+ *       409:
+ *         description: Only draft invoices can be edited
+ */
+router.put('/:id', authenticateToken, requireRole('invoices:manage'), validate(updateInvoiceSchema), invoiceController.updateInvoice.bind(invoiceController));
+
+/**
+ * @swagger
+ * /api/invoices/{id}/status:
+ *   put:
+ *     summary: Mark an invoice as sent or void it (Admin only)
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [sent, void]
+ *     responses:
+ *       200:
+ *         description: Invoice status updated successfully
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Invoice not found
+ *       409:
+ *         description: Status change not allowed
+ */
+router.put('/:id/status', authenticateToken, requireRole('invoices:manage'), validate(updateInvoiceStatusSchema), invoiceController.updateInvoiceStatus.bind(invoiceController));
+
+/**
+ * @swagger
+ * /api/invoices/{id}/convert:
+ *   post:
+ *     summary: Raise an invoice from a quote (Admin only)
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: Quote converted to invoice successfully
+ *       400:
+ *         description: Not a quote, or the quote is void
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Quote not found
+ */
+router.post('/:id/convert', authenticateToken, requireRole('invoices:manage'), validate(getInvoiceSchema), invoiceController.convertQuote.bind(invoiceController));
+
+/**
+ * @swagger
+ * /api/invoices/{id}/payments:
+ *   post:
+ *     summary: Take a deposit or balance payment against a sent invoice (Admin only)
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - kind
+ *             properties:
+ *               kind:
+ *                 type: string
+ *                 enum: [deposit, balance]
+ *               amount:
+ *                 type: number
+ *                 description: Defaults to the outstanding deposit or balance
+ *     responses:
+ *       201:
+ *         description: Payment received successfully
+ *       400:
+ *         description: Invalid payment
+ *       401:
+ *         description: Authentication required
+ *       402:
+ *         description: Payment declined by the provider
+ *       404:
+ *         description: Invoice not found
+ *       409:
+ *         description: Invoice is not awaiting payment
+ */
+router.post('/:id/payments', authenticateToken, requireRole('invoices:manage'), validate(createPaymentSchema), invoiceController.createPayment.bind(invoiceController));
+
+/**
+ * @swagger
+ * /api/invoices/{id}/html:
+ *   get:
+ *     summary: Render an invoice as HTML (Admin only)
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rendered invoice
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Invoice not found
+ */
+router.get('/:id/html', authenticateToken, requireRole('invoices:manage'), validate(getInvoiceSchema), invoiceController.getInvoiceHtml.bind(invoiceController));
+
+/**
+ * @swagger
+ * /api/invoices/{id}/pdf:
+ *   get:
+ *     summary: Download an invoice as PDF (Admin only)
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rendered invoice
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Invoice not found
+ */
+router.get('/:id/pdf', authenticateToken, requireRole('invoices:manage'), validate(getInvoiceSchema), invoiceController.getInvoicePdf.bind(invoiceController));
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { portfolioController } from '../controllers/portfolioController';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireRole } from '../middleware/auth';
 import { validate } from '../middleware/validation';
 import {
   createPortfolioItemSchema,
@@ -271,7 +271,7 @@ router.get('/:id', validate(getPortfolioItemSchema), portfolioController.getPort
  *       409:
  *         description: Portfolio item already exists
  */
-router.post('/', authenticateToken, validate(createPortfolioItemSchema), portfolioController.createPortfolioItem.bind(portfolioController));
+router.post('/', authenticateToken, requireRole('portfolio:manage'), validate(createPortfolioItemSchema), portfolioController.createPortfolioItem.bind(portfolioController));
 
 /**
  * @swagger
@@ -325,7 +325,7 @@ router.post('/', authenticateToken, validate(createPortfolioItemSchema), portfol
  *       409:
  *         description: Portfolio item conflict
  */
-router.put('/:id', authenticateToken, validate(updatePortfolioItemSchema), portfolioController.updatePortfolioItem.bind(portfolioController));
+router.put('/:id', authenticateToken, requireRole('portfolio:manage'), validate(updatePortfolioItemSchema), portfolioController.updatePortfolioItem.bind(portfolioController));
 
 /**
  * @swagger
@@ -350,7 +350,7 @@ router.put('/:id', authenticateToken, validate(updatePortfolioItemSchema), portf
  *       404:
  *         description: Portfolio item not found
  */
-router.delete('/:id', authenticateToken, validate(deletePortfolioItemSchema), portfolioController.deletePortfolioItem.bind(portfolioController));
+router.delete('/:id', authenticateToken, requireRole('portfolio:manage'), validate(deletePortfolioItemSchema), portfolioController.deletePortfolioItem.bind(portfolioController));
 
 /**
  * @swagger
@@ -410,7 +410,7 @@ router.get('/:portfolioItemId/media', validate(getPortfolioMediaSchema), portfol
  *       404:
  *         description: Portfolio item not found
  */
-router.post('/:portfolioItemId/media/upload', authenticateToken, validate(uploadMediaSchema), portfolioController.uploadMedia.bind(portfolioController));
+router.post('/:portfolioItemId/media/upload', authenticateToken, requireRole('portfolio:manage'), validate(uploadMediaSchema), portfolioController.uploadMedia.bind(portfolioController));
 
 /**
  * @swagger
@@ -462,7 +462,7 @@ router.post('/:portfolioItemId/media/upload', authenticateToken, validate(upload
  *       404:
  *         description: Portfolio item not found
  */
-router.post('/media', authenticateToken, validate(createPortfolioMediaSchema), portfolioController.createPortfolioMedia.bind(portfolioController));
+router.post('/media', authenticateToken, requireRole('portfolio:manage'), validate(createPortfolioMediaSchema), portfolioController.createPortfolioMedia.bind(portfolioController));
 
 /**
  * @swagger
@@ -515,7 +515,7 @@ router.post('/media', authenticateToken, validate(createPortfolioMediaSchema), p
  *       404:
  *         description: Media not found
  */
-router.put('/media/:id', authenticateToken, validate(updatePortfolioMediaSchema), portfolioController.updatePortfolioMedia.bind(portfolioController));
+router.put('/media/:id', authenticateToken, requireRole('portfolio:manage'), validate(updatePortfolioMediaSchema), portfolioController.updatePortfolioMedia.bind(portfolioController));
 
 /**
  * @swagger
@@ -540,7 +540,7 @@ router.put('/media/:id', authenticateToken, validate(updatePortfolioMediaSchema)
  *       404:
  *         description: Media not found
  */
-router.delete('/media/:id', authenticateToken, validate(deletePortfolioMediaSchema), portfolioController.deletePortfolioMedia.bind(portfolioController));
+router.delete('/media/:id', authenticateToken, requireRole('portfolio:manage'), validate(deletePortfolioMediaSchema), portfolioController.deletePortfolioMedia.bind(portfolioController));
 
 /**
  * @swagger
@@ -599,6 +599,6 @@ router.delete('/media/:id', authenticateToken, validate(deletePortfolioMediaSche
  *       404:
  *         description: One or more media items not found
  */
-router.post('/media/bulk', authenticateToken, validate(bulkMediaOperationsSchema), portfolioController.bulkMediaOperations.bind(portfolioController));
+router.post('/media/bulk', authenticateToken, requireRole('portfolio:manage'), validate(bulkMediaOperationsSchema), portfolioController.bulkMediaOperations.bind(portfolioController));
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { Router } from 'express';
+import { rateLimitController } from '../controllers/rateLimitController';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { clearRateLimitsSchema, getRateLimitsSchema } from '../schemas/rateLimit';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ClientRateLimits:
+ *       type: object
+ *       properties:
+ *         key:
+ *           type: string
+ *           description: IP address, or user ID for per-user policies
+ *           example: 203.0.113.7
+ *         store:
+ *           type: string
+ *           enum: [memory, redis]
+ *         violations:
+ *           type: integer
+ *           description: Times the client went over a limit in the last hour; lowers progressive limits
+ *         policies:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               policy:
+ *                 type: string
+ *                 example: contactForm
+ *               limit:
+ *                 type: integer
+ *               windowMs:
+ *                 type: integer
+ *               hits:
+ *                 type: integer
+ *                 description: Requests counted in the current window
+ *               resetAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               blockedUntil:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ */
+
+/**
+ * @swagger
+ * /api/rate-limits/{key}:
+ *   get:
+ *     summary: Get a client's rate limit counters and blocks (Admin only)
+ *     tags: [Rate Limits]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: IP address, or user ID for per-user policies
+ *     responses:
+ *       200:
+ *         description: Rate limit state for every policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/ClientRateLimits'
+ *       401:
+ *         description: Authentication required
+ *       503:
+ *         description: Rate limit store unavailable
+ */
+router.get('/:key', authenticateToken, requireRole('settings:manage'), validate(getRateLimitsSchema), rateLimitController.getRateLimits.bind(rateLimitController));
+
+/**
+ * @swagger
+ * /api/rate-limits/{key}:
+ *   delete:
+ *     summary: Clear a client's rate limit counters and blocks (Admin only)
+ *     tags: [Rate Limits]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: IP address, or user ID for per-user policies
+ *       - in: query
+ *         name: policy
+ *         schema:
+ *           type: string
+ *         description: Only clear this policy; without it every policy and the client's violations are cleared
+ *     responses:
+ *       200:
+ *         description: Rate limits cleared
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/ClientRateLimits'
+ *       400:
+ *         description: Unknown policy
+ *       401:
+ *         description: Authentication required
+ *       503:
+ *         description: Rate limit store unavailable
+ */
+router.delete('/:key', authenticateToken, requireRole('settings:manage'), validate(clearRateLimitsSchema), rateLimitController.clearRateLimits.bind(rateLimitController));
+
+export default router;
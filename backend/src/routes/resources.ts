@@ -0,0 +1,211 @@
+import { Router } from 'express';
+import { resourceController } from '../controllers/resourceController';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import {
+  createResourceSchema,
+  updateResourceSchema,
+  getResourceSchema,
+  deleteResourceSchema,
+  resourceFiltersSchema,
+} from '../schemas/resource';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Resource:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         type:
+ *           type: string
+ *           enum: [room, crew, equipment]
+ *         description:
+ *           type: string
+ *         capacity:
+ *           type: integer
+ *           description: Units that can be booked at the same time
+ *         active:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/resources:
+ *   get:
+ *     summary: List bookable resources (Admin only)
+ *     tags: [Resources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [room, crew, equipment]
+ *       - in: query
+ *         name: active
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Resources retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     resources:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Resource'
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/', authenticateToken, requireRole('services:manage'), validate(resourceFiltersSchema), resourceController.getAllResources.bind(resourceController));
+
+/**
+ * @swagger
+ * /api/resources/{id}:
+ *   get:
+ *     summary: Get a resource and the services that use it (Admin only)
+ *     tags: [Resources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Resource retrieved successfully
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Resource not found
+ */
+router.get('/:id', authenticateToken, requireRole('services:manage'), validate(getResourceSchema), resourceController.getResourceById.bind(resourceController));
+
+/**
+ * @swagger
+ * /api/resources:
+ *   post:
+ *     summary: Create a resource (Admin only)
+ *     tags: [Resources]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - type
+ *             properties:
+ *               name:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [room, crew, equipment]
+ *               description:
+ *                 type: string
+ *               capacity:
+ *                 type: integer
+ *                 default: 1
+ *               active:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Resource created successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Authentication required
+ *       409:
+ *         description: Resource already exists
+ */
+router.post('/', authenticateToken, requireRole('services:manage'), validate(createResourceSchema), resourceController.createResource.bind(resourceController));
+
+/**
+ * @swagger
+ * /api/resources/{id}:
+ *   put:
+ *     summary: Update a resource (Admin only)
+ *     tags: [Resources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Resource'
+ *     responses:
+ *       200:
+ *         description: Resource updated successfully
+ *       400:
+ *         description: Validation error or capacity below what a service needs
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Resource not found
+ *       409:
+ *         description: Resource conflict
+ */
+router.put('/:id', authenticateToken, requireRole('services:manage'), validate(updateResourceSchema), resourceController.updateResource.bind(resourceController));
+
+/**
+ * @swagger
+ * /api/resources/{id}:
+ *   delete:
+ *     summary: Delete a resource that has never been booked (Admin only)
+ *     tags: [Resources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Resource deleted successfully
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Resource not found
+ *       409:
+ *         description: Resource has bookings
+ */
+router.delete('/:id', authenticateToken, requireRole('services:manage'), validate(deleteResourceSchema), resourceController.deleteResource.bind(resourceController));
+
+export default router;
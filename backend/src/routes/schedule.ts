@@ -0,0 +1,387 @@
+import { Router } from 'express';
+import { scheduleController } from '../controllers/scheduleController';
+import { calendarController } from '../controllers/calendarController';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import {
+  updateScheduleSchema,
+  blackoutDateFiltersSchema,
+  createBlackoutDateSchema,
+  deleteBlackoutDateSchema,
+  createExternalCalendarSchema,
+  syncExternalCalendarSchema,
+  deleteExternalCalendarSchema,
+} from '../schemas/schedule';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DayHours:
+ *       type: object
+ *       properties:
+ *         weekday:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 6
+ *           description: 0 = Sunday ... 6 = Saturday
+ *         openTime:
+ *           type: string
+ *           example: '09:00'
+ *         closeTime:
+ *           type: string
+ *           example: '18:00'
+ *         closed:
+ *           type: boolean
+ *     StudioSchedule:
+ *       type: object
+ *       properties:
+ *         timeZone:
+ *           type: string
+ *           description: IANA zone the opening hours and blackout dates are written in
+ *           example: Africa/Accra
+ *         slotIntervalMinutes:
+ *           type: integer
+ *         cancellationWindowHours:
+ *           type: integer
+ *           description: Clients may reschedule or cancel until this many hours before the start
+ *         hours:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/DayHours'
+ *     BlackoutDate:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         date:
+ *           type: string
+ *           format: date
+ *         reason:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     ExternalCalendar:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         url:
+ *           type: string
+ *           nullable: true
+ *           description: Fetched on every sync; calendars uploaded as a file have none
+ *         lastSyncedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastSyncError:
+ *           type: string
+ *           nullable: true
+ *         _count:
+ *           type: object
+ *           properties:
+ *             busyBlocks:
+ *               type: integer
+ */
+
+/**
+ * @swagger
+ * /api/schedule:
+ *   get:
+ *     summary: Get the studio's weekly opening hours and upcoming closed dates
+ *     tags: [Schedule]
+ *     responses:
+ *       200:
+ *         description: Studio schedule retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     schedule:
+ *                       $ref: '#/components/schemas/StudioSchedule'
+ *                     blackoutDates:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                         format: date
+ */
+router.get('/', scheduleController.getSchedule.bind(scheduleController));
+
+/**
+ * @swagger
+ * /api/schedule:
+ *   put:
+ *     summary: Update time zone, weekly opening hours, slot interval and cancellation window (Admin only)
+ *     tags: [Schedule]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               timeZone:
+ *                 type: string
+ *                 example: Africa/Accra
+ *               slotIntervalMinutes:
+ *                 type: integer
+ *               cancellationWindowHours:
+ *                 type: integer
+ *               hours:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/DayHours'
+ *     responses:
+ *       200:
+ *         description: Studio schedule updated successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Authentication required
+ */
+router.put('/', authenticateToken, requireRole('settings:manage'), validate(updateScheduleSchema), scheduleController.updateSchedule.bind(scheduleController));
+
+/**
+ * @swagger
+ * /api/schedule/blackout-dates:
+ *   get:
+ *     summary: List blackout dates (Admin only)
+ *     tags: [Schedule]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Blackout dates retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     blackoutDates:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/BlackoutDate'
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/blackout-dates', authenticateToken, requireRole('settings:manage'), validate(blackoutDateFiltersSchema), scheduleController.getBlackoutDates.bind(scheduleController));
+
+/**
+ * @swagger
+ * /api/schedule/blackout-dates:
+ *   post:
+ *     summary: Close the studio on a date (Admin only)
+ *     tags: [Schedule]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - date
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Blackout date created successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Authentication required
+ *       409:
+ *         description: Blackout date already exists
+ */
+router.post('/blackout-dates', authenticateToken, requireRole('settings:manage'), validate(createBlackoutDateSchema), scheduleController.createBlackoutDate.bind(scheduleController));
+
+/**
+ * @swagger
+ * /api/schedule/blackout-dates/{id}:
+ *   delete:
+ *     summary: Remove a blackout date (Admin only)
+ *     tags: [Schedule]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Blackout date deleted successfully
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Blackout date not found
+ */
+router.delete('/blackout-dates/:id', authenticateToken, requireRole('settings:manage'), validate(deleteBlackoutDateSchema), scheduleController.deleteBlackoutDate.bind(scheduleController));
+
+/**
+ * @swagger
+ * /api/schedule/calendars:
+ *   get:
+ *     summary: List external calendars that block out studio time (Admin only)
+ *     tags: [Schedule]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: External calendars retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     calendars:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ExternalCalendar'
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/calendars', authenticateToken, requireRole('settings:manage'), calendarController.getExternalCalendars.bind(calendarController));
+
+/**
+ * @swagger
+ * /api/schedule/calendars:
+ *   post:
+ *     summary: Import an external calendar's busy times (Admin only)
+ *     description: Events in the calendar are treated as busy time when availability is calculated. Give either a subscription URL, which is fetched again on every sync, or the contents of an .ics file.
+ *     tags: [Schedule]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               url:
+ *                 type: string
+ *                 example: webcal://calendar.example.com/studio.ics
+ *               ics:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: External calendar added successfully
+ *       400:
+ *         description: Validation error or not an iCalendar file
+ *       401:
+ *         description: Authentication required
+ *       502:
+ *         description: The calendar URL could not be fetched
+ */
+router.post('/calendars', authenticateToken, requireRole('settings:manage'), validate(createExternalCalendarSchema), calendarController.createExternalCalendar.bind(calendarController));
+
+/**
+ * @swagger
+ * /api/schedule/calendars/{id}/sync:
+ *   post:
+ *     summary: Re-import an external calendar's busy times (Admin only)
+ *     tags: [Schedule]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ics:
+ *                 type: string
+ *                 description: New contents, required for calendars without a URL
+ *     responses:
+ *       200:
+ *         description: External calendar synced successfully
+ *       400:
+ *         description: Calendar file required or not an iCalendar file
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Calendar not found
+ *       502:
+ *         description: The calendar URL could not be fetched
+ */
+router.post('/calendars/:id/sync', authenticateToken, requireRole('settings:manage'), validate(syncExternalCalendarSchema), calendarController.syncExternalCalendar.bind(calendarController));
+
+/**
+ * @swagger
+ * /api/schedule/calendars/{id}:
+ *   delete:
+ *     summary: Remove an external calendar and its busy times (Admin only)
+ *     tags: [Schedule]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: External calendar deleted successfully
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Calendar not found
+ */
+router.delete('/calendars/:id', authenticateToken, requireRole('settings:manage'), validate(deleteExternalCalendarSchema), calendarController.deleteExternalCalendar.bind(calendarController));
+
+export default router;
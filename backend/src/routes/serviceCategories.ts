@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { serviceCategoryController } from '../controllers/serviceCategoryController';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireRole } from '../middleware/auth';
 import { validate } from '../middleware/validation';
 import {
   createServiceCategorySchema,
@@ -168,7 +168,7 @@ router.get('/:identifier', serviceCategoryController.getCategoryByIdOrSlug.bind(
  *       409:
  *         description: Category already exists
  */
-router.post('/', authenticateToken, validate(createServiceCategorySchema), serviceCategoryController.createCategory.bind(serviceCategoryController));
+router.post('/', authenticateToken, requireRole('services:manage'), validate(createServiceCategorySchema), serviceCategoryController.createCategory.bind(serviceCategoryController));
 
 /**
  * @swagger
@@ -228,7 +228,7 @@ router.post('/', authenticateToken, validate(createServiceCategorySchema), servi
  *       409:
  *         description: Category conflict
  */
-router.put('/:id', authenticateToken, validate(updateServiceCategorySchema), serviceCategoryController.updateCategory.bind(serviceCategoryController));
+router.put('/:id', authenticateToken, requireRole('services:manage'), validate(updateServiceCategorySchema), serviceCategoryController.updateCategory.bind(serviceCategoryController));
 
 /**
  * @swagger
@@ -255,7 +255,7 @@ router.put('/:id', authenticateToken, validate(updateServiceCategorySchema), ser
  *       409:
  *         description: Category has services
  */
-router.delete('/:id', authenticateToken, validate(deleteServiceCategorySchema), serviceCategoryController.deleteCategory.bind(serviceCategoryController));
+router.delete('/:id', authenticateToken, requireRole('services:manage'), validate(deleteServiceCategorySchema), serviceCategoryController.deleteCategory.bind(serviceCategoryController));
 
 /**
  * @swagger
@@ -291,6 +291,6 @@ router.delete('/:id', authenticateToken, validate(deleteServiceCategorySchema),
  *       401:
  *         description: Authentication required
  */
-router.post('/reorder', authenticateToken, serviceCategoryController.reorderCategories.bind(serviceCategoryController));
+router.post('/reorder', authenticateToken, requireRole('services:manage'), serviceCategoryController.reorderCategories.bind(serviceCategoryController));
 
 export default router;
\ No newline at end of file
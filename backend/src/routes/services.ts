@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { serviceController } from '../controllers/serviceController';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireRole } from '../middleware/auth';
 import { validate } from '../middleware/validation';
 import {
   createServiceSchema,
@@ -10,6 +10,7 @@ import {
   serviceFiltersSchema,
   serviceAvailabilitySchema,
 } from '../schemas/service';
+import { setServiceResourcesSchema } from '../schemas/resource';
 
 const router = Router();
 
@@ -40,6 +41,12 @@ const router = Router();
  *         duration:
  *           type: integer
  *           description: Duration in minutes
+ *         setupBufferMinutes:
+ *           type: integer
+ *           description: Minutes blocked before each booking for setup
+ *         teardownBufferMinutes:
+ *           type: integer
+ *           description: Minutes blocked after each booking for teardown
  *         features:
  *           type: object
  *         active:
@@ -355,6 +362,12 @@ router.get('/:id/availability', validate(serviceAvailabilitySchema), serviceCont
  *               duration:
  *                 type: integer
  *                 description: Duration in minutes
+ *               setupBufferMinutes:
+ *                 type: integer
+ *                 default: 0
+ *               teardownBufferMinutes:
+ *                 type: integer
+ *                 default: 0
  *               features:
  *                 type: object
  *               active:
@@ -382,7 +395,7 @@ router.get('/:id/availability', validate(serviceAvailabilitySchema), serviceCont
  *       409:
  *         description: Service already exists
  */
-router.post('/', authenticateToken, validate(createServiceSchema), serviceController.createService.bind(serviceController));
+router.post('/', authenticateToken, requireRole('services:manage'), validate(createServiceSchema), serviceController.createService.bind(serviceController));
 
 /**
  * @swagger
@@ -422,6 +435,10 @@ router.post('/', authenticateToken, validate(createServiceSchema), serviceContro
  *                 enum: [fixed, hourly, package]
  *               duration:
  *                 type: integer
+ *               setupBufferMinutes:
+ *                 type: integer
+ *               teardownBufferMinutes:
+ *                 type: integer
  *               features:
  *                 type: object
  *               active:
@@ -450,7 +467,56 @@ router.post('/', authenticateToken, validate(createServiceSchema), serviceContro
  *       409:
  *         description: Service conflict
  */
-router.put('/:id', authenticateToken, validate(updateServiceSchema), serviceController.updateService.bind(serviceController));
+router.put('/:id', authenticateToken, requireRole('services:manage'), validate(updateServiceSchema), serviceController.updateService.bind(serviceController));
+
+/**
+ * @swagger
+ * /api/services/{id}/resources:
+ *   put:
+ *     summary: Replace the resources a service needs for each booking (Admin only)
+ *     tags: [Services]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Service ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - resources
+ *             properties:
+ *               resources:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - resourceId
+ *                   properties:
+ *                     resourceId:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *                       minimum: 1
+ *                       default: 1
+ *     responses:
+ *       200:
+ *         description: Service resources updated successfully
+ *       400:
+ *         description: Unknown resource or quantity above its capacity
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Service not found
+ */
+router.put('/:id/resources', authenticateToken, requireRole('services:manage'), validate(setServiceResourcesSchema), serviceController.setServiceResources.bind(serviceController));
 
 /**
  * @swagger
@@ -477,6 +543,6 @@ router.put('/:id', authenticateToken, validate(updateServiceSchema), serviceCont
  *       409:
  *         description: Service has active bookings
  */
-router.delete('/:id', authenticateToken, validate(deleteServiceSchema), serviceController.deleteService.bind(serviceController));
+router.delete('/:id', authenticateToken, requireRole('services:manage'), validate(deleteServiceSchema), serviceController.deleteService.bind(serviceController));
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { Router } from 'express';
+import { spamController } from '../controllers/spamController';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { updateSpamSettingsSchema } from '../schemas/spam';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SpamSettings:
+ *       type: object
+ *       properties:
+ *         quarantineThreshold:
+ *           type: number
+ *           description: Submissions scoring at least this many points are held for review
+ *           example: 3
+ *         rejectThreshold:
+ *           type: number
+ *           description: Submissions scoring at least this many points are dropped
+ *           example: 8
+ *         rules:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 example: links
+ *               description:
+ *                 type: string
+ *               defaultPoints:
+ *                 type: number
+ *               points:
+ *                 type: number
+ *                 description: Points the rule currently adds; 0 means the rule is off
+ *         training:
+ *           type: object
+ *           description: Submissions the classifier has learned from, per label
+ *           properties:
+ *             spam:
+ *               type: integer
+ *             ham:
+ *               type: integer
+ */
+
+/**
+ * @swagger
+ * /api/spam/settings:
+ *   get:
+ *     summary: Get spam filter settings (Admin only)
+ *     tags: [Spam]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Spam filter settings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/SpamSettings'
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/settings', authenticateToken, requireRole('settings:manage'), spamController.getSettings.bind(spamController));
+
+/**
+ * @swagger
+ * /api/spam/settings:
+ *   put:
+ *     summary: Update spam filter thresholds and rule points (Admin only)
+ *     tags: [Spam]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               quarantineThreshold:
+ *                 type: number
+ *               rejectThreshold:
+ *                 type: number
+ *               ruleWeights:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: number
+ *                 description: Points per rule ID, replacing any earlier overrides; 0 disables a rule
+ *                 example: { "links": 3, "shouting": 0 }
+ *     responses:
+ *       200:
+ *         description: Spam filter settings updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/SpamSettings'
+ *       400:
+ *         description: Validation error, unknown rule or reject threshold below the quarantine threshold
+ *       401:
+ *         description: Authentication required
+ */
+router.put('/settings', authenticateToken, requireRole('settings:manage'), validate(updateSpamSettingsSchema), spamController.updateSettings.bind(spamController));
+
+export default router;
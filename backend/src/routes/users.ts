@@ -0,0 +1,379 @@
+import { Router } from 'express';
+import { userController } from '../controllers/userController';
+import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import {
+  userFiltersSchema,
+  getUserSchema,
+  updateUserSchema,
+  deleteUserSchema,
+  createInvitationSchema,
+  invitationIdSchema,
+  twoFactorPolicySchema,
+  resetTwoFactorSchema,
+  unlockUserSchema,
+} from '../schemas/user';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     UserInvitation:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         email:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [owner, admin, manager, editor, photographer]
+ *         firstName:
+ *           type: string
+ *         lastName:
+ *           type: string
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         invitedBy:
+ *           type: object
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/users:
+ *   get:
+ *     summary: List users (Owner or admin)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [owner, admin, manager, editor, photographer]
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Matches email, first or last name
+ *     responses:
+ *       200:
+ *         description: Users retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     users:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/User'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get('/', authenticateToken, requireAdmin, validate(userFiltersSchema), userController.getUsers.bind(userController));
+
+/**
+ * @swagger
+ * /api/users/invitations:
+ *   get:
+ *     summary: List pending invitations (Owner or admin)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Invitations retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     invitations:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/UserInvitation'
+ *   post:
+ *     summary: Invite someone to join with a role (Owner or admin)
+ *     description: >
+ *       Emails a link that expires after 7 days. Inviting the same email again
+ *       replaces the earlier invitation. Only owners can invite owners.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - role
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [owner, admin, manager, editor, photographer]
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Invitation sent successfully
+ *       403:
+ *         description: Only owners can invite owners
+ *       409:
+ *         description: A user with this email already exists
+ */
+router.get('/invitations', authenticateToken, requireAdmin, userController.getInvitations.bind(userController));
+router.post('/invitations', authenticateToken, requireAdmin, validate(createInvitationSchema), userController.createInvitation.bind(userController));
+
+/**
+ * @swagger
+ * /api/users/two-factor:
+ *   get:
+ *     summary: Whether everyone must use two-factor authentication (Owner or admin)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor policy retrieved successfully
+ *   put:
+ *     summary: Require two-factor authentication for everyone, or stop requiring it (Owner or admin)
+ *     description: >
+ *       Turning it on signs out everyone who hasn't set it up, and they must set it up
+ *       at their next sign-in. You need it on your own account first.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - required
+ *             properties:
+ *               required:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Two-factor policy updated successfully
+ *       400:
+ *         description: Two-factor authentication is off on your own account
+ */
+router.get('/two-factor', authenticateToken, requireAdmin, userController.getTwoFactorPolicy.bind(userController));
+router.put('/two-factor', authenticateToken, requireAdmin, validate(twoFactorPolicySchema), userController.updateTwoFactorPolicy.bind(userController));
+
+/**
+ * @swagger
+ * /api/users/invitations/{id}/resend:
+ *   post:
+ *     summary: Resend an invitation with a new link (Owner or admin)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation resent successfully
+ *       404:
+ *         description: Invitation not found
+ */
+router.post('/invitations/:id/resend', authenticateToken, requireAdmin, validate(invitationIdSchema), userController.resendInvitation.bind(userController));
+
+/**
+ * @swagger
+ * /api/users/invitations/{id}:
+ *   delete:
+ *     summary: Revoke an invitation (Owner or admin)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation revoked successfully
+ *       404:
+ *         description: Invitation not found
+ */
+router.delete('/invitations/:id', authenticateToken, requireAdmin, validate(invitationIdSchema), userController.revokeInvitation.bind(userController));
+
+/**
+ * @swagger
+ * /api/users/{id}:
+ *   get:
+ *     summary: Get a user and their permissions (Owner or admin)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User retrieved successfully
+ *       404:
+ *         description: User not found
+ */
+router.get('/:id', authenticateToken, requireAdmin, validate(getUserSchema), userController.getUser.bind(userController));
+
+/**
+ * @swagger
+ * /api/users/{id}:
+ *   put:
+ *     summary: Update a user's name or role (Owner or admin)
+ *     description: >
+ *       Only owners can change owners or make someone an owner, nobody can change
+ *       their own role, and the last owner can't be demoted.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [owner, admin, manager, editor, photographer]
+ *     responses:
+ *       200:
+ *         description: User updated successfully
+ *       400:
+ *         description: Role change not allowed
+ *       403:
+ *         description: Only owners can change owners
+ *       404:
+ *         description: User not found
+ */
+router.put('/:id', authenticateToken, requireAdmin, validate(updateUserSchema), userController.updateUser.bind(userController));
+
+/**
+ * @swagger
+ * /api/users/{id}:
+ *   delete:
+ *     summary: Delete a user (Owner or admin)
+ *     description: Signs them out everywhere. You can't delete yourself or the last owner.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User deleted successfully
+ *       400:
+ *         description: Deletion not allowed
+ *       404:
+ *         description: User not found
+ */
+router.delete('/:id', authenticateToken, requireAdmin, validate(deleteUserSchema), userController.deleteUser.bind(userController));
+
+/**
+ * @swagger
+ * /api/users/{id}/two-factor:
+ *   delete:
+ *     summary: Reset a user's two-factor authentication (Owner or admin)
+ *     description: >
+ *       For users who lost their authenticator app and recovery codes. Signs them out
+ *       everywhere; only owners can reset owners.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication reset
+ *       403:
+ *         description: Only owners can change owners
+ *       404:
+ *         description: User not found
+ */
+router.delete('/:id/two-factor', authenticateToken, requireAdmin, validate(resetTwoFactorSchema), userController.resetTwoFactor.bind(userController));
+
+/**
+ * @swagger
+ * /api/users/{id}/unlock:
+ *   post:
+ *     summary: Unlock a user locked out by failed sign-ins (Owner or admin)
+ *     description: Clears the lockout and the failed-attempt count; only owners can unlock owners.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User unlocked
+ *       403:
+ *         description: Only owners can change owners
+ *       404:
+ *         description: User not found
+ */
+router.post('/:id/unlock', authenticateToken, requireAdmin, validate(unlockUserSchema), userController.unlockUser.bind(userController));
+
+export default router;
@@ -0,0 +1,396 @@
+import { Router } from 'express';
+import { webhookController } from '../controllers/webhookController';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import {
+  createWebhookSchema,
+  redeliverWebhookSchema,
+  updateWebhookSchema,
+  webhookDeliveriesSchema,
+  webhookIdSchema,
+} from '../schemas/webhook';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Webhook:
+ *       type: object
+ *       description: >
+ *         A URL told about events as they happen. Each event is POSTed as JSON
+ *         (`{ id, event, createdAt, data }`) with X-Webhook-Event, X-Webhook-Delivery,
+ *         X-Webhook-Timestamp and X-Webhook-Signature headers. The signature is
+ *         `sha256=` followed by the hex HMAC-SHA256 of `<timestamp>.<raw body>`, keyed
+ *         with the webhook's secret. Receivers should answer with a 2xx status within
+ *         10 seconds; anything else is retried with backoff.
+ *       properties:
+ *         id:
+ *           type: string
+ *         url:
+ *           type: string
+ *           example: https://hooks.example.com/derji
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         events:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: [booking.created, inquiry.created]
+ *         active:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     WebhookDelivery:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         event:
+ *           type: string
+ *         payload:
+ *           type: object
+ *         status:
+ *           type: string
+ *           enum: [queued, sending, delivered, failed]
+ *         attempts:
+ *           type: integer
+ *         maxAttempts:
+ *           type: integer
+ *         nextAttemptAt:
+ *           type: string
+ *           format: date-time
+ *         responseStatus:
+ *           type: integer
+ *           nullable: true
+ *         responseBody:
+ *           type: string
+ *           nullable: true
+ *         durationMs:
+ *           type: integer
+ *           nullable: true
+ *         lastError:
+ *           type: string
+ *           nullable: true
+ *         deliveredAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   get:
+ *     summary: List webhooks (Owner or admin)
+ *     description: All subscriptions, and the events a subscription can be given with what each means.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhooks retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     webhooks:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Webhook'
+ *                     events:
+ *                       type: object
+ *                       additionalProperties:
+ *                         type: string
+ *       403:
+ *         description: Owner or admin required
+ */
+router.get('/', authenticateToken, requireRole('integrations:manage'), webhookController.getWebhooks.bind(webhookController));
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   post:
+ *     summary: Create a webhook (Owner or admin)
+ *     description: The signing secret is only returned here and when it is rotated.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - url
+ *               - events
+ *             properties:
+ *               url:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               active:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Webhook created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     webhook:
+ *                       $ref: '#/components/schemas/Webhook'
+ *                     secret:
+ *                       type: string
+ *       400:
+ *         description: Invalid URL or events
+ */
+router.post('/', authenticateToken, requireRole('integrations:manage'), validate(createWebhookSchema), webhookController.createWebhook.bind(webhookController));
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *   put:
+ *     summary: Update a webhook (Owner or admin)
+ *     description: Change its URL or events, or pause it. Deliveries for a paused webhook wait until it is turned back on.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               active:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Webhook updated successfully
+ *       404:
+ *         description: Webhook not found
+ */
+router.put('/:id', authenticateToken, requireRole('integrations:manage'), validate(updateWebhookSchema), webhookController.updateWebhook.bind(webhookController));
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *   delete:
+ *     summary: Delete a webhook (Owner or admin)
+ *     description: Drops its queued deliveries and delivery log too.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook deleted successfully
+ *       404:
+ *         description: Webhook not found
+ */
+router.delete('/:id', authenticateToken, requireRole('integrations:manage'), validate(webhookIdSchema), webhookController.deleteWebhook.bind(webhookController));
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/rotate-secret:
+ *   post:
+ *     summary: Rotate a webhook's signing secret (Owner or admin)
+ *     description: The old secret stops being used straight away, including for retries already queued.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook secret rotated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     webhook:
+ *                       $ref: '#/components/schemas/Webhook'
+ *                     secret:
+ *                       type: string
+ *       404:
+ *         description: Webhook not found
+ */
+router.post('/:id/rotate-secret', authenticateToken, requireRole('integrations:manage'), validate(webhookIdSchema), webhookController.rotateSecret.bind(webhookController));
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/test:
+ *   post:
+ *     summary: Send a test event (Owner or admin)
+ *     description: Sends a signed `ping` event now and answers with how the receiver responded. It isn't retried.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The test delivery, delivered or failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     delivery:
+ *                       $ref: '#/components/schemas/WebhookDelivery'
+ *       404:
+ *         description: Webhook not found
+ */
+router.post('/:id/test', authenticateToken, requireRole('integrations:manage'), validate(webhookIdSchema), webhookController.testWebhook.bind(webhookController));
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/deliveries:
+ *   get:
+ *     summary: Get a webhook's delivery log (Owner or admin)
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [queued, sending, delivered, failed]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Webhook deliveries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     deliveries:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/WebhookDelivery'
+ *                     pagination:
+ *                       type: object
+ *       404:
+ *         description: Webhook not found
+ */
+router.get('/:id/deliveries', authenticateToken, requireRole('integrations:manage'), validate(webhookDeliveriesSchema), webhookController.getDeliveries.bind(webhookController));
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/deliveries/{deliveryId}/redeliver:
+ *   post:
+ *     summary: Send a delivery again (Owner or admin)
+ *     description: Sends the same payload again now, with a fresh set of attempts.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: deliveryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The delivery after the new attempt
+ *       404:
+ *         description: Delivery not found
+ *       409:
+ *         description: The delivery is still being attempted
+ */
+router.post('/:id/deliveries/:deliveryId/redeliver', authenticateToken, requireRole('integrations:manage'), validate(redeliverWebhookSchema), webhookController.redeliver.bind(webhookController));
+
+export default router;
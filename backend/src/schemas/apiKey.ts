@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { API_KEY_SCOPES, ApiKeyScope } from '../config/apiKeyScopes';
+
+const scopeSchema = z.enum(API_KEY_SCOPES as [ApiKeyScope, ...ApiKeyScope[]], {
+  errorMap: () => ({ message: `Scope must be one of: ${API_KEY_SCOPES.join(', ')}` }),
+});
+
+export const createApiKeySchema = {
+  body: z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100, 'Name must not exceed 100 characters'),
+    scopes: z.array(scopeSchema).min(1, 'Choose at least one scope'),
+    // Omit for a key that doesn't expire
+    expiresAt: z.coerce.date().nullable().optional(),
+  }),
+};
+
+export const apiKeyIdSchema = {
+  params: z.object({
+    id: z.string().min(1, 'ID is required'),
+  }),
+};
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema.body>;
@@ -1,7 +1,7 @@
 import { z } from 'zod';
 
 // Password validation schema
-const passwordSchema = z
+export const passwordSchema = z
   .string()
   .min(8, 'Password must be at least 8 characters long')
   .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
@@ -10,14 +10,14 @@ const passwordSchema = z
   .regex(/[!@#$%^&*(),.?":{}|<>]/, 'Password must contain at least one special character');
 
 // Email validation schema
-const emailSchema = z
+export const emailSchema = z
   .string()
   .email('Invalid email format')
   .toLowerCase()
   .trim();
 
 // Name validation schema
-const nameSchema = z
+export const nameSchema = z
   .string()
   .min(1, 'Name is required')
   .max(100, 'Name must be less than 100 characters')
@@ -42,10 +42,10 @@ export const loginSchema = z.object({
   }),
 });
 
-// Refresh token schema
+// Refresh token schema; browsers send the token as a cookie instead
 export const refreshTokenSchema = z.object({
   body: z.object({
-    refreshToken: z.string().min(1, 'Refresh token is required'),
+    refreshToken: z.string().min(1, 'Refresh token is required').optional(),
   }),
 });
 
@@ -81,21 +81,67 @@ export const updateProfileSchema = z.object({
   }),
 });
 
-// Admin user creation schema
-export const createUserSchema = z.object({
+// Accept invitation schema; the token is the one from the emailed link
+export const acceptInvitationSchema = z.object({
+  params: z.object({
+    token: z.string().min(1, 'Invitation token is required'),
+  }),
   body: z.object({
-    email: emailSchema,
     password: passwordSchema,
     firstName: nameSchema.optional(),
     lastName: nameSchema.optional(),
-    role: z.enum(['admin', 'user']).default('user'),
   }),
 });
 
-// User ID parameter schema
-export const userIdParamSchema = z.object({
+// A code from the authenticator app, or a recovery code
+const twoFactorCodeSchema = z
+  .string()
+  .trim()
+  .min(6, 'Enter the code from your authenticator app or a recovery code')
+  .max(32, 'Code is too long');
+
+const challengeTokenSchema = z.string().min(1, 'Challenge token is required');
+
+// Second step of login
+export const verifyTwoFactorLoginSchema = z.object({
+  body: z.object({
+    challengeToken: challengeTokenSchema,
+    code: twoFactorCodeSchema,
+  }),
+});
+
+// Required enrolment during login
+export const twoFactorSetupAtLoginSchema = z.object({
+  body: z.object({
+    challengeToken: challengeTokenSchema,
+  }),
+});
+
+export const enableTwoFactorAtLoginSchema = z.object({
+  body: z.object({
+    challengeToken: challengeTokenSchema,
+    code: twoFactorCodeSchema,
+  }),
+});
+
+// Confirming enrolment, or getting new recovery codes, on a signed-in account
+export const twoFactorCodeBodySchema = z.object({
+  body: z.object({
+    code: twoFactorCodeSchema,
+  }),
+});
+
+export const disableTwoFactorSchema = z.object({
+  body: z.object({
+    password: z.string().min(1, 'Password is required'),
+    code: twoFactorCodeSchema,
+  }),
+});
+
+// Session ID parameter schema
+export const sessionIdParamSchema = z.object({
   params: z.object({
-    id: z.string().uuid('Invalid user ID format'),
+    id: z.string().min(1, 'Session ID is required'),
   }),
 });
 
@@ -107,5 +153,8 @@ export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>['body'];
 export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>['body'];
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>['body'];
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>['body'];
-export type CreateUserInput = z.infer<typeof createUserSchema>['body'];
-export type UserIdParam = z.infer<typeof userIdParamSchema>['params'];
\ No newline at end of file
+export type AcceptInvitationInput = z.infer<typeof acceptInvitationSchema>['body'];
+export type SessionIdParam = z.infer<typeof sessionIdParamSchema>['params'];
+export type VerifyTwoFactorLoginInput = z.infer<typeof verifyTwoFactorLoginSchema>['body'];
+export type EnableTwoFactorAtLoginInput = z.infer<typeof enableTwoFactorAtLoginSchema>['body'];
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorSchema>['body'];
\ No newline at end of file
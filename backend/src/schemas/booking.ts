@@ -9,7 +9,8 @@ const baseBookingSchema = z.object({
   clientEmail: z.string().email('Invalid email address').max(255, 'Email too long'),
   clientPhone: z.string().max(50, 'Phone number too long').optional(),
   serviceId: z.string().min(1, 'Service ID is required').optional(),
-  bookingDate: z.string().datetime('Invalid booking date'),
+  // The studio calendar day is derived from startTime in the studio's zone; kept for older clients
+  bookingDate: z.string().datetime('Invalid booking date').optional(),
   startTime: z.string().datetime('Invalid start time'),
   endTime: z.string().datetime('Invalid end time'),
   status: BookingStatus.default('pending'),
@@ -27,20 +28,6 @@ export const bookingSchema = baseBookingSchema.refine((data) => {
 }, {
   message: 'End time must be after start time',
   path: ['endTime'],
-}).refine((data) => {
-  const bookingDate = new Date(data.bookingDate);
-  const startTime = new Date(data.startTime);
-  const endTime = new Date(data.endTime);
-  
-  // Check if start and end times are on the same day as booking date
-  const bookingDateStr = bookingDate.toISOString().split('T')[0];
-  const startDateStr = startTime.toISOString().split('T')[0];
-  const endDateStr = endTime.toISOString().split('T')[0];
-  
-  return bookingDateStr === startDateStr && bookingDateStr === endDateStr;
-}, {
-  message: 'Start and end times must be on the same day as booking date',
-  path: ['startTime'],
 });
 
 // Create booking schema (without status field)
@@ -52,20 +39,6 @@ export const createBookingSchema = {
   }, {
     message: 'End time must be after start time',
     path: ['endTime'],
-  }).refine((data) => {
-    const bookingDate = new Date(data.bookingDate);
-    const startTime = new Date(data.startTime);
-    const endTime = new Date(data.endTime);
-    
-    // Check if start and end times are on the same day as booking date
-    const bookingDateStr = bookingDate.toISOString().split('T')[0];
-    const startDateStr = startTime.toISOString().split('T')[0];
-    const endDateStr = endTime.toISOString().split('T')[0];
-    
-    return bookingDateStr === startDateStr && bookingDateStr === endDateStr;
-  }, {
-    message: 'Start and end times must be on the same day as booking date',
-    path: ['startTime'],
   }),
 };
 
@@ -107,7 +80,9 @@ export const bookingFiltersSchema = {
 // Availability check schema
 export const availabilitySchema = {
   query: z.object({
-    date: z.string().datetime('Invalid date format'),
+    // A studio calendar day, or any instant falling on that day in the studio's zone
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format')
+      .or(z.string().datetime('Invalid date format')),
     serviceId: z.string().optional(),
     duration: z.string().transform((val) => parseInt(val, 10)).default('60'), // Default 1 hour
   }),
@@ -121,6 +96,17 @@ export const updateBookingStatusSchema = {
   body: z.object({
     status: BookingStatus,
     notes: z.string().max(1000, 'Notes too long').optional(),
+    reason: z.string().max(500, 'Reason too long').optional(), // kept in the booking's history
+  }),
+};
+
+// Mark booking as spam schema
+export const markBookingSpamSchema = {
+  params: z.object({
+    id: z.string().min(1, 'Booking ID is required'),
+  }),
+  body: z.object({
+    spam: z.boolean({ required_error: 'Spam must be true or false' }),
   }),
 };
 
@@ -130,5 +116,133 @@ export const bulkBookingOperationSchema = {
     bookingIds: z.array(z.string().min(1, 'Booking ID is required')).min(1, 'At least one booking ID is required'),
     operation: z.enum(['confirm', 'cancel', 'complete']),
     notes: z.string().max(1000, 'Notes too long').optional(),
+    reason: z.string().max(500, 'Reason too long').optional(),
+  }),
+};
+// Client booking link schema
+export const manageBookingSchema = {
+  params: z.object({
+    token: z.string().min(1, 'Booking token is required'),
+  }),
+};
+
+// Client reschedule schema
+export const rescheduleBookingSchema = {
+  params: z.object({
+    token: z.string().min(1, 'Booking token is required'),
+  }),
+  body: baseBookingSchema.pick({ bookingDate: true, startTime: true, endTime: true }).refine((data) => {
+    const startTime = new Date(data.startTime);
+    const endTime = new Date(data.endTime);
+    return endTime > startTime;
+  }, {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+  }),
+};
+
+// How a booking series repeats
+const seriesDateKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format');
+
+export const recurrenceSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('weekly'),
+    count: z.number().int().min(2, 'A series needs at least 2 sessions').max(52, 'A series can have at most 52 sessions'),
+    intervalWeeks: z.number().int().min(1).max(4).optional(),
+  }),
+  z.object({
+    type: z.literal('interval'),
+    everyDays: z.number().int().min(1).max(90),
+    count: z.number().int().min(2, 'A series needs at least 2 sessions').max(52, 'A series can have at most 52 sessions'),
+  }),
+  z.object({
+    type: z.literal('dates'),
+    dates: z.array(seriesDateKey).min(1, 'At least one more date is required').max(51, 'A series can have at most 52 sessions'),
+  }),
+]);
+
+const seriesTimesRefinement = (data: { startTime: string; endTime: string }) =>
+  new Date(data.endTime) > new Date(data.startTime);
+
+// Create booking series schema; startTime and endTime describe the first session
+export const createBookingSeriesSchema = {
+  body: baseBookingSchema.omit({ status: true, bookingDate: true }).extend({
+    recurrence: recurrenceSchema,
+    // Book the sessions that are free and report the rest instead of rejecting the series
+    skipConflicts: z.boolean().default(false),
+  }).refine(seriesTimesRefinement, {
+    message: 'End time must be after start time',
+    path: ['endTime'],
   }),
-};
\ No newline at end of file
+};
+
+// Check a booking series for conflicts without booking it
+export const checkBookingSeriesSchema = {
+  body: baseBookingSchema.pick({ serviceId: true, startTime: true, endTime: true }).extend({
+    recurrence: recurrenceSchema,
+  }).refine(seriesTimesRefinement, {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+  }),
+};
+
+// Get booking series by ID schema
+export const getBookingSeriesSchema = {
+  params: z.object({
+    id: z.string().min(1, 'Series ID is required'),
+  }),
+};
+
+// Series reschedule schema; the times are the new slot for the next remaining session
+export const rescheduleBookingSeriesSchema = {
+  params: z.object({
+    id: z.string().min(1, 'Series ID is required'),
+  }),
+  body: baseBookingSchema.pick({ startTime: true, endTime: true }).refine(seriesTimesRefinement, {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+  }),
+};
+
+// iCal feed schema; the token in the feed URL stands in for a login
+export const calendarFeedSchema = {
+  query: z.object({
+    token: z.string().min(1, 'Feed token is required'),
+    // Comma-separated statuses, e.g. 'pending,confirmed'
+    status: z.string()
+      .transform((val) => val.split(',').map(status => status.trim()).filter(Boolean))
+      .pipe(z.array(BookingStatus))
+      .optional(),
+    serviceId: z.string().optional(),
+  }),
+};
+
+// Join the waitlist for a fully booked studio day
+export const joinWaitlistSchema = {
+  body: baseBookingSchema.pick({ clientName: true, clientEmail: true, clientPhone: true, serviceId: true }).extend({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  }),
+};
+
+// Waitlist filters schema
+export const waitlistFiltersSchema = {
+  query: z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').optional(),
+    status: z.enum(['waiting', 'offered', 'booked', 'expired']).optional(),
+    serviceId: z.string().optional(),
+  }),
+};
+
+// Waitlist entry by ID schema
+export const waitlistEntrySchema = {
+  params: z.object({
+    id: z.string().min(1, 'Waitlist entry ID is required'),
+  }),
+};
+
+// Waitlist offer link schema
+export const waitlistOfferSchema = {
+  params: z.object({
+    token: z.string().min(1, 'Waitlist token is required'),
+  }),
+};
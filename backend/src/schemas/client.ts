@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+const idParams = z.object({
+  id: z.string().min(1, 'Client ID is required'),
+});
+
+// Client search schema
+export const clientFiltersSchema = {
+  query: z.object({
+    search: z.string().trim().max(100, 'Search term must not exceed 100 characters').optional(),
+    page: z.string().transform((val) => parseInt(val, 10)).default('1'),
+    limit: z.string().transform((val) => parseInt(val, 10)).default('20'),
+  }),
+};
+
+// Get client schema (also used for duplicates)
+export const getClientSchema = {
+  params: idParams,
+};
+
+// Merge client schema: the client in the body is merged into the one in the path
+export const mergeClientSchema = {
+  params: idParams,
+  body: z.object({
+    sourceId: z.string().min(1, 'Client to merge is required'),
+  }),
+};
+
+// Add client note schema
+export const createClientNoteSchema = {
+  params: idParams,
+  body: z.object({
+    body: z.string()
+      .trim()
+      .min(1, 'Note must not be empty')
+      .max(5000, 'Note must not exceed 5000 characters'),
+  }),
+};
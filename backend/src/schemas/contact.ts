@@ -33,6 +33,12 @@ export const createContactInquirySchema = {
       .trim()
       .optional()
       .or(z.literal('')),
+    source: z.string()
+      .trim()
+      .toLowerCase()
+      .max(50, 'Source must not exceed 50 characters')
+      .regex(/^[\w.-]*$/, 'Source may only contain letters, numbers, dots, dashes and underscores')
+      .optional(),
   }),
 };
 
@@ -55,7 +61,7 @@ export const updateContactInquirySchema = {
 // Get contact inquiries query schema (admin only)
 export const getContactInquiriesSchema = {
   query: z.object({
-    status: z.enum(['new', 'responded', 'closed']).optional(),
+    status: z.enum(['new', 'responded', 'closed', 'quarantined', 'spam']).optional(),
     page: z.string()
       .regex(/^\d+$/, 'Page must be a positive number')
       .transform(Number)
@@ -88,6 +94,83 @@ export const getContactInquirySchema = {
   }),
 };
 
+// Get inquiry reply thread schema (admin only)
+export const getInquiryMessagesSchema = {
+  params: z.object({
+    id: z.string().cuid('Invalid inquiry ID format'),
+  }),
+};
+
+// Reply to contact inquiry schema (admin only)
+export const replyToInquirySchema = {
+  params: z.object({
+    id: z.string().cuid('Invalid inquiry ID format'),
+  }),
+  body: z.object({
+    body: z.string()
+      .trim()
+      .min(1, 'Reply must not be empty')
+      .max(10000, 'Reply must not exceed 10000 characters'),
+  }),
+};
+
+// Get inquiry conversion draft schema (admin only)
+export const getInquiryConversionSchema = {
+  params: z.object({
+    id: z.string().cuid('Invalid inquiry ID format'),
+  }),
+};
+
+// Convert contact inquiry schema (admin only)
+export const convertContactInquirySchema = {
+  params: z.object({
+    id: z.string().cuid('Invalid inquiry ID format'),
+  }),
+  body: z.object({
+    type: z.enum(['booking', 'quote'], {
+      errorMap: () => ({ message: 'Type must be one of: booking, quote' }),
+    }),
+    clientName: z.string().min(1, 'Client name is required').max(255, 'Client name too long'),
+    clientEmail: z.string().email('Invalid email address').max(255, 'Email too long'),
+    clientPhone: z.string().max(50, 'Phone number too long').optional(),
+    serviceId: z.string().min(1, 'Service ID is required').optional(),
+    startTime: z.string().datetime('Invalid start time'),
+    endTime: z.string().datetime('Invalid end time'),
+    projectDetails: z.string().max(2000, 'Project details too long').optional(),
+    budgetRange: z.string().max(50, 'Budget range too long').optional(),
+    location: z.string().max(255, 'Location too long').optional(),
+    notes: z.string().max(1000, 'Notes too long').optional(),
+  }).refine((data) => new Date(data.endTime) > new Date(data.startTime), {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+  }).refine((data) => data.type === 'booking' || !!data.serviceId, {
+    message: 'A service is required to price a quote',
+    path: ['serviceId'],
+  }),
+};
+
+// Inquiry conversion statistics query schema (admin only)
+export const getContactInquiryConversionsSchema = {
+  query: z.object({
+    dateFrom: z.string()
+      .datetime('Invalid date format')
+      .optional(),
+    dateTo: z.string()
+      .datetime('Invalid date format')
+      .optional(),
+  }),
+};
+
+// Mark contact inquiry as spam schema (admin only)
+export const markContactInquirySpamSchema = {
+  params: z.object({
+    id: z.string().cuid('Invalid inquiry ID format'),
+  }),
+  body: z.object({
+    spam: z.boolean({ required_error: 'Spam must be true or false' }),
+  }),
+};
+
 // Delete contact inquiry schema (admin only)
 export const deleteContactInquirySchema = {
   params: z.object({
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+export const EmailMessageStatus = z.enum(['queued', 'sending', 'sent', 'failed', 'suppressed', 'bounced']);
+
+const idParams = z.object({
+  id: z.string().min(1, 'ID is required'),
+});
+
+// Email message filters schema
+export const emailMessageFiltersSchema = {
+  query: z.object({
+    bookingId: z.string().optional(),
+    inquiryId: z.string().optional(),
+    status: EmailMessageStatus.optional(),
+    page: z.string().transform((val) => parseInt(val, 10)).default('1'),
+    limit: z.string().transform((val) => parseInt(val, 10)).default('20'),
+  }),
+};
+
+// Get email message schema
+export const getEmailMessageSchema = {
+  params: idParams,
+};
+
+// Retry email message schema
+export const retryEmailMessageSchema = {
+  params: idParams,
+};
+
+// Add suppression schema; bounces and complaints are added by the delivery webhook
+export const createSuppressionSchema = {
+  body: z.object({
+    email: z.string().trim().email('Invalid email address'),
+    details: z.string().trim().max(500, 'Details too long').optional(),
+  }),
+};
+
+// Remove suppression schema
+export const deleteSuppressionSchema = {
+  params: idParams,
+};
+
+// Delivery events webhook schema
+export const deliveryEventsSchema = {
+  query: z.object({
+    token: z.string().min(1, 'Token is required'),
+  }),
+};
+
+// Inbound email webhook schema
+export const inboundEmailSchema = {
+  query: z.object({
+    token: z.string().min(1, 'Token is required'),
+  }),
+};
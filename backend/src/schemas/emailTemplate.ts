@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+const templateKeyParams = z.object({
+  key: z.string().min(1, 'Template key is required'),
+});
+
+// Get email template schema
+export const getEmailTemplateSchema = {
+  params: templateKeyParams,
+};
+
+// Update email template schema
+export const updateEmailTemplateSchema = {
+  params: templateKeyParams,
+  body: z.object({
+    subject: z.string().trim().min(1, 'Subject is required').max(300, 'Subject too long'),
+    body: z.string().min(1, 'Body is required').max(50000, 'Body too long'),
+  }),
+};
+
+// Reset email template schema
+export const resetEmailTemplateSchema = {
+  params: templateKeyParams,
+};
+
+// Preview email template schema; omitted fields use the saved template
+export const previewEmailTemplateSchema = {
+  params: templateKeyParams,
+  body: z.object({
+    subject: z.string().max(300, 'Subject too long').optional(),
+    body: z.string().max(50000, 'Body too long').optional(),
+  }),
+};
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+// Invoice enums
+export const InvoiceType = z.enum(['quote', 'invoice']);
+export const InvoiceStatus = z.enum(['draft', 'sent', 'paid', 'void']);
+export const PaymentKind = z.enum(['deposit', 'balance']);
+
+const money = z.number().min(0, 'Amount must be non-negative').max(1000000, 'Amount too large');
+
+// A single priced line
+export const lineItemSchema = z.object({
+  description: z.string().min(1, 'Description is required').max(255, 'Description too long'),
+  quantity: z.number().positive('Quantity must be greater than zero').max(10000, 'Quantity too large'),
+  unitPrice: money,
+  discount: money.optional(),
+});
+
+// Fields shared by creating and editing invoices
+const invoicePricingSchema = z.object({
+  lineItems: z.array(lineItemSchema).min(1, 'At least one line item is required').max(100, 'Too many line items').optional(),
+  discount: z.object({
+    type: z.enum(['percent', 'amount']),
+    value: z.number().min(0, 'Discount must be non-negative'),
+  }).refine((discount) => discount.type !== 'percent' || discount.value <= 100, {
+    message: 'Percentage discounts cannot exceed 100',
+    path: ['value'],
+  }).optional(),
+  taxRatePercent: z.number().min(0, 'Tax rate must be non-negative').max(100, 'Tax rate too high').optional(),
+  depositPercent: z.number().int().min(0, 'Deposit must be non-negative').max(100, 'Deposit cannot exceed 100%').optional(),
+  notes: z.string().max(2000, 'Notes too long').optional(),
+  dueDate: z.string().datetime('Invalid due date').optional(),
+});
+
+const invoiceIdParams = z.object({
+  id: z.string().min(1, 'Invoice ID is required'),
+});
+
+// Create quote or invoice schema
+export const createInvoiceSchema = {
+  body: invoicePricingSchema.extend({
+    bookingId: z.string().min(1, 'Booking ID is required'),
+    type: InvoiceType.default('invoice'),
+  }),
+};
+
+// Update draft invoice schema
+export const updateInvoiceSchema = {
+  params: invoiceIdParams,
+  body: invoicePricingSchema,
+};
+
+// Get invoice by ID schema (also used for rendering and conversion)
+export const getInvoiceSchema = {
+  params: invoiceIdParams,
+};
+
+// Update invoice status schema
+export const updateInvoiceStatusSchema = {
+  params: invoiceIdParams,
+  body: z.object({
+    status: z.enum(['sent', 'void']),
+  }),
+};
+
+// Take a payment schema
+export const createPaymentSchema = {
+  params: invoiceIdParams,
+  body: z.object({
+    kind: PaymentKind,
+    amount: money.optional(),
+  }),
+};
+
+// Invoice filters schema
+export const invoiceFiltersSchema = {
+  query: z.object({
+    bookingId: z.string().optional(),
+    type: InvoiceType.optional(),
+    status: InvoiceStatus.optional(),
+    page: z.string().transform((val) => parseInt(val, 10)).default('1'),
+    limit: z.string().transform((val) => parseInt(val, 10)).default('20'),
+  }),
+};
+
+// Billing settings schema
+export const updateBillingSettingsSchema = {
+  body: z.object({
+    currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a three letter ISO code').optional(),
+    taxRatePercent: z.number().min(0, 'Tax rate must be non-negative').max(100, 'Tax rate too high').optional(),
+    depositPercent: z.number().int().min(0, 'Deposit must be non-negative').max(100, 'Deposit cannot exceed 100%').optional(),
+  }),
+};
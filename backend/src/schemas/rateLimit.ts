@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { RateLimitPolicyName, rateLimitPolicies } from '../config/rateLimits';
+
+const policyNames = Object.keys(rateLimitPolicies) as [RateLimitPolicyName, ...RateLimitPolicyName[]];
+
+// An IP address, or a user ID for per-user policies
+const clientKeyParams = z.object({
+  key: z.string().min(1, 'Key is required').max(200, 'Key must be less than 200 characters'),
+});
+
+// Get rate limit state schema
+export const getRateLimitsSchema = {
+  params: clientKeyParams,
+};
+
+// Clear rate limits schema
+export const clearRateLimitsSchema = {
+  params: clientKeyParams,
+  query: z.object({
+    policy: z.enum(policyNames).optional(),
+  }),
+};
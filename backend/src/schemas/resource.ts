@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+// Resource type enum
+export const ResourceType = z.enum(['room', 'crew', 'equipment']);
+
+// Base resource schema
+export const resourceSchema = z.object({
+  name: z.string().min(1, 'Resource name is required').max(100, 'Resource name too long'),
+  type: ResourceType,
+  description: z.string().max(500, 'Description too long').optional(),
+  capacity: z.number().int().min(1, 'Capacity must be at least 1').max(100, 'Capacity too large').default(1),
+  active: z.boolean().default(true),
+});
+
+// Create resource schema
+export const createResourceSchema = {
+  body: resourceSchema,
+};
+
+// Update resource schema (all fields optional)
+export const updateResourceSchema = {
+  body: resourceSchema.partial(),
+  params: z.object({
+    id: z.string().min(1, 'Resource ID is required'),
+  }),
+};
+
+// Get resource by ID schema
+export const getResourceSchema = {
+  params: z.object({
+    id: z.string().min(1, 'Resource ID is required'),
+  }),
+};
+
+// Delete resource schema
+export const deleteResourceSchema = {
+  params: z.object({
+    id: z.string().min(1, 'Resource ID is required'),
+  }),
+};
+
+// Resource filters schema
+export const resourceFiltersSchema = {
+  query: z.object({
+    type: ResourceType.optional(),
+    active: z.string().transform((val) => val === 'true').optional(),
+  }),
+};
+
+// Replace the resources a service needs
+export const setServiceResourcesSchema = {
+  params: z.object({
+    id: z.string().min(1, 'Service ID is required'),
+  }),
+  body: z.object({
+    resources: z.array(z.object({
+      resourceId: z.string().min(1, 'Resource ID is required'),
+      quantity: z.number().int().min(1, 'Quantity must be at least 1').default(1),
+    }))
+      .refine((resources) => new Set(resources.map(item => item.resourceId)).size === resources.length, {
+        message: 'Each resource may only appear once',
+      }),
+  }),
+};
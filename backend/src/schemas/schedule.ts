@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { isBlockedUrl } from '../utils/networkGuard';
+import { isValidTimeZone } from '../utils/timeZone';
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+const calendarDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+// Opening hours for a single weekday
+export const dayHoursSchema = z.object({
+  weekday: z.number().int().min(0, 'Weekday must be between 0 and 6').max(6, 'Weekday must be between 0 and 6'),
+  openTime: timeOfDay,
+  closeTime: timeOfDay,
+  closed: z.boolean().default(false),
+}).refine((data) => data.closed || data.closeTime > data.openTime, {
+  message: 'Closing time must be after opening time',
+  path: ['closeTime'],
+});
+
+// Update weekly schedule schema
+export const updateScheduleSchema = {
+  body: z.object({
+    timeZone: z.string().refine(isValidTimeZone, 'Time zone must be an IANA zone such as Africa/Accra').optional(),
+    slotIntervalMinutes: z.number().int().min(5, 'Slot interval must be at least 5 minutes').max(240, 'Slot interval too long').optional(),
+    cancellationWindowHours: z.number().int().min(0, 'Cancellation window must be non-negative').max(720, 'Cancellation window too long').optional(),
+    hours: z.array(dayHoursSchema).max(7, 'At most one entry per weekday')
+      .refine((hours) => new Set(hours.map(day => day.weekday)).size === hours.length, {
+        message: 'Each weekday may only appear once',
+      })
+      .optional(),
+  }),
+};
+
+// Blackout date listing schema
+export const blackoutDateFiltersSchema = {
+  query: z.object({
+    from: calendarDate.optional(),
+    to: calendarDate.optional(),
+  }),
+};
+
+// Create blackout date schema
+export const createBlackoutDateSchema = {
+  body: z.object({
+    date: calendarDate,
+    reason: z.string().max(255, 'Reason too long').optional(),
+  }),
+};
+
+// Delete blackout date schema
+export const deleteBlackoutDateSchema = {
+  params: z.object({
+    id: z.string().min(1, 'Blackout date ID is required'),
+  }),
+};
+
+// Add external calendar schema; either a subscription URL or the calendar's contents
+export const createExternalCalendarSchema = {
+  body: z.object({
+    name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+    url: z.string().regex(/^(https?|webcals?):\/\//i, 'URL must start with http(s):// or webcal://').max(2000, 'URL too long')
+      .refine(value => !isBlockedUrl(value), 'URL must point to a public address').optional(),
+    ics: z.string().max(2 * 1024 * 1024, 'Calendar file too large').optional(),
+  }).refine((data) => !!data.url !== !!data.ics, {
+    message: 'Provide either a calendar URL or the contents of an .ics file',
+    path: ['url'],
+  }),
+};
+
+// Sync external calendar schema; calendars without a URL need their contents again
+export const syncExternalCalendarSchema = {
+  params: z.object({
+    id: z.string().min(1, 'Calendar ID is required'),
+  }),
+  body: z.object({
+    ics: z.string().max(2 * 1024 * 1024, 'Calendar file too large').optional(),
+  }),
+};
+
+// Delete external calendar schema
+export const deleteExternalCalendarSchema = {
+  params: z.object({
+    id: z.string().min(1, 'Calendar ID is required'),
+  }),
+};
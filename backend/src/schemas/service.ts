@@ -23,6 +23,8 @@ export const serviceSchema = z.object({
   basePrice: z.number().min(0, 'Price must be non-negative').optional(),
   priceType: PriceType.default('fixed'),
   duration: z.number().int().min(1, 'Duration must be at least 1 minute').optional(),
+  setupBufferMinutes: z.number().int().min(0, 'Setup buffer must be non-negative').max(480, 'Setup buffer too long').default(0),
+  teardownBufferMinutes: z.number().int().min(0, 'Teardown buffer must be non-negative').max(480, 'Teardown buffer too long').default(0),
   features: z.union([z.array(z.string()), z.record(z.any())]).optional(),
   active: z.boolean().default(true),
 });
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+// Update spam filter settings schema
+export const updateSpamSettingsSchema = {
+  body: z.object({
+    quarantineThreshold: z.number().min(0, 'Threshold must not be negative').max(100, 'Threshold must not exceed 100').optional(),
+    rejectThreshold: z.number().min(0, 'Threshold must not be negative').max(100, 'Threshold must not exceed 100').optional(),
+    // Points per rule ID; 0 disables a rule
+    ruleWeights: z.record(z.number().min(0, 'Points must not be negative').max(100, 'Points must not exceed 100')).optional(),
+  }),
+};
@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { ROLES } from '../config/roles';
+import { emailSchema, nameSchema } from './auth';
+
+const idParams = z.object({
+  id: z.string().min(1, 'ID is required'),
+});
+
+const roleSchema = z.enum(ROLES, {
+  errorMap: () => ({ message: `Role must be one of: ${ROLES.join(', ')}` }),
+});
+
+// User list filters
+export const userFiltersSchema = {
+  query: z.object({
+    role: roleSchema.optional(),
+    search: z.string().trim().max(100, 'Search term must not exceed 100 characters').optional(),
+  }),
+};
+
+export const getUserSchema = {
+  params: idParams,
+};
+
+// Names and role; email and password belong to the user themselves
+export const updateUserSchema = {
+  params: idParams,
+  body: z.object({
+    firstName: nameSchema.nullable().optional(),
+    lastName: nameSchema.nullable().optional(),
+    role: roleSchema.optional(),
+  }),
+};
+
+export const deleteUserSchema = {
+  params: idParams,
+};
+
+// Whether everyone must use two-factor authentication
+export const twoFactorPolicySchema = {
+  body: z.object({
+    required: z.boolean(),
+  }),
+};
+
+export const resetTwoFactorSchema = {
+  params: idParams,
+};
+
+export const unlockUserSchema = {
+  params: idParams,
+};
+
+export const createInvitationSchema = {
+  body: z.object({
+    email: emailSchema,
+    role: roleSchema,
+    firstName: nameSchema.optional(),
+    lastName: nameSchema.optional(),
+  }),
+};
+
+export const invitationIdSchema = {
+  params: idParams,
+};
+
+export type UpdateUserInput = z.infer<typeof updateUserSchema.body>;
+export type CreateInvitationInput = z.infer<typeof createInvitationSchema.body>;
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { WEBHOOK_EVENT_TYPES, WebhookEvent } from '../config/webhookEvents';
+import { isBlockedUrl } from '../utils/networkGuard';
+
+export const WebhookDeliveryStatus = z.enum(['queued', 'sending', 'delivered', 'failed']);
+
+const eventSchema = z.enum(WEBHOOK_EVENT_TYPES as [WebhookEvent, ...WebhookEvent[]], {
+  errorMap: () => ({ message: `Event must be one of: ${WEBHOOK_EVENT_TYPES.join(', ')}` }),
+});
+
+// Receivers are called over HTTP(S) only, and never on the server's own network
+const urlSchema = z.string().trim().url('URL must be valid').max(2000, 'URL must not exceed 2000 characters')
+  .refine(value => /^https?:\/\//i.test(value), 'URL must start with http:// or https://')
+  .refine(value => !isBlockedUrl(value), 'URL must point to a public address');
+
+const idParams = z.object({
+  id: z.string().min(1, 'ID is required'),
+});
+
+const webhookBody = z.object({
+  url: urlSchema,
+  description: z.string().trim().max(200, 'Description must not exceed 200 characters').nullable().optional(),
+  events: z.array(eventSchema).min(1, 'Choose at least one event'),
+  active: z.boolean().optional(),
+});
+
+export const createWebhookSchema = {
+  body: webhookBody,
+};
+
+export const updateWebhookSchema = {
+  params: idParams,
+  body: webhookBody.partial(),
+};
+
+export const webhookIdSchema = {
+  params: idParams,
+};
+
+export const webhookDeliveriesSchema = {
+  params: idParams,
+  query: z.object({
+    status: WebhookDeliveryStatus.optional(),
+    page: z.string().transform((val) => parseInt(val, 10)).default('1'),
+    limit: z.string().transform((val) => parseInt(val, 10)).default('20'),
+  }),
+};
+
+export const redeliverWebhookSchema = {
+  params: z.object({
+    id: z.string().min(1, 'ID is required'),
+    deliveryId: z.string().min(1, 'Delivery ID is required'),
+  }),
+};
+
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema.body>;
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema.body>;
@@ -14,6 +14,7 @@ async function main() {
   await prisma.contactInquiry.deleteMany();
   await prisma.service.deleteMany();
   await prisma.serviceCategory.deleteMany();
+  await prisma.resource.deleteMany();
   await prisma.user.deleteMany();
 
   // Create admin user
@@ -23,7 +24,7 @@ async function main() {
     data: {
       email: 'admin@derjiproductions.com',
       passwordHash: hashedPassword,
-      role: 'admin',
+      role: 'owner',
       firstName: 'Admin',
       lastName: 'User',
     },
@@ -309,6 +310,20 @@ async function main() {
     }),
   ]);
 
+  // Create bookable resources
+  console.log('🎛️ Creating resources...');
+  const resources = await Promise.all([
+    prisma.resource.create({
+      data: { name: 'Photo Studio', type: 'room', description: 'Main photography studio with lighting rig', capacity: 1 },
+    }),
+    prisma.resource.create({
+      data: { name: 'Sound Booth', type: 'room', description: 'Treated recording booth', capacity: 1 },
+    }),
+    prisma.resource.create({
+      data: { name: 'Camera Crew', type: 'crew', description: 'On-location camera operators', capacity: 2 },
+    }),
+  ]);
+
   // Create portfolio items
   console.log('🎨 Creating portfolio items...');
   const portfolioItems = await Promise.all([
@@ -538,6 +553,7 @@ async function main() {
 - 1 admin user
 - 3 service categories
 - ${photographyServices.length + videographyServices.length + soundServices.length} services
+- ${resources.length} resources
 - ${portfolioItems.length} portfolio items
 - 5 portfolio media files
 - 3 sample bookings
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import { ApiKey, PrismaClient } from '@prisma/client';
+import logger, { logSecurityEvent } from '../config/logger';
+import { ApiKeyScope } from '../config/apiKeyScopes';
+import { createError } from '../middleware/errorHandler';
+import { ApiKeyPrincipal, User } from '../types/auth';
+
+const prisma = new PrismaClient();
+
+const KEY_PREFIX = 'dpk_';
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date | null | undefined;
+}
+
+// An API key as listed in the admin area; the key itself is never shown again
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  createdAt: Date;
+  createdBy: { id: string; email: string; firstName: string | null; lastName: string | null };
+}
+
+/**
+ * Keys for integrations such as the website builder or automation tools. Requests
+ * made with a key act as the user who created it, and only reach routes whose
+ * permission falls within the key's scopes (see requireRole).
+ */
+export class ApiKeyService {
+  // lastUsedAt is only written this often, not on every request
+  private readonly TOUCH_INTERVAL_MS = 60 * 1000;
+
+  // A new key, the hash stored for it and the prefix shown in the list
+  createKey(): { key: string; keyHash: string; prefix: string } {
+    const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    return { key, keyHash: this.hashKey(key), prefix: key.slice(0, KEY_PREFIX.length + 6) };
+  }
+
+  hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  // Whether a bearer token looks like an API key rather than an access token
+  isApiKey(token: string): boolean {
+    return token.startsWith(KEY_PREFIX);
+  }
+
+  // Keys that haven't been revoked, newest first, including expired ones
+  async list(): Promise<ApiKeySummary[]> {
+    const keys = await prisma.apiKey.findMany({
+      where: { revokedAt: null },
+      include: { createdBy: { select: { id: true, email: true, firstName: true, lastName: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return keys.map(key => this.toSummary(key));
+  }
+
+  // Returns the key itself alongside its summary; this is the only time it is available
+  async create(input: ApiKeyInput, actor: User): Promise<{ apiKey: ApiKeySummary; key: string }> {
+    if (input.expiresAt && input.expiresAt <= new Date()) {
+      throw createError('Expiry must be in the future', 400, 'INVALID_EXPIRY');
+    }
+
+    const { key, keyHash, prefix } = this.createKey();
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        name: input.name,
+        prefix,
+        keyHash,
+        scopes: [...new Set(input.scopes)],
+        expiresAt: input.expiresAt ?? null,
+        createdById: actor.id,
+      },
+      include: { createdBy: { select: { id: true, email: true, firstName: true, lastName: true } } },
+    });
+
+    logSecurityEvent('api_key_created', 'medium', {
+      apiKeyId: apiKey.id,
+      scopes: apiKey.scopes,
+      createdBy: actor.id,
+    });
+
+    return { apiKey: this.toSummary(apiKey), key };
+  }
+
+  async revoke(id: string, actor: User): Promise<void> {
+    const { count } = await prisma.apiKey.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw createError('API key not found', 404, 'API_KEY_NOT_FOUND');
+    }
+
+    logSecurityEvent('api_key_revoked', 'medium', { apiKeyId: id, revokedBy: actor.id });
+  }
+
+  /**
+   * The key and the user it acts as, if it is current, noting that it was just used.
+   * Returns null for unknown, revoked or expired keys.
+   */
+  async authenticate(key: string, ipAddress?: string): Promise<{ apiKey: ApiKeyPrincipal; userId: string } | null> {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: this.hashKey(key) },
+    });
+
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+      logSecurityEvent('unauthorized_api_key', 'medium', { apiKeyId: apiKey?.id, ip: ipAddress });
+      return null;
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > this.TOUCH_INTERVAL_MS) {
+      try {
+        await prisma.apiKey.update({
+          where: { id: apiKey.id },
+          data: { lastUsedAt: new Date(), lastUsedIp: ipAddress || null },
+        });
+      } catch (error) {
+        logger.warn('Failed to record API key use', {
+          apiKeyId: apiKey.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          service: 'ApiKeyService',
+        });
+      }
+    }
+
+    return {
+      apiKey: { id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes as string[] },
+      userId: apiKey.createdById,
+    };
+  }
+
+  private toSummary(apiKey: ApiKey & { createdBy: ApiKeySummary['createdBy'] }): ApiKeySummary {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes as string[],
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      lastUsedIp: apiKey.lastUsedIp,
+      createdAt: apiKey.createdAt,
+      createdBy: apiKey.createdBy,
+    };
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -49,7 +49,7 @@ describe('AuthService - Basic Tests', () => {
         updatedAt: new Date(),
       };
 
-      const token = authService.generateAccessToken(user);
+      const token = authService.generateAccessToken(user, 'session-123');
       expect(token).toBeDefined();
       expect(typeof token).toBe('string');
       expect(token.split('.')).toHaveLength(3); // JWT has 3 parts
@@ -68,12 +68,13 @@ describe('AuthService - Basic Tests', () => {
         updatedAt: new Date(),
       };
 
-      const token = authService.generateAccessToken(user);
+      const token = authService.generateAccessToken(user, 'session-123');
       const decoded = authService.verifyAccessToken(token);
 
       expect(decoded.userId).toBe(user.id);
       expect(decoded.email).toBe(user.email);
       expect(decoded.role).toBe(user.role);
+      expect(decoded.sessionId).toBe('session-123');
       expect(decoded.type).toBe('access');
     });
 
@@ -86,101 +87,21 @@ describe('AuthService - Basic Tests', () => {
     });
   });
 
-  describe('generateRefreshToken', () => {
-    it('should generate valid refresh token', () => {
-      const user = {
-        id: 'user-123',
-        email: 'test@example.com',
-        role: 'admin',
-        firstName: 'John',
-        lastName: 'Doe',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+  describe('createResetToken', () => {
+    it('should create a random token and the hash to store for it', () => {
+      const first = authService.createResetToken();
+      const second = authService.createResetToken();
 
-      const token = authService.generateRefreshToken(user);
-      expect(token).toBeDefined();
-      expect(typeof token).toBe('string');
-      expect(token.split('.')).toHaveLength(3); // JWT has 3 parts
+      expect(first.token).toMatch(/^[a-f0-9]{64}$/);
+      expect(first.token).not.toBe(second.token);
+      expect(first.tokenHash).not.toBe(first.token);
+      expect(authService.hashResetToken(first.token)).toBe(first.tokenHash);
     });
   });
 
-  describe('verifyRefreshToken', () => {
-    it('should verify valid refresh token', () => {
-      const user = {
-        id: 'user-123',
-        email: 'test@example.com',
-        role: 'admin',
-        firstName: 'John',
-        lastName: 'Doe',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      const token = authService.generateRefreshToken(user);
-      const decoded = authService.verifyRefreshToken(token);
-
-      expect(decoded.userId).toBe(user.id);
-      expect(decoded.email).toBe(user.email);
-      expect(decoded.role).toBe(user.role);
-      expect(decoded.type).toBe('refresh');
-    });
-
-    it('should throw error for invalid refresh token', () => {
-      const invalidToken = 'invalid.token.here';
-      
-      expect(() => {
-        authService.verifyRefreshToken(invalidToken);
-      }).toThrow('Invalid refresh token');
-    });
-  });
-
-  describe('generateResetToken', () => {
-    it('should generate valid reset token', () => {
-      const user = {
-        id: 'user-123',
-        email: 'test@example.com',
-        role: 'admin',
-        firstName: 'John',
-        lastName: 'Doe',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      const token = authService.generateResetToken(user);
-      expect(token).toBeDefined();
-      expect(typeof token).toBe('string');
-      expect(token.split('.')).toHaveLength(3); // JWT has 3 parts
-    });
-  });
-
-  describe('verifyResetToken', () => {
-    it('should verify valid reset token', () => {
-      const user = {
-        id: 'user-123',
-        email: 'test@example.com',
-        role: 'admin',
-        firstName: 'John',
-        lastName: 'Doe',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      const token = authService.generateResetToken(user);
-      const decoded = authService.verifyResetToken(token);
-
-      expect(decoded.userId).toBe(user.id);
-      expect(decoded.email).toBe(user.email);
-      expect(decoded.role).toBe(user.role);
-      expect(decoded.type).toBe('reset');
-    });
-
-    it('should throw error for invalid reset token', () => {
-      const invalidToken = 'invalid.token.here';
-      
-      expect(() => {
-        authService.verifyResetToken(invalidToken);
-      }).toThrow('Invalid reset token');
+  describe('getResetUrl', () => {
+    it('should link to the reset password page with the token', () => {
+      expect(authService.getResetUrl('abc123')).toMatch(/\/admin\/reset-password\?token=abc123$/);
     });
   });
-});
\ No newline at end of file
+});
@@ -1,17 +1,31 @@
+import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
-import { PrismaClient } from '@prisma/client';
-import { AuthResult, User, JWTPayload } from '../types/auth';
+import { PrismaClient, User as PrismaUser } from '@prisma/client';
+import logger, { logAuthEvent } from '../config/logger';
+import { createError } from '../middleware/errorHandler';
+import {
+  AuthResult,
+  User,
+  JWTPayload,
+  LoginResult,
+  TwoFactorChallenge,
+  TwoFactorChallengePayload,
+} from '../types/auth';
+import { emailService } from './emailService';
+import { loginProtectionService } from './loginProtectionService';
+import { IssuedSession, SessionClient, sessionService } from './sessionService';
+import { TwoFactorSetup, twoFactorService } from './twoFactorService';
+import { userService } from './userService';
 
 const prisma = new PrismaClient();
 
 export class AuthService {
   private readonly JWT_SECRET = process.env['JWT_SECRET'] || 'your-secret-key';
-  private readonly JWT_REFRESH_SECRET = process.env['JWT_REFRESH_SECRET'] || 'your-refresh-secret-key';
-  private readonly JWT_RESET_SECRET = process.env['JWT_RESET_SECRET'] || 'your-reset-secret-key';
   private readonly ACCESS_TOKEN_EXPIRES_IN = '15m';
-  private readonly REFRESH_TOKEN_EXPIRES_IN = '7d';
-  private readonly RESET_TOKEN_EXPIRES_IN = '1h';
+  private readonly CHALLENGE_TOKEN_EXPIRES_IN_SECONDS = 5 * 60;
+  private readonly RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+  private readonly FRONTEND_URL = process.env['FRONTEND_URL'] || 'http://localhost:3000';
 
   async hashPassword(password: string): Promise<string> {
     const saltRounds = 12;
@@ -22,11 +36,12 @@ export class AuthService {
     return bcrypt.compare(password, hashedPassword);
   }
 
-  generateAccessToken(user: User): string {
+  generateAccessToken(user: User, sessionId: string): string {
     const payload: JWTPayload = {
       userId: user.id,
       email: user.email,
       role: user.role,
+      sessionId,
       type: 'access'
     };
 
@@ -37,34 +52,21 @@ export class AuthService {
     });
   }
 
-  generateRefreshToken(user: User): string {
-    const payload: JWTPayload = {
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-      type: 'refresh'
-    };
-
-    return jwt.sign(payload, this.JWT_REFRESH_SECRET, {
-      expiresIn: this.REFRESH_TOKEN_EXPIRES_IN,
-      issuer: 'derji-productions',
-      audience: 'derji-productions-client'
-    });
+  /**
+   * A new reset token and the hash stored for it. The token only ever appears in the
+   * emailed link.
+   */
+  createResetToken(): { token: string; tokenHash: string } {
+    const token = crypto.randomBytes(32).toString('hex');
+    return { token, tokenHash: this.hashResetToken(token) };
   }
 
-  generateResetToken(user: User): string {
-    const payload: JWTPayload = {
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-      type: 'reset'
-    };
+  hashResetToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
 
-    return jwt.sign(payload, this.JWT_RESET_SECRET, {
-      expiresIn: this.RESET_TOKEN_EXPIRES_IN,
-      issuer: 'derji-productions',
-      audience: 'derji-productions-client'
-    });
+  getResetUrl(token: string): string {
+    return `${this.FRONTEND_URL}/admin/reset-password?token=${token}`;
   }
 
   verifyAccessToken(token: string): JWTPayload {
@@ -84,48 +86,48 @@ export class AuthService {
     }
   }
 
-  verifyRefreshToken(token: string): JWTPayload {
-    try {
-      const decoded = jwt.verify(token, this.JWT_REFRESH_SECRET, {
-        issuer: 'derji-productions',
-        audience: 'derji-productions-client'
-      }) as JWTPayload;
-
-      if (decoded.type !== 'refresh') {
-        throw new Error('Invalid token type');
-      }
+  // Let a login that passed the password check go on to its second factor
+  createChallengeToken(userId: string, purpose: TwoFactorChallenge['twoFactor']): string {
+    const payload: TwoFactorChallengePayload = { userId, purpose, type: 'two_factor_challenge' };
 
-      return decoded;
-    } catch (error) {
-      throw new Error('Invalid refresh token');
-    }
+    return jwt.sign(payload, this.JWT_SECRET, {
+      expiresIn: this.CHALLENGE_TOKEN_EXPIRES_IN_SECONDS,
+      issuer: 'derji-productions',
+      audience: 'derji-productions-two-factor'
+    });
   }
 
-  verifyResetToken(token: string): JWTPayload {
+  // The user a challenge token was issued to, if it's for this step and hasn't expired
+  verifyChallengeToken(token: string, purpose: TwoFactorChallenge['twoFactor']): string {
     try {
-      const decoded = jwt.verify(token, this.JWT_RESET_SECRET, {
+      const decoded = jwt.verify(token, this.JWT_SECRET, {
         issuer: 'derji-productions',
-        audience: 'derji-productions-client'
-      }) as JWTPayload;
+        audience: 'derji-productions-two-factor'
+      }) as TwoFactorChallengePayload;
 
-      if (decoded.type !== 'reset') {
-        throw new Error('Invalid token type');
+      if (decoded.type === 'two_factor_challenge' && decoded.purpose === purpose) {
+        return decoded.userId;
       }
-
-      return decoded;
     } catch (error) {
-      throw new Error('Invalid reset token');
+      // Expired or tampered with; fall through
     }
-  }
 
-  async register(email: string, password: string, firstName?: string, lastName?: string): Promise<AuthResult> {
-    // Check if user already exists
-    const existingUser = await prisma.user.findUnique({
-      where: { email }
-    });
+    throw createError('Your sign-in has expired. Please sign in again.', 401, 'INVALID_CHALLENGE');
+  }
 
-    if (existingUser) {
-      throw new Error('User already exists with this email');
+  /**
+   * Create the first account, as its owner. Registration closes once anyone has an
+   * account; everyone after that joins through an invitation.
+   */
+  async register(
+    email: string,
+    password: string,
+    firstName?: string,
+    lastName?: string,
+    client: SessionClient = {}
+  ): Promise<AuthResult> {
+    if (await prisma.user.count() > 0) {
+      throw new Error('Registration is closed');
     }
 
     // Hash password
@@ -138,7 +140,7 @@ export class AuthService {
         passwordHash,
         firstName: firstName || null,
         lastName: lastName || null,
-        role: 'admin' // Default role
+        role: 'owner'
       }
     });
 
@@ -152,70 +154,153 @@ export class AuthService {
       updatedAt: dbUser.updatedAt
     };
 
-    // Generate tokens
-    const accessToken = this.generateAccessToken(user);
-    const refreshToken = this.generateRefreshToken(user);
+    return this.startSession(user, client);
+  }
 
-    return {
-      user,
-      accessToken,
-      refreshToken,
-      expiresIn: 15 * 60 // 15 minutes in seconds
-    };
+  // Join through an invitation link, signing straight in
+  async acceptInvitation(
+    token: string,
+    password: string,
+    firstName?: string,
+    lastName?: string,
+    client: SessionClient = {}
+  ): Promise<AuthResult> {
+    const passwordHash = await this.hashPassword(password);
+    const user = await userService.acceptInvitation(token, { passwordHash, firstName, lastName });
+
+    return this.startSession(user, client);
   }
 
-  async login(email: string, password: string): Promise<AuthResult> {
+  /**
+   * Check the password, then either sign in or, for users with two-factor
+   * authentication (or when the studio requires it), hand back a challenge to finish
+   * with `completeTwoFactorLogin` or `enableTwoFactorAtLogin`. Locked accounts are
+   * refused before the password is checked (see LoginProtectionService).
+   */
+  async login(email: string, password: string, client: SessionClient = {}): Promise<LoginResult> {
     // Find user
     const dbUser = await prisma.user.findUnique({
       where: { email }
     });
 
     if (!dbUser) {
+      logAuthEvent('login_failed', undefined, false, { reason: 'unknown_email', ip: client.ipAddress });
       throw new Error('Invalid email or password');
     }
 
+    loginProtectionService.assertNotLocked(dbUser, client);
+
     // Verify password
     const isValidPassword = await this.comparePassword(password, dbUser.passwordHash);
     if (!isValidPassword) {
+      await loginProtectionService.recordFailure(dbUser, client);
       throw new Error('Invalid email or password');
     }
 
-    const user: User = {
-      id: dbUser.id,
-      email: dbUser.email,
-      role: dbUser.role,
-      firstName: dbUser.firstName,
-      lastName: dbUser.lastName,
-      createdAt: dbUser.createdAt,
-      updatedAt: dbUser.updatedAt
-    };
+    if (dbUser.twoFactorEnabledAt) {
+      return this.createChallenge(dbUser.id, 'verify');
+    }
+    if (await twoFactorService.isRequired()) {
+      return this.createChallenge(dbUser.id, 'setup');
+    }
+
+    return this.completeLogin(dbUser, client);
+  }
+
+  // Second step of login: a code from the authenticator app or a recovery code
+  async completeTwoFactorLogin(challengeToken: string, code: string, client: SessionClient = {}): Promise<AuthResult> {
+    const dbUser = await this.getChallengedDbUser(this.verifyChallengeToken(challengeToken, 'verify'));
 
-    // Generate tokens
-    const accessToken = this.generateAccessToken(user);
-    const refreshToken = this.generateRefreshToken(user);
+    // A lockout from guessing codes also ends challenges that were already handed out
+    loginProtectionService.assertNotLocked(dbUser, client);
+
+    if (!(await twoFactorService.verify(dbUser.id, code))) {
+      await loginProtectionService.recordFailure(dbUser, client, 'invalid_two_factor_code');
+      throw createError('Invalid authentication code', 401, 'INVALID_TWO_FACTOR_CODE');
+    }
 
+    return this.completeLogin(dbUser, client);
+  }
+
+  // Enrolment for users who must set up two-factor authentication before signing in
+  async beginTwoFactorSetupAtLogin(challengeToken: string): Promise<TwoFactorSetup> {
+    const userId = this.verifyChallengeToken(challengeToken, 'setup');
+    return twoFactorService.beginSetup(await this.getChallengedUser(userId));
+  }
+
+  async enableTwoFactorAtLogin(
+    challengeToken: string,
+    code: string,
+    client: SessionClient = {}
+  ): Promise<AuthResult & { recoveryCodes: string[] }> {
+    const dbUser = await this.getChallengedDbUser(this.verifyChallengeToken(challengeToken, 'setup'));
+    const recoveryCodes = await twoFactorService.enable(dbUser.id, code);
+    const result = await this.completeLogin(dbUser, client);
+
+    return { ...result, recoveryCodes };
+  }
+
+  // Turning two-factor off takes the password and a current code
+  async disableTwoFactor(userId: string, password: string, code: string): Promise<void> {
+    if (await twoFactorService.isRequired()) {
+      throw createError('Two-factor authentication is required for everyone', 403, 'TWO_FACTOR_REQUIRED');
+    }
+
+    const dbUser = await prisma.user.findUnique({ where: { id: userId } });
+    if (!dbUser || !(await this.comparePassword(password, dbUser.passwordHash))) {
+      throw createError('Incorrect password', 401, 'INVALID_PASSWORD');
+    }
+    if (!(await twoFactorService.verify(userId, code))) {
+      throw createError('Invalid authentication code', 401, 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    await twoFactorService.disable(userId);
+  }
+
+  /**
+   * Rotate a session's refresh token and issue a new access token for it. A refresh
+   * token that was already used revokes its session (see SessionService.rotate).
+   */
+  async refreshToken(refreshToken: string, client: SessionClient = {}): Promise<AuthResult> {
+    const session = await sessionService.rotate(refreshToken, client);
+
+    const user = await this.getUserById(session.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return this.issueTokens(user, session);
+  }
+
+  private createChallenge(userId: string, twoFactor: TwoFactorChallenge['twoFactor']): TwoFactorChallenge {
     return {
-      user,
-      accessToken,
-      refreshToken,
-      expiresIn: 15 * 60 // 15 minutes in seconds
+      twoFactor,
+      challengeToken: this.createChallengeToken(userId, twoFactor),
+      expiresIn: this.CHALLENGE_TOKEN_EXPIRES_IN_SECONDS
     };
   }
 
-  async refreshToken(refreshToken: string): Promise<AuthResult> {
-    // Verify refresh token
-    const decoded = this.verifyRefreshToken(refreshToken);
-
-    // Get user from database
-    const dbUser = await prisma.user.findUnique({
-      where: { id: decoded.userId }
-    });
+  private async getChallengedUser(userId: string): Promise<User> {
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw createError('Your sign-in has expired. Please sign in again.', 401, 'INVALID_CHALLENGE');
+    }
+    return user;
+  }
 
+  private async getChallengedDbUser(userId: string) {
+    const dbUser = await prisma.user.findUnique({ where: { id: userId } });
     if (!dbUser) {
-      throw new Error('User not found');
+      throw createError('Your sign-in has expired. Please sign in again.', 401, 'INVALID_CHALLENGE');
     }
+    return dbUser;
+  }
 
-    const user: User = {
+  // Every factor checked: clear the failure count, alert on a new device, then sign in
+  private async completeLogin(dbUser: PrismaUser, client: SessionClient): Promise<AuthResult> {
+    await loginProtectionService.recordSuccess(dbUser, client);
+
+    return this.startSession({
       id: dbUser.id,
       email: dbUser.email,
       role: dbUser.role,
@@ -223,59 +308,119 @@ export class AuthService {
       lastName: dbUser.lastName,
       createdAt: dbUser.createdAt,
       updatedAt: dbUser.updatedAt
-    };
+    }, client);
+  }
 
-    // Generate new tokens
-    const newAccessToken = this.generateAccessToken(user);
-    const newRefreshToken = this.generateRefreshToken(user);
+  private async startSession(user: User, client: SessionClient): Promise<AuthResult> {
+    const session = await sessionService.create(user.id, client);
+    return this.issueTokens(user, session);
+  }
 
+  private issueTokens(user: User, session: IssuedSession): AuthResult {
     return {
       user,
-      accessToken: newAccessToken,
-      refreshToken: newRefreshToken,
+      accessToken: this.generateAccessToken(user, session.sessionId),
+      refreshToken: session.refreshToken,
+      refreshTokenExpiresAt: session.expiresAt,
+      csrfToken: sessionService.getCsrfToken(session.sessionId),
       expiresIn: 15 * 60 // 15 minutes in seconds
     };
   }
 
-  async forgotPassword(email: string): Promise<string> {
-    // Find user
+  /**
+   * Email a single-use reset link if the email belongs to an account. Unknown emails
+   * are ignored without telling the caller, so the endpoint doesn't reveal who has
+   * an account. Requesting a new link cancels any earlier one.
+   */
+  async forgotPassword(email: string): Promise<void> {
     const dbUser = await prisma.user.findUnique({
       where: { email }
     });
 
     if (!dbUser) {
-      // Don't reveal if user exists or not for security
-      throw new Error('If a user with this email exists, a password reset link has been sent');
+      logger.info('Password reset requested for unknown email', { service: 'AuthService' });
+      return;
     }
 
-    const user: User = {
-      id: dbUser.id,
-      email: dbUser.email,
-      role: dbUser.role,
-      firstName: dbUser.firstName,
-      lastName: dbUser.lastName,
-      createdAt: dbUser.createdAt,
-      updatedAt: dbUser.updatedAt
-    };
+    const { token, tokenHash } = this.createResetToken();
+    const expiresAt = new Date(Date.now() + this.RESET_TOKEN_TTL_MS);
+
+    await prisma.$transaction([
+      prisma.passwordResetToken.deleteMany({ where: { userId: dbUser.id, usedAt: null } }),
+      prisma.passwordResetToken.create({ data: { userId: dbUser.id, tokenHash, expiresAt } }),
+    ]);
 
-    // Generate reset token
-    const resetToken = this.generateResetToken(user);
+    await emailService.sendPasswordReset({
+      user: dbUser,
+      resetUrl: this.getResetUrl(token),
+      expiresAt,
+    });
 
-    return resetToken;
+    logger.info('Password reset link sent', { userId: dbUser.id, service: 'AuthService' });
   }
 
   async resetPassword(token: string, newPassword: string): Promise<void> {
-    // Verify reset token
-    const decoded = this.verifyResetToken(token);
+    const resetToken = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: this.hashResetToken(token) },
+      include: { user: true }
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+      throw new Error('Invalid reset token');
+    }
 
     // Hash new password
     const passwordHash = await this.hashPassword(newPassword);
 
-    // Update user password
-    await prisma.user.update({
-      where: { id: decoded.userId },
-      data: { passwordHash }
+    // Claim the token and change the password together, so a link works once even
+    // when submitted twice at the same moment
+    const claimed = await prisma.$transaction(async tx => {
+      const { count } = await tx.passwordResetToken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: new Date() }
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.user.update({
+        where: { id: resetToken.userId },
+        data: { passwordHash }
+      });
+      await tx.passwordResetToken.deleteMany({
+        where: { userId: resetToken.userId, usedAt: null }
+      });
+
+      return true;
     });
+
+    if (!claimed) {
+      throw new Error('Invalid reset token');
+    }
+
+    logger.info('Password reset', { userId: resetToken.userId, service: 'AuthService' });
+
+    // Proving access to the mailbox is enough to lift a lockout
+    if (resetToken.user.lockedUntil) {
+      await loginProtectionService.unlock(resetToken.userId);
+    }
+
+    // Whoever knew the old password may still be signed in
+    await sessionService.revokeAll(resetToken.userId, 'password_reset');
+
+    try {
+      await emailService.sendPasswordChanged({
+        user: resetToken.user,
+        loginUrl: `${this.FRONTEND_URL}/admin/login`,
+      });
+    } catch (error) {
+      logger.error('Failed to send password changed email', {
+        userId: resetToken.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        service: 'AuthService',
+      });
+    }
   }
 
   async getUserById(userId: string): Promise<User | null> {
@@ -0,0 +1,68 @@
+import { BookingAccessService } from './bookingAccessService';
+
+describe('BookingAccessService - Manage Links', () => {
+  let bookingAccessService: BookingAccessService;
+
+  const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+  beforeEach(() => {
+    bookingAccessService = new BookingAccessService();
+  });
+
+  describe('manage tokens', () => {
+    it('should round-trip the booking ID', () => {
+      const token = bookingAccessService.generateManageToken({ id: 'booking-1', endTime: inDays(7) });
+
+      expect(bookingAccessService.verifyManageToken(token)).toBe('booking-1');
+    });
+
+    it('should reject tampered tokens', () => {
+      const token = bookingAccessService.generateManageToken({ id: 'booking-1', endTime: inDays(7) });
+
+      expect(() => bookingAccessService.verifyManageToken(`${token}x`)).toThrow('Invalid booking token');
+    });
+
+    it('should reject tokens of another type', () => {
+      expect(() => bookingAccessService.verifyManageToken('not-a-token')).toThrow('Invalid booking token');
+    });
+
+    it('should build a link to the manage page', () => {
+      expect(bookingAccessService.getManageUrl('abc')).toMatch(/\/bookings\/manage\/abc$/);
+    });
+  });
+
+  describe('waitlist tokens', () => {
+    it('should round-trip the entry ID', () => {
+      const token = bookingAccessService.generateWaitlistToken({ id: 'entry-1', holdExpiresAt: inDays(1) });
+
+      expect(bookingAccessService.verifyWaitlistToken(token)).toBe('entry-1');
+    });
+
+    it('should not accept manage tokens as waitlist tokens or the other way round', () => {
+      const manageToken = bookingAccessService.generateManageToken({ id: 'booking-1', endTime: inDays(7) });
+      const waitlistToken = bookingAccessService.generateWaitlistToken({ id: 'entry-1', holdExpiresAt: inDays(1) });
+
+      expect(() => bookingAccessService.verifyWaitlistToken(manageToken)).toThrow('Invalid waitlist token');
+      expect(() => bookingAccessService.verifyManageToken(waitlistToken)).toThrow('Invalid booking token');
+    });
+  });
+
+  describe('canClientChange', () => {
+    it('should allow changes before the cancellation window', () => {
+      const booking = { startTime: inDays(3), status: 'confirmed' };
+
+      expect(bookingAccessService.canClientChange(booking, 48)).toBe(true);
+    });
+
+    it('should refuse changes inside the cancellation window', () => {
+      const booking = { startTime: inDays(1), status: 'confirmed' };
+
+      expect(bookingAccessService.canClientChange(booking, 48)).toBe(false);
+    });
+
+    it('should refuse changes to cancelled or completed bookings', () => {
+      expect(bookingAccessService.canClientChange({ startTime: inDays(5), status: 'cancelled' }, 48)).toBe(false);
+      expect(bookingAccessService.canClientChange({ startTime: inDays(5), status: 'completed' }, 48)).toBe(false);
+    });
+  });
+});
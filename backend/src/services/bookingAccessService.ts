@@ -0,0 +1,121 @@
+import jwt from 'jsonwebtoken';
+
+interface BookingAccessPayload {
+  bookingId: string;
+  type: 'booking';
+}
+
+interface WaitlistOfferPayload {
+  entryId: string;
+  type: 'waitlist';
+}
+
+export class BookingAccessService {
+  private readonly JWT_BOOKING_SECRET = process.env['JWT_BOOKING_SECRET'] || 'your-booking-secret-key';
+  private readonly FRONTEND_URL = process.env['FRONTEND_URL'] || 'http://localhost:3000';
+  // Links keep working for a while after the session so clients can look back at it
+  private readonly LINK_VALID_AFTER_SESSION_DAYS = 30;
+
+  /**
+   * Sign a token that lets the holder manage a single booking
+   */
+  generateManageToken(booking: { id: string; endTime: Date }): string {
+    const payload: BookingAccessPayload = {
+      bookingId: booking.id,
+      type: 'booking',
+    };
+
+    const expiresAt = booking.endTime.getTime() + this.LINK_VALID_AFTER_SESSION_DAYS * 24 * 60 * 60 * 1000;
+    const expiresIn = Math.max(Math.floor((expiresAt - Date.now()) / 1000), 60);
+
+    return jwt.sign(payload, this.JWT_BOOKING_SECRET, {
+      expiresIn,
+      issuer: 'derji-productions',
+      audience: 'derji-productions-client'
+    });
+  }
+
+  /**
+   * Resolve a manage token to the booking it was issued for
+   */
+  verifyManageToken(token: string): string {
+    try {
+      const decoded = jwt.verify(token, this.JWT_BOOKING_SECRET, {
+        issuer: 'derji-productions',
+        audience: 'derji-productions-client'
+      }) as BookingAccessPayload;
+
+      if (decoded.type !== 'booking' || !decoded.bookingId) {
+        throw new Error('Invalid token type');
+      }
+
+      return decoded.bookingId;
+    } catch (error) {
+      throw new Error('Invalid booking token');
+    }
+  }
+
+  getManageUrl(token: string): string {
+    return `${this.FRONTEND_URL}/bookings/manage/${token}`;
+  }
+
+  /**
+   * Sign a token that lets a waitlisted client claim the slot held for them. The
+   * token stops working when the hold expires.
+   */
+  generateWaitlistToken(entry: { id: string; holdExpiresAt: Date }): string {
+    const payload: WaitlistOfferPayload = {
+      entryId: entry.id,
+      type: 'waitlist',
+    };
+
+    const expiresIn = Math.max(Math.floor((entry.holdExpiresAt.getTime() - Date.now()) / 1000), 60);
+
+    return jwt.sign(payload, this.JWT_BOOKING_SECRET, {
+      expiresIn,
+      issuer: 'derji-productions',
+      audience: 'derji-productions-client'
+    });
+  }
+
+  /**
+   * Resolve a waitlist token to the entry it was issued for
+   */
+  verifyWaitlistToken(token: string): string {
+    try {
+      const decoded = jwt.verify(token, this.JWT_BOOKING_SECRET, {
+        issuer: 'derji-productions',
+        audience: 'derji-productions-client'
+      }) as WaitlistOfferPayload;
+
+      if (decoded.type !== 'waitlist' || !decoded.entryId) {
+        throw new Error('Invalid token type');
+      }
+
+      return decoded.entryId;
+    } catch (error) {
+      throw new Error('Invalid waitlist token');
+    }
+  }
+
+  getWaitlistOfferUrl(token: string): string {
+    return `${this.FRONTEND_URL}/bookings/waitlist/${token}`;
+  }
+
+  /**
+   * Latest moment the client may still change or cancel a booking themselves
+   */
+  getChangeDeadline(startTime: Date, cancellationWindowHours: number): Date {
+    return new Date(startTime.getTime() - cancellationWindowHours * 60 * 60 * 1000);
+  }
+
+  canClientChange(booking: { startTime: Date; status: string }, cancellationWindowHours: number, now: Date = new Date()): boolean {
+    if (!['pending', 'confirmed'].includes(booking.status)) {
+      return false;
+    }
+
+    return now <= this.getChangeDeadline(booking.startTime, cancellationWindowHours);
+  }
+}
+
+export const bookingAccessService = new BookingAccessService();
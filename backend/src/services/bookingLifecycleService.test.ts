@@ -0,0 +1,184 @@
+import { PrismaClient } from '@prisma/client';
+import { BookingLifecycleService, BOOKING_TRANSITIONS } from './bookingLifecycleService';
+import { webhookService } from './webhookService';
+
+jest.mock('../config/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn(), warn: jest.fn() },
+}));
+
+jest.mock('@prisma/client', () => jest.requireActual('../test/prismaMock').mockPrismaModule());
+
+describe('BookingLifecycleService - Transitions', () => {
+  let bookingLifecycleService: BookingLifecycleService;
+
+  beforeEach(() => {
+    bookingLifecycleService = new BookingLifecycleService();
+  });
+
+  describe('canTransition', () => {
+    it('should let pending bookings be confirmed or cancelled', () => {
+      expect(bookingLifecycleService.canTransition('pending', 'confirmed')).toBe(true);
+      expect(bookingLifecycleService.canTransition('pending', 'cancelled')).toBe(true);
+      expect(bookingLifecycleService.canTransition('pending', 'completed')).toBe(false);
+    });
+
+    it('should let confirmed bookings be completed or cancelled', () => {
+      expect(bookingLifecycleService.canTransition('confirmed', 'completed')).toBe(true);
+      expect(bookingLifecycleService.canTransition('confirmed', 'cancelled')).toBe(true);
+      expect(bookingLifecycleService.canTransition('confirmed', 'pending')).toBe(false);
+    });
+
+    it('should treat cancelled and completed bookings as final', () => {
+      for (const status of Object.keys(BOOKING_TRANSITIONS)) {
+        expect(bookingLifecycleService.canTransition('cancelled', status)).toBe(false);
+        expect(bookingLifecycleService.canTransition('completed', status)).toBe(false);
+      }
+    });
+
+    it('should keep quarantined and spam bookings out of normal status changes', () => {
+      expect(bookingLifecycleService.canTransition('quarantined', 'confirmed')).toBe(false);
+      expect(bookingLifecycleService.canTransition('quarantined', 'pending')).toBe(false);
+      expect(bookingLifecycleService.canTransition('spam', 'pending')).toBe(false);
+      expect(bookingLifecycleService.canTransition('pending', 'spam')).toBe(false);
+    });
+
+    it('should not allow moving to the same status', () => {
+      expect(bookingLifecycleService.canTransition('pending', 'pending')).toBe(false);
+    });
+
+    it('should reject unknown statuses', () => {
+      expect(bookingLifecycleService.getAllowedTransitions('archived')).toEqual([]);
+      expect(bookingLifecycleService.canTransition('archived', 'confirmed')).toBe(false);
+    });
+  });
+
+  describe('assertTransition', () => {
+    it('should throw a 400 for invalid transitions', () => {
+      expect(() => bookingLifecycleService.assertTransition('completed', 'cancelled')).toThrow(
+        expect.objectContaining({
+          status: 400,
+          code: 'Invalid status transition',
+          message: 'Cannot change booking status from completed to cancelled',
+        })
+      );
+    });
+
+    it('should accept valid transitions', () => {
+      expect(() => bookingLifecycleService.assertTransition('pending', 'confirmed')).not.toThrow();
+    });
+  });
+
+  describe('actors', () => {
+    it('should record admins by ID and email', () => {
+      expect(bookingLifecycleService.adminActor({ id: 'user-1', email: 'admin@example.com' })).toEqual({
+        type: 'admin',
+        id: 'user-1',
+        name: 'admin@example.com',
+      });
+      expect(bookingLifecycleService.adminActor()).toEqual({ type: 'admin' });
+    });
+
+    it('should record clients by name', () => {
+      expect(bookingLifecycleService.clientActor({ clientName: 'Ama Mensah' })).toEqual({
+        type: 'client',
+        name: 'Ama Mensah',
+      });
+    });
+  });
+
+  describe('creationEvent', () => {
+    it('should describe how a new booking was made', () => {
+      expect(bookingLifecycleService.creationEvent({ type: 'client', name: 'Ama Mensah' })).toEqual({
+        create: {
+          type: 'created',
+          fromStatus: null,
+          toStatus: 'pending',
+          actorType: 'client',
+          actorId: null,
+          actorName: 'Ama Mensah',
+          reason: null,
+        },
+      });
+    });
+  });
+});
+
+describe('BookingLifecycleService - Webhooks', () => {
+  const prisma = new PrismaClient() as unknown as {
+    booking: { findMany: jest.Mock; findUnique: jest.Mock; findUniqueOrThrow: jest.Mock; updateMany: jest.Mock };
+    bookingEvent: { create: jest.Mock; createMany: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  const admin = { type: 'admin' as const, id: 'user-1', name: 'studio@derjiproductions.com' };
+  let bookingLifecycleService: BookingLifecycleService;
+
+  beforeEach(() => {
+    bookingLifecycleService = new BookingLifecycleService();
+
+    prisma.$transaction.mockImplementation(async (run: (tx: typeof prisma) => unknown) => run(prisma));
+    prisma.booking.updateMany.mockResolvedValue({ count: 1 });
+    prisma.booking.findUniqueOrThrow.mockImplementation(async ({ where }) => ({ id: where.id }));
+    // Bookings as the webhook payload sees them, whatever was asked for
+    prisma.booking.findMany.mockImplementation(async ({ where }) =>
+      where.id.in.map((id: string) => ({ id, status: 'pending' }))
+    );
+    jest.spyOn(webhookService, 'dispatch').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should announce every session of a cancelled series', async () => {
+    await bookingLifecycleService.changeStatusMany(['session-1', 'session-2', 'session-3'], 'cancelled', {
+      actor: admin,
+      reason: 'Series cancelled',
+    });
+
+    expect(webhookService.dispatch).toHaveBeenCalledTimes(3);
+    expect(webhookService.dispatch).toHaveBeenCalledWith('booking.cancelled', expect.objectContaining({ id: 'session-1' }));
+    expect(webhookService.dispatch).toHaveBeenCalledWith('booking.cancelled', expect.objectContaining({ id: 'session-3' }));
+  });
+
+  it('should announce a confirmation', async () => {
+    prisma.booking.findUnique.mockResolvedValue({ status: 'pending' });
+
+    await bookingLifecycleService.changeStatus('booking-1', 'confirmed', { actor: admin });
+
+    expect(webhookService.dispatch).toHaveBeenCalledWith('booking.confirmed', expect.objectContaining({ id: 'booking-1' }));
+  });
+
+  it('should not announce statuses that are not events', async () => {
+    prisma.booking.findUnique.mockResolvedValue({ status: 'confirmed' });
+
+    await bookingLifecycleService.changeStatus('booking-1', 'completed', { actor: admin });
+
+    expect(webhookService.dispatch).not.toHaveBeenCalled();
+  });
+
+  it('should announce a booking released from spam review as new', async () => {
+    prisma.booking.findUnique.mockResolvedValue({ status: 'quarantined' });
+
+    await bookingLifecycleService.changeSpamStatus('booking-1', 'pending', { actor: admin });
+
+    expect(webhookService.dispatch).toHaveBeenCalledWith('booking.created', expect.objectContaining({ id: 'booking-1' }));
+  });
+
+  it('should not announce bookings marked as spam', async () => {
+    prisma.booking.findUnique.mockResolvedValue({ status: 'pending' });
+
+    await bookingLifecycleService.changeSpamStatus('booking-1', 'spam', { actor: admin });
+
+    expect(webhookService.dispatch).not.toHaveBeenCalled();
+  });
+
+  it('should keep the status change when webhooks cannot be queued', async () => {
+    prisma.booking.findUnique.mockResolvedValue({ status: 'pending' });
+    prisma.booking.findMany.mockRejectedValue(new Error('connection lost'));
+
+    await expect(bookingLifecycleService.changeStatus('booking-1', 'cancelled', { actor: admin }))
+      .resolves.toEqual({ id: 'booking-1' });
+  });
+});
@@ -0,0 +1,352 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import logger from '../config/logger';
+import { WebhookEvent } from '../config/webhookEvents';
+import { createError } from '../middleware/errorHandler';
+import { ACTIVE_BOOKING_STATUSES } from './scheduleService';
+import { webhookService } from './webhookService';
+
+const prisma = new PrismaClient();
+
+/**
+ * Statuses a booking may move to from each status. Cancelled and completed
+ * bookings are final. Quarantined and spam bookings only move through spam review.
+ */
+export const BOOKING_TRANSITIONS: Record<string, string[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['completed', 'cancelled'],
+  cancelled: [],
+  completed: [],
+  quarantined: [],
+  spam: [],
+};
+
+// Statuses spam review may move a booking from, to 'spam' or back to 'pending'
+const SPAM_REVIEW_TRANSITIONS: Record<'spam' | 'pending', string[]> = {
+  spam: ['quarantined', 'pending'],
+  pending: ['quarantined', 'spam'],
+};
+
+// Booking statuses other systems hear about when a booking moves into them
+const STATUS_WEBHOOK_EVENTS: Record<string, WebhookEvent> = {
+  confirmed: 'booking.confirmed',
+  cancelled: 'booking.cancelled',
+};
+
+// What webhook subscribers are told about a booking (spam verdicts stay private)
+const WEBHOOK_BOOKING_SELECT = {
+  id: true,
+  seriesId: true,
+  clientId: true,
+  clientName: true,
+  clientEmail: true,
+  clientPhone: true,
+  serviceId: true,
+  bookingDate: true,
+  startTime: true,
+  endTime: true,
+  timeZone: true,
+  status: true,
+  projectDetails: true,
+  budgetRange: true,
+  location: true,
+  notes: true,
+  createdAt: true,
+  updatedAt: true,
+  service: {
+    select: {
+      id: true,
+      name: true,
+      duration: true,
+      category: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  },
+} as const;
+
+export type BookingEventType = 'created' | 'status_changed' | 'rescheduled';
+
+export interface BookingActor {
+  type: 'admin' | 'client' | 'system';
+  id?: string; // admin user ID
+  name?: string; // admin email or client name
+}
+
+export interface StatusChangeOptions {
+  actor: BookingActor;
+  reason?: string;
+  data?: Prisma.BookingUncheckedUpdateManyInput; // other changes saved along with the status
+}
+
+const BOOKING_INCLUDE = {
+  service: {
+    select: {
+      id: true,
+      name: true,
+      category: {
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+        },
+      },
+    },
+  },
+} as const;
+
+export class BookingLifecycleService {
+  getAllowedTransitions(status: string): string[] {
+    return BOOKING_TRANSITIONS[status] || [];
+  }
+
+  canTransition(fromStatus: string, toStatus: string): boolean {
+    return this.getAllowedTransitions(fromStatus).includes(toStatus);
+  }
+
+  assertTransition(fromStatus: string, toStatus: string): void {
+    if (!this.canTransition(fromStatus, toStatus)) {
+      throw createError(
+        `Cannot change booking status from ${fromStatus} to ${toStatus}`,
+        400,
+        'Invalid status transition'
+      );
+    }
+  }
+
+  adminActor(user?: { id: string; email: string }): BookingActor {
+    return user ? { type: 'admin', id: user.id, name: user.email } : { type: 'admin' };
+  }
+
+  clientActor(booking: { clientName: string }): BookingActor {
+    return { type: 'client', name: booking.clientName };
+  }
+
+  /**
+   * Nested write recording how a new booking was made, for use inside booking.create
+   */
+  creationEvent(actor: BookingActor, status: string = 'pending') {
+    return { create: this.eventData('created', null, status, actor) };
+  }
+
+  /**
+   * Move a booking to a new status and record who did it. The update only applies
+   * if the booking still has the status it was checked against.
+   */
+  async changeStatus(bookingId: string, toStatus: string, options: StatusChangeOptions) {
+    const booking = await this.applyChange(bookingId, 'status_changed', toStatus, options, fromStatus => {
+      this.assertTransition(fromStatus, toStatus);
+    });
+
+    await this.notifyStatusChange(toStatus, [bookingId]);
+    return booking;
+  }
+
+  /**
+   * Mark a booking as spam, or release a quarantined or spam booking as pending.
+   * Subscribers never heard of a held booking, so a release announces it as new.
+   */
+  async changeSpamStatus(bookingId: string, toStatus: 'spam' | 'pending', options: StatusChangeOptions) {
+    const booking = await this.applyChange(bookingId, 'status_changed', toStatus, options, fromStatus => {
+      if (!SPAM_REVIEW_TRANSITIONS[toStatus].includes(fromStatus)) {
+        throw createError(
+          `Cannot mark a ${fromStatus} booking as ${toStatus === 'spam' ? 'spam' : 'not spam'}`,
+          400,
+          'Invalid status transition'
+        );
+      }
+    });
+
+    if (toStatus === 'pending') {
+      await this.notifyCreated([bookingId]);
+    }
+    return booking;
+  }
+
+  /**
+   * Move a booking to a new time. Moved bookings go back to pending so the studio
+   * can confirm the new time.
+   */
+  async reschedule(bookingId: string, data: Prisma.BookingUncheckedUpdateManyInput, options: Omit<StatusChangeOptions, 'data'>) {
+    return this.applyChange(bookingId, 'rescheduled', 'pending', { ...options, data }, fromStatus => {
+      if (!ACTIVE_BOOKING_STATUSES.includes(fromStatus)) {
+        throw createError(`Cannot reschedule a ${fromStatus} booking`, 400, 'Invalid status transition');
+      }
+    });
+  }
+
+  /**
+   * Move several bookings to the same status at once; either all of them move or none do
+   */
+  async changeStatusMany(bookingIds: string[], toStatus: string, options: StatusChangeOptions): Promise<number> {
+    const count = await prisma.$transaction(async tx => {
+      const bookings = await tx.booking.findMany({
+        where: { id: { in: bookingIds } },
+        select: { id: true, status: true },
+      });
+
+      const invalidBookings = bookings
+        .filter(booking => !this.canTransition(booking.status, toStatus))
+        .map(booking => ({ id: booking.id, currentStatus: booking.status, targetStatus: toStatus }));
+
+      if (invalidBookings.length > 0) {
+        throw createError(
+          'Some bookings cannot transition to the target status',
+          400,
+          'Invalid status transitions',
+          { invalidBookings }
+        );
+      }
+
+      // Each booking moves from the status it was checked in, so a concurrent change fails the batch
+      for (const booking of bookings) {
+        const { count } = await tx.booking.updateMany({
+          where: { id: booking.id, status: booking.status },
+          data: { ...options.data, status: toStatus, calendarSequence: { increment: 1 } },
+        });
+
+        if (count === 0) {
+          throw this.concurrentChangeError();
+        }
+      }
+
+      await tx.bookingEvent.createMany({
+        data: bookings.map(booking => ({
+          bookingId: booking.id,
+          ...this.eventData('status_changed', booking.status, toStatus, options.actor, options.reason),
+        })),
+      });
+
+      return bookings.length;
+    });
+
+    await this.notifyStatusChange(toStatus, bookingIds);
+    return count;
+  }
+
+  /**
+   * Tell webhook subscribers about bookings just made. Every path that creates a
+   * booking calls this once it is saved, except for bookings held as spam, which are
+   * announced when they are released.
+   */
+  async notifyCreated(bookingIds: string[]): Promise<void> {
+    await this.notifyWebhooks('booking.created', bookingIds);
+  }
+
+  /**
+   * Status history of a booking, oldest first
+   */
+  async getHistory(bookingId: string) {
+    return prisma.bookingEvent.findMany({
+      where: { bookingId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        actor: {
+          select: {
+            id: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    });
+  }
+
+  // Only some statuses are events; completing a booking, for one, isn't
+  private async notifyStatusChange(status: string, bookingIds: string[]): Promise<void> {
+    const event = STATUS_WEBHOOK_EVENTS[status];
+    if (event) {
+      await this.notifyWebhooks(event, bookingIds);
+    }
+  }
+
+  // Never throws: the booking change has already been saved
+  private async notifyWebhooks(event: WebhookEvent, bookingIds: string[]): Promise<void> {
+    try {
+      const bookings = await prisma.booking.findMany({
+        where: { id: { in: bookingIds } },
+        select: WEBHOOK_BOOKING_SELECT,
+        orderBy: { startTime: 'asc' },
+      });
+
+      for (const booking of bookings) {
+        await webhookService.dispatch(event, booking);
+      }
+    } catch (error) {
+      logger.error('Failed to queue booking webhooks', {
+        event,
+        bookingIds,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        service: 'BookingLifecycleService',
+      });
+    }
+  }
+
+  private async applyChange(
+    bookingId: string,
+    type: BookingEventType,
+    toStatus: string,
+    options: StatusChangeOptions,
+    check: (fromStatus: string) => void
+  ) {
+    return prisma.$transaction(async tx => {
+      const existing = await tx.booking.findUnique({
+        where: { id: bookingId },
+        select: { status: true },
+      });
+
+      if (!existing) {
+        throw createError('Booking with the specified ID does not exist', 404, 'Booking not found');
+      }
+
+      check(existing.status);
+
+      const { count } = await tx.booking.updateMany({
+        where: { id: bookingId, status: existing.status },
+        data: { ...options.data, status: toStatus, calendarSequence: { increment: 1 } },
+      });
+
+      if (count === 0) {
+        throw this.concurrentChangeError();
+      }
+
+      await tx.bookingEvent.create({
+        data: {
+          bookingId,
+          ...this.eventData(type, existing.status, toStatus, options.actor, options.reason),
+        },
+      });
+
+      return tx.booking.findUniqueOrThrow({
+        where: { id: bookingId },
+        include: BOOKING_INCLUDE,
+      });
+    });
+  }
+
+  private eventData(
+    type: BookingEventType,
+    fromStatus: string | null,
+    toStatus: string,
+    actor: BookingActor,
+    reason?: string
+  ) {
+    return {
+      type,
+      fromStatus,
+      toStatus,
+      actorType: actor.type,
+      actorId: actor.id ?? null,
+      actorName: actor.name ?? null,
+      reason: reason ?? null,
+    };
+  }
+
+  private concurrentChangeError() {
+    return createError('The booking was changed by someone else, please reload and try again', 409, 'Booking changed');
+  }
+}
+
+export const bookingLifecycleService = new BookingLifecycleService();
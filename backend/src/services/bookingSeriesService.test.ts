@@ -0,0 +1,182 @@
+import { BookingSeriesService, MAX_SERIES_OCCURRENCES } from './bookingSeriesService';
+import { scheduleService } from './scheduleService';
+
+describe('BookingSeriesService - Recurrence', () => {
+  let bookingSeriesService: BookingSeriesService;
+
+  const noBuffers = { setupBufferMinutes: 0, teardownBufferMinutes: 0 };
+
+  beforeEach(() => {
+    bookingSeriesService = new BookingSeriesService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('expandOccurrences', () => {
+    it('should repeat weekly sessions at the same time of day', () => {
+      const occurrences = bookingSeriesService.expandOccurrences(
+        { type: 'weekly', count: 3 },
+        new Date('2026-03-02T10:00:00.000Z'),
+        new Date('2026-03-02T11:30:00.000Z'),
+        'UTC'
+      );
+
+      expect(occurrences.map(o => o.startTime.toISOString())).toEqual([
+        '2026-03-02T10:00:00.000Z',
+        '2026-03-09T10:00:00.000Z',
+        '2026-03-16T10:00:00.000Z',
+      ]);
+      expect(occurrences[2]!.endTime.toISOString()).toBe('2026-03-16T11:30:00.000Z');
+      expect(occurrences.map(o => o.index)).toEqual([0, 1, 2]);
+    });
+
+    it('should keep the studio time of day across a daylight saving change', () => {
+      // 10:00 in New York is 15:00 UTC before 8 March 2026 and 14:00 UTC after
+      const occurrences = bookingSeriesService.expandOccurrences(
+        { type: 'weekly', count: 2 },
+        new Date('2026-03-02T15:00:00.000Z'),
+        new Date('2026-03-02T16:00:00.000Z'),
+        'America/New_York'
+      );
+
+      expect(occurrences[1]!.startTime.toISOString()).toBe('2026-03-09T14:00:00.000Z');
+      expect(occurrences[1]!.endTime.toISOString()).toBe('2026-03-09T15:00:00.000Z');
+    });
+
+    it('should skip weeks for fortnightly series', () => {
+      const occurrences = bookingSeriesService.expandOccurrences(
+        { type: 'weekly', count: 2, intervalWeeks: 2 },
+        new Date('2026-03-02T10:00:00.000Z'),
+        new Date('2026-03-02T11:00:00.000Z'),
+        'UTC'
+      );
+
+      expect(occurrences[1]!.startTime.toISOString()).toBe('2026-03-16T10:00:00.000Z');
+    });
+
+    it('should repeat every N days', () => {
+      const occurrences = bookingSeriesService.expandOccurrences(
+        { type: 'interval', everyDays: 1, count: 3 },
+        new Date('2026-06-05T09:00:00.000Z'),
+        new Date('2026-06-05T17:00:00.000Z'),
+        'UTC'
+      );
+
+      expect(occurrences.map(o => o.startTime.toISOString().split('T')[0])).toEqual([
+        '2026-06-05',
+        '2026-06-06',
+        '2026-06-07',
+      ]);
+    });
+
+    it('should sort explicit dates and include the first session once', () => {
+      const occurrences = bookingSeriesService.expandOccurrences(
+        { type: 'dates', dates: ['2026-06-20', '2026-06-05', '2026-06-06'] },
+        new Date('2026-06-05T09:00:00.000Z'),
+        new Date('2026-06-05T12:00:00.000Z'),
+        'UTC'
+      );
+
+      expect(occurrences.map(o => o.startTime.toISOString())).toEqual([
+        '2026-06-05T09:00:00.000Z',
+        '2026-06-06T09:00:00.000Z',
+        '2026-06-20T09:00:00.000Z',
+      ]);
+    });
+
+    it('should reject series longer than the limit', () => {
+      expect(() => bookingSeriesService.expandOccurrences(
+        { type: 'weekly', count: MAX_SERIES_OCCURRENCES + 1 },
+        new Date('2026-03-02T10:00:00.000Z'),
+        new Date('2026-03-02T11:00:00.000Z'),
+        'UTC'
+      )).toThrow(`at most ${MAX_SERIES_OCCURRENCES} sessions`);
+    });
+  });
+
+  describe('shiftOccurrences', () => {
+    it('should move every remaining session by the same days and onto the new time', () => {
+      const occurrences = [
+        { index: 2, startTime: new Date('2026-03-16T10:00:00.000Z'), endTime: new Date('2026-03-16T11:00:00.000Z') },
+        { index: 3, startTime: new Date('2026-03-23T10:00:00.000Z'), endTime: new Date('2026-03-23T11:00:00.000Z') },
+      ];
+
+      const shifted = bookingSeriesService.shiftOccurrences(
+        occurrences,
+        new Date('2026-03-17T14:00:00.000Z'),
+        new Date('2026-03-17T16:00:00.000Z'),
+        'UTC'
+      );
+
+      expect(shifted).toEqual([
+        { index: 2, startTime: new Date('2026-03-17T14:00:00.000Z'), endTime: new Date('2026-03-17T16:00:00.000Z') },
+        { index: 3, startTime: new Date('2026-03-24T14:00:00.000Z'), endTime: new Date('2026-03-24T16:00:00.000Z') },
+      ]);
+    });
+
+    it('should return nothing when no sessions remain', () => {
+      expect(bookingSeriesService.shiftOccurrences([], new Date(), new Date(), 'UTC')).toEqual([]);
+    });
+  });
+
+  describe('findSeriesOverlaps', () => {
+    it('should flag sessions that run into an earlier session once buffers apply', () => {
+      const occurrences = bookingSeriesService.expandOccurrences(
+        { type: 'interval', everyDays: 1, count: 2 },
+        new Date('2026-06-05T09:00:00.000Z'),
+        new Date('2026-06-06T08:30:00.000Z'),
+        'UTC'
+      );
+
+      expect(bookingSeriesService.findSeriesOverlaps(occurrences, noBuffers).size).toBe(0);
+      expect(bookingSeriesService.findSeriesOverlaps(occurrences, { setupBufferMinutes: 60, teardownBufferMinutes: 0 }))
+        .toEqual(new Set([1]));
+    });
+  });
+
+  describe('checkOccurrences', () => {
+    const now = new Date('2026-03-01T00:00:00.000Z');
+    const occurrences = [
+      { index: 0, startTime: new Date('2026-02-23T10:00:00.000Z'), endTime: new Date('2026-02-23T11:00:00.000Z') },
+      { index: 1, startTime: new Date('2026-03-02T10:00:00.000Z'), endTime: new Date('2026-03-02T11:00:00.000Z') },
+      { index: 2, startTime: new Date('2026-03-09T10:00:00.000Z'), endTime: new Date('2026-03-09T11:00:00.000Z') },
+      { index: 3, startTime: new Date('2026-03-16T10:00:00.000Z'), endTime: new Date('2026-03-16T11:00:00.000Z') },
+    ];
+
+    beforeEach(() => {
+      jest.spyOn(scheduleService, 'getServiceBuffers').mockResolvedValue(noBuffers);
+      jest.spyOn(scheduleService, 'validateBookingWindow').mockImplementation(async (startTime) =>
+        startTime.toISOString().startsWith('2026-03-09')
+          ? { reason: 'blackout', message: 'The studio is closed on this date' }
+          : null
+      );
+      jest.spyOn(scheduleService, 'findBookingConflicts').mockImplementation(async (range) =>
+        range.start.toISOString().startsWith('2026-03-16')
+          ? [{ id: 'existing', startTime: range.start, endTime: range.end, status: 'confirmed', ...noBuffers }]
+          : []
+      );
+    });
+
+    it('should report why each unavailable session cannot be booked', async () => {
+      const reports = await bookingSeriesService.checkOccurrences(occurrences, 'service-1', undefined, now);
+
+      expect(reports.map(report => [report.available, report.reason])).toEqual([
+        [false, 'past'],
+        [true, undefined],
+        [false, 'blackout'],
+        [false, 'conflict'],
+      ]);
+      expect(reports[3]!.conflictingBookings).toEqual([
+        expect.objectContaining({ id: 'existing', status: 'confirmed' }),
+      ]);
+    });
+
+    it('should pass excluded booking IDs to the conflict check', async () => {
+      await bookingSeriesService.checkOccurrences(occurrences.slice(1, 2), 'service-1', ['a', 'b'], now);
+
+      expect(scheduleService.findBookingConflicts).toHaveBeenCalledWith(expect.any(Object), 'service-1', ['a', 'b']);
+    });
+  });
+});
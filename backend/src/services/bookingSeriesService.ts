@@ -0,0 +1,181 @@
+import { createError } from '../middleware/errorHandler';
+import { scheduleService, Buffers, ScheduledBooking } from './scheduleService';
+import { getZonedParts, toZonedDateKey, zonedTimeToUtc, addDaysToDateKey } from '../utils/timeZone';
+
+export const MAX_SERIES_OCCURRENCES = 52;
+
+/**
+ * How a series repeats. Sessions keep the first session's time of day on the studio's
+ * clock, so a weekly 10:00 session stays at 10:00 across daylight saving changes.
+ */
+export type RecurrenceRule =
+  | { type: 'weekly'; count: number; intervalWeeks?: number }
+  | { type: 'interval'; everyDays: number; count: number }
+  | { type: 'dates'; dates: string[] }; // extra studio days ('YYYY-MM-DD') besides the first session
+
+export interface Occurrence {
+  index: number;
+  startTime: Date;
+  endTime: Date;
+}
+
+export type OccurrenceUnavailableReason =
+  | 'past'
+  | 'blackout'
+  | 'closed'
+  | 'outside_hours'
+  | 'series_overlap'
+  | 'conflict';
+
+export interface OccurrenceReport extends Occurrence {
+  available: boolean;
+  reason?: OccurrenceUnavailableReason;
+  message?: string;
+  conflictingBookings?: Array<Pick<ScheduledBooking, 'id' | 'startTime' | 'endTime' | 'status'>>;
+}
+
+export class BookingSeriesService {
+  /**
+   * Studio days the rule puts sessions on, starting with the first session's day
+   */
+  getOccurrenceDateKeys(rule: RecurrenceRule, firstDateKey: string): string[] {
+    switch (rule.type) {
+      case 'weekly': {
+        const stepDays = 7 * (rule.intervalWeeks || 1);
+        return Array.from({ length: rule.count }, (_, i) => addDaysToDateKey(firstDateKey, i * stepDays));
+      }
+      case 'interval':
+        return Array.from({ length: rule.count }, (_, i) => addDaysToDateKey(firstDateKey, i * rule.everyDays));
+      case 'dates':
+        return Array.from(new Set([firstDateKey, ...rule.dates])).sort();
+    }
+  }
+
+  /**
+   * Expand a rule into the sessions of a series, all as long as the first one
+   */
+  expandOccurrences(rule: RecurrenceRule, startTime: Date, endTime: Date, timeZone: string): Occurrence[] {
+    const dateKeys = this.getOccurrenceDateKeys(rule, toZonedDateKey(startTime, timeZone));
+
+    if (dateKeys.length > MAX_SERIES_OCCURRENCES) {
+      throw createError(
+        `A series can have at most ${MAX_SERIES_OCCURRENCES} sessions`,
+        400,
+        'Invalid recurrence'
+      );
+    }
+
+    return this.placeOnDays(dateKeys, startTime, endTime.getTime() - startTime.getTime(), timeZone);
+  }
+
+  /**
+   * Move the remaining sessions of a series so the first of them starts at newStart,
+   * shifting the others by the same number of days and onto the same time of day
+   */
+  shiftOccurrences(occurrences: Occurrence[], newStart: Date, newEnd: Date, timeZone: string): Occurrence[] {
+    const first = occurrences[0];
+    if (!first) {
+      return [];
+    }
+
+    const dayShift = this.daysBetween(toZonedDateKey(first.startTime, timeZone), toZonedDateKey(newStart, timeZone));
+    const dateKeys = occurrences.map(occurrence =>
+      addDaysToDateKey(toZonedDateKey(occurrence.startTime, timeZone), dayShift)
+    );
+
+    return this.placeOnDays(dateKeys, newStart, newEnd.getTime() - newStart.getTime(), timeZone)
+      .map((occurrence, i) => ({ ...occurrence, index: occurrences[i]!.index }));
+  }
+
+  /**
+   * Indexes of sessions that clash with an earlier session of the same series
+   */
+  findSeriesOverlaps(occurrences: Occurrence[], buffers: Buffers): Set<number> {
+    const padded = occurrences.map(occurrence =>
+      scheduleService.applyBuffers({ start: occurrence.startTime, end: occurrence.endTime }, buffers)
+    );
+    const overlapping = new Set<number>();
+
+    padded.forEach((range, i) => {
+      if (padded.slice(0, i).some(earlier => scheduleService.rangesOverlap(earlier, range))) {
+        overlapping.add(occurrences[i]!.index);
+      }
+    });
+
+    return overlapping;
+  }
+
+  /**
+   * Check every session against opening hours, the rest of the series and existing bookings
+   */
+  async checkOccurrences(
+    occurrences: Occurrence[],
+    serviceId?: string | null,
+    excludeBookingIds?: string[],
+    now: Date = new Date()
+  ): Promise<OccurrenceReport[]> {
+    const buffers = await scheduleService.getServiceBuffers(serviceId);
+    const seriesOverlaps = this.findSeriesOverlaps(occurrences, buffers);
+    const reports: OccurrenceReport[] = [];
+
+    // One session at a time keeps a long series from flooding the connection pool
+    for (const occurrence of occurrences) {
+      if (occurrence.startTime <= now) {
+        reports.push({ ...occurrence, available: false, reason: 'past', message: 'This session is in the past' });
+        continue;
+      }
+
+      const windowViolation = await scheduleService.validateBookingWindow(occurrence.startTime, occurrence.endTime);
+      if (windowViolation) {
+        reports.push({ ...occurrence, available: false, ...windowViolation });
+        continue;
+      }
+
+      if (seriesOverlaps.has(occurrence.index)) {
+        reports.push({
+          ...occurrence,
+          available: false,
+          reason: 'series_overlap',
+          message: 'This session overlaps an earlier session of the series',
+        });
+        continue;
+      }
+
+      const conflicts = await scheduleService.findBookingConflicts(
+        { start: occurrence.startTime, end: occurrence.endTime },
+        serviceId,
+        excludeBookingIds
+      );
+      if (conflicts.length > 0) {
+        reports.push({
+          ...occurrence,
+          available: false,
+          reason: 'conflict',
+          message: 'This session conflicts with an existing booking',
+          conflictingBookings: conflicts.map(({ id, startTime, endTime, status }) => ({ id, startTime, endTime, status })),
+        });
+        continue;
+      }
+
+      reports.push({ ...occurrence, available: true });
+    }
+
+    return reports;
+  }
+
+  private placeOnDays(dateKeys: string[], startTime: Date, durationMs: number, timeZone: string): Occurrence[] {
+    const { hour, minute } = getZonedParts(startTime, timeZone);
+
+    return dateKeys.map((dateKey, index) => {
+      const start = zonedTimeToUtc(dateKey, hour * 60 + minute, timeZone);
+      return { index, startTime: start, endTime: new Date(start.getTime() + durationMs) };
+    });
+  }
+
+  private daysBetween(fromKey: string, toKey: string): number {
+    const dayMs = 24 * 60 * 60 * 1000;
+    return Math.round((scheduleService.fromDateKey(toKey).getTime() - scheduleService.fromDateKey(fromKey).getTime()) / dayMs);
+  }
+}
+
+export const bookingSeriesService = new BookingSeriesService();
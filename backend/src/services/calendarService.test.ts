@@ -0,0 +1,188 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { PrismaClient } from '@prisma/client';
+import { CalendarService } from './calendarService';
+
+jest.mock('@prisma/client', () => jest.requireActual('../test/prismaMock').mockPrismaModule());
+
+const prisma = new PrismaClient() as unknown as {
+  user: { findUnique: jest.Mock };
+  externalCalendar: { findUnique: jest.Mock; update: jest.Mock };
+};
+
+describe('CalendarService - Invites and Feeds', () => {
+  let calendarService: CalendarService;
+
+  const booking = {
+    id: 'booking-1',
+    clientName: 'Ama Mensah',
+    clientEmail: 'ama@example.com',
+    startTime: new Date('2026-03-14T10:00:00.000Z'),
+    endTime: new Date('2026-03-14T12:00:00.000Z'),
+    status: 'confirmed',
+    location: 'Studio A',
+    calendarSequence: 3,
+  };
+  const organizer = { name: 'Derji Productions', email: 'noreply@derjiproductions.com' };
+
+  beforeEach(() => {
+    calendarService = new CalendarService();
+  });
+
+  describe('getEventStatus', () => {
+    it('should map booking statuses to event statuses', () => {
+      expect(calendarService.getEventStatus('pending')).toBe('TENTATIVE');
+      expect(calendarService.getEventStatus('confirmed')).toBe('CONFIRMED');
+      expect(calendarService.getEventStatus('completed')).toBe('CONFIRMED');
+      expect(calendarService.getEventStatus('cancelled')).toBe('CANCELLED');
+    });
+  });
+
+  describe('buildBookingInvite', () => {
+    it('should send a request with the booking UID and sequence', () => {
+      const { method, ics } = calendarService.buildBookingInvite([booking], {
+        serviceName: 'Podcast Recording',
+        organizer,
+        manageUrl: 'http://localhost:3000/bookings/manage/abc',
+      });
+
+      expect(method).toBe('REQUEST');
+      expect(ics).toContain(`UID:${calendarService.getEventUid('booking-1')}\r\n`);
+      expect(ics).toContain('SEQUENCE:3\r\n');
+      expect(ics).toContain('STATUS:CONFIRMED');
+      expect(ics).toContain('LOCATION:Studio A');
+      expect(ics).toContain('SUMMARY:Podcast Recording - Derji Productions');
+      expect(ics).toContain('mailto:ama@example.com');
+    });
+
+    it('should cancel the event once the booking is cancelled', () => {
+      const { method, ics } = calendarService.buildBookingInvite(
+        [{ ...booking, status: 'cancelled', calendarSequence: 4 }],
+        { serviceName: 'Podcast Recording', organizer }
+      );
+
+      expect(method).toBe('CANCEL');
+      expect(ics).toContain('METHOD:CANCEL');
+      expect(ics).toContain('STATUS:CANCELLED');
+      expect(ics).toContain('SEQUENCE:4');
+    });
+
+    it('should write one event per session', () => {
+      const { ics } = calendarService.buildBookingInvite(
+        [booking, { ...booking, id: 'booking-2', calendarSequence: 0 }],
+        { serviceName: 'Podcast Recording', organizer }
+      );
+
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+      expect(ics).toContain(`UID:${calendarService.getEventUid('booking-2')}`);
+    });
+  });
+
+  describe('hashFeedToken', () => {
+    it('should hash tokens deterministically', () => {
+      expect(calendarService.hashFeedToken('secret')).toBe(calendarService.hashFeedToken('secret'));
+      expect(calendarService.hashFeedToken('secret')).not.toBe('secret');
+    });
+  });
+
+  describe('isValidFeedToken', () => {
+    it('should accept the token of someone who can see bookings', async () => {
+      prisma.user.findUnique.mockResolvedValue({ role: 'photographer' });
+
+      await expect(calendarService.isValidFeedToken('secret')).resolves.toBe(true);
+      expect(prisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { calendarFeedTokenHash: calendarService.hashFeedToken('secret') },
+      }));
+    });
+
+    it('should refuse the token of someone who can no longer see bookings', async () => {
+      prisma.user.findUnique.mockResolvedValue({ role: 'editor' });
+
+      await expect(calendarService.isValidFeedToken('secret')).resolves.toBe(false);
+    });
+
+    it('should refuse an unknown token', async () => {
+      prisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(calendarService.isValidFeedToken('secret')).resolves.toBe(false);
+    });
+  });
+
+  describe('normaliseUrl', () => {
+    it('should fetch webcal links over HTTPS', () => {
+      expect(calendarService.normaliseUrl('webcal://calendar.example.com/a.ics')).toBe('https://calendar.example.com/a.ics');
+      expect(calendarService.normaliseUrl('http://calendar.example.com/a.ics')).toBe('http://calendar.example.com/a.ics');
+    });
+  });
+});
+
+describe('CalendarService - Fetching subscribed calendars', () => {
+  let calendarService: CalendarService;
+  let server: http.Server;
+  let bytesSent: number;
+
+  // Streams `size` bytes of calendar without saying how long it is up front
+  const startServer = async (size: number) => {
+    bytesSent = 0;
+    server = http.createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/calendar' });
+      const chunk = Buffer.alloc(64 * 1024, 'A');
+      const write = () => {
+        while (bytesSent < size) {
+          bytesSent += chunk.length;
+          if (!res.write(chunk)) {
+            res.once('drain', write);
+            return;
+          }
+        }
+        res.end();
+      };
+      res.on('error', () => undefined);
+      write();
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}/busy.ics`;
+  };
+
+  const subscribeTo = (url: string) => {
+    prisma.externalCalendar.findUnique.mockResolvedValue({ id: 'calendar-1', name: 'Studio', url });
+  };
+
+  beforeEach(() => {
+    calendarService = new CalendarService();
+  });
+
+  afterEach(async () => {
+    delete process.env['ALLOW_PRIVATE_NETWORK_URLS'];
+    jest.clearAllMocks();
+    if (server?.listening) {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+
+  it('should stop downloading a calendar as soon as it passes 2 MB', async () => {
+    process.env['ALLOW_PRIVATE_NETWORK_URLS'] = 'true';
+    subscribeTo(await startServer(50 * 1024 * 1024));
+
+    await expect(calendarService.syncExternalCalendar('calendar-1')).rejects.toEqual(expect.objectContaining({
+      status: 502,
+      message: 'Could not fetch the calendar: The calendar is larger than 2 MB',
+    }));
+    expect(bytesSent).toBeLessThan(10 * 1024 * 1024);
+    expect(prisma.externalCalendar.update).toHaveBeenCalledWith({
+      where: { id: 'calendar-1' },
+      data: { lastSyncError: 'The calendar is larger than 2 MB' },
+    });
+  });
+
+  it('should refuse calendars on private addresses', async () => {
+    subscribeTo('http://169.254.169.254/latest/meta-data');
+
+    await expect(calendarService.syncExternalCalendar('calendar-1')).rejects.toEqual(expect.objectContaining({
+      status: 502,
+      message: 'Could not fetch the calendar: 169.254.169.254 is not a public address',
+    }));
+  });
+});
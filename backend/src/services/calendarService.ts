@@ -0,0 +1,330 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { hasPermission } from '../config/roles';
+import { createError } from '../middleware/errorHandler';
+import { scheduleService, ACTIVE_BOOKING_STATUSES } from './scheduleService';
+import { buildIcsCalendar, parseIcsEvents, IcsEvent, IcsEventStatus, IcsMethod, IcsPerson } from '../utils/ical';
+import { fetchPublic } from '../utils/networkGuard';
+
+const prisma = new PrismaClient();
+
+// Feeds reach this far back so recent sessions stay visible in subscribed calendars
+const FEED_HISTORY_DAYS = 90;
+const FETCH_TIMEOUT_MS = 10 * 1000;
+const MAX_CALENDAR_BYTES = 2 * 1024 * 1024;
+const MAX_BUSY_BLOCKS = 5000;
+
+export interface CalendarBooking {
+  id: string;
+  clientName: string;
+  clientEmail: string;
+  clientPhone?: string | null;
+  startTime: Date;
+  endTime: Date;
+  status: string;
+  projectDetails?: string | null;
+  location?: string | null;
+  calendarSequence?: number;
+  updatedAt?: Date;
+}
+
+export interface CalendarFeedFilters {
+  statuses?: string[];
+  serviceId?: string;
+}
+
+export interface ExternalCalendarInput {
+  name: string;
+  url?: string;
+  ics?: string;
+}
+
+export class CalendarService {
+  private readonly domain = process.env['ICAL_DOMAIN'] || 'derjiproductions.com';
+  private readonly apiBaseUrl = process.env['API_BASE_URL'] || 'http://localhost:5000';
+  private readonly frontendUrl = process.env['FRONTEND_URL'] || 'http://localhost:3000';
+
+  /**
+   * Stable UID so every invite and feed entry for a booking updates the same event
+   */
+  getEventUid(bookingId: string): string {
+    return `booking-${bookingId}@${this.domain}`;
+  }
+
+  getEventStatus(bookingStatus: string): IcsEventStatus {
+    switch (bookingStatus) {
+      case 'pending':
+        return 'TENTATIVE';
+      case 'cancelled':
+        return 'CANCELLED';
+      default:
+        return 'CONFIRMED';
+    }
+  }
+
+  toIcsEvent(
+    booking: CalendarBooking,
+    details: { summary: string; description?: string; organizer?: IcsPerson; attendees?: IcsPerson[] }
+  ): IcsEvent {
+    return {
+      uid: this.getEventUid(booking.id),
+      sequence: booking.calendarSequence ?? 0,
+      start: booking.startTime,
+      end: booking.endTime,
+      status: this.getEventStatus(booking.status),
+      ...details,
+      ...(booking.location && { location: booking.location }),
+      ...(booking.updatedAt && { updatedAt: booking.updatedAt }),
+    };
+  }
+
+  /**
+   * Invite attached to client emails. Cancelled bookings go out as METHOD:CANCEL so
+   * calendar apps remove the event the earlier invite created.
+   */
+  buildBookingInvite(
+    bookings: CalendarBooking[],
+    options: { serviceName: string; organizer: IcsPerson; manageUrl?: string }
+  ): { method: IcsMethod; ics: string } {
+    const method: IcsMethod = bookings.every(booking => booking.status === 'cancelled') ? 'CANCEL' : 'REQUEST';
+
+    const events = bookings.map(booking => this.toIcsEvent(booking, {
+      summary: options.organizer.name ? `${options.serviceName} - ${options.organizer.name}` : options.serviceName,
+      ...(options.manageUrl && { description: `Manage your booking: ${options.manageUrl}` }),
+      organizer: options.organizer,
+      attendees: [{ name: booking.clientName, email: booking.clientEmail }],
+    }));
+
+    return { method, ics: buildIcsCalendar({ method, events }) };
+  }
+
+  /**
+   * Bookings as a subscribable calendar for the studio team
+   */
+  async buildFeed(filters: CalendarFeedFilters = {}): Promise<string> {
+    const statuses = filters.statuses?.length ? filters.statuses : ACTIVE_BOOKING_STATUSES;
+
+    const bookings = await prisma.booking.findMany({
+      where: {
+        status: { in: statuses },
+        endTime: { gte: new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000) },
+        ...(filters.serviceId && { serviceId: filters.serviceId }),
+      },
+      orderBy: { startTime: 'asc' },
+      include: {
+        service: {
+          select: { name: true },
+        },
+      },
+    });
+
+    const events = bookings.map(booking => this.toIcsEvent(booking, {
+      summary: `${booking.service?.name || 'Booking'} - ${booking.clientName}`,
+      description: [
+        `Client: ${booking.clientName} <${booking.clientEmail}>`,
+        ...(booking.clientPhone ? [`Phone: ${booking.clientPhone}`] : []),
+        `Status: ${booking.status}`,
+        ...(booking.projectDetails ? ['', booking.projectDetails] : []),
+        '',
+        `${this.frontendUrl}/admin/bookings`,
+      ].join('\n'),
+    }));
+
+    return buildIcsCalendar({ name: 'Derji Productions bookings', method: 'PUBLISH', events });
+  }
+
+  hashFeedToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  getFeedUrl(token: string): string {
+    return `${this.apiBaseUrl}/api/bookings/calendar.ics?token=${token}`;
+  }
+
+  /**
+   * Issue a new feed token for a user, replacing any earlier one. Only the hash is
+   * stored, so the URL can only be shown once.
+   */
+  async rotateFeedToken(userId: string): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { calendarFeedTokenHash: this.hashFeedToken(token) },
+    });
+
+    return token;
+  }
+
+  async revokeFeedToken(userId: string): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { calendarFeedTokenHash: null },
+    });
+  }
+
+  /**
+   * A feed token works only while its owner can still see bookings, so taking that
+   * permission away closes their feed too
+   */
+  async isValidFeedToken(token: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { calendarFeedTokenHash: this.hashFeedToken(token) },
+      select: { role: true },
+    });
+
+    return !!user && hasPermission(user.role, 'bookings:read');
+  }
+
+  async getExternalCalendars() {
+    return prisma.externalCalendar.findMany({
+      orderBy: { name: 'asc' },
+      include: {
+        _count: {
+          select: { busyBlocks: true },
+        },
+      },
+    });
+  }
+
+  /**
+   * Add an external calendar and import its busy times straight away
+   */
+  async createExternalCalendar(input: ExternalCalendarInput) {
+    const calendar = await prisma.externalCalendar.create({
+      data: {
+        name: input.name,
+        url: input.url ? this.normaliseUrl(input.url) : null,
+      },
+    });
+
+    try {
+      return await this.syncExternalCalendar(calendar.id, input.ics);
+    } catch (error) {
+      // A calendar that never imported is of no use; drop it so the admin can retry
+      await prisma.externalCalendar.delete({ where: { id: calendar.id } });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a calendar's busy times with the events in its latest copy, fetched from
+   * its URL unless the contents are given
+   */
+  async syncExternalCalendar(id: string, ics?: string) {
+    const calendar = await prisma.externalCalendar.findUnique({ where: { id } });
+    if (!calendar) {
+      throw createError('External calendar with the specified ID does not exist', 404, 'Calendar not found');
+    }
+
+    let contents = ics;
+    if (contents === undefined) {
+      if (!calendar.url) {
+        throw createError('Upload the calendar file again to refresh a calendar without a URL', 400, 'Calendar file required');
+      }
+
+      try {
+        contents = await this.fetchCalendar(calendar.url);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        await prisma.externalCalendar.update({
+          where: { id },
+          data: { lastSyncError: message },
+        });
+        throw createError(`Could not fetch the calendar: ${message}`, 502, 'Calendar sync failed');
+      }
+    }
+
+    if (!/BEGIN:VCALENDAR/i.test(contents)) {
+      throw createError('The file is not an iCalendar (.ics) calendar', 400, 'Invalid calendar');
+    }
+
+    const { timeZone } = await scheduleService.getWeeklySchedule();
+    const now = Date.now();
+    const events = parseIcsEvents(contents, timeZone)
+      .filter(event => event.end.getTime() > now)
+      .slice(0, MAX_BUSY_BLOCKS);
+
+    const [, , updated] = await prisma.$transaction([
+      prisma.calendarBusyBlock.deleteMany({ where: { calendarId: id } }),
+      prisma.calendarBusyBlock.createMany({
+        data: events.map(event => ({
+          calendarId: id,
+          uid: event.uid,
+          startTime: event.start,
+          endTime: event.end,
+        })),
+      }),
+      prisma.externalCalendar.update({
+        where: { id },
+        data: { lastSyncedAt: new Date(), lastSyncError: null },
+        include: {
+          _count: {
+            select: { busyBlocks: true },
+          },
+        },
+      }),
+    ]);
+
+    return updated;
+  }
+
+  async deleteExternalCalendar(id: string): Promise<void> {
+    const calendar = await prisma.externalCalendar.findUnique({ where: { id } });
+    if (!calendar) {
+      throw createError('External calendar with the specified ID does not exist', 404, 'Calendar not found');
+    }
+
+    await prisma.externalCalendar.delete({ where: { id } });
+  }
+
+  /**
+   * Calendar apps share subscription links as webcal://, which is plain HTTPS
+   */
+  normaliseUrl(url: string): string {
+    return url.replace(/^webcals?:\/\//i, 'https://');
+  }
+
+  /**
+   * Download a subscribed calendar, refusing private addresses and stopping as soon
+   * as it passes MAX_CALENDAR_BYTES rather than after holding all of it
+   */
+  private async fetchCalendar(url: string): Promise<string> {
+    const response = await fetchPublic(url, {
+      headers: { Accept: 'text/calendar' },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`The calendar server responded with ${response.status}`);
+    }
+
+    if (Number(response.headers.get('content-length')) > MAX_CALENDAR_BYTES) {
+      await response.body?.cancel();
+      throw new Error('The calendar is larger than 2 MB');
+    }
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const reader = response.body?.getReader();
+
+    while (reader) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      size += value.byteLength;
+      if (size > MAX_CALENDAR_BYTES) {
+        await reader.cancel();
+        throw new Error('The calendar is larger than 2 MB');
+      }
+      chunks.push(value);
+    }
+
+    return Buffer.concat(chunks).toString('utf8');
+  }
+}
+
+export const calendarService = new CalendarService();
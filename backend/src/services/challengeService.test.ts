@@ -0,0 +1,86 @@
+import { ChallengeService } from './challengeService';
+import { MemoryRateLimitStore } from './rateLimitStore';
+import { solve } from '../utils/proofOfWork';
+
+jest.mock('../config/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn(), warn: jest.fn() },
+}));
+
+describe('ChallengeService', () => {
+  let store: MemoryRateLimitStore;
+  let challengeService: ChallengeService;
+
+  beforeEach(() => {
+    store = new MemoryRateLimitStore();
+    challengeService = new ChallengeService('test-secret', 8, 10 * 60, store);
+  });
+
+  it('should issue challenges at the configured difficulty', () => {
+    const issued = challengeService.issue();
+
+    expect(issued.difficulty).toBe(8);
+    expect(issued.expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should accept a solved challenge once', async () => {
+    const { challenge, difficulty } = challengeService.issue();
+    const solution = solve(challenge, difficulty);
+
+    await expect(challengeService.verify(challenge, solution)).resolves.toBeUndefined();
+    await expect(challengeService.verify(challenge, solution)).rejects.toEqual(
+      expect.objectContaining({ status: 403, code: 'CHALLENGE_FAILED', message: expect.stringContaining('already been used') })
+    );
+  });
+
+  it('should remember used challenges in the shared store until they expire', async () => {
+    const { challenge, difficulty } = challengeService.issue();
+    const solution = solve(challenge, difficulty);
+    // Another replica with the same secret and store
+    const replica = new ChallengeService('test-secret', 8, 10 * 60, store);
+    const increment = jest.spyOn(store, 'increment');
+
+    await challengeService.verify(challenge, solution);
+    await expect(replica.verify(challenge, solution)).rejects.toEqual(
+      expect.objectContaining({ message: expect.stringContaining('already been used') })
+    );
+
+    const [[key, ttlMs]] = increment.mock.calls as [[string, number]];
+    expect(key).toMatch(/^challenge:used:[a-f0-9]{24}$/);
+    expect(ttlMs).toBeGreaterThan(9 * 60 * 1000);
+    expect(ttlMs).toBeLessThanOrEqual(10 * 60 * 1000);
+  });
+
+  it('should let a solved challenge through when the store is unreachable', async () => {
+    jest.spyOn(store, 'increment').mockRejectedValue(new Error('Connection refused'));
+    const { challenge, difficulty } = challengeService.issue();
+
+    await expect(challengeService.verify(challenge, solve(challenge, difficulty))).resolves.toBeUndefined();
+  });
+
+  it('should reject unsolved challenges', async () => {
+    const hard = new ChallengeService('test-secret', 32, 10 * 60, store);
+    const { challenge } = hard.issue();
+
+    await expect(hard.verify(challenge, '0')).rejects.toEqual(
+      expect.objectContaining({ status: 403, message: expect.stringContaining('not solved') })
+    );
+  });
+
+  it('should reject challenges signed with another secret', async () => {
+    const { challenge, difficulty } = new ChallengeService('other-secret', 8, 10 * 60, store).issue();
+
+    await expect(challengeService.verify(challenge, solve(challenge, difficulty))).rejects.toEqual(
+      expect.objectContaining({ status: 403, code: 'CHALLENGE_FAILED' })
+    );
+  });
+
+  it('should reject expired challenges', async () => {
+    const shortLived = new ChallengeService('test-secret', 0, -1, store);
+    const { challenge } = shortLived.issue();
+
+    await expect(shortLived.verify(challenge, '0')).rejects.toEqual(
+      expect.objectContaining({ status: 403, message: expect.stringContaining('expired') })
+    );
+  });
+});
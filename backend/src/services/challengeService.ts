@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import logger from '../config/logger';
+import { createError } from '../middleware/errorHandler';
+import { meetsDifficulty } from '../utils/proofOfWork';
+import { RateLimitStore, rateLimitStore } from './rateLimitStore';
+
+interface ChallengePayload {
+  type: 'challenge';
+  difficulty: number;
+}
+
+export interface IssuedChallenge {
+  challenge: string;
+  difficulty: number; // leading zero bits the solution's hash needs
+  expiresAt: Date;
+}
+
+/**
+ * Proof-of-work challenges for public forms. A challenge is a signed token, so the
+ * server keeps nothing until it is used; used challenges are remembered in the
+ * shared store until they expire, so each solution submits one form whichever
+ * replica receives it.
+ */
+export class ChallengeService {
+  constructor(
+    private readonly secret: string = process.env['CHALLENGE_SECRET'] || 'your-challenge-secret',
+    private readonly difficulty: number = parseInt(process.env['CHALLENGE_DIFFICULTY'] || '16', 10),
+    private readonly ttlSeconds: number = 10 * 60,
+    private readonly store: RateLimitStore = rateLimitStore
+  ) {}
+
+  issue(): IssuedChallenge {
+    const payload: ChallengePayload = { type: 'challenge', difficulty: this.difficulty };
+    const challenge = jwt.sign(payload, this.secret, {
+      expiresIn: this.ttlSeconds,
+      jwtid: crypto.randomBytes(12).toString('hex'),
+      issuer: 'derji-productions',
+      audience: 'derji-productions-challenge',
+    });
+
+    return {
+      challenge,
+      difficulty: this.difficulty,
+      expiresAt: new Date(Date.now() + this.ttlSeconds * 1000),
+    };
+  }
+
+  /**
+   * Accept a solved challenge once. Throws a 403 for forged, expired, reused or
+   * unsolved challenges.
+   */
+  async verify(challenge: string, solution: string): Promise<void> {
+    let decoded: ChallengePayload & jwt.JwtPayload;
+    try {
+      decoded = jwt.verify(challenge, this.secret, {
+        issuer: 'derji-productions',
+        audience: 'derji-productions-challenge',
+      }) as ChallengePayload & jwt.JwtPayload;
+    } catch (error) {
+      throw createError('The form challenge has expired. Please try again.', 403, 'CHALLENGE_FAILED');
+    }
+
+    if (decoded.type !== 'challenge' || !decoded.jti || !decoded.exp) {
+      throw createError('The form challenge is not valid. Please try again.', 403, 'CHALLENGE_FAILED');
+    }
+
+    if (!meetsDifficulty(challenge, solution, decoded.difficulty)) {
+      throw createError('The form challenge was not solved. Please try again.', 403, 'CHALLENGE_FAILED');
+    }
+
+    if (await this.markUsed(decoded.jti, decoded.exp * 1000 - Date.now())) {
+      throw createError('The form challenge has already been used. Please try again.', 403, 'CHALLENGE_FAILED');
+    }
+  }
+
+  /**
+   * Count a use of the challenge for as long as it stays valid, returning whether it
+   * had been used before. Like the rate limiters, an unreachable store lets the
+   * form through rather than turning everyone away.
+   */
+  private async markUsed(id: string, ttlMs: number): Promise<boolean> {
+    try {
+      const { count } = await this.store.increment(`challenge:used:${id}`, Math.max(ttlMs, 1));
+      return count > 1;
+    } catch (error) {
+      logger.error('Failed to record form challenge use', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        service: 'ChallengeService',
+      });
+      return false;
+    }
+  }
+}
+
+export const challengeService = new ChallengeService();
@@ -0,0 +1,90 @@
+import { PrismaClient } from '@prisma/client';
+import { ClientService } from './clientService';
+
+jest.mock('@prisma/client', () => jest.requireActual('../test/prismaMock').mockPrismaModule());
+
+jest.mock('../config/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn(), warn: jest.fn() },
+}));
+
+const prisma = new PrismaClient() as unknown as {
+  client: { findUnique: jest.Mock; findFirst: jest.Mock; upsert: jest.Mock; update: jest.Mock; delete: jest.Mock };
+  clientEmail: { findUnique: jest.Mock; create: jest.Mock; updateMany: jest.Mock };
+  booking: { updateMany: jest.Mock };
+  contactInquiry: { updateMany: jest.Mock };
+  clientNote: { updateMany: jest.Mock };
+  invoice: { findMany: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+describe('ClientService', () => {
+  let clientService: ClientService;
+
+  beforeEach(() => {
+    clientService = new ClientService();
+  });
+
+  describe('normaliseEmail', () => {
+    it('should trim and lowercase the address', () => {
+      expect(clientService.normaliseEmail('  Ama.Mensah@Example.COM ')).toBe('ama.mensah@example.com');
+    });
+  });
+
+  describe('normalisePhone', () => {
+    it('should keep only the digits', () => {
+      expect(clientService.normalisePhone('(024) 123-4567')).toBe('0241234567');
+    });
+
+    it('should keep a leading plus of an international number', () => {
+      expect(clientService.normalisePhone(' +233 24 123 4567')).toBe('+233241234567');
+    });
+
+    it('should return null without digits', () => {
+      expect(clientService.normalisePhone('')).toBeNull();
+      expect(clientService.normalisePhone(' - ')).toBeNull();
+      expect(clientService.normalisePhone(null)).toBeNull();
+      expect(clientService.normalisePhone(undefined)).toBeNull();
+    });
+  });
+
+  describe('merged emails', () => {
+    const kept = { id: 'client-1', name: 'Ama Mensah', email: 'ama@example.com', phone: '0241234567' };
+    const duplicate = { id: 'client-2', name: 'Ama Mensah', email: 'ama.mensah@work.example.com', phone: null };
+
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should resolve an email that was merged away to the client that kept it', async () => {
+      prisma.client.findUnique.mockResolvedValue(null);
+      prisma.clientEmail.findUnique.mockResolvedValue({ email: duplicate.email, client: kept });
+
+      await expect(clientService.resolve({ name: 'Ama', email: ' Ama.Mensah@Work.example.com ' })).resolves.toBe('client-1');
+      expect(prisma.clientEmail.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { email: 'ama.mensah@work.example.com' },
+      }));
+      expect(prisma.client.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should keep the duplicate\'s emails when merging', async () => {
+      prisma.client.findUnique.mockImplementation(async ({ where }) =>
+        where.id === duplicate.id ? duplicate : { ...kept, bookings: [], inquiries: [], notes: [], emails: [] }
+      );
+      prisma.invoice.findMany.mockResolvedValue([]);
+
+      await clientService.merge(kept.id, duplicate.id);
+
+      expect(prisma.clientEmail.updateMany).toHaveBeenCalledWith({
+        where: { clientId: duplicate.id },
+        data: { clientId: kept.id },
+      });
+      expect(prisma.clientEmail.create).toHaveBeenCalledWith({
+        data: { clientId: kept.id, email: duplicate.email },
+      });
+      // Aliases move before the duplicate is deleted, which would take its own with it
+      expect(prisma.clientEmail.updateMany.mock.invocationCallOrder[0])
+        .toBeLessThan(prisma.client.delete.mock.invocationCallOrder[0]!);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { PrismaClient } from '@prisma/client';
+import logger from '../config/logger';
+import { createError } from '../middleware/errorHandler';
+
+const prisma = new PrismaClient();
+
+export interface ClientContact {
+  name: string;
+  email: string;
+  phone?: string | null | undefined;
+}
+
+export interface ClientFilters {
+  search?: string | undefined;
+  page?: number | undefined;
+  limit?: number | undefined;
+}
+
+const CLIENT_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  phone: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: {
+    select: { bookings: true, inquiries: true },
+  },
+} as const;
+
+export class ClientService {
+  normaliseEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  /**
+   * Digits of a phone number, keeping a leading '+' so international and local
+   * numbers stay apart. Null when there are no digits.
+   */
+  normalisePhone(phone: string | null | undefined): string | null {
+    const digits = phone?.replace(/\D/g, '') ?? '';
+    if (!digits) {
+      return null;
+    }
+
+    return phone?.trim().startsWith('+') ? `+${digits}` : digits;
+  }
+
+  /**
+   * Client a booking or inquiry belongs to: the one with the same email, or that
+   * took it over in a merge, else the oldest with the same phone, else a new client
+   */
+  async resolve(contact: ClientContact): Promise<string> {
+    const email = this.normaliseEmail(contact.email);
+    const phone = this.normalisePhone(contact.phone);
+
+    const existing =
+      (await prisma.client.findUnique({ where: { email } })) ??
+      (await prisma.clientEmail.findUnique({ where: { email }, include: { client: true } }))?.client ??
+      (phone ? await prisma.client.findFirst({ where: { phone }, orderBy: { createdAt: 'asc' } }) : null);
+
+    if (existing) {
+      if (phone && !existing.phone) {
+        await prisma.client.update({ where: { id: existing.id }, data: { phone } });
+      }
+      return existing.id;
+    }
+
+    // Upsert so two submissions from a new client at once do not create it twice
+    const client = await prisma.client.upsert({
+      where: { email },
+      update: {},
+      create: { name: contact.name.trim(), email, phone },
+    });
+
+    return client.id;
+  }
+
+  async search(filters: ClientFilters = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const search = filters.search?.trim();
+    const phone = this.normalisePhone(search);
+
+    const where = search
+      ? {
+          OR: [
+            { name: { contains: search, mode: 'insensitive' as const } },
+            { email: { contains: search, mode: 'insensitive' as const } },
+            ...(phone ? [{ phone: { contains: phone.replace('+', '') } }] : []),
+          ],
+        }
+      : {};
+
+    const [clients, totalCount] = await Promise.all([
+      prisma.client.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { updatedAt: 'desc' },
+        select: CLIENT_SUMMARY_SELECT,
+      }),
+      prisma.client.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    return {
+      clients,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalCount,
+        limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * A client with their bookings, inquiries, invoices and notes, newest first
+   */
+  async getProfile(id: string) {
+    const client = await prisma.client.findUnique({
+      where: { id },
+      include: {
+        bookings: {
+          orderBy: { startTime: 'desc' },
+          select: {
+            id: true,
+            startTime: true,
+            endTime: true,
+            timeZone: true,
+            status: true,
+            service: { select: { id: true, name: true } },
+          },
+        },
+        inquiries: {
+          orderBy: { createdAt: 'desc' },
+          select: {
+            id: true,
+            subject: true,
+            message: true,
+            serviceInterest: true,
+            status: true,
+            source: true,
+            createdAt: true,
+          },
+        },
+        notes: {
+          orderBy: { createdAt: 'desc' },
+          include: {
+            author: { select: { id: true, email: true, firstName: true, lastName: true } },
+          },
+        },
+        emails: {
+          orderBy: { createdAt: 'asc' },
+          select: { email: true, createdAt: true },
+        },
+      },
+    });
+
+    if (!client) {
+      throw createError('Client not found.', 404, 'CLIENT_NOT_FOUND');
+    }
+
+    const invoices = await prisma.invoice.findMany({
+      where: { booking: { clientId: id } },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        number: true,
+        type: true,
+        status: true,
+        currency: true,
+        total: true,
+        amountPaid: true,
+        bookingId: true,
+        createdAt: true,
+      },
+    });
+
+    return { ...client, invoices };
+  }
+
+  /**
+   * Other clients that are probably the same person: same phone number or same name
+   */
+  async findDuplicates(id: string) {
+    const client = await prisma.client.findUnique({ where: { id } });
+    if (!client) {
+      throw createError('Client not found.', 404, 'CLIENT_NOT_FOUND');
+    }
+
+    return prisma.client.findMany({
+      where: {
+        id: { not: id },
+        OR: [
+          { name: { equals: client.name, mode: 'insensitive' } },
+          ...(client.phone ? [{ phone: client.phone }] : []),
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+      select: CLIENT_SUMMARY_SELECT,
+    });
+  }
+
+  /**
+   * Move everything of a duplicate client onto another and delete the duplicate. The
+   * kept client takes the duplicate's phone if it has none, and keeps its emails so
+   * later bookings and inquiries from them still land here.
+   */
+  async merge(targetId: string, sourceId: string) {
+    if (targetId === sourceId) {
+      throw createError('A client cannot be merged into itself.', 400, 'INVALID_MERGE');
+    }
+
+    const [target, source] = await Promise.all([
+      prisma.client.findUnique({ where: { id: targetId } }),
+      prisma.client.findUnique({ where: { id: sourceId } }),
+    ]);
+
+    if (!target || !source) {
+      throw createError('Client not found.', 404, 'CLIENT_NOT_FOUND');
+    }
+
+    await prisma.$transaction([
+      prisma.booking.updateMany({ where: { clientId: sourceId }, data: { clientId: targetId } }),
+      prisma.contactInquiry.updateMany({ where: { clientId: sourceId }, data: { clientId: targetId } }),
+      prisma.clientNote.updateMany({ where: { clientId: sourceId }, data: { clientId: targetId } }),
+      prisma.clientEmail.updateMany({ where: { clientId: sourceId }, data: { clientId: targetId } }),
+      prisma.client.delete({ where: { id: sourceId } }),
+      prisma.clientEmail.create({ data: { clientId: targetId, email: source.email } }),
+      prisma.client.update({
+        where: { id: targetId },
+        data: { phone: target.phone ?? source.phone },
+      }),
+    ]);
+
+    logger.info('Clients merged', {
+      targetId,
+      sourceId,
+      sourceEmail: source.email,
+      service: 'ClientService',
+    });
+
+    return this.getProfile(targetId);
+  }
+
+  async addNote(clientId: string, body: string, author: { id: string }) {
+    const client = await prisma.client.findUnique({ where: { id: clientId }, select: { id: true } });
+    if (!client) {
+      throw createError('Client not found.', 404, 'CLIENT_NOT_FOUND');
+    }
+
+    return prisma.clientNote.create({
+      data: { clientId, body, authorId: author.id },
+      include: {
+        author: { select: { id: true, email: true, firstName: true, lastName: true } },
+      },
+    });
+  }
+}
+
+export const clientService = new ClientService();
@@ -33,6 +33,8 @@ export interface SecurityStats {
   highSeverityEvents: number;
   failedLogins: number;
   suspiciousActivity: number;
+  accountLockouts: number;
+  newDeviceLogins: number;
 }
 
 export interface SystemStats {
@@ -239,12 +241,19 @@ class DashboardService {
         log.event?.includes('unauthorized')
       ).length;
 
+      // Successful sign-ins are info level, so they only reach the application log
+      const authEvents = (await this.readLogFiles(timeRange, 'application')).filter(log => log.context === 'auth');
+      const accountLockouts = authEvents.filter(log => log.event === 'account_locked').length;
+      const newDeviceLogins = authEvents.filter(log => log.event === 'login_new_device').length;
+
       return {
         securityEvents,
         criticalEvents,
         highSeverityEvents,
         failedLogins,
         suspiciousActivity,
+        accountLockouts,
+        newDeviceLogins,
       };
 
     } catch (error) {
@@ -255,6 +264,8 @@ class DashboardService {
         highSeverityEvents: 0,
         failedLogins: 0,
         suspiciousActivity: 0,
+        accountLockouts: 0,
+        newDeviceLogins: 0,
       };
     }
   }
@@ -0,0 +1,59 @@
+import { EmailOutboxService } from './emailOutboxService';
+
+describe('EmailOutboxService - Delivery events', () => {
+  let emailOutboxService: EmailOutboxService;
+
+  beforeEach(() => {
+    emailOutboxService = new EmailOutboxService(null);
+  });
+
+  it('should map bounces, drops and spam reports', () => {
+    const events = emailOutboxService.parseSendGridEvents([
+      { event: 'bounce', email: 'gone@example.com', reason: '550 No such user', sg_message_id: 'abc123.filter0001.1.0' },
+      { event: 'dropped', email: 'dropped@example.com' },
+      { event: 'spamreport', email: 'angry@example.com', sg_message_id: 'def456.filter0002.1.0' },
+    ]);
+
+    expect(events).toEqual([
+      { email: 'gone@example.com', type: 'bounce', reason: '550 No such user', messageId: 'abc123' },
+      { email: 'dropped@example.com', type: 'dropped' },
+      { email: 'angry@example.com', type: 'complaint', messageId: 'def456' },
+    ]);
+  });
+
+  it('should ignore events that say nothing about deliverability', () => {
+    expect(emailOutboxService.parseSendGridEvents([
+      { event: 'delivered', email: 'client@example.com' },
+      { event: 'open', email: 'client@example.com' },
+      { event: 'bounce' },
+      null,
+    ])).toEqual([]);
+  });
+
+  it('should ignore payloads that are not a list of events', () => {
+    expect(emailOutboxService.parseSendGridEvents({ event: 'bounce', email: 'gone@example.com' })).toEqual([]);
+    expect(emailOutboxService.parseSendGridEvents(undefined)).toEqual([]);
+  });
+});
+
+describe('EmailOutboxService - Addresses and webhook tokens', () => {
+  let emailOutboxService: EmailOutboxService;
+
+  beforeEach(() => {
+    emailOutboxService = new EmailOutboxService(null);
+  });
+
+  it('should normalise addresses for suppression lookups', () => {
+    expect(emailOutboxService.normaliseAddress('  Client@Example.COM ')).toBe('client@example.com');
+  });
+
+  it('should accept only the configured webhook token', () => {
+    expect(emailOutboxService.isValidWebhookToken('s3cret', 's3cret')).toBe(true);
+    expect(emailOutboxService.isValidWebhookToken('guess', 's3cret')).toBe(false);
+  });
+
+  it('should reject every token when no secret is configured', () => {
+    expect(emailOutboxService.isValidWebhookToken('', '')).toBe(false);
+    expect(emailOutboxService.isValidWebhookToken('anything', undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,390 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma, EmailMessage } from '@prisma/client';
+import logger from '../config/logger';
+import { createError } from '../middleware/errorHandler';
+import { EmailAttachment } from './emailService';
+import { EmailDeliveryError, EmailTransport, createEmailTransport } from './emailTransports';
+import { jobQueueService } from './jobQueueService';
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 20;
+// Messages still 'sending' after this long belong to a worker that died and are tried again
+const STALE_SENDING_MS = 15 * 60 * 1000;
+
+export type SuppressionReason = 'bounce' | 'complaint' | 'manual';
+
+export interface OutboxLinks {
+  bookingId?: string;
+  inquiryId?: string;
+  templateKey?: string;
+}
+
+export interface OutboxEmail {
+  to: string;
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailMessageFilters {
+  bookingId?: string;
+  inquiryId?: string;
+  status?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Provider report that an address could not, or must not, be mailed
+export interface DeliveryEvent {
+  email: string;
+  type: 'bounce' | 'complaint' | 'dropped';
+  reason?: string;
+  messageId?: string;
+}
+
+const MESSAGE_LIST_SELECT = {
+  id: true,
+  toEmail: true,
+  subject: true,
+  templateKey: true,
+  status: true,
+  attempts: true,
+  maxAttempts: true,
+  nextAttemptAt: true,
+  lastError: true,
+  transport: true,
+  sentAt: true,
+  bookingId: true,
+  inquiryId: true,
+  createdAt: true,
+} as const;
+
+export class EmailOutboxService {
+  private readonly from = {
+    email: process.env['FROM_EMAIL'] || 'noreply@derjiproductions.com',
+    name: 'Derji Productions',
+  };
+
+  constructor(private readonly transport: EmailTransport | null = createEmailTransport()) {}
+
+  normaliseAddress(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  /**
+   * Check the shared secret on the delivery event webhook. Always false when no
+   * secret is configured, so the endpoint is closed by default.
+   */
+  isValidWebhookToken(token: string, secret: string | undefined = process.env['EMAIL_WEBHOOK_SECRET']): boolean {
+    if (!secret) {
+      return false;
+    }
+
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(token), digest(secret));
+  }
+
+  /**
+   * Map a SendGrid event webhook payload to delivery events, ignoring events that say
+   * nothing about deliverability (opens, clicks, deliveries)
+   */
+  parseSendGridEvents(payload: unknown): DeliveryEvent[] {
+    if (!Array.isArray(payload)) {
+      return [];
+    }
+
+    const types: Record<string, DeliveryEvent['type']> = {
+      bounce: 'bounce',
+      dropped: 'dropped',
+      spamreport: 'complaint',
+    };
+
+    return payload.flatMap(event => {
+      const type = types[event?.event];
+      if (!type || typeof event.email !== 'string') {
+        return [];
+      }
+
+      return [{
+        email: event.email,
+        type,
+        ...(typeof event.reason === 'string' && { reason: event.reason }),
+        // sg_message_id is the X-Message-Id returned on send, followed by '.filter...'
+        ...(typeof event.sg_message_id === 'string' && { messageId: event.sg_message_id.split('.')[0] }),
+      }];
+    });
+  }
+
+  /**
+   * Record an email and try to deliver it straight away. Failed deliveries stay in the
+   * outbox to be retried, so this only throws when the outbox itself cannot be written.
+   */
+  async enqueue(email: OutboxEmail, links: OutboxLinks = {}): Promise<EmailMessage> {
+    const suppression = await prisma.emailSuppression.findUnique({
+      where: { email: this.normaliseAddress(email.to) },
+    });
+
+    const message = await prisma.emailMessage.create({
+      data: {
+        toEmail: email.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        replyTo: email.replyTo ?? null,
+        ...(email.attachments?.length && { attachments: email.attachments as unknown as Prisma.InputJsonValue }),
+        templateKey: links.templateKey ?? null,
+        bookingId: links.bookingId ?? null,
+        inquiryId: links.inquiryId ?? null,
+        ...(suppression && {
+          status: 'suppressed',
+          lastError: `Address suppressed after ${suppression.reason}`,
+        }),
+      },
+    });
+
+    if (suppression) {
+      logger.warn('Email to suppressed address not sent', {
+        to: email.to,
+        subject: email.subject,
+        reason: suppression.reason,
+        service: 'EmailOutboxService',
+      });
+      return message;
+    }
+
+    return (await this.deliver(message.id)) ?? message;
+  }
+
+  /**
+   * Deliver queued messages whose next attempt is due. Returns the number attempted.
+   */
+  async processDue(now: Date = new Date()): Promise<number> {
+    await prisma.emailMessage.updateMany({
+      where: { status: 'sending', updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) } },
+      data: { status: 'queued' },
+    });
+
+    const due = await prisma.emailMessage.findMany({
+      where: { status: 'queued', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: BATCH_SIZE,
+      select: { id: true },
+    });
+
+    for (const { id } of due) {
+      await this.deliver(id);
+    }
+
+    return due.length;
+  }
+
+  async getMessages(filters: EmailMessageFilters = {}) {
+    const page = filters.page ?? 1;
+    const limit = filters.limit ?? 20;
+    const where: Prisma.EmailMessageWhereInput = {
+      ...(filters.bookingId && { bookingId: filters.bookingId }),
+      ...(filters.inquiryId && { inquiryId: filters.inquiryId }),
+      ...(filters.status && { status: filters.status }),
+    };
+
+    const [messages, total] = await Promise.all([
+      prisma.emailMessage.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        select: MESSAGE_LIST_SELECT,
+      }),
+      prisma.emailMessage.count({ where }),
+    ]);
+
+    return {
+      messages,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getMessage(id: string) {
+    const message = await prisma.emailMessage.findUnique({ where: { id } });
+    if (!message) {
+      throw createError('Email message with the specified ID does not exist', 404, 'Email message not found');
+    }
+    return message;
+  }
+
+  /**
+   * Send a failed message again now, with a fresh set of attempts
+   */
+  async retry(id: string) {
+    const message = await this.getMessage(id);
+
+    if (message.status !== 'failed') {
+      throw createError('Only failed messages can be retried', 409, 'Message not failed');
+    }
+
+    const suppression = await prisma.emailSuppression.findUnique({
+      where: { email: this.normaliseAddress(message.toEmail) },
+    });
+    if (suppression) {
+      throw createError('The recipient is on the suppression list', 409, 'Address suppressed');
+    }
+
+    await prisma.emailMessage.update({
+      where: { id },
+      data: { status: 'queued', attempts: 0, nextAttemptAt: new Date(), lastError: null },
+    });
+
+    return (await this.deliver(id)) ?? this.getMessage(id);
+  }
+
+  /**
+   * Apply bounce and complaint reports: the address is suppressed, and the message
+   * it was reported for is marked bounced. Returns the number of events applied.
+   */
+  async handleDeliveryEvents(events: DeliveryEvent[]): Promise<number> {
+    for (const event of events) {
+      // Dropped messages were refused by the provider, often for an existing suppression
+      if (event.type !== 'dropped') {
+        await this.suppress(event.email, event.type === 'complaint' ? 'complaint' : 'bounce', event.reason);
+      }
+
+      if (event.messageId) {
+        await prisma.emailMessage.updateMany({
+          where: { providerMessageId: event.messageId },
+          data: {
+            status: event.type === 'dropped' ? 'failed' : 'bounced',
+            ...(event.reason && { lastError: event.reason }),
+          },
+        });
+      }
+    }
+
+    return events.length;
+  }
+
+  async suppress(email: string, reason: SuppressionReason, details?: string) {
+    const address = this.normaliseAddress(email);
+
+    const suppression = await prisma.emailSuppression.upsert({
+      where: { email: address },
+      create: { email: address, reason, details: details ?? null },
+      update: { reason, details: details ?? null },
+    });
+
+    // Nothing still waiting in the outbox should go to the address
+    await prisma.emailMessage.updateMany({
+      where: { toEmail: { equals: address, mode: 'insensitive' }, status: 'queued' },
+      data: { status: 'suppressed', lastError: `Address suppressed after ${reason}` },
+    });
+
+    return suppression;
+  }
+
+  async getSuppressions() {
+    return prisma.emailSuppression.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async removeSuppression(id: string): Promise<void> {
+    const suppression = await prisma.emailSuppression.findUnique({ where: { id } });
+    if (!suppression) {
+      throw createError('Suppression with the specified ID does not exist', 404, 'Suppression not found');
+    }
+
+    await prisma.emailSuppression.delete({ where: { id } });
+  }
+
+  /**
+   * Deliver due outbox messages on every scheduler tick
+   */
+  register(): void {
+    jobQueueService.addPeriodicTask('email outbox', now => this.processDue(now).then(() => undefined));
+  }
+
+  /**
+   * Make one delivery attempt. Returns the updated message, or null when another
+   * worker got to it first.
+   */
+  private async deliver(id: string): Promise<EmailMessage | null> {
+    const { count } = await prisma.emailMessage.updateMany({
+      where: { id, status: 'queued' },
+      data: { status: 'sending', attempts: { increment: 1 }, transport: this.transport?.name ?? null },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const message = await prisma.emailMessage.findUniqueOrThrow({ where: { id } });
+
+    try {
+      if (!this.transport) {
+        throw new EmailDeliveryError('No email transport is configured; set EMAIL_TRANSPORT or SENDGRID_API_KEY');
+      }
+
+      const result = await this.transport.send({
+        from: this.from,
+        to: message.toEmail,
+        ...(message.replyTo && { replyTo: message.replyTo }),
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        attachments: (message.attachments as unknown as EmailAttachment[] | null) ?? [],
+      });
+
+      logger.info('Email sent successfully', {
+        to: message.toEmail,
+        subject: message.subject,
+        transport: this.transport.name,
+        service: 'EmailOutboxService',
+      });
+
+      return prisma.emailMessage.update({
+        where: { id },
+        data: {
+          status: 'sent',
+          sentAt: new Date(),
+          lastError: null,
+          providerMessageId: result.messageId ?? null,
+        },
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      const permanent = error instanceof EmailDeliveryError && error.permanent;
+      const giveUp = permanent || message.attempts >= message.maxAttempts;
+
+      logger.error('Failed to send email', {
+        to: message.toEmail,
+        subject: message.subject,
+        attempts: message.attempts,
+        willRetry: !giveUp,
+        error: reason,
+        service: 'EmailOutboxService',
+      });
+
+      if (error instanceof EmailDeliveryError && error.recipientRejected) {
+        await this.suppress(message.toEmail, 'bounce', reason);
+      }
+
+      return prisma.emailMessage.update({
+        where: { id },
+        data: {
+          status: giveUp ? 'failed' : 'queued',
+          lastError: reason,
+          ...(!giveUp && { nextAttemptAt: new Date(Date.now() + jobQueueService.getRetryDelay(message.attempts)) }),
+        },
+      });
+    }
+  }
+}
+
+export const emailOutboxService = new EmailOutboxService();
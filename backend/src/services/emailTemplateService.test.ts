@@ -0,0 +1,62 @@
+import { EmailTemplateService } from './emailTemplateService';
+import { EMAIL_TEMPLATES } from './emailTemplates';
+
+describe('EmailTemplateService - Rendering', () => {
+  let emailTemplateService: EmailTemplateService;
+
+  beforeEach(() => {
+    emailTemplateService = new EmailTemplateService();
+  });
+
+  it('should render every built-in template with its sample data', () => {
+    for (const definition of EMAIL_TEMPLATES) {
+      const template = emailTemplateService.renderSource(definition, definition, definition.sampleData);
+
+      expect(template.subject).not.toMatch(/\{\{|\}\}/);
+      expect(template.html).toMatch(/^<!DOCTYPE html>/);
+      expect(template.text).not.toMatch(/<\/?(p|div|h\d|ul|li|a|table|tr|td|br)\b/);
+    }
+  });
+
+  it('should escape client-supplied fields in the body but not the subject', () => {
+    const definition = emailTemplateService.getDefinition('contact-inquiry');
+    const template = emailTemplateService.renderSource(definition, definition, {
+      inquiry: {
+        id: 'inquiry-1',
+        name: 'Eve <img src=x onerror=alert(1)>',
+        email: 'eve@example.com',
+        message: '<script>steal()</script>',
+      },
+    });
+
+    expect(template.html).not.toContain('<script>');
+    expect(template.html).not.toContain('<img');
+    expect(template.html).toContain('&lt;script&gt;steal()&lt;/script&gt;');
+    expect(template.subject).toBe('New Contact Inquiry from Eve <img src=x onerror=alert(1)>');
+    expect(template.text).toContain('<script>steal()</script>');
+  });
+
+  it('should wrap the content in the shared layout and derive the text from it', () => {
+    const definition = emailTemplateService.getDefinition('booking-follow-up');
+    const template = emailTemplateService.renderSource(
+      definition,
+      { subject: 'Thanks {{booking.clientName}}', body: '<p>Hi {{booking.clientName}}, thanks!</p>' },
+      { booking: { clientName: 'Ama' } }
+    );
+
+    expect(template.subject).toBe('Thanks Ama');
+    expect(template.html).toMatch(/^<!DOCTYPE html>/);
+    expect(template.html).toContain('<p>Hi Ama, thanks!</p>');
+    expect(template.text).toContain('Derji Productions\n\nThank You\n\nHi Ama, thanks!');
+  });
+
+  it('should reject templates that do not parse', () => {
+    expect(() => emailTemplateService.validateSource({ subject: 'Hi', body: '{{#if a}}unclosed' })).toThrow(
+      'Missing {{/if}} for {{#if a}}'
+    );
+  });
+
+  it('should not know unknown templates', () => {
+    expect(() => emailTemplateService.getDefinition('missing')).toThrow('Email template with the specified key does not exist');
+  });
+});
@@ -0,0 +1,174 @@
+import { PrismaClient } from '@prisma/client';
+import { createError } from '../middleware/errorHandler';
+import {
+  SafeHtml,
+  TemplateContext,
+  TemplateEngine,
+  TemplateSyntaxError,
+  htmlTemplateEngine,
+  htmlToText,
+  textTemplateEngine,
+} from '../utils/templateEngine';
+import { EMAIL_LAYOUT, EMAIL_TEMPLATES, EmailTemplateDefinition } from './emailTemplates';
+import { EmailTemplate } from './emailService';
+
+const prisma = new PrismaClient();
+
+export interface TemplateSource {
+  subject: string;
+  body: string;
+}
+
+export class EmailTemplateService {
+  private readonly definitions = new Map(EMAIL_TEMPLATES.map(definition => [definition.key, definition]));
+  private readonly companyName = 'Derji Productions';
+  private readonly adminEmail = process.env['ADMIN_EMAIL'] || 'admin@derjiproductions.com';
+
+  constructor(
+    private readonly htmlEngine: TemplateEngine = htmlTemplateEngine,
+    private readonly textEngine: TemplateEngine = textTemplateEngine
+  ) {}
+
+  getDefinition(key: string): EmailTemplateDefinition {
+    const definition = this.definitions.get(key);
+    if (!definition) {
+      throw createError('Email template with the specified key does not exist', 404, 'Template not found');
+    }
+    return definition;
+  }
+
+  /**
+   * Throw a 400 naming the problem when a subject or body cannot be parsed
+   */
+  validateSource(source: TemplateSource): void {
+    try {
+      this.textEngine.compile(source.subject);
+      this.htmlEngine.compile(source.body);
+    } catch (error) {
+      if (error instanceof TemplateSyntaxError) {
+        throw createError(error.message, 400, 'Invalid template');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Render a template inside the shared layout. The plain-text version is generated
+   * from the same HTML, so the two never drift apart.
+   */
+  renderSource(definition: EmailTemplateDefinition, source: TemplateSource, data: TemplateContext): EmailTemplate {
+    const context = {
+      companyName: this.companyName,
+      adminEmail: this.adminEmail,
+      year: new Date().getFullYear(),
+      ...data,
+    };
+
+    const content = this.htmlEngine.compile(source.body)(context);
+    const html = this.htmlEngine.compile(EMAIL_LAYOUT)({
+      ...context,
+      heading: definition.heading,
+      audience: definition.audience,
+      isAdmin: definition.audience === 'admin',
+      isClient: definition.audience === 'client',
+      content: new SafeHtml(content),
+    });
+
+    return {
+      subject: this.textEngine.compile(source.subject)(context),
+      html,
+      text: htmlToText(html),
+    };
+  }
+
+  /**
+   * Render a template for sending, using the admin's override when there is one
+   */
+  async render(key: string, data: TemplateContext): Promise<EmailTemplate> {
+    const definition = this.getDefinition(key);
+    const override = await prisma.emailTemplate.findUnique({ where: { key } });
+
+    return this.renderSource(definition, override ?? definition, data);
+  }
+
+  async listTemplates() {
+    const overrides = await prisma.emailTemplate.findMany({
+      select: { key: true, updatedAt: true },
+    });
+    const updatedAt = new Map(overrides.map(override => [override.key, override.updatedAt]));
+
+    return EMAIL_TEMPLATES.map(definition => ({
+      key: definition.key,
+      name: definition.name,
+      description: definition.description,
+      customised: updatedAt.has(definition.key),
+      updatedAt: updatedAt.get(definition.key) ?? null,
+    }));
+  }
+
+  async getTemplate(key: string) {
+    const definition = this.getDefinition(key);
+    const override = await prisma.emailTemplate.findUnique({
+      where: { key },
+      include: {
+        updatedBy: {
+          select: { id: true, email: true },
+        },
+      },
+    });
+
+    return {
+      key: definition.key,
+      name: definition.name,
+      description: definition.description,
+      variables: definition.variables,
+      subject: override?.subject ?? definition.subject,
+      body: override?.body ?? definition.body,
+      defaultSubject: definition.subject,
+      defaultBody: definition.body,
+      customised: !!override,
+      updatedAt: override?.updatedAt ?? null,
+      updatedBy: override?.updatedBy ?? null,
+    };
+  }
+
+  async updateTemplate(key: string, source: TemplateSource, userId?: string) {
+    this.getDefinition(key);
+    this.validateSource(source);
+
+    await prisma.emailTemplate.upsert({
+      where: { key },
+      create: { key, subject: source.subject, body: source.body, updatedById: userId ?? null },
+      update: { subject: source.subject, body: source.body, updatedById: userId ?? null },
+    });
+
+    return this.getTemplate(key);
+  }
+
+  /**
+   * Drop the admin's override so the built-in template is used again
+   */
+  async resetTemplate(key: string) {
+    this.getDefinition(key);
+    await prisma.emailTemplate.deleteMany({ where: { key } });
+
+    return this.getTemplate(key);
+  }
+
+  /**
+   * Render the saved template, or an unsaved draft, with the template's sample data
+   */
+  async preview(key: string, draft: Partial<TemplateSource> = {}): Promise<EmailTemplate> {
+    const definition = this.getDefinition(key);
+    const saved = await prisma.emailTemplate.findUnique({ where: { key } });
+    const source = {
+      subject: draft.subject ?? saved?.subject ?? definition.subject,
+      body: draft.body ?? saved?.body ?? definition.body,
+    };
+
+    this.validateSource(source);
+    return this.renderSource(definition, source, definition.sampleData);
+  }
+}
+
+export const emailTemplateService = new EmailTemplateService();
@@ -0,0 +1,562 @@
+import { TemplateContext } from '../utils/templateEngine';
+
+export interface EmailTemplateDefinition {
+  key: string;
+  name: string;
+  description: string;
+  audience: 'client' | 'admin'; // picks the layout's header style
+  heading: string; // shown under the layout's title
+  subject: string;
+  body: string; // HTML placed inside the shared layout
+  variables: string[]; // documented for admins editing the template
+  sampleData: TemplateContext; // used for previews
+}
+
+/**
+ * Branded frame shared by every email. Templates supply the content; the plain-text
+ * version is generated from the rendered result.
+ */
+export const EMAIL_LAYOUT = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>{{heading}}</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+    .header h1 { margin: 0; font-size: 28px; }
+    .header p { margin: 10px 0 0 0; }
+    .header-client { background: linear-gradient(135deg, #d4af37, #f4e4a6); color: #2c1810; }
+    .header-admin { background: #2c1810; color: #d4af37; }
+    .content { background: #fff; padding: 30px; border: 1px solid #ddd; }
+    .details { background: #f9f9f9; padding: 20px; border-radius: 8px; margin: 20px 0; }
+    .detail-row { margin: 10px 0; padding: 8px 0; border-bottom: 1px solid #eee; }
+    .detail-label { font-weight: bold; color: #555; display: inline-block; width: 150px; }
+    .notice { background: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 8px; margin: 20px 0; }
+    .status-update { background: #e8f5e8; border: 1px solid #4caf50; padding: 20px; border-radius: 8px; margin: 20px 0; text-align: center; }
+    .status-badge { display: inline-block; padding: 4px 12px; border-radius: 20px; font-size: 12px; font-weight: bold; text-transform: uppercase; }
+    .status-pending { background: #fff3cd; color: #856404; }
+    .status-confirmed { background: #d4edda; color: #155724; }
+    .message-box { background: #fff; border: 1px solid #ddd; padding: 15px; border-radius: 8px; margin: 15px 0; white-space: pre-line; }
+    .button { display: inline-block; background: #d4af37; color: #2c1810; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { text-align: left; padding: 8px; border-bottom: 1px solid #eee; font-size: 14px; }
+    .footer { background: #f5f5f5; padding: 20px; text-align: center; border-radius: 0 0 8px 8px; font-size: 14px; color: #666; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header header-{{audience}}">
+      <h1>{{#if isAdmin}}{{heading}}{{else}}{{companyName}}{{/if}}</h1>
+      <p>{{#if isAdmin}}Admin Notification{{else}}{{heading}}{{/if}}</p>
+    </div>
+    <div class="content">
+{{content}}
+    </div>
+    {{#if isClient}}
+    <div class="footer">
+      <p>&copy; {{year}} {{companyName}}. All rights reserved.</p>
+      <p>Professional Photography | Videography | Sound Production</p>
+    </div>
+    {{/if}}
+  </div>
+</body>
+</html>
+`;
+
+const SAMPLE_BOOKING = {
+  id: 'cm0sample0booking',
+  clientName: 'Ama Mensah',
+  clientEmail: 'ama@example.com',
+  clientPhone: '+233 20 000 0000',
+  status: 'pending',
+  location: 'Derji Studio, Accra',
+  budgetRange: '$1,000 - $2,500',
+  projectDetails: 'Product shoot for a new skincare line, around 20 edited images.',
+  notes: 'Prefers morning sessions',
+};
+
+const SAMPLE_SCHEDULE = {
+  bookingDate: '3/14/2026',
+  startTime: '10:00:00 AM',
+  endTime: '12:00:00 PM GMT',
+};
+
+const SAMPLE_SERVICE = { name: 'Product Photography', categoryName: 'Photography' };
+
+const SAMPLE_MANAGE_URL = 'https://derjiproductions.com/bookings/manage/sample-token';
+
+export const EMAIL_TEMPLATES: EmailTemplateDefinition[] = [
+  {
+    key: 'booking-confirmation',
+    name: 'Booking confirmation',
+    description: 'Sent to the client when they make a booking, with a calendar invite attached',
+    audience: 'client',
+    heading: 'Booking Confirmation',
+    subject: 'Booking Confirmation - {{service.name}} on {{schedule.bookingDate}}',
+    body: `<h2>Booking Confirmation</h2>
+<p>Dear {{booking.clientName}},</p>
+<p>Thank you for booking with {{companyName}}! Your booking has been received and is currently <span class="status-badge status-{{booking.status}}">{{booking.status}}</span>.</p>
+
+<div class="details">
+  <h3>Booking Details</h3>
+  <div class="detail-row"><span class="detail-label">Booking ID:</span> {{booking.id}}</div>
+  <div class="detail-row"><span class="detail-label">Service:</span> {{service.name}}{{#if service.categoryName}} ({{service.categoryName}}){{/if}}</div>
+  <div class="detail-row"><span class="detail-label">Date:</span> {{schedule.bookingDate}}</div>
+  <div class="detail-row"><span class="detail-label">Time:</span> {{schedule.startTime}} - {{schedule.endTime}}</div>
+  {{#if booking.location}}<div class="detail-row"><span class="detail-label">Location:</span> {{booking.location}}</div>{{/if}}
+  {{#if booking.budgetRange}}<div class="detail-row"><span class="detail-label">Budget Range:</span> {{booking.budgetRange}}</div>{{/if}}
+  {{#if booking.projectDetails}}<div class="detail-row"><span class="detail-label">Project Details:</span> {{booking.projectDetails}}</div>{{/if}}
+  {{#if sessions}}
+  <h4>Sessions</h4>
+  <ul>{{#each sessions}}<li>{{this}}</li>{{/each}}</ul>
+  {{/if}}
+</div>
+
+<h3>What's Next?</h3>
+<ul>
+  <li>Our team will review your booking and confirm availability within 24 hours</li>
+  <li>You will receive a confirmation email once your booking is approved</li>
+  <li>We may contact you to discuss project details and requirements</li>
+  <li>Payment details and contracts will be provided upon confirmation</li>
+</ul>
+
+{{#if manageUrl}}
+<p>You can view, reschedule or cancel your booking at any time using your personal link:</p>
+<p><a href="{{manageUrl}}">Manage my booking</a></p>
+{{/if}}
+
+<p>If you have any questions or need to make changes to your booking, please contact us at {{adminEmail}}.</p>
+
+<p>We look forward to working with you!</p>
+<p>Best regards,<br>The {{companyName}} Team</p>`,
+    variables: ['booking.*', 'schedule.bookingDate', 'schedule.startTime', 'schedule.endTime', 'service.name', 'service.categoryName', 'sessions', 'manageUrl'],
+    sampleData: {
+      booking: SAMPLE_BOOKING,
+      schedule: SAMPLE_SCHEDULE,
+      service: SAMPLE_SERVICE,
+      sessions: [],
+      manageUrl: SAMPLE_MANAGE_URL,
+    },
+  },
+  {
+    key: 'booking-admin-notification',
+    name: 'New booking (admin)',
+    description: 'Sent to the studio when a client makes a booking',
+    audience: 'admin',
+    heading: 'New Booking Alert',
+    subject: 'New Booking: {{booking.clientName}} - {{service.name}} on {{schedule.bookingDate}}',
+    body: `<div class="notice">
+  <strong>Action Required:</strong> A new booking has been submitted and requires your review.
+</div>
+
+<div class="details">
+  <h3>Booking Information</h3>
+  <div class="detail-row"><span class="detail-label">Booking ID:</span> {{booking.id}}</div>
+  <div class="detail-row"><span class="detail-label">Client Name:</span> {{booking.clientName}}</div>
+  <div class="detail-row"><span class="detail-label">Client Email:</span> {{booking.clientEmail}}</div>
+  {{#if booking.clientPhone}}<div class="detail-row"><span class="detail-label">Client Phone:</span> {{booking.clientPhone}}</div>{{/if}}
+  <div class="detail-row"><span class="detail-label">Service:</span> {{service.name}}</div>
+  <div class="detail-row"><span class="detail-label">Date & Time:</span> {{schedule.bookingDate}} from {{schedule.startTime}} to {{schedule.endTime}}</div>
+  {{#if booking.location}}<div class="detail-row"><span class="detail-label">Location:</span> {{booking.location}}</div>{{/if}}
+  {{#if booking.budgetRange}}<div class="detail-row"><span class="detail-label">Budget Range:</span> {{booking.budgetRange}}</div>{{/if}}
+  {{#if booking.projectDetails}}<div class="detail-row"><span class="detail-label">Project Details:</span> {{booking.projectDetails}}</div>{{/if}}
+  {{#if booking.notes}}<div class="detail-row"><span class="detail-label">Notes:</span> {{booking.notes}}</div>{{/if}}
+  {{#if sessions}}
+  <h4>Sessions</h4>
+  <ul>{{#each sessions}}<li>{{this}}</li>{{/each}}</ul>
+  {{/if}}
+</div>
+
+<h3>Next Steps</h3>
+<ol>
+  <li>Review the booking details and check availability</li>
+  <li>Contact the client if you need additional information</li>
+  <li>Update the booking status in the admin panel</li>
+  <li>Send confirmation or follow-up communication to the client</li>
+</ol>
+
+<p><strong>Remember:</strong> Respond to booking requests within 24 hours to maintain excellent customer service.</p>`,
+    variables: ['booking.*', 'schedule.bookingDate', 'schedule.startTime', 'schedule.endTime', 'service.name', 'sessions'],
+    sampleData: {
+      booking: SAMPLE_BOOKING,
+      schedule: SAMPLE_SCHEDULE,
+      service: SAMPLE_SERVICE,
+      sessions: [],
+    },
+  },
+  {
+    key: 'booking-status-update',
+    name: 'Booking status update',
+    description: 'Sent to the client when their booking is confirmed, cancelled or completed',
+    audience: 'client',
+    heading: 'Booking Status Update',
+    subject: 'Booking Update: {{service.name}} on {{schedule.bookingDate}} - {{statusLabel}}',
+    body: `<h2>Hello {{booking.clientName}},</h2>
+
+<div class="status-update">
+  <h3>{{statusMessage}}</h3>
+  <p><strong>Previous Status:</strong> {{previousStatus}} &rarr; <strong>Current Status:</strong> {{booking.status}}</p>
+</div>
+
+<div class="details">
+  <h4>Booking Summary</h4>
+  <p><strong>Service:</strong> {{service.name}}</p>
+  <p><strong>Date & Time:</strong> {{schedule.bookingDate}} at {{schedule.startTime}}</p>
+  <p><strong>Booking ID:</strong> {{booking.id}}</p>
+  {{#if sessions}}
+  <h4>Sessions</h4>
+  <ul>{{#each sessions}}<li>{{this}}</li>{{/each}}</ul>
+  {{/if}}
+</div>
+
+<p>{{nextSteps}}</p>
+
+{{#if manageUrl}}<p><a href="{{manageUrl}}">Manage my booking</a></p>{{/if}}
+
+<p>If you have any questions, please don't hesitate to contact us at {{adminEmail}}.</p>
+
+<p>Best regards,<br>The {{companyName}} Team</p>`,
+    variables: ['booking.*', 'schedule.bookingDate', 'schedule.startTime', 'service.name', 'sessions', 'manageUrl', 'previousStatus', 'statusLabel', 'statusMessage', 'nextSteps'],
+    sampleData: {
+      booking: { ...SAMPLE_BOOKING, status: 'confirmed' },
+      schedule: { ...SAMPLE_SCHEDULE, startTime: '10:00:00 AM GMT' },
+      service: SAMPLE_SERVICE,
+      sessions: [],
+      manageUrl: SAMPLE_MANAGE_URL,
+      previousStatus: 'pending',
+      statusLabel: 'CONFIRMED',
+      statusMessage: 'Great news! Your booking has been confirmed.',
+      nextSteps: 'We will contact you closer to the date with final details and preparation instructions.',
+    },
+  },
+  {
+    key: 'contact-inquiry',
+    name: 'Contact inquiry (admin)',
+    description: 'Sent to the studio when someone submits the contact form',
+    audience: 'admin',
+    heading: 'New Contact Inquiry',
+    subject: 'New Contact Inquiry from {{inquiry.name}}',
+    body: `<div class="details">
+  <h3>Contact Information</h3>
+  <div class="detail-row"><span class="detail-label">Inquiry ID:</span> {{inquiry.id}}</div>
+  <div class="detail-row"><span class="detail-label">Name:</span> {{inquiry.name}}</div>
+  <div class="detail-row"><span class="detail-label">Email:</span> {{inquiry.email}}</div>
+  {{#if inquiry.phone}}<div class="detail-row"><span class="detail-label">Phone:</span> {{inquiry.phone}}</div>{{/if}}
+  {{#if inquiry.subject}}<div class="detail-row"><span class="detail-label">Subject:</span> {{inquiry.subject}}</div>{{/if}}
+  {{#if inquiry.serviceInterest}}<div class="detail-row"><span class="detail-label">Service Interest:</span> {{inquiry.serviceInterest}}</div>{{/if}}
+</div>
+
+<h3>Message</h3>
+<div class="message-box">{{inquiry.message}}</div>
+
+<p><strong>Action Required:</strong> Please respond to this inquiry promptly to maintain excellent customer service.</p>`,
+    variables: ['inquiry.id', 'inquiry.name', 'inquiry.email', 'inquiry.phone', 'inquiry.subject', 'inquiry.serviceInterest', 'inquiry.message'],
+    sampleData: {
+      inquiry: {
+        id: 'cm0sample0inquiry',
+        name: 'Kofi Boateng',
+        email: 'kofi@example.com',
+        phone: '+233 24 000 0000',
+        subject: 'Wedding videography',
+        serviceInterest: 'Videography',
+        message: 'Hello,\nWe are getting married in June and would love a quote for a full-day video package.\nThanks!',
+      },
+    },
+  },
+  {
+    key: 'inquiry-reply',
+    name: 'Inquiry reply',
+    description: 'Sent to the client when an admin replies to their inquiry from the admin panel',
+    audience: 'client',
+    heading: 'Re: Your Inquiry',
+    subject: 'Re: {{#if inquiry.subject}}{{inquiry.subject}}{{else}}Your inquiry{{/if}} - {{companyName}}',
+    body: `<h2>Hello {{inquiry.name}},</h2>
+
+<div class="message-box">{{body}}</div>
+
+<p>Simply reply to this email to continue the conversation.</p>
+
+<p>Best regards,<br>The {{companyName}} Team</p>
+
+<div class="details">
+  <h4>Your original message</h4>
+  <div class="message-box">{{inquiry.message}}</div>
+</div>`,
+    variables: ['inquiry.name', 'inquiry.subject', 'inquiry.message', 'body'],
+    sampleData: {
+      inquiry: {
+        name: 'Kofi Boateng',
+        subject: 'Wedding videography',
+        message: 'Hello,\nWe are getting married in June and would love a quote for a full-day video package.\nThanks!',
+      },
+      body: 'Hi Kofi,\nCongratulations! Our full-day package covers ceremony and reception with a highlight film.\nWould you like to come by the studio to talk it through?',
+    },
+  },
+  {
+    key: 'waitlist-offer',
+    name: 'Waitlist offer',
+    description: 'Sent to a waitlisted client when a slot opens up and is held for them',
+    audience: 'client',
+    heading: 'A Slot Has Opened Up',
+    subject: 'A slot has opened up on {{slot.date}} - {{companyName}}',
+    body: `<h2>Hello {{entry.clientName}},</h2>
+
+<p>Good news! A slot has opened up on the day you were waiting for, and we are holding it for you.</p>
+
+<div class="details">
+  <h4>Held Slot</h4>
+  <p><strong>Service:</strong> {{service.name}}</p>
+  <p><strong>Date:</strong> {{slot.date}}</p>
+  <p><strong>Time:</strong> {{slot.startTime}} - {{slot.endTime}}</p>
+  <p><strong>Held until:</strong> {{holdExpiresAt}}</p>
+</div>
+
+<p><a class="button" href="{{claimUrl}}">Book this slot</a></p>
+
+<p>If you don't book it by then, the slot will be offered to the next person on the waitlist.</p>
+
+<p>Best regards,<br>The {{companyName}} Team</p>`,
+    variables: ['entry.clientName', 'slot.date', 'slot.startTime', 'slot.endTime', 'service.name', 'holdExpiresAt', 'claimUrl'],
+    sampleData: {
+      entry: { clientName: SAMPLE_BOOKING.clientName },
+      slot: { date: SAMPLE_SCHEDULE.bookingDate, startTime: SAMPLE_SCHEDULE.startTime, endTime: SAMPLE_SCHEDULE.endTime },
+      service: SAMPLE_SERVICE,
+      holdExpiresAt: '3/10/2026, 11:00:00 AM GMT',
+      claimUrl: 'https://derjiproductions.com/bookings/waitlist/sample-token',
+    },
+  },
+  {
+    key: 'booking-reminder',
+    name: 'Booking reminder',
+    description: 'Sent to the client 48 hours and 2 hours before their session',
+    audience: 'client',
+    heading: 'Booking Reminder',
+    subject: 'Reminder: {{service.name}} on {{schedule.bookingDate}} at {{schedule.startTime}}',
+    body: `<h2>Hello {{booking.clientName}},</h2>
+
+<p>This is a friendly reminder that your session with us is {{when}}.</p>
+
+<div class="details">
+  <h4>Booking Summary</h4>
+  <p><strong>Service:</strong> {{service.name}}</p>
+  <p><strong>Date:</strong> {{schedule.bookingDate}}</p>
+  <p><strong>Time:</strong> {{schedule.startTime}} - {{schedule.endTime}}</p>
+  {{#if booking.location}}<p><strong>Location:</strong> {{booking.location}}</p>{{/if}}
+  <p><strong>Booking ID:</strong> {{booking.id}}</p>
+</div>
+
+{{#if manageUrl}}<p>Need to make a change? <a href="{{manageUrl}}">Manage my booking</a></p>{{/if}}
+
+<p>If you have any questions, please don't hesitate to contact us at {{adminEmail}}.</p>
+
+<p>See you soon,<br>The {{companyName}} Team</p>`,
+    variables: ['booking.*', 'schedule.bookingDate', 'schedule.startTime', 'schedule.endTime', 'service.name', 'manageUrl', 'when'],
+    sampleData: {
+      booking: { ...SAMPLE_BOOKING, status: 'confirmed' },
+      schedule: SAMPLE_SCHEDULE,
+      service: SAMPLE_SERVICE,
+      manageUrl: SAMPLE_MANAGE_URL,
+      when: 'in 2 days',
+    },
+  },
+  {
+    key: 'booking-follow-up',
+    name: 'Post-shoot follow-up',
+    description: 'Sent to the client the day after their booking is marked completed',
+    audience: 'client',
+    heading: 'Thank You',
+    subject: 'Thank you for your {{service.name}} session - {{companyName}}',
+    body: `<h2>Hello {{booking.clientName}},</h2>
+
+<p>Thank you for choosing {{companyName}} for your {{service.name}} session on {{schedule.bookingDate}}. We hope you enjoyed working with us!</p>
+
+<p>We would love to hear how it went. Simply reply to this email with any feedback, and let us know if there is anything else we can help you with.</p>
+
+<p>When you're ready for your next project, we'll be here.</p>
+
+<p>Best regards,<br>The {{companyName}} Team</p>`,
+    variables: ['booking.*', 'schedule.bookingDate', 'service.name'],
+    sampleData: {
+      booking: { ...SAMPLE_BOOKING, status: 'completed' },
+      schedule: SAMPLE_SCHEDULE,
+      service: SAMPLE_SERVICE,
+    },
+  },
+  {
+    key: 'admin-digest',
+    name: "Tomorrow's bookings (admin)",
+    description: 'Daily digest of the next day\'s bookings sent to the studio',
+    audience: 'admin',
+    heading: "Tomorrow's Bookings",
+    subject: "Tomorrow's Bookings ({{date}}) - {{count}} {{#if single}}session{{else}}sessions{{/if}}",
+    body: `<h3>{{date}}</h3>
+{{#if bookings}}
+<table>
+  <tr><th>Time</th><th>Client</th><th>Service</th><th>Status</th><th>Location</th></tr>
+  {{#each bookings}}<tr><td>{{time}}</td><td>{{client}}</td><td>{{service}}</td><td>{{status}}</td><td>{{location}}</td></tr>
+  {{/each}}
+</table>
+{{else}}
+<p>There are no bookings tomorrow.</p>
+{{/if}}`,
+    variables: ['date', 'count', 'single', 'bookings (time, client, service, status, location)'],
+    sampleData: {
+      date: '2026-03-14',
+      count: 2,
+      single: false,
+      bookings: [
+        { time: '10:00:00 AM - 12:00:00 PM GMT', client: 'Ama Mensah <ama@example.com>', service: 'Product Photography', status: 'confirmed', location: 'Derji Studio, Accra' },
+        { time: '2:00:00 PM - 5:00:00 PM GMT', client: 'Kofi Boateng <kofi@example.com>', service: 'Videography', status: 'pending', location: '' },
+      ],
+    },
+  },
+  {
+    key: 'password-reset',
+    name: 'Password reset',
+    description: 'Sent to a team member who asks to reset their password, with a single-use link',
+    audience: 'client',
+    heading: 'Reset Your Password',
+    subject: 'Reset your {{companyName}} password',
+    body: `<h2>Hello {{user.name}},</h2>
+
+<p>We received a request to reset the password for your {{companyName}} account ({{user.email}}).</p>
+
+<p><a class="button" href="{{resetUrl}}">Choose a new password</a></p>
+
+<p>This link works once and expires at {{expiresAt}}.</p>
+
+<div class="notice">
+  If you didn't ask to reset your password, you can ignore this email. Your password will stay the same.
+</div>
+
+<p>Best regards,<br>The {{companyName}} Team</p>`,
+    variables: ['user.name', 'user.email', 'resetUrl', 'expiresAt'],
+    sampleData: {
+      user: { name: 'Ama', email: 'ama@derjiproductions.com' },
+      resetUrl: 'https://derjiproductions.com/admin/reset-password?token=sample-token',
+      expiresAt: '3/10/2026, 11:00:00 AM UTC',
+    },
+  },
+  {
+    key: 'password-changed',
+    name: 'Password changed',
+    description: 'Sent to a team member after their password is reset',
+    audience: 'client',
+    heading: 'Password Changed',
+    subject: 'Your {{companyName}} password was changed',
+    body: `<h2>Hello {{user.name}},</h2>
+
+<p>The password for your {{companyName}} account ({{user.email}}) was changed on {{changedAt}}.</p>
+
+<div class="notice">
+  If you didn't make this change, reset your password straight away and let us know at {{adminEmail}}.
+</div>
+
+<p><a href="{{loginUrl}}">Sign in</a></p>
+
+<p>Best regards,<br>The {{companyName}} Team</p>`,
+    variables: ['user.name', 'user.email', 'changedAt', 'loginUrl'],
+    sampleData: {
+      user: { name: 'Ama', email: 'ama@derjiproductions.com' },
+      changedAt: '3/10/2026, 10:05:00 AM UTC',
+      loginUrl: 'https://derjiproductions.com/admin/login',
+    },
+  },
+  {
+    key: 'user-invitation',
+    name: 'Team invitation',
+    description: 'Sent to someone invited to the admin, with a link to set up their account',
+    audience: 'client',
+    heading: "You're Invited",
+    subject: 'Join {{companyName}} on the admin dashboard',
+    body: `<h2>Hello {{user.name}},</h2>
+
+<p>{{invitedBy}} has invited you to the {{companyName}} admin dashboard as {{role}}.</p>
+
+<p><a class="button" href="{{acceptUrl}}">Accept invitation</a></p>
+
+<p>Choose a password when you accept. The link expires at {{expiresAt}}.</p>
+
+<div class="notice">
+  If you weren't expecting this invitation, you can ignore this email.
+</div>
+
+<p>Best regards,<br>The {{companyName}} Team</p>`,
+    variables: ['user.name', 'user.email', 'invitedBy', 'role', 'acceptUrl', 'expiresAt'],
+    sampleData: {
+      user: { name: 'Kofi', email: 'kofi@example.com' },
+      invitedBy: 'Ama Mensah',
+      role: 'an editor',
+      acceptUrl: 'https://derjiproductions.com/admin/accept-invitation?token=sample-token',
+      expiresAt: '3/17/2026, 10:00:00 AM UTC',
+    },
+  },
+  {
+    key: 'account-locked',
+    name: 'Account locked',
+    description: 'Sent to a team member when too many failed sign-ins lock their account',
+    audience: 'client',
+    heading: 'Account Locked',
+    subject: 'Your {{companyName}} account has been locked',
+    body: `<h2>Hello {{user.name}},</h2>
+
+<p>There were {{failedAttempts}} failed attempts to sign in to your {{companyName}} account ({{user.email}}), so it is locked until {{lockedUntil}}.</p>
+
+<p>The last attempt came from {{ipAddress}} using {{device}}.</p>
+
+<div class="notice">
+  If this wasn't you, someone may know your email address or be guessing your password. Resetting your password unlocks the account straight away.
+</div>
+
+<p><a class="button" href="{{resetUrl}}">Reset password</a></p>
+
+<p>Best regards,<br>The {{companyName}} Team</p>`,
+    variables: ['user.name', 'user.email', 'failedAttempts', 'lockedUntil', 'ipAddress', 'device', 'resetUrl'],
+    sampleData: {
+      user: { name: 'Ama', email: 'ama@derjiproductions.com' },
+      failedAttempts: 5,
+      lockedUntil: '3/10/2026, 10:20:00 AM UTC',
+      ipAddress: '203.0.113.7',
+      device: 'Chrome on Windows',
+      resetUrl: 'https://derjiproductions.com/admin/reset-password',
+    },
+  },
+  {
+    key: 'new-login',
+    name: 'New sign-in',
+    description: 'Sent to a team member when their account is signed in to from a new IP address or device',
+    audience: 'client',
+    heading: 'New Sign-In',
+    subject: 'New sign-in to your {{companyName}} account',
+    body: `<h2>Hello {{user.name}},</h2>
+
+<p>Your {{companyName}} account ({{user.email}}) was just signed in to from a device or network it hasn't used before:</p>
+
+<ul>
+  <li><strong>Device:</strong> {{device}}</li>
+  <li><strong>IP address:</strong> {{ipAddress}}</li>
+  <li><strong>Time:</strong> {{signedInAt}}</li>
+</ul>
+
+<p>If this was you, there's nothing to do.</p>
+
+<div class="notice">
+  If it wasn't, sign out the session from your profile, reset your password and let us know at {{adminEmail}}.
+</div>
+
+<p><a href="{{profileUrl}}">Review your sessions</a></p>
+
+<p>Best regards,<br>The {{companyName}} Team</p>`,
+    variables: ['user.name', 'user.email', 'device', 'ipAddress', 'signedInAt', 'profileUrl'],
+    sampleData: {
+      user: { name: 'Ama', email: 'ama@derjiproductions.com' },
+      device: 'Safari on iOS',
+      ipAddress: '198.51.100.24',
+      signedInAt: '3/10/2026, 10:05:00 AM UTC',
+      profileUrl: 'https://derjiproductions.com/admin/profile',
+    },
+  },
+];
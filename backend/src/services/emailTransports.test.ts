@@ -0,0 +1,30 @@
+import { FileTransport, SendGridTransport, SmtpTransport, createEmailTransport } from './emailTransports';
+
+describe('createEmailTransport', () => {
+  it('should return null when nothing is configured', () => {
+    expect(createEmailTransport({})).toBeNull();
+  });
+
+  it('should default to SendGrid when an API key is set', () => {
+    expect(createEmailTransport({ SENDGRID_API_KEY: 'SG.test' })).toBeInstanceOf(SendGridTransport);
+  });
+
+  it('should not use SendGrid without an API key', () => {
+    expect(createEmailTransport({ EMAIL_TRANSPORT: 'sendgrid' })).toBeNull();
+  });
+
+  it('should prefer EMAIL_TRANSPORT over the SendGrid default', () => {
+    const transport = createEmailTransport({ EMAIL_TRANSPORT: 'smtp', SENDGRID_API_KEY: 'SG.test', SMTP_HOST: 'mail.example.com' });
+
+    expect(transport).toBeInstanceOf(SmtpTransport);
+    expect(transport?.name).toBe('smtp');
+  });
+
+  it('should create a file transport for local testing', () => {
+    expect(createEmailTransport({ EMAIL_TRANSPORT: 'file', EMAIL_FILE_DIR: '/tmp/emails' })).toBeInstanceOf(FileTransport);
+  });
+
+  it('should return null for an unknown transport', () => {
+    expect(createEmailTransport({ EMAIL_TRANSPORT: 'pigeon' })).toBeNull();
+  });
+});
@@ -0,0 +1,305 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import net from 'net';
+import path from 'path';
+import tls from 'tls';
+import sgMail from '@sendgrid/mail';
+import { buildMimeMessage, dotStuff } from '../utils/mime';
+import { EmailAttachment } from './emailService';
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+export interface OutgoingEmail {
+  from: { email: string; name: string };
+  to: string;
+  replyTo?: string; // where the recipient's answer goes, when not back to the sender
+  subject: string;
+  html: string;
+  text: string;
+  attachments: EmailAttachment[];
+}
+
+export interface DeliveryResult {
+  messageId?: string; // provider's ID, used to match bounce reports to the message
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(email: OutgoingEmail): Promise<DeliveryResult>;
+}
+
+/**
+ * A failed delivery. Permanent failures are not retried; a rejected recipient also
+ * gets the address suppressed.
+ */
+export class EmailDeliveryError extends Error {
+  constructor(message: string, readonly permanent: boolean = false, readonly recipientRejected: boolean = false) {
+    super(message);
+    this.name = 'EmailDeliveryError';
+  }
+}
+
+export class SendGridTransport implements EmailTransport {
+  readonly name = 'sendgrid';
+
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(email: OutgoingEmail): Promise<DeliveryResult> {
+    try {
+      const [response] = await sgMail.send({
+        to: email.to,
+        from: email.from,
+        ...(email.replyTo && { replyTo: email.replyTo }),
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        ...(email.attachments.length > 0 && { attachments: email.attachments }),
+      });
+
+      const messageId = response.headers['x-message-id'];
+      return typeof messageId === 'string' ? { messageId } : {};
+    } catch (error: any) {
+      const status: number | undefined = error?.code ?? error?.response?.statusCode;
+      const detail = error?.response?.body?.errors?.[0]?.message ?? error?.message ?? 'Unknown error';
+
+      // Bad requests will fail the same way again; rate limits and outages will not
+      const permanent = status !== undefined && status >= 400 && status < 500 && status !== 429;
+      throw new EmailDeliveryError(`SendGrid ${status ?? 'error'}: ${detail}`, permanent);
+    }
+  }
+}
+
+/**
+ * Writes each email to a JSON file instead of sending it, for development and tests
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(email: OutgoingEmail): Promise<DeliveryResult> {
+    const messageId = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.directory, `${messageId}.json`),
+      JSON.stringify({ ...email, sentAt: new Date().toISOString() }, null, 2)
+    );
+
+    return { messageId };
+  }
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS (port 465); otherwise STARTTLS is used when offered
+  user?: string;
+  pass?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * One SMTP conversation: reads multi-line replies and sends commands
+ */
+class SmtpConnection {
+  private buffer = '';
+  private pendingLines: string[] = []; // lines of a multi-line reply still arriving
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | undefined;
+  private failure?: Error;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  async upgrade(servername: string): Promise<void> {
+    this.socket.removeAllListeners();
+    const secured = tls.connect({ socket: this.socket, servername });
+
+    await new Promise<void>((resolve, reject) => {
+      secured.once('secureConnect', resolve);
+      secured.once('error', reject);
+    });
+
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, line.split(' ')[0] as string);
+  }
+
+  async expect(expected: number[], step: string): Promise<SmtpReply> {
+    const reply = await this.read();
+
+    if (!expected.includes(reply.code)) {
+      throw new EmailDeliveryError(`SMTP ${step} failed: ${reply.code} ${reply.text}`, reply.code >= 500);
+    }
+
+    return reply;
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.parseReplies();
+    });
+    socket.on('timeout', () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private parseReplies(): void {
+    let end: number;
+
+    while ((end = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.pendingLines.push(line.slice(4));
+
+      // '250-...' continues the reply, '250 ...' ends it
+      if (line.charAt(3) !== '-') {
+        this.deliver({ code: Number(line.slice(0, 3)), text: this.pendingLines.join('\n') });
+        this.pendingLines = [];
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    if (this.waiting) {
+      this.waiting.resolve(reply);
+      this.waiting = undefined;
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiting) {
+      this.waiting.reject(error);
+      this.waiting = undefined;
+    }
+  }
+}
+
+/**
+ * Minimal SMTP client: works with relays such as Postfix or a mail provider, and with
+ * MailHog/Mailcatcher for local development
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async send(email: OutgoingEmail): Promise<DeliveryResult> {
+    const { host, port, secure, user, pass } = this.options;
+    const domain = email.from.email.split('@')[1] || 'localhost';
+    const messageId = `${Date.now()}.${crypto.randomBytes(8).toString('hex')}@${domain}`;
+
+    const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+    const connection = new SmtpConnection(socket);
+
+    try {
+      await connection.expect([220], 'greeting');
+      let features = await connection.command(`EHLO ${domain}`, [250]);
+
+      if (!secure && /^STARTTLS$/im.test(features.text)) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(host);
+        features = await connection.command(`EHLO ${domain}`, [250]);
+      }
+
+      if (user && pass) {
+        if (!/^AUTH\b/im.test(features.text)) {
+          throw new EmailDeliveryError('SMTP server does not accept authentication', true);
+        }
+        const credentials = Buffer.from(`\0${user}\0${pass}`, 'utf8').toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${email.from.email}>`, [250]);
+
+      try {
+        await connection.command(`RCPT TO:<${email.to}>`, [250, 251]);
+      } catch (error) {
+        if (error instanceof EmailDeliveryError && error.permanent) {
+          throw new EmailDeliveryError(error.message, true, true);
+        }
+        throw error;
+      }
+
+      await connection.command('DATA', [354]);
+      const mime = buildMimeMessage({ ...email, from: `${email.from.name} <${email.from.email}>`, messageId });
+      connection.write(`${dotStuff(mime)}.\r\n`);
+      await connection.expect([250], 'DATA');
+
+      await connection.command('QUIT', [221]).catch(() => undefined);
+      return { messageId };
+    } catch (error) {
+      if (error instanceof EmailDeliveryError) {
+        throw error;
+      }
+      throw new EmailDeliveryError(error instanceof Error ? error.message : 'SMTP delivery failed');
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+/**
+ * Transport named by EMAIL_TRANSPORT, or SendGrid when an API key is set. Returns
+ * null when nothing is configured.
+ */
+export function createEmailTransport(env: NodeJS.ProcessEnv = process.env): EmailTransport | null {
+  const name = env['EMAIL_TRANSPORT'] || (env['SENDGRID_API_KEY'] ? 'sendgrid' : '');
+
+  switch (name) {
+    case 'sendgrid':
+      return env['SENDGRID_API_KEY'] ? new SendGridTransport(env['SENDGRID_API_KEY']) : null;
+    case 'smtp':
+      return new SmtpTransport({
+        host: env['SMTP_HOST'] || 'localhost',
+        port: Number(env['SMTP_PORT']) || 1025,
+        secure: env['SMTP_SECURE'] === 'true',
+        ...(env['SMTP_USER'] && { user: env['SMTP_USER'] }),
+        ...(env['SMTP_PASS'] && { pass: env['SMTP_PASS'] }),
+      });
+    case 'file':
+      return new FileTransport(env['EMAIL_FILE_DIR'] || path.join(process.cwd(), 'tmp', 'emails'));
+    default:
+      return null;
+  }
+}
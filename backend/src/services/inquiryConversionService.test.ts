@@ -0,0 +1,66 @@
+import { InquiryConversionService } from './inquiryConversionService';
+
+describe('InquiryConversionService', () => {
+  let inquiryConversionService: InquiryConversionService;
+
+  beforeEach(() => {
+    inquiryConversionService = new InquiryConversionService();
+  });
+
+  describe('matchService', () => {
+    const services = [
+      { id: 'portrait', name: 'Portrait Photography', active: true, category: { name: 'Photography' } },
+      { id: 'wedding', name: 'Wedding Videography', active: true, category: { name: 'Videography' } },
+      { id: 'retired', name: 'Podcast Recording', active: false, category: { name: 'Sound' } },
+      { id: 'mixing', name: 'Mixing', active: true, category: { name: 'Sound' } },
+    ];
+
+    it('should prefer an exact name match', () => {
+      expect(inquiryConversionService.matchService(' wedding videography ', services)).toBe('wedding');
+    });
+
+    it('should match a name containing the interest, or contained in it', () => {
+      expect(inquiryConversionService.matchService('Portrait', services)).toBe('portrait');
+      expect(inquiryConversionService.matchService('Mixing and mastering', services)).toBe('mixing');
+    });
+
+    it('should fall back to the first service of a matching category', () => {
+      expect(inquiryConversionService.matchService('Sound', services)).toBe('mixing');
+    });
+
+    it('should skip inactive services and return null without a match', () => {
+      expect(inquiryConversionService.matchService('Podcast Recording', services)).toBeNull();
+      expect(inquiryConversionService.matchService('Drone footage', services)).toBeNull();
+      expect(inquiryConversionService.matchService(null, services)).toBeNull();
+    });
+  });
+
+  describe('summarise', () => {
+    it('should report conversion rates per service interest and source', () => {
+      const summary = inquiryConversionService.summarise([
+        { serviceInterest: 'Photography', source: 'website', converted: true },
+        { serviceInterest: 'Photography', source: 'instagram', converted: false },
+        { serviceInterest: 'Photography', source: 'website', converted: true },
+        { serviceInterest: null, source: 'website', converted: false },
+      ]);
+
+      expect(summary.overall).toEqual({ inquiries: 4, converted: 2, rate: 50 });
+      expect(summary.byService).toEqual([
+        { service: 'Photography', inquiries: 3, converted: 2, rate: 66.7 },
+        { service: 'Unspecified', inquiries: 1, converted: 0, rate: 0 },
+      ]);
+      expect(summary.bySource).toEqual([
+        { source: 'website', inquiries: 3, converted: 2, rate: 66.7 },
+        { source: 'instagram', inquiries: 1, converted: 0, rate: 0 },
+      ]);
+    });
+
+    it('should report a zero rate when there are no inquiries', () => {
+      expect(inquiryConversionService.summarise([])).toEqual({
+        overall: { inquiries: 0, converted: 0, rate: 0 },
+        byService: [],
+        bySource: [],
+      });
+    });
+  });
+});
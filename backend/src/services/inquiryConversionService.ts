@@ -0,0 +1,294 @@
+import { PrismaClient } from '@prisma/client';
+import logger from '../config/logger';
+import { createError } from '../middleware/errorHandler';
+import { bookingAccessService } from './bookingAccessService';
+import { bookingLifecycleService } from './bookingLifecycleService';
+import { clientService } from './clientService';
+import { emailService } from './emailService';
+import { invoiceService } from './invoiceService';
+import { scheduleService } from './scheduleService';
+
+const prisma = new PrismaClient();
+
+export type ConversionType = 'booking' | 'quote';
+
+export interface ConversionInput {
+  type: ConversionType;
+  clientName: string;
+  clientEmail: string;
+  clientPhone?: string | undefined;
+  serviceId?: string | undefined;
+  startTime: string;
+  endTime: string;
+  projectDetails?: string | undefined;
+  budgetRange?: string | undefined;
+  location?: string | undefined;
+  notes?: string | undefined;
+}
+
+export interface ConversionRow {
+  serviceInterest: string | null;
+  source: string;
+  converted: boolean;
+}
+
+export interface ConversionRate {
+  inquiries: number;
+  converted: number;
+  rate: number; // percentage, one decimal place
+}
+
+interface MatchableService {
+  id: string;
+  name: string;
+  active: boolean;
+  category?: { name: string } | null;
+}
+
+const CONVERTED_BOOKING_SELECT = {
+  id: true,
+  startTime: true,
+  endTime: true,
+  status: true,
+  service: {
+    select: { id: true, name: true },
+  },
+  invoices: {
+    select: { id: true, number: true, type: true, status: true },
+  },
+} as const;
+
+export class InquiryConversionService {
+  /**
+   * Active service an inquiry's free-text service interest most likely means: an
+   * exact name, then a name containing the interest (or the other way round), then
+   * the first service of a matching category
+   */
+  matchService(serviceInterest: string | null | undefined, services: MatchableService[]): string | null {
+    const interest = serviceInterest?.trim().toLowerCase();
+    if (!interest) {
+      return null;
+    }
+
+    const active = services.filter(service => service.active);
+    const name = (service: MatchableService) => service.name.toLowerCase();
+
+    const match =
+      active.find(service => name(service) === interest) ??
+      active.find(service => name(service).includes(interest) || interest.includes(name(service))) ??
+      active.find(service => service.category?.name.toLowerCase() === interest);
+
+    return match?.id ?? null;
+  }
+
+  /**
+   * Conversion rate per service interest and per source. Inquiries without a service
+   * interest are grouped as 'Unspecified'.
+   */
+  summarise(rows: ConversionRow[]) {
+    const group = (key: (row: ConversionRow) => string) => {
+      const totals = new Map<string, { inquiries: number; converted: number }>();
+
+      for (const row of rows) {
+        const entry = totals.get(key(row)) ?? { inquiries: 0, converted: 0 };
+        entry.inquiries += 1;
+        entry.converted += row.converted ? 1 : 0;
+        totals.set(key(row), entry);
+      }
+
+      return [...totals.entries()]
+        .map(([name, entry]) => ({ name, ...this.rate(entry.inquiries, entry.converted) }))
+        .sort((a, b) => b.inquiries - a.inquiries || a.name.localeCompare(b.name));
+    };
+
+    return {
+      overall: this.rate(rows.length, rows.filter(row => row.converted).length),
+      byService: group(row => row.serviceInterest?.trim() || 'Unspecified')
+        .map(({ name, ...rate }) => ({ service: name, ...rate })),
+      bySource: group(row => row.source)
+        .map(({ name, ...rate }) => ({ source: name, ...rate })),
+    };
+  }
+
+  /**
+   * Booking fields pre-filled from an inquiry, with the bookings already made from it
+   */
+  async getDraft(inquiryId: string) {
+    const inquiry = await prisma.contactInquiry.findUnique({
+      where: { id: inquiryId },
+      include: {
+        bookings: {
+          orderBy: { createdAt: 'desc' },
+          select: CONVERTED_BOOKING_SELECT,
+        },
+      },
+    });
+
+    if (!inquiry) {
+      throw createError('Contact inquiry not found.', 404, 'INQUIRY_NOT_FOUND');
+    }
+
+    const services = await prisma.service.findMany({
+      where: { active: true },
+      orderBy: { name: 'asc' },
+      select: { id: true, name: true, active: true, duration: true, category: { select: { name: true } } },
+    });
+    const serviceId = this.matchService(inquiry.serviceInterest, services);
+
+    return {
+      draft: {
+        clientName: inquiry.name,
+        clientEmail: inquiry.email,
+        clientPhone: inquiry.phone,
+        serviceId,
+        duration: services.find(service => service.id === serviceId)?.duration ?? null,
+        projectDetails: inquiry.message,
+      },
+      bookings: inquiry.bookings,
+    };
+  }
+
+  /**
+   * Book a slot for the person behind an inquiry, optionally with a draft quote, after
+   * the same opening-hours and availability checks as a client booking
+   */
+  async convert(inquiryId: string, input: ConversionInput, admin?: { id: string; email: string }) {
+    const inquiry = await prisma.contactInquiry.findUnique({ where: { id: inquiryId }, select: { id: true } });
+    if (!inquiry) {
+      throw createError('Contact inquiry not found.', 404, 'INQUIRY_NOT_FOUND');
+    }
+
+    if (input.serviceId) {
+      const service = await prisma.service.findUnique({ where: { id: input.serviceId } });
+
+      if (!service) {
+        throw createError('Service with the specified ID does not exist', 400, 'Invalid service');
+      }
+
+      if (!service.active) {
+        throw createError('The selected service is currently unavailable', 400, 'Service unavailable');
+      }
+    }
+
+    const startTime = new Date(input.startTime);
+    const endTime = new Date(input.endTime);
+
+    if (startTime <= new Date()) {
+      throw createError('Cannot create bookings for past dates', 400, 'Invalid booking time');
+    }
+
+    const windowViolation = await scheduleService.validateBookingWindow(startTime, endTime);
+    if (windowViolation) {
+      throw createError(windowViolation.message, 400, 'Outside studio hours', { reason: windowViolation.reason });
+    }
+
+    const [conflicts, requirements, { timeZone, bookingDate }, clientId] = await Promise.all([
+      scheduleService.findBookingConflicts({ start: startTime, end: endTime }, input.serviceId),
+      scheduleService.getServiceRequirements(input.serviceId),
+      scheduleService.getBookingDay(startTime),
+      clientService.resolve({ name: input.clientName, email: input.clientEmail, phone: input.clientPhone }),
+    ]);
+
+    if (conflicts.length > 0) {
+      throw createError('The selected time slot conflicts with an existing booking', 409, 'Time slot unavailable', {
+        conflictingBookings: conflicts.map(booking => ({
+          id: booking.id,
+          startTime: booking.startTime,
+          endTime: booking.endTime,
+          status: booking.status,
+        })),
+      });
+    }
+
+    const booking = await prisma.booking.create({
+      data: {
+        clientName: input.clientName,
+        clientEmail: input.clientEmail,
+        clientPhone: input.clientPhone ?? null,
+        serviceId: input.serviceId ?? null,
+        startTime,
+        endTime,
+        bookingDate,
+        timeZone,
+        projectDetails: input.projectDetails ?? null,
+        budgetRange: input.budgetRange ?? null,
+        location: input.location ?? null,
+        notes: input.notes ?? null,
+        inquiryId,
+        clientId,
+        resources: {
+          create: requirements.map(({ resourceId, quantity }) => ({ resourceId, quantity })),
+        },
+        events: bookingLifecycleService.creationEvent(bookingLifecycleService.adminActor(admin)),
+      },
+      include: {
+        service: {
+          select: { id: true, name: true, category: { select: { name: true } } },
+        },
+      },
+    });
+
+    await bookingLifecycleService.notifyCreated([booking.id]);
+
+    // A quote is priced from the booked service and stays a draft until the admin sends it
+    if (input.type === 'quote') {
+      const quote = await invoiceService.createForBooking(booking.id, 'quote');
+      return { booking, quote };
+    }
+
+    // The booking stands even if the confirmation cannot be queued
+    try {
+      await emailService.sendBookingConfirmation({
+        booking,
+        service: booking.service,
+        manageUrl: bookingAccessService.getManageUrl(bookingAccessService.generateManageToken(booking)),
+      });
+    } catch (error) {
+      logger.error('Failed to send booking confirmation for converted inquiry', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        inquiryId,
+        bookingId: booking.id,
+        service: 'InquiryConversionService',
+      });
+    }
+
+    return { booking, quote: null };
+  }
+
+  /**
+   * Conversion rates of the inquiries received in a date range
+   */
+  async getConversionStats(range: { dateFrom?: string | undefined; dateTo?: string | undefined } = {}) {
+    const inquiries = await prisma.contactInquiry.findMany({
+      where: {
+        ...((range.dateFrom || range.dateTo) && {
+          createdAt: {
+            ...(range.dateFrom && { gte: new Date(range.dateFrom) }),
+            ...(range.dateTo && { lte: new Date(range.dateTo) }),
+          },
+        }),
+      },
+      select: {
+        serviceInterest: true,
+        source: true,
+        _count: { select: { bookings: true } },
+      },
+    });
+
+    return this.summarise(inquiries.map(inquiry => ({
+      serviceInterest: inquiry.serviceInterest,
+      source: inquiry.source,
+      converted: inquiry._count.bookings > 0,
+    })));
+  }
+
+  private rate(inquiries: number, converted: number): ConversionRate {
+    return {
+      inquiries,
+      converted,
+      rate: inquiries === 0 ? 0 : Math.round((converted / inquiries) * 1000) / 10,
+    };
+  }
+}
+
+export const inquiryConversionService = new InquiryConversionService();
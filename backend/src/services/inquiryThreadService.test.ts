@@ -0,0 +1,45 @@
+import { InquiryThreadService } from './inquiryThreadService';
+
+describe('InquiryThreadService - Reply addresses', () => {
+  let inquiryThreadService: InquiryThreadService;
+
+  beforeEach(() => {
+    inquiryThreadService = new InquiryThreadService('Replies@derjiproductions.com', 'test-secret');
+  });
+
+  it('should tag the inbound mailbox with the inquiry and a signature', () => {
+    expect(inquiryThreadService.getReplyAddress('cm0inquiry1')).toMatch(
+      /^replies\+cm0inquiry1\.[a-f0-9]{16}@derjiproductions\.com$/
+    );
+  });
+
+  it('should resolve a reply address back to its inquiry', () => {
+    const address = inquiryThreadService.getReplyAddress('cm0inquiry1') as string;
+
+    expect(inquiryThreadService.parseReplyAddress(address)).toBe('cm0inquiry1');
+    expect(inquiryThreadService.parseReplyAddress(address.toUpperCase())).toBe('cm0inquiry1');
+  });
+
+  it('should reject addresses with a forged or foreign signature', () => {
+    const address = inquiryThreadService.getReplyAddress('cm0inquiry1') as string;
+    const other = new InquiryThreadService('replies@derjiproductions.com', 'other-secret');
+
+    expect(inquiryThreadService.parseReplyAddress(address.replace('cm0inquiry1', 'cm0inquiry2'))).toBeNull();
+    expect(other.parseReplyAddress(address)).toBeNull();
+  });
+
+  it('should ignore addresses of other mailboxes', () => {
+    const address = inquiryThreadService.getReplyAddress('cm0inquiry1') as string;
+
+    expect(inquiryThreadService.parseReplyAddress(address.replace('replies', 'hello'))).toBeNull();
+    expect(inquiryThreadService.parseReplyAddress(address.replace('derjiproductions.com', 'example.com'))).toBeNull();
+    expect(inquiryThreadService.parseReplyAddress('replies@derjiproductions.com')).toBeNull();
+  });
+
+  it('should not issue reply addresses without an inbound mailbox', () => {
+    const unconfigured = new InquiryThreadService('', 'test-secret');
+
+    expect(unconfigured.getReplyAddress('cm0inquiry1')).toBeUndefined();
+    expect(unconfigured.parseReplyAddress('replies+cm0inquiry1.0123456789abcdef@derjiproductions.com')).toBeNull();
+  });
+});
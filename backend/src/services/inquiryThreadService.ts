@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import logger from '../config/logger';
+import { createError } from '../middleware/errorHandler';
+import { InboundEmail, extractReplyText } from '../utils/inboundEmail';
+import { emailService } from './emailService';
+
+const prisma = new PrismaClient();
+
+const THREAD_SELECT = {
+  id: true,
+  direction: true,
+  fromEmail: true,
+  body: true,
+  createdAt: true,
+  author: {
+    select: { id: true, email: true, firstName: true, lastName: true },
+  },
+  emailMessage: {
+    select: { id: true, status: true, sentAt: true, lastError: true },
+  },
+} as const;
+
+export class InquiryThreadService {
+  /**
+   * @param inboundAddress mailbox whose inbound email is posted to the webhook, e.g.
+   * 'replies@derjiproductions.com'. Replies carry a signed '+tag' for their inquiry.
+   */
+  constructor(
+    private readonly inboundAddress: string = process.env['INBOUND_EMAIL_ADDRESS'] || '',
+    private readonly secret: string = process.env['INBOUND_EMAIL_SECRET'] || 'your-inbound-email-secret'
+  ) {}
+
+  /**
+   * Reply-To address that routes the client's answer back into the inquiry's thread,
+   * or undefined when no inbound mailbox is configured
+   */
+  getReplyAddress(inquiryId: string): string | undefined {
+    const [mailbox, domain] = this.inboundAddress.split('@');
+    if (!mailbox || !domain) {
+      return undefined;
+    }
+
+    return `${mailbox}+${inquiryId}.${this.sign(inquiryId)}@${domain}`.toLowerCase();
+  }
+
+  /**
+   * Inquiry a reply address was issued for. Null for other addresses and for tags
+   * whose signature does not match, so a guessed address cannot post into a thread.
+   */
+  parseReplyAddress(address: string): string | null {
+    const [mailbox, domain] = this.inboundAddress.toLowerCase().split('@');
+    const match = /^([^+@]+)\+([a-z0-9]+)\.([a-f0-9]+)@(.+)$/.exec(address.toLowerCase());
+
+    if (!mailbox || !match || match[1] !== mailbox || match[4] !== domain) {
+      return null;
+    }
+
+    const inquiryId = match[2] as string;
+    const expected = Buffer.from(this.sign(inquiryId));
+    const actual = Buffer.from(match[3] as string);
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? inquiryId : null;
+  }
+
+  async getThread(inquiryId: string) {
+    await this.getInquiry(inquiryId);
+
+    return prisma.inquiryMessage.findMany({
+      where: { inquiryId },
+      orderBy: { createdAt: 'asc' },
+      select: THREAD_SELECT,
+    });
+  }
+
+  /**
+   * Email an admin's reply to the client, record it in the thread and mark the
+   * inquiry responded
+   */
+  async reply(inquiryId: string, body: string, author: { id: string; email: string }) {
+    const inquiry = await this.getInquiry(inquiryId);
+    const replyTo = this.getReplyAddress(inquiry.id);
+
+    const emailMessage = await emailService.sendInquiryReply({
+      inquiry,
+      body,
+      ...(replyTo && { replyTo }),
+    });
+
+    const [message] = await prisma.$transaction([
+      prisma.inquiryMessage.create({
+        data: {
+          inquiryId,
+          direction: 'outbound',
+          fromEmail: author.email,
+          body,
+          authorId: author.id,
+          emailMessageId: emailMessage.id,
+        },
+        select: THREAD_SELECT,
+      }),
+      prisma.contactInquiry.update({
+        where: { id: inquiryId },
+        data: { status: 'responded' },
+      }),
+    ]);
+
+    logger.info('Inquiry reply sent', {
+      inquiryId,
+      authorId: author.id,
+      emailStatus: emailMessage.status,
+      service: 'InquiryThreadService',
+    });
+
+    return message;
+  }
+
+  /**
+   * Add an inbound email to the thread its reply address belongs to. The inquiry goes
+   * back to 'new' so the answer shows as waiting for a response. Returns null when the
+   * email was not sent to a reply address.
+   */
+  async receiveReply(email: InboundEmail) {
+    const inquiryId = email.recipients.map(recipient => this.parseReplyAddress(recipient)).find(Boolean);
+    if (!inquiryId) {
+      return null;
+    }
+
+    const inquiry = await prisma.contactInquiry.findUnique({ where: { id: inquiryId }, select: { id: true } });
+    const body = extractReplyText(email.text) || email.text.trim();
+
+    if (!inquiry || !body) {
+      return null;
+    }
+
+    const [message] = await prisma.$transaction([
+      prisma.inquiryMessage.create({
+        data: {
+          inquiryId,
+          direction: 'inbound',
+          fromEmail: email.from,
+          body,
+        },
+        select: THREAD_SELECT,
+      }),
+      prisma.contactInquiry.update({
+        where: { id: inquiryId },
+        data: { status: 'new' },
+      }),
+    ]);
+
+    logger.info('Inquiry reply received', {
+      inquiryId,
+      from: email.from,
+      service: 'InquiryThreadService',
+    });
+
+    return message;
+  }
+
+  private async getInquiry(id: string) {
+    const inquiry = await prisma.contactInquiry.findUnique({
+      where: { id },
+      select: { id: true, name: true, email: true, subject: true, message: true },
+    });
+
+    if (!inquiry) {
+      throw createError('Contact inquiry not found.', 404, 'INQUIRY_NOT_FOUND');
+    }
+    return inquiry;
+  }
+
+  private sign(inquiryId: string): string {
+    return crypto.createHmac('sha256', this.secret).update(inquiryId).digest('hex').slice(0, 16);
+  }
+}
+
+export const inquiryThreadService = new InquiryThreadService();
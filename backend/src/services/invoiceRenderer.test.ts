@@ -0,0 +1,92 @@
+import { InvoiceRenderer, RenderableInvoice } from './invoiceRenderer';
+
+describe('InvoiceRenderer - Documents', () => {
+  let renderer: InvoiceRenderer;
+
+  const invoice: RenderableInvoice = {
+    number: 'INV-2026-0001',
+    type: 'invoice',
+    status: 'sent',
+    currency: 'USD',
+    subtotal: '200.00',
+    discountTotal: '20.00',
+    taxRatePercent: '10.00',
+    taxTotal: '18.00',
+    total: '198.00',
+    depositAmount: '59.40',
+    amountPaid: '0.00',
+    notes: 'Bring <props> & (spare) outfits',
+    dueDate: null,
+    createdAt: new Date('2026-03-01T10:00:00.000Z'),
+    lineItems: [
+      { description: 'Studio Session (2 h @ hourly rate)', quantity: '2.00', unitPrice: '100.00', discount: '20.00', total: '180.00' },
+    ],
+    booking: {
+      clientName: 'Ama <Mensah>',
+      clientEmail: 'ama@example.com',
+      clientPhone: null,
+      startTime: new Date('2026-03-14T10:00:00.000Z'),
+      timeZone: 'Africa/Accra',
+      service: { name: 'Studio Session' },
+    },
+  };
+
+  beforeEach(() => {
+    renderer = new InvoiceRenderer();
+  });
+
+  describe('renderHtml', () => {
+    it('should include totals and line items', () => {
+      const html = renderer.renderHtml(invoice);
+
+      expect(html).toContain('INV-2026-0001');
+      expect(html).toContain('$198.00');
+      expect(html).toContain('-$20.00');
+      expect(html).toContain('Deposit due before confirmation');
+    });
+
+    it('should escape client supplied text', () => {
+      const html = renderer.renderHtml(invoice);
+
+      expect(html).toContain('Ama &lt;Mensah&gt;');
+      expect(html).toContain('Bring &lt;props&gt; &amp; (spare) outfits');
+      expect(html).not.toContain('<Mensah>');
+    });
+  });
+
+  describe('renderPdf', () => {
+    it('should produce a well formed PDF document', () => {
+      const pdf = renderer.renderPdf(invoice).toString('latin1');
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(pdf).toContain('(Invoice INV-2026-0001 - SENT)');
+    });
+
+    it('should point the xref table at each object', () => {
+      const pdf = renderer.renderPdf(invoice).toString('latin1');
+      const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+      const offsets = pdf.slice(startxref).match(/^\d{10} 00000 n $/gm)!.map(line => Number(line.slice(0, 10)));
+
+      offsets.forEach((offset, index) => {
+        expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+    });
+
+    it('should escape parentheses in text', () => {
+      const pdf = renderer.renderPdf(invoice).toString('latin1');
+
+      expect(pdf).toContain('\\(spare\\)');
+    });
+
+    it('should start new pages for long invoices', () => {
+      const longInvoice = {
+        ...invoice,
+        lineItems: Array.from({ length: 80 }, (_, index) => ({ ...invoice.lineItems[0]!, description: `Item ${index}` })),
+      };
+      const pdf = renderer.renderPdf(longInvoice).toString('latin1');
+
+      expect(pdf).toMatch(/\/Count [2-9]/);
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import { Prisma } from '@prisma/client';
+
+type Money = Prisma.Decimal | number | string;
+
+export interface RenderableInvoice {
+  number: string;
+  type: string;
+  status: string;
+  currency: string;
+  subtotal: Money;
+  discountTotal: Money;
+  taxRatePercent: Money;
+  taxTotal: Money;
+  total: Money;
+  depositAmount: Money;
+  amountPaid: Money;
+  notes?: string | null;
+  dueDate?: Date | null;
+  createdAt: Date;
+  lineItems: Array<{
+    description: string;
+    quantity: Money;
+    unitPrice: Money;
+    discount: Money;
+    total: Money;
+  }>;
+  booking: {
+    clientName: string;
+    clientEmail: string;
+    clientPhone?: string | null;
+    startTime: Date;
+    timeZone: string;
+    service?: { name: string } | null;
+  };
+}
+
+const COMPANY_NAME = 'Derji Productions';
+
+// PDF page geometry in points (A4)
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const LINE_HEIGHT = 16;
+
+interface PdfTextLine {
+  cells: Array<{ text: string; x: number; bold?: boolean; size?: number }>;
+  gapBefore?: number;
+}
+
+export class InvoiceRenderer {
+  formatMoney(value: Money, currency: string): string {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(Number(value.toString()));
+  }
+
+  private title(invoice: RenderableInvoice): string {
+    return invoice.type === 'quote' ? 'Quote' : 'Invoice';
+  }
+
+  private sessionDate(invoice: RenderableInvoice): string {
+    return invoice.booking.startTime.toLocaleString('en-US', {
+      timeZone: invoice.booking.timeZone,
+      dateStyle: 'medium',
+      timeStyle: 'short',
+    });
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  /**
+   * Standalone HTML document for viewing or printing an invoice
+   */
+  renderHtml(invoice: RenderableInvoice): string {
+    const e = (value: string) => this.escapeHtml(value);
+    const money = (value: Money) => this.formatMoney(value, invoice.currency);
+    const balance = Number(invoice.total.toString()) - Number(invoice.amountPaid.toString());
+
+    const rows = invoice.lineItems.map(item => `
+          <tr>
+            <td>${e(item.description)}</td>
+            <td class="num">${Number(item.quantity.toString())}</td>
+            <td class="num">${money(item.unitPrice)}</td>
+            <td class="num">${Number(item.discount.toString()) > 0 ? `-${money(item.discount)}` : ''}</td>
+            <td class="num">${money(item.total)}</td>
+          </tr>`).join('');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${e(this.title(invoice))} ${e(invoice.number)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; color: #333; max-width: 800px; margin: 0 auto; padding: 40px; }
+    h1 { color: #d4af37; margin-bottom: 0; }
+    .meta { display: flex; justify-content: space-between; margin: 30px 0; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 8px; border-bottom: 1px solid #eee; text-align: left; }
+    .num { text-align: right; }
+    .totals td { border: none; }
+    .grand td { font-weight: bold; border-top: 2px solid #333; }
+    .status { text-transform: uppercase; font-size: 12px; letter-spacing: 1px; color: #666; }
+  </style>
+</head>
+<body>
+  <h1>${e(COMPANY_NAME)}</h1>
+  <p class="status">${e(this.title(invoice))} ${e(invoice.number)} &middot; ${e(invoice.status)}</p>
+
+  <div class="meta">
+    <div>
+      <strong>Bill to</strong><br>
+      ${e(invoice.booking.clientName)}<br>
+      ${e(invoice.booking.clientEmail)}${invoice.booking.clientPhone ? `<br>${e(invoice.booking.clientPhone)}` : ''}
+    </div>
+    <div>
+      <strong>Issued:</strong> ${e(invoice.createdAt.toISOString().split('T')[0] as string)}<br>
+      ${invoice.dueDate ? `<strong>Due:</strong> ${e(invoice.dueDate.toISOString().split('T')[0] as string)}<br>` : ''}
+      <strong>Session:</strong> ${e(this.sessionDate(invoice))} (${e(invoice.booking.timeZone)})
+    </div>
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>Description</th>
+        <th class="num">Qty</th>
+        <th class="num">Unit price</th>
+        <th class="num">Discount</th>
+        <th class="num">Amount</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot class="totals">
+      <tr><td colspan="4" class="num">Subtotal</td><td class="num">${money(invoice.subtotal)}</td></tr>
+      ${Number(invoice.discountTotal.toString()) > 0 ? `<tr><td colspan="4" class="num">Discounts</td><td class="num">-${money(invoice.discountTotal)}</td></tr>` : ''}
+      <tr><td colspan="4" class="num">Tax (${Number(invoice.taxRatePercent.toString())}%)</td><td class="num">${money(invoice.taxTotal)}</td></tr>
+      <tr class="grand"><td colspan="4" class="num">Total</td><td class="num">${money(invoice.total)}</td></tr>
+      ${Number(invoice.depositAmount.toString()) > 0 ? `<tr><td colspan="4" class="num">Deposit due before confirmation</td><td class="num">${money(invoice.depositAmount)}</td></tr>` : ''}
+      <tr><td colspan="4" class="num">Paid</td><td class="num">${money(invoice.amountPaid)}</td></tr>
+      <tr><td colspan="4" class="num">Balance</td><td class="num">${money(balance)}</td></tr>
+    </tfoot>
+  </table>
+
+  ${invoice.notes ? `<p><strong>Notes:</strong><br>${e(invoice.notes)}</p>` : ''}
+</body>
+</html>`;
+  }
+
+  /**
+   * Printable PDF of an invoice, written directly so no PDF library is needed
+   */
+  renderPdf(invoice: RenderableInvoice): Buffer {
+    const money = (value: Money) => this.formatMoney(value, invoice.currency);
+    const balance = Number(invoice.total.toString()) - Number(invoice.amountPaid.toString());
+    const right = PAGE_WIDTH - MARGIN - 80;
+
+    const lines: PdfTextLine[] = [
+      { cells: [{ text: COMPANY_NAME, x: MARGIN, bold: true, size: 20 }] },
+      { cells: [{ text: `${this.title(invoice)} ${invoice.number} - ${invoice.status.toUpperCase()}`, x: MARGIN }], gapBefore: 8 },
+      { cells: [{ text: 'Bill to', x: MARGIN, bold: true }], gapBefore: 16 },
+      { cells: [{ text: invoice.booking.clientName, x: MARGIN }] },
+      { cells: [{ text: invoice.booking.clientEmail, x: MARGIN }] },
+      ...(invoice.booking.clientPhone ? [{ cells: [{ text: invoice.booking.clientPhone, x: MARGIN }] }] : []),
+      { cells: [{ text: `Issued: ${invoice.createdAt.toISOString().split('T')[0]}`, x: MARGIN }], gapBefore: 8 },
+      ...(invoice.dueDate ? [{ cells: [{ text: `Due: ${invoice.dueDate.toISOString().split('T')[0]}`, x: MARGIN }] }] : []),
+      { cells: [{ text: `Session: ${this.sessionDate(invoice)} (${invoice.booking.timeZone})`, x: MARGIN }] },
+      {
+        cells: [
+          { text: 'Description', x: MARGIN, bold: true },
+          { text: 'Qty', x: 300, bold: true },
+          { text: 'Unit price', x: 340, bold: true },
+          { text: 'Discount', x: 420, bold: true },
+          { text: 'Amount', x: right, bold: true },
+        ],
+        gapBefore: 16,
+      },
+      ...invoice.lineItems.map(item => ({
+        cells: [
+          { text: item.description.length > 45 ? `${item.description.slice(0, 44)}...` : item.description, x: MARGIN },
+          { text: String(Number(item.quantity.toString())), x: 300 },
+          { text: money(item.unitPrice), x: 340 },
+          { text: Number(item.discount.toString()) > 0 ? `-${money(item.discount)}` : '', x: 420 },
+          { text: money(item.total), x: right },
+        ],
+      })),
+      { cells: [{ text: 'Subtotal', x: 420 }, { text: money(invoice.subtotal), x: right }], gapBefore: 8 },
+      ...(Number(invoice.discountTotal.toString()) > 0
+        ? [{ cells: [{ text: 'Discounts', x: 420 }, { text: `-${money(invoice.discountTotal)}`, x: right }] }]
+        : []),
+      { cells: [{ text: `Tax (${Number(invoice.taxRatePercent.toString())}%)`, x: 420 }, { text: money(invoice.taxTotal), x: right }] },
+      { cells: [{ text: 'Total', x: 420, bold: true }, { text: money(invoice.total), x: right, bold: true }] },
+      ...(Number(invoice.depositAmount.toString()) > 0
+        ? [{ cells: [{ text: 'Deposit due', x: 420 }, { text: money(invoice.depositAmount), x: right }] }]
+        : []),
+      { cells: [{ text: 'Paid', x: 420 }, { text: money(invoice.amountPaid), x: right }] },
+      { cells: [{ text: 'Balance', x: 420, bold: true }, { text: money(balance), x: right, bold: true }] },
+      ...(invoice.notes
+        ? [
+            { cells: [{ text: 'Notes', x: MARGIN, bold: true }], gapBefore: 16 },
+            ...this.wrap(invoice.notes, 90).map(text => ({ cells: [{ text, x: MARGIN }] })),
+          ]
+        : []),
+    ];
+
+    return this.buildPdf(this.paginate(lines));
+  }
+
+  private wrap(text: string, width: number): string[] {
+    const wrapped: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/)) {
+        if (line && (line + ' ' + word).length > width) {
+          wrapped.push(line);
+          line = word;
+        } else {
+          line = line ? `${line} ${word}` : word;
+        }
+      }
+      wrapped.push(line);
+    }
+    return wrapped;
+  }
+
+  /**
+   * Lay lines out top to bottom, starting a new page when one fills up
+   */
+  private paginate(lines: PdfTextLine[]): string[] {
+    const pages: string[] = [];
+    let content = '';
+    let y = PAGE_HEIGHT - MARGIN;
+
+    for (const line of lines) {
+      const size = Math.max(...line.cells.map(cell => cell.size || 10));
+      const step = Math.max(LINE_HEIGHT, size + 6) + (line.gapBefore || 0);
+
+      if (y - step < MARGIN) {
+        pages.push(content);
+        content = '';
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= step;
+
+      for (const cell of line.cells) {
+        if (cell.text) {
+          content += `BT /${cell.bold ? 'F2' : 'F1'} ${cell.size || 10} Tf ${cell.x} ${y} Td (${this.escapePdfText(cell.text)}) Tj ET\n`;
+        }
+      }
+    }
+
+    pages.push(content);
+    return pages;
+  }
+
+  /**
+   * PDF string literal escaping; characters the standard fonts cannot show are replaced
+   */
+  private escapePdfText(text: string): string {
+    return text
+      .replace(/\u20ac/g, '\x80') // the euro sign sits at 0x80 in WinAnsiEncoding
+      .replace(/[^\x20-\xff\x80]/g, '?')
+      .replace(/\\/g, '\\\\')
+      .replace(/\(/g, '\\(')
+      .replace(/\)/g, '\\)');
+  }
+
+  private buildPdf(pageContents: string[]): Buffer {
+    // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then a page and content stream per page
+    const objects: string[] = [];
+    const pageIds = pageContents.map((_, index) => 5 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    pageContents.forEach((content, index) => {
+      const pageId = pageIds[index] as number;
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}endstream`;
+    });
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(pdf, 'latin1');
+      pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(pdf, 'latin1');
+  }
+}
+
+export const invoiceRenderer = new InvoiceRenderer();
@@ -0,0 +1,97 @@
+import { InvoiceService } from './invoiceService';
+
+describe('InvoiceService - Pricing', () => {
+  let invoiceService: InvoiceService;
+
+  const noExtras = { taxRatePercent: 0, depositPercent: 0 };
+
+  beforeEach(() => {
+    invoiceService = new InvoiceService();
+  });
+
+  describe('buildServiceLineItems', () => {
+    it('should bill hourly services for the length of the booking', () => {
+      const items = invoiceService.buildServiceLineItems(
+        { name: 'Studio Session', basePrice: '80.00', priceType: 'hourly', duration: 60 },
+        150
+      );
+
+      expect(items).toEqual([{ description: 'Studio Session (2.5 h @ hourly rate)', quantity: 2.5, unitPrice: 80 }]);
+    });
+
+    it('should bill fixed and package services once', () => {
+      const fixed = invoiceService.buildServiceLineItems({ name: 'Headshots', basePrice: 150, priceType: 'fixed', duration: 60 }, 240);
+      const pack = invoiceService.buildServiceLineItems({ name: 'Wedding', basePrice: 2500, priceType: 'package', duration: null }, 480);
+
+      expect(fixed).toEqual([{ description: 'Headshots', quantity: 1, unitPrice: 150 }]);
+      expect(pack).toEqual([{ description: 'Wedding (package)', quantity: 1, unitPrice: 2500 }]);
+    });
+
+    it('should price services without a base price at zero', () => {
+      const items = invoiceService.buildServiceLineItems({ name: 'Consultation', basePrice: null, priceType: 'fixed', duration: 30 }, 30);
+
+      expect(items[0]!.unitPrice).toBe(0);
+    });
+  });
+
+  describe('calculateTotals', () => {
+    it('should total quantity times unit price per line', () => {
+      const totals = invoiceService.calculateTotals([
+        { description: 'Session', quantity: 2.5, unitPrice: 80 },
+        { description: 'Prints', quantity: 3, unitPrice: 19.99 },
+      ], noExtras);
+
+      expect(totals.lineItems.map(item => item.totalCents)).toEqual([20000, 5997]);
+      expect(totals.subtotalCents).toBe(25997);
+      expect(totals.totalCents).toBe(25997);
+    });
+
+    it('should apply line discounts before the invoice discount', () => {
+      const totals = invoiceService.calculateTotals(
+        [{ description: 'Session', quantity: 1, unitPrice: 200, discount: 50 }],
+        { ...noExtras, discount: { type: 'percent', value: 10 } }
+      );
+
+      expect(totals.subtotalCents).toBe(20000);
+      expect(totals.discountTotalCents).toBe(6500);
+      expect(totals.totalCents).toBe(13500);
+    });
+
+    it('should never discount below zero', () => {
+      const totals = invoiceService.calculateTotals(
+        [{ description: 'Session', quantity: 1, unitPrice: 100 }],
+        { ...noExtras, discount: { type: 'amount', value: 250 } }
+      );
+
+      expect(totals.totalCents).toBe(0);
+      expect(totals.discountTotalCents).toBe(10000);
+    });
+
+    it('should charge tax on the discounted amount', () => {
+      const totals = invoiceService.calculateTotals(
+        [{ description: 'Session', quantity: 1, unitPrice: 100 }],
+        { taxRatePercent: 12.5, depositPercent: 0, discount: { type: 'amount', value: 20 } }
+      );
+
+      expect(totals.taxTotalCents).toBe(1000);
+      expect(totals.totalCents).toBe(9000);
+    });
+
+    it('should take the deposit as a share of the total', () => {
+      const totals = invoiceService.calculateTotals(
+        [{ description: 'Session', quantity: 1, unitPrice: 333.33 }],
+        { taxRatePercent: 0, depositPercent: 30 }
+      );
+
+      expect(totals.depositCents).toBe(10000);
+    });
+  });
+
+  describe('money conversion', () => {
+    it('should round to whole cents and back', () => {
+      expect(invoiceService.toCents('19.999')).toBe(2000);
+      expect(invoiceService.toCents(null)).toBe(0);
+      expect(invoiceService.fromCents(123456)).toBe('1234.56');
+    });
+  });
+});
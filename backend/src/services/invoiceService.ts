@@ -0,0 +1,526 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { paymentService, PaymentService } from './paymentService';
+import { createError } from '../middleware/errorHandler';
+
+const prisma = new PrismaClient();
+
+const SETTINGS_ID = 'default';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export type InvoiceType = 'quote' | 'invoice';
+export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'void';
+export type PaymentKind = 'deposit' | 'balance';
+
+// Statuses an invoice may move to by hand; 'paid' is reached by recording payments
+export const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['sent', 'void'],
+  sent: ['void'],
+  paid: ['void'],
+  void: [],
+};
+
+export interface BillingSettings {
+  currency: string;
+  taxRatePercent: number;
+  depositPercent: number; // 0 means bookings can be confirmed without a deposit
+}
+
+export interface LineItemInput {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discount?: number | undefined; // amount taken off this line
+}
+
+export interface DiscountInput {
+  type: 'percent' | 'amount';
+  value: number;
+}
+
+export interface PricedLineItem {
+  position: number;
+  description: string;
+  quantity: number;
+  unitPriceCents: number;
+  discountCents: number;
+  totalCents: number;
+}
+
+export interface InvoiceTotals {
+  lineItems: PricedLineItem[];
+  subtotalCents: number; // before any discounts
+  discountTotalCents: number; // line and invoice discounts together
+  taxTotalCents: number;
+  totalCents: number;
+  depositCents: number;
+}
+
+export interface PricedService {
+  name: string;
+  basePrice: Prisma.Decimal | number | string | null;
+  priceType: string;
+  duration: number | null;
+}
+
+export interface InvoiceInput {
+  lineItems?: LineItemInput[] | undefined;
+  discount?: DiscountInput | undefined;
+  taxRatePercent?: number | undefined;
+  depositPercent?: number | undefined;
+  notes?: string | undefined;
+  dueDate?: string | undefined;
+}
+
+export type DepositStatus =
+  | { required: false }
+  | { required: true; satisfied: boolean; amountDue: number; amountPaid: number; invoiceId: string | null };
+
+export const INVOICE_INCLUDE = {
+  lineItems: { orderBy: { position: 'asc' } },
+  payments: { orderBy: { createdAt: 'asc' } },
+  booking: {
+    select: {
+      id: true,
+      clientName: true,
+      clientEmail: true,
+      clientPhone: true,
+      startTime: true,
+      endTime: true,
+      timeZone: true,
+      status: true,
+      service: { select: { id: true, name: true } },
+    },
+  },
+} satisfies Prisma.InvoiceInclude;
+
+export class InvoiceService {
+  constructor(private readonly payments: PaymentService = paymentService) {}
+
+  /**
+   * Convert a money value to whole cents so totals never pick up floating point error
+   */
+  toCents(value: Prisma.Decimal | number | string | null | undefined): number {
+    if (value === null || value === undefined) {
+      return 0;
+    }
+    return Math.round(Number(value.toString()) * 100);
+  }
+
+  /**
+   * Convert cents back into the two-decimal string Prisma stores in DECIMAL columns
+   */
+  fromCents(cents: number): string {
+    return (cents / 100).toFixed(2);
+  }
+
+  /**
+   * Line items for booking a service: hourly services are billed per hour of the
+   * booking, fixed and package services at their base price.
+   */
+  buildServiceLineItems(service: PricedService, durationMinutes: number): LineItemInput[] {
+    const unitPrice = Number(service.basePrice ?? 0);
+
+    switch (service.priceType) {
+      case 'hourly': {
+        const hours = Math.round((durationMinutes / 60) * 100) / 100;
+        return [{ description: `${service.name} (${hours} h @ hourly rate)`, quantity: hours, unitPrice }];
+      }
+      case 'package':
+        return [{ description: `${service.name} (package)`, quantity: 1, unitPrice }];
+      default:
+        return [{ description: service.name, quantity: 1, unitPrice }];
+    }
+  }
+
+  /**
+   * Price line items and apply the invoice discount, tax and deposit share
+   */
+  calculateTotals(
+    items: LineItemInput[],
+    options: { taxRatePercent: number; depositPercent: number; discount?: DiscountInput | undefined }
+  ): InvoiceTotals {
+    const lineItems = items.map((item, position) => {
+      const unitPriceCents = this.toCents(item.unitPrice);
+      const grossCents = Math.round(item.quantity * unitPriceCents);
+      const discountCents = Math.min(this.toCents(item.discount), grossCents);
+
+      return {
+        position,
+        description: item.description,
+        quantity: item.quantity,
+        unitPriceCents,
+        discountCents,
+        totalCents: grossCents - discountCents,
+      };
+    });
+
+    const subtotalCents = lineItems.reduce((sum, item) => sum + item.totalCents + item.discountCents, 0);
+    const afterLineDiscounts = lineItems.reduce((sum, item) => sum + item.totalCents, 0);
+
+    let invoiceDiscountCents = 0;
+    if (options.discount?.type === 'percent') {
+      invoiceDiscountCents = Math.round(afterLineDiscounts * options.discount.value / 100);
+    } else if (options.discount?.type === 'amount') {
+      invoiceDiscountCents = this.toCents(options.discount.value);
+    }
+    invoiceDiscountCents = Math.min(invoiceDiscountCents, afterLineDiscounts);
+
+    const taxableCents = afterLineDiscounts - invoiceDiscountCents;
+    const taxTotalCents = Math.round(taxableCents * options.taxRatePercent / 100);
+    const totalCents = taxableCents + taxTotalCents;
+
+    return {
+      lineItems,
+      subtotalCents,
+      discountTotalCents: subtotalCents - taxableCents,
+      taxTotalCents,
+      totalCents,
+      depositCents: Math.round(totalCents * options.depositPercent / 100),
+    };
+  }
+
+  async getBillingSettings(): Promise<BillingSettings> {
+    const settings = await prisma.studioSettings.findUnique({ where: { id: SETTINGS_ID } });
+
+    return {
+      currency: settings?.currency ?? DEFAULT_CURRENCY,
+      taxRatePercent: Number(settings?.taxRatePercent ?? 0),
+      depositPercent: settings?.depositPercent ?? 0,
+    };
+  }
+
+  async updateBillingSettings(data: {
+    currency?: string | undefined;
+    taxRatePercent?: number | undefined;
+    depositPercent?: number | undefined;
+  }): Promise<BillingSettings> {
+    const settings = {
+      ...(data.currency !== undefined && { currency: data.currency }),
+      ...(data.taxRatePercent !== undefined && { taxRatePercent: data.taxRatePercent }),
+      ...(data.depositPercent !== undefined && { depositPercent: data.depositPercent }),
+    };
+
+    await prisma.studioSettings.upsert({
+      where: { id: SETTINGS_ID },
+      update: settings,
+      create: { id: SETTINGS_ID, ...settings },
+    });
+
+    return this.getBillingSettings();
+  }
+
+  /**
+   * Next number in the yearly sequence, e.g. 'INV-2026-0007'
+   */
+  async nextNumber(type: InvoiceType, now: Date = new Date()): Promise<string> {
+    const prefix = `${type === 'quote' ? 'QUO' : 'INV'}-${now.getUTCFullYear()}-`;
+    const latest = await prisma.invoice.findFirst({
+      where: { number: { startsWith: prefix } },
+      orderBy: { number: 'desc' },
+      select: { number: true },
+    });
+
+    const sequence = latest ? Number(latest.number.slice(prefix.length)) + 1 : 1;
+    return `${prefix}${String(sequence).padStart(4, '0')}`;
+  }
+
+  private pricedData(totals: InvoiceTotals) {
+    return {
+      subtotal: this.fromCents(totals.subtotalCents),
+      discountTotal: this.fromCents(totals.discountTotalCents),
+      taxTotal: this.fromCents(totals.taxTotalCents),
+      total: this.fromCents(totals.totalCents),
+      depositAmount: this.fromCents(totals.depositCents),
+      lineItems: {
+        create: totals.lineItems.map(item => ({
+          position: item.position,
+          description: item.description,
+          quantity: item.quantity,
+          unitPrice: this.fromCents(item.unitPriceCents),
+          discount: this.fromCents(item.discountCents),
+          total: this.fromCents(item.totalCents),
+        })),
+      },
+    };
+  }
+
+  /**
+   * Raise a quote or invoice for a booking, pricing it from the booked service unless
+   * line items are given
+   */
+  async createForBooking(bookingId: string, type: InvoiceType, input: InvoiceInput = {}) {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: { service: true },
+    });
+
+    if (!booking) {
+      throw createError('Booking with the specified ID does not exist', 404, 'Booking not found');
+    }
+
+    const lineItems = input.lineItems || (booking.service
+      ? this.buildServiceLineItems(
+          booking.service,
+          (booking.endTime.getTime() - booking.startTime.getTime()) / 60000
+        )
+      : []);
+
+    if (lineItems.length === 0) {
+      throw createError('Line items are required for bookings without a service', 400, 'Validation error');
+    }
+
+    const settings = await this.getBillingSettings();
+    const taxRatePercent = input.taxRatePercent ?? settings.taxRatePercent;
+    const totals = this.calculateTotals(lineItems, {
+      taxRatePercent,
+      depositPercent: input.depositPercent ?? settings.depositPercent,
+      discount: input.discount,
+    });
+
+    return prisma.invoice.create({
+      data: {
+        number: await this.nextNumber(type),
+        type,
+        bookingId,
+        currency: settings.currency,
+        taxRatePercent,
+        notes: input.notes || null,
+        dueDate: input.dueDate ? new Date(input.dueDate) : null,
+        ...this.pricedData(totals),
+      },
+      include: INVOICE_INCLUDE,
+    });
+  }
+
+  /**
+   * Re-price a draft. Sent invoices are frozen; void them and raise a new one instead.
+   */
+  async updateDraft(id: string, input: InvoiceInput) {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id },
+      include: { lineItems: { orderBy: { position: 'asc' } } },
+    });
+
+    if (!invoice) {
+      throw createError('Invoice with the specified ID does not exist', 404, 'Invoice not found');
+    }
+    if (invoice.status !== 'draft') {
+      throw createError('Only draft invoices can be edited', 409, 'Invoice locked');
+    }
+
+    const lineItems = input.lineItems || invoice.lineItems.map(item => ({
+      description: item.description,
+      quantity: Number(item.quantity),
+      unitPrice: Number(item.unitPrice),
+      discount: Number(item.discount),
+    }));
+
+    const taxRatePercent = input.taxRatePercent ?? Number(invoice.taxRatePercent);
+    const currentDepositPercent = Number(invoice.total) > 0
+      ? Math.round(Number(invoice.depositAmount) / Number(invoice.total) * 100)
+      : (await this.getBillingSettings()).depositPercent;
+
+    const totals = this.calculateTotals(lineItems, {
+      taxRatePercent,
+      depositPercent: input.depositPercent ?? currentDepositPercent,
+      discount: input.discount,
+    });
+
+    const [, updated] = await prisma.$transaction([
+      prisma.invoiceLineItem.deleteMany({ where: { invoiceId: id } }),
+      prisma.invoice.update({
+        where: { id },
+        data: {
+          taxRatePercent,
+          ...(input.notes !== undefined && { notes: input.notes }),
+          ...(input.dueDate !== undefined && { dueDate: new Date(input.dueDate) }),
+          ...this.pricedData(totals),
+        },
+        include: INVOICE_INCLUDE,
+      }),
+    ]);
+
+    return updated;
+  }
+
+  async setStatus(id: string, status: InvoiceStatus) {
+    const invoice = await prisma.invoice.findUnique({ where: { id } });
+
+    if (!invoice) {
+      throw createError('Invoice with the specified ID does not exist', 404, 'Invoice not found');
+    }
+
+    const allowed = INVOICE_STATUS_TRANSITIONS[invoice.status as InvoiceStatus] || [];
+    if (!allowed.includes(status)) {
+      throw createError(`Cannot change invoice status from ${invoice.status} to ${status}`, 400, 'Invalid status transition');
+    }
+
+    return prisma.invoice.update({
+      where: { id },
+      data: {
+        status,
+        ...(status === 'sent' && { sentAt: new Date() }),
+        ...(status === 'void' && { voidedAt: new Date() }),
+      },
+      include: INVOICE_INCLUDE,
+    });
+  }
+
+  /**
+   * Raise an invoice from an accepted quote, copying its line items and prices
+   */
+  async convertQuote(id: string) {
+    const quote = await prisma.invoice.findUnique({
+      where: { id },
+      include: { lineItems: { orderBy: { position: 'asc' } } },
+    });
+
+    if (!quote) {
+      throw createError('Quote with the specified ID does not exist', 404, 'Quote not found');
+    }
+    if (quote.type !== 'quote') {
+      throw createError('Only quotes can be converted into invoices', 400, 'Invalid quote');
+    }
+    if (quote.status === 'void') {
+      throw createError('Void quotes cannot be converted', 400, 'Invalid quote');
+    }
+
+    return prisma.invoice.create({
+      data: {
+        number: await this.nextNumber('invoice'),
+        type: 'invoice',
+        bookingId: quote.bookingId,
+        quoteId: quote.id,
+        currency: quote.currency,
+        subtotal: quote.subtotal,
+        discountTotal: quote.discountTotal,
+        taxRatePercent: quote.taxRatePercent,
+        taxTotal: quote.taxTotal,
+        total: quote.total,
+        depositAmount: quote.depositAmount,
+        notes: quote.notes,
+        dueDate: quote.dueDate,
+        lineItems: {
+          create: quote.lineItems.map(({ position, description, quantity, unitPrice, discount, total }) => ({
+            position,
+            description,
+            quantity,
+            unitPrice,
+            discount,
+            total,
+          })),
+        },
+      },
+      include: INVOICE_INCLUDE,
+    });
+  }
+
+  /**
+   * Take a deposit or balance payment through the payment provider. Deposits default
+   * to the outstanding deposit and balances to whatever is left on the invoice.
+   */
+  async takePayment(id: string, kind: PaymentKind, amount?: number) {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id },
+      include: { booking: { select: { clientEmail: true } } },
+    });
+
+    if (!invoice) {
+      throw createError('Invoice with the specified ID does not exist', 404, 'Invoice not found');
+    }
+    if (invoice.type !== 'invoice') {
+      throw createError('Payments can only be taken against invoices, not quotes', 400, 'Invalid payment');
+    }
+    if (invoice.status !== 'sent') {
+      throw createError('Payments can only be taken once an invoice has been sent', 409, 'Invalid payment');
+    }
+
+    const paidCents = this.toCents(invoice.amountPaid);
+    const outstandingCents = this.toCents(invoice.total) - paidCents;
+    const defaultCents = kind === 'deposit'
+      ? Math.max(this.toCents(invoice.depositAmount) - paidCents, 0)
+      : outstandingCents;
+    const amountCents = amount !== undefined ? this.toCents(amount) : defaultCents;
+
+    if (amountCents <= 0) {
+      throw createError(
+        kind === 'deposit' ? 'The deposit has already been paid' : 'Nothing is outstanding on this invoice',
+        409,
+        'Invalid payment'
+      );
+    }
+    if (amountCents > outstandingCents) {
+      throw createError('Payment exceeds the outstanding amount', 400, 'Invalid payment');
+    }
+
+    const result = await this.payments.charge({
+      amountCents,
+      currency: invoice.currency,
+      reference: invoice.number,
+      description: `${kind === 'deposit' ? 'Deposit' : 'Payment'} for ${invoice.number}`,
+      customerEmail: invoice.booking.clientEmail,
+    });
+
+    const succeeded = result.status === 'succeeded';
+    const newPaidCents = paidCents + (succeeded ? amountCents : 0);
+    const fullyPaid = newPaidCents >= this.toCents(invoice.total);
+
+    const [payment] = await prisma.$transaction([
+      prisma.payment.create({
+        data: {
+          invoiceId: id,
+          kind,
+          amount: this.fromCents(amountCents),
+          currency: invoice.currency,
+          provider: this.payments.providerName,
+          providerReference: result.providerReference || null,
+          status: result.status,
+          failureReason: result.failureReason || null,
+        },
+      }),
+      prisma.invoice.update({
+        where: { id },
+        data: {
+          amountPaid: this.fromCents(newPaidCents),
+          ...(fullyPaid && { status: 'paid', paidAt: new Date() }),
+        },
+      }),
+    ]);
+
+    return payment;
+  }
+
+  /**
+   * Whether a booking has paid the deposit it needs before it can be confirmed
+   */
+  async getDepositStatus(bookingId: string): Promise<DepositStatus> {
+    const settings = await this.getBillingSettings();
+    const invoices = await prisma.invoice.findMany({
+      where: { bookingId, type: 'invoice', status: { not: 'void' } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const depositInvoice = invoices.find(invoice => this.toCents(invoice.depositAmount) > 0);
+
+    if (!depositInvoice) {
+      if (settings.depositPercent === 0) {
+        return { required: false };
+      }
+      return { required: true, satisfied: false, amountDue: 0, amountPaid: 0, invoiceId: null };
+    }
+
+    const amountDue = Number(depositInvoice.depositAmount);
+    const amountPaid = Number(depositInvoice.amountPaid);
+
+    return {
+      required: true,
+      satisfied: this.toCents(amountPaid) >= this.toCents(amountDue),
+      amountDue,
+      amountPaid,
+      invoiceId: depositInvoice.id,
+    };
+  }
+}
+
+export const invoiceService = new InvoiceService();
@@ -0,0 +1,21 @@
+import { JobQueueService } from './jobQueueService';
+
+describe('JobQueueService - Retries', () => {
+  let jobQueueService: JobQueueService;
+
+  beforeEach(() => {
+    jobQueueService = new JobQueueService();
+  });
+
+  describe('getRetryDelay', () => {
+    it('should double the delay after each failed attempt', () => {
+      expect(jobQueueService.getRetryDelay(1)).toBe(60 * 1000);
+      expect(jobQueueService.getRetryDelay(2)).toBe(2 * 60 * 1000);
+      expect(jobQueueService.getRetryDelay(4)).toBe(8 * 60 * 1000);
+    });
+
+    it('should never wait more than an hour', () => {
+      expect(jobQueueService.getRetryDelay(20)).toBe(60 * 60 * 1000);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { PrismaClient, Prisma, ScheduledJob } from '@prisma/client';
+import logger from '../config/logger';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_TICK_INTERVAL_MS = 60 * 1000;
+const BATCH_SIZE = 20;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// Jobs still running after this long belong to a worker that died and are run again
+const STALE_LOCK_MS = 15 * 60 * 1000;
+
+export type JobHandler = (payload: any, job: ScheduledJob) => Promise<void>;
+
+// Work done on every scheduler tick before due jobs run, e.g. enqueueing reminders
+export type PeriodicTask = (now: Date) => Promise<void>;
+
+export interface EnqueueOptions {
+  type: string;
+  payload: Prisma.InputJsonValue;
+  idempotencyKey: string;
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export class JobQueueService {
+  private readonly handlers = new Map<string, JobHandler>();
+  private readonly periodicTasks: Array<{ name: string; task: PeriodicTask }> = [];
+  private readonly tickIntervalMs = Number(process.env['JOB_TICK_INTERVAL_MS']) || DEFAULT_TICK_INTERVAL_MS;
+  private tickInterval?: NodeJS.Timeout;
+  private ticking = false;
+
+  registerHandler(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  addPeriodicTask(name: string, task: PeriodicTask): void {
+    this.periodicTasks.push({ name, task });
+  }
+
+  /**
+   * Exponential backoff after a failed attempt: 1 minute, 2, 4, ... up to an hour
+   */
+  getRetryDelay(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+  }
+
+  /**
+   * Add a job unless one with the same idempotency key already exists, in which
+   * case the existing job is returned untouched
+   */
+  async enqueue(options: EnqueueOptions): Promise<ScheduledJob> {
+    return prisma.scheduledJob.upsert({
+      where: { idempotencyKey: options.idempotencyKey },
+      create: {
+        type: options.type,
+        payload: options.payload,
+        idempotencyKey: options.idempotencyKey,
+        runAt: options.runAt ?? new Date(),
+        ...(options.maxAttempts !== undefined && { maxAttempts: options.maxAttempts }),
+      },
+      update: {},
+    });
+  }
+
+  /**
+   * Run jobs whose time has come, oldest first. Returns the number of jobs run.
+   */
+  async runDueJobs(now: Date = new Date()): Promise<number> {
+    // Hand jobs left running by a dead worker back to the queue
+    await prisma.scheduledJob.updateMany({
+      where: { status: 'running', lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) } },
+      data: { status: 'pending', lockedAt: null },
+    });
+
+    const due = await prisma.scheduledJob.findMany({
+      where: { status: 'pending', runAt: { lte: now } },
+      orderBy: { runAt: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    let ran = 0;
+    for (const job of due) {
+      // Another worker may have claimed the job since it was read
+      const { count } = await prisma.scheduledJob.updateMany({
+        where: { id: job.id, status: 'pending' },
+        data: { status: 'running', lockedAt: new Date(), attempts: { increment: 1 } },
+      });
+
+      if (count === 0) {
+        continue;
+      }
+
+      await this.runJob({ ...job, attempts: job.attempts + 1 });
+      ran++;
+    }
+
+    return ran;
+  }
+
+  /**
+   * Run the periodic tasks, then the jobs that are due
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    for (const { name, task } of this.periodicTasks) {
+      try {
+        await task(now);
+      } catch (error) {
+        logger.error('Periodic task failed', {
+          task: name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          service: 'JobQueueService',
+        });
+      }
+    }
+
+    await this.runDueJobs(now);
+  }
+
+  start(): void {
+    this.tickInterval = setInterval(() => {
+      // Skip a tick while the previous one is still working through a backlog
+      if (this.ticking) {
+        return;
+      }
+
+      this.ticking = true;
+      this.tick()
+        .catch(error => {
+          logger.error('Job scheduler tick failed', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+            service: 'JobQueueService',
+          });
+        })
+        .finally(() => {
+          this.ticking = false;
+        });
+    }, this.tickIntervalMs);
+  }
+
+  shutdown(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+    }
+  }
+
+  private async runJob(job: ScheduledJob): Promise<void> {
+    const handler = this.handlers.get(job.type);
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type ${job.type}`);
+      }
+
+      await handler(job.payload, job);
+
+      await prisma.scheduledJob.update({
+        where: { id: job.id },
+        data: { status: 'completed', completedAt: new Date(), lockedAt: null, lastError: null },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const giveUp = job.attempts >= job.maxAttempts;
+
+      await prisma.scheduledJob.update({
+        where: { id: job.id },
+        data: {
+          status: giveUp ? 'failed' : 'pending',
+          lockedAt: null,
+          lastError: message,
+          ...(!giveUp && { runAt: new Date(Date.now() + this.getRetryDelay(job.attempts)) }),
+        },
+      });
+
+      logger.error('Scheduled job failed', {
+        jobId: job.id,
+        type: job.type,
+        attempts: job.attempts,
+        willRetry: !giveUp,
+        error: message,
+        service: 'JobQueueService',
+      });
+    }
+  }
+}
+
+export const jobQueueService = new JobQueueService();
@@ -0,0 +1,45 @@
+import { LoginProtectionService } from './loginProtectionService';
+
+describe('LoginProtectionService - Basic Tests', () => {
+  let loginProtectionService: LoginProtectionService;
+
+  beforeEach(() => {
+    loginProtectionService = new LoginProtectionService();
+  });
+
+  describe('getLockoutDuration', () => {
+    it('should start at 15 minutes and double with each lockout', () => {
+      expect(loginProtectionService.getLockoutDuration(1)).toBe(15 * 60 * 1000);
+      expect(loginProtectionService.getLockoutDuration(2)).toBe(30 * 60 * 1000);
+      expect(loginProtectionService.getLockoutDuration(3)).toBe(60 * 60 * 1000);
+    });
+
+    it('should never lock for longer than a day', () => {
+      expect(loginProtectionService.getLockoutDuration(8)).toBe(24 * 60 * 60 * 1000);
+      expect(loginProtectionService.getLockoutDuration(50)).toBe(24 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('assertNotLocked', () => {
+    const user = { id: 'user-1', email: 'ama@derjiproductions.com' };
+
+    it('should allow accounts that were never locked or whose lock has run out', () => {
+      expect(() => loginProtectionService.assertNotLocked({ ...user, lockedUntil: null })).not.toThrow();
+      expect(() => loginProtectionService.assertNotLocked({
+        ...user,
+        lockedUntil: new Date(Date.now() - 1000),
+      })).not.toThrow();
+    });
+
+    it('should refuse a locked account with how long is left', () => {
+      expect(() => loginProtectionService.assertNotLocked({
+        ...user,
+        lockedUntil: new Date(Date.now() + 10 * 60 * 1000),
+      })).toThrow(expect.objectContaining({
+        status: 423,
+        code: 'ACCOUNT_LOCKED',
+        message: expect.stringContaining('10 minutes'),
+      }));
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { PrismaClient } from '@prisma/client';
+import logger, { logAuthEvent, logSecurityEvent } from '../config/logger';
+import { createError } from '../middleware/errorHandler';
+import { describeUserAgent } from '../utils/userAgent';
+import { emailService } from './emailService';
+import { SessionClient } from './sessionService';
+
+const prisma = new PrismaClient();
+
+// The parts of a user row this service reads
+export interface ProtectedUser {
+  id: string;
+  email: string;
+  firstName?: string | null;
+  lockedUntil: Date | null;
+}
+
+/**
+ * Per-account protection for sign-in, on top of the IP-based rate limit. Repeated
+ * wrong passwords or codes lock the account, for longer each time until it next
+ * signs in successfully, and the owner hears about lockouts and about sign-ins
+ * from somewhere new.
+ */
+export class LoginProtectionService {
+  private readonly MAX_FAILED_ATTEMPTS = 5;
+  private readonly BASE_LOCKOUT_MS = 15 * 60 * 1000; // 15 minutes
+  private readonly MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000; // 1 day
+  private readonly KNOWN_SESSIONS_CHECKED = 50;
+  private readonly FRONTEND_URL = process.env['FRONTEND_URL'] || 'http://localhost:3000';
+
+  // How long the nth lockout lasts: doubling from 15 minutes, up to a day
+  getLockoutDuration(lockoutCount: number): number {
+    const doublings = Math.max(0, lockoutCount - 1);
+    return Math.min(this.BASE_LOCKOUT_MS * 2 ** doublings, this.MAX_LOCKOUT_MS);
+  }
+
+  // Refuse sign-in while the account is locked, without checking the password
+  assertNotLocked(user: ProtectedUser, client: SessionClient = {}): void {
+    if (!user.lockedUntil || user.lockedUntil <= new Date()) {
+      return;
+    }
+
+    logAuthEvent('login_blocked', user.id, false, { ip: client.ipAddress, lockedUntil: user.lockedUntil });
+
+    const minutes = Math.ceil((user.lockedUntil.getTime() - Date.now()) / 60000);
+    throw createError(
+      `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'} or reset your password.`,
+      423,
+      'ACCOUNT_LOCKED'
+    );
+  }
+
+  /**
+   * Count a wrong password or code. The attempt that reaches the limit locks the
+   * account and starts the count again for when the lock runs out.
+   */
+  async recordFailure(user: ProtectedUser, client: SessionClient = {}, reason: string = 'invalid_password'): Promise<void> {
+    const { failedLoginCount } = await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginCount: { increment: 1 } },
+      select: { failedLoginCount: true },
+    });
+
+    logAuthEvent('login_failed', user.id, false, { reason, attempts: failedLoginCount, ip: client.ipAddress });
+
+    if (failedLoginCount < this.MAX_FAILED_ATTEMPTS) {
+      return;
+    }
+
+    // Only one of several concurrent attempts gets to lock the account
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, failedLoginCount: { gte: this.MAX_FAILED_ATTEMPTS } },
+      data: { failedLoginCount: 0, lockoutCount: { increment: 1 } },
+    });
+    if (count === 0) {
+      return;
+    }
+
+    const { lockoutCount } = await prisma.user.findUniqueOrThrow({
+      where: { id: user.id },
+      select: { lockoutCount: true },
+    });
+    const lockedUntil = new Date(Date.now() + this.getLockoutDuration(lockoutCount));
+    await prisma.user.update({ where: { id: user.id }, data: { lockedUntil } });
+
+    const device = describeUserAgent(client.userAgent);
+    logAuthEvent('account_locked', user.id, false, { lockoutCount, lockedUntil, ip: client.ipAddress, device });
+    logSecurityEvent('brute_force_account_lockout', 'high', { userId: user.id, lockoutCount, ip: client.ipAddress });
+
+    try {
+      await emailService.sendAccountLocked({
+        user,
+        failedAttempts: this.MAX_FAILED_ATTEMPTS,
+        lockedUntil,
+        ipAddress: client.ipAddress || 'an unknown IP address',
+        device,
+        resetUrl: `${this.FRONTEND_URL}/admin/reset-password`,
+      });
+    } catch (error) {
+      logger.error('Failed to send account locked email', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        service: 'LoginProtectionService',
+      });
+    }
+  }
+
+  /**
+   * Clear the counters after a successful sign-in, and tell the user if it came
+   * from an IP address and device that none of their earlier sessions used. Call
+   * it before creating the new session, which would otherwise count as known.
+   */
+  async recordSuccess(user: ProtectedUser, client: SessionClient = {}): Promise<void> {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginCount: 0, lockoutCount: 0, lockedUntil: null },
+    });
+
+    const device = describeUserAgent(client.userAgent);
+    const earlierSessions = await prisma.session.findMany({
+      where: { userId: user.id },
+      select: { ipAddress: true, userAgent: true },
+      orderBy: { createdAt: 'desc' },
+      take: this.KNOWN_SESSIONS_CHECKED,
+    });
+
+    const isKnown = earlierSessions.some(session =>
+      session.ipAddress === (client.ipAddress || null) && describeUserAgent(session.userAgent) === device
+    );
+
+    // A first sign-in has nothing to compare against
+    if (earlierSessions.length === 0 || isKnown) {
+      logAuthEvent('login', user.id, true, { ip: client.ipAddress, device });
+      return;
+    }
+
+    logAuthEvent('login_new_device', user.id, true, {
+      ip: client.ipAddress,
+      device,
+      newIp: !earlierSessions.some(session => session.ipAddress === (client.ipAddress || null)),
+      newDevice: !earlierSessions.some(session => describeUserAgent(session.userAgent) === device),
+    });
+
+    try {
+      await emailService.sendNewLoginAlert({
+        user,
+        ipAddress: client.ipAddress || 'an unknown IP address',
+        device,
+        signedInAt: new Date(),
+        profileUrl: `${this.FRONTEND_URL}/admin/profile`,
+      });
+    } catch (error) {
+      logger.error('Failed to send new sign-in email', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        service: 'LoginProtectionService',
+      });
+    }
+  }
+
+  // Lift a lockout early, after a password reset or by an admin
+  async unlock(userId: string): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginCount: 0, lockoutCount: 0, lockedUntil: null },
+    });
+
+    logAuthEvent('account_unlocked', userId);
+  }
+}
+
+export const loginProtectionService = new LoginProtectionService();
@@ -0,0 +1,45 @@
+import { FakePaymentProvider, PaymentService, createPaymentProvider } from './paymentService';
+
+jest.mock('../config/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn(), warn: jest.fn() },
+}));
+
+describe('PaymentService - Providers', () => {
+  const request = {
+    amountCents: 5000,
+    currency: 'USD',
+    reference: 'INV-2026-0001',
+    description: 'Deposit for INV-2026-0001',
+    customerEmail: 'client@example.com',
+  };
+
+  it('should approve charges with the fake provider', async () => {
+    const result = await new FakePaymentProvider(undefined).charge(request);
+
+    expect(result.status).toBe('succeeded');
+    expect(result.providerReference).toMatch(/^fake_/);
+  });
+
+  it('should decline charges when configured to', async () => {
+    const result = await new FakePaymentProvider('Card declined').charge(request);
+
+    expect(result).toMatchObject({ status: 'failed', failureReason: 'Card declined' });
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createPaymentProvider('carrier-pigeon')).toThrow('Unknown payment provider');
+  });
+
+  it('should turn provider errors into failed charges', async () => {
+    const service = new PaymentService({
+      name: 'broken',
+      charge: jest.fn().mockRejectedValue(new Error('Gateway timeout')),
+    });
+
+    const result = await service.charge(request);
+
+    expect(result.status).toBe('failed');
+    expect(service.providerName).toBe('broken');
+  });
+});
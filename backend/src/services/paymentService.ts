@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import logger from '../config/logger';
+
+export type ChargeStatus = 'succeeded' | 'pending' | 'failed';
+
+export interface ChargeRequest {
+  amountCents: number;
+  currency: string;
+  reference: string; // invoice number the charge belongs to
+  description: string;
+  customerEmail: string;
+}
+
+export interface ChargeResult {
+  status: ChargeStatus;
+  providerReference: string;
+  failureReason?: string;
+}
+
+/**
+ * A payment gateway. Real providers (Stripe, Paystack, ...) implement this so invoices
+ * never talk to a gateway SDK directly.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  charge(request: ChargeRequest): Promise<ChargeResult>;
+}
+
+/**
+ * Local provider for development and tests. Every charge succeeds immediately unless
+ * FAKE_PAYMENT_DECLINE is set, in which case it is declined with that reason.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  constructor(private readonly declineReason: string | undefined = process.env['FAKE_PAYMENT_DECLINE'] || undefined) {}
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    const providerReference = `fake_${crypto.randomBytes(8).toString('hex')}`;
+
+    if (request.amountCents <= 0) {
+      return { status: 'failed', providerReference, failureReason: 'Amount must be greater than zero' };
+    }
+
+    if (this.declineReason) {
+      return { status: 'failed', providerReference, failureReason: this.declineReason };
+    }
+
+    return { status: 'succeeded', providerReference };
+  }
+}
+
+/**
+ * Build the provider named by PAYMENT_PROVIDER (defaults to the fake provider)
+ */
+export function createPaymentProvider(name: string = process.env['PAYMENT_PROVIDER'] || 'fake'): PaymentProvider {
+  switch (name) {
+    case 'fake':
+      return new FakePaymentProvider();
+    default:
+      throw new Error(`Unknown payment provider: ${name}`);
+  }
+}
+
+export class PaymentService {
+  constructor(private readonly provider: PaymentProvider = createPaymentProvider()) {}
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Charge the customer through the configured provider
+   */
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    try {
+      const result = await this.provider.charge(request);
+
+      logger.info('Payment processed', {
+        provider: this.provider.name,
+        reference: request.reference,
+        amountCents: request.amountCents,
+        status: result.status,
+        service: 'PaymentService',
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Payment provider error', {
+        provider: this.provider.name,
+        reference: request.reference,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        service: 'PaymentService',
+      });
+
+      return {
+        status: 'failed',
+        providerReference: '',
+        failureReason: 'The payment provider could not process this payment',
+      };
+    }
+  }
+}
+
+export const paymentService = new PaymentService();
@@ -0,0 +1,111 @@
+import { RateLimitPolicy, RateLimitPolicyName, VIOLATION_MEMORY_MS, rateLimitPolicies } from '../config/rateLimits';
+import { RateLimitStore, rateLimitStore } from './rateLimitStore';
+
+export interface PolicyState {
+  policy: RateLimitPolicyName;
+  limit: number;
+  windowMs: number;
+  hits: number;
+  resetAt: Date | null;
+  blockedUntil: Date | null;
+}
+
+export interface ClientRateLimits {
+  key: string;
+  store: string;
+  violations: number;
+  policies: PolicyState[];
+}
+
+/**
+ * Rate limit state per client (an IP address, or a user ID for per-user policies):
+ * hit counters, blocks and the violations that tighten progressive limits
+ */
+export class RateLimitService {
+  constructor(
+    readonly store: RateLimitStore = rateLimitStore,
+    private readonly policies: Record<RateLimitPolicyName, RateLimitPolicy> = rateLimitPolicies
+  ) {}
+
+  counterKey(policy: string, client: string): string {
+    return `rl:${policy}:${client}`;
+  }
+
+  private blockKey(policy: string, client: string): string {
+    return `rl:block:${policy}:${client}`;
+  }
+
+  private violationKey(client: string): string {
+    return `rl:violations:${client}`;
+  }
+
+  // A policy's limit for this client, cut by up to 80% for repeat offenders on progressive policies
+  async limitFor(policy: RateLimitPolicy, client: string): Promise<number> {
+    if (!policy.progressive) {
+      return policy.max;
+    }
+
+    const violations = (await this.store.get(this.violationKey(client)))?.count ?? 0;
+    const reductionFactor = Math.min(violations * 0.1, 0.8);
+    return Math.floor(policy.max * (1 - reductionFactor));
+  }
+
+  async getBlock(policy: RateLimitPolicy, client: string): Promise<Date | null> {
+    if (!policy.blockMs) {
+      return null;
+    }
+    return (await this.store.get(this.blockKey(policy.name, client)))?.resetAt ?? null;
+  }
+
+  /**
+   * Note that a client went over a policy's limit, blocking them if the policy says so.
+   * Returns when they may try again, if blocked.
+   */
+  async recordViolation(policy: RateLimitPolicy, client: string): Promise<Date | null> {
+    await this.store.increment(this.violationKey(client), VIOLATION_MEMORY_MS);
+
+    if (!policy.blockMs) {
+      return null;
+    }
+    await this.store.set(this.blockKey(policy.name, client), 1, policy.blockMs);
+    return new Date(Date.now() + policy.blockMs);
+  }
+
+  async inspect(client: string): Promise<ClientRateLimits> {
+    const names = Object.keys(this.policies) as RateLimitPolicyName[];
+
+    const [violations, policies] = await Promise.all([
+      this.store.get(this.violationKey(client)),
+      Promise.all(names.map(async (name): Promise<PolicyState> => {
+        const policy = this.policies[name];
+        const [counter, blockedUntil, limit] = await Promise.all([
+          this.store.get(this.counterKey(name, client)),
+          this.getBlock(policy, client),
+          this.limitFor(policy, client),
+        ]);
+
+        return {
+          policy: name,
+          limit,
+          windowMs: policy.windowMs,
+          hits: counter?.count ?? 0,
+          resetAt: counter?.resetAt ?? null,
+          blockedUntil,
+        };
+      })),
+    ]);
+
+    return { key: client, store: this.store.name, violations: violations?.count ?? 0, policies };
+  }
+
+  // Forget a client's counters and blocks for one policy, or for every policy along with their violations
+  async clear(client: string, policy?: RateLimitPolicyName): Promise<ClientRateLimits> {
+    const names = policy ? [policy] : (Object.keys(this.policies) as RateLimitPolicyName[]);
+    const keys = names.flatMap(name => [this.counterKey(name, client), this.blockKey(name, client)]);
+
+    await this.store.delete(policy ? keys : [...keys, this.violationKey(client)]);
+    return this.inspect(client);
+  }
+}
+
+export const rateLimitService = new RateLimitService();
@@ -0,0 +1,115 @@
+import Redis from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import { MemoryRateLimitStore, RedisRateLimitStore, createRateLimitStore } from './rateLimitStore';
+
+describe('MemoryRateLimitStore', () => {
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-18T10:00:00Z') });
+    store = new MemoryRateLimitStore();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should count hits within a window', async () => {
+    await store.increment('rl:general:1.2.3.4', 60000);
+    const counter = await store.increment('rl:general:1.2.3.4', 60000);
+
+    expect(counter).toEqual({ count: 2, resetAt: new Date('2026-10-18T10:01:00Z') });
+  });
+
+  it('should start a new window once the old one ends', async () => {
+    await store.increment('key', 60000);
+    jest.advanceTimersByTime(60000);
+
+    expect(await store.get('key')).toBeNull();
+    expect((await store.increment('key', 60000)).count).toBe(1);
+  });
+
+  it('should not decrement below zero', async () => {
+    await store.increment('key', 60000);
+    await store.decrement('key');
+    await store.decrement('key');
+
+    expect((await store.get('key'))?.count).toBe(0);
+  });
+
+  it('should set and delete keys', async () => {
+    await store.set('rl:block:contactForm:1.2.3.4', 1, 900000);
+    expect(await store.get('rl:block:contactForm:1.2.3.4')).toEqual({ count: 1, resetAt: new Date('2026-10-18T10:15:00Z') });
+
+    await store.delete(['rl:block:contactForm:1.2.3.4']);
+    expect(await store.get('rl:block:contactForm:1.2.3.4')).toBeNull();
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  let client: Redis;
+  let store: RedisRateLimitStore;
+
+  beforeEach(async () => {
+    client = new RedisMock();
+    await client.flushall();
+    store = new RedisRateLimitStore(client, 'test:');
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('should count hits under the prefixed key within one window', async () => {
+    await store.increment('rl:auth:1.2.3.4', 900000);
+    const counter = await store.increment('rl:auth:1.2.3.4', 900000);
+
+    expect(counter.count).toBe(2);
+    expect(counter.resetAt.getTime()).toBeGreaterThan(Date.now() + 890000);
+    expect(await client.get('test:rl:auth:1.2.3.4')).toBe('2');
+    expect(await client.pttl('test:rl:auth:1.2.3.4')).toBeGreaterThan(890000);
+  });
+
+  it('should return null for a missing counter', async () => {
+    expect(await store.get('rl:auth:1.2.3.4')).toBeNull();
+  });
+
+  it('should not decrement below zero', async () => {
+    await store.increment('key', 60000);
+    await store.decrement('key');
+    await store.decrement('key');
+
+    expect((await store.get('key'))?.count).toBe(0);
+  });
+
+  it('should set and delete keys', async () => {
+    await store.set('rl:block:contactForm:1.2.3.4', 1, 900000);
+    const block = await store.get('rl:block:contactForm:1.2.3.4');
+    expect(block?.count).toBe(1);
+    expect(block?.resetAt.getTime()).toBeGreaterThan(Date.now() + 890000);
+
+    await store.delete(['rl:block:contactForm:1.2.3.4']);
+    expect(await store.get('rl:block:contactForm:1.2.3.4')).toBeNull();
+  });
+
+  it('should give express-rate-limit the same keys', () => {
+    expect(store.limiterStore('rl:auth:').prefix).toBe('test:rl:auth:');
+  });
+});
+
+describe('createRateLimitStore', () => {
+  it('should use memory without a Redis URL', () => {
+    expect(createRateLimitStore({}).name).toBe('memory');
+  });
+
+  it('should use Redis when a URL is set', async () => {
+    const store = createRateLimitStore({ REDIS_URL: 'redis://redis:6379' });
+
+    expect(store.name).toBe('redis');
+    await store.close();
+  });
+
+  it('should reject unknown stores', () => {
+    expect(() => createRateLimitStore({ RATE_LIMIT_STORE: 'memcached' })).toThrow("Unknown RATE_LIMIT_STORE 'memcached'");
+  });
+});
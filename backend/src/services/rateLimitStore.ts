@@ -0,0 +1,217 @@
+import Redis from 'ioredis';
+import { RedisReply, RedisStore } from 'rate-limit-redis';
+import logger from '../config/logger';
+
+const REDIS_TIMEOUT_MS = 2000;
+
+export interface RateLimitCounter {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Counters that expire, shared by every rate limiter. Keep one store per deployment
+ * so limits hold across restarts and replicas.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  // Add one to the counter, starting a window of `windowMs` if it does not exist
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+  // Take one back, e.g. for a request that turned out not to count
+  decrement(key: string): Promise<void>;
+  get(key: string): Promise<RateLimitCounter | null>;
+  set(key: string, count: number, ttlMs: number): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Counters kept in this process. Used for tests and single-instance development;
+ * limits reset on restart and are not shared between replicas.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private readonly counters = new Map<string, { count: number; expiresAt: number }>();
+  private lastSweep = Date.now();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    this.sweep();
+    const now = Date.now();
+    const counter = this.live(key, now) ?? { count: 0, expiresAt: now + windowMs };
+
+    counter.count += 1;
+    this.counters.set(key, counter);
+    return { count: counter.count, resetAt: new Date(counter.expiresAt) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    const counter = this.live(key, Date.now());
+    if (counter && counter.count > 0) {
+      counter.count -= 1;
+    }
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const counter = this.live(key, Date.now());
+    return counter ? { count: counter.count, resetAt: new Date(counter.expiresAt) } : null;
+  }
+
+  async set(key: string, count: number, ttlMs: number): Promise<void> {
+    this.counters.set(key, { count, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach(key => this.counters.delete(key));
+  }
+
+  async close(): Promise<void> {
+    this.counters.clear();
+  }
+
+  private live(key: string, now: number) {
+    const counter = this.counters.get(key);
+    if (counter && counter.expiresAt <= now) {
+      this.counters.delete(key);
+      return undefined;
+    }
+    return counter;
+  }
+
+  // Drop expired counters about once a minute so keys nobody reads again do not pile up
+  private sweep(): void {
+    const now = Date.now();
+    if (now - this.lastSweep < 60 * 1000) {
+      return;
+    }
+
+    this.lastSweep = now;
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Counters in Redis or a server that speaks its protocol (Valkey, KeyDB, Dragonfly),
+ * so every replica sees the same limits. Counting and reading run as transactions,
+ * so concurrent hits are never lost.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis';
+
+  constructor(readonly client: Redis, readonly keyPrefix: string = 'derji:') {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const prefixed = this.keyPrefix + key;
+    // The window starts with the first hit; INCR keeps the expiry SET gave the key
+    const [, count, ttl] = this.results(await this.client.multi()
+      .set(prefixed, 0, 'PX', windowMs, 'NX')
+      .incr(prefixed)
+      .pttl(prefixed)
+      .exec()) as [unknown, number, number];
+
+    return { count, resetAt: new Date(Date.now() + ttl) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    const prefixed = this.keyPrefix + key;
+    if (await this.client.decr(prefixed) < 0) {
+      await this.client.set(prefixed, 0, 'KEEPTTL');
+    }
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const prefixed = this.keyPrefix + key;
+    const [count, ttl] = this.results(await this.client.multi().get(prefixed).pttl(prefixed).exec()) as [string | null, number];
+    if (count === null) {
+      return null;
+    }
+
+    return { count: Number(count), resetAt: new Date(Date.now() + Math.max(ttl, 0)) };
+  }
+
+  async set(key: string, count: number, ttlMs: number): Promise<void> {
+    await this.client.set(this.keyPrefix + key, count, 'PX', Math.max(Math.round(ttlMs), 1));
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length > 0) {
+      await this.client.del(...keys.map(key => this.keyPrefix + key));
+    }
+  }
+
+  /**
+   * express-rate-limit store keeping one policy's counters under `prefix`, in the
+   * same keys get() and delete() see
+   */
+  limiterStore(prefix: string): RedisStore {
+    const store = new RedisStore({
+      prefix: this.keyPrefix + prefix,
+      sendCommand: (command: string, ...args: string[]) => this.client.call(command, ...args) as Promise<RedisReply>,
+    });
+
+    // Its scripts load as soon as it is made and again on the next request if that fails,
+    // so Redis being down at startup is not an unhandled rejection
+    store.incrementScriptSha.catch(() => undefined);
+    store.getScriptSha.catch(() => undefined);
+
+    return store;
+  }
+
+  async close(): Promise<void> {
+    // quit() would open a connection that was never used just to close it
+    if (this.client.status === 'wait') {
+      this.client.disconnect();
+      return;
+    }
+    await this.client.quit().catch(() => this.client.disconnect());
+  }
+
+  // A failed command inside a transaction comes back beside the others; throw it instead
+  private results(replies: [Error | null, unknown][] | null): unknown[] {
+    if (!replies) {
+      throw new Error('Redis transaction was aborted');
+    }
+
+    return replies.map(([error, value]) => {
+      if (error) {
+        throw error;
+      }
+      return value;
+    });
+  }
+}
+
+/**
+ * Store named by RATE_LIMIT_STORE, or Redis when REDIS_URL is set. Falls back to
+ * memory so development works without a Redis server.
+ */
+export function createRateLimitStore(env: NodeJS.ProcessEnv = process.env): RateLimitStore {
+  const name = env['RATE_LIMIT_STORE'] || (env['REDIS_URL'] ? 'redis' : 'memory');
+
+  switch (name) {
+    case 'redis': {
+      // Connects on first use; a command waits at most one reconnect before failing,
+      // so requests are let through rather than held while Redis is down
+      const client = new Redis(env['REDIS_URL'] || 'redis://localhost:6379', {
+        lazyConnect: true,
+        connectTimeout: REDIS_TIMEOUT_MS,
+        commandTimeout: REDIS_TIMEOUT_MS,
+        maxRetriesPerRequest: 1,
+      });
+      client.on('error', (error: Error) => {
+        logger.warn('Rate limit store connection error', { error: error.message, service: 'RateLimitStore' });
+      });
+
+      return new RedisRateLimitStore(client, env['RATE_LIMIT_KEY_PREFIX'] || 'derji:');
+    }
+    case 'memory':
+      return new MemoryRateLimitStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE '${name}'`);
+  }
+}
+
+export const rateLimitStore = createRateLimitStore();
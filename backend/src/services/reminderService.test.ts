@@ -0,0 +1,63 @@
+import { ReminderService } from './reminderService';
+
+describe('ReminderService - Scheduling', () => {
+  let reminderService: ReminderService;
+
+  const startTime = new Date('2026-03-14T10:00:00.000Z');
+  const createdAt = new Date('2026-03-01T09:00:00.000Z');
+
+  beforeEach(() => {
+    reminderService = new ReminderService();
+  });
+
+  describe('getReminderTimes', () => {
+    it('should remind clients 48 and 2 hours before the session', () => {
+      const reminders = reminderService.getReminderTimes({ startTime, createdAt }, new Date('2026-03-10T09:00:00.000Z'));
+
+      expect(reminders).toEqual([
+        { hoursBefore: 48, runAt: new Date('2026-03-12T10:00:00.000Z') },
+        { hoursBefore: 2, runAt: new Date('2026-03-14T08:00:00.000Z') },
+      ]);
+    });
+
+    it('should skip reminders due before the booking was made', () => {
+      const reminders = reminderService.getReminderTimes(
+        { startTime, createdAt: new Date('2026-03-13T09:00:00.000Z') },
+        new Date('2026-03-13T09:00:00.000Z')
+      );
+
+      expect(reminders.map(reminder => reminder.hoursBefore)).toEqual([2]);
+    });
+
+    it('should drop a missed reminder once the next one is due', () => {
+      expect(
+        reminderService.getReminderTimes({ startTime, createdAt }, new Date('2026-03-13T09:00:00.000Z'))
+          .map(reminder => reminder.hoursBefore)
+      ).toEqual([48, 2]);
+      expect(
+        reminderService.getReminderTimes({ startTime, createdAt }, new Date('2026-03-14T08:30:00.000Z'))
+          .map(reminder => reminder.hoursBefore)
+      ).toEqual([2]);
+      expect(reminderService.getReminderTimes({ startTime, createdAt }, startTime)).toEqual([]);
+    });
+  });
+
+  describe('getReminderKey', () => {
+    it('should queue new reminders when a booking is rescheduled', () => {
+      const original = reminderService.getReminderKey('booking-1', 48, startTime);
+      const moved = reminderService.getReminderKey('booking-1', 48, new Date('2026-03-15T10:00:00.000Z'));
+
+      expect(original).not.toBe(moved);
+      expect(reminderService.getReminderKey('booking-1', 48, startTime)).toBe(original);
+    });
+  });
+
+  describe('getDigestRunAt', () => {
+    it('should send the digest at the studio time of day', () => {
+      expect(reminderService.getDigestRunAt('2026-03-13', 'UTC')).toEqual(new Date('2026-03-13T17:00:00.000Z'));
+      expect(reminderService.getDigestRunAt('2026-07-13', 'Europe/London')).toEqual(
+        new Date('2026-07-13T16:00:00.000Z')
+      );
+    });
+  });
+});
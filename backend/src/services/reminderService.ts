@@ -0,0 +1,257 @@
+import { PrismaClient } from '@prisma/client';
+import logger from '../config/logger';
+import { addDaysToDateKey, zonedTimeToUtc } from '../utils/timeZone';
+import { ACTIVE_BOOKING_STATUSES, scheduleService } from './scheduleService';
+import { bookingAccessService } from './bookingAccessService';
+import { BookingEmailData, emailService } from './emailService';
+import { jobQueueService } from './jobQueueService';
+
+const prisma = new PrismaClient();
+
+export const REMINDER_JOB = 'booking-reminder';
+export const FOLLOW_UP_JOB = 'booking-follow-up';
+export const ADMIN_DIGEST_JOB = 'admin-digest';
+
+// Hours before the session that clients are reminded, furthest first
+export const REMINDER_HOURS = [48, 2];
+
+const DEFAULT_FOLLOW_UP_DELAY_HOURS = 24;
+const DEFAULT_ADMIN_DIGEST_TIME = '17:00';
+// Completed bookings older than this no longer get a follow-up
+const FOLLOW_UP_LOOKBACK_DAYS = 7;
+// How far past the first reminder bookings are scanned, so reminders are queued ahead of time
+const SCAN_LOOKAHEAD_MS = 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface ReminderTime {
+  hoursBefore: number;
+  runAt: Date;
+}
+
+interface ReminderPayload {
+  bookingId: string;
+  hoursBefore: number;
+  startTime: string;
+}
+
+interface FollowUpPayload {
+  bookingId: string;
+}
+
+interface DigestPayload {
+  date: string;
+}
+
+const BOOKING_INCLUDE = {
+  service: {
+    select: {
+      id: true,
+      name: true,
+      category: {
+        select: { name: true },
+      },
+    },
+  },
+} as const;
+
+export class ReminderService {
+  private readonly followUpDelayHours = Number(process.env['FOLLOW_UP_DELAY_HOURS']) || DEFAULT_FOLLOW_UP_DELAY_HOURS;
+  private readonly adminDigestTime = process.env['ADMIN_DIGEST_TIME'] || DEFAULT_ADMIN_DIGEST_TIME;
+
+  /**
+   * Reminders a booking should get. A reminder is dropped when the booking was made
+   * after it was due, and once the next reminder (or the session) has come due, so a
+   * late scan never sends a stale "48 hours to go" email.
+   */
+  getReminderTimes(booking: { startTime: Date; createdAt: Date }, now: Date = new Date()): ReminderTime[] {
+    const start = booking.startTime.getTime();
+
+    return REMINDER_HOURS.flatMap((hoursBefore, index) => {
+      const runAt = new Date(start - hoursBefore * HOUR_MS);
+      const nextHours = REMINDER_HOURS[index + 1];
+      const supersededAt = nextHours === undefined ? start : start - nextHours * HOUR_MS;
+
+      if (booking.createdAt > runAt || supersededAt <= now.getTime()) {
+        return [];
+      }
+
+      return [{ hoursBefore, runAt }];
+    });
+  }
+
+  getReminderKey(bookingId: string, hoursBefore: number, startTime: Date): string {
+    // The start time is part of the key so a rescheduled booking is reminded again
+    return `${REMINDER_JOB}:${bookingId}:${hoursBefore}h:${startTime.toISOString()}`;
+  }
+
+  getFollowUpRunAt(completedAt: Date): Date {
+    return new Date(completedAt.getTime() + this.followUpDelayHours * HOUR_MS);
+  }
+
+  /**
+   * When the digest of the next day's bookings goes out, on the studio's clock
+   */
+  getDigestRunAt(dateKey: string, timeZone: string): Date {
+    return zonedTimeToUtc(dateKey, scheduleService.parseTime(this.adminDigestTime), timeZone);
+  }
+
+  /**
+   * Hook the reminder jobs into the job scheduler
+   */
+  register(): void {
+    jobQueueService.registerHandler(REMINDER_JOB, payload => this.sendReminder(payload));
+    jobQueueService.registerHandler(FOLLOW_UP_JOB, payload => this.sendFollowUp(payload));
+    jobQueueService.registerHandler(ADMIN_DIGEST_JOB, payload => this.sendAdminDigest(payload));
+
+    jobQueueService.addPeriodicTask('booking reminders', now => this.queueReminders(now));
+    jobQueueService.addPeriodicTask('booking follow-ups', now => this.queueFollowUps(now));
+    jobQueueService.addPeriodicTask('admin digest', now => this.queueAdminDigest(now));
+  }
+
+  async queueReminders(now: Date = new Date()): Promise<void> {
+    const furthest = Math.max(...REMINDER_HOURS);
+    const bookings = await prisma.booking.findMany({
+      where: {
+        status: { in: ACTIVE_BOOKING_STATUSES },
+        startTime: { gt: now, lte: new Date(now.getTime() + furthest * HOUR_MS + SCAN_LOOKAHEAD_MS) },
+      },
+      select: { id: true, startTime: true, createdAt: true },
+    });
+
+    for (const booking of bookings) {
+      for (const { hoursBefore, runAt } of this.getReminderTimes(booking, now)) {
+        await jobQueueService.enqueue({
+          type: REMINDER_JOB,
+          payload: { bookingId: booking.id, hoursBefore, startTime: booking.startTime.toISOString() },
+          idempotencyKey: this.getReminderKey(booking.id, hoursBefore, booking.startTime),
+          runAt,
+        });
+      }
+    }
+  }
+
+  async queueFollowUps(now: Date = new Date()): Promise<void> {
+    const completions = await prisma.bookingEvent.findMany({
+      where: {
+        toStatus: 'completed',
+        createdAt: { gte: new Date(now.getTime() - FOLLOW_UP_LOOKBACK_DAYS * 24 * HOUR_MS) },
+      },
+      select: { bookingId: true, createdAt: true },
+    });
+
+    for (const completion of completions) {
+      await jobQueueService.enqueue({
+        type: FOLLOW_UP_JOB,
+        payload: { bookingId: completion.bookingId },
+        idempotencyKey: `${FOLLOW_UP_JOB}:${completion.bookingId}`,
+        runAt: this.getFollowUpRunAt(completion.createdAt),
+      });
+    }
+  }
+
+  async queueAdminDigest(now: Date = new Date()): Promise<void> {
+    const { timeZone } = await scheduleService.getWeeklySchedule();
+    const todayKey = scheduleService.toDateKey(now, timeZone);
+
+    await jobQueueService.enqueue({
+      type: ADMIN_DIGEST_JOB,
+      payload: { date: addDaysToDateKey(todayKey, 1) },
+      idempotencyKey: `${ADMIN_DIGEST_JOB}:${todayKey}`,
+      runAt: this.getDigestRunAt(todayKey, timeZone),
+    });
+  }
+
+  private async sendReminder({ bookingId, hoursBefore, startTime }: ReminderPayload): Promise<void> {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: BOOKING_INCLUDE,
+    });
+
+    // Cancelled or rescheduled since the reminder was queued
+    if (
+      !booking ||
+      !ACTIVE_BOOKING_STATUSES.includes(booking.status) ||
+      booking.startTime.toISOString() !== startTime ||
+      this.getReminderTimes(booking).every(reminder => reminder.hoursBefore !== hoursBefore)
+    ) {
+      logger.info('Skipping stale booking reminder', { bookingId, hoursBefore, service: 'ReminderService' });
+      return;
+    }
+
+    await emailService.sendBookingReminder(
+      {
+        ...this.toEmailData(booking),
+        manageUrl: bookingAccessService.getManageUrl(bookingAccessService.generateManageToken(booking)),
+      },
+      hoursBefore
+    );
+  }
+
+  private async sendFollowUp({ bookingId }: FollowUpPayload): Promise<void> {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: BOOKING_INCLUDE,
+    });
+
+    // Reopened or removed since the shoot was marked completed
+    if (!booking || booking.status !== 'completed') {
+      logger.info('Skipping stale booking follow-up', { bookingId, service: 'ReminderService' });
+      return;
+    }
+
+    await emailService.sendBookingFollowUp(this.toEmailData(booking));
+  }
+
+  private async sendAdminDigest({ date }: DigestPayload): Promise<void> {
+    const bookings = await prisma.booking.findMany({
+      where: {
+        bookingDate: scheduleService.fromDateKey(date),
+        status: { in: ACTIVE_BOOKING_STATUSES },
+      },
+      orderBy: { startTime: 'asc' },
+      include: BOOKING_INCLUDE,
+    });
+
+    await emailService.sendAdminDigest(date, bookings.map(booking => this.toEmailData(booking)));
+  }
+
+  private toEmailData(booking: {
+    id: string;
+    clientName: string;
+    clientEmail: string;
+    clientPhone: string | null;
+    bookingDate: Date;
+    startTime: Date;
+    endTime: Date;
+    timeZone: string;
+    status: string;
+    projectDetails: string | null;
+    budgetRange: string | null;
+    location: string | null;
+    notes: string | null;
+    calendarSequence: number;
+    service: NonNullable<BookingEmailData['service']> | null;
+  }): BookingEmailData {
+    return {
+      booking: {
+        id: booking.id,
+        clientName: booking.clientName,
+        clientEmail: booking.clientEmail,
+        clientPhone: booking.clientPhone,
+        bookingDate: booking.bookingDate,
+        startTime: booking.startTime,
+        endTime: booking.endTime,
+        timeZone: booking.timeZone,
+        status: booking.status,
+        projectDetails: booking.projectDetails,
+        budgetRange: booking.budgetRange,
+        location: booking.location,
+        notes: booking.notes,
+        calendarSequence: booking.calendarSequence,
+      },
+      service: booking.service,
+    };
+  }
+}
+
+export const reminderService = new ReminderService();
@@ -0,0 +1,208 @@
+import { ScheduleService, DayHours, ScheduledBooking, ResourceRequirement, EXTERNAL_BUSY_STATUS, WAITLIST_HOLD_STATUS } from './scheduleService';
+
+describe('ScheduleService - Slot Calculation', () => {
+  let scheduleService: ScheduleService;
+
+  // Monday 2 March 2026 in a UTC studio
+  const monday = '2026-03-02';
+  const at = (hours: number, minutes = 0) => new Date(Date.UTC(2026, 2, 2, hours, minutes));
+  const noBuffers = { setupBufferMinutes: 0, teardownBufferMinutes: 0 };
+
+  const weekdayHours: DayHours[] = [
+    { weekday: 0, openTime: '09:00', closeTime: '18:00', closed: true },
+    { weekday: 1, openTime: '10:00', closeTime: '14:00', closed: false },
+  ];
+
+  beforeEach(() => {
+    scheduleService = new ScheduleService();
+  });
+
+  describe('getOpeningWindowFor', () => {
+    it('should use the configured hours for the weekday', () => {
+      const window = scheduleService.getOpeningWindowFor(monday, weekdayHours, new Set(), 'UTC');
+
+      expect(window).not.toBeNull();
+      expect(window!.start).toEqual(at(10));
+      expect(window!.end).toEqual(at(14));
+    });
+
+    it('should fall back to default hours for unconfigured weekdays', () => {
+      const window = scheduleService.getOpeningWindowFor('2026-03-03', weekdayHours, new Set(), 'UTC');
+
+      expect(window!.start).toEqual(new Date('2026-03-03T09:00:00.000Z'));
+      expect(window!.end).toEqual(new Date('2026-03-03T18:00:00.000Z'));
+    });
+
+    it('should return null on closed weekdays', () => {
+      expect(scheduleService.getOpeningWindowFor('2026-03-01', weekdayHours, new Set(), 'UTC')).toBeNull();
+    });
+
+    it('should return null on blackout dates', () => {
+      const blackoutKeys = new Set([monday]);
+
+      expect(scheduleService.getOpeningWindowFor(monday, weekdayHours, blackoutKeys, 'UTC')).toBeNull();
+    });
+
+    it('should read opening hours on the studio clock', () => {
+      const window = scheduleService.getOpeningWindowFor(monday, weekdayHours, new Set(), 'America/New_York');
+
+      expect(window!.start).toEqual(new Date('2026-03-02T15:00:00.000Z'));
+      expect(window!.end).toEqual(new Date('2026-03-02T19:00:00.000Z'));
+    });
+
+    it('should keep wall-clock hours across a daylight saving change', () => {
+      // Clocks in New York go forward on Sunday 8 March 2026
+      const before = scheduleService.getOpeningWindowFor('2026-03-06', [], new Set(), 'America/New_York');
+      const after = scheduleService.getOpeningWindowFor('2026-03-09', [], new Set(), 'America/New_York');
+
+      expect(before!.start).toEqual(new Date('2026-03-06T14:00:00.000Z'));
+      expect(after!.start).toEqual(new Date('2026-03-09T13:00:00.000Z'));
+    });
+  });
+
+  describe('findConflicts', () => {
+    const existing: ScheduledBooking[] = [
+      { id: 'b1', startTime: at(11), endTime: at(12), status: 'confirmed', setupBufferMinutes: 0, teardownBufferMinutes: 30 },
+      { id: 'b2', startTime: at(9), endTime: at(10), status: 'cancelled', setupBufferMinutes: 0, teardownBufferMinutes: 0 },
+    ];
+
+    it('should detect direct overlaps', () => {
+      const conflicts = scheduleService.findConflicts({ start: at(11, 30), end: at(12, 30) }, noBuffers, existing);
+
+      expect(conflicts.map(b => b.id)).toEqual(['b1']);
+    });
+
+    it('should treat back-to-back bookings without buffers as free', () => {
+      const conflicts = scheduleService.findConflicts({ start: at(10), end: at(11) }, noBuffers, existing);
+
+      expect(conflicts).toHaveLength(0);
+    });
+
+    it('should respect the teardown buffer of existing bookings', () => {
+      const conflicts = scheduleService.findConflicts({ start: at(12, 15), end: at(13) }, noBuffers, existing);
+
+      expect(conflicts.map(b => b.id)).toEqual(['b1']);
+    });
+
+    it('should respect the setup buffer of the requested service', () => {
+      const buffers = { setupBufferMinutes: 45, teardownBufferMinutes: 0 };
+      const conflicts = scheduleService.findConflicts({ start: at(13), end: at(14) }, buffers, existing);
+
+      expect(conflicts.map(b => b.id)).toEqual(['b1']);
+    });
+
+    it('should ignore cancelled bookings', () => {
+      const conflicts = scheduleService.findConflicts({ start: at(9), end: at(10) }, noBuffers, existing);
+
+      expect(conflicts).toHaveLength(0);
+    });
+  });
+
+  describe('findConflicts with resources', () => {
+    const studio: ResourceRequirement = { resourceId: 'studio-a', quantity: 1, capacity: 1 };
+    const crews: ResourceRequirement = { resourceId: 'crew', quantity: 1, capacity: 2 };
+
+    const booking = (id: string, start: Date, end: Date, resources?: ScheduledBooking['resources']): ScheduledBooking => ({
+      id,
+      startTime: start,
+      endTime: end,
+      status: 'confirmed',
+      setupBufferMinutes: 0,
+      teardownBufferMinutes: 0,
+      ...(resources && { resources }),
+    });
+
+    it('should allow parallel bookings that use different resources', () => {
+      const existing = [booking('b1', at(10), at(12), [{ resourceId: 'sound-booth', quantity: 1 }])];
+      const conflicts = scheduleService.findConflicts({ start: at(10), end: at(12) }, noBuffers, existing, [studio]);
+
+      expect(conflicts).toHaveLength(0);
+    });
+
+    it('should conflict when a resource is at capacity', () => {
+      const existing = [booking('b1', at(10), at(12), [{ resourceId: 'studio-a', quantity: 1 }])];
+      const conflicts = scheduleService.findConflicts({ start: at(11), end: at(13) }, noBuffers, existing, [studio]);
+
+      expect(conflicts.map(b => b.id)).toEqual(['b1']);
+    });
+
+    it('should allow overlapping bookings up to the resource capacity', () => {
+      const existing = [booking('b1', at(10), at(12), [{ resourceId: 'crew', quantity: 1 }])];
+      const conflicts = scheduleService.findConflicts({ start: at(11), end: at(13) }, noBuffers, existing, [crews]);
+
+      expect(conflicts).toHaveLength(0);
+    });
+
+    it('should only count bookings that are in use at the same moment', () => {
+      const existing = [
+        booking('b1', at(10), at(11), [{ resourceId: 'crew', quantity: 1 }]),
+        booking('b2', at(11), at(12), [{ resourceId: 'crew', quantity: 1 }]),
+      ];
+      const conflicts = scheduleService.findConflicts({ start: at(10), end: at(12) }, noBuffers, existing, [crews]);
+
+      expect(conflicts).toHaveLength(0);
+    });
+
+    it('should conflict once concurrent usage exceeds the capacity', () => {
+      const existing = [
+        booking('b1', at(10), at(12), [{ resourceId: 'crew', quantity: 1 }]),
+        booking('b2', at(11), at(13), [{ resourceId: 'crew', quantity: 1 }]),
+      ];
+      const conflicts = scheduleService.findConflicts({ start: at(11), end: at(12) }, noBuffers, existing, [crews]);
+
+      expect(conflicts.map(b => b.id)).toEqual(['b1', 'b2']);
+    });
+
+    it('should treat bookings without resources as holding the whole studio', () => {
+      const existing = [booking('b1', at(10), at(12))];
+      const conflicts = scheduleService.findConflicts({ start: at(11), end: at(13) }, noBuffers, existing, [studio]);
+
+      expect(conflicts.map(b => b.id)).toEqual(['b1']);
+    });
+
+    it('should treat external busy time as holding the whole studio', () => {
+      const existing = [{ ...booking('busy-1', at(10), at(12)), status: EXTERNAL_BUSY_STATUS }];
+      const conflicts = scheduleService.findConflicts({ start: at(11), end: at(13) }, noBuffers, existing, [crews]);
+
+      expect(conflicts.map(b => b.id)).toEqual(['busy-1']);
+    });
+
+    it('should keep slots held for the waitlist blocked like the booking they came from', () => {
+      const held = { ...booking('b1', at(10), at(12), [{ resourceId: 'studio-a', quantity: 1 }]), status: WAITLIST_HOLD_STATUS };
+
+      expect(scheduleService.findConflicts({ start: at(11), end: at(13) }, noBuffers, [held], [studio]).map(b => b.id)).toEqual(['b1']);
+      expect(scheduleService.findConflicts({ start: at(11), end: at(13) }, noBuffers, [held], [crews])).toHaveLength(0);
+    });
+  });
+
+  describe('generateSlots', () => {
+    it('should only generate slots that fit inside the opening window', () => {
+      const slots = scheduleService.generateSlots({
+        window: { start: at(10), end: at(14) },
+        durationMinutes: 60,
+        intervalMinutes: 30,
+        buffers: noBuffers,
+        bookings: [],
+      });
+
+      expect(slots).toHaveLength(7);
+      expect(slots[0]!.startTime).toEqual(at(10));
+      expect(slots[slots.length - 1]!.endTime).toEqual(at(14));
+      expect(slots.every(slot => slot.available)).toBe(true);
+    });
+
+    it('should mark slots blocked by buffered bookings as unavailable', () => {
+      const slots = scheduleService.generateSlots({
+        window: { start: at(10), end: at(14) },
+        durationMinutes: 60,
+        intervalMinutes: 60,
+        buffers: noBuffers,
+        bookings: [
+          { id: 'b1', startTime: at(11), endTime: at(12), status: 'pending', setupBufferMinutes: 0, teardownBufferMinutes: 30 },
+        ],
+      });
+
+      expect(slots.map(slot => slot.available)).toEqual([true, false, false, true]);
+    });
+  });
+});
@@ -0,0 +1,639 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  toZonedDateKey,
+  zonedTimeToUtc,
+  formatZonedTime,
+  getDateKeyWeekday,
+} from '../utils/timeZone';
+
+const prisma = new PrismaClient();
+
+const SETTINGS_ID = 'default';
+
+export const DEFAULT_OPEN_TIME = '09:00';
+export const DEFAULT_CLOSE_TIME = '18:00';
+export const DEFAULT_SLOT_INTERVAL_MINUTES = 30;
+export const DEFAULT_CANCELLATION_WINDOW_HOURS = 48;
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+// Bookings in these statuses hold their time slot
+export const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed'];
+
+// Status given to busy time imported from external calendars
+export const EXTERNAL_BUSY_STATUS = 'busy';
+
+// Status given to cancelled bookings whose slot is held for a waitlisted client
+export const WAITLIST_HOLD_STATUS = 'held';
+
+export interface DayHours {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  openTime: string; // 'HH:MM'
+  closeTime: string; // 'HH:MM'
+  closed: boolean;
+}
+
+export interface WeeklySchedule {
+  timeZone: string; // IANA zone the opening hours are written in
+  slotIntervalMinutes: number;
+  cancellationWindowHours: number;
+  hours: DayHours[];
+}
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface Buffers {
+  setupBufferMinutes: number;
+  teardownBufferMinutes: number;
+}
+
+export interface ResourceAllocation {
+  resourceId: string;
+  quantity: number;
+}
+
+export interface ResourceRequirement extends ResourceAllocation {
+  capacity: number;
+}
+
+export interface ScheduledBooking extends Buffers {
+  id: string;
+  startTime: Date;
+  endTime: Date;
+  status: string;
+  resources?: ResourceAllocation[]; // none means the booking holds the whole studio
+}
+
+export interface GeneratedSlot {
+  startTime: Date;
+  endTime: Date;
+  available: boolean;
+  duration: number;
+}
+
+export interface GenerateSlotsOptions {
+  window: TimeRange;
+  durationMinutes: number;
+  intervalMinutes: number;
+  buffers: Buffers;
+  bookings: ScheduledBooking[];
+  requirements?: ResourceRequirement[];
+}
+
+export type BookingWindowViolation =
+  | { reason: 'blackout'; message: string }
+  | { reason: 'closed'; message: string }
+  | { reason: 'outside_hours'; message: string };
+
+const NO_BUFFERS: Buffers = { setupBufferMinutes: 0, teardownBufferMinutes: 0 };
+
+export class ScheduleService {
+  /**
+   * Parse an 'HH:MM' string into minutes after midnight
+   */
+  parseTime(time: string): number {
+    const [hours = 0, minutes = 0] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * Calendar key for the day an instant falls on in the studio's zone, e.g. '2026-03-14'
+   */
+  toDateKey(date: Date, timeZone: string): string {
+    return toZonedDateKey(date, timeZone);
+  }
+
+  /**
+   * Blackout dates are stored as SQL DATE columns, which Prisma returns as UTC midnight
+   */
+  blackoutDateKey(date: Date): string {
+    return date.toISOString().split('T')[0] as string;
+  }
+
+  /**
+   * Convert a calendar key back into the UTC midnight value stored for SQL DATE columns
+   */
+  fromDateKey(dateKey: string): Date {
+    return new Date(`${dateKey}T00:00:00.000Z`);
+  }
+
+  /**
+   * Fill in missing weekdays with the default opening hours
+   */
+  normaliseHours(hours: DayHours[]): DayHours[] {
+    return Array.from({ length: 7 }, (_, weekday) => {
+      const configured = hours.find(day => day.weekday === weekday);
+      return configured || {
+        weekday,
+        openTime: DEFAULT_OPEN_TIME,
+        closeTime: DEFAULT_CLOSE_TIME,
+        closed: false,
+      };
+    });
+  }
+
+  /**
+   * Resolve the opening window for a studio calendar day, or null when the studio is closed.
+   * Opening hours are wall-clock times in the studio's zone, so the window shifts in UTC
+   * across daylight saving changes.
+   */
+  getOpeningWindowFor(
+    dateKey: string,
+    hours: DayHours[],
+    blackoutKeys: Set<string>,
+    timeZone: string
+  ): TimeRange | null {
+    if (blackoutKeys.has(dateKey)) {
+      return null;
+    }
+
+    const day = this.normaliseHours(hours)[getDateKeyWeekday(dateKey)];
+    if (!day || day.closed) {
+      return null;
+    }
+
+    const openMinutes = this.parseTime(day.openTime);
+    const closeMinutes = this.parseTime(day.closeTime);
+    if (closeMinutes <= openMinutes) {
+      return null;
+    }
+
+    return {
+      start: zonedTimeToUtc(dateKey, openMinutes, timeZone),
+      end: zonedTimeToUtc(dateKey, closeMinutes, timeZone),
+    };
+  }
+
+  /**
+   * Extend a booked range by the service's setup and teardown buffers
+   */
+  applyBuffers(range: TimeRange, buffers: Buffers): TimeRange {
+    return {
+      start: new Date(range.start.getTime() - buffers.setupBufferMinutes * 60 * 1000),
+      end: new Date(range.end.getTime() + buffers.teardownBufferMinutes * 60 * 1000),
+    };
+  }
+
+  rangesOverlap(a: TimeRange, b: TimeRange): boolean {
+    return a.start < b.end && b.start < a.end;
+  }
+
+  /**
+   * Existing bookings that would clash with the buffered candidate range.
+   *
+   * A candidate with resource requirements only clashes with bookings holding the
+   * same resources once their peak usage leaves too little capacity. Bookings
+   * without resources (including those made before resources existed) hold the
+   * whole studio and clash with everything, as does busy time imported from
+   * external calendars. Slots held for waitlisted clients clash like the booking
+   * they came from.
+   */
+  findConflicts(
+    candidate: TimeRange,
+    buffers: Buffers,
+    bookings: ScheduledBooking[],
+    requirements: ResourceRequirement[] = []
+  ): ScheduledBooking[] {
+    const padded = this.applyBuffers(candidate, buffers);
+
+    const overlapping = bookings.filter(booking => {
+      if (
+        !ACTIVE_BOOKING_STATUSES.includes(booking.status) &&
+        booking.status !== EXTERNAL_BUSY_STATUS &&
+        booking.status !== WAITLIST_HOLD_STATUS
+      ) {
+        return false;
+      }
+
+      const occupied = this.applyBuffers({ start: booking.startTime, end: booking.endTime }, booking);
+      return this.rangesOverlap(padded, occupied);
+    });
+
+    if (requirements.length === 0) {
+      return overlapping;
+    }
+
+    const conflicting = new Set(overlapping.filter(booking => !booking.resources?.length));
+
+    for (const requirement of requirements) {
+      const holders = overlapping.filter(booking =>
+        booking.resources?.some(allocation => allocation.resourceId === requirement.resourceId)
+      );
+
+      const usage = holders.map(booking => {
+        const allocation = booking.resources!.find(item => item.resourceId === requirement.resourceId)!;
+        return {
+          ...this.applyBuffers({ start: booking.startTime, end: booking.endTime }, booking),
+          quantity: allocation.quantity,
+        };
+      });
+
+      if (this.peakUsage(usage, padded) + requirement.quantity > requirement.capacity) {
+        holders.forEach(booking => conflicting.add(booking));
+      }
+    }
+
+    return overlapping.filter(booking => conflicting.has(booking));
+  }
+
+  /**
+   * Highest number of units in use at any moment inside the window
+   */
+  peakUsage(usage: Array<TimeRange & { quantity: number }>, window: TimeRange): number {
+    const events: Array<{ time: number; change: number }> = [];
+
+    for (const range of usage) {
+      const start = Math.max(range.start.getTime(), window.start.getTime());
+      const end = Math.min(range.end.getTime(), window.end.getTime());
+      if (start < end) {
+        events.push({ time: start, change: range.quantity });
+        events.push({ time: end, change: -range.quantity });
+      }
+    }
+
+    // Releases sort before claims at the same instant, so back-to-back usage does not stack
+    events.sort((a, b) => a.time - b.time || a.change - b.change);
+
+    let current = 0;
+    let peak = 0;
+    for (const event of events) {
+      current += event.change;
+      peak = Math.max(peak, current);
+    }
+
+    return peak;
+  }
+
+  /**
+   * Step through the opening window and mark each slot as free or taken
+   */
+  generateSlots(options: GenerateSlotsOptions): GeneratedSlot[] {
+    const { window, durationMinutes, intervalMinutes, buffers, bookings, requirements = [] } = options;
+    const slots: GeneratedSlot[] = [];
+    const step = Math.max(intervalMinutes, 1) * 60 * 1000;
+    const length = durationMinutes * 60 * 1000;
+
+    for (let time = window.start.getTime(); time + length <= window.end.getTime(); time += step) {
+      const startTime = new Date(time);
+      const endTime = new Date(time + length);
+      const conflicts = this.findConflicts({ start: startTime, end: endTime }, buffers, bookings, requirements);
+
+      slots.push({
+        startTime,
+        endTime,
+        available: conflicts.length === 0,
+        duration: durationMinutes,
+      });
+    }
+
+    return slots;
+  }
+
+  async getWeeklySchedule(): Promise<WeeklySchedule> {
+    const [settings, hours] = await Promise.all([
+      prisma.studioSettings.findUnique({ where: { id: SETTINGS_ID } }),
+      prisma.businessHours.findMany({ orderBy: { weekday: 'asc' } }),
+    ]);
+
+    return {
+      timeZone: settings?.timeZone ?? DEFAULT_TIME_ZONE,
+      slotIntervalMinutes: settings?.slotIntervalMinutes ?? DEFAULT_SLOT_INTERVAL_MINUTES,
+      cancellationWindowHours: settings?.cancellationWindowHours ?? DEFAULT_CANCELLATION_WINDOW_HOURS,
+      hours: this.normaliseHours(hours.map(day => ({
+        weekday: day.weekday,
+        openTime: day.openTime,
+        closeTime: day.closeTime,
+        closed: day.closed,
+      }))),
+    };
+  }
+
+  async updateWeeklySchedule(data: {
+    timeZone?: string | undefined;
+    slotIntervalMinutes?: number | undefined;
+    cancellationWindowHours?: number | undefined;
+    hours?: DayHours[] | undefined;
+  }): Promise<WeeklySchedule> {
+    const settings = {
+      ...(data.timeZone !== undefined && { timeZone: data.timeZone }),
+      ...(data.slotIntervalMinutes !== undefined && { slotIntervalMinutes: data.slotIntervalMinutes }),
+      ...(data.cancellationWindowHours !== undefined && { cancellationWindowHours: data.cancellationWindowHours }),
+    };
+
+    await prisma.$transaction([
+      ...(Object.keys(settings).length > 0 ? [
+        prisma.studioSettings.upsert({
+          where: { id: SETTINGS_ID },
+          update: settings,
+          create: { id: SETTINGS_ID, ...settings },
+        }),
+      ] : []),
+      ...(data.hours || []).map(day => prisma.businessHours.upsert({
+        where: { weekday: day.weekday },
+        update: { openTime: day.openTime, closeTime: day.closeTime, closed: day.closed },
+        create: day,
+      })),
+    ]);
+
+    return this.getWeeklySchedule();
+  }
+
+  async getBlackoutDates(fromKey?: string, toKey?: string) {
+    const where: any = {};
+    if (fromKey || toKey) {
+      where.date = {};
+      if (fromKey) {
+        where.date.gte = this.fromDateKey(fromKey);
+      }
+      if (toKey) {
+        where.date.lte = this.fromDateKey(toKey);
+      }
+    }
+
+    return prisma.blackoutDate.findMany({
+      where,
+      orderBy: { date: 'asc' },
+    });
+  }
+
+  async getBlackoutDateById(id: string) {
+    return prisma.blackoutDate.findUnique({
+      where: { id },
+    });
+  }
+
+  async getBlackoutDateByDate(dateKey: string) {
+    return prisma.blackoutDate.findUnique({
+      where: { date: this.fromDateKey(dateKey) },
+    });
+  }
+
+  async createBlackoutDate(dateKey: string, reason?: string) {
+    return prisma.blackoutDate.create({
+      data: {
+        date: this.fromDateKey(dateKey),
+        reason: reason || null,
+      },
+    });
+  }
+
+  async deleteBlackoutDate(id: string) {
+    return prisma.blackoutDate.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Opening window for a studio calendar day, taking weekly hours and blackout dates into account
+   */
+  async getOpeningWindow(dateKey: string, schedule?: WeeklySchedule): Promise<TimeRange | null> {
+    const [weeklySchedule, blackout] = await Promise.all([
+      schedule || this.getWeeklySchedule(),
+      this.getBlackoutDateByDate(dateKey),
+    ]);
+
+    const blackoutKeys = new Set<string>(blackout ? [this.blackoutDateKey(blackout.date)] : []);
+    return this.getOpeningWindowFor(dateKey, weeklySchedule.hours, blackoutKeys, weeklySchedule.timeZone);
+  }
+
+  /**
+   * Check that a requested booking falls inside the studio's opening hours
+   */
+  async validateBookingWindow(startTime: Date, endTime: Date): Promise<BookingWindowViolation | null> {
+    const schedule = await this.getWeeklySchedule();
+    const dateKey = this.toDateKey(startTime, schedule.timeZone);
+    const blackout = await this.getBlackoutDateByDate(dateKey);
+
+    if (blackout) {
+      return {
+        reason: 'blackout',
+        message: blackout.reason
+          ? `The studio is closed on this date: ${blackout.reason}`
+          : 'The studio is closed on this date',
+      };
+    }
+
+    const window = this.getOpeningWindowFor(dateKey, schedule.hours, new Set(), schedule.timeZone);
+    if (!window) {
+      return { reason: 'closed', message: 'The studio is closed on this day' };
+    }
+
+    if (startTime < window.start || endTime > window.end) {
+      const opens = this.formatTime(window.start, schedule.timeZone);
+      const closes = this.formatTime(window.end, schedule.timeZone);
+      return {
+        reason: 'outside_hours',
+        message: `Bookings must be between ${opens} and ${closes} (${schedule.timeZone})`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Studio zone and calendar day a booking starting at the given instant belongs to
+   */
+  async getBookingDay(startTime: Date): Promise<{ timeZone: string; bookingDate: Date }> {
+    const schedule = await this.getWeeklySchedule();
+
+    return {
+      timeZone: schedule.timeZone,
+      bookingDate: this.fromDateKey(this.toDateKey(startTime, schedule.timeZone)),
+    };
+  }
+
+  /**
+   * Busy time from external calendars overlapping a range. Blocks hold the whole
+   * studio and have no buffers of their own.
+   */
+  async getExternalBusyTimes(range: TimeRange): Promise<ScheduledBooking[]> {
+    const blocks = await prisma.calendarBusyBlock.findMany({
+      where: {
+        startTime: { lt: range.end },
+        endTime: { gt: range.start },
+      },
+      orderBy: { startTime: 'asc' },
+    });
+
+    return blocks.map(block => ({
+      id: block.id,
+      startTime: block.startTime,
+      endTime: block.endTime,
+      status: EXTERNAL_BUSY_STATUS,
+      ...NO_BUFFERS,
+    }));
+  }
+
+  /**
+   * Cancelled bookings overlapping a range whose slot is still held for a waitlisted
+   * client. A hold keeps the buffers and resources of the booking it came from.
+   */
+  async getWaitlistHolds(range: TimeRange, excludeBookingIds?: string | string[]): Promise<ScheduledBooking[]> {
+    const excluded = Array.isArray(excludeBookingIds) ? excludeBookingIds : excludeBookingIds ? [excludeBookingIds] : [];
+
+    const bookings = await prisma.booking.findMany({
+      where: {
+        id: { notIn: excluded },
+        startTime: { lt: range.end },
+        endTime: { gt: range.start },
+        waitlistOffers: {
+          some: { status: 'offered', holdExpiresAt: { gt: new Date() } },
+        },
+      },
+      orderBy: { startTime: 'asc' },
+      include: {
+        service: {
+          select: {
+            setupBufferMinutes: true,
+            teardownBufferMinutes: true,
+          },
+        },
+        resources: {
+          select: {
+            resourceId: true,
+            quantity: true,
+          },
+        },
+      },
+    });
+
+    return bookings.map(booking => ({
+      id: booking.id,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+      status: WAITLIST_HOLD_STATUS,
+      resources: booking.resources,
+      ...(booking.service || NO_BUFFERS),
+    }));
+  }
+
+  /**
+   * Active bookings near a range, with the buffers of their services, plus any
+   * external busy time and waitlist holds there
+   */
+  async getBookingsAround(range: TimeRange, excludeBookingIds?: string | string[]): Promise<ScheduledBooking[]> {
+    // Widen the lookup so bookings whose buffers reach into the range are included
+    const dayMs = 24 * 60 * 60 * 1000;
+    const where: any = {
+      status: { in: ACTIVE_BOOKING_STATUSES },
+      startTime: { lt: new Date(range.end.getTime() + dayMs) },
+      endTime: { gt: new Date(range.start.getTime() - dayMs) },
+    };
+
+    if (Array.isArray(excludeBookingIds)) {
+      where.id = { notIn: excludeBookingIds };
+    } else if (excludeBookingIds) {
+      where.id = { not: excludeBookingIds };
+    }
+
+    const lookup = {
+      start: new Date(range.start.getTime() - dayMs),
+      end: new Date(range.end.getTime() + dayMs),
+    };
+
+    const [bookings, busyTimes, holds] = await Promise.all([
+      prisma.booking.findMany({
+        where,
+        orderBy: { startTime: 'asc' },
+        include: {
+          service: {
+            select: {
+              setupBufferMinutes: true,
+              teardownBufferMinutes: true,
+            },
+          },
+          resources: {
+            select: {
+              resourceId: true,
+              quantity: true,
+            },
+          },
+        },
+      }),
+      this.getExternalBusyTimes(lookup),
+      this.getWaitlistHolds(lookup, excludeBookingIds),
+    ]);
+
+    const scheduled: ScheduledBooking[] = bookings.map(booking => ({
+      id: booking.id,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+      status: booking.status,
+      resources: booking.resources,
+      ...(booking.service || NO_BUFFERS),
+    }));
+
+    return [...scheduled, ...busyTimes, ...holds];
+  }
+
+  /**
+   * Active bookings that would clash with a range booked for the given service
+   */
+  async findBookingConflicts(
+    range: TimeRange,
+    serviceId?: string | null,
+    excludeBookingIds?: string | string[]
+  ): Promise<ScheduledBooking[]> {
+    const [buffers, requirements, bookings] = await Promise.all([
+      this.getServiceBuffers(serviceId),
+      this.getServiceRequirements(serviceId),
+      this.getBookingsAround(range, excludeBookingIds),
+    ]);
+
+    return this.findConflicts(range, buffers, bookings, requirements);
+  }
+
+  /**
+   * Active resources a service needs, with their capacity
+   */
+  async getServiceRequirements(serviceId?: string | null): Promise<ResourceRequirement[]> {
+    if (!serviceId) {
+      return [];
+    }
+
+    const serviceResources = await prisma.serviceResource.findMany({
+      where: {
+        serviceId,
+        resource: { active: true },
+      },
+      include: {
+        resource: {
+          select: { capacity: true },
+        },
+      },
+    });
+
+    return serviceResources.map(serviceResource => ({
+      resourceId: serviceResource.resourceId,
+      quantity: serviceResource.quantity,
+      capacity: serviceResource.resource.capacity,
+    }));
+  }
+
+  async getServiceBuffers(serviceId?: string | null): Promise<Buffers> {
+    if (!serviceId) {
+      return NO_BUFFERS;
+    }
+
+    const service = await prisma.service.findUnique({
+      where: { id: serviceId },
+      select: {
+        setupBufferMinutes: true,
+        teardownBufferMinutes: true,
+      },
+    });
+
+    return service || NO_BUFFERS;
+  }
+
+  /**
+   * Format an instant's time of day in the studio's zone as 'HH:MM'
+   */
+  formatTime(date: Date, timeZone: string): string {
+    return formatZonedTime(date, timeZone);
+  }
+}
+
+export const scheduleService = new ScheduleService();
@@ -0,0 +1,49 @@
+import { SessionService } from './sessionService';
+
+describe('SessionService - Basic Tests', () => {
+  let sessionService: SessionService;
+
+  beforeEach(() => {
+    sessionService = new SessionService();
+  });
+
+  describe('createSecret', () => {
+    it('should create a random secret and the hash to store for it', () => {
+      const first = sessionService.createSecret();
+      const second = sessionService.createSecret();
+
+      expect(first.secret).not.toBe(second.secret);
+      expect(first.secretHash).not.toBe(first.secret);
+      expect(sessionService.hashSecret(first.secret)).toBe(first.secretHash);
+    });
+  });
+
+  describe('parseRefreshToken', () => {
+    it('should return the session ID and the hash stored for the secret', () => {
+      const { secret, secretHash } = sessionService.createSecret();
+      const token = sessionService.formatRefreshToken('session-123', secret);
+
+      expect(sessionService.parseRefreshToken(token)).toEqual({ sessionId: 'session-123', secretHash });
+    });
+
+    it('should reject malformed tokens', () => {
+      expect(sessionService.parseRefreshToken('no-secret')).toBeNull();
+      expect(sessionService.parseRefreshToken('.secret')).toBeNull();
+      expect(sessionService.parseRefreshToken('a.b.c')).toBeNull();
+    });
+  });
+
+  describe('CSRF tokens', () => {
+    it('should accept the token for the same session only', () => {
+      const token = sessionService.getCsrfToken('session-123');
+
+      expect(sessionService.verifyCsrfToken('session-123', token)).toBe(true);
+      expect(sessionService.verifyCsrfToken('session-456', token)).toBe(false);
+    });
+
+    it('should reject missing or malformed tokens', () => {
+      expect(sessionService.verifyCsrfToken('session-123', undefined)).toBe(false);
+      expect(sessionService.verifyCsrfToken('session-123', 'short')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import crypto from 'crypto';
+import { PrismaClient, Session } from '@prisma/client';
+import logger from '../config/logger';
+import { describeUserAgent } from '../utils/userAgent';
+
+const prisma = new PrismaClient();
+
+export type SessionRevokeReason =
+  | 'logout'
+  | 'logout_all'
+  | 'revoked'
+  | 'reuse'
+  | 'password_reset'
+  | 'two_factor_required'
+  | 'two_factor_reset';
+
+// Where a sign-in or refresh came from, recorded on the session
+export interface SessionClient {
+  userAgent?: string | undefined;
+  ipAddress?: string | undefined;
+}
+
+export interface IssuedSession {
+  sessionId: string;
+  userId: string;
+  refreshToken: string;
+  expiresAt: Date;
+}
+
+export interface SessionSummary {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+/**
+ * Signed-in devices. A refresh token is `<session id>.<secret>`; only a hash of the
+ * secret is stored and it changes on every refresh. A token that was already rotated
+ * away is treated as stolen and ends the session.
+ */
+export class SessionService {
+  private readonly CSRF_SECRET = process.env['CSRF_SECRET'] || 'your-csrf-secret';
+  private readonly SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days, renewed on each refresh
+  // Two tabs refreshing at once both present the same token; the loser gets this long
+  private readonly ROTATION_GRACE_MS = 30 * 1000;
+  // lastSeenAt is only written this often, not on every request
+  private readonly TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+  // A new secret for a session's refresh token, and the hash stored for it
+  createSecret(): { secret: string; secretHash: string } {
+    const secret = crypto.randomBytes(32).toString('base64url');
+    return { secret, secretHash: this.hashSecret(secret) };
+  }
+
+  formatRefreshToken(sessionId: string, secret: string): string {
+    return `${sessionId}.${secret}`;
+  }
+
+  parseRefreshToken(token: string): { sessionId: string; secretHash: string } | null {
+    const [sessionId, secret, ...rest] = token.split('.');
+    if (!sessionId || !secret || rest.length > 0) {
+      return null;
+    }
+    return { sessionId, secretHash: this.hashSecret(secret) };
+  }
+
+  hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  // The CSRF token for a session: requests authenticated by cookie must echo it in X-CSRF-Token
+  getCsrfToken(sessionId: string): string {
+    return crypto.createHmac('sha256', this.CSRF_SECRET).update(sessionId).digest('hex');
+  }
+
+  verifyCsrfToken(sessionId: string, token: string | undefined): boolean {
+    if (!token) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.getCsrfToken(sessionId));
+    const actual = Buffer.from(token);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  async create(userId: string, client: SessionClient = {}): Promise<IssuedSession> {
+    const { secret, secretHash } = this.createSecret();
+    const expiresAt = new Date(Date.now() + this.SESSION_TTL_MS);
+
+    const session = await prisma.session.create({
+      data: {
+        userId,
+        refreshTokenHash: secretHash,
+        userAgent: client.userAgent?.slice(0, 512) || null,
+        ipAddress: client.ipAddress || null,
+        expiresAt,
+      }
+    });
+
+    return { sessionId: session.id, userId, refreshToken: this.formatRefreshToken(session.id, secret), expiresAt };
+  }
+
+  /**
+   * Swap a refresh token for a new one. Throws 'Invalid refresh token' for unknown,
+   * expired or revoked sessions, and revokes the session when a rotated-away token
+   * turns up outside the grace period.
+   */
+  async rotate(refreshToken: string, client: SessionClient = {}): Promise<IssuedSession> {
+    const parsed = this.parseRefreshToken(refreshToken);
+    if (!parsed) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: parsed.sessionId }
+    });
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new Error('Invalid refresh token');
+    }
+
+    if (session.refreshTokenHash !== parsed.secretHash) {
+      const withinGrace = session.previousTokenHash === parsed.secretHash
+        && session.rotatedAt
+        && Date.now() - session.rotatedAt.getTime() < this.ROTATION_GRACE_MS;
+
+      if (!withinGrace) {
+        await this.revoke(session.id, 'reuse');
+        logger.warn('Refresh token reused; session revoked', {
+          sessionId: session.id,
+          userId: session.userId,
+          ip: client.ipAddress,
+          service: 'SessionService',
+        });
+        throw new Error('Invalid refresh token');
+      }
+    }
+
+    const { secret, secretHash } = this.createSecret();
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + this.SESSION_TTL_MS);
+
+    // Only the request holding the current token wins; a concurrent one sees count 0
+    const { count } = await prisma.session.updateMany({
+      where: { id: session.id, refreshTokenHash: session.refreshTokenHash, revokedAt: null },
+      data: {
+        refreshTokenHash: secretHash,
+        previousTokenHash: session.refreshTokenHash,
+        rotatedAt: now,
+        lastSeenAt: now,
+        expiresAt,
+        ...(client.userAgent && { userAgent: client.userAgent.slice(0, 512) }),
+        ...(client.ipAddress && { ipAddress: client.ipAddress }),
+      }
+    });
+
+    if (count === 0) {
+      throw new Error('Invalid refresh token');
+    }
+
+    return {
+      sessionId: session.id,
+      userId: session.userId,
+      refreshToken: this.formatRefreshToken(session.id, secret),
+      expiresAt
+    };
+  }
+
+  // The session if it is still signed in, noting that it was just used
+  async getActive(sessionId: string): Promise<Session | null> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId }
+    });
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      return null;
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > this.TOUCH_INTERVAL_MS) {
+      await prisma.session.update({
+        where: { id: sessionId },
+        data: { lastSeenAt: new Date() }
+      });
+    }
+
+    return session;
+  }
+
+  async list(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const sessions = await prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastSeenAt: 'desc' }
+    });
+
+    return sessions.map(session => ({
+      id: session.id,
+      device: describeUserAgent(session.userAgent),
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  // Sign a session out. With `userId`, only that user's session is touched. Returns whether one was revoked.
+  async revoke(sessionId: string, reason: SessionRevokeReason, userId?: string): Promise<boolean> {
+    const { count } = await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null, ...(userId && { userId }) },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    });
+
+    return count > 0;
+  }
+
+  async revokeAll(userId: string, reason: SessionRevokeReason): Promise<number> {
+    const { count } = await prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    });
+
+    logger.info('Sessions revoked', { userId, count, reason, service: 'SessionService' });
+    return count;
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,107 @@
+import { SpamFilterService, SpamSettings, SpamSubmission } from './spamFilterService';
+
+describe('SpamFilterService - Scoring', () => {
+  let spamFilterService: SpamFilterService;
+
+  const settings: SpamSettings = { quarantineThreshold: 3, rejectThreshold: 8, ruleWeights: {} };
+  const untrained = { spamProbability: null };
+
+  const inquiry = (overrides: Partial<SpamSubmission> = {}): SpamSubmission => ({
+    kind: 'inquiry',
+    name: 'Ama Mensah',
+    email: 'ama@example.com',
+    text: 'We would love a photographer for our wedding in Accra next June.',
+    honeypotFields: [],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    spamFilterService = new SpamFilterService();
+  });
+
+  describe('evaluate', () => {
+    it('should allow ordinary submissions', () => {
+      expect(spamFilterService.evaluate(inquiry(), settings, untrained)).toEqual({
+        score: 0,
+        reasons: [],
+        action: 'allow',
+      });
+    });
+
+    it('should quarantine submissions between the thresholds', () => {
+      const verdict = spamFilterService.evaluate(
+        inquiry({ text: 'URGENT: claim your casino bonus at http://a.test http://b.test http://c.test' }),
+        settings,
+        untrained
+      );
+
+      expect(verdict.reasons).toEqual([
+        { rule: 'keywords', points: 2 },
+        { rule: 'links', points: 2 },
+      ]);
+      expect(verdict.score).toBe(4);
+      expect(verdict.action).toBe('quarantine');
+    });
+
+    it('should reject submissions that filled in a honeypot field', () => {
+      const verdict = spamFilterService.evaluate(inquiry({ honeypotFields: ['website'] }), settings, untrained);
+
+      expect(verdict.score).toBe(10);
+      expect(verdict.action).toBe('reject');
+    });
+
+    it('should use configured rule points, where 0 turns a rule off', () => {
+      const submission = inquiry({ text: 'Hi', honeypotFields: ['website'] });
+      const verdict = spamFilterService.evaluate(
+        submission,
+        { ...settings, ruleWeights: { honeypot: 0, too_short: 5 } },
+        untrained
+      );
+
+      expect(verdict.reasons).toEqual([{ rule: 'too_short', points: 5 }]);
+      expect(verdict.action).toBe('quarantine');
+    });
+
+    it('should only count short messages against inquiries', () => {
+      const verdict = spamFilterService.evaluate(inquiry({ kind: 'booking', text: '' }), settings, untrained);
+
+      expect(verdict.score).toBe(0);
+    });
+
+    it('should add classifier points in proportion to how sure it is', () => {
+      expect(spamFilterService.evaluate(inquiry(), settings, { spamProbability: 0.75 }).reasons).toEqual([
+        { rule: 'classifier', points: 2 },
+      ]);
+      expect(spamFilterService.evaluate(inquiry(), settings, { spamProbability: 0.2 }).score).toBe(0);
+    });
+  });
+
+  describe('registerRule', () => {
+    it('should add new rules and replace rules with the same ID', () => {
+      spamFilterService.registerRule({
+        id: 'competitor',
+        description: 'Mentions a competitor',
+        defaultPoints: 3,
+        test: submission => (submission.text.includes('Rival Studios') ? 1 : 0),
+      });
+      spamFilterService.registerRule({
+        id: 'honeypot',
+        description: 'Filled in a hidden honeypot field',
+        defaultPoints: 20,
+        test: submission => (submission.honeypotFields.length > 0 ? 1 : 0),
+      });
+
+      const verdict = spamFilterService.evaluate(
+        inquiry({ text: 'Rival Studios quoted less for the same wedding.', honeypotFields: ['url'] }),
+        settings,
+        untrained
+      );
+
+      expect(verdict.reasons).toEqual([
+        { rule: 'honeypot', points: 20 },
+        { rule: 'competitor', points: 3 },
+      ]);
+      expect(spamFilterService.getRules().filter(rule => rule.id === 'honeypot')).toHaveLength(1);
+    });
+  });
+});
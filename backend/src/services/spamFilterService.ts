@@ -0,0 +1,448 @@
+import { PrismaClient } from '@prisma/client';
+import logger from '../config/logger';
+import { createError } from '../middleware/errorHandler';
+import { DocumentCounts, TokenCounts, spamProbability, tokenize } from '../utils/naiveBayes';
+import { bookingAccessService } from './bookingAccessService';
+import { bookingLifecycleService } from './bookingLifecycleService';
+import { clientService } from './clientService';
+import { emailService } from './emailService';
+import { scheduleService } from './scheduleService';
+import { waitlistService } from './waitlistService';
+import { webhookService } from './webhookService';
+
+const prisma = new PrismaClient();
+
+const SETTINGS_ID = 'default';
+const DOCUMENTS_TOKEN = '*';
+const MAX_TRAINED_TOKENS = 200;
+
+// Form fields real visitors never see or fill in
+export const HONEYPOT_FIELDS = ['website', 'url', 'homepage', 'company_website'];
+
+export type SubmissionKind = 'inquiry' | 'booking';
+export type SpamAction = 'allow' | 'quarantine' | 'reject';
+export type SpamLabel = 'spam' | 'ham';
+
+export interface SpamSubmission {
+  kind: SubmissionKind;
+  name: string;
+  email: string;
+  text: string; // free text of the form: subject and message, or project details and notes
+  honeypotFields: string[]; // honeypot fields that were filled in
+}
+
+export interface SpamRuleContext {
+  spamProbability: number | null; // classifier verdict, null until it has been trained
+}
+
+/**
+ * A check that adds points to a submission's spam score. `test` returns how much
+ * of the rule's points apply, from 0 (not at all) to 1 (all of them).
+ */
+export interface SpamRule {
+  id: string;
+  description: string;
+  defaultPoints: number;
+  test: (submission: SpamSubmission, context: SpamRuleContext) => number;
+}
+
+export type SpamReason = {
+  rule: string;
+  points: number;
+};
+
+export interface SpamVerdict {
+  score: number;
+  reasons: SpamReason[];
+  action: SpamAction;
+}
+
+export interface SpamSettings {
+  quarantineThreshold: number;
+  rejectThreshold: number;
+  ruleWeights: Record<string, number>; // points per rule ID, overriding the defaults
+}
+
+const SPAM_KEYWORDS = [
+  /\b(viagra|cialis|casino|lottery|winner|congratulations|urgent|act now|limited time)\b/i,
+  /\b(make money|work from home|guaranteed income|no experience required)\b/i,
+];
+
+const DEFAULT_RULES: SpamRule[] = [
+  {
+    id: 'honeypot',
+    description: 'Filled in a hidden honeypot field',
+    defaultPoints: 10,
+    test: submission => (submission.honeypotFields.length > 0 ? 1 : 0),
+  },
+  {
+    id: 'keywords',
+    description: 'Contains common spam keywords or phrases',
+    defaultPoints: 2,
+    test: submission => (SPAM_KEYWORDS.some(pattern => pattern.test(submission.text)) ? 1 : 0),
+  },
+  {
+    id: 'links',
+    description: 'Contains three or more links',
+    defaultPoints: 2,
+    test: submission => ((submission.text.match(/https?:\/\//gi) ?? []).length >= 3 ? 1 : 0),
+  },
+  {
+    id: 'shouting',
+    description: 'Contains long runs of capital letters',
+    defaultPoints: 1,
+    test: submission => (/[A-Z]{10,}/.test(submission.text) ? 1 : 0),
+  },
+  {
+    id: 'repeated_characters',
+    description: 'Repeats a character six or more times',
+    defaultPoints: 1,
+    test: submission => (/(.)\1{5,}/.test(submission.text) ? 1 : 0),
+  },
+  {
+    id: 'word_repetition',
+    description: 'Repeats a word more than five times',
+    defaultPoints: 1,
+    test: submission => {
+      const counts = new Map<string, number>();
+      for (const word of submission.text.toLowerCase().split(/\s+/)) {
+        if (word.length > 3) {
+          counts.set(word, (counts.get(word) ?? 0) + 1);
+        }
+      }
+      return Math.max(0, ...counts.values()) > 5 ? 1 : 0;
+    },
+  },
+  {
+    id: 'suspicious_email',
+    description: 'Email address has a long random-looking local part',
+    defaultPoints: 1,
+    test: submission => (/^[a-z0-9]{20,}@/i.test(submission.email.trim()) ? 1 : 0),
+  },
+  {
+    id: 'too_long',
+    description: 'Message is over 5000 characters',
+    defaultPoints: 1,
+    test: submission => (submission.text.length > 5000 ? 1 : 0),
+  },
+  {
+    id: 'too_short',
+    description: 'Inquiry message is under 10 characters',
+    defaultPoints: 1,
+    test: submission => (submission.kind === 'inquiry' && submission.text.trim().length < 10 ? 1 : 0),
+  },
+  {
+    id: 'classifier',
+    description: 'Reads like submissions marked as spam before',
+    defaultPoints: 4,
+    // Only a lean towards spam adds points, scaled from 0 at even odds to all of them at certainty
+    test: (_submission, context) =>
+      context.spamProbability === null ? 0 : Math.max(0, (context.spamProbability - 0.5) * 2),
+  },
+];
+
+export class SpamFilterService {
+  private readonly rules: SpamRule[] = [...DEFAULT_RULES];
+
+  /**
+   * Add a rule to the pipeline, or replace the rule with the same ID
+   */
+  registerRule(rule: SpamRule): void {
+    const index = this.rules.findIndex(existing => existing.id === rule.id);
+    if (index === -1) {
+      this.rules.push(rule);
+    } else {
+      this.rules[index] = rule;
+    }
+  }
+
+  getRules(): SpamRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Score a submission against every rule and decide what to do with it
+   */
+  evaluate(submission: SpamSubmission, settings: SpamSettings, context: SpamRuleContext): SpamVerdict {
+    const reasons: SpamReason[] = [];
+
+    for (const rule of this.rules) {
+      const weight = settings.ruleWeights[rule.id] ?? rule.defaultPoints;
+      const points = Math.round(weight * rule.test(submission, context) * 10) / 10;
+
+      if (points > 0) {
+        reasons.push({ rule: rule.id, points });
+      }
+    }
+
+    const score = Math.round(reasons.reduce((sum, reason) => sum + reason.points, 0) * 10) / 10;
+    const action: SpamAction =
+      score >= settings.rejectThreshold ? 'reject' : score >= settings.quarantineThreshold ? 'quarantine' : 'allow';
+
+    return { score, reasons, action };
+  }
+
+  async score(submission: SpamSubmission): Promise<SpamVerdict> {
+    const [settings, probability] = await Promise.all([
+      this.getSettings(),
+      this.classify(this.submissionText(submission)),
+    ]);
+
+    return this.evaluate(submission, settings, { spamProbability: probability });
+  }
+
+  inquirySubmission(inquiry: { name: string; email: string; subject?: string | null; message: string }): SpamSubmission {
+    return {
+      kind: 'inquiry',
+      name: inquiry.name,
+      email: inquiry.email,
+      text: [inquiry.subject, inquiry.message].filter(Boolean).join('\n'),
+      honeypotFields: [],
+    };
+  }
+
+  bookingSubmission(booking: {
+    clientName: string;
+    clientEmail: string;
+    projectDetails?: string | null;
+    location?: string | null;
+    notes?: string | null;
+  }): SpamSubmission {
+    return {
+      kind: 'booking',
+      name: booking.clientName,
+      email: booking.clientEmail,
+      text: [booking.projectDetails, booking.location, booking.notes].filter(Boolean).join('\n'),
+      honeypotFields: [],
+    };
+  }
+
+  async getSettings(): Promise<SpamSettings> {
+    const settings = await prisma.studioSettings.findUnique({ where: { id: SETTINGS_ID } });
+
+    return {
+      quarantineThreshold: settings?.spamQuarantineThreshold ?? 3,
+      rejectThreshold: settings?.spamRejectThreshold ?? 8,
+      ruleWeights: (settings?.spamRuleWeights as Record<string, number> | undefined) ?? {},
+    };
+  }
+
+  async updateSettings(data: Partial<SpamSettings>): Promise<SpamSettings> {
+    const current = await this.getSettings();
+    const quarantineThreshold = data.quarantineThreshold ?? current.quarantineThreshold;
+    const rejectThreshold = data.rejectThreshold ?? current.rejectThreshold;
+
+    if (rejectThreshold < quarantineThreshold) {
+      throw createError('The reject threshold cannot be below the quarantine threshold.', 400, 'INVALID_THRESHOLDS');
+    }
+
+    const unknownRules = Object.keys(data.ruleWeights ?? {}).filter(id => !this.rules.some(rule => rule.id === id));
+    if (unknownRules.length > 0) {
+      throw createError(`Unknown spam rules: ${unknownRules.join(', ')}`, 400, 'UNKNOWN_SPAM_RULE');
+    }
+
+    const settings = {
+      spamQuarantineThreshold: quarantineThreshold,
+      spamRejectThreshold: rejectThreshold,
+      ...(data.ruleWeights && { spamRuleWeights: data.ruleWeights }),
+    };
+
+    await prisma.studioSettings.upsert({
+      where: { id: SETTINGS_ID },
+      update: settings,
+      create: { id: SETTINGS_ID, ...settings },
+    });
+
+    return this.getSettings();
+  }
+
+  /**
+   * How many submissions the classifier has been trained on, per label
+   */
+  async getTrainingCounts(): Promise<DocumentCounts> {
+    const documents = await prisma.spamToken.findUnique({ where: { token: DOCUMENTS_TOKEN } });
+    return { spam: documents?.spamCount ?? 0, ham: documents?.hamCount ?? 0 };
+  }
+
+  /**
+   * Count a submission's words under a label. When it was trained under the other
+   * label before, those counts are taken back first.
+   */
+  async train(text: string, label: SpamLabel, previousLabel: SpamLabel | null = null): Promise<void> {
+    if (label === previousLabel) {
+      return;
+    }
+
+    const tokens = [DOCUMENTS_TOKEN, ...tokenize(text).slice(0, MAX_TRAINED_TOKENS)];
+    const change = (counted: SpamLabel) => (counted === label ? 1 : counted === previousLabel ? -1 : 0);
+    const spamChange = change('spam');
+    const hamChange = change('ham');
+
+    await prisma.$transaction(tokens.map(token =>
+      prisma.spamToken.upsert({
+        where: { token },
+        update: { spamCount: { increment: spamChange }, hamCount: { increment: hamChange } },
+        create: { token, spamCount: Math.max(0, spamChange), hamCount: Math.max(0, hamChange) },
+      })
+    ));
+  }
+
+  /**
+   * Mark an inquiry as spam, or as genuine. Genuine quarantined or spam inquiries go
+   * back to 'new' and the notification held back from the studio is sent.
+   */
+  async markInquiry(id: string, spam: boolean) {
+    const inquiry = await prisma.contactInquiry.findUnique({ where: { id } });
+    if (!inquiry) {
+      throw createError('Contact inquiry not found.', 404, 'INQUIRY_NOT_FOUND');
+    }
+
+    const label: SpamLabel = spam ? 'spam' : 'ham';
+    await this.train(this.submissionText(this.inquirySubmission(inquiry)), label, this.asLabel(inquiry.spamLabel));
+
+    const released = !spam && ['quarantined', 'spam'].includes(inquiry.status);
+    const updated = await prisma.contactInquiry.update({
+      where: { id },
+      data: {
+        spamLabel: label,
+        ...(spam && { status: 'spam' }),
+        ...(released && { status: 'new' }),
+        ...(released && !inquiry.clientId && {
+          clientId: await clientService.resolve({ name: inquiry.name, email: inquiry.email, phone: inquiry.phone }),
+        }),
+      },
+    });
+
+    if (released && inquiry.status === 'quarantined') {
+      emailService.sendContactInquiryNotification({ inquiry: updated }).catch((error) => {
+        logger.error('Failed to send notification for released inquiry', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          inquiryId: id,
+          service: 'SpamFilterService',
+        });
+      });
+    }
+
+    // Subscribers never heard of an inquiry held as spam
+    if (released) {
+      await webhookService.notifyInquiryCreated(updated);
+    }
+
+    logger.info('Inquiry marked by admin', { inquiryId: id, label, service: 'SpamFilterService' });
+    return updated;
+  }
+
+  /**
+   * Mark a booking as spam, or as genuine. Spam frees the slot of a pending booking;
+   * a genuine quarantined or spam booking becomes pending if its slot is still free
+   * and the confirmation held back is sent.
+   */
+  async markBooking(id: string, spam: boolean, admin?: { id: string; email: string }) {
+    const booking = await prisma.booking.findUnique({ where: { id } });
+    if (!booking) {
+      throw createError('Booking with the specified ID does not exist', 404, 'Booking not found');
+    }
+
+    const label: SpamLabel = spam ? 'spam' : 'ham';
+    const actor = bookingLifecycleService.adminActor(admin);
+    const releasing = !spam && ['quarantined', 'spam'].includes(booking.status);
+
+    if (spam && !['quarantined', 'pending', 'spam'].includes(booking.status)) {
+      throw createError(`Cannot mark a ${booking.status} booking as spam`, 400, 'Invalid status transition');
+    }
+
+    if (releasing) {
+      const conflicts = await scheduleService.findBookingConflicts(
+        { start: booking.startTime, end: booking.endTime },
+        booking.serviceId,
+        booking.id
+      );
+
+      if (conflicts.length > 0) {
+        throw createError('The booking\'s time slot has been taken in the meantime', 409, 'Time slot unavailable');
+      }
+    }
+
+    await this.train(this.submissionText(this.bookingSubmission(booking)), label, this.asLabel(booking.spamLabel));
+
+    if (spam && booking.status !== 'spam') {
+      const updated = await bookingLifecycleService.changeSpamStatus(id, 'spam', {
+        actor,
+        reason: 'Marked as spam',
+        data: { spamLabel: label },
+      });
+
+      if (booking.status === 'pending') {
+        await waitlistService.offerFreedSlots([id]);
+      }
+      return updated;
+    }
+
+    if (releasing) {
+      const clientId = booking.clientId ?? await clientService.resolve({
+        name: booking.clientName,
+        email: booking.clientEmail,
+        phone: booking.clientPhone,
+      });
+      const updated = await bookingLifecycleService.changeSpamStatus(id, 'pending', {
+        actor,
+        reason: 'Marked as not spam',
+        data: { spamLabel: label, clientId },
+      });
+
+      if (booking.status === 'quarantined') {
+        await this.sendHeldBookingEmails(updated);
+      }
+      return updated;
+    }
+
+    await prisma.booking.update({ where: { id }, data: { spamLabel: label } });
+    return prisma.booking.findUniqueOrThrow({
+      where: { id },
+      include: { service: { select: { id: true, name: true, category: { select: { id: true, name: true, slug: true } } } } },
+    });
+  }
+
+  private async sendHeldBookingEmails(booking: Awaited<ReturnType<typeof bookingLifecycleService.changeSpamStatus>>) {
+    const emailData = {
+      booking,
+      service: booking.service,
+      manageUrl: bookingAccessService.getManageUrl(bookingAccessService.generateManageToken(booking)),
+    };
+
+    try {
+      await emailService.sendBookingConfirmation(emailData);
+      await emailService.sendBookingNotificationToAdmin(emailData);
+    } catch (error) {
+      logger.error('Failed to send emails for released booking', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        bookingId: booking.id,
+        service: 'SpamFilterService',
+      });
+    }
+  }
+
+  private async classify(text: string): Promise<number | null> {
+    const tokens = tokenize(text);
+    const [documents, rows] = await Promise.all([
+      this.getTrainingCounts(),
+      prisma.spamToken.findMany({ where: { token: { in: tokens } } }),
+    ]);
+
+    const counts = new Map<string, TokenCounts>(
+      rows.map(row => [row.token, { spam: row.spamCount, ham: row.hamCount }])
+    );
+
+    return spamProbability(tokens, counts, documents);
+  }
+
+  private submissionText(submission: SpamSubmission): string {
+    return [submission.name, submission.email, submission.text].join('\n');
+  }
+
+  private asLabel(value: string | null): SpamLabel | null {
+    return value === 'spam' || value === 'ham' ? value : null;
+  }
+}
+
+export const spamFilterService = new SpamFilterService();
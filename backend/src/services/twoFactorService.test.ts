@@ -0,0 +1,52 @@
+import { TwoFactorService } from './twoFactorService';
+
+describe('TwoFactorService - Basic Tests', () => {
+  let twoFactorService: TwoFactorService;
+
+  beforeEach(() => {
+    twoFactorService = new TwoFactorService();
+  });
+
+  describe('encryptSecret', () => {
+    it('should round-trip a secret without storing it in the clear', () => {
+      const encrypted = twoFactorService.encryptSecret('JBSWY3DPEHPK3PXP');
+
+      expect(encrypted).not.toContain('JBSWY3DPEHPK3PXP');
+      expect(twoFactorService.decryptSecret(encrypted)).toBe('JBSWY3DPEHPK3PXP');
+    });
+
+    it('should use a new IV each time', () => {
+      expect(twoFactorService.encryptSecret('JBSWY3DPEHPK3PXP'))
+        .not.toBe(twoFactorService.encryptSecret('JBSWY3DPEHPK3PXP'));
+    });
+
+    it('should refuse a tampered secret', () => {
+      const [iv, authTag, ciphertext] = twoFactorService.encryptSecret('JBSWY3DPEHPK3PXP').split('.');
+      const tampered = Buffer.from(ciphertext!, 'base64url');
+      tampered[0] = tampered[0]! ^ 1;
+
+      expect(() => twoFactorService.decryptSecret([iv, authTag, tampered.toString('base64url')].join('.'))).toThrow();
+    });
+  });
+
+  describe('createRecoveryCodes', () => {
+    it('should create ten distinct codes and their hashes', () => {
+      const { codes, codeHashes } = twoFactorService.createRecoveryCodes();
+
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      codes.forEach(code => expect(code).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/));
+      expect(codeHashes).toEqual(codes.map(code => twoFactorService.hashRecoveryCode(code)));
+    });
+  });
+
+  describe('hashRecoveryCode', () => {
+    it('should ignore case, spaces and dashes', () => {
+      const hash = twoFactorService.hashRecoveryCode('k7m2p-x9q4r');
+
+      expect(twoFactorService.hashRecoveryCode('K7M2P X9Q4R')).toBe(hash);
+      expect(twoFactorService.hashRecoveryCode('k7m2px9q4r')).toBe(hash);
+      expect(twoFactorService.hashRecoveryCode('k7m2p-x9q4s')).not.toBe(hash);
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import logger from '../config/logger';
+import { createError } from '../middleware/errorHandler';
+import { User } from '../types/auth';
+import { buildOtpauthUri, generateSecret, verifyCode } from '../utils/totp';
+import { sessionService } from './sessionService';
+
+const prisma = new PrismaClient();
+
+const SETTINGS_ID = 'default';
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'; // no 0/o, 1/i/l
+
+// What the authenticator app needs; shown once while enrolling
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  // Whether the studio requires everyone to use two-factor authentication
+  required: boolean;
+}
+
+/**
+ * TOTP two-factor authentication. Secrets are stored encrypted and only become
+ * active once the user proves their app has them; recovery codes are stored hashed
+ * and each works once. Either kind of code is accepted wherever a code is asked for.
+ */
+export class TwoFactorService {
+  private readonly ISSUER = process.env['TWO_FACTOR_ISSUER'] || 'Derji Productions';
+  private readonly ENCRYPTION_KEY = crypto
+    .createHash('sha256')
+    .update(process.env['TWO_FACTOR_ENCRYPTION_KEY'] || 'your-two-factor-key')
+    .digest();
+  private readonly RECOVERY_CODE_COUNT = 10;
+
+  // AES-256-GCM, as `<iv>.<auth tag>.<ciphertext>` in base64url
+  encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.ENCRYPTION_KEY, iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+  }
+
+  decryptSecret(value: string): string {
+    const [iv, authTag, ciphertext] = value.split('.').map(part => Buffer.from(part, 'base64url'));
+    if (!iv || !authTag || !ciphertext) {
+      throw new Error('Malformed two-factor secret');
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.ENCRYPTION_KEY, iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+
+  // A fresh set of recovery codes like `k7m2p-x9q4r`, and the hashes stored for them
+  createRecoveryCodes(): { codes: string[]; codeHashes: string[] } {
+    const codes = Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const chars = Array.from(crypto.randomBytes(10), byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+      return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+    });
+
+    return { codes, codeHashes: codes.map(code => this.hashRecoveryCode(code)) };
+  }
+
+  // Case, spaces and dashes don't matter when typing a recovery code
+  hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  async isRequired(): Promise<boolean> {
+    const settings = await prisma.studioSettings.findUnique({ where: { id: SETTINGS_ID } });
+    return settings?.twoFactorRequired ?? false;
+  }
+
+  /**
+   * Require two-factor authentication for everyone, or stop requiring it. Turning it on
+   * signs out everyone who hasn't set it up, so they enrol at their next sign-in.
+   */
+  async setRequired(required: boolean, actor: User): Promise<boolean> {
+    if (required && !(await this.isEnabled(actor.id))) {
+      throw createError('Set up two-factor authentication on your own account first', 400, 'TWO_FACTOR_NOT_ENABLED');
+    }
+
+    await prisma.studioSettings.upsert({
+      where: { id: SETTINGS_ID },
+      update: { twoFactorRequired: required },
+      create: { id: SETTINGS_ID, twoFactorRequired: required },
+    });
+
+    if (required) {
+      const unenrolled = await prisma.user.findMany({
+        where: { twoFactorEnabledAt: null },
+        select: { id: true },
+      });
+
+      for (const user of unenrolled) {
+        await sessionService.revokeAll(user.id, 'two_factor_required');
+      }
+    }
+
+    logger.info('Two-factor requirement changed', { required, changedBy: actor.id, service: 'TwoFactorService' });
+    return required;
+  }
+
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const [user, recoveryCodesRemaining, required] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { twoFactorEnabledAt: true } }),
+      prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } }),
+      this.isRequired(),
+    ]);
+
+    return {
+      enabled: Boolean(user?.twoFactorEnabledAt),
+      enabledAt: user?.twoFactorEnabledAt ?? null,
+      recoveryCodesRemaining,
+      required,
+    };
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { twoFactorEnabledAt: true } });
+    return Boolean(user?.twoFactorEnabledAt);
+  }
+
+  /**
+   * Start enrolling: a new secret for the authenticator app. It isn't used to sign in
+   * until `enable` confirms a code from it. Starting again replaces the secret.
+   */
+  async beginSetup(user: User): Promise<TwoFactorSetup> {
+    if (await this.isEnabled(user.id)) {
+      throw createError('Two-factor authentication is already on', 409, 'TWO_FACTOR_ALREADY_ENABLED');
+    }
+
+    const secret = generateSecret();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorSecret: this.encryptSecret(secret), twoFactorLastStep: null },
+    });
+
+    return {
+      secret,
+      otpauthUrl: buildOtpauthUri({ issuer: this.ISSUER, account: user.email, secret }),
+    };
+  }
+
+  // Finish enrolling with a code from the app. Returns the recovery codes, shown once.
+  async enable(userId: string, code: string): Promise<string[]> {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw createError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    if (user.twoFactorEnabledAt) {
+      throw createError('Two-factor authentication is already on', 409, 'TWO_FACTOR_ALREADY_ENABLED');
+    }
+    if (!user.twoFactorSecret) {
+      throw createError('Start setting up two-factor authentication first', 400, 'TWO_FACTOR_SETUP_NOT_STARTED');
+    }
+
+    const step = verifyCode(this.decryptSecret(user.twoFactorSecret), code);
+    if (step === null) {
+      throw createError('Invalid authentication code', 400, 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    const { codes, codeHashes } = this.createRecoveryCodes();
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabledAt: new Date(), twoFactorLastStep: step },
+      }),
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.twoFactorRecoveryCode.createMany({ data: codeHashes.map(codeHash => ({ userId, codeHash })) }),
+    ]);
+
+    logger.info('Two-factor authentication enabled', { userId, service: 'TwoFactorService' });
+    return codes;
+  }
+
+  /**
+   * Check a code from the authenticator app or an unused recovery code. App codes
+   * can't be used twice, nor can a code older than the last one accepted.
+   */
+  async verify(userId: string, code: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user?.twoFactorEnabledAt || !user.twoFactorSecret) {
+      return false;
+    }
+
+    const appCode = code.replace(/\s/g, '');
+    if (/^\d+$/.test(appCode)) {
+      const step = verifyCode(this.decryptSecret(user.twoFactorSecret), appCode);
+      if (step === null) {
+        return false;
+      }
+
+      // Claim the step, so a concurrent request with the same code loses
+      const { count } = await prisma.user.updateMany({
+        where: {
+          id: userId,
+          OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+        },
+        data: { twoFactorLastStep: step },
+      });
+      return count > 0;
+    }
+
+    const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+      where: { userId, codeHash: this.hashRecoveryCode(code), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count > 0) {
+      const remaining = await prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } });
+      logger.warn('Recovery code used', { userId, remaining, service: 'TwoFactorService' });
+    }
+
+    return count > 0;
+  }
+
+  // Replace all recovery codes, for when they're lost or running out
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    if (!(await this.isEnabled(userId))) {
+      throw createError('Two-factor authentication is off', 400, 'TWO_FACTOR_NOT_ENABLED');
+    }
+
+    const { codes, codeHashes } = this.createRecoveryCodes();
+
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.twoFactorRecoveryCode.createMany({ data: codeHashes.map(codeHash => ({ userId, codeHash })) }),
+    ]);
+
+    return codes;
+  }
+
+  async disable(userId: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null },
+      }),
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    ]);
+
+    logger.info('Two-factor authentication disabled', { userId, service: 'TwoFactorService' });
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
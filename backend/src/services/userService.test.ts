@@ -0,0 +1,73 @@
+import { PrismaClient } from '@prisma/client';
+import { UserService } from './userService';
+import { User } from '../types/auth';
+
+jest.mock('@prisma/client', () => jest.requireActual('../test/prismaMock').mockPrismaModule());
+
+jest.mock('../config/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn(), warn: jest.fn() },
+}));
+
+const prisma = new PrismaClient() as unknown as {
+  user: { findUnique: jest.Mock; update: jest.Mock; count: jest.Mock };
+};
+
+describe('UserService - Basic Tests', () => {
+  let userService: UserService;
+
+  beforeEach(() => {
+    userService = new UserService();
+  });
+
+  describe('createInvitationToken', () => {
+    it('should create a random token and the hash to store for it', () => {
+      const first = userService.createInvitationToken();
+      const second = userService.createInvitationToken();
+
+      expect(first.token).toMatch(/^[a-f0-9]{64}$/);
+      expect(first.token).not.toBe(second.token);
+      expect(userService.hashInvitationToken(first.token)).toBe(first.tokenHash);
+    });
+  });
+
+  describe('getAcceptUrl', () => {
+    it('should link to the accept invitation page with the token', () => {
+      expect(userService.getAcceptUrl('abc123')).toMatch(/\/admin\/accept-invitation\?token=abc123$/);
+    });
+  });
+});
+
+describe('UserService - Updating users', () => {
+  let userService: UserService;
+
+  const now = new Date('2026-10-18T09:00:00.000Z');
+  const owner: User = { id: 'owner-1', email: 'owner@derjiproductions.com', role: 'owner', createdAt: now, updatedAt: now };
+  const photographer = { ...owner, id: 'user-2', email: 'kofi@derjiproductions.com', role: 'photographer' };
+
+  beforeEach(() => {
+    userService = new UserService();
+    prisma.user.findUnique.mockResolvedValue(photographer);
+    prisma.user.update.mockImplementation(async ({ data }) => ({ ...photographer, ...data }));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should revoke the calendar feed when the role changes', async () => {
+    await userService.update('user-2', { role: 'editor' }, owner);
+
+    expect(prisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: { role: 'editor', calendarFeedTokenHash: null },
+    }));
+  });
+
+  it('should keep the calendar feed when the role stays the same', async () => {
+    await userService.update('user-2', { firstName: 'Kofi', role: 'photographer' }, owner);
+
+    expect(prisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: { firstName: 'Kofi', role: 'photographer' },
+    }));
+  });
+});
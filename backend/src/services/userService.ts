@@ -0,0 +1,369 @@
+import crypto from 'crypto';
+import { PrismaClient, UserInvitation } from '@prisma/client';
+import logger from '../config/logger';
+import { Role, permissionsFor } from '../config/roles';
+import { createError } from '../middleware/errorHandler';
+import { User } from '../types/auth';
+import { emailService } from './emailService';
+import { loginProtectionService } from './loginProtectionService';
+import { sessionService } from './sessionService';
+import { twoFactorService } from './twoFactorService';
+
+const prisma = new PrismaClient();
+
+export interface UserFilters {
+  role?: string | undefined;
+  search?: string | undefined;
+}
+
+export interface UserUpdate {
+  firstName?: string | null | undefined;
+  lastName?: string | null | undefined;
+  role?: Role | undefined;
+}
+
+export interface InvitationInput {
+  email: string;
+  role: Role;
+  firstName?: string | undefined;
+  lastName?: string | undefined;
+}
+
+export interface NewAccount {
+  passwordHash: string;
+  firstName?: string | undefined;
+  lastName?: string | undefined;
+}
+
+const USER_SELECT = {
+  id: true,
+  email: true,
+  role: true,
+  firstName: true,
+  lastName: true,
+  twoFactorEnabledAt: true,
+  lockedUntil: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+const INVITATION_SELECT = {
+  id: true,
+  email: true,
+  role: true,
+  firstName: true,
+  lastName: true,
+  expiresAt: true,
+  createdAt: true,
+  invitedBy: { select: { id: true, email: true, firstName: true, lastName: true } },
+} as const;
+
+const displayName = (user: { email: string; firstName?: string | null; lastName?: string | null }) =>
+  [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email;
+
+/**
+ * Admin users and the invitations that bring them in. Owners can't be edited or
+ * removed by anyone but another owner, and there is always at least one owner.
+ */
+export class UserService {
+  private readonly INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+  private readonly FRONTEND_URL = process.env['FRONTEND_URL'] || 'http://localhost:3000';
+
+  createInvitationToken(): { token: string; tokenHash: string } {
+    const token = crypto.randomBytes(32).toString('hex');
+    return { token, tokenHash: this.hashInvitationToken(token) };
+  }
+
+  hashInvitationToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  getAcceptUrl(token: string): string {
+    return `${this.FRONTEND_URL}/admin/accept-invitation?token=${token}`;
+  }
+
+  async list(filters: UserFilters = {}): Promise<User[]> {
+    const search = filters.search?.trim();
+
+    return prisma.user.findMany({
+      where: {
+        ...(filters.role && { role: filters.role }),
+        ...(search && {
+          OR: [
+            { email: { contains: search, mode: 'insensitive' as const } },
+            { firstName: { contains: search, mode: 'insensitive' as const } },
+            { lastName: { contains: search, mode: 'insensitive' as const } },
+          ],
+        }),
+      },
+      select: USER_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async getById(id: string): Promise<User & { permissions: string[] }> {
+    const user = await prisma.user.findUnique({ where: { id }, select: USER_SELECT });
+    if (!user) {
+      throw createError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    return { ...user, permissions: permissionsFor(user.role) };
+  }
+
+  async update(id: string, data: UserUpdate, actor: User): Promise<User> {
+    const user = await this.getById(id);
+    this.assertCanManage(user, actor);
+
+    if (data.role && data.role !== user.role) {
+      if (user.id === actor.id) {
+        throw createError('You cannot change your own role', 400, 'CANNOT_CHANGE_OWN_ROLE');
+      }
+      if (data.role === 'owner' && actor.role !== 'owner') {
+        throw createError('Only owners can make someone an owner', 403, 'OWNER_REQUIRED');
+      }
+      if (user.role === 'owner') {
+        await this.assertAnotherOwner(user.id);
+      }
+    }
+
+    const updated = await prisma.user.update({
+      where: { id },
+      data: {
+        ...(data.firstName !== undefined && { firstName: data.firstName || null }),
+        ...(data.lastName !== undefined && { lastName: data.lastName || null }),
+        ...(data.role && { role: data.role }),
+        // A calendar feed link handed out under the old role must not outlive it
+        ...(data.role && data.role !== user.role && { calendarFeedTokenHash: null }),
+      },
+      select: USER_SELECT,
+    });
+
+    if (data.role && data.role !== user.role) {
+      logger.info('User role changed', {
+        userId: id,
+        from: user.role,
+        to: data.role,
+        changedBy: actor.id,
+        service: 'UserService',
+      });
+    }
+
+    return updated;
+  }
+
+  async delete(id: string, actor: User): Promise<void> {
+    const user = await this.getById(id);
+
+    if (user.id === actor.id) {
+      throw createError('You cannot delete your own account', 400, 'CANNOT_DELETE_SELF');
+    }
+    this.assertCanManage(user, actor);
+    if (user.role === 'owner') {
+      await this.assertAnotherOwner(user.id);
+    }
+
+    // Sessions go with the user; authorship elsewhere is kept or cleared by the schema
+    await prisma.user.delete({ where: { id } });
+
+    logger.info('User deleted', { userId: id, deletedBy: actor.id, service: 'UserService' });
+  }
+
+  /**
+   * Turn off someone's two-factor authentication, for when they've lost their device
+   * and recovery codes. They're signed out everywhere and set it up again at their next
+   * sign-in if the studio requires it.
+   */
+  async resetTwoFactor(id: string, actor: User): Promise<void> {
+    const user = await this.getById(id);
+    this.assertCanManage(user, actor);
+
+    await twoFactorService.disable(user.id);
+    await sessionService.revokeAll(user.id, 'two_factor_reset');
+
+    logger.warn('Two-factor authentication reset', { userId: id, resetBy: actor.id, service: 'UserService' });
+  }
+
+  // Lift a lockout from failed sign-ins before it runs out
+  async unlock(id: string, actor: User): Promise<void> {
+    const user = await this.getById(id);
+    this.assertCanManage(user, actor);
+
+    await loginProtectionService.unlock(user.id);
+
+    logger.info('User unlocked', { userId: id, unlockedBy: actor.id, service: 'UserService' });
+  }
+
+  async listInvitations() {
+    return prisma.userInvitation.findMany({
+      where: { acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: INVITATION_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Email someone a link to join with the given role. Inviting the same address again
+   * replaces the earlier invitation.
+   */
+  async invite(input: InvitationInput, actor: User) {
+    const email = input.email.trim().toLowerCase();
+
+    if (input.role === 'owner' && actor.role !== 'owner') {
+      throw createError('Only owners can invite owners', 403, 'OWNER_REQUIRED');
+    }
+
+    const existing = await prisma.user.findUnique({ where: { email } });
+    if (existing) {
+      throw createError('A user with this email already exists', 409, 'USER_EXISTS');
+    }
+
+    const { token, tokenHash } = this.createInvitationToken();
+    const expiresAt = new Date(Date.now() + this.INVITATION_TTL_MS);
+
+    const [, invitation] = await prisma.$transaction([
+      prisma.userInvitation.updateMany({
+        where: { email, acceptedAt: null, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
+      prisma.userInvitation.create({
+        data: {
+          email,
+          role: input.role,
+          firstName: input.firstName || null,
+          lastName: input.lastName || null,
+          tokenHash,
+          expiresAt,
+          invitedById: actor.id,
+        },
+        select: INVITATION_SELECT,
+      }),
+    ]);
+
+    await this.sendInvitation(invitation, token, actor);
+
+    logger.info('User invited', { invitationId: invitation.id, role: input.role, invitedBy: actor.id, service: 'UserService' });
+    return invitation;
+  }
+
+  // Send a pending invitation again with a new link, restarting its expiry
+  async resendInvitation(id: string, actor: User) {
+    const pending = await this.getPendingInvitation(id);
+    if (pending.role === 'owner' && actor.role !== 'owner') {
+      throw createError('Only owners can invite owners', 403, 'OWNER_REQUIRED');
+    }
+
+    const { token, tokenHash } = this.createInvitationToken();
+    const invitation = await prisma.userInvitation.update({
+      where: { id },
+      data: { tokenHash, expiresAt: new Date(Date.now() + this.INVITATION_TTL_MS) },
+      select: INVITATION_SELECT,
+    });
+
+    await this.sendInvitation(invitation, token, actor);
+    return invitation;
+  }
+
+  async revokeInvitation(id: string): Promise<void> {
+    await this.getPendingInvitation(id);
+    await prisma.userInvitation.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  // What an invitation link is for, so the accept page can show it. Null for dead links.
+  async findInvitation(token: string) {
+    const invitation = await prisma.userInvitation.findUnique({
+      where: { tokenHash: this.hashInvitationToken(token) },
+      select: { ...INVITATION_SELECT, acceptedAt: true, revokedAt: true },
+    });
+
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt || invitation.expiresAt <= new Date()) {
+      return null;
+    }
+
+    const { acceptedAt: _acceptedAt, revokedAt: _revokedAt, ...details } = invitation;
+    return details;
+  }
+
+  /**
+   * Create the invited user. The invitation is claimed in the same transaction, so a
+   * link only ever creates one account.
+   */
+  async acceptInvitation(token: string, account: NewAccount): Promise<User> {
+    const invitation = await prisma.userInvitation.findUnique({
+      where: { tokenHash: this.hashInvitationToken(token) },
+    });
+
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt || invitation.expiresAt <= new Date()) {
+      throw createError('This invitation is invalid, has expired or has already been used', 400, 'INVALID_INVITATION');
+    }
+
+    const user = await prisma.$transaction(async tx => {
+      const { count } = await tx.userInvitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+        data: { acceptedAt: new Date() },
+      });
+      if (count === 0) {
+        throw createError('This invitation is invalid, has expired or has already been used', 400, 'INVALID_INVITATION');
+      }
+
+      const existing = await tx.user.findUnique({ where: { email: invitation.email } });
+      if (existing) {
+        throw createError('A user with this email already exists', 409, 'USER_EXISTS');
+      }
+
+      return tx.user.create({
+        data: {
+          email: invitation.email,
+          passwordHash: account.passwordHash,
+          role: invitation.role,
+          firstName: account.firstName || invitation.firstName,
+          lastName: account.lastName || invitation.lastName,
+        },
+        select: USER_SELECT,
+      });
+    });
+
+    logger.info('Invitation accepted', { invitationId: invitation.id, userId: user.id, service: 'UserService' });
+    return user;
+  }
+
+  // Only owners may change or remove owners
+  private assertCanManage(user: User, actor: User): void {
+    if (user.role === 'owner' && actor.role !== 'owner') {
+      throw createError('Only owners can change owners', 403, 'OWNER_REQUIRED');
+    }
+  }
+
+  private async assertAnotherOwner(userId: string): Promise<void> {
+    const owners = await prisma.user.count({ where: { role: 'owner', id: { not: userId } } });
+    if (owners === 0) {
+      throw createError('There must always be at least one owner', 400, 'LAST_OWNER');
+    }
+  }
+
+  private async getPendingInvitation(id: string): Promise<UserInvitation> {
+    const invitation = await prisma.userInvitation.findUnique({ where: { id } });
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt) {
+      throw createError('Invitation not found', 404, 'INVITATION_NOT_FOUND');
+    }
+    return invitation;
+  }
+
+  private async sendInvitation(
+    invitation: { email: string; role: string; firstName: string | null; expiresAt: Date },
+    token: string,
+    actor: User
+  ): Promise<void> {
+    await emailService.sendUserInvitation({
+      user: { email: invitation.email, firstName: invitation.firstName },
+      role: invitation.role,
+      invitedBy: displayName(actor),
+      acceptUrl: this.getAcceptUrl(token),
+      expiresAt: invitation.expiresAt,
+    });
+  }
+}
+
+export const userService = new UserService();
@@ -0,0 +1,126 @@
+import { PrismaClient } from '@prisma/client';
+import { WaitlistService } from './waitlistService';
+import { bookingLifecycleService } from './bookingLifecycleService';
+import { clientService } from './clientService';
+import { scheduleService } from './scheduleService';
+
+jest.mock('@prisma/client', () => jest.requireActual('../test/prismaMock').mockPrismaModule());
+
+describe('WaitlistService - Offers', () => {
+  let waitlistService: WaitlistService;
+
+  const day = new Date('2026-03-14T00:00:00.000Z');
+  const now = new Date('2026-03-10T09:00:00.000Z');
+
+  beforeEach(() => {
+    waitlistService = new WaitlistService();
+  });
+
+  describe('matchesBooking', () => {
+    const booking = { bookingDate: day, serviceId: 'service-1' };
+
+    it('should match entries for the same day and service', () => {
+      expect(waitlistService.matchesBooking({ date: day, serviceId: 'service-1' }, booking)).toBe(true);
+    });
+
+    it('should match entries that accept any service', () => {
+      expect(waitlistService.matchesBooking({ date: day, serviceId: null }, booking)).toBe(true);
+    });
+
+    it('should not match entries for another service or day', () => {
+      expect(waitlistService.matchesBooking({ date: day, serviceId: 'service-2' }, booking)).toBe(false);
+      expect(
+        waitlistService.matchesBooking({ date: new Date('2026-03-15T00:00:00.000Z'), serviceId: 'service-1' }, booking)
+      ).toBe(false);
+    });
+  });
+
+  describe('getHoldExpiry', () => {
+    it('should hold the slot for two hours by default', () => {
+      const expiry = waitlistService.getHoldExpiry(new Date('2026-03-14T10:00:00.000Z'), now);
+
+      expect(expiry).toEqual(new Date('2026-03-10T11:00:00.000Z'));
+    });
+
+    it('should not hold the slot past the start of the session', () => {
+      const startTime = new Date('2026-03-10T10:00:00.000Z');
+
+      expect(waitlistService.getHoldExpiry(startTime, now)).toEqual(startTime);
+    });
+  });
+
+  describe('isOfferOpen', () => {
+    it('should only accept offers whose hold has not run out', () => {
+      expect(waitlistService.isOfferOpen({ status: 'offered', holdExpiresAt: new Date('2026-03-10T10:00:00.000Z') }, now)).toBe(true);
+      expect(waitlistService.isOfferOpen({ status: 'offered', holdExpiresAt: new Date('2026-03-10T08:00:00.000Z') }, now)).toBe(false);
+    });
+
+    it('should refuse entries that are not on offer', () => {
+      expect(waitlistService.isOfferOpen({ status: 'waiting', holdExpiresAt: null }, now)).toBe(false);
+      expect(waitlistService.isOfferOpen({ status: 'booked', holdExpiresAt: new Date('2026-03-10T10:00:00.000Z') }, now)).toBe(false);
+    });
+  });
+});
+
+describe('WaitlistService - Claiming offers', () => {
+  const prisma = new PrismaClient() as unknown as {
+    waitlistEntry: { findUnique: jest.Mock; updateMany: jest.Mock };
+    booking: { create: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let waitlistService: WaitlistService;
+
+  const held = {
+    id: 'cancelled-booking',
+    serviceId: 'service-1',
+    startTime: new Date('2099-03-14T10:00:00.000Z'),
+    endTime: new Date('2099-03-14T11:00:00.000Z'),
+    timeZone: 'UTC',
+    service: { id: 'service-1', name: 'Portrait Session', duration: 60 },
+  };
+
+  beforeEach(() => {
+    waitlistService = new WaitlistService();
+
+    prisma.waitlistEntry.findUnique.mockResolvedValue({
+      id: 'entry-1',
+      clientName: 'Ama Mensah',
+      clientEmail: 'ama@example.com',
+      clientPhone: null,
+      status: 'offered',
+      holdExpiresAt: new Date('2099-03-14T09:00:00.000Z'),
+      offeredBooking: held,
+    });
+    prisma.booking.create.mockResolvedValue({ id: 'new-booking', status: 'pending' });
+    prisma.$transaction.mockImplementation(async (run: (tx: typeof prisma) => unknown) => run(prisma));
+
+    jest.spyOn(scheduleService, 'findBookingConflicts').mockResolvedValue([]);
+    jest.spyOn(scheduleService, 'getServiceRequirements').mockResolvedValue([]);
+    jest.spyOn(scheduleService, 'getBookingDay').mockResolvedValue({
+      timeZone: 'UTC',
+      bookingDate: new Date('2099-03-14T00:00:00.000Z'),
+    });
+    jest.spyOn(clientService, 'resolve').mockResolvedValue('client-1');
+    jest.spyOn(bookingLifecycleService, 'notifyCreated').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should announce the booking made by a claim', async () => {
+    prisma.waitlistEntry.updateMany.mockResolvedValue({ count: 1 });
+
+    const booking = await waitlistService.claimOffer('entry-1');
+
+    expect(booking.id).toBe('new-booking');
+    expect(bookingLifecycleService.notifyCreated).toHaveBeenCalledWith(['new-booking']);
+  });
+
+  it('should announce nothing when the offer closed during the claim', async () => {
+    prisma.waitlistEntry.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(waitlistService.claimOffer('entry-1')).rejects.toMatchObject({ status: 410 });
+    expect(bookingLifecycleService.notifyCreated).not.toHaveBeenCalled();
+  });
+});
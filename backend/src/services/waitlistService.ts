@@ -0,0 +1,422 @@
+import { PrismaClient } from '@prisma/client';
+import logger from '../config/logger';
+import { createError } from '../middleware/errorHandler';
+import { scheduleService } from './scheduleService';
+import { bookingAccessService } from './bookingAccessService';
+import { bookingLifecycleService } from './bookingLifecycleService';
+import { clientService } from './clientService';
+import { emailService } from './emailService';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_HOLD_MINUTES = 120;
+const EXPIRY_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// Entries in these statuses are still waiting for, or holding, a slot
+export const OPEN_WAITLIST_STATUSES = ['waiting', 'offered'];
+
+export interface WaitlistJoinInput {
+  clientName: string;
+  clientEmail: string;
+  clientPhone?: string;
+  serviceId?: string;
+  date: string; // 'YYYY-MM-DD' on the studio calendar
+}
+
+export interface WaitlistFilters {
+  date?: string;
+  status?: string;
+  serviceId?: string;
+}
+
+interface FreedBooking {
+  id: string;
+  serviceId: string | null;
+  bookingDate: Date;
+  startTime: Date;
+  endTime: Date;
+  timeZone: string;
+  service: { name: string } | null;
+}
+
+const BOOKING_INCLUDE = {
+  service: {
+    select: {
+      id: true,
+      name: true,
+      category: {
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+        },
+      },
+    },
+  },
+} as const;
+
+export class WaitlistService {
+  private readonly holdMinutes = Number(process.env['WAITLIST_HOLD_MINUTES']) || DEFAULT_HOLD_MINUTES;
+  private expiryInterval?: NodeJS.Timeout;
+
+  /**
+   * Whether an entry wants the slot a booking freed: the same studio day, and the
+   * same service unless any service will do
+   */
+  matchesBooking(
+    entry: { date: Date; serviceId: string | null },
+    booking: { bookingDate: Date; serviceId: string | null }
+  ): boolean {
+    return (
+      entry.date.getTime() === booking.bookingDate.getTime() &&
+      (entry.serviceId === null || entry.serviceId === booking.serviceId)
+    );
+  }
+
+  /**
+   * Holds last a fixed time but never past the start of the session
+   */
+  getHoldExpiry(startTime: Date, now: Date = new Date()): Date {
+    const expiresAt = now.getTime() + this.holdMinutes * 60 * 1000;
+    return new Date(Math.min(expiresAt, startTime.getTime()));
+  }
+
+  isOfferOpen(entry: { status: string; holdExpiresAt: Date | null }, now: Date = new Date()): boolean {
+    return entry.status === 'offered' && !!entry.holdExpiresAt && entry.holdExpiresAt > now;
+  }
+
+  async joinWaitlist(input: WaitlistJoinInput) {
+    if (input.serviceId) {
+      const service = await prisma.service.findUnique({ where: { id: input.serviceId } });
+
+      if (!service) {
+        throw createError('Service with the specified ID does not exist', 400, 'Invalid service');
+      }
+
+      if (!service.active) {
+        throw createError('The selected service is currently unavailable', 400, 'Service unavailable');
+      }
+    }
+
+    const { timeZone } = await scheduleService.getWeeklySchedule();
+    if (input.date < scheduleService.toDateKey(new Date(), timeZone)) {
+      throw createError('Cannot join the waitlist for past dates', 400, 'Invalid date');
+    }
+
+    const date = scheduleService.fromDateKey(input.date);
+    const existing = await prisma.waitlistEntry.findFirst({
+      where: {
+        clientEmail: { equals: input.clientEmail, mode: 'insensitive' },
+        date,
+        serviceId: input.serviceId ?? null,
+        status: { in: OPEN_WAITLIST_STATUSES },
+      },
+    });
+
+    if (existing) {
+      throw createError('You are already on the waitlist for this day', 409, 'Already on waitlist');
+    }
+
+    return prisma.waitlistEntry.create({
+      data: {
+        clientName: input.clientName,
+        clientEmail: input.clientEmail,
+        clientPhone: input.clientPhone ?? null,
+        serviceId: input.serviceId ?? null,
+        date,
+      },
+      include: {
+        service: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+  }
+
+  async getEntries(filters: WaitlistFilters = {}) {
+    return prisma.waitlistEntry.findMany({
+      where: {
+        ...(filters.date && { date: scheduleService.fromDateKey(filters.date) }),
+        ...(filters.status && { status: filters.status }),
+        ...(filters.serviceId && { serviceId: filters.serviceId }),
+      },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+      include: {
+        service: {
+          select: { id: true, name: true },
+        },
+        offeredBooking: {
+          select: { id: true, startTime: true, endTime: true },
+        },
+      },
+    });
+  }
+
+  /**
+   * Take an entry off the waitlist. A slot held for the entry passes to the next
+   * client waiting for it.
+   */
+  async removeEntry(id: string): Promise<void> {
+    const entry = await prisma.waitlistEntry.findUnique({ where: { id } });
+    if (!entry) {
+      throw createError('Waitlist entry with the specified ID does not exist', 404, 'Waitlist entry not found');
+    }
+
+    await prisma.waitlistEntry.delete({ where: { id } });
+
+    if (entry.offeredBookingId && this.isOfferOpen(entry)) {
+      await this.offerFreedSlots([entry.offeredBookingId]);
+    }
+  }
+
+  /**
+   * Offer the slots of cancelled bookings to the first waitlisted client wanting
+   * each one, holding the slot for them and emailing a link to claim it. Returns
+   * the number of offers made.
+   */
+  async offerFreedSlots(bookingIds: string[]): Promise<number> {
+    if (bookingIds.length === 0) {
+      return 0;
+    }
+
+    const bookings = await prisma.booking.findMany({
+      where: {
+        id: { in: bookingIds },
+        status: 'cancelled',
+        startTime: { gt: new Date() },
+      },
+      orderBy: { startTime: 'asc' },
+      include: {
+        service: {
+          select: { name: true },
+        },
+      },
+    });
+
+    let offers = 0;
+    for (const booking of bookings) {
+      if (await this.offerSlot(booking)) {
+        offers++;
+      }
+    }
+
+    return offers;
+  }
+
+  /**
+   * Close offers whose hold ran out and pass their slots on, and drop entries for
+   * days that have gone by
+   */
+  async expireHolds(): Promise<number> {
+    const now = new Date();
+    const { timeZone } = await scheduleService.getWeeklySchedule();
+
+    const expired = await prisma.waitlistEntry.findMany({
+      where: { status: 'offered', holdExpiresAt: { lte: now } },
+      select: { id: true, offeredBookingId: true },
+    });
+
+    await prisma.$transaction([
+      prisma.waitlistEntry.updateMany({
+        where: { id: { in: expired.map(entry => entry.id) }, status: 'offered' },
+        data: { status: 'expired' },
+      }),
+      prisma.waitlistEntry.updateMany({
+        where: {
+          status: 'waiting',
+          date: { lt: scheduleService.fromDateKey(scheduleService.toDateKey(now, timeZone)) },
+        },
+        data: { status: 'expired' },
+      }),
+    ]);
+
+    await this.offerFreedSlots(
+      expired.flatMap(entry => (entry.offeredBookingId ? [entry.offeredBookingId] : []))
+    );
+
+    return expired.length;
+  }
+
+  /**
+   * Open offer for an entry, with the slot held for it
+   */
+  async getOffer(entryId: string) {
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { id: entryId },
+      include: {
+        offeredBooking: {
+          select: {
+            id: true,
+            serviceId: true,
+            startTime: true,
+            endTime: true,
+            timeZone: true,
+            service: {
+              select: { id: true, name: true, duration: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!entry) {
+      throw createError('This waitlist offer no longer exists', 404, 'Offer not found');
+    }
+
+    if (!entry.offeredBooking || !this.isOfferOpen(entry)) {
+      throw this.offerClosedError();
+    }
+
+    return { ...entry, offeredBooking: entry.offeredBooking };
+  }
+
+  /**
+   * Book the slot held for an entry in the client's name
+   */
+  async claimOffer(entryId: string) {
+    const entry = await this.getOffer(entryId);
+    const held = entry.offeredBooking;
+    const range = { start: held.startTime, end: held.endTime };
+
+    // The hold belongs to the cancelled booking, so it must not block its own claim
+    const [conflicts, requirements, { timeZone, bookingDate }, clientId] = await Promise.all([
+      scheduleService.findBookingConflicts(range, held.serviceId, held.id),
+      scheduleService.getServiceRequirements(held.serviceId),
+      scheduleService.getBookingDay(held.startTime),
+      clientService.resolve({ name: entry.clientName, email: entry.clientEmail, phone: entry.clientPhone }),
+    ]);
+
+    if (conflicts.length > 0) {
+      throw createError('The held slot is no longer available', 409, 'Time slot unavailable');
+    }
+
+    const booking = await prisma.$transaction(async tx => {
+      const booking = await tx.booking.create({
+        data: {
+          clientName: entry.clientName,
+          clientEmail: entry.clientEmail,
+          clientPhone: entry.clientPhone,
+          clientId,
+          serviceId: held.serviceId,
+          startTime: held.startTime,
+          endTime: held.endTime,
+          bookingDate,
+          timeZone,
+          resources: {
+            create: requirements.map(({ resourceId, quantity }) => ({ resourceId, quantity })),
+          },
+          events: bookingLifecycleService.creationEvent(bookingLifecycleService.clientActor(entry)),
+        },
+        include: BOOKING_INCLUDE,
+      });
+
+      // Only claim an offer that is still open, so a slot passed on in the meantime is not booked twice
+      const { count } = await tx.waitlistEntry.updateMany({
+        where: { id: entry.id, status: 'offered', holdExpiresAt: { gt: new Date() } },
+        data: { status: 'booked', bookingId: booking.id },
+      });
+
+      if (count === 0) {
+        throw this.offerClosedError();
+      }
+
+      return booking;
+    });
+
+    await bookingLifecycleService.notifyCreated([booking.id]);
+    return booking;
+  }
+
+  /**
+   * Check for expired holds periodically so their slots reach the next client
+   */
+  start(): void {
+    this.expiryInterval = setInterval(() => {
+      this.expireHolds().catch(error => {
+        logger.error('Failed to expire waitlist holds', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          service: 'WaitlistService',
+        });
+      });
+    }, EXPIRY_CHECK_INTERVAL_MS);
+  }
+
+  shutdown(): void {
+    if (this.expiryInterval) {
+      clearInterval(this.expiryInterval);
+    }
+  }
+
+  private async offerSlot(booking: FreedBooking): Promise<boolean> {
+    const openOffers = await prisma.waitlistEntry.count({
+      where: { offeredBookingId: booking.id, status: 'offered', holdExpiresAt: { gt: new Date() } },
+    });
+
+    if (openOffers > 0) {
+      return false;
+    }
+
+    // Only offer the slot if it could actually be booked again
+    const conflicts = await scheduleService.findBookingConflicts(
+      { start: booking.startTime, end: booking.endTime },
+      booking.serviceId,
+      booking.id
+    );
+
+    if (conflicts.length > 0) {
+      return false;
+    }
+
+    const candidates = await prisma.waitlistEntry.findMany({
+      where: {
+        status: 'waiting',
+        date: booking.bookingDate,
+        OR: [{ serviceId: null }, { serviceId: booking.serviceId }],
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const holdExpiresAt = this.getHoldExpiry(booking.startTime);
+
+    for (const candidate of candidates) {
+      // Another cancellation may have offered this client a slot in the meantime
+      const { count } = await prisma.waitlistEntry.updateMany({
+        where: { id: candidate.id, status: 'waiting' },
+        data: { status: 'offered', offeredBookingId: booking.id, holdExpiresAt },
+      });
+
+      if (count === 0) {
+        continue;
+      }
+
+      try {
+        await emailService.sendWaitlistOffer({
+          entry: candidate,
+          slot: booking,
+          service: booking.service,
+          claimUrl: bookingAccessService.getWaitlistOfferUrl(
+            bookingAccessService.generateWaitlistToken({ id: candidate.id, holdExpiresAt })
+          ),
+          holdExpiresAt,
+        });
+      } catch (error) {
+        // The hold stands; the client can still be contacted by the studio
+        logger.error('Failed to send waitlist offer', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          entryId: candidate.id,
+          service: 'WaitlistService',
+        });
+      }
+
+      return true;
+    }
+
+    return false;
+  }
+
+  private offerClosedError() {
+    return createError('This offer has expired or has already been used', 410, 'Offer expired');
+  }
+}
+
+export const waitlistService = new WaitlistService();
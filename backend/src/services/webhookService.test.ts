@@ -0,0 +1,183 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookService } from './webhookService';
+
+// A receiver on a free local port that records each request and answers with `status`
+const startReceiver = async (status = 200, reply = 'ok') => {
+  const requests: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body });
+      res.writeHead(status, { 'Content-Type': 'text/plain' });
+      res.end(reply);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+};
+
+describe('WebhookService - Signatures', () => {
+  let webhookService: WebhookService;
+  const body = JSON.stringify({ id: 'evt-1', event: 'booking.created', data: { id: 'booking-1' } });
+  const now = new Date('2026-10-24T09:00:00Z');
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  beforeEach(() => {
+    webhookService = new WebhookService();
+  });
+
+  it('should create prefixed secrets that differ every time', () => {
+    const secret = webhookService.createSecret();
+    expect(secret).toMatch(/^whsec_[A-Za-z0-9_-]{32}$/);
+    expect(webhookService.createSecret()).not.toBe(secret);
+  });
+
+  it('should sign the timestamp and body with HMAC-SHA256', () => {
+    // echo -n '<timestamp>.<body>' | openssl dgst -sha256 -hmac whsec_test
+    const signature = webhookService.sign('whsec_test', 1700000000, '{"ok":true}');
+    expect(signature).toBe('sha256=85876387ad9d6be57a04653bc0729da757049f58afb10ba6cac3bedaecf4fda3');
+  });
+
+  it('should verify a matching signature', () => {
+    const signature = webhookService.sign('whsec_test', timestamp, body);
+    expect(webhookService.verifySignature('whsec_test', signature, timestamp, body, now)).toBe(true);
+  });
+
+  it('should reject a changed body, another secret or an old timestamp', () => {
+    const signature = webhookService.sign('whsec_test', timestamp, body);
+
+    expect(webhookService.verifySignature('whsec_test', signature, timestamp, `${body} `, now)).toBe(false);
+    expect(webhookService.verifySignature('whsec_other', signature, timestamp, body, now)).toBe(false);
+    expect(webhookService.verifySignature('whsec_test', 'sha256=nope', timestamp, body, now)).toBe(false);
+    expect(webhookService.verifySignature(
+      'whsec_test', signature, timestamp, body, new Date(now.getTime() + 10 * 60 * 1000)
+    )).toBe(false);
+  });
+});
+
+describe('WebhookService - Sending to a receiver', () => {
+  let webhookService: WebhookService;
+
+  beforeEach(() => {
+    webhookService = new WebhookService();
+    // The test receivers listen on loopback
+    process.env['ALLOW_PRIVATE_NETWORK_URLS'] = 'true';
+  });
+
+  afterEach(() => {
+    delete process.env['ALLOW_PRIVATE_NETWORK_URLS'];
+  });
+
+  it('should POST the body with headers the receiver can verify', async () => {
+    const receiver = await startReceiver(200, 'thanks');
+    const body = JSON.stringify({ id: 'evt-1', event: 'inquiry.created', data: { id: 'inquiry-1' } });
+
+    try {
+      const response = await webhookService.send(receiver.url, 'whsec_test', {
+        deliveryId: 'delivery-1',
+        event: 'inquiry.created',
+        body,
+      });
+
+      expect(response).toEqual({ status: 200, body: 'thanks', durationMs: expect.any(Number) });
+      expect(receiver.requests).toHaveLength(1);
+
+      const [request] = receiver.requests;
+      expect(request!.body).toBe(body);
+      expect(request!.headers['content-type']).toBe('application/json');
+      expect(request!.headers['x-webhook-event']).toBe('inquiry.created');
+      expect(request!.headers['x-webhook-delivery']).toBe('delivery-1');
+      expect(webhookService.verifySignature(
+        'whsec_test',
+        String(request!.headers['x-webhook-signature']),
+        Number(request!.headers['x-webhook-timestamp']),
+        request!.body
+      )).toBe(true);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('should return error responses rather than throw', async () => {
+    const receiver = await startReceiver(500, 'x'.repeat(5000));
+
+    try {
+      const response = await webhookService.send(receiver.url, 'whsec_test', {
+        deliveryId: 'delivery-2',
+        event: 'booking.cancelled',
+        body: '{}',
+      });
+
+      expect(response.status).toBe(500);
+      expect(response.body).toHaveLength(1000);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('should stop reading a response at the size it keeps', async () => {
+    // Answers with an endless body
+    const server = http.createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      const timer = setInterval(() => res.write('x'.repeat(600)), 10);
+      res.on('close', () => clearInterval(timer));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const response = await webhookService.send(`http://127.0.0.1:${port}/hooks`, 'whsec_test', {
+        deliveryId: 'delivery-large',
+        event: 'booking.created',
+        body: '{}',
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toBe('x'.repeat(1000));
+    } finally {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+
+  it('should throw when the receiver cannot be reached', async () => {
+    const receiver = await startReceiver();
+    await receiver.close();
+
+    await expect(webhookService.send(receiver.url, 'whsec_test', {
+      deliveryId: 'delivery-3',
+      event: 'booking.created',
+      body: '{}',
+    })).rejects.toThrow();
+  });
+
+  it('should refuse receivers on private networks unless allowed', async () => {
+    delete process.env['ALLOW_PRIVATE_NETWORK_URLS'];
+    const receiver = await startReceiver();
+
+    try {
+      await expect(webhookService.send(receiver.url, 'whsec_test', {
+        deliveryId: 'delivery-4',
+        event: 'booking.created',
+        body: '{}',
+      })).rejects.toThrow('127.0.0.1 is not a public address');
+      await expect(webhookService.send('http://169.254.169.254/latest/meta-data', 'whsec_test', {
+        deliveryId: 'delivery-5',
+        event: 'booking.created',
+        body: '{}',
+      })).rejects.toThrow('169.254.169.254 is not a public address');
+      expect(receiver.requests).toHaveLength(0);
+    } finally {
+      await receiver.close();
+    }
+  });
+});
@@ -0,0 +1,519 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma, ContactInquiry, WebhookDelivery } from '@prisma/client';
+import { Response } from 'undici';
+import logger, { logSecurityEvent } from '../config/logger';
+import { WEBHOOK_PING_EVENT, WebhookEvent } from '../config/webhookEvents';
+import { createError } from '../middleware/errorHandler';
+import { User } from '../types/auth';
+import { fetchPublic } from '../utils/networkGuard';
+import { jobQueueService } from './jobQueueService';
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 20;
+// Deliveries still 'sending' after this long belong to a worker that died and are tried again
+const STALE_SENDING_MS = 15 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// How much of a receiver's response, in bytes, is read and kept in the delivery log
+const RESPONSE_BODY_LIMIT = 1000;
+// Receivers should refuse signatures older than this, so captured requests can't be replayed
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const SECRET_PREFIX = 'whsec_';
+
+export interface WebhookSubscriptionInput {
+  url: string;
+  description?: string | null | undefined;
+  events: WebhookEvent[];
+  active?: boolean | undefined;
+}
+
+export interface WebhookDeliveryFilters {
+  status?: string;
+  page?: number;
+  limit?: number;
+}
+
+// What a receiver answered to one delivery attempt
+export interface WebhookResponse {
+  status: number;
+  body: string;
+  durationMs: number;
+}
+
+// The parts of a request a receiver needs to check its signature
+export interface WebhookRequest {
+  deliveryId: string;
+  event: string;
+  body: string;
+  timestamp?: number;
+}
+
+// Subscriptions as listed in the admin area; the secret is only shown on create and rotate
+const SUBSCRIPTION_SELECT = {
+  id: true,
+  url: true,
+  description: true,
+  events: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: { select: { id: true, email: true, firstName: true, lastName: true } },
+} as const;
+
+const DELIVERY_LIST_SELECT = {
+  id: true,
+  subscriptionId: true,
+  event: true,
+  payload: true,
+  status: true,
+  attempts: true,
+  maxAttempts: true,
+  nextAttemptAt: true,
+  responseStatus: true,
+  responseBody: true,
+  durationMs: true,
+  lastError: true,
+  deliveredAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Outbound webhooks: other systems subscribe a URL to booking, inquiry and portfolio
+ * events and receive a signed JSON POST for each one. Deliveries go through an outbox
+ * like email does, so a receiver that is down gets the event once it is back.
+ */
+export class WebhookService {
+  private readonly USER_AGENT = 'DerjiProductions-Webhooks/1.0';
+
+  createSecret(): string {
+    return `${SECRET_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+  }
+
+  /**
+   * The X-Webhook-Signature value for a request body: an HMAC-SHA256 of the timestamp
+   * and the raw body, joined by a dot
+   */
+  sign(secret: string, timestamp: number, body: string): string {
+    return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  }
+
+  /**
+   * What a receiver does with the X-Webhook-Signature and X-Webhook-Timestamp headers.
+   * Kept here so the documented scheme and the one we send can't drift apart.
+   */
+  verifySignature(
+    secret: string,
+    signature: string,
+    timestamp: number,
+    body: string,
+    now: Date = new Date()
+  ): boolean {
+    if (!Number.isFinite(timestamp) || Math.abs(now.getTime() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(secret, timestamp, body));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * POST a signed body to a receiver. Any answer comes back, whatever its status;
+   * this only throws when the receiver can't be reached, takes too long or is on
+   * a private network.
+   */
+  async send(url: string, secret: string, request: WebhookRequest): Promise<WebhookResponse> {
+    const timestamp = request.timestamp ?? Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+
+    const response = await fetchPublic(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': this.USER_AGENT,
+        'X-Webhook-Event': request.event,
+        'X-Webhook-Delivery': request.deliveryId,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': this.sign(secret, timestamp, request.body),
+      },
+      body: request.body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    const body = await this.readResponseBody(response).catch(() => '');
+
+    return {
+      status: response.status,
+      body,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  /**
+   * Queue an event for every active subscription to it and start delivering. Never
+   * throws: a webhook problem must not fail the booking or inquiry that caused it.
+   */
+  async dispatch(event: WebhookEvent, data: unknown): Promise<void> {
+    try {
+      const subscriptions = await prisma.webhookSubscription.findMany({
+        where: { active: true, events: { array_contains: [event] } },
+        select: { id: true },
+      });
+
+      if (subscriptions.length === 0) {
+        return;
+      }
+
+      const payload = this.buildPayload(event, data);
+      const deliveries = await Promise.all(subscriptions.map(subscription =>
+        prisma.webhookDelivery.create({
+          data: { subscriptionId: subscription.id, event, payload },
+          select: { id: true },
+        })
+      ));
+
+      // Slow receivers shouldn't hold up the request that raised the event
+      for (const delivery of deliveries) {
+        this.deliver(delivery.id).catch(error => {
+          logger.error('Failed to deliver webhook', {
+            deliveryId: delivery.id,
+            event,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            service: 'WebhookService',
+          });
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to queue webhook deliveries', {
+        event,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        service: 'WebhookService',
+      });
+    }
+  }
+
+  /**
+   * Tell subscribers about an inquiry the studio can see: when it arrives, or when
+   * spam review releases one that was held back. The spam verdict stays private.
+   */
+  async notifyInquiryCreated(inquiry: ContactInquiry): Promise<void> {
+    await this.dispatch('inquiry.created', {
+      id: inquiry.id,
+      name: inquiry.name,
+      email: inquiry.email,
+      phone: inquiry.phone,
+      subject: inquiry.subject,
+      message: inquiry.message,
+      serviceInterest: inquiry.serviceInterest,
+      source: inquiry.source,
+      status: inquiry.status,
+      clientId: inquiry.clientId,
+      createdAt: inquiry.createdAt,
+    });
+  }
+
+  /**
+   * Deliver queued webhooks whose next attempt is due. Returns the number attempted.
+   */
+  async processDue(now: Date = new Date()): Promise<number> {
+    await prisma.webhookDelivery.updateMany({
+      where: { status: 'sending', updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) } },
+      data: { status: 'queued' },
+    });
+
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: 'queued', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: BATCH_SIZE,
+      select: { id: true },
+    });
+
+    for (const { id } of due) {
+      await this.deliver(id);
+    }
+
+    return due.length;
+  }
+
+  async list() {
+    return prisma.webhookSubscription.findMany({
+      select: SUBSCRIPTION_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async get(id: string) {
+    const subscription = await prisma.webhookSubscription.findUnique({
+      where: { id },
+      select: SUBSCRIPTION_SELECT,
+    });
+    if (!subscription) {
+      throw createError('Webhook with the specified ID does not exist', 404, 'Webhook not found');
+    }
+    return subscription;
+  }
+
+  // Returns the signing secret alongside the subscription; it isn't listed afterwards
+  async create(input: WebhookSubscriptionInput, actor: User) {
+    const secret = this.createSecret();
+    const webhook = await prisma.webhookSubscription.create({
+      data: {
+        url: input.url,
+        description: input.description ?? null,
+        events: [...new Set(input.events)],
+        active: input.active ?? true,
+        secret,
+        createdById: actor.id,
+      },
+      select: SUBSCRIPTION_SELECT,
+    });
+
+    logSecurityEvent('webhook_created', 'medium', {
+      webhookId: webhook.id,
+      url: webhook.url,
+      events: webhook.events,
+      createdBy: actor.id,
+    });
+
+    return { webhook, secret };
+  }
+
+  async update(id: string, input: Partial<WebhookSubscriptionInput>) {
+    await this.get(id);
+
+    return prisma.webhookSubscription.update({
+      where: { id },
+      data: {
+        ...(input.url !== undefined && { url: input.url }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.events !== undefined && { events: [...new Set(input.events)] }),
+        ...(input.active !== undefined && { active: input.active }),
+      },
+      select: SUBSCRIPTION_SELECT,
+    });
+  }
+
+  // Deleting a subscription drops its queued deliveries and its log with it
+  async remove(id: string, actor: User): Promise<void> {
+    await this.get(id);
+    await prisma.webhookSubscription.delete({ where: { id } });
+
+    logSecurityEvent('webhook_deleted', 'medium', { webhookId: id, deletedBy: actor.id });
+  }
+
+  // Deliveries already queued are signed with the new secret when they are next tried
+  async rotateSecret(id: string, actor: User) {
+    await this.get(id);
+
+    const secret = this.createSecret();
+    const webhook = await prisma.webhookSubscription.update({
+      where: { id },
+      data: { secret },
+      select: SUBSCRIPTION_SELECT,
+    });
+
+    logSecurityEvent('webhook_secret_rotated', 'medium', { webhookId: id, rotatedBy: actor.id });
+
+    return { webhook, secret };
+  }
+
+  /**
+   * Send a ping to the subscription now, so its owner can check the receiver and
+   * their signature check. Goes through the delivery log like any other event.
+   */
+  async sendTest(id: string) {
+    const subscription = await this.get(id);
+
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        subscriptionId: subscription.id,
+        event: WEBHOOK_PING_EVENT,
+        payload: this.buildPayload(WEBHOOK_PING_EVENT, { webhookId: subscription.id }),
+        // A failed test should be seen straight away, not retried in the background
+        maxAttempts: 1,
+      },
+      select: { id: true },
+    });
+
+    return (await this.deliver(delivery.id, true)) ?? this.getDelivery(delivery.id);
+  }
+
+  async getDeliveries(subscriptionId: string, filters: WebhookDeliveryFilters = {}) {
+    await this.get(subscriptionId);
+
+    const page = filters.page ?? 1;
+    const limit = filters.limit ?? 20;
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      subscriptionId,
+      ...(filters.status && { status: filters.status }),
+    };
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        select: DELIVERY_LIST_SELECT,
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return {
+      deliveries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getDelivery(id: string) {
+    const delivery = await prisma.webhookDelivery.findUnique({ where: { id }, select: DELIVERY_LIST_SELECT });
+    if (!delivery) {
+      throw createError('Webhook delivery with the specified ID does not exist', 404, 'Delivery not found');
+    }
+    return delivery;
+  }
+
+  /**
+   * Send a finished delivery again now, with a fresh set of attempts. The payload is
+   * unchanged, so receivers can tell it apart from a new event by its id.
+   */
+  async redeliver(id: string) {
+    const delivery = await this.getDelivery(id);
+
+    if (delivery.status !== 'failed' && delivery.status !== 'delivered') {
+      throw createError('This delivery is still being attempted', 409, 'Delivery in progress');
+    }
+
+    await prisma.webhookDelivery.update({
+      where: { id },
+      data: { status: 'queued', attempts: 0, nextAttemptAt: new Date(), lastError: null },
+    });
+
+    return (await this.deliver(id, true)) ?? this.getDelivery(id);
+  }
+
+  /**
+   * Deliver due webhooks on every scheduler tick
+   */
+  register(): void {
+    jobQueueService.addPeriodicTask('webhooks', now => this.processDue(now).then(() => undefined));
+  }
+
+  // The body every subscriber to an event receives; dates become ISO strings
+  // The start of a response body; the rest is never downloaded
+  private async readResponseBody(response: Response): Promise<string> {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const reader = response.body?.getReader();
+    while (reader && size < RESPONSE_BODY_LIMIT) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      size += value.byteLength;
+      chunks.push(value);
+    }
+
+    await reader?.cancel();
+    return Buffer.concat(chunks).subarray(0, RESPONSE_BODY_LIMIT).toString('utf8');
+  }
+
+  private buildPayload(event: string, data: unknown): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify({
+      id: crypto.randomUUID(),
+      event,
+      createdAt: new Date(),
+      data,
+    }));
+  }
+
+  /**
+   * Make one delivery attempt. Returns the updated delivery, or null when another
+   * worker got to it first. Deliveries for a paused subscription wait for it to be
+   * turned back on, unless `force` is set by an admin action.
+   */
+  private async deliver(id: string, force = false): Promise<WebhookDelivery | null> {
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: { id, status: 'queued', ...(!force && { subscription: { active: true } }) },
+      data: { status: 'sending', attempts: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+      where: { id },
+      include: { subscription: { select: { url: true, secret: true } } },
+    });
+
+    let response: WebhookResponse | null = null;
+    let reason: string;
+
+    try {
+      response = await this.send(delivery.subscription.url, delivery.subscription.secret, {
+        deliveryId: delivery.id,
+        event: delivery.event,
+        body: JSON.stringify(delivery.payload),
+      });
+
+      if (response.status >= 200 && response.status < 300) {
+        logger.info('Webhook delivered', {
+          deliveryId: delivery.id,
+          event: delivery.event,
+          url: delivery.subscription.url,
+          status: response.status,
+          service: 'WebhookService',
+        });
+
+        return prisma.webhookDelivery.update({
+          where: { id },
+          data: {
+            status: 'delivered',
+            deliveredAt: new Date(),
+            responseStatus: response.status,
+            responseBody: response.body,
+            durationMs: response.durationMs,
+            lastError: null,
+          },
+        });
+      }
+
+      reason = `Receiver responded with HTTP ${response.status}`;
+    } catch (error) {
+      reason = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    const giveUp = delivery.attempts >= delivery.maxAttempts;
+
+    logger.warn('Webhook delivery failed', {
+      deliveryId: delivery.id,
+      event: delivery.event,
+      url: delivery.subscription.url,
+      attempts: delivery.attempts,
+      willRetry: !giveUp,
+      error: reason,
+      service: 'WebhookService',
+    });
+
+    return prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        status: giveUp ? 'failed' : 'queued',
+        lastError: reason,
+        responseStatus: response?.status ?? null,
+        responseBody: response?.body ?? null,
+        durationMs: response?.durationMs ?? null,
+        ...(!giveUp && { nextAttemptAt: new Date(Date.now() + jobQueueService.getRetryDelay(delivery.attempts)) }),
+      },
+    });
+  }
+}
+
+export const webhookService = new WebhookService();
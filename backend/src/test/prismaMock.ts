@@ -0,0 +1,42 @@
+/**
+ * A stand-in for @prisma/client, for testing services without a database. Every
+ * module's `new PrismaClient()` returns the same client, whose model methods
+ * (`prisma.booking.findMany`) and client methods (`prisma.$transaction`) are
+ * jest mocks created on first use:
+ *
+ *   jest.mock('@prisma/client', () => jest.requireActual('../test/prismaMock').mockPrismaModule());
+ *
+ *   const prisma = new PrismaClient() as unknown as { booking: { findMany: jest.Mock } };
+ */
+
+const mockModel = () => {
+  const methods = new Map<string, jest.Mock>();
+  return new Proxy({}, {
+    get: (_model, method) => {
+      if (typeof method !== 'string') {
+        return undefined;
+      }
+      if (!methods.has(method)) {
+        methods.set(method, jest.fn());
+      }
+      return methods.get(method);
+    },
+  });
+};
+
+export const mockPrismaModule = () => {
+  const properties = new Map<string, unknown>();
+  const prisma = new Proxy({}, {
+    get: (_client, property) => {
+      if (typeof property !== 'string') {
+        return undefined;
+      }
+      if (!properties.has(property)) {
+        properties.set(property, property.startsWith('$') ? jest.fn() : mockModel());
+      }
+      return properties.get(property);
+    },
+  });
+
+  return { ...jest.requireActual('@prisma/client'), PrismaClient: jest.fn(() => prisma) };
+};
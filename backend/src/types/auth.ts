@@ -14,9 +14,22 @@ export interface AuthResult {
   user: User;
   accessToken: string;
   refreshToken: string;
+  refreshTokenExpiresAt: Date;
+  // Echoed in X-CSRF-Token by clients authenticated with the session cookies
+  csrfToken: string;
   expiresIn: number;
 }
 
+// Returned by login instead of tokens when the user still has to pass two-factor
+// authentication ('verify') or must set it up first ('setup')
+export interface TwoFactorChallenge {
+  twoFactor: 'verify' | 'setup';
+  challengeToken: string;
+  expiresIn: number;
+}
+
+export type LoginResult = AuthResult | TwoFactorChallenge;
+
 export interface LoginRequest {
   email: string;
   password: string;
@@ -29,10 +42,6 @@ export interface RegisterRequest {
   lastName?: string;
 }
 
-export interface RefreshTokenRequest {
-  refreshToken: string;
-}
-
 export interface ForgotPasswordRequest {
   email: string;
 }
@@ -46,9 +55,26 @@ export interface JWTPayload {
   userId: string;
   email: string;
   role: string;
-  type: 'access' | 'refresh' | 'reset';
+  sessionId: string;
+  type: 'access';
+}
+
+// The short-lived token that carries a password-checked login to its second factor
+export interface TwoFactorChallengePayload {
+  userId: string;
+  purpose: TwoFactorChallenge['twoFactor'];
+  type: 'two_factor_challenge';
+}
+
+// The API key a request was made with, instead of a session
+export interface ApiKeyPrincipal {
+  id: string;
+  name: string;
+  scopes: string[];
 }
 
 export interface AuthenticatedRequest extends Request {
   user?: User;
+  sessionId?: string;
+  apiKey?: ApiKeyPrincipal;
 }
\ No newline at end of file
@@ -20,6 +20,8 @@ export interface Service {
   basePrice?: number;
   priceType: 'fixed' | 'hourly' | 'package';
   duration?: number; // in minutes
+  setupBufferMinutes: number;
+  teardownBufferMinutes: number;
   features?: Record<string, any>;
   active: boolean;
   createdAt: Date;
@@ -34,6 +36,8 @@ export interface CreateServiceData {
   basePrice?: number;
   priceType?: 'fixed' | 'hourly' | 'package';
   duration?: number;
+  setupBufferMinutes?: number;
+  teardownBufferMinutes?: number;
   features?: Record<string, any>;
   active?: boolean;
 }
@@ -46,6 +50,8 @@ export interface UpdateServiceData {
   basePrice?: number;
   priceType?: 'fixed' | 'hourly' | 'package';
   duration?: number;
+  setupBufferMinutes?: number;
+  teardownBufferMinutes?: number;
   features?: Record<string, any>;
   active?: boolean;
 }
@@ -0,0 +1,25 @@
+import { parseCookies } from './cookies';
+
+describe('parseCookies', () => {
+  it('should read name=value pairs', () => {
+    expect(parseCookies('access_token=abc.def; theme=dark')).toEqual({
+      access_token: 'abc.def',
+      theme: 'dark',
+    });
+  });
+
+  it('should decode values and strip quotes', () => {
+    expect(parseCookies('name="a%20b"; other=%E2%9C%93')).toEqual({ name: 'a b', other: '✓' });
+  });
+
+  it('should keep the first of a repeated name and skip malformed pairs', () => {
+    expect(parseCookies('token=first; junk; token=second; bad=%E0%A4%A')).toEqual({
+      token: 'first',
+      bad: '%E0%A4%A',
+    });
+  });
+
+  it('should return nothing without a header', () => {
+    expect(parseCookies(undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  buildIcsCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsDate,
+  parseIcsDuration,
+  parseIcsEvents,
+} from './ical';
+
+describe('iCalendar - Writing and Reading', () => {
+  const event = {
+    uid: 'booking-1@derjiproductions.com',
+    sequence: 2,
+    start: new Date('2026-03-14T10:00:00.000Z'),
+    end: new Date('2026-03-14T12:00:00.000Z'),
+    summary: 'Podcast Recording',
+  };
+
+  describe('buildIcsCalendar', () => {
+    it('should write events with their UID and SEQUENCE', () => {
+      const ics = buildIcsCalendar({ method: 'REQUEST', events: [event] }, new Date('2026-03-01T00:00:00.000Z'));
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(ics).toContain('METHOD:REQUEST\r\n');
+      expect(ics).toContain('UID:booking-1@derjiproductions.com\r\n');
+      expect(ics).toContain('SEQUENCE:2\r\n');
+      expect(ics).toContain('DTSTAMP:20260301T000000Z\r\n');
+      expect(ics).toContain('DTSTART:20260314T100000Z\r\nDTEND:20260314T120000Z\r\n');
+    });
+
+    it('should write organizer, attendees and status', () => {
+      const ics = buildIcsCalendar({
+        events: [{
+          ...event,
+          status: 'CANCELLED',
+          organizer: { name: 'Derji Productions', email: 'studio@example.com' },
+          attendees: [{ name: 'Ama Mensah', email: 'ama@example.com' }],
+        }],
+      });
+
+      expect(ics).toContain('STATUS:CANCELLED');
+      expect(ics).toContain('ORGANIZER;CN="Derji Productions":mailto:studio@example.com');
+      expect(ics).toContain('ATTENDEE;CN="Ama Mensah";ROLE=REQ-PARTICIPANT');
+    });
+  });
+
+  describe('escapeIcsText', () => {
+    it('should escape separators and newlines', () => {
+      expect(escapeIcsText('Room 1, Floor 2; bring\nmics \\ cables')).toBe('Room 1\\, Floor 2\\; bring\\nmics \\\\ cables');
+    });
+  });
+
+  describe('formatIcsDate', () => {
+    it('should format instants in UTC', () => {
+      expect(formatIcsDate(new Date('2026-07-04T08:05:09.123Z'))).toBe('20260704T080509Z');
+    });
+  });
+
+  describe('foldIcsLine', () => {
+    it('should leave short lines alone', () => {
+      expect(foldIcsLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+    });
+
+    it('should keep folded lines within 75 octets without splitting characters', () => {
+      const folded = foldIcsLine(`DESCRIPTION:${'é'.repeat(100)}`);
+      const lines = folded.split('\r\n');
+
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach(line => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+      expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true);
+      expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(`DESCRIPTION:${'é'.repeat(100)}`);
+    });
+  });
+
+  describe('parseIcsDuration', () => {
+    it('should read weeks, days and times', () => {
+      expect(parseIcsDuration('PT1H30M')).toBe(90 * 60 * 1000);
+      expect(parseIcsDuration('P1D')).toBe(24 * 60 * 60 * 1000);
+      expect(parseIcsDuration('P1W')).toBe(7 * 24 * 60 * 60 * 1000);
+      expect(parseIcsDuration('nonsense')).toBeNull();
+    });
+  });
+
+  describe('parseIcsEvents', () => {
+    const wrap = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+    it('should read UTC, zoned and floating times', () => {
+      const events = parseIcsEvents(wrap(
+        'BEGIN:VEVENT', 'UID:a', 'DTSTART:20260314T100000Z', 'DTEND:20260314T110000Z', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:b', 'DTSTART;TZID=America/New_York:20260314T100000', 'DTEND;TZID=America/New_York:20260314T110000', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:c', 'DTSTART:20260314T100000', 'DURATION:PT2H', 'END:VEVENT',
+      ), 'Europe/London');
+
+      expect(events.map(e => [e.uid, e.start.toISOString(), e.end.toISOString()])).toEqual([
+        ['a', '2026-03-14T10:00:00.000Z', '2026-03-14T11:00:00.000Z'],
+        ['b', '2026-03-14T14:00:00.000Z', '2026-03-14T15:00:00.000Z'],
+        ['c', '2026-03-14T10:00:00.000Z', '2026-03-14T12:00:00.000Z'],
+      ]);
+    });
+
+    it('should block whole studio days for all-day events', () => {
+      const [event] = parseIcsEvents(wrap(
+        'BEGIN:VEVENT', 'DTSTART;VALUE=DATE:20260314', 'SUMMARY:Holiday', 'END:VEVENT',
+      ), 'Africa/Accra');
+
+      expect(event).toEqual({
+        uid: null,
+        start: new Date('2026-03-14T00:00:00.000Z'),
+        end: new Date('2026-03-15T00:00:00.000Z'),
+        summary: 'Holiday',
+      });
+    });
+
+    it('should skip cancelled and free events', () => {
+      const events = parseIcsEvents(wrap(
+        'BEGIN:VEVENT', 'DTSTART:20260314T100000Z', 'DTEND:20260314T110000Z', 'STATUS:CANCELLED', 'END:VEVENT',
+        'BEGIN:VEVENT', 'DTSTART:20260314T100000Z', 'DTEND:20260314T110000Z', 'TRANSP:TRANSPARENT', 'END:VEVENT',
+      ), 'UTC');
+
+      expect(events).toEqual([]);
+    });
+
+    it('should unfold lines and ignore nested alarms', () => {
+      const [event] = parseIcsEvents(wrap(
+        'BEGIN:VEVENT',
+        'SUMMARY:Client call\\, ',
+        ' follow-up',
+        'DTSTART:20260314T100000Z',
+        'DTEND:20260314T110000Z',
+        'BEGIN:VALARM',
+        'TRIGGER:-PT15M',
+        'DTSTART:19700101T000000Z',
+        'END:VALARM',
+        'END:VEVENT',
+      ), 'UTC');
+
+      expect(event!.summary).toBe('Client call, follow-up');
+      expect(event!.start.toISOString()).toBe('2026-03-14T10:00:00.000Z');
+    });
+
+    it('should read back calendars it wrote', () => {
+      const [parsed] = parseIcsEvents(buildIcsCalendar({ events: [event] }), 'UTC');
+
+      expect(parsed).toEqual({ uid: event.uid, start: event.start, end: event.end, summary: event.summary });
+    });
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer and reader for booking invites, the admin feed
+ * and busy times imported from external calendars.
+ */
+import { isValidTimeZone, zonedTimeToUtc, addDaysToDateKey } from './timeZone';
+
+export type IcsMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+export type IcsEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+
+export interface IcsPerson {
+  email: string;
+  name?: string;
+}
+
+export interface IcsEvent {
+  uid: string;
+  sequence: number; // must grow with every change so calendars replace the earlier copy
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status?: IcsEventStatus;
+  organizer?: IcsPerson;
+  attendees?: IcsPerson[];
+  updatedAt?: Date;
+}
+
+export interface IcsCalendar {
+  name?: string;
+  method?: IcsMethod;
+  events: IcsEvent[];
+}
+
+export interface ParsedIcsEvent {
+  uid: string | null;
+  start: Date;
+  end: Date;
+  summary: string | null;
+}
+
+const PRODUCT_ID = '-//Derji Productions//Bookings//EN';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Escape a value for a TEXT property
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME, e.g. '20260314T100000Z'
+ */
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Fold a content line so no physical line is longer than 75 octets
+ */
+export function foldIcsLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = chunks.length === 0 ? 75 : 74;
+
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+
+    current += char;
+    currentOctets += octets;
+  }
+
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+function formatPerson(property: string, person: IcsPerson, extraParams: string[] = []): string {
+  const params = [...(person.name ? [`CN=${quoteParam(person.name)}`] : []), ...extraParams];
+  return `${property}${params.map(param => `;${param}`).join('')}:mailto:${person.email}`;
+}
+
+function quoteParam(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+function buildEventLines(event: IcsEvent, stamp: Date): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatIcsDate(stamp)}`,
+    ...(event.updatedAt ? [`LAST-MODIFIED:${formatIcsDate(event.updatedAt)}`] : []),
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeIcsText(event.location)}`] : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    ...(event.status ? [`STATUS:${event.status}`] : []),
+    ...(event.organizer ? [formatPerson('ORGANIZER', event.organizer)] : []),
+    ...(event.attendees || []).map(attendee =>
+      formatPerson('ATTENDEE', attendee, ['ROLE=REQ-PARTICIPANT', 'PARTSTAT=NEEDS-ACTION', 'RSVP=FALSE'])
+    ),
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Serialise a calendar with CRLF line endings and folded lines
+ */
+export function buildIcsCalendar(calendar: IcsCalendar, stamp: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...(calendar.method ? [`METHOD:${calendar.method}`] : []),
+    ...(calendar.name ? [`X-WR-CALNAME:${escapeIcsText(calendar.name)}`] : []),
+    ...calendar.events.flatMap(event => buildEventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function unfoldLines(ics: string): string[] {
+  return ics.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(line => line.length > 0);
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colonAt = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ':' && !inQuotes) {
+      colonAt = i;
+      break;
+    }
+  }
+
+  if (colonAt === -1) {
+    return null;
+  }
+
+  const [name = '', ...rawParams] = line.slice(0, colonAt).split(';');
+  const params: Record<string, string> = {};
+  for (const rawParam of rawParams) {
+    const [key, ...rest] = rawParam.split('=');
+    if (key) {
+      params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonAt + 1) };
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Read a DATE or DATE-TIME value. Floating times and unknown TZIDs are read on the
+ * fallback zone's clock.
+ */
+function parseIcsDate(line: ContentLine, fallbackTimeZone: string): { date: Date; allDay: boolean } | null {
+  const match = line.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const dateKey = `${year}-${month}-${day}`;
+
+  if (hour === undefined || line.params['VALUE'] === 'DATE') {
+    return { date: zonedTimeToUtc(dateKey, 0, fallbackTimeZone), allDay: true };
+  }
+
+  if (utc) {
+    return {
+      date: new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second))),
+      allDay: false,
+    };
+  }
+
+  const tzid = line.params['TZID'];
+  const timeZone = tzid && isValidTimeZone(tzid) ? tzid : fallbackTimeZone;
+  const minutes = Number(hour) * 60 + Number(minute) + Number(second) / 60;
+  return { date: zonedTimeToUtc(dateKey, minutes, timeZone), allDay: false };
+}
+
+/**
+ * Length of a DURATION value in milliseconds, e.g. 'PT1H30M' or 'P1D'
+ */
+export function parseIcsDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((Number(weeks || 0) * 7 + Number(days || 0)) * 24 * 60 * 60
+    + Number(hours || 0) * 60 * 60
+    + Number(minutes || 0) * 60
+    + Number(seconds || 0)) * 1000;
+
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Busy events of an external calendar. Cancelled and transparent (free) events are
+ * left out, and recurring events only contribute their first instance.
+ */
+export function parseIcsEvents(ics: string, fallbackTimeZone: string): ParsedIcsEvent[] {
+  const events: ParsedIcsEvent[] = [];
+  let current: ContentLine[] | null = null;
+  let depth = 0; // nested components such as VALARM live inside events
+
+  for (const rawLine of unfoldLines(ics)) {
+    const line = parseContentLine(rawLine);
+    if (!line) {
+      continue;
+    }
+
+    if (line.name === 'BEGIN') {
+      if (line.value.toUpperCase() === 'VEVENT' && !current) {
+        current = [];
+        depth = 0;
+      } else if (current) {
+        depth++;
+      }
+      continue;
+    }
+
+    if (line.name === 'END' && current) {
+      if (depth > 0) {
+        depth--;
+        continue;
+      }
+
+      const event = toBusyEvent(current, fallbackTimeZone);
+      if (event) {
+        events.push(event);
+      }
+      current = null;
+      continue;
+    }
+
+    if (current && depth === 0) {
+      current.push(line);
+    }
+  }
+
+  return events;
+}
+
+function toBusyEvent(lines: ContentLine[], fallbackTimeZone: string): ParsedIcsEvent | null {
+  const find = (name: string) => lines.find(line => line.name === name);
+
+  if (find('STATUS')?.value.toUpperCase() === 'CANCELLED' || find('TRANSP')?.value.toUpperCase() === 'TRANSPARENT') {
+    return null;
+  }
+
+  const startLine = find('DTSTART');
+  const start = startLine ? parseIcsDate(startLine, fallbackTimeZone) : null;
+  if (!start) {
+    return null;
+  }
+
+  const endLine = find('DTEND');
+  const durationLine = find('DURATION');
+  let end: Date | null = endLine ? parseIcsDate(endLine, fallbackTimeZone)?.date ?? null : null;
+
+  if (!end && durationLine) {
+    const duration = parseIcsDuration(durationLine.value);
+    end = duration !== null ? new Date(start.date.getTime() + duration) : null;
+  }
+
+  if (!end && start.allDay) {
+    // An all-day event without an end covers its whole day
+    const dateKey = startLine!.value.slice(0, 8).replace(/^(\d{4})(\d{2})(\d{2})$/, '$1-$2-$3');
+    end = zonedTimeToUtc(addDaysToDateKey(dateKey, 1), 0, fallbackTimeZone);
+  }
+
+  if (!end || end <= start.date || end.getTime() - start.date.getTime() > 366 * DAY_MS) {
+    return null;
+  }
+
+  const uid = find('UID')?.value ?? null;
+  const summary = find('SUMMARY');
+
+  return {
+    uid,
+    start: start.date,
+    end,
+    summary: summary ? unescapeIcsText(summary.value) : null,
+  };
+}
@@ -0,0 +1,80 @@
+import { extractReplyText, parseAddressList, parseInboundEmail } from './inboundEmail';
+
+describe('Inbound email', () => {
+  describe('parseAddressList', () => {
+    it('should read bare and named addresses', () => {
+      expect(parseAddressList('Ama Mensah <Ama@Example.com>, kofi@example.com')).toEqual([
+        'ama@example.com',
+        'kofi@example.com',
+      ]);
+    });
+
+    it('should return nothing for a header without addresses', () => {
+      expect(parseAddressList('undisclosed-recipients:;')).toEqual([]);
+    });
+  });
+
+  describe('parseInboundEmail', () => {
+    it('should collect recipients from to, cc and the envelope', () => {
+      const email = parseInboundEmail({
+        from: 'Ama Mensah <ama@example.com>',
+        to: 'Derji Productions <hello@derjiproductions.com>',
+        cc: 'kofi@example.com',
+        envelope: JSON.stringify({ from: 'ama@example.com', to: ['replies+abc.123@derjiproductions.com'] }),
+        subject: 'Re: Wedding videography',
+        text: 'Sounds great!',
+      });
+
+      expect(email).toEqual({
+        from: 'ama@example.com',
+        recipients: ['hello@derjiproductions.com', 'kofi@example.com', 'replies+abc.123@derjiproductions.com'],
+        subject: 'Re: Wedding videography',
+        text: 'Sounds great!',
+      });
+    });
+
+    it('should fall back to the HTML body when there is no text part', () => {
+      const email = parseInboundEmail({ from: 'ama@example.com', to: 'x@example.com', html: '<p>Sounds <b>great</b>!</p>' });
+
+      expect(email?.text).toBe('Sounds great!');
+    });
+
+    it('should ignore a malformed envelope', () => {
+      const email = parseInboundEmail({ from: 'ama@example.com', to: 'x@example.com', envelope: '{oops', text: 'Hi' });
+
+      expect(email?.recipients).toEqual(['x@example.com']);
+    });
+
+    it('should reject emails without a sender', () => {
+      expect(parseInboundEmail({ to: 'x@example.com', text: 'Hi' })).toBeNull();
+    });
+  });
+
+  describe('extractReplyText', () => {
+    it('should cut the quoted history under a Gmail reply', () => {
+      const text = [
+        'Thursday works for us.',
+        '',
+        'On Mon, 5 Jan 2026 at 10:00, Derji Productions <noreply@derjiproductions.com> wrote:',
+        '> Would you like to come by the studio?',
+      ].join('\r\n');
+
+      expect(extractReplyText(text)).toBe('Thursday works for us.');
+    });
+
+    it('should handle a wrapped attribution line', () => {
+      const text = 'See you then.\n\nOn Mon, 5 Jan 2026 at 10:00, Derji Productions\n<noreply@derjiproductions.com> wrote:\n> Hi';
+
+      expect(extractReplyText(text)).toBe('See you then.');
+    });
+
+    it('should cut Outlook history and signatures', () => {
+      expect(extractReplyText('Yes please.\n\n-----Original Message-----\nFrom: Derji')).toBe('Yes please.');
+      expect(extractReplyText('Yes please.\n-- \nAma Mensah\nCEO')).toBe('Yes please.');
+    });
+
+    it('should drop inline quoted lines but keep the answers between them', () => {
+      expect(extractReplyText('> Morning or afternoon?\nMorning.\n> Indoor?\nYes, indoor.')).toBe('Morning.\nYes, indoor.');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Reads emails posted to the inbound email webhook. The payload uses the field names
+ * of SendGrid Inbound Parse (from, to, cc, subject, text, html, envelope), so local
+ * mail catchers can post the same fields as JSON.
+ */
+import { htmlToText } from './templateEngine';
+
+export interface InboundEmail {
+  from: string; // address only, lowercase
+  recipients: string[]; // every address the email was sent to, lowercase
+  subject: string;
+  text: string; // full plain-text body, quoted history included
+}
+
+// Lines that start the quoted history or signature under a reply
+const REPLY_CUT_OFF = [
+  /^On\s.+\swrote:$/, // Gmail, Apple Mail
+  /^-{2,}\s*Original Message\s*-{2,}$/i, // Outlook
+  /^_{10,}$/, // Outlook on the web, above a From: block
+  /^From:\s.+$/, // forwarded or quoted headers
+  /^--\s?$/, // signature delimiter
+];
+
+/**
+ * Addresses in a header such as 'Ama Mensah <ama@example.com>, kofi@example.com'
+ */
+export function parseAddressList(header: string): string[] {
+  return (header.match(/[^\s<>,;"']+@[^\s<>,;"']+/g) ?? []).map(address => address.toLowerCase());
+}
+
+export function parseInboundEmail(payload: Record<string, unknown>): InboundEmail | null {
+  const field = (name: string) => (typeof payload[name] === 'string' ? (payload[name] as string) : '');
+
+  const from = parseAddressList(field('from'))[0];
+  if (!from) {
+    return null;
+  }
+
+  // The envelope lists the real recipients, even when the reply address was Bcc'd
+  let envelopeTo: string[] = [];
+  try {
+    const envelope = JSON.parse(field('envelope') || '{}');
+    envelopeTo = Array.isArray(envelope.to) ? envelope.to.filter((to: unknown) => typeof to === 'string') : [];
+  } catch {
+    envelopeTo = [];
+  }
+
+  const recipients = [...new Set([
+    ...parseAddressList(field('to')),
+    ...parseAddressList(field('cc')),
+    ...envelopeTo.flatMap(parseAddressList),
+  ])];
+
+  return {
+    from,
+    recipients,
+    subject: field('subject'),
+    text: field('text') || htmlToText(field('html')),
+  };
+}
+
+/**
+ * The new part of a reply: everything above the quoted history and signature, with
+ * quoted lines dropped
+ */
+export function extractReplyText(text: string): string {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const reply: string[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = (lines[index] as string).trim();
+    // Long 'On ... wrote:' lines are often wrapped onto a second line
+    const withNext = `${line} ${(lines[index + 1] ?? '').trim()}`;
+
+    if (REPLY_CUT_OFF.some(pattern => pattern.test(line)) || (/^On\s/.test(line) && /\swrote:$/.test(withNext))) {
+      break;
+    }
+    if (!line.startsWith('>')) {
+      reply.push(lines[index] as string);
+    }
+  }
+
+  return reply.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
@@ -0,0 +1,80 @@
+import { buildMimeMessage, dotStuff, encodeHeader } from './mime';
+
+describe('MIME builder', () => {
+  const message = {
+    from: 'Derji Productions <noreply@derjiproductions.com>',
+    to: 'client@example.com',
+    subject: 'Booking confirmed',
+    html: '<p>Hello</p>',
+    text: 'Hello',
+    messageId: '123.abc@derjiproductions.com',
+    date: new Date('2026-01-05T10:00:00Z'),
+  };
+
+  const decodeParts = (mime: string) =>
+    [...mime.matchAll(/Content-Transfer-Encoding: base64\r\n(?:[^\r\n]+\r\n)*\r\n([A-Za-z0-9+/=\r\n]+?)\r\n--/g)]
+      .map(match => Buffer.from((match[1] as string).replace(/\r\n/g, ''), 'base64').toString('utf8'));
+
+  describe('encodeHeader', () => {
+    it('should leave plain ASCII alone', () => {
+      expect(encodeHeader('Booking confirmed')).toBe('Booking confirmed');
+    });
+
+    it('should encode non-ASCII values as an encoded word', () => {
+      const encoded = encodeHeader('Réservation confirmée');
+
+      expect(encoded).toMatch(/^=\?UTF-8\?B\?.+\?=$/);
+      expect(Buffer.from(encoded.slice(10, -2), 'base64').toString('utf8')).toBe('Réservation confirmée');
+    });
+
+    it('should strip line breaks so a value cannot inject headers', () => {
+      expect(encodeHeader('Hi\r\nBcc: victim@example.com')).toBe('Hi Bcc: victim@example.com');
+    });
+  });
+
+  describe('buildMimeMessage', () => {
+    it('should build a multipart/alternative message with text and HTML parts', () => {
+      const mime = buildMimeMessage(message);
+
+      expect(mime).toContain('Subject: Booking confirmed\r\n');
+      expect(mime).toContain('Message-ID: <123.abc@derjiproductions.com>\r\n');
+      expect(mime).toContain('Date: Mon, 05 Jan 2026 10:00:00 GMT\r\n');
+      expect(mime).toContain('Content-Type: multipart/alternative;');
+      expect(mime).not.toContain('multipart/mixed');
+      expect(decodeParts(mime)).toEqual(['Hello', '<p>Hello</p>']);
+    });
+
+    it('should add a Reply-To header only when one is given', () => {
+      expect(buildMimeMessage(message)).not.toContain('Reply-To:');
+      expect(buildMimeMessage({ ...message, replyTo: 'replies+abc@derjiproductions.com' }))
+        .toContain('Reply-To: replies+abc@derjiproductions.com\r\n');
+    });
+
+    it('should only use CRLF line endings', () => {
+      expect(buildMimeMessage(message)).not.toMatch(/[^\r]\n/);
+    });
+
+    it('should wrap the body in multipart/mixed when there are attachments', () => {
+      const mime = buildMimeMessage({
+        ...message,
+        attachments: [{ content: Buffer.from('BEGIN:VCALENDAR').toString('base64'), filename: 'booking.ics', type: 'text/calendar' }],
+      });
+
+      expect(mime).toContain('Content-Type: multipart/mixed;');
+      expect(mime).toContain('Content-Disposition: attachment; filename="booking.ics"');
+      expect(decodeParts(mime)).toContain('BEGIN:VCALENDAR');
+    });
+
+    it('should keep base64 lines within 76 characters', () => {
+      const mime = buildMimeMessage({ ...message, html: `<p>${'x'.repeat(500)}</p>` });
+
+      expect(mime.split('\r\n').filter(line => /^[A-Za-z0-9+/=]{77,}$/.test(line))).toEqual([]);
+    });
+  });
+
+  describe('dotStuff', () => {
+    it('should double dots at the start of lines only', () => {
+      expect(dotStuff('.hidden\r\nnot.this\r\n..two')).toBe('..hidden\r\nnot.this\r\n...two');
+    });
+  });
+});
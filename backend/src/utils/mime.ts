@@ -0,0 +1,107 @@
+/**
+ * Builds RFC 5322 / MIME messages for transports that speak SMTP. Lines end in CRLF
+ * and bodies are base64 encoded, so any content survives 7-bit relays.
+ */
+
+export interface MimeAttachment {
+  content: string; // base64
+  filename: string;
+  type: string;
+}
+
+export interface MimeMessage {
+  from: string;
+  to: string;
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text: string;
+  messageId: string; // without angle brackets, e.g. '123.abc@derjiproductions.com'
+  date?: Date;
+  attachments?: MimeAttachment[];
+}
+
+const CRLF = '\r\n';
+
+function wrapBase64(base64: string): string {
+  return (base64.match(/.{1,76}/g) ?? []).join(CRLF);
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded word when it is not plain ASCII, and
+ * drop line breaks so a value can never start another header
+ */
+export function encodeHeader(value: string): string {
+  const flat = value.replace(/[\r\n]+/g, ' ');
+
+  if (/^[\x20-\x7e]*$/.test(flat)) {
+    return flat;
+  }
+
+  return `=?UTF-8?B?${Buffer.from(flat, 'utf8').toString('base64')}?=`;
+}
+
+function base64Part(contentType: string, content: string, extraHeaders: string[] = []): string {
+  return [
+    `Content-Type: ${contentType}`,
+    'Content-Transfer-Encoding: base64',
+    ...extraHeaders,
+    '',
+    wrapBase64(content),
+  ].join(CRLF);
+}
+
+function multipart(boundary: string, parts: string[]): string {
+  return [
+    ...parts.map(part => `--${boundary}${CRLF}${part}`),
+    `--${boundary}--`,
+  ].join(CRLF);
+}
+
+export function buildMimeMessage(message: MimeMessage): string {
+  const boundary = `=_${message.messageId.replace(/[^\w]/g, '')}`;
+  const utf8 = (text: string) => Buffer.from(text, 'utf8').toString('base64');
+
+  const alternative = [
+    `Content-Type: multipart/alternative; boundary="${boundary}_alt"`,
+    '',
+    multipart(`${boundary}_alt`, [
+      base64Part('text/plain; charset=utf-8', utf8(message.text)),
+      base64Part('text/html; charset=utf-8', utf8(message.html)),
+    ]),
+  ].join(CRLF);
+
+  const attachments = message.attachments ?? [];
+  const body = attachments.length === 0
+    ? alternative
+    : [
+      `Content-Type: multipart/mixed; boundary="${boundary}_mixed"`,
+      '',
+      multipart(`${boundary}_mixed`, [
+        alternative,
+        ...attachments.map(attachment =>
+          base64Part(`${attachment.type}; name="${attachment.filename}"`, attachment.content.replace(/\s+/g, ''), [
+            `Content-Disposition: attachment; filename="${attachment.filename}"`,
+          ])
+        ),
+      ]),
+    ].join(CRLF);
+
+  return [
+    `From: ${encodeHeader(message.from)}`,
+    `To: ${encodeHeader(message.to)}`,
+    ...(message.replyTo ? [`Reply-To: ${encodeHeader(message.replyTo)}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${(message.date ?? new Date()).toUTCString()}`,
+    `Message-ID: <${message.messageId}>`,
+    'MIME-Version: 1.0',
+    body,
+  ].join(CRLF) + CRLF;
+}
+
+/**
+ * Escape lines starting with a dot so they cannot end the SMTP DATA section early
+ */
+export function dotStuff(message: string): string {
+  return message.replace(/^\./gm, '..');
+}
@@ -0,0 +1,50 @@
+import { tokenize, spamProbability, TokenCounts } from './naiveBayes';
+
+describe('naiveBayes', () => {
+  describe('tokenize', () => {
+    it('should return distinct lowercase words', () => {
+      expect(tokenize('Wedding photos, WEDDING video and a drone')).toEqual([
+        'wedding',
+        'photos',
+        'video',
+        'and',
+        'drone',
+      ]);
+    });
+
+    it('should add the hosts of links', () => {
+      expect(tokenize('Visit https://Cheap-Pills.example/buy now')).toContain('host:cheap-pills.example');
+    });
+
+    it('should skip single characters and very long words', () => {
+      expect(tokenize(`a ${'x'.repeat(31)} ok`)).toEqual(['ok']);
+    });
+  });
+
+  describe('spamProbability', () => {
+    const counts = new Map<string, TokenCounts>([
+      ['casino', { spam: 9, ham: 0 }],
+      ['bonus', { spam: 8, ham: 1 }],
+      ['wedding', { spam: 0, ham: 9 }],
+      ['photography', { spam: 1, ham: 8 }],
+    ]);
+    const documents = { spam: 10, ham: 10 };
+
+    it('should be null until both spam and ham have been trained', () => {
+      expect(spamProbability(['casino'], counts, { spam: 10, ham: 0 })).toBeNull();
+      expect(spamProbability(['casino'], counts, { spam: 0, ham: 10 })).toBeNull();
+    });
+
+    it('should score words seen mostly in spam as spam', () => {
+      expect(spamProbability(['casino', 'bonus'], counts, documents)).toBeGreaterThan(0.95);
+    });
+
+    it('should score words seen mostly in ham as ham', () => {
+      expect(spamProbability(['wedding', 'photography'], counts, documents)).toBeLessThan(0.05);
+    });
+
+    it('should be undecided about unseen words', () => {
+      expect(spamProbability(['tripod'], counts, documents)).toBe(0.5);
+    });
+  });
+});
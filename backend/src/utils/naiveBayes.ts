@@ -0,0 +1,72 @@
+/**
+ * Naive-Bayes spam classification over the words of a submission. Counts are kept
+ * per word: how many spam and how many legitimate ('ham') submissions contained it.
+ */
+
+export interface TokenCounts {
+  spam: number;
+  ham: number;
+}
+
+// Submissions the classifier has been trained on, per label
+export interface DocumentCounts {
+  spam: number;
+  ham: number;
+}
+
+const MIN_TOKEN_LENGTH = 2;
+const MAX_TOKEN_LENGTH = 30;
+
+// Tokens the probability is computed from: the ones that say the most either way
+const MAX_INTERESTING_TOKENS = 30;
+
+/**
+ * Distinct lowercase words and link hosts of a text. Each word counts once, however
+ * often it is repeated.
+ */
+export function tokenize(text: string): string[] {
+  const hosts = (text.match(/https?:\/\/[^\s/]+/gi) ?? []).map(link => `host:${link.split('//')[1]?.toLowerCase()}`);
+  const words = (text.toLowerCase().match(/[a-z0-9$€£']+/g) ?? [])
+    .map(word => word.replace(/^'+|'+$/g, ''))
+    .filter(word => word.length >= MIN_TOKEN_LENGTH && word.length <= MAX_TOKEN_LENGTH);
+
+  return [...new Set([...words, ...hosts])];
+}
+
+/**
+ * Probability that a submission is spam, from how often its words appeared in
+ * trained spam and ham. Null until both labels have been trained at least once.
+ */
+export function spamProbability(
+  tokens: string[],
+  counts: Map<string, TokenCounts>,
+  documents: DocumentCounts
+): number | null {
+  if (documents.spam === 0 || documents.ham === 0) {
+    return null;
+  }
+
+  // Laplace-smoothed P(spam | word), pulled towards 0.5 for rarely seen words
+  const wordProbabilities = tokens
+    .map(token => counts.get(token))
+    .filter((count): count is TokenCounts => !!count && count.spam + count.ham > 0)
+    .map(count => {
+      const inSpam = (count.spam + 1) / (documents.spam + 2);
+      const inHam = (count.ham + 1) / (documents.ham + 2);
+      const probability = inSpam / (inSpam + inHam);
+      const seen = count.spam + count.ham;
+      return (0.5 + seen * probability) / (1 + seen);
+    })
+    .sort((a, b) => Math.abs(b - 0.5) - Math.abs(a - 0.5))
+    .slice(0, MAX_INTERESTING_TOKENS);
+
+  if (wordProbabilities.length === 0) {
+    return 0.5;
+  }
+
+  // Combine in log space so many words do not underflow
+  const logSpam = wordProbabilities.reduce((sum, p) => sum + Math.log(p), 0);
+  const logHam = wordProbabilities.reduce((sum, p) => sum + Math.log(1 - p), 0);
+
+  return 1 / (1 + Math.exp(logHam - logSpam));
+}
@@ -0,0 +1,113 @@
+import dns from 'dns';
+import { BlockedAddressError, fetchPublic, isBlockedHost, isBlockedUrl, isPublicAddress, publicLookup } from './networkGuard';
+
+const lookup = (hostname: string, options: dns.LookupOptions = {}) =>
+  new Promise<unknown[]>((resolve, reject) => {
+    publicLookup(hostname, options, (error: Error | null, ...result: unknown[]) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result);
+      }
+    });
+  });
+
+describe('networkGuard', () => {
+  afterEach(() => {
+    delete process.env['ALLOW_PRIVATE_NETWORK_URLS'];
+    jest.restoreAllMocks();
+  });
+
+  describe('isPublicAddress', () => {
+    it('should accept public IPv4 and IPv6 addresses', () => {
+      expect(isPublicAddress('93.184.216.34')).toBe(true);
+      expect(isPublicAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(true);
+    });
+
+    it('should refuse loopback, private, link-local and unspecified addresses', () => {
+      for (const address of [
+        '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.10', '169.254.169.254',
+        '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1',
+      ]) {
+        expect(isPublicAddress(address)).toBe(false);
+      }
+    });
+
+    it('should judge IPv4-mapped IPv6 addresses by the IPv4 address', () => {
+      expect(isPublicAddress('::ffff:127.0.0.1')).toBe(false);
+      expect(isPublicAddress('::ffff:a9fe:a9fe')).toBe(false);
+      expect(isPublicAddress('::ffff:93.184.216.34')).toBe(true);
+    });
+
+    it('should refuse anything that is not an IP address', () => {
+      expect(isPublicAddress('example.com')).toBe(false);
+    });
+  });
+
+  describe('isBlockedHost', () => {
+    it('should block localhost and private IP literals', () => {
+      expect(isBlockedHost('localhost')).toBe(true);
+      expect(isBlockedHost('api.localhost')).toBe(true);
+      expect(isBlockedHost('169.254.169.254')).toBe(true);
+      expect(isBlockedHost('[::1]')).toBe(true);
+    });
+
+    it('should leave names and public addresses to be checked on connect', () => {
+      expect(isBlockedHost('hooks.example.com')).toBe(false);
+      expect(isBlockedHost('93.184.216.34')).toBe(false);
+    });
+
+    it('should allow private hosts behind the development setting', () => {
+      process.env['ALLOW_PRIVATE_NETWORK_URLS'] = 'true';
+      expect(isBlockedHost('127.0.0.1')).toBe(false);
+    });
+
+    it('should ignore the development setting in production', () => {
+      process.env['ALLOW_PRIVATE_NETWORK_URLS'] = 'true';
+      jest.replaceProperty(process.env, 'NODE_ENV', 'production');
+      expect(isBlockedHost('127.0.0.1')).toBe(true);
+    });
+  });
+
+  describe('isBlockedUrl', () => {
+    it('should check the host of any URL, calendar subscriptions included', () => {
+      expect(isBlockedUrl('webcal://127.0.0.1/busy.ics')).toBe(true);
+      expect(isBlockedUrl('https://calendar.example.com/busy.ics')).toBe(false);
+    });
+
+    it('should leave URLs that do not parse to other validation', () => {
+      expect(isBlockedUrl('not a url')).toBe(false);
+    });
+  });
+
+  describe('publicLookup', () => {
+    const resolveTo = (...addresses: dns.LookupAddress[]) => {
+      jest.spyOn(dns, 'lookup').mockImplementation(((_hostname: string, _options: unknown, callback: Function) => {
+        callback(null, addresses);
+      }) as never);
+    };
+
+    it('should pass public addresses through', async () => {
+      resolveTo({ address: '93.184.216.34', family: 4 });
+
+      await expect(lookup('hooks.example.com')).resolves.toEqual(['93.184.216.34', 4]);
+      await expect(lookup('hooks.example.com', { all: true }))
+        .resolves.toEqual([[{ address: '93.184.216.34', family: 4 }]]);
+    });
+
+    it('should refuse a name with any private address', async () => {
+      resolveTo({ address: '93.184.216.34', family: 4 }, { address: '10.0.0.5', family: 4 });
+
+      await expect(lookup('rebind.example.com')).rejects.toThrow(BlockedAddressError);
+      await expect(lookup('rebind.example.com')).rejects.toThrow('rebind.example.com resolves to 10.0.0.5');
+    });
+  });
+
+  describe('fetchPublic', () => {
+    it('should refuse other schemes and private literals before connecting', async () => {
+      await expect(fetchPublic('file:///etc/passwd')).rejects.toThrow(BlockedAddressError);
+      await expect(fetchPublic('http://169.254.169.254/latest/meta-data')).rejects.toThrow(BlockedAddressError);
+      await expect(fetchPublic('http://localhost:5432/')).rejects.toThrow(BlockedAddressError);
+    });
+  });
+});
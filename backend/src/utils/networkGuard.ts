@@ -0,0 +1,160 @@
+/**
+ * Outbound requests to URLs that admins type in (webhook receivers, calendar
+ * subscriptions) must not reach the server's own network: loopback, private
+ * ranges, link-local cloud metadata (169.254.169.254) and the like. Hosts are
+ * checked when the connection is made, so a name that resolves somewhere public
+ * when saved and privately later is still refused.
+ */
+
+import dns from 'dns';
+import net, { LookupFunction } from 'net';
+import { Agent, fetch, RequestInit, Response } from 'undici';
+
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Addresses no outside service lives at
+const BLOCKED = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24], // documentation
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+] as const) {
+  BLOCKED.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [
+  ['::', 128], // unspecified
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64, which reaches IPv4 addresses through a gateway
+  ['2001:db8::', 32], // documentation
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  BLOCKED.addSubnet(prefix, bits, 'ipv6');
+}
+
+// Thrown when a URL leads to an address outbound requests may not reach
+export class BlockedAddressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedAddressError';
+  }
+}
+
+/**
+ * Local receivers are for development only: ALLOW_PRIVATE_NETWORK_URLS is ignored
+ * in production
+ */
+export function allowsPrivateAddresses(): boolean {
+  return process.env['ALLOW_PRIVATE_NETWORK_URLS'] === 'true' && process.env['NODE_ENV'] !== 'production';
+}
+
+/**
+ * Whether an IP address is on the public internet. IPv4-mapped IPv6 addresses
+ * (::ffff:127.0.0.1) are judged by the IPv4 address they carry.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return false;
+  }
+
+  return !BLOCKED.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Whether a URL's host is plainly off limits without looking it up: an IP address
+ * outside the public internet, or localhost. Names that resolve to such addresses
+ * are caught when connecting.
+ */
+export function isBlockedHost(hostname: string): boolean {
+  if (allowsPrivateAddresses()) {
+    return false;
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return true;
+  }
+
+  return net.isIP(host) !== 0 && !isPublicAddress(host);
+}
+
+// isBlockedHost for a whole URL; one that doesn't parse is left to the caller's validation
+export function isBlockedUrl(url: string): boolean {
+  try {
+    return isBlockedHost(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * dns.lookup for outbound sockets that fails when the name resolves to any
+ * address outside the public internet
+ */
+export const publicLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: unknown[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error);
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked) {
+      callback(new BlockedAddressError(`${hostname} resolves to ${blocked.address}, which is not a public address`));
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0]!.address, addresses[0]!.family);
+    }
+  });
+}) as LookupFunction;
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * fetch() for admin-supplied URLs. Every hop, redirects included, must be HTTP(S)
+ * on a public address; redirects are followed here so each one is checked.
+ */
+export async function fetchPublic(url: string, init: RequestInit = {}): Promise<Response> {
+  const follow = (init.redirect ?? 'follow') === 'follow';
+  const dispatcher = allowsPrivateAddresses() ? undefined : publicAgent;
+  let target = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      throw new BlockedAddressError(`Only http and https URLs can be fetched, not ${target.protocol}`);
+    }
+    if (isBlockedHost(target.hostname)) {
+      throw new BlockedAddressError(`${target.hostname} is not a public address`);
+    }
+
+    const response = await fetch(target, { ...init, redirect: 'manual', ...(dispatcher && { dispatcher }) });
+    const location = response.headers.get('location');
+    if (!follow || !REDIRECT_STATUSES.has(response.status) || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error('Too many redirects');
+    }
+    target = new URL(location, target);
+  }
+}
@@ -0,0 +1,31 @@
+import { leadingZeroBits, meetsDifficulty, solve } from './proofOfWork';
+
+describe('proofOfWork', () => {
+  describe('leadingZeroBits', () => {
+    it('should count zero bits across bytes', () => {
+      expect(leadingZeroBits(Uint8Array.from([0xff]))).toBe(0);
+      expect(leadingZeroBits(Uint8Array.from([0x01, 0xff]))).toBe(7);
+      expect(leadingZeroBits(Uint8Array.from([0x00, 0x10]))).toBe(11);
+      expect(leadingZeroBits(Uint8Array.from([0x00, 0x00]))).toBe(16);
+    });
+  });
+
+  describe('solve', () => {
+    it('should find a solution that meets the difficulty', () => {
+      const solution = solve('challenge-token', 10);
+
+      expect(meetsDifficulty('challenge-token', solution, 10)).toBe(true);
+    });
+
+    it('should reject solutions short of the difficulty', () => {
+      const solution = solve('challenge-token', 8);
+
+      expect(meetsDifficulty('challenge-token', solution, 8)).toBe(true);
+      expect(meetsDifficulty('challenge-token', solution, 20)).toBe(false);
+    });
+
+    it('should accept anything at difficulty 0', () => {
+      expect(meetsDifficulty('challenge-token', 'anything', 0)).toBe(true);
+    });
+  });
+});
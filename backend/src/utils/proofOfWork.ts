@@ -0,0 +1,42 @@
+/**
+ * Hashcash-style proof of work: a solution is any string that, appended to the
+ * challenge, gives a SHA-256 hash starting with `difficulty` zero bits. Finding one
+ * takes about 2^difficulty hashes; checking it takes one.
+ */
+
+import crypto from 'crypto';
+
+export function leadingZeroBits(hash: Uint8Array): number {
+  let bits = 0;
+
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+
+  return bits;
+}
+
+export function hashSolution(challenge: string, solution: string): Buffer {
+  return crypto.createHash('sha256').update(`${challenge}:${solution}`).digest();
+}
+
+export function meetsDifficulty(challenge: string, solution: string, difficulty: number): boolean {
+  return leadingZeroBits(hashSolution(challenge, solution)) >= difficulty;
+}
+
+/**
+ * Find a solution by counting up from 0. Browsers do the same in a web worker; this
+ * one is for tests and scripts.
+ */
+export function solve(challenge: string, difficulty: number): string {
+  for (let counter = 0; ; counter++) {
+    const solution = counter.toString(16);
+    if (meetsDifficulty(challenge, solution, difficulty)) {
+      return solution;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import {
+  SafeHtml,
+  TemplateSyntaxError,
+  escapeHtml,
+  htmlTemplateEngine,
+  htmlToText,
+  textTemplateEngine,
+} from './templateEngine';
+
+describe('Template engine', () => {
+  const render = (source: string, context: Record<string, unknown>) => htmlTemplateEngine.compile(source)(context);
+
+  describe('values', () => {
+    it('should escape values in HTML templates', () => {
+      expect(render('<p>{{ name }}</p>', { name: '<script>alert("x")</script> & co' })).toBe(
+        '<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; co</p>'
+      );
+    });
+
+    it('should resolve nested paths and render missing values as empty', () => {
+      expect(render('{{booking.clientName}}|{{booking.missing.deep}}|{{absent}}', { booking: { clientName: 'Ama' } })).toBe(
+        'Ama||'
+      );
+    });
+
+    it('should insert SafeHtml without escaping', () => {
+      expect(render('<div>{{content}}</div>', { content: new SafeHtml('<b>bold</b>') })).toBe('<div><b>bold</b></div>');
+    });
+
+    it('should leave values unescaped in text templates but flatten line breaks', () => {
+      expect(textTemplateEngine.compile('Inquiry from {{name}}')({ name: 'A & B\r\nBcc: x@example.com' })).toBe(
+        'Inquiry from A & B Bcc: x@example.com'
+      );
+    });
+
+    it('should escape every special character', () => {
+      expect(escapeHtml(`<a href='x'>&"`)).toBe('&lt;a href=&#39;x&#39;&gt;&amp;&quot;');
+    });
+  });
+
+  describe('blocks', () => {
+    it('should render if and else branches', () => {
+      const source = '{{#if url}}<a href="{{url}}">link</a>{{else}}none{{/if}}';
+
+      expect(render(source, { url: 'https://example.com' })).toBe('<a href="https://example.com">link</a>');
+      expect(render(source, { url: '' })).toBe('none');
+      expect(render('{{#if items}}some{{else}}none{{/if}}', { items: [] })).toBe('none');
+    });
+
+    it('should repeat each blocks with the item in scope', () => {
+      const source = '{{#each rows}}[{{this.name}} {{label}}]{{/each}}';
+
+      expect(render(source, { label: 'outer', rows: [{ name: 'a' }, { name: 'b', label: 'inner' }] })).toBe(
+        '[a outer][b inner]'
+      );
+      expect(render('{{#each items}}<li>{{this}}</li>{{/each}}', { items: ['<x>', 'y'] })).toBe(
+        '<li>&lt;x&gt;</li><li>y</li>'
+      );
+    });
+  });
+
+  describe('syntax errors', () => {
+    it.each([
+      ['{{#if open}}never closed', 'unclosed block'],
+      ['{{/if}}', 'stray closing tag'],
+      ['{{#if a}}{{/each}}', 'mismatched closing tag'],
+      ['{{#unless a}}{{/unless}}', 'unknown block'],
+      ['{{else}}', 'else outside a block'],
+      ['{{ name', 'unterminated tag'],
+      ['{{{ raw }}}', 'raw output'],
+      ['{{ two words }}', 'invalid tag'],
+    ])('should reject %s (%s)', source => {
+      expect(() => htmlTemplateEngine.compile(source)).toThrow(TemplateSyntaxError);
+    });
+  });
+
+  describe('htmlToText', () => {
+    it('should turn the rendered HTML into readable plain text', () => {
+      const html = `<html><head><style>p { color: red; }</style></head><body>
+        <h2>Hello Ama &amp; Kofi,</h2>
+        <p>Your session is <strong>confirmed</strong>.<br>See you soon.</p>
+        <ul><li>One</li><li>Two</li></ul>
+        <p><a href="https://example.com/manage?a=1&amp;b=2">Manage my booking</a></p>
+      </body></html>`;
+
+      expect(htmlToText(html)).toBe(
+        'Hello Ama & Kofi,\n\nYour session is confirmed.\nSee you soon.\n\n- One\n- Two\n\nManage my booking (https://example.com/manage?a=1&b=2)'
+      );
+    });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Minimal logic-less template language for emails.
+ *
+ *   {{ booking.clientName }}          value, HTML-escaped unless it is a SafeHtml
+ *   {{#if manageUrl}} ... {{else}} ... {{/if}}
+ *   {{#each sessions}} {{ this }} {{/each}}   inside a block, names resolve against the item first
+ *
+ * There is no raw-output syntax, so a stored template can never inject unescaped
+ * client input; only markup the application builds itself is wrapped in SafeHtml.
+ */
+
+export type TemplateContext = Record<string, unknown>;
+
+export interface TemplateEngine {
+  // Throws a TemplateSyntaxError for templates that cannot be parsed
+  compile(source: string): (context: TemplateContext) => string;
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+// Markup trusted to be inserted as-is, e.g. a rendered template inside the layout
+export class SafeHtml {
+  constructor(readonly html: string) {}
+
+  toString(): string {
+    return this.html;
+  }
+}
+
+type Node =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; path: string }
+  | { kind: 'if'; path: string; then: Node[]; otherwise: Node[] }
+  | { kind: 'each'; path: string; body: Node[] };
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([\w.]*)\s*([\w.]*)\s*\}\}/g;
+const PATH_PATTERN = /^(this|[A-Za-z_]\w*)(\.[A-Za-z_]\w*)*$/;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => HTML_ESCAPES[char] as string);
+}
+
+function parse(source: string): Node[] {
+  const root: Node[] = [];
+  // Open blocks, innermost last; 'target' is where the next node goes
+  const stack: Array<{ node: Extract<Node, { kind: 'if' | 'each' }>; target: Node[] }> = [];
+  let target = root;
+  let position = 0;
+
+  if (/\{\{\{|\}\}\}/.test(source)) {
+    throw new TemplateSyntaxError('Triple braces are not supported; values are always escaped');
+  }
+
+  const pushText = (text: string) => {
+    if (text.includes('{{') || text.includes('}}')) {
+      throw new TemplateSyntaxError(`Malformed tag near "${text.trim().slice(0, 40)}"`);
+    }
+    if (text) {
+      target.push({ kind: 'text', text });
+    }
+  };
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, sigil = '', name = '', argument = ''] = match;
+    const index = match.index ?? 0;
+
+    pushText(source.slice(position, index));
+    position = index + tag.length;
+
+    if (sigil === '#') {
+      if ((name !== 'if' && name !== 'each') || !PATH_PATTERN.test(argument)) {
+        throw new TemplateSyntaxError(`Unknown block ${tag}`);
+      }
+
+      const node: Extract<Node, { kind: 'if' | 'each' }> = name === 'if'
+        ? { kind: 'if', path: argument, then: [], otherwise: [] }
+        : { kind: 'each', path: argument, body: [] };
+      target.push(node);
+      stack.push({ node, target });
+      target = node.kind === 'if' ? node.then : node.body;
+      continue;
+    }
+
+    if (sigil === '/') {
+      const open = stack.pop();
+      if (!open || open.node.kind !== name || argument) {
+        throw new TemplateSyntaxError(`Unexpected ${tag}`);
+      }
+      target = open.target;
+      continue;
+    }
+
+    if (name === 'else' && !argument) {
+      const open = stack[stack.length - 1];
+      if (!open || open.node.kind !== 'if' || target === open.node.otherwise) {
+        throw new TemplateSyntaxError('{{else}} outside of an {{#if}} block');
+      }
+      target = open.node.otherwise;
+      continue;
+    }
+
+    if (argument || !PATH_PATTERN.test(name)) {
+      throw new TemplateSyntaxError(`Invalid tag ${tag}`);
+    }
+    target.push({ kind: 'value', path: name });
+  }
+
+  const unclosed = stack[stack.length - 1];
+  if (unclosed) {
+    throw new TemplateSyntaxError(`Missing {{/${unclosed.node.kind}}} for {{#${unclosed.node.kind} ${unclosed.node.path}}}`);
+  }
+
+  pushText(source.slice(position));
+
+  return root;
+}
+
+// Scopes are searched innermost first, so block items shadow the outer context
+function lookup(path: string, scopes: unknown[]): unknown {
+  const [head, ...rest] = path.split('.');
+
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    let value: unknown;
+
+    if (head === 'this') {
+      value = scope;
+    } else if (scope !== null && typeof scope === 'object' && head! in scope) {
+      value = (scope as Record<string, unknown>)[head!];
+    } else {
+      continue;
+    }
+
+    for (const key of rest) {
+      value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    return value;
+  }
+
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function format(value: unknown, escape: boolean): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof SafeHtml) {
+    return value.html;
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return escape ? escapeHtml(text) : text;
+}
+
+function renderNodes(nodes: Node[], scopes: unknown[], escape: boolean): string {
+  return nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+        return node.text;
+      case 'value':
+        return format(lookup(node.path, scopes), escape);
+      case 'if':
+        return renderNodes(isTruthy(lookup(node.path, scopes)) ? node.then : node.otherwise, scopes, escape);
+      case 'each': {
+        const items = lookup(node.path, scopes);
+        return Array.isArray(items)
+          ? items.map(item => renderNodes(node.body, [...scopes, item], escape)).join('')
+          : '';
+      }
+    }
+  }).join('');
+}
+
+/**
+ * Engine for HTML bodies: every value is escaped
+ */
+export const htmlTemplateEngine: TemplateEngine = {
+  compile(source) {
+    const nodes = parse(source);
+    return context => renderNodes(nodes, [context], true);
+  },
+};
+
+/**
+ * Engine for subject lines and other plain text: values are inserted as-is, with line
+ * breaks flattened so a value cannot start a new header
+ */
+export const textTemplateEngine: TemplateEngine = {
+  compile(source) {
+    const nodes = parse(source);
+    return context => renderNodes(nodes, [context], false).replace(/[\r\n]+/g, ' ').trim();
+  },
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  nbsp: ' ',
+  copy: '©',
+  rarr: '→',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#\d+|#x[\da-f]+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(code.slice(2), 16));
+    }
+    if (code.startsWith('#')) {
+      return String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Plain-text version of a rendered HTML email: block elements become line breaks,
+ * list items dashes and links "label (url)"
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(head|style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_match, href: string, label: string) => {
+      const plainLabel = label.replace(/<[^>]+>/g, '').trim();
+      return !plainLabel || plainLabel === href ? href : `${plainLabel} (${href})`;
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/t[dh]>/gi, '  ')
+    .replace(/<\/tr>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|ul|ol|table)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,70 @@
+import {
+  isValidTimeZone,
+  zonedTimeToUtc,
+  toZonedDateKey,
+  formatZonedTime,
+  getDateKeyWeekday,
+  addDaysToDateKey,
+} from './timeZone';
+
+describe('timeZone - Zone Conversions', () => {
+  describe('isValidTimeZone', () => {
+    it('should accept IANA zones', () => {
+      expect(isValidTimeZone('Africa/Accra')).toBe(true);
+      expect(isValidTimeZone('Europe/London')).toBe(true);
+    });
+
+    it('should reject unknown zones', () => {
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('should apply the standard time offset', () => {
+      expect(zonedTimeToUtc('2026-01-15', 9 * 60, 'Europe/London')).toEqual(new Date('2026-01-15T09:00:00.000Z'));
+      expect(zonedTimeToUtc('2026-01-15', 9 * 60, 'America/New_York')).toEqual(new Date('2026-01-15T14:00:00.000Z'));
+    });
+
+    it('should apply the summer time offset', () => {
+      expect(zonedTimeToUtc('2026-07-15', 9 * 60, 'Europe/London')).toEqual(new Date('2026-07-15T08:00:00.000Z'));
+    });
+
+    it('should resolve times on the day the clocks change', () => {
+      // London moves from 01:00 GMT to 02:00 BST on 29 March 2026
+      expect(zonedTimeToUtc('2026-03-29', 0, 'Europe/London')).toEqual(new Date('2026-03-29T00:00:00.000Z'));
+      expect(zonedTimeToUtc('2026-03-29', 3 * 60, 'Europe/London')).toEqual(new Date('2026-03-29T02:00:00.000Z'));
+    });
+
+    it('should move times skipped by the clock change past the jump', () => {
+      expect(zonedTimeToUtc('2026-03-29', 90, 'Europe/London')).toEqual(new Date('2026-03-29T01:30:00.000Z'));
+    });
+  });
+
+  describe('toZonedDateKey', () => {
+    it('should return the calendar day on the studio clock', () => {
+      const instant = new Date('2026-03-03T03:00:00.000Z');
+
+      expect(toZonedDateKey(instant, 'UTC')).toBe('2026-03-03');
+      expect(toZonedDateKey(instant, 'America/Los_Angeles')).toBe('2026-03-02');
+    });
+  });
+
+  describe('formatZonedTime', () => {
+    it('should format the wall-clock time as HH:MM', () => {
+      expect(formatZonedTime(new Date('2026-07-15T08:05:00.000Z'), 'Europe/London')).toBe('09:05');
+      expect(formatZonedTime(new Date('2026-07-15T23:30:00.000Z'), 'UTC')).toBe('23:30');
+    });
+  });
+
+  describe('calendar keys', () => {
+    it('should find the weekday of a calendar day', () => {
+      expect(getDateKeyWeekday('2026-03-01')).toBe(0);
+      expect(getDateKeyWeekday('2026-03-07')).toBe(6);
+    });
+
+    it('should add days across month boundaries', () => {
+      expect(addDaysToDateKey('2026-02-28', 1)).toBe('2026-03-01');
+      expect(addDaysToDateKey('2026-03-01', -1)).toBe('2026-02-28');
+    });
+  });
+});
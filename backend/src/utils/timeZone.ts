@@ -0,0 +1,121 @@
+/**
+ * IANA time zone helpers built on Intl, so calendar maths happens in the studio's
+ * zone rather than the server's.
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1 - 12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a string names a time zone the runtime knows about
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock fields of an instant as seen in the given zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const values: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      values[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: values['year'] ?? 0,
+    month: values['month'] ?? 1,
+    day: values['day'] ?? 1,
+    hour: values['hour'] ?? 0,
+    minute: values['minute'] ?? 0,
+    second: values['second'] ?? 0,
+  };
+}
+
+/**
+ * Offset of the zone from UTC at the given instant, in milliseconds
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The UTC instant for a wall-clock time on a calendar day in the given zone.
+ * Times skipped by a DST jump resolve to the same distance past the jump.
+ */
+export function zonedTimeToUtc(dateKey: string, minutesAfterMidnight: number, timeZone: string): Date {
+  const [year = 1970, month = 1, day = 1] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutesAfterMidnight);
+
+  // Guess with the offset at the wall-clock time, then correct once for a DST change in between
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  const offset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+  return new Date(wallClock - offset);
+}
+
+/**
+ * Calendar day of an instant in the given zone, e.g. '2026-03-14'
+ */
+export function toZonedDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Wall-clock time of an instant in the given zone as 'HH:MM'
+ */
+export function formatZonedTime(date: Date, timeZone: string): string {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+/**
+ * Day of the week for a calendar day (0 = Sunday ... 6 = Saturday)
+ */
+export function getDateKeyWeekday(dateKey: string): number {
+  const [year = 1970, month = 1, day = 1] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Move a calendar day forwards or backwards by whole days
+ */
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const [year = 1970, month = 1, day = 1] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0] as string;
+}
@@ -0,0 +1,90 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateCode,
+  generateSecret,
+  timeStep,
+  verifyCode,
+} from './totp';
+
+// The SHA-1 secret from the RFC 6238 test vectors, "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  describe('base32', () => {
+    it('should round-trip bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should match the RFC 4648 examples', () => {
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+      expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateCode', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      expect(generateCode(RFC_SECRET, timeStep(59 * 1000), 8)).toBe('94287082');
+      expect(generateCode(RFC_SECRET, timeStep(1111111109 * 1000), 8)).toBe('07081804');
+      expect(generateCode(RFC_SECRET, timeStep(1234567890 * 1000), 8)).toBe('89005924');
+      expect(generateCode(RFC_SECRET, timeStep(2000000000 * 1000), 8)).toBe('69279037');
+    });
+
+    it('should produce 6 digits by default', () => {
+      expect(generateCode(RFC_SECRET, timeStep(59 * 1000))).toBe('287082');
+    });
+  });
+
+  describe('verifyCode', () => {
+    const time = 1111111109 * 1000;
+
+    it('should return the step of a matching code', () => {
+      const step = timeStep(time);
+
+      expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step), { time })).toBe(step);
+    });
+
+    it('should allow one step of clock drift either side', () => {
+      const step = timeStep(time);
+
+      expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step - 1), { time })).toBe(step - 1);
+      expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step + 1), { time })).toBe(step + 1);
+      expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step + 2), { time })).toBeNull();
+    });
+
+    it('should ignore spaces and reject malformed codes', () => {
+      const code = generateCode(RFC_SECRET, timeStep(time));
+
+      expect(verifyCode(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, { time })).not.toBeNull();
+      expect(verifyCode(RFC_SECRET, '12345', { time })).toBeNull();
+      expect(verifyCode(RFC_SECRET, 'abcdef', { time })).toBeNull();
+    });
+  });
+
+  describe('generateSecret', () => {
+    it('should create a 160-bit base32 secret', () => {
+      const secret = generateSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('should label the account with the issuer', () => {
+      const uri = buildOtpauthUri({ issuer: 'Derji Productions', account: 'team@example.com', secret: 'JBSWY3DPEHPK3PXP' });
+
+      expect(uri).toBe(
+        'otpauth://totp/Derji%20Productions%3Ateam%40example.com'
+          + '?secret=JBSWY3DPEHPK3PXP&issuer=Derji+Productions&algorithm=SHA1&digits=6&period=30'
+      );
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { describeUserAgent } from './userAgent';
+
+describe('describeUserAgent', () => {
+  it('should name the browser and operating system', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+    )).toBe('Chrome on macOS');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:121.0) Gecko/20100101 Firefox/121.0'
+    )).toBe('Firefox on Windows');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1'
+    )).toBe('Safari on iOS');
+  });
+
+  it('should not mistake browsers built on Chrome for Chrome', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0'
+    )).toBe('Edge on Windows');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36'
+    )).toBe('Chrome on Android');
+  });
+
+  it('should fall back when the agent is missing or unknown', () => {
+    expect(describeUserAgent(undefined)).toBe('Unknown device');
+    expect(describeUserAgent('')).toBe('Unknown device');
+    expect(describeUserAgent('curl/8.4.0')).toBe('curl');
+    expect(describeUserAgent('SomethingElse/1.0')).toBe('Unknown device');
+  });
+});
@@ -14,13 +14,26 @@ import {
   BookPage,
   ContactPage,
   LocationPage,
+  ManageBookingPage,
+  WaitlistOfferPage,
   AdminLoginPage,
+  ResetPasswordPage,
+  AcceptInvitationPage,
   AdminDashboardPage,
   PortfolioManagementPage,
   BookingManagementPage,
   InquiryManagementPage,
   UserManagementPage,
-  AnalyticsPage
+  AnalyticsPage,
+  ScheduleSettingsPage,
+  InvoicesPage,
+  EmailTemplatesPage,
+  ClientsPage,
+  ClientProfilePage,
+  SpamSettingsPage,
+  ApiKeysPage,
+  WebhooksPage,
+  ProfilePage
 } from './pages'
 
 const year = new Date().getFullYear();
@@ -41,6 +54,16 @@ function App() {
                     <AdminLoginPage />
                   </SectionErrorBoundary>
                 } />
+                <Route path="/admin/reset-password" element={
+                  <SectionErrorBoundary sectionName="Reset Password">
+                    <ResetPasswordPage />
+                  </SectionErrorBoundary>
+                } />
+                <Route path="/admin/accept-invitation" element={
+                  <SectionErrorBoundary sectionName="Accept Invitation">
+                    <AcceptInvitationPage />
+                  </SectionErrorBoundary>
+                } />
                 <Route path="/admin/dashboard" element={
                   <SectionErrorBoundary sectionName="Admin Dashboard">
                     <AdminDashboardPage />
@@ -71,6 +94,51 @@ function App() {
                     <AnalyticsPage />
                   </SectionErrorBoundary>
                 } />
+                <Route path="/admin/schedule" element={
+                  <SectionErrorBoundary sectionName="Schedule Settings">
+                    <ScheduleSettingsPage />
+                  </SectionErrorBoundary>
+                } />
+                <Route path="/admin/invoices" element={
+                  <SectionErrorBoundary sectionName="Invoices">
+                    <InvoicesPage />
+                  </SectionErrorBoundary>
+                } />
+                <Route path="/admin/email-templates" element={
+                  <SectionErrorBoundary sectionName="Email Templates">
+                    <EmailTemplatesPage />
+                  </SectionErrorBoundary>
+                } />
+                <Route path="/admin/clients" element={
+                  <SectionErrorBoundary sectionName="Clients">
+                    <ClientsPage />
+                  </SectionErrorBoundary>
+                } />
+                <Route path="/admin/clients/:id" element={
+                  <SectionErrorBoundary sectionName="Client Profile">
+                    <ClientProfilePage />
+                  </SectionErrorBoundary>
+                } />
+                <Route path="/admin/spam" element={
+                  <SectionErrorBoundary sectionName="Spam Filter">
+                    <SpamSettingsPage />
+                  </SectionErrorBoundary>
+                } />
+                <Route path="/admin/api-keys" element={
+                  <SectionErrorBoundary sectionName="API Keys">
+                    <ApiKeysPage />
+                  </SectionErrorBoundary>
+                } />
+                <Route path="/admin/webhooks" element={
+                  <SectionErrorBoundary sectionName="Webhooks">
+                    <WebhooksPage />
+                  </SectionErrorBoundary>
+                } />
+                <Route path="/admin/profile" element={
+                  <SectionErrorBoundary sectionName="Profile">
+                    <ProfilePage />
+                  </SectionErrorBoundary>
+                } />
                 
                 {/* Public Routes */}
                 <Route path="/*" element={
@@ -121,6 +189,16 @@ function App() {
                             <BookPage />
                           </SectionErrorBoundary>
                         } />
+                        <Route path="/bookings/manage/:token" element={
+                          <SectionErrorBoundary sectionName="Manage Booking">
+                            <ManageBookingPage />
+                          </SectionErrorBoundary>
+                        } />
+                        <Route path="/bookings/waitlist/:token" element={
+                          <SectionErrorBoundary sectionName="Waitlist Offer">
+                            <WaitlistOfferPage />
+                          </SectionErrorBoundary>
+                        } />
                         <Route path="/contact" element={
                           <SectionErrorBoundary sectionName="Contact Page">
                             <ContactPage />
@@ -1,8 +1,10 @@
 import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
 
 export function AdminHeader() {
   const { user, logout } = useAuth();
+  const navigate = useNavigate();
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
   
   const handleLogout = async () => {
@@ -55,7 +57,7 @@ export function AdminHeader() {
                 <button
                   onClick={() => {
                     setIsUserMenuOpen(false);
-                    // Navigate to profile settings if implemented
+                    navigate('/admin/profile');
                   }}
                   className="block w-full text-left px-4 py-2 text-sm text-secondary-700 hover:bg-secondary-100"
                 >
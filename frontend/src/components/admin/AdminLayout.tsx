@@ -24,8 +24,8 @@ export function AdminLayout({ children }: AdminLayoutProps) {
     );
   }
   
-  // Redirect to login if not authenticated or not admin
-  if (!isAuthenticated || user?.role !== 'admin') {
+  // Redirect to login if not authenticated; every account is staff, the API checks each role's permissions
+  if (!isAuthenticated || !user) {
     return <Navigate to="/admin/login" replace />;
   }
   
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Button, Input } from '@/components/ui';
+import { ApiKey } from '@/types';
+import { post } from '@/utils/api';
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: '', label: 'Never' },
+];
+
+interface ApiKeyFormProps {
+  // Scopes the API accepts, as `<area>:read` and `<area>:write`
+  scopes: string[];
+  onCreated: (apiKey: ApiKey, key: string) => void;
+  onCancel: () => void;
+}
+
+// Name a new key and pick what it can reach: nothing, read, or read and write for each area
+export function ApiKeyForm({ scopes, onCreated, onCancel }: ApiKeyFormProps) {
+  const areas = [...new Set(scopes.map(scope => scope.split(':')[0]!))];
+  const [name, setName] = useState('');
+  const [access, setAccess] = useState<Record<string, '' | 'read' | 'write'>>({});
+  const [expiresInDays, setExpiresInDays] = useState('90');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const data = await post<{ apiKey: ApiKey; key: string }>('/api-keys', {
+        name,
+        scopes: Object.entries(access)
+          .filter(([, level]) => level)
+          .map(([area, level]) => `${area}:${level}`),
+        expiresAt: expiresInDays
+          ? new Date(Date.now() + Number(expiresInDays) * 24 * 60 * 60 * 1000).toISOString()
+          : null
+      });
+
+      onCreated(data.apiKey, data.key);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create API key');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="apiKeyName" className="block text-sm font-medium text-secondary-700 mb-2">
+          Name *
+        </label>
+        <Input
+          id="apiKeyName"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Website builder"
+          required
+        />
+        <p className="text-xs text-secondary-500 mt-1">
+          So you can tell which integration uses it. Requests made with the key act as you.
+        </p>
+      </div>
+
+      <div>
+        <p className="block text-sm font-medium text-secondary-700 mb-2">Access *</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {areas.map(area => (
+            <label key={area} className="flex items-center justify-between gap-3 text-sm">
+              <span className="capitalize text-secondary-900">{area}</span>
+              <select
+                value={access[area] || ''}
+                onChange={(e) => setAccess(prev => ({ ...prev, [area]: e.target.value as '' | 'read' | 'write' }))}
+                className="px-3 py-1 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">No access</option>
+                <option value="read">Read</option>
+                <option value="write">Read and write</option>
+              </select>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="apiKeyExpiry" className="block text-sm font-medium text-secondary-700 mb-2">
+          Expires after
+        </label>
+        <select
+          id="apiKeyExpiry"
+          value={expiresInDays}
+          onChange={(e) => setExpiresInDays(e.target.value)}
+          className="w-full px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+        >
+          {EXPIRY_OPTIONS.map(option => (
+            <option key={option.label} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Actions */}
+      <div className="flex justify-end space-x-4 pt-4 border-t border-secondary-200">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          variant="primary"
+          disabled={isSubmitting || !Object.values(access).some(Boolean)}
+        >
+          {isSubmitting ? 'Creating...' : 'Create Key'}
+        </Button>
+      </div>
+    </form>
+  );
+}
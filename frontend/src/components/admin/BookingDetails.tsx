@@ -1,23 +1,41 @@
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui';
-import { Booking } from '@/types';
+import { Booking, BookingEvent, BookingHistory } from '@/types';
+import { EmailLog } from './EmailLog';
+import { SpamReview } from './SpamReview';
 
 interface BookingDetailsProps {
   booking: Booking;
+  history?: BookingHistory;
   onStatusUpdate: (bookingId: string, status: Booking['status']) => void;
+  onCreateInvoice?: (bookingId: string, type: 'quote' | 'invoice') => void;
+  onSpamMarked?: (bookingId: string, spam: boolean) => void;
   onClose: () => void;
 }
 
-export function BookingDetails({ booking, onStatusUpdate, onClose }: BookingDetailsProps) {
+export function BookingDetails({ booking, history, onStatusUpdate, onCreateInvoice, onSpamMarked, onClose }: BookingDetailsProps) {
+  const held = booking.status === 'quarantined' || booking.status === 'spam';
+
   const getStatusColor = (status: Booking['status']) => {
     switch (status) {
       case 'pending': return 'bg-yellow-100 text-yellow-800';
       case 'confirmed': return 'bg-green-100 text-green-800';
       case 'cancelled': return 'bg-red-100 text-red-800';
       case 'completed': return 'bg-blue-100 text-blue-800';
+      case 'quarantined': return 'bg-orange-100 text-orange-800';
+      case 'spam': return 'bg-red-100 text-red-800';
       default: return 'bg-secondary-100 text-secondary-800';
     }
   };
 
+  const describeEvent = (event: BookingEvent) => {
+    switch (event.type) {
+      case 'created': return 'Booking requested';
+      case 'rescheduled': return 'Rescheduled';
+      default: return `${event.fromStatus} → ${event.toStatus}`;
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -49,6 +67,11 @@ export function BookingDetails({ booking, onStatusUpdate, onClose }: BookingDeta
                 <span className="ml-2 text-secondary-900">{booking.clientPhone}</span>
               </div>
             )}
+            {booking.clientId && (
+              <Link to={`/admin/clients/${booking.clientId}`} className="inline-block text-sm text-primary-600 hover:text-primary-700">
+                View client history →
+              </Link>
+            )}
           </div>
         </div>
 
@@ -107,6 +130,43 @@ export function BookingDetails({ booking, onStatusUpdate, onClose }: BookingDeta
         </div>
       )}
 
+      {/* Spam Check */}
+      {onSpamMarked && (
+        <SpamReview
+          score={booking.spamScore}
+          reasons={booking.spamReasons}
+          label={booking.spamLabel}
+          held={held}
+          canMarkSpam={held || booking.status === 'pending'}
+          onMark={(spam) => onSpamMarked(booking.id, spam)}
+        />
+      )}
+
+      {/* Status History */}
+      {history && history.events.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-secondary-900 mb-2">History</h3>
+          <ol className="space-y-3 border-l border-secondary-200 pl-4">
+            {history.events.map(event => (
+              <li key={event.id}>
+                <div className="text-sm font-medium text-secondary-900">{describeEvent(event)}</div>
+                <div className="text-xs text-secondary-500">
+                  {new Date(event.createdAt).toLocaleString()}
+                  {' · '}
+                  {event.actorName ? `${event.actorName} (${event.actorType})` : event.actorType}
+                </div>
+                {event.reason && (
+                  <p className="text-sm text-secondary-700 mt-1">{event.reason}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {/* Emails */}
+      <EmailLog bookingId={booking.id} />
+
       {/* Actions */}
       <div className="flex justify-between items-center pt-6 border-t border-secondary-200">
         <div className="flex space-x-2">
@@ -135,6 +195,16 @@ export function BookingDetails({ booking, onStatusUpdate, onClose }: BookingDeta
               Mark as Completed
             </Button>
           )}
+          {onCreateInvoice && booking.status !== 'cancelled' && !held && (
+            <>
+              <Button variant="outline" onClick={() => onCreateInvoice(booking.id, 'quote')}>
+                Create Quote
+              </Button>
+              <Button variant="outline" onClick={() => onCreateInvoice(booking.id, 'invoice')}>
+                Create Invoice
+              </Button>
+            </>
+          )}
         </div>
         <Button variant="outline" onClick={onClose}>
           Close
@@ -1,5 +1,6 @@
+import { useState } from 'react';
 import { Card, CardBody, Button, Input } from '@/components/ui';
-import { Booking } from '@/types';
+import { Booking, BookingSeriesSummary, RecurrenceRule } from '@/types';
 
 interface BookingListProps {
   bookings: Booking[];
@@ -13,30 +14,144 @@ interface BookingListProps {
   onFiltersChange: (filters: any) => void;
   onViewDetails: (booking: Booking) => void;
   onStatusUpdate: (bookingId: string, status: Booking['status']) => void;
+  onCancelSeries?: (seriesId: string) => void;
 }
 
+interface BookingGroup {
+  key: string;
+  series?: BookingSeriesSummary;
+  bookings: Booking[];
+}
+
+// Keep single bookings as they are and gather series sessions under their series
+const groupBookings = (bookings: Booking[]): BookingGroup[] => {
+  const groups: BookingGroup[] = [];
+  const seriesGroups = new Map<string, BookingGroup>();
+
+  for (const booking of bookings) {
+    if (!booking.seriesId) {
+      groups.push({ key: booking.id, bookings: [booking] });
+      continue;
+    }
+
+    let group = seriesGroups.get(booking.seriesId);
+    if (!group) {
+      group = { key: booking.seriesId, series: booking.series, bookings: [] };
+      seriesGroups.set(booking.seriesId, group);
+      groups.push(group);
+    }
+    group.bookings.push(booking);
+  }
+
+  seriesGroups.forEach(group => group.bookings.sort((a, b) => (a.seriesIndex ?? 0) - (b.seriesIndex ?? 0)));
+  return groups;
+};
+
+const describeRecurrence = (rule?: RecurrenceRule) => {
+  switch (rule?.type) {
+    case 'weekly':
+      return rule.intervalWeeks && rule.intervalWeeks > 1 ? `Every ${rule.intervalWeeks} weeks` : 'Weekly';
+    case 'interval':
+      return rule.everyDays === 1 ? 'Daily' : `Every ${rule.everyDays} days`;
+    case 'dates':
+      return 'Selected dates';
+    default:
+      return 'Series';
+  }
+};
+
 export function BookingList({
   bookings,
   isLoading,
   filters,
   onFiltersChange,
   onViewDetails,
-  onStatusUpdate
+  onStatusUpdate,
+  onCancelSeries
 }: BookingListProps) {
+  const [expandedSeries, setExpandedSeries] = useState<Set<string>>(new Set());
+
   const handleFilterChange = (key: string, value: string) => {
     onFiltersChange({ ...filters, [key]: value });
   };
 
+  const toggleSeries = (seriesId: string) => {
+    setExpandedSeries(current => {
+      const next = new Set(current);
+      if (next.has(seriesId)) {
+        next.delete(seriesId);
+      } else {
+        next.add(seriesId);
+      }
+      return next;
+    });
+  };
+
   const getStatusColor = (status: Booking['status']) => {
     switch (status) {
       case 'pending': return 'bg-yellow-100 text-yellow-800';
       case 'confirmed': return 'bg-green-100 text-green-800';
       case 'cancelled': return 'bg-red-100 text-red-800';
       case 'completed': return 'bg-blue-100 text-blue-800';
+      case 'quarantined': return 'bg-orange-100 text-orange-800';
+      case 'spam': return 'bg-red-100 text-red-800';
       default: return 'bg-secondary-100 text-secondary-800';
     }
   };
 
+  const renderBooking = (booking: Booking) => (
+    <Card key={booking.id}>
+      <CardBody>
+        <div className="flex items-center justify-between">
+          <div className="flex-1">
+            <div className="flex items-center space-x-3 mb-2">
+              <h3 className="text-lg font-semibold text-secondary-900">
+                {booking.clientName}
+              </h3>
+              <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(booking.status)}`}>
+                {booking.status}
+              </span>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-secondary-600">
+              <div>
+                <span className="font-medium">Date:</span> {new Date(booking.bookingDate).toLocaleDateString()}
+              </div>
+              <div>
+                <span className="font-medium">Time:</span> {new Date(booking.startTime).toLocaleTimeString()} - {new Date(booking.endTime).toLocaleTimeString()}
+              </div>
+              <div>
+                <span className="font-medium">Email:</span> {booking.clientEmail}
+              </div>
+            </div>
+            {booking.projectDetails && (
+              <p className="text-sm text-secondary-600 mt-2 line-clamp-2">
+                {booking.projectDetails}
+              </p>
+            )}
+          </div>
+          <div className="flex space-x-2 ml-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onViewDetails(booking)}
+            >
+              Details
+            </Button>
+            {booking.status === 'pending' && (
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={() => onStatusUpdate(booking.id, 'confirmed')}
+              >
+                Confirm
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardBody>
+    </Card>
+  );
+
   if (isLoading) {
     return (
       <div className="space-y-4">
@@ -83,6 +198,8 @@ export function BookingList({
                 <option value="confirmed">Confirmed</option>
                 <option value="cancelled">Cancelled</option>
                 <option value="completed">Completed</option>
+                <option value="quarantined">Quarantined</option>
+                <option value="spam">Spam</option>
               </select>
             </div>
             <div>
@@ -129,58 +246,80 @@ export function BookingList({
             </CardBody>
           </Card>
         ) : (
-          bookings.map((booking) => (
-            <Card key={booking.id}>
-              <CardBody>
-                <div className="flex items-center justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-3 mb-2">
-                      <h3 className="text-lg font-semibold text-secondary-900">
-                        {booking.clientName}
-                      </h3>
-                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(booking.status)}`}>
-                        {booking.status}
-                      </span>
-                    </div>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-secondary-600">
-                      <div>
-                        <span className="font-medium">Date:</span> {new Date(booking.bookingDate).toLocaleDateString()}
-                      </div>
-                      <div>
-                        <span className="font-medium">Time:</span> {new Date(booking.startTime).toLocaleTimeString()} - {new Date(booking.endTime).toLocaleTimeString()}
-                      </div>
-                      <div>
-                        <span className="font-medium">Email:</span> {booking.clientEmail}
+          groupBookings(bookings).map((group) => {
+            const [booking] = group.bookings;
+            if (!group.series && booking) {
+              return renderBooking(booking);
+            }
+
+            const isExpanded = expandedSeries.has(group.key);
+            const hasActiveSessions = group.bookings.some(session => ['pending', 'confirmed'].includes(session.status));
+
+            return (
+              <Card key={group.key}>
+                <CardBody>
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-3 mb-2">
+                        <h3 className="text-lg font-semibold text-secondary-900">
+                          {booking?.clientName}
+                        </h3>
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-purple-100 text-purple-800">
+                          {describeRecurrence(group.series?.recurrence)}
+                        </span>
                       </div>
-                    </div>
-                    {booking.projectDetails && (
-                      <p className="text-sm text-secondary-600 mt-2 line-clamp-2">
-                        {booking.projectDetails}
+                      <p className="text-sm text-secondary-600">
+                        {group.bookings.length} of {group.series?._count?.bookings ?? group.bookings.length} sessions shown
+                        {booking && ` · starting ${new Date(booking.startTime).toLocaleDateString()}`}
                       </p>
-                    )}
-                  </div>
-                  <div className="flex space-x-2 ml-4">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => onViewDetails(booking)}
-                    >
-                      Details
-                    </Button>
-                    {booking.status === 'pending' && (
-                      <Button
-                        variant="primary"
-                        size="sm"
-                        onClick={() => onStatusUpdate(booking.id, 'confirmed')}
-                      >
-                        Confirm
+                    </div>
+                    <div className="flex space-x-2 ml-4">
+                      <Button variant="outline" size="sm" onClick={() => toggleSeries(group.key)}>
+                        {isExpanded ? 'Hide Sessions' : 'Show Sessions'}
                       </Button>
-                    )}
+                      {onCancelSeries && hasActiveSessions && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => onCancelSeries(group.key)}
+                          className="text-red-600 hover:text-red-700 hover:border-red-300"
+                        >
+                          Cancel Series
+                        </Button>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </CardBody>
-            </Card>
-          ))
+
+                  {isExpanded && (
+                    <ul className="mt-4 divide-y divide-secondary-200 border-t border-secondary-200">
+                      {group.bookings.map(session => (
+                        <li key={session.id} className="flex items-center justify-between py-3 text-sm">
+                          <div className="flex items-center space-x-3 text-secondary-600">
+                            <span className="font-medium text-secondary-900">Session {(session.seriesIndex ?? 0) + 1}</span>
+                            <span>{new Date(session.bookingDate).toLocaleDateString()}</span>
+                            <span>{new Date(session.startTime).toLocaleTimeString()} - {new Date(session.endTime).toLocaleTimeString()}</span>
+                            <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(session.status)}`}>
+                              {session.status}
+                            </span>
+                          </div>
+                          <div className="flex space-x-2 ml-4">
+                            <Button variant="ghost" size="sm" onClick={() => onViewDetails(session)}>
+                              Details
+                            </Button>
+                            {session.status === 'pending' && (
+                              <Button variant="primary" size="sm" onClick={() => onStatusUpdate(session.id, 'confirmed')}>
+                                Confirm
+                              </Button>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardBody>
+              </Card>
+            );
+          })
         )}
       </div>
     </div>
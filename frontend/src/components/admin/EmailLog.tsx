@@ -0,0 +1,105 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui';
+import { EmailMessage } from '@/types';
+import { get, post } from '@/utils/api';
+
+interface EmailLogProps {
+  bookingId?: string;
+  inquiryId?: string;
+}
+
+const getStatusColor = (status: EmailMessage['status']) => {
+  switch (status) {
+    case 'sent': return 'bg-green-100 text-green-800';
+    case 'queued':
+    case 'sending': return 'bg-yellow-100 text-yellow-800';
+    case 'failed':
+    case 'bounced': return 'bg-red-100 text-red-800';
+    default: return 'bg-secondary-100 text-secondary-800';
+  }
+};
+
+// Emails sent, or still being tried, for one booking or inquiry
+export function EmailLog({ bookingId, inquiryId }: EmailLogProps) {
+  const [messages, setMessages] = useState<EmailMessage[]>([]);
+  const [error, setError] = useState('');
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const query = bookingId ? `bookingId=${bookingId}` : `inquiryId=${inquiryId}`;
+
+  useEffect(() => {
+    loadMessages();
+  }, [query]);
+
+  const loadMessages = async () => {
+    try {
+      const data = await get<{ messages: EmailMessage[] }>(`/email/messages?${query}&limit=50`);
+      setMessages(data.messages);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load emails');
+    }
+  };
+
+  const handleRetry = async (id: string) => {
+    try {
+      setRetryingId(id);
+      setError('');
+      await post(`/email/messages/${id}/retry`);
+      await loadMessages();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to retry email');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  if (messages.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-secondary-900 mb-2">Emails</h3>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-2">
+          {error}
+        </div>
+      )}
+
+      <ul className="divide-y divide-secondary-200">
+        {messages.map(message => (
+          <li key={message.id} className="py-2 flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(message.status)}`}>
+                  {message.status}
+                </span>
+                <span className="text-sm font-medium text-secondary-900 truncate">{message.subject}</span>
+              </div>
+              <div className="text-xs text-secondary-500 mt-1">
+                To {message.toEmail}
+                {' · '}
+                {new Date(message.sentAt ?? message.createdAt).toLocaleString()}
+                {message.attempts > 1 && ` · ${message.attempts} attempts`}
+              </div>
+              {message.lastError && message.status !== 'sent' && (
+                <p className="text-xs text-red-600 mt-1">{message.lastError}</p>
+              )}
+            </div>
+            {message.status === 'failed' && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRetry(message.id)}
+                loading={retryingId === message.id}
+              >
+                Retry
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
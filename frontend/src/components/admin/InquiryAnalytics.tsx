@@ -1,4 +1,5 @@
 import { Card, CardHeader, CardBody } from '@/components/ui';
+import { InquiryConversionStats } from '@/types';
 
 interface InquiryAnalyticsProps {
   data: {
@@ -6,9 +7,10 @@ interface InquiryAnalyticsProps {
     byService: Array<{ service: string; count: number }>;
     byMonth: Array<{ month: string; count: number }>;
   };
+  conversions?: InquiryConversionStats | null;
 }
 
-export function InquiryAnalytics({ data }: InquiryAnalyticsProps) {
+export function InquiryAnalytics({ data, conversions }: InquiryAnalyticsProps) {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'new': return 'bg-blue-500';
@@ -59,6 +61,42 @@ export function InquiryAnalytics({ data }: InquiryAnalyticsProps) {
             </div>
           </div>
 
+          {/* Conversion by Service */}
+          {conversions && (
+            <div>
+              <h4 className="text-sm font-medium text-secondary-700 mb-3">
+                Conversion by Service ({conversions.overall.rate}% overall)
+              </h4>
+              <div className="space-y-2">
+                {conversions.byService.slice(0, 5).map((item) => (
+                  <div key={item.service} className="flex items-center justify-between">
+                    <span className="text-sm text-secondary-700">{item.service}</span>
+                    <span className="text-sm font-medium text-secondary-900">
+                      {item.converted}/{item.inquiries} ({item.rate}%)
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Conversion by Source */}
+          {conversions && (
+            <div>
+              <h4 className="text-sm font-medium text-secondary-700 mb-3">Conversion by Source</h4>
+              <div className="space-y-2">
+                {conversions.bySource.map((item) => (
+                  <div key={item.source} className="flex items-center justify-between">
+                    <span className="text-sm text-secondary-700">{item.source}</span>
+                    <span className="text-sm font-medium text-secondary-900">
+                      {item.converted}/{item.inquiries} ({item.rate}%)
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Monthly Trend */}
           <div>
             <h4 className="text-sm font-medium text-secondary-700 mb-3">Monthly Trend</h4>
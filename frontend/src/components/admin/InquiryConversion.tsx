@@ -0,0 +1,190 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui';
+import { TimeSlotSelector } from '@/components/booking';
+import { useBookingAvailability } from '@/hooks/useBookings';
+import { InquiryConversion as InquiryConversionData, Service } from '@/types';
+import { get, post } from '@/utils/api';
+import { fromDateKey, formatDateInZone, formatTimeInZone } from '@/utils/timeZone';
+
+interface InquiryConversionProps {
+  inquiryId: string;
+  onConverted: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+// Books a slot for the inquiry's client, optionally with a draft quote, pre-filled from the inquiry
+export function InquiryConversion({ inquiryId, onConverted }: InquiryConversionProps) {
+  const [conversion, setConversion] = useState<InquiryConversionData | null>(null);
+  const [services, setServices] = useState<Service[]>([]);
+  const [type, setType] = useState<'booking' | 'quote'>('booking');
+  const [clientName, setClientName] = useState('');
+  const [clientEmail, setClientEmail] = useState('');
+  const [clientPhone, setClientPhone] = useState('');
+  const [serviceId, setServiceId] = useState('');
+  const [projectDetails, setProjectDetails] = useState('');
+  const [dateKey, setDateKey] = useState('');
+  const [slot, setSlot] = useState<{ startTime: string; endTime: string } | null>(null);
+  const [error, setError] = useState('');
+  const [isConverting, setIsConverting] = useState(false);
+
+  useEffect(() => {
+    loadConversion();
+    get<{ services: Service[] }>('/services?active=true')
+      .then(data => setServices(data.services))
+      .catch(() => setServices([]));
+  }, [inquiryId]);
+
+  const loadConversion = async () => {
+    try {
+      const data = await get<InquiryConversionData>(`/contact/${inquiryId}/conversion`);
+      setConversion(data);
+      setClientName(data.draft.clientName);
+      setClientEmail(data.draft.clientEmail);
+      setClientPhone(data.draft.clientPhone ?? '');
+      setServiceId(data.draft.serviceId ?? '');
+      setProjectDetails(data.draft.projectDetails);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load inquiry conversion');
+    }
+  };
+
+  const selectedDate = useMemo(() => (dateKey ? fromDateKey(dateKey) : undefined), [dateKey]);
+  const selectedService = services.find(service => service.id === serviceId);
+
+  const { data: availability = null, loading: availabilityLoading } = useBookingAvailability(
+    selectedDate && serviceId ? selectedDate : undefined,
+    serviceId || undefined,
+    selectedService?.duration
+  );
+
+  // A slot picked for one day or service is not valid for another
+  useEffect(() => {
+    setSlot(null);
+  }, [dateKey, serviceId]);
+
+  const handleConvert = async () => {
+    if (!slot) return;
+
+    try {
+      setIsConverting(true);
+      setError('');
+      await post(`/contact/${inquiryId}/convert`, {
+        type,
+        clientName,
+        clientEmail,
+        ...(clientPhone && { clientPhone }),
+        ...(serviceId && { serviceId }),
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        ...(projectDetails && { projectDetails }),
+      });
+      setSlot(null);
+      setDateKey('');
+      await loadConversion();
+      onConverted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to convert inquiry');
+    } finally {
+      setIsConverting(false);
+    }
+  };
+
+  const timeZone = availability?.timeZone || 'UTC';
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold text-secondary-900">Convert to Booking</h3>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {conversion && conversion.bookings.length > 0 && (
+        <ul className="space-y-2">
+          {conversion.bookings.map(booking => (
+            <li key={booking.id} className="bg-green-50 p-3 rounded-md text-sm text-secondary-700">
+              {booking.service?.name ?? 'Booking'} on {new Date(booking.startTime).toLocaleString()} · {booking.status}
+              {booking.invoices.map(invoice => (
+                <span key={invoice.id}> · {invoice.type} {invoice.number} ({invoice.status})</span>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-secondary-700 mb-1">Create</label>
+          <select value={type} onChange={(e) => setType(e.target.value as 'booking' | 'quote')} className={inputClassName}>
+            <option value="booking">Confirmed booking</option>
+            <option value="quote">Booking with draft quote</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-secondary-700 mb-1">Service</label>
+          <select value={serviceId} onChange={(e) => setServiceId(e.target.value)} className={inputClassName}>
+            <option value="">Select a service</option>
+            {services.map(service => (
+              <option key={service.id} value={service.id}>{service.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-secondary-700 mb-1">Client Name</label>
+          <input value={clientName} onChange={(e) => setClientName(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-secondary-700 mb-1">Client Email</label>
+          <input type="email" value={clientEmail} onChange={(e) => setClientEmail(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-secondary-700 mb-1">Client Phone</label>
+          <input value={clientPhone} onChange={(e) => setClientPhone(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-secondary-700 mb-1">Date</label>
+          <input type="date" value={dateKey} onChange={(e) => setDateKey(e.target.value)} className={inputClassName} />
+        </div>
+      </div>
+
+      {selectedDate && serviceId && (
+        <TimeSlotSelector
+          date={selectedDate}
+          serviceId={serviceId}
+          selectedStartTime={slot?.startTime}
+          onTimeSlotSelect={(startTime, endTime) => setSlot({ startTime, endTime })}
+          availability={availability}
+          loading={availabilityLoading}
+        />
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-secondary-700 mb-1">Project Details</label>
+        <textarea
+          value={projectDetails}
+          onChange={(e) => setProjectDetails(e.target.value)}
+          rows={4}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="flex justify-between items-center">
+        <span className="text-sm text-secondary-600">
+          {slot && `${formatDateInZone(slot.startTime, timeZone)}, ${formatTimeInZone(slot.startTime, timeZone)} - ${formatTimeInZone(slot.endTime, timeZone)}`}
+        </span>
+        <Button
+          variant="primary"
+          onClick={handleConvert}
+          loading={isConverting}
+          disabled={!slot || !clientName.trim() || !clientEmail.trim() || (type === 'quote' && !serviceId)}
+        >
+          {type === 'quote' ? 'Create Booking & Quote' : 'Create Booking'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,32 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui';
 import { ContactInquiry } from '@/types';
+import { EmailLog } from './EmailLog';
+import { InquiryConversion } from './InquiryConversion';
+import { InquiryThread } from './InquiryThread';
+import { SpamReview } from './SpamReview';
 
 interface InquiryDetailsProps {
   inquiry: ContactInquiry;
   onStatusUpdate: (inquiryId: string, status: ContactInquiry['status']) => void;
+  onReplySent: (inquiryId: string) => void;
+  onConverted: (inquiryId: string) => void;
+  onSpamMarked: (inquiryId: string, spam: boolean) => void;
   onClose: () => void;
 }
 
-export function InquiryDetails({ inquiry, onStatusUpdate, onClose }: InquiryDetailsProps) {
+export function InquiryDetails({ inquiry, onStatusUpdate, onReplySent, onConverted, onSpamMarked, onClose }: InquiryDetailsProps) {
+  const [showConversion, setShowConversion] = useState(false);
+  const held = inquiry.status === 'quarantined' || inquiry.status === 'spam';
+
   const getStatusColor = (status: ContactInquiry['status']) => {
     switch (status) {
       case 'new': return 'bg-blue-100 text-blue-800';
       case 'responded': return 'bg-green-100 text-green-800';
       case 'closed': return 'bg-secondary-100 text-secondary-800';
+      case 'quarantined': return 'bg-orange-100 text-orange-800';
+      case 'spam': return 'bg-red-100 text-red-800';
       default: return 'bg-secondary-100 text-secondary-800';
     }
   };
@@ -48,6 +62,11 @@ export function InquiryDetails({ inquiry, onStatusUpdate, onClose }: InquiryDeta
                 <span className="ml-2 text-secondary-900">{inquiry.phone}</span>
               </div>
             )}
+            {inquiry.clientId && (
+              <Link to={`/admin/clients/${inquiry.clientId}`} className="inline-block text-sm text-primary-600 hover:text-primary-700">
+                View client history →
+              </Link>
+            )}
           </div>
         </div>
 
@@ -64,6 +83,12 @@ export function InquiryDetails({ inquiry, onStatusUpdate, onClose }: InquiryDeta
                 <span className="ml-2 text-secondary-900">{inquiry.serviceInterest}</span>
               </div>
             )}
+            {inquiry.source && (
+              <div>
+                <span className="font-medium text-secondary-700">Source:</span>
+                <span className="ml-2 text-secondary-900">{inquiry.source}</span>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -86,15 +111,38 @@ export function InquiryDetails({ inquiry, onStatusUpdate, onClose }: InquiryDeta
         </div>
       </div>
 
+      {/* Spam Check */}
+      <SpamReview
+        score={inquiry.spamScore}
+        reasons={inquiry.spamReasons}
+        label={inquiry.spamLabel}
+        held={held}
+        canMarkSpam
+        onMark={(spam) => onSpamMarked(inquiry.id, spam)}
+      />
+
+      {/* Replies */}
+      <InquiryThread inquiryId={inquiry.id} onReplySent={() => onReplySent(inquiry.id)} />
+
+      {/* Conversion */}
+      {showConversion && (
+        <InquiryConversion inquiryId={inquiry.id} onConverted={() => onConverted(inquiry.id)} />
+      )}
+
+      {/* Emails */}
+      <EmailLog inquiryId={inquiry.id} />
+
       {/* Actions */}
       <div className="flex justify-between items-center pt-6 border-t border-secondary-200">
         <div className="flex space-x-2">
-          <Button
-            variant="primary"
-            onClick={() => window.open(`mailto:${inquiry.email}?subject=Re: ${inquiry.subject || 'Your inquiry'}`)}
-          >
-            Reply via Email
-          </Button>
+          {!held && (
+            <Button
+              variant="outline"
+              onClick={() => setShowConversion(!showConversion)}
+            >
+              {showConversion ? 'Hide Booking Form' : 'Convert to Booking'}
+            </Button>
+          )}
           {inquiry.status === 'new' && (
             <Button
               variant="outline"
@@ -103,7 +151,7 @@ export function InquiryDetails({ inquiry, onStatusUpdate, onClose }: InquiryDeta
               Mark as Responded
             </Button>
           )}
-          {inquiry.status !== 'closed' && (
+          {inquiry.status !== 'closed' && !held && (
             <Button
               variant="outline"
               onClick={() => onStatusUpdate(inquiry.id, 'closed')}
@@ -32,6 +32,8 @@ export function InquiryList({
       case 'new': return 'bg-blue-100 text-blue-800';
       case 'responded': return 'bg-green-100 text-green-800';
       case 'closed': return 'bg-secondary-100 text-secondary-800';
+      case 'quarantined': return 'bg-orange-100 text-orange-800';
+      case 'spam': return 'bg-red-100 text-red-800';
       default: return 'bg-secondary-100 text-secondary-800';
     }
   };
@@ -81,6 +83,8 @@ export function InquiryList({
                 <option value="new">New</option>
                 <option value="responded">Responded</option>
                 <option value="closed">Closed</option>
+                <option value="quarantined">Quarantined</option>
+                <option value="spam">Spam</option>
               </select>
             </div>
             <div>
@@ -0,0 +1,94 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui';
+import { InquiryMessage } from '@/types';
+import { get, post } from '@/utils/api';
+
+interface InquiryThreadProps {
+  inquiryId: string;
+  onReplySent: () => void;
+}
+
+// Replies sent from the panel and the client's answers, with a box to write the next reply
+export function InquiryThread({ inquiryId, onReplySent }: InquiryThreadProps) {
+  const [messages, setMessages] = useState<InquiryMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    loadMessages();
+  }, [inquiryId]);
+
+  const loadMessages = async () => {
+    try {
+      const data = await get<InquiryMessage[]>(`/contact/${inquiryId}/messages`);
+      setMessages(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load replies');
+    }
+  };
+
+  const handleSend = async () => {
+    try {
+      setIsSending(true);
+      setError('');
+      await post(`/contact/${inquiryId}/messages`, { body: draft });
+      setDraft('');
+      await loadMessages();
+      onReplySent();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send reply');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-secondary-900 mb-2">Replies</h3>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-2">
+          {error}
+        </div>
+      )}
+
+      {messages.length > 0 && (
+        <ul className="space-y-3 mb-4">
+          {messages.map(message => (
+            <li
+              key={message.id}
+              className={`p-4 rounded-md ${message.direction === 'outbound' ? 'bg-primary-50 ml-8' : 'bg-secondary-50 mr-8'}`}
+            >
+              <div className="text-xs text-secondary-500 mb-1">
+                {message.direction === 'outbound' ? `${message.author?.email ?? message.fromEmail} replied` : `${message.fromEmail} wrote`}
+                {' · '}
+                {new Date(message.createdAt).toLocaleString()}
+                {message.emailMessage && message.emailMessage.status !== 'sent' && ` · ${message.emailMessage.status}`}
+              </div>
+              <p className="text-secondary-700 whitespace-pre-wrap">{message.body}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder="Write a reply..."
+        rows={5}
+        className="w-full px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+      />
+      <div className="flex justify-end mt-2">
+        <Button
+          variant="primary"
+          onClick={handleSend}
+          loading={isSending}
+          disabled={!draft.trim()}
+        >
+          Send Reply
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui';
+
+interface RecoveryCodesListProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+// Recovery codes are only ever shown once, so make saving them the way out
+export function RecoveryCodesList({ codes, onDone }: RecoveryCodesListProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([`Derji Productions recovery codes\n\n${codes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'derji-productions-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-secondary-600">
+        Keep these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app.
+        They won't be shown again.
+      </p>
+
+      <ul className="grid grid-cols-2 gap-2 p-4 bg-secondary-100 rounded font-mono text-secondary-900">
+        {codes.map(code => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+          {copied ? 'Copied' : 'Copy'}
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          Download
+        </Button>
+        <Button type="button" variant="primary" size="sm" onClick={onDone}>
+          I've Saved Them
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { Button } from '@/components/ui';
+import { SpamReason } from '@/types';
+
+interface SpamReviewProps {
+  score?: number | null;
+  reasons?: SpamReason[] | null;
+  label?: 'spam' | 'ham' | null;
+  held: boolean; // quarantined or marked as spam
+  canMarkSpam: boolean;
+  onMark: (spam: boolean) => void;
+}
+
+// What the spam filter made of a submission, with the buttons that train it
+export function SpamReview({ score, reasons, label, held, canMarkSpam, onMark }: SpamReviewProps) {
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-secondary-900 mb-2">Spam Check</h3>
+      <div className={`p-4 rounded-md flex items-start justify-between gap-4 ${held ? 'bg-orange-50' : 'bg-secondary-50'}`}>
+        <div className="text-sm text-secondary-700 space-y-1">
+          <p>
+            Score: <span className="font-medium">{score ?? 0}</span>
+            {label && ` · marked as ${label === 'spam' ? 'spam' : 'not spam'}`}
+          </p>
+          {reasons && reasons.length > 0 && (
+            <p className="text-secondary-600">
+              Matched: {reasons.map(reason => `${reason.rule.replace(/_/g, ' ')} (+${reason.points})`).join(', ')}
+            </p>
+          )}
+        </div>
+        <div className="flex space-x-2 shrink-0">
+          {canMarkSpam && label !== 'spam' && (
+            <Button variant="outline" size="sm" onClick={() => onMark(true)} className="text-red-600 hover:text-red-700 hover:border-red-300">
+              Mark as Spam
+            </Button>
+          )}
+          {(held || label !== 'ham') && (
+            <Button variant="outline" size="sm" onClick={() => onMark(false)}>
+              Not Spam
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
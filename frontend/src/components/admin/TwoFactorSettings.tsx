@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react';
+import { Button, Card, CardBody, Input } from '@/components/ui';
+import { TwoFactorSetup, TwoFactorStatus } from '@/types';
+import { get, post } from '@/utils/api';
+import { RecoveryCodesList } from './RecoveryCodesList';
+import { TwoFactorSetupForm } from './TwoFactorSetupForm';
+
+type Mode = 'idle' | 'setup' | 'recovery-codes' | 'regenerate' | 'disable';
+
+// Two-factor authentication on the signed-in user's own account
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [mode, setMode] = useState<Mode>('idle');
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await get<TwoFactorStatus>('/auth/2fa'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load two-factor status');
+    }
+  };
+
+  const reset = () => {
+    setMode('idle');
+    setSetup(null);
+    setCode('');
+    setPassword('');
+    setError('');
+  };
+
+  const handleStartSetup = async () => {
+    try {
+      setError('');
+      setSetup(await post<TwoFactorSetup>('/auth/2fa/setup'));
+      setMode('setup');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start two-factor setup');
+    }
+  };
+
+  const handleEnable = async (setupCode: string) => {
+    const data = await post<{ recoveryCodes: string[] }>('/auth/2fa/enable', { code: setupCode });
+    setRecoveryCodes(data.recoveryCodes);
+    setMode('recovery-codes');
+    await loadStatus();
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const data = await post<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', { code: code.trim() });
+      setRecoveryCodes(data.recoveryCodes);
+      setCode('');
+      setMode('recovery-codes');
+      await loadStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create new recovery codes');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      await post('/auth/2fa/disable', { password, code: code.trim() });
+      reset();
+      await loadStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn off two-factor authentication');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderCodeForm = (onSubmit: (e: React.FormEvent) => void, submitLabel: string, withPassword: boolean) => (
+    <form onSubmit={onSubmit} className="space-y-4">
+      {withPassword && (
+        <div>
+          <label htmlFor="twoFactorPassword" className="block text-sm font-medium text-secondary-700 mb-2">
+            Password
+          </label>
+          <Input
+            id="twoFactorPassword"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+            disabled={isSubmitting}
+            className="w-full"
+          />
+        </div>
+      )}
+      <div>
+        <label htmlFor="twoFactorCode" className="block text-sm font-medium text-secondary-700 mb-2">
+          Code from your authenticator app, or a recovery code
+        </label>
+        <Input
+          id="twoFactorCode"
+          type="text"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          required
+          disabled={isSubmitting}
+          className="w-full"
+        />
+      </div>
+      <div className="flex justify-end space-x-4">
+        <Button type="button" variant="outline" onClick={reset} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" disabled={isSubmitting}>
+          {isSubmitting ? 'Checking...' : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+
+  const renderContent = () => {
+    if (!status) {
+      return <p className="text-secondary-500">Loading two-factor status...</p>;
+    }
+
+    if (mode === 'setup' && setup) {
+      return <TwoFactorSetupForm setup={setup} onSubmit={handleEnable} onCancel={reset} />;
+    }
+
+    if (mode === 'recovery-codes') {
+      return <RecoveryCodesList codes={recoveryCodes} onDone={reset} />;
+    }
+
+    if (mode === 'regenerate') {
+      return renderCodeForm(handleRegenerate, 'Create New Codes', false);
+    }
+
+    if (mode === 'disable') {
+      return renderCodeForm(handleDisable, 'Turn Off', true);
+    }
+
+    if (!status.enabled) {
+      return (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-secondary-600">
+            {status.required
+              ? 'Two-factor authentication is required for everyone. Set it up to keep signing in.'
+              : 'Protect your account with a code from an authenticator app as well as your password.'}
+          </p>
+          <Button variant="primary" size="sm" onClick={handleStartSetup}>
+            Set Up
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-sm text-secondary-600">
+          <p>
+            <span className="font-medium text-green-700">On</span>
+            {status.enabledAt && ` since ${new Date(status.enabledAt).toLocaleDateString()}`}
+          </p>
+          <p className={status.recoveryCodesRemaining <= 2 ? 'text-red-600' : ''}>
+            {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setMode('regenerate')}>
+            New Recovery Codes
+          </Button>
+          {!status.required && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setMode('disable')}
+              className="text-red-600 hover:text-red-700 hover:border-red-300"
+            >
+              Turn Off
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardBody>
+        <div className="mb-4">
+          <h2 className="text-xl font-semibold text-secondary-900">Two-Factor Authentication</h2>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-4">
+            {error}
+          </div>
+        )}
+
+        {renderContent()}
+      </CardBody>
+    </Card>
+  );
+}
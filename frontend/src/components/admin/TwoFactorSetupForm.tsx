@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { Button, Input } from '@/components/ui';
+import { TwoFactorSetup } from '@/types';
+
+interface TwoFactorSetupFormProps {
+  setup: TwoFactorSetup;
+  onSubmit: (code: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+// Scan the QR code (or type the secret) into an authenticator app, then confirm a code from it
+export function TwoFactorSetupForm({ setup, onSubmit, onCancel }: TwoFactorSetupFormProps) {
+  const [qrCode, setQrCode] = useState('');
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    QRCode.toDataURL(setup.otpauthUrl, { width: 200, margin: 1 })
+      .then(setQrCode)
+      .catch(() => setQrCode(''));
+  }, [setup.otpauthUrl]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      await onSubmit(code.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify the code');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <p className="text-sm text-secondary-600">
+        Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy.
+      </p>
+
+      <div className="flex justify-center">
+        {qrCode ? (
+          <img src={qrCode} alt="QR code for your authenticator app" width={200} height={200} />
+        ) : (
+          <div className="w-[200px] h-[200px] bg-secondary-100 rounded animate-pulse" />
+        )}
+      </div>
+
+      <div className="text-sm text-secondary-600">
+        Can't scan it? Enter this key instead:
+        <code className="block mt-1 px-3 py-2 bg-secondary-100 rounded font-mono text-secondary-900 break-all select-all">
+          {setup.secret.match(/.{1,4}/g)?.join(' ')}
+        </code>
+      </div>
+
+      <div>
+        <label htmlFor="setupCode" className="block text-sm font-medium text-secondary-700 mb-2">
+          Code from the app
+        </label>
+        <Input
+          id="setupCode"
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="123456"
+          required
+          disabled={isSubmitting}
+          className="w-full"
+        />
+      </div>
+
+      <div className="flex justify-end space-x-4">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" variant="primary" disabled={isSubmitting}>
+          {isSubmitting ? 'Verifying...' : 'Turn On Two-Factor'}
+        </Button>
+      </div>
+    </form>
+  );
+}
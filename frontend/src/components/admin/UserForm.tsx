@@ -1,21 +1,31 @@
 import React, { useState, useEffect } from 'react';
 import { Button, Input } from '@/components/ui';
-import { User } from '@/types';
+import { useAuth } from '@/context/AuthContext';
+import { Role, User } from '@/types';
 import { post, put } from '@/utils/api';
 
+export const ROLE_OPTIONS: { value: Role; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Everything, including managing other owners' },
+  { value: 'admin', label: 'Admin', description: 'Everything except changing owners' },
+  { value: 'manager', label: 'Manager', description: 'Bookings, clients, invoices and settings' },
+  { value: 'editor', label: 'Editor', description: 'Services, portfolio and files' },
+  { value: 'photographer', label: 'Photographer', description: 'Their bookings, portfolio and files' },
+];
+
 interface UserFormProps {
   user?: User | null;
   onSuccess: () => void;
   onCancel: () => void;
 }
 
+// Edits a user, or invites a new one by email when no user is given
 export function UserForm({ user, onSuccess, onCancel }: UserFormProps) {
+  const { user: currentUser } = useAuth();
   const [formData, setFormData] = useState({
     email: '',
     firstName: '',
     lastName: '',
-    role: 'user' as 'admin' | 'user',
-    password: ''
+    role: 'editor' as Role
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
@@ -26,8 +36,7 @@ export function UserForm({ user, onSuccess, onCancel }: UserFormProps) {
         email: user.email,
         firstName: user.firstName || '',
         lastName: user.lastName || '',
-        role: user.role as 'admin' | 'user',
-        password: '' // Don't populate password for editing
+        role: user.role as Role
       });
     }
   }, [user]);
@@ -42,22 +51,20 @@ export function UserForm({ user, onSuccess, onCancel }: UserFormProps) {
     setError('');
 
     try {
-      const userData = {
-        email: formData.email,
-        firstName: formData.firstName || undefined,
-        lastName: formData.lastName || undefined,
-        role: formData.role,
-        ...(formData.password && { password: formData.password })
-      };
-
       if (user) {
-        await put(`/users/${user.id}`, userData);
+        await put(`/users/${user.id}`, {
+          firstName: formData.firstName || null,
+          lastName: formData.lastName || null,
+          // Nobody can change their own role
+          ...(user.id !== currentUser?.id && { role: formData.role })
+        });
       } else {
-        if (!formData.password) {
-          setError('Password is required for new users');
-          return;
-        }
-        await post('/users', userData);
+        await post('/users/invitations', {
+          email: formData.email,
+          firstName: formData.firstName || undefined,
+          lastName: formData.lastName || undefined,
+          role: formData.role
+        });
       }
 
       onSuccess();
@@ -76,18 +83,25 @@ export function UserForm({ user, onSuccess, onCancel }: UserFormProps) {
         </div>
       )}
 
-      <div>
-        <label className="block text-sm font-medium text-secondary-700 mb-2">
-          Email Address *
-        </label>
-        <Input
-          type="email"
-          value={formData.email}
-          onChange={(e) => handleInputChange('email', e.target.value)}
-          placeholder="user@example.com"
-          required
-        />
-      </div>
+      {user ? (
+        <p className="text-sm text-secondary-600">{user.email}</p>
+      ) : (
+        <div>
+          <label className="block text-sm font-medium text-secondary-700 mb-2">
+            Email Address *
+          </label>
+          <Input
+            type="email"
+            value={formData.email}
+            onChange={(e) => handleInputChange('email', e.target.value)}
+            placeholder="user@example.com"
+            required
+          />
+          <p className="text-xs text-secondary-500 mt-1">
+            We'll email them a link to set their password. It expires after 7 days.
+          </p>
+        </div>
+      )}
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
@@ -122,29 +136,23 @@ export function UserForm({ user, onSuccess, onCancel }: UserFormProps) {
           value={formData.role}
           onChange={(e) => handleInputChange('role', e.target.value)}
           className="w-full px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          disabled={user?.id === currentUser?.id}
           required
         >
-          <option value="user">User</option>
-          <option value="admin">Admin</option>
+          {ROLE_OPTIONS
+            // Only owners can make someone an owner
+            .filter(option => option.value !== 'owner' || currentUser?.role === 'owner' || user?.role === 'owner')
+            .map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
         </select>
-      </div>
-
-      <div>
-        <label className="block text-sm font-medium text-secondary-700 mb-2">
-          Password {!user && '*'}
-        </label>
-        <Input
-          type="password"
-          value={formData.password}
-          onChange={(e) => handleInputChange('password', e.target.value)}
-          placeholder={user ? "Leave blank to keep current password" : "Enter password"}
-          required={!user}
-        />
-        {user && (
-          <p className="text-xs text-secondary-500 mt-1">
-            Leave blank to keep the current password
-          </p>
-        )}
+        <p className="text-xs text-secondary-500 mt-1">
+          {user?.id === currentUser?.id
+            ? "You can't change your own role"
+            : ROLE_OPTIONS.find(option => option.value === formData.role)?.description}
+        </p>
       </div>
 
       {/* Actions */}
@@ -153,7 +161,7 @@ export function UserForm({ user, onSuccess, onCancel }: UserFormProps) {
           Cancel
         </Button>
         <Button type="submit" variant="primary" disabled={isSubmitting}>
-          {isSubmitting ? 'Saving...' : user ? 'Update User' : 'Create User'}
+          {isSubmitting ? 'Saving...' : user ? 'Update User' : 'Send Invitation'}
         </Button>
       </div>
     </form>
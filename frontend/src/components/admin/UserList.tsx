@@ -1,5 +1,16 @@
 import { Card, CardBody, Button, Input } from '@/components/ui';
 import { User } from '@/types';
+import { ROLE_OPTIONS } from './UserForm';
+
+const ROLE_BADGES: Record<string, string> = {
+  owner: 'bg-amber-100 text-amber-800',
+  admin: 'bg-purple-100 text-purple-800',
+  manager: 'bg-green-100 text-green-800',
+  editor: 'bg-blue-100 text-blue-800',
+  photographer: 'bg-pink-100 text-pink-800',
+};
+
+const isLocked = (user: User) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
 
 interface UserListProps {
   users: User[];
@@ -11,6 +22,8 @@ interface UserListProps {
   onFiltersChange: (filters: any) => void;
   onEdit: (user: User) => void;
   onDelete: (id: string) => void;
+  onResetTwoFactor: (user: User) => void;
+  onUnlock: (user: User) => void;
 }
 
 export function UserList({
@@ -19,7 +32,9 @@ export function UserList({
   filters,
   onFiltersChange,
   onEdit,
-  onDelete
+  onDelete,
+  onResetTwoFactor,
+  onUnlock
 }: UserListProps) {
   const handleFilterChange = (key: string, value: string) => {
     onFiltersChange({ ...filters, [key]: value });
@@ -67,8 +82,11 @@ export function UserList({
                 className="w-full px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
               >
                 <option value="">All Roles</option>
-                <option value="admin">Admin</option>
-                <option value="user">User</option>
+                {ROLE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
               </select>
             </div>
             <div className="flex items-end">
@@ -112,13 +130,21 @@ export function UserList({
                       </h3>
                       <div className="flex items-center space-x-4 text-sm text-secondary-600">
                         <span>{user.email}</span>
-                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${
-                          user.role === 'admin' 
-                            ? 'bg-purple-100 text-purple-800' 
-                            : 'bg-blue-100 text-blue-800'
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${
+                          ROLE_BADGES[user.role] || 'bg-secondary-100 text-secondary-800'
                         }`}>
                           {user.role}
                         </span>
+                        {user.twoFactorEnabledAt && (
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                            2FA
+                          </span>
+                        )}
+                        {isLocked(user) && (
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800">
+                            Locked
+                          </span>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -130,6 +156,24 @@ export function UserList({
                     >
                       Edit
                     </Button>
+                    {user.twoFactorEnabledAt && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onResetTwoFactor(user)}
+                      >
+                        Reset 2FA
+                      </Button>
+                    )}
+                    {isLocked(user) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onUnlock(user)}
+                      >
+                        Unlock
+                      </Button>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
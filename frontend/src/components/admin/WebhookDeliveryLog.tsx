@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui';
+import { WebhookDelivery } from '@/types';
+import { get, post } from '@/utils/api';
+
+interface WebhookDeliveryLogProps {
+  webhookId: string;
+  // Bumped by the page to reload after it sends a test event
+  refreshKey?: number;
+}
+
+const getStatusColor = (status: WebhookDelivery['status']) => {
+  switch (status) {
+    case 'delivered': return 'bg-green-100 text-green-800';
+    case 'queued':
+    case 'sending': return 'bg-yellow-100 text-yellow-800';
+    case 'failed': return 'bg-red-100 text-red-800';
+    default: return 'bg-secondary-100 text-secondary-800';
+  }
+};
+
+// Events sent to one webhook, newest first, with how the receiver answered
+export function WebhookDeliveryLog({ webhookId, refreshKey = 0 }: WebhookDeliveryLogProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [webhookId, refreshKey]);
+
+  const loadDeliveries = async () => {
+    try {
+      const data = await get<{ deliveries: WebhookDelivery[] }>(`/webhooks/${webhookId}/deliveries?limit=50`);
+      setDeliveries(data.deliveries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load deliveries');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRedeliver = async (id: string) => {
+    try {
+      setRedeliveringId(id);
+      setError('');
+      await post(`/webhooks/${webhookId}/deliveries/${id}/redeliver`);
+      await loadDeliveries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to redeliver');
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-secondary-500">Loading deliveries...</p>;
+  }
+
+  return (
+    <div>
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-2">
+          {error}
+        </div>
+      )}
+
+      {deliveries.length === 0 ? (
+        <p className="text-sm text-secondary-500">Nothing sent yet.</p>
+      ) : (
+        <ul className="divide-y divide-secondary-200">
+          {deliveries.map(delivery => (
+            <li key={delivery.id} className="py-2">
+              <div className="flex items-start justify-between gap-4">
+                <button
+                  type="button"
+                  className="min-w-0 text-left"
+                  onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(delivery.status)}`}>
+                      {delivery.status}
+                    </span>
+                    <code className="text-sm text-secondary-900">{delivery.event}</code>
+                    {delivery.responseStatus && (
+                      <span className="text-xs text-secondary-600">HTTP {delivery.responseStatus}</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-secondary-500 mt-1">
+                    {new Date(delivery.deliveredAt ?? delivery.createdAt).toLocaleString()}
+                    {delivery.durationMs != null && ` · ${delivery.durationMs} ms`}
+                    {delivery.attempts > 1 && ` · ${delivery.attempts} attempts`}
+                    {delivery.status === 'queued' && delivery.attempts > 0 &&
+                      ` · next try ${new Date(delivery.nextAttemptAt).toLocaleString()}`}
+                  </div>
+                  {delivery.lastError && delivery.status !== 'delivered' && (
+                    <p className="text-xs text-red-600 mt-1">{delivery.lastError}</p>
+                  )}
+                </button>
+                {(delivery.status === 'failed' || delivery.status === 'delivered') && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRedeliver(delivery.id)}
+                    loading={redeliveringId === delivery.id}
+                  >
+                    Redeliver
+                  </Button>
+                )}
+              </div>
+
+              {expandedId === delivery.id && (
+                <div className="mt-2 space-y-2">
+                  <pre className="text-xs bg-secondary-100 rounded p-2 overflow-x-auto">
+                    {JSON.stringify(delivery.payload, null, 2)}
+                  </pre>
+                  {delivery.responseBody && (
+                    <pre className="text-xs bg-secondary-50 border border-secondary-200 rounded p-2 overflow-x-auto whitespace-pre-wrap">
+                      {delivery.responseBody}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
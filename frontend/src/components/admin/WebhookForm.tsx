@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Button, Input } from '@/components/ui';
+import { Webhook } from '@/types';
+import { post, put } from '@/utils/api';
+
+interface WebhookFormProps {
+  // Events a webhook can subscribe to, with what each one means
+  events: Record<string, string>;
+  webhook?: Webhook;
+  // The secret is only returned when a webhook is created
+  onSaved: (webhook: Webhook, secret?: string) => void;
+  onCancel: () => void;
+}
+
+// Where to send events and which ones; editing leaves the signing secret alone
+export function WebhookForm({ events, webhook, onSaved, onCancel }: WebhookFormProps) {
+  const [url, setUrl] = useState(webhook?.url || '');
+  const [description, setDescription] = useState(webhook?.description || '');
+  const [selected, setSelected] = useState<string[]>(webhook?.events || []);
+  const [active, setActive] = useState(webhook?.active ?? true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const toggleEvent = (event: string) => {
+    setSelected(prev => prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+
+    const body = { url, description: description || null, events: selected, active };
+
+    try {
+      if (webhook) {
+        const data = await put<{ webhook: Webhook }>(`/webhooks/${webhook.id}`, body);
+        onSaved(data.webhook);
+      } else {
+        const data = await post<{ webhook: Webhook; secret: string }>('/webhooks', body);
+        onSaved(data.webhook, data.secret);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save webhook');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="webhookUrl" className="block text-sm font-medium text-secondary-700 mb-2">
+          URL *
+        </label>
+        <Input
+          id="webhookUrl"
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://hooks.example.com/derji"
+          required
+        />
+      </div>
+
+      <div>
+        <label htmlFor="webhookDescription" className="block text-sm font-medium text-secondary-700 mb-2">
+          Description
+        </label>
+        <Input
+          id="webhookDescription"
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="CRM sync"
+        />
+      </div>
+
+      <div>
+        <p className="block text-sm font-medium text-secondary-700 mb-2">Events *</p>
+        <div className="space-y-2">
+          {Object.entries(events).map(([event, meaning]) => (
+            <label key={event} className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={selected.includes(event)}
+                onChange={() => toggleEvent(event)}
+                className="mt-0.5 h-4 w-4 text-primary-600 focus:ring-primary-500 border-secondary-300 rounded"
+              />
+              <span>
+                <code className="text-secondary-900">{event}</code>
+                <span className="block text-xs text-secondary-500">{meaning}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center">
+        <input
+          type="checkbox"
+          id="webhookActive"
+          checked={active}
+          onChange={(e) => setActive(e.target.checked)}
+          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-secondary-300 rounded"
+        />
+        <label htmlFor="webhookActive" className="ml-2 text-sm text-secondary-700">
+          Active; while paused, events wait and are sent once it is turned back on
+        </label>
+      </div>
+
+      {/* Actions */}
+      <div className="flex justify-end space-x-4 pt-4 border-t border-secondary-200">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          variant="primary"
+          disabled={isSubmitting || selected.length === 0}
+        >
+          {isSubmitting ? 'Saving...' : webhook ? 'Save Webhook' : 'Create Webhook'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -19,11 +19,31 @@ export { BookingDetails } from './BookingDetails';
 // Inquiry Management
 export { InquiryList } from './InquiryList';
 export { InquiryDetails } from './InquiryDetails';
+export { InquiryThread } from './InquiryThread';
+export { InquiryConversion } from './InquiryConversion';
+
+// Spam Review
+export { SpamReview } from './SpamReview';
+
+// Email
+export { EmailLog } from './EmailLog';
 
 // User Management
 export { UserList } from './UserList';
 export { UserForm } from './UserForm';
 
+// API Keys
+export { ApiKeyForm } from './ApiKeyForm';
+
+// Webhooks
+export { WebhookForm } from './WebhookForm';
+export { WebhookDeliveryLog } from './WebhookDeliveryLog';
+
+// Two-Factor Authentication
+export { TwoFactorSetupForm } from './TwoFactorSetupForm';
+export { TwoFactorSettings } from './TwoFactorSettings';
+export { RecoveryCodesList } from './RecoveryCodesList';
+
 // Analytics Components
 export { AnalyticsOverview } from './AnalyticsOverview';
 export { BookingAnalytics } from './BookingAnalytics';
@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { Button } from '../ui';
 import { cn } from '../../utils/cn';
+import { todayInZone } from '../../utils/timeZone';
 
 interface BookingCalendarProps {
   selectedDate: Date | null;
@@ -8,15 +9,19 @@ interface BookingCalendarProps {
   minDate?: Date;
   maxDate?: Date;
   disabledDates?: Date[];
+  closedWeekdays?: number[]; // 0 = Sunday ... 6 = Saturday
+  timeZone?: string; // studio zone the days refer to; defaults to the visitor's
   error?: string;
 }
 
 const BookingCalendar: React.FC<BookingCalendarProps> = ({
   selectedDate,
   onDateSelect,
-  minDate = new Date(),
+  minDate,
   maxDate,
   disabledDates = [],
+  closedWeekdays = [],
+  timeZone,
   error,
 }) => {
   const [currentMonth, setCurrentMonth] = useState(new Date());
@@ -59,21 +64,31 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({
     return days;
   }, [currentMonth]);
 
+  // Today on the studio's clock, which may already be tomorrow or still yesterday for the visitor
+  const studioToday = useMemo(() => {
+    if (timeZone) {
+      return todayInZone(timeZone);
+    }
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return today;
+  }, [timeZone]);
+
+  const effectiveMinDate = minDate || (timeZone ? studioToday : new Date());
+
   // Check if a date is disabled
   const isDateDisabled = (date: Date) => {
     // Disable past dates
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    if (date < today) return true;
+    if (date < studioToday) return true;
     
     // Disable dates beyond max date
     if (date > effectiveMaxDate) return true;
     
     // Disable dates before min date
-    if (date < minDate) return true;
+    if (date < effectiveMinDate) return true;
     
-    // Disable weekends (optional - can be configured per service)
-    // For now, we'll allow weekends but this could be service-specific
+    // Disable weekdays the studio is closed
+    if (closedWeekdays.includes(date.getDay())) return true;
     
     // Disable specifically disabled dates
     return disabledDates.some(disabledDate => 
@@ -94,8 +109,7 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({
 
   // Check if a date is today
   const isToday = (date: Date) => {
-    const today = new Date();
-    return date.toDateString() === today.toDateString();
+    return date.toDateString() === studioToday.toDateString();
   };
 
   // Navigate to previous month
@@ -121,7 +135,7 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({
     const prevMonth = new Date(currentMonth);
     prevMonth.setMonth(prevMonth.getMonth() - 1);
     prevMonth.setDate(1); // First day of previous month
-    return prevMonth >= minDate;
+    return prevMonth >= effectiveMinDate;
   };
 
   // Check if we can navigate to next month
@@ -263,6 +277,12 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({
           </div>
         </div>
 
+        {timeZone && (
+          <p className="form-help mt-2">
+            Dates follow the studio's calendar ({timeZone})
+          </p>
+        )}
+
         {error && (
           <p className="form-error mt-2">{error}</p>
         )}
@@ -1,13 +1,16 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Button, Input, Card, CardBody, Modal, ModalHeader, ModalBody, ModalFooter } from '../ui';
 import { useServices } from '../../hooks/useServices';
-import { useCreateBooking, useBookingAvailability } from '../../hooks/useBookings';
+import { useCreateBooking, useBookingAvailability, useJoinWaitlist } from '../../hooks/useBookings';
+import { useStudioSchedule } from '../../hooks/useSchedule';
+import { useChallenge } from '../../hooks/useChallenge';
 import { BookingFormData } from '../../types';
 import BookingCalendar from './BookingCalendar';
 import TimeSlotSelector from './TimeSlotSelector';
+import { toDateKey, fromDateKey, formatDateInZone, formatTimeInZone, getTimeZoneLabel } from '../../utils/timeZone';
 
 // Frontend booking form validation schema
 const bookingFormSchema = z.object({
@@ -25,13 +28,8 @@ const bookingFormSchema = z.object({
 }).refine((data) => {
   if (!data.startTime || !data.endTime) return true; // Let required validation handle empty values
   
-  const [startHour, startMinute] = data.startTime.split(':').map(Number);
-  const [endHour, endMinute] = data.endTime.split(':').map(Number);
-  
-  const startMinutes = startHour * 60 + startMinute;
-  const endMinutes = endHour * 60 + endMinute;
-  
-  return endMinutes > startMinutes;
+  // Slot times are ISO instants from the availability API
+  return new Date(data.endTime) > new Date(data.startTime);
 }, {
   message: 'End time must be after start time',
   path: ['endTime'],
@@ -53,6 +51,8 @@ const BookingForm: React.FC<BookingFormProps> = ({
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [bookingResult, setBookingResult] = useState<any>(null);
+  const [slotTaken, setSlotTaken] = useState(false);
+  const [waitlistJoined, setWaitlistJoined] = useState(false);
 
   const { data: services, loading: servicesLoading, error: servicesError } = useServices({ active: true });
   const servicesList = Array.isArray(services) ? services : [];
@@ -93,6 +93,8 @@ const BookingForm: React.FC<BookingFormProps> = ({
     control,
     watch,
     setValue,
+    getValues,
+    trigger,
     formState: { errors, isValid },
     reset,
   } = useForm<BookingFormValues>({
@@ -116,33 +118,51 @@ const BookingForm: React.FC<BookingFormProps> = ({
   const watchedDate = watch('bookingDate');
   const watchedStartTime = watch('startTime');
 
+  const selectedService = servicesList.find(service => service.id === watchedServiceId);
+
   const { data: availability = null, loading: availabilityLoading } = useBookingAvailability(
     selectedDate && watchedServiceId ? selectedDate : undefined,
-    watchedServiceId || undefined
+    watchedServiceId || undefined,
+    selectedService?.duration
+  );
+  const { data: studioSchedule } = useStudioSchedule();
+
+  // Closed weekdays and blackout dates from the studio schedule
+  const closedWeekdays = useMemo(
+    () => studioSchedule?.schedule.hours.filter(day => day.closed).map(day => day.weekday) || [],
+    [studioSchedule]
+  );
+  const blackoutDates = useMemo(
+    () => (studioSchedule?.blackoutDates || []).map(date => {
+      const [year, month, day] = date.split('-').map(Number);
+      return new Date(year, month - 1, day);
+    }),
+    [studioSchedule]
   );
-  const { execute: createBooking, loading: submitting, error: submitError } = useCreateBooking();
+  const { execute: createBooking, loading: creating, error: createError } = useCreateBooking();
+  const { getSolution, solving } = useChallenge();
+  const [challengeError, setChallengeError] = useState<string | null>(null);
+  const submitting = creating || solving;
+  const submitError = createError || challengeError;
+  const { mutate: joinWaitlist, loading: joiningWaitlist, error: joinWaitlistError } = useJoinWaitlist();
+
+  // Offer the waitlist once every slot of the day is taken, or the chosen one was taken meanwhile
+  const isDayFull = !!availability && !availability.closed && availability.slots.length > 0
+    && availability.slots.every(slot => !slot.available);
+  const showWaitlist = !!watchedDate && !!watchedServiceId && (isDayFull || slotTaken);
 
   // Update selected date when form date changes
   useEffect(() => {
     if (watchedDate) {
-      setSelectedDate(new Date(watchedDate));
+      setSelectedDate(fromDateKey(watchedDate));
     }
   }, [watchedDate]);
 
-  // Auto-set end time when start time changes (default 1 hour duration)
-  useEffect(() => {
-    if (watchedStartTime) {
-      const [hours, minutes] = watchedStartTime.split(':').map(Number);
-      const endTime = new Date();
-      endTime.setHours(hours + 1, minutes, 0, 0);
-      const endTimeString = endTime.toTimeString().slice(0, 5);
-      setValue('endTime', endTimeString);
-    }
-  }, [watchedStartTime, setValue]);
-
   const handleDateSelect = (date: Date) => {
     setSelectedDate(date);
-    setValue('bookingDate', date.toISOString().split('T')[0]);
+    setValue('bookingDate', toDateKey(date));
+    setSlotTaken(false);
+    setWaitlistJoined(false);
     // Reset time selection when date changes
     setValue('startTime', '');
     setValue('endTime', '');
@@ -155,9 +175,10 @@ const BookingForm: React.FC<BookingFormProps> = ({
 
   const onSubmit = async (data: BookingFormValues) => {
     try {
-      // Convert form data to API format
+      // Convert form data to API format; the server derives the studio day from the start time
+      const { bookingDate, ...bookingFields } = data;
       const bookingData: BookingFormData = {
-        ...data,
+        ...bookingFields,
         clientPhone: data.clientPhone || undefined,
         projectDetails: data.projectDetails || undefined,
         budgetRange: data.budgetRange || undefined,
@@ -165,7 +186,13 @@ const BookingForm: React.FC<BookingFormProps> = ({
         notes: data.notes || undefined,
       };
 
-      const result = await createBooking(bookingData);
+      setChallengeError(null);
+      const challenge = await getSolution().catch((error) => {
+        setChallengeError('We could not verify your browser. Please try again.');
+        throw error;
+      });
+
+      const result = await createBooking({ ...bookingData, ...challenge });
       setBookingResult(result);
       setShowConfirmation(true);
       
@@ -173,10 +200,41 @@ const BookingForm: React.FC<BookingFormProps> = ({
         onSuccess(result);
       }
     } catch (error) {
+      if ((error as any)?.status === 409) {
+        setSlotTaken(true);
+      }
       console.error('Booking submission failed:', error);
     }
   };
 
+  const handleJoinWaitlist = async () => {
+    if (!(await trigger(['clientName', 'clientEmail', 'clientPhone']))) {
+      return;
+    }
+
+    const { clientName, clientEmail, clientPhone, serviceId, bookingDate } = getValues();
+
+    try {
+      setChallengeError(null);
+      const challenge = await getSolution().catch((error) => {
+        setChallengeError('We could not verify your browser. Please try again.');
+        throw error;
+      });
+
+      await joinWaitlist({
+        clientName,
+        clientEmail,
+        clientPhone: clientPhone || undefined,
+        serviceId,
+        date: bookingDate,
+        ...challenge,
+      });
+      setWaitlistJoined(true);
+    } catch (error) {
+      console.error('Joining the waitlist failed:', error);
+    }
+  };
+
   const handleConfirmationClose = () => {
     setShowConfirmation(false);
     setBookingResult(null);
@@ -186,8 +244,6 @@ const BookingForm: React.FC<BookingFormProps> = ({
     }
   };
 
-  const selectedService = servicesList.find(service => service.id === watchedServiceId);
-
   return (
     <>
       <Card>
@@ -262,6 +318,9 @@ const BookingForm: React.FC<BookingFormProps> = ({
                   <BookingCalendar
                     selectedDate={selectedDate}
                     onDateSelect={handleDateSelect}
+                    closedWeekdays={closedWeekdays}
+                    disabledDates={blackoutDates}
+                    timeZone={studioSchedule?.schedule.timeZone}
                     error={errors.bookingDate?.message}
                   />
                 )}
@@ -280,6 +339,35 @@ const BookingForm: React.FC<BookingFormProps> = ({
                   endTimeError={errors.endTime?.message}
                 />
               )}
+
+              {/* Waitlist */}
+              {showWaitlist && (
+                waitlistJoined ? (
+                  <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+                    <p className="text-green-800 text-sm">
+                      You're on the waitlist. If a slot opens up on this day we'll email you a link to book it.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="p-4 bg-secondary-50 rounded-lg border border-secondary-200">
+                    <h4 className="font-semibold text-secondary-900 mb-2">This day is fully booked</h4>
+                    <p className="text-sm text-secondary-700 mb-4">
+                      Join the waitlist and we'll email you if a slot opens up. We'll hold it for you for a while so you have time to book it.
+                    </p>
+                    {(joinWaitlistError || challengeError) && (
+                      <p className="form-error mb-4">{joinWaitlistError || challengeError}</p>
+                    )}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleJoinWaitlist}
+                      loading={joiningWaitlist || solving}
+                    >
+                      Join the Waitlist
+                    </Button>
+                  </div>
+                )
+              )}
             </div>
 
             {/* Project Details */}
@@ -433,8 +521,12 @@ const BookingForm: React.FC<BookingFormProps> = ({
                 <div className="space-y-1 text-sm text-secondary-700">
                   <p><strong>Booking ID:</strong> {bookingResult.id}</p>
                   <p><strong>Service:</strong> {selectedService?.name}</p>
-                  <p><strong>Date:</strong> {new Date(bookingResult.bookingDate).toLocaleDateString()}</p>
-                  <p><strong>Time:</strong> {bookingResult.startTime} - {bookingResult.endTime}</p>
+                  <p><strong>Date:</strong> {formatDateInZone(bookingResult.startTime, bookingResult.timeZone)}</p>
+                  <p>
+                    <strong>Time:</strong> {formatTimeInZone(bookingResult.startTime, bookingResult.timeZone)} -{' '}
+                    {formatTimeInZone(bookingResult.endTime, bookingResult.timeZone)}{' '}
+                    {getTimeZoneLabel(bookingResult.startTime, bookingResult.timeZone)}
+                  </p>
                   <p><strong>Status:</strong> Pending Confirmation</p>
                 </div>
               </div>
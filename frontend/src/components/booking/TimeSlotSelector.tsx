@@ -1,16 +1,20 @@
 import React, { useMemo } from 'react';
 import { Button, Spinner } from '../ui';
 import { cn } from '../../utils/cn';
+import { formatTimeInZone, getTimeZoneLabel, getVisitorTimeZone } from '../../utils/timeZone';
 
 interface TimeSlot {
-  startTime: string;
-  endTime: string;
+  startTime: string; // ISO instant
+  endTime: string; // ISO instant
   available: boolean;
   serviceTypes?: string[];
 }
 
 interface AvailabilityData {
   date: string;
+  timeZone?: string; // studio zone; defaults to UTC
+  closed?: boolean;
+  businessHours?: { start: string; end: string } | null;
   slots: TimeSlot[];
 }
 
@@ -35,28 +39,8 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({
   startTimeError,
   endTimeError,
 }) => {
-  // Generate default time slots if no availability data
-  const defaultTimeSlots = useMemo(() => {
-    const slots: TimeSlot[] = [];
-    const startHour = 9; // 9 AM
-    const endHour = 17; // 5 PM
-    
-    for (let hour = startHour; hour < endHour; hour++) {
-      const startTime = `${hour.toString().padStart(2, '0')}:00`;
-      const endTime = `${(hour + 1).toString().padStart(2, '0')}:00`;
-      
-      slots.push({
-        startTime,
-        endTime,
-        available: true,
-      });
-    }
-    
-    return slots;
-  }, []);
-
-  // Use availability data or fall back to default slots
-  const timeSlots = availability?.slots || defaultTimeSlots;
+  // Slots come from the server, which applies the studio's opening hours and buffers
+  const timeSlots = useMemo(() => availability?.slots || [], [availability]);
 
   // Filter slots that are available for the selected service
   const availableSlots = useMemo(() => {
@@ -73,7 +57,15 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({
     });
   }, [timeSlots, serviceId]);
 
-  // Format time for display (12-hour format)
+  const studioTimeZone = availability?.timeZone || 'UTC';
+  const visitorTimeZone = useMemo(() => getVisitorTimeZone(), []);
+
+  // Only show a second clock when the visitor's time actually differs from the studio's
+  const showVisitorTime = useMemo(() => timeSlots.some(slot =>
+    formatTimeInZone(slot.startTime, studioTimeZone) !== formatTimeInZone(slot.startTime, visitorTimeZone)
+  ), [timeSlots, studioTimeZone, visitorTimeZone]);
+
+  // Format an 'HH:MM' studio clock time for display (12-hour format)
   const formatTime = (time: string) => {
     const [hours, minutes] = time.split(':').map(Number);
     const period = hours >= 12 ? 'PM' : 'AM';
@@ -86,15 +78,11 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({
     return selectedStartTime === startTime;
   };
 
+  const selectedSlot = availableSlots.find(slot => slot.startTime === selectedStartTime);
+
   // Get time slot duration in minutes
   const getSlotDuration = (startTime: string, endTime: string) => {
-    const [startHours, startMinutes] = startTime.split(':').map(Number);
-    const [endHours, endMinutes] = endTime.split(':').map(Number);
-    
-    const startTotalMinutes = startHours * 60 + startMinutes;
-    const endTotalMinutes = endHours * 60 + endMinutes;
-    
-    return endTotalMinutes - startTotalMinutes;
+    return Math.round((new Date(endTime).getTime() - new Date(startTime).getTime()) / 60000);
   };
 
   if (loading) {
@@ -122,9 +110,13 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
               </svg>
             </div>
-            <h4 className="font-medium text-secondary-900 mb-2">No Available Times</h4>
+            <h4 className="font-medium text-secondary-900 mb-2">
+              {availability?.closed ? 'Studio Closed' : 'No Available Times'}
+            </h4>
             <p className="text-sm text-secondary-600">
-              No time slots are available for the selected date and service. Please choose a different date.
+              {availability?.closed
+                ? 'The studio is closed on the selected date. Please choose a different date.'
+                : 'No time slots are available for the selected date and service. Please choose a different date.'}
             </p>
           </div>
         </div>
@@ -144,6 +136,9 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({
               month: 'long', 
               day: 'numeric' 
             })}
+            {availability?.businessHours && (
+              <> (open {formatTime(availability.businessHours.start)} - {formatTime(availability.businessHours.end)})</>
+            )}
           </p>
         </div>
 
@@ -169,8 +164,13 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({
                 )}
               >
                 <span className="font-medium">
-                  {formatTime(slot.startTime)}
+                  {formatTimeInZone(slot.startTime, studioTimeZone)}
                 </span>
+                {showVisitorTime && (
+                  <span className="text-xs opacity-75">
+                    {formatTimeInZone(slot.startTime, visitorTimeZone)} your time
+                  </span>
+                )}
                 <span className="text-xs opacity-75 mt-1">
                   {duration} min
                 </span>
@@ -180,17 +180,22 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({
         </div>
 
         {/* Selected Time Display */}
-        {selectedStartTime && (
+        {selectedSlot && (
           <div className="mt-4 pt-4 border-t border-secondary-200">
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-secondary-900">Selected Time:</p>
                 <p className="text-sm text-secondary-600">
-                  {formatTime(selectedStartTime)} - {
-                    availableSlots.find(slot => slot.startTime === selectedStartTime)?.endTime &&
-                    formatTime(availableSlots.find(slot => slot.startTime === selectedStartTime)!.endTime)
-                  }
+                  {formatTimeInZone(selectedSlot.startTime, studioTimeZone)} -{' '}
+                  {formatTimeInZone(selectedSlot.endTime, studioTimeZone)}{' '}
+                  {getTimeZoneLabel(selectedSlot.startTime, studioTimeZone)}
                 </p>
+                {showVisitorTime && (
+                  <p className="text-xs text-secondary-500">
+                    {formatTimeInZone(selectedSlot.startTime, visitorTimeZone)} -{' '}
+                    {formatTimeInZone(selectedSlot.endTime, visitorTimeZone)} in your time zone
+                  </p>
+                )}
               </div>
               <Button
                 type="button"
@@ -218,7 +223,10 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({
                 <span>Selected</span>
               </div>
             </div>
-            <span>All times shown in local timezone</span>
+            <span>
+              Times shown in studio time ({studioTimeZone})
+              {showVisitorTime && <>, with your time ({visitorTimeZone}) below</>}
+            </span>
           </div>
         </div>
       </div>
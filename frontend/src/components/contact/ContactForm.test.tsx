@@ -11,6 +11,14 @@ vi.mock('../../hooks/useContact', () => ({
   }),
 }));
 
+// Mock the challenge so submissions don't fetch or solve one
+vi.mock('../../hooks/useChallenge', () => ({
+  useChallenge: () => ({
+    getSolution: vi.fn().mockResolvedValue({ challenge: 'challenge', challengeSolution: '0' }),
+    solving: false,
+  }),
+}));
+
 describe('ContactForm', () => {
   it('renders all form fields', () => {
     render(<ContactForm />);
@@ -4,6 +4,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Button, Card, CardBody, Input } from '../ui';
 import { useSubmitContact } from '../../hooks/useContact';
+import { useChallenge } from '../../hooks/useChallenge';
 import { ContactFormData } from '../../types';
 
 // Validation schema using Zod
@@ -31,7 +32,9 @@ const ContactForm: React.FC<ContactFormProps> = ({ onSuccess, className }) => {
   const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [submitMessage, setSubmitMessage] = useState<string>('');
   
-  const { mutate: submitContact, loading } = useSubmitContact();
+  const { mutate: submitContact, loading: submitting } = useSubmitContact();
+  const { getSolution, solving } = useChallenge();
+  const loading = submitting || solving;
   
   const {
     register,
@@ -54,9 +57,11 @@ const ContactForm: React.FC<ContactFormProps> = ({ onSuccess, className }) => {
         subject: data.subject,
         message: data.message,
         serviceInterest: data.serviceInterest,
+        // Campaign links tag the visit so inquiries can be reported per source
+        source: new URLSearchParams(window.location.search).get('utm_source') || undefined,
       };
       
-      await submitContact(formData);
+      await submitContact({ ...formData, ...(await getSolution()) });
       
       setSubmitStatus('success');
       setSubmitMessage('Thank you for your message! We\'ll get back to you within 24 hours.');
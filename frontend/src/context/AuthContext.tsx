@@ -1,15 +1,20 @@
-import { createContext, useContext, useEffect, ReactNode } from 'react';
-import { User } from '@/types';
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { AuthSession, TwoFactorChallenge, User } from '@/types';
 import { useAppContext } from './AppContext';
-import { get, post } from '@/utils/api';
+import { post, setCsrfToken, SESSION_MARKER_KEY } from '@/utils/api';
 
 // Auth context interface
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves with a challenge when the login still needs a second factor
+  login: (email: string, password: string) => Promise<TwoFactorChallenge | null>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
+  enableTwoFactorAtLogin: (challengeToken: string, code: string) => Promise<string[]>;
+  acceptInvitation: (token: string, details: { password: string; firstName?: string; lastName?: string }) => Promise<void>;
   logout: () => Promise<void>;
+  logoutEverywhere: () => Promise<void>;
   refreshToken: () => Promise<void>;
   checkAuth: () => Promise<void>;
 }
@@ -24,25 +29,37 @@ interface AuthProviderProps {
 
 export function AuthProvider({ children }: AuthProviderProps) {
   const { state, setUser, setLoading, setError, clearError } = useAppContext();
+  // When the current access token expires, from the last login or refresh
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  
+  // The tokens are in httpOnly cookies; keep what the page needs from the response
+  const startSession = (session: AuthSession) => {
+    localStorage.setItem(SESSION_MARKER_KEY, 'true');
+    setCsrfToken(session.csrfToken);
+    setExpiresAt(Date.now() + session.expiresIn * 1000);
+    setUser(session.user);
+  };
+  
+  const endSession = () => {
+    localStorage.removeItem(SESSION_MARKER_KEY);
+    setCsrfToken(null);
+    setExpiresAt(null);
+    setUser(null);
+  };
   
   // Login function
-  const login = async (email: string, password: string): Promise<void> => {
+  const login = async (email: string, password: string): Promise<TwoFactorChallenge | null> => {
     try {
       setLoading(true);
       clearError();
       
-      const response = await post<{
-        user: User;
-        accessToken: string;
-        refreshToken: string;
-      }>('/auth/login', { email, password });
-      
-      // Store tokens
-      localStorage.setItem('authToken', response.accessToken);
-      localStorage.setItem('refreshToken', response.refreshToken);
+      const response = await post<AuthSession | TwoFactorChallenge>('/auth/login', { email, password });
+      if ('challengeToken' in response) {
+        return response;
+      }
       
-      // Set user in state
-      setUser(response.user);
+      startSession(response);
+      return null;
       
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Login failed';
@@ -53,26 +70,53 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
   
+  // Finish a login with a code from the authenticator app or a recovery code
+  const verifyTwoFactor = async (challengeToken: string, code: string): Promise<void> => {
+    const response = await post<AuthSession>('/auth/login/2fa', { challengeToken, code }, { retryConfig: { retries: 0 } });
+    startSession(response);
+  };
+  
+  // Finish the two-factor setup a login required; the recovery codes are only shown now
+  const enableTwoFactorAtLogin = async (challengeToken: string, code: string): Promise<string[]> => {
+    const response = await post<AuthSession & { recoveryCodes: string[] }>(
+      '/auth/login/2fa/enable',
+      { challengeToken, code },
+      { retryConfig: { retries: 0 } }
+    );
+    startSession(response);
+    return response.recoveryCodes;
+  };
+  
+  // Create the invited account and sign in to it
+  const acceptInvitation = async (
+    token: string,
+    details: { password: string; firstName?: string; lastName?: string }
+  ): Promise<void> => {
+    try {
+      setLoading(true);
+      clearError();
+      
+      const response = await post<AuthSession>(`/auth/invitations/${encodeURIComponent(token)}/accept`, details);
+      startSession(response);
+      
+    } finally {
+      setLoading(false);
+    }
+  };
+  
   // Logout function
   const logout = async (): Promise<void> => {
     try {
       setLoading(true);
       
-      // Call logout endpoint if token exists
-      const token = localStorage.getItem('authToken');
-      if (token) {
-        try {
-          await post('/auth/logout');
-        } catch (error) {
-          // Ignore logout API errors, still clear local state
-          console.warn('Logout API call failed:', error);
-        }
+      try {
+        await post('/auth/logout', undefined, { retryConfig: { retries: 0 } });
+      } catch (error) {
+        // Ignore logout API errors, still clear local state
+        console.warn('Logout API call failed:', error);
       }
       
-      // Clear tokens and user state
-      localStorage.removeItem('authToken');
-      localStorage.removeItem('refreshToken');
-      setUser(null);
+      endSession();
       clearError();
       
     } catch (error) {
@@ -82,40 +126,35 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
   
-  // Refresh token function
-  const refreshToken = async (): Promise<void> => {
-    const refreshTokenValue = localStorage.getItem('refreshToken');
-    if (!refreshTokenValue) {
-      throw new Error('No refresh token available');
+  // Sign out of every device, this one included
+  const logoutEverywhere = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      await post('/auth/logout-all');
+      endSession();
+      clearError();
+    } finally {
+      setLoading(false);
     }
-    
+  };
+  
+  // Refresh token function; the refresh token travels as a cookie
+  const refreshToken = async (): Promise<void> => {
     try {
-      const response = await post<{
-        user: User;
-        accessToken: string;
-        refreshToken: string;
-      }>('/auth/refresh', { refreshToken: refreshTokenValue });
-      
-      // Update tokens
-      localStorage.setItem('authToken', response.accessToken);
-      localStorage.setItem('refreshToken', response.refreshToken);
-      
-      // Update user in state
-      setUser(response.user);
+      const response = await post<AuthSession>('/auth/refresh', undefined, { retryConfig: { retries: 0 } });
+      startSession(response);
       
     } catch (error) {
-      // Refresh failed, clear tokens and redirect to login
-      localStorage.removeItem('authToken');
-      localStorage.removeItem('refreshToken');
-      setUser(null);
+      // Refresh failed, the session is over
+      endSession();
       throw error;
     }
   };
   
   // Check authentication status
   const checkAuth = async (): Promise<void> => {
-    const token = localStorage.getItem('authToken');
-    if (!token) {
+    // Visitors who never signed in have no session to restore
+    if (!localStorage.getItem(SESSION_MARKER_KEY)) {
       setUser(null);
       return;
     }
@@ -123,20 +162,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
     try {
       setLoading(true);
       
-      // Verify token with backend
-      const user = await get<User>('/auth/me');
-      setUser(user);
+      // A page load has no CSRF token or access token expiry, so start from a refresh
+      await refreshToken();
       
     } catch (error) {
-      // Token invalid, try to refresh
-      try {
-        await refreshToken();
-      } catch (refreshError) {
-        // Refresh failed, clear everything
-        localStorage.removeItem('authToken');
-        localStorage.removeItem('refreshToken');
-        setUser(null);
-      }
+      // Session is gone, stay signed out
     } finally {
       setLoading(false);
     }
@@ -149,42 +179,30 @@ export function AuthProvider({ children }: AuthProviderProps) {
   
   // Auto-refresh token before expiration
   useEffect(() => {
-    if (!state.isAuthenticated) return;
+    if (!state.isAuthenticated || expiresAt === null) return;
     
-    const token = localStorage.getItem('authToken');
-    if (!token) return;
+    // Refresh a minute before expiration
+    const refreshTime = Math.max(expiresAt - Date.now() - 60 * 1000, 0);
     
-    // Parse JWT to get expiration (simplified - in production use a proper JWT library)
-    try {
-      const payload = JSON.parse(atob(token.split('.')[1]));
-      const expirationTime = payload.exp * 1000; // Convert to milliseconds
-      const currentTime = Date.now();
-      const timeUntilExpiration = expirationTime - currentTime;
-      
-      // Refresh 5 minutes before expiration
-      const refreshTime = Math.max(timeUntilExpiration - 5 * 60 * 1000, 0);
-      
-      if (refreshTime > 0) {
-        const timeoutId = setTimeout(() => {
-          refreshToken().catch((error) => {
-            console.error('Auto-refresh failed:', error);
-            logout();
-          });
-        }, refreshTime);
-        
-        return () => clearTimeout(timeoutId);
-      }
-    } catch (error) {
-      console.error('Error parsing token:', error);
-    }
-  }, [state.isAuthenticated]);
+    const timeoutId = setTimeout(() => {
+      refreshToken().catch((error) => {
+        console.error('Auto-refresh failed:', error);
+      });
+    }, refreshTime);
+    
+    return () => clearTimeout(timeoutId);
+  }, [state.isAuthenticated, expiresAt]);
   
   const value: AuthContextType = {
     user: state.user,
     isAuthenticated: state.isAuthenticated,
     isLoading: state.isLoading,
     login,
+    verifyTwoFactor,
+    enableTwoFactorAtLogin,
+    acceptInvitation,
     logout,
+    logoutEverywhere,
     refreshToken,
     checkAuth,
   };
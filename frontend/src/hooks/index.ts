@@ -10,9 +10,15 @@ export * from './usePortfolio';
 // Booking hooks
 export * from './useBookings';
 
+// Schedule hooks
+export * from './useSchedule';
+
 // Contact hooks
 export * from './useContact';
 
+// Form challenge hooks
+export * from './useChallenge';
+
 // Error handling hooks
 export * from './useErrorHandler';
 
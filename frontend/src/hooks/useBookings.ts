@@ -1,32 +1,38 @@
 import { useCallback, useMemo } from 'react';
-import { Booking, BookingFormData } from '@/types';
+import { Booking, BookingFormData, ManagedBooking, WaitlistEntry, WaitlistFormData, WaitlistOffer, ChallengeSolution } from '@/types';
 import { useGet, usePost, usePut, useDelete } from './useApi';
 import { get, post } from '@/utils/api';
+import { toDateKey } from '@/utils/timeZone';
 
 // Interface for availability slots
 interface TimeSlot {
   startTime: string;
   endTime: string;
   available: boolean;
-  serviceTypes: string[];
+  serviceTypes?: string[];
 }
 
 // Hook for fetching booking availability
-export function useBookingAvailability(date?: Date, serviceId?: string) {
+export function useBookingAvailability(date?: Date, serviceId?: string, duration?: number) {
   const queryString = useMemo(() => {
     const queryParams = new URLSearchParams();
-    if (date) queryParams.append('date', date.toISOString().split('T')[0]);
+    // The picked day is a studio calendar day, not an instant in the visitor's zone
+    if (date) queryParams.append('date', toDateKey(date));
     if (serviceId) queryParams.append('serviceId', serviceId);
+    if (duration) queryParams.append('duration', duration.toString());
     return queryParams.toString();
-  }, [date?.toISOString().split('T')[0], serviceId]);
+  }, [date && toDateKey(date), serviceId, duration]);
   
   const url = `/bookings/availability${queryString ? `?${queryString}` : ''}`;
   
   const result = useGet<{
     date: string;
+    timeZone: string;
     serviceId?: string;
     duration: number;
-    businessHours: any;
+    closed: boolean;
+    businessHours: { start: string; end: string } | null;
+    slotIntervalMinutes: number;
     availableSlots: TimeSlot[];
     bookedSlots: any[];
     summary: any;
@@ -41,6 +47,9 @@ export function useBookingAvailability(date?: Date, serviceId?: string) {
     ...result,
     data: result.data ? {
       date: result.data.date,
+      timeZone: result.data.timeZone,
+      closed: result.data.closed,
+      businessHours: result.data.businessHours,
       slots: result.data.availableSlots,
     } : null,
   };
@@ -79,14 +88,14 @@ export function useBooking(id: string) {
 
 // Hook for creating bookings
 export function useCreateBooking() {
-  const result = usePost<BookingFormData, { booking: Booking }>('/bookings', {
+  const result = usePost<BookingFormData & ChallengeSolution, { booking: Booking }>('/bookings', {
     optimistic: false, // Don't use optimistic updates for bookings due to availability constraints
   });
 
   // Transform the result to return just the booking
   return {
     ...result,
-    execute: async (data: BookingFormData) => {
+    execute: async (data: BookingFormData & ChallengeSolution) => {
       const response = await result.execute(data);
       return response.booking;
     },
@@ -105,6 +114,46 @@ export function useCancelBooking(id: string) {
   return useDelete<void>(`/bookings/${id}`);
 }
 
+// Hook for fetching a booking through the client's emailed link
+export function useManagedBooking(token: string) {
+  return useGet<ManagedBooking>(`/bookings/manage/${token}`, {
+    immediate: !!token,
+    cacheKey: `managed_booking_${token}`,
+    cacheDuration: 0, // Always show the latest state of the booking
+  });
+}
+
+// Hook for rescheduling a booking through the client's emailed link
+export function useRescheduleManagedBooking(token: string) {
+  return usePut<{ startTime: string; endTime: string }, { booking: Booking }>(
+    `/bookings/manage/${token}`
+  );
+}
+
+// Hook for cancelling a booking through the client's emailed link
+export function useCancelManagedBooking(token: string) {
+  return useDelete<{ booking: Booking }>(`/bookings/manage/${token}`);
+}
+
+// Hook for joining the waitlist for a fully booked day
+export function useJoinWaitlist() {
+  return usePost<WaitlistFormData & ChallengeSolution, { entry: WaitlistEntry }>('/bookings/waitlist');
+}
+
+// Hook for fetching the slot held for a waitlisted client through their emailed link
+export function useWaitlistOffer(token: string) {
+  return useGet<{ offer: WaitlistOffer }>(`/bookings/waitlist/offer/${token}`, {
+    immediate: !!token,
+    cacheKey: `waitlist_offer_${token}`,
+    cacheDuration: 0, // The hold can run out at any time
+  });
+}
+
+// Hook for booking the held slot through the client's emailed link
+export function useClaimWaitlistOffer(token: string) {
+  return usePost<void, { booking: Booking }>(`/bookings/waitlist/offer/${token}/claim`);
+}
+
 // Custom hook for checking availability
 export function useAvailabilityChecker() {
   const checkAvailability = useCallback(async (
@@ -114,7 +163,7 @@ export function useAvailabilityChecker() {
     serviceId?: string
   ) => {
     const queryParams = new URLSearchParams({
-      date: date.toISOString().split('T')[0],
+      date: toDateKey(date),
       startTime,
       endTime,
     });
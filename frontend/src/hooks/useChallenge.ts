@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Challenge, ChallengeSolution } from '@/types';
+import { get } from '@/utils/api';
+import { solveChallenge } from '@/utils/proofOfWork';
+
+// Fetch a fresh challenge rather than submit one this close to expiring
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+interface PreparedSolution {
+  solution: Promise<ChallengeSolution>;
+  expiresAt: number;
+}
+
+function solveInWorker(challenge: string, difficulty: number): Promise<string> {
+  // Browsers without workers, and tests, solve on the main thread
+  if (typeof Worker === 'undefined') {
+    return solveChallenge(challenge, difficulty);
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/challengeSolver.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<{ solution: string }>) => {
+      worker.terminate();
+      resolve(event.data.solution);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Failed to solve the form challenge'));
+    };
+    worker.postMessage({ challenge, difficulty });
+  });
+}
+
+/**
+ * Proof-of-work challenge for a public form. A challenge is fetched and solved in the
+ * background as soon as the form mounts, so it is usually ready by the time the
+ * visitor submits. Each solution is good for one submission.
+ */
+export function useChallenge() {
+  const prepared = useRef<PreparedSolution | null>(null);
+  const [solving, setSolving] = useState(false);
+
+  const prepare = useCallback((): PreparedSolution => {
+    const next: PreparedSolution = {
+      expiresAt: Number.POSITIVE_INFINITY,
+      solution: get<Challenge>('/challenge').then(async ({ challenge, difficulty, expiresAt }) => {
+        next.expiresAt = new Date(expiresAt).getTime();
+        return { challenge, challengeSolution: await solveInWorker(challenge, difficulty) };
+      }),
+    };
+
+    // Failures surface when the solution is asked for
+    next.solution.catch(() => undefined);
+    prepared.current = next;
+    return next;
+  }, []);
+
+  useEffect(() => {
+    prepare();
+  }, [prepare]);
+
+  // Solution to send with the next submission; waits if it is still being worked out
+  const getSolution = useCallback(async (): Promise<ChallengeSolution> => {
+    let current = prepared.current;
+    if (!current || current.expiresAt - EXPIRY_MARGIN_MS < Date.now()) {
+      current = prepare();
+    }
+    prepared.current = null;
+
+    try {
+      setSolving(true);
+      return await current.solution.catch(() => prepare().solution);
+    } finally {
+      prepared.current = null;
+      setSolving(false);
+    }
+  }, [prepare]);
+
+  return { getSolution, solving };
+}
@@ -1,5 +1,5 @@
 import { useCallback } from 'react';
-import { ContactInquiry, ContactFormData } from '@/types';
+import { ContactInquiry, ContactFormData, ChallengeSolution } from '@/types';
 import { useGet, usePost, usePut } from './useApi';
 
 // Hook for fetching contact inquiries (admin)
@@ -33,7 +33,7 @@ export function useContactInquiry(id: string) {
 
 // Hook for submitting contact forms
 export function useSubmitContact() {
-  return usePost<ContactFormData, ContactInquiry>('/contact', {
+  return usePost<ContactFormData & ChallengeSolution, ContactInquiry>('/contact', {
     optimistic: false, // Don't use optimistic updates for contact forms
   });
 }
@@ -0,0 +1,21 @@
+import { StudioSchedule, BlackoutDate } from '@/types';
+import { useGet } from './useApi';
+
+// Hook for fetching the public studio schedule (opening hours and closed dates)
+export function useStudioSchedule() {
+  return useGet<{
+    schedule: StudioSchedule;
+    blackoutDates: string[];
+  }>('/schedule', {
+    immediate: true,
+    cacheKey: 'studio_schedule',
+    cacheDuration: 10 * 60 * 1000, // 10 minutes cache
+  });
+}
+
+// Hook for fetching blackout dates with their reasons (admin)
+export function useBlackoutDates() {
+  return useGet<{ blackoutDates: BlackoutDate[] }>('/schedule/blackout-dates', {
+    immediate: true,
+  });
+}
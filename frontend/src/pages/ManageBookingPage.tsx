@@ -0,0 +1,213 @@
+import React, { useState, useMemo } from 'react';
+import { useParams } from 'react-router-dom';
+import { Button, Card, CardBody, Spinner } from '../components/ui';
+import { BookingCalendar, TimeSlotSelector } from '../components/booking';
+import {
+  useManagedBooking,
+  useRescheduleManagedBooking,
+  useCancelManagedBooking,
+  useBookingAvailability,
+} from '../hooks/useBookings';
+import { useStudioSchedule } from '../hooks/useSchedule';
+import { fromDateKey, formatDateInZone, formatTimeInZone, getTimeZoneLabel } from '../utils/timeZone';
+
+const ManageBookingPage: React.FC = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const { data, loading, error, refresh } = useManagedBooking(token);
+  const reschedule = useRescheduleManagedBooking(token);
+  const cancel = useCancelManagedBooking(token);
+  const { data: studioSchedule } = useStudioSchedule();
+
+  const [isRescheduling, setIsRescheduling] = useState(false);
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<{ startTime: string; endTime: string } | null>(null);
+  const [actionError, setActionError] = useState('');
+  const [actionMessage, setActionMessage] = useState('');
+
+  const booking = data?.booking;
+  const policy = data?.policy;
+  const studioTimeZone = booking?.timeZone || 'UTC';
+
+  const { data: availability = null, loading: availabilityLoading } = useBookingAvailability(
+    selectedDate || undefined,
+    booking?.serviceId,
+    booking?.service?.duration
+  );
+
+  const closedWeekdays = useMemo(
+    () => studioSchedule?.schedule.hours.filter(day => day.closed).map(day => day.weekday) || [],
+    [studioSchedule]
+  );
+  const blackoutDates = useMemo(
+    () => (studioSchedule?.blackoutDates || []).map(fromDateKey),
+    [studioSchedule]
+  );
+
+  const handleReschedule = async () => {
+    if (!selectedDate || !selectedSlot) {
+      return;
+    }
+
+    try {
+      setActionError('');
+      await reschedule.mutate({
+        startTime: selectedSlot.startTime,
+        endTime: selectedSlot.endTime,
+      });
+      setIsRescheduling(false);
+      setSelectedDate(null);
+      setSelectedSlot(null);
+      setActionMessage('Your booking has been moved. We will confirm the new time shortly.');
+      await refresh();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to reschedule booking');
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirm('Are you sure you want to cancel this booking?')) {
+      return;
+    }
+
+    try {
+      setActionError('');
+      await cancel.execute();
+      setActionMessage('Your booking has been cancelled.');
+      await refresh();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to cancel booking');
+    }
+  };
+
+  if (loading && !data) {
+    return (
+      <div className="flex justify-center py-16">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !booking || !policy) {
+    return (
+      <Card className="max-w-2xl mx-auto">
+        <CardBody>
+          <div className="text-center py-8">
+            <h1 className="text-2xl font-bold text-secondary-900 mb-2">Booking link not valid</h1>
+            <p className="text-secondary-600">
+              {error || 'This booking link is invalid or has expired. Please contact us if you need help with your booking.'}
+            </p>
+          </div>
+        </CardBody>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="heading-section text-secondary-900">Manage Your Booking</h1>
+        <p className="text-secondary-600 mt-2">Booking reference: {booking.id}</p>
+      </div>
+
+      {actionMessage && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+          {actionMessage}
+        </div>
+      )}
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {actionError}
+        </div>
+      )}
+
+      <Card>
+        <CardBody>
+          <div className="space-y-2 text-secondary-700">
+            <p><strong>Service:</strong> {booking.service?.name || 'General Service'}</p>
+            <p><strong>Date:</strong> {formatDateInZone(booking.startTime, studioTimeZone)}</p>
+            <p>
+              <strong>Time:</strong>{' '}
+              {formatTimeInZone(booking.startTime, studioTimeZone)} -{' '}
+              {formatTimeInZone(booking.endTime, studioTimeZone)}{' '}
+              {getTimeZoneLabel(booking.startTime, studioTimeZone)}
+            </p>
+            <p><strong>Status:</strong> <span className="capitalize">{booking.status}</span></p>
+            {booking.location && <p><strong>Location:</strong> {booking.location}</p>}
+          </div>
+        </CardBody>
+      </Card>
+
+      {policy.canChange ? (
+        <Card>
+          <CardBody>
+            <p className="text-sm text-secondary-600 mb-4">
+              You can reschedule or cancel online until{' '}
+              {new Date(policy.changeDeadline).toLocaleString()} ({policy.cancellationWindowHours} hours before your session).
+            </p>
+
+            {isRescheduling ? (
+              <div className="space-y-6">
+                <BookingCalendar
+                  selectedDate={selectedDate}
+                  onDateSelect={(date) => {
+                    setSelectedDate(date);
+                    setSelectedSlot(null);
+                  }}
+                  closedWeekdays={closedWeekdays}
+                  disabledDates={blackoutDates}
+                  timeZone={studioSchedule?.schedule.timeZone}
+                />
+
+                {selectedDate && booking.serviceId && (
+                  <TimeSlotSelector
+                    date={selectedDate}
+                    serviceId={booking.serviceId}
+                    selectedStartTime={selectedSlot?.startTime}
+                    onTimeSlotSelect={(startTime, endTime) => setSelectedSlot({ startTime, endTime })}
+                    availability={availability}
+                    loading={availabilityLoading}
+                  />
+                )}
+
+                <div className="flex justify-end space-x-3">
+                  <Button variant="outline" onClick={() => setIsRescheduling(false)}>
+                    Back
+                  </Button>
+                  <Button
+                    variant="primary"
+                    onClick={handleReschedule}
+                    disabled={!selectedSlot}
+                    loading={reschedule.loading}
+                  >
+                    Confirm New Time
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex space-x-3">
+                {booking.serviceId && (
+                  <Button variant="primary" onClick={() => setIsRescheduling(true)}>
+                    Reschedule
+                  </Button>
+                )}
+                <Button variant="outline" onClick={handleCancel} loading={cancel.loading}>
+                  Cancel Booking
+                </Button>
+              </div>
+            )}
+          </CardBody>
+        </Card>
+      ) : (
+        ['pending', 'confirmed'].includes(booking.status) && (
+          <p className="text-secondary-600">
+            Your session is less than {policy.cancellationWindowHours} hours away, so it can no longer be changed online.
+            Please contact us if you need to make changes.
+          </p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ManageBookingPage;
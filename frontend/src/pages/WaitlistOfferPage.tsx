@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Button, Card, CardBody, Spinner } from '../components/ui';
+import { useWaitlistOffer, useClaimWaitlistOffer } from '../hooks/useBookings';
+import { Booking } from '../types';
+import { formatDateInZone, formatTimeInZone, getTimeZoneLabel } from '../utils/timeZone';
+
+const WaitlistOfferPage: React.FC = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const { data, loading, error } = useWaitlistOffer(token);
+  const claim = useClaimWaitlistOffer(token);
+
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [actionError, setActionError] = useState('');
+
+  const offer = data?.offer;
+
+  const handleClaim = async () => {
+    try {
+      setActionError('');
+      const result = await claim.execute();
+      setBooking(result.booking);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to book the held slot');
+    }
+  };
+
+  if (loading && !data) {
+    return (
+      <div className="flex justify-center py-16">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !offer) {
+    return (
+      <Card className="max-w-2xl mx-auto">
+        <CardBody>
+          <div className="text-center py-8">
+            <h1 className="text-2xl font-bold text-secondary-900 mb-2">Offer no longer available</h1>
+            <p className="text-secondary-600">
+              {error || 'This offer has expired or has already been used. Please contact us if you still need a session.'}
+            </p>
+          </div>
+        </CardBody>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="heading-section text-secondary-900">A Slot Has Opened Up</h1>
+        <p className="text-secondary-600 mt-2">
+          Hello {offer.clientName}, we're holding this slot for you until{' '}
+          {formatDateInZone(offer.holdExpiresAt, offer.timeZone)} {formatTimeInZone(offer.holdExpiresAt, offer.timeZone)}{' '}
+          {getTimeZoneLabel(offer.holdExpiresAt, offer.timeZone)}.
+        </p>
+      </div>
+
+      {booking && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+          Your booking request has been submitted. We'll send you a confirmation email shortly.
+        </div>
+      )}
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {actionError}
+        </div>
+      )}
+
+      <Card>
+        <CardBody>
+          <div className="space-y-2 text-secondary-700">
+            <p><strong>Service:</strong> {offer.service?.name || 'General Service'}</p>
+            <p><strong>Date:</strong> {formatDateInZone(offer.startTime, offer.timeZone)}</p>
+            <p>
+              <strong>Time:</strong>{' '}
+              {formatTimeInZone(offer.startTime, offer.timeZone)} -{' '}
+              {formatTimeInZone(offer.endTime, offer.timeZone)}{' '}
+              {getTimeZoneLabel(offer.startTime, offer.timeZone)}
+            </p>
+          </div>
+
+          {!booking && (
+            <div className="flex justify-end mt-6">
+              <Button variant="golden" onClick={handleClaim} loading={claim.loading}>
+                Book This Slot
+              </Button>
+            </div>
+          )}
+        </CardBody>
+      </Card>
+    </div>
+  );
+};
+
+export default WaitlistOfferPage;
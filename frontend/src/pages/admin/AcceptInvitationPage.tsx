@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button, Input, Card, CardHeader, CardBody } from '@/components/ui';
+import { useAuth } from '@/context/AuthContext';
+import { UserInvitation } from '@/types';
+import { get } from '@/utils/api';
+
+const PASSWORD_RULE = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*(),.?":{}|<>])/;
+
+// Where an invited team member sets their password and signs in for the first time
+export default function AcceptInvitationPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const navigate = useNavigate();
+  const { acceptInvitation } = useAuth();
+
+  const [invitation, setInvitation] = useState<UserInvitation | null>(null);
+  const [isChecking, setIsChecking] = useState(true);
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!token) {
+      setIsChecking(false);
+      return;
+    }
+
+    get<{ invitation: UserInvitation }>(`/auth/invitations/${encodeURIComponent(token)}`)
+      .then(data => {
+        setInvitation(data.invitation);
+        setFirstName(data.invitation.firstName || '');
+        setLastName(data.invitation.lastName || '');
+      })
+      .catch(() => setInvitation(null))
+      .finally(() => setIsChecking(false));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password.length < 8 || !PASSWORD_RULE.test(password)) {
+      setError('Password must be at least 8 characters and contain a lowercase letter, an uppercase letter, a number and a special character.');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await acceptInvitation(token as string, {
+        password,
+        firstName: firstName.trim() || undefined,
+        lastName: lastName.trim() || undefined,
+      });
+      navigate('/admin/dashboard');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept the invitation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (isChecking) {
+      return <p className="text-center text-secondary-500">Checking your invitation...</p>;
+    }
+
+    if (!invitation) {
+      return (
+        <div className="space-y-6 text-center">
+          <p className="text-secondary-700">
+            This invitation is invalid, has expired or has already been used. Ask whoever invited you to send a new one.
+          </p>
+          <Link to="/admin/login" className="text-primary-600 hover:text-primary-700 font-medium">
+            Go to sign in
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <p className="text-sm text-secondary-600">
+          You've been invited to join as <span className="font-medium capitalize">{invitation.role}</span> with{' '}
+          <span className="font-medium">{invitation.email}</span>. Choose a password to finish setting up your account.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="firstName" className="block text-sm font-medium text-secondary-700 mb-2">
+              First Name
+            </label>
+            <Input
+              id="firstName"
+              type="text"
+              value={firstName}
+              onChange={(e) => setFirstName(e.target.value)}
+              autoComplete="given-name"
+              disabled={isLoading}
+              className="w-full"
+            />
+          </div>
+          <div>
+            <label htmlFor="lastName" className="block text-sm font-medium text-secondary-700 mb-2">
+              Last Name
+            </label>
+            <Input
+              id="lastName"
+              type="text"
+              value={lastName}
+              onChange={(e) => setLastName(e.target.value)}
+              autoComplete="family-name"
+              disabled={isLoading}
+              className="w-full"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-secondary-700 mb-2">
+            Password
+          </label>
+          <Input
+            id="password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="At least 8 characters"
+            autoComplete="new-password"
+            required
+            disabled={isLoading}
+            className="w-full"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="confirmPassword" className="block text-sm font-medium text-secondary-700 mb-2">
+            Confirm Password
+          </label>
+          <Input
+            id="confirmPassword"
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            placeholder="Enter the password again"
+            autoComplete="new-password"
+            required
+            disabled={isLoading}
+            className="w-full"
+          />
+        </div>
+
+        <Button
+          type="submit"
+          variant="primary"
+          size="lg"
+          disabled={isLoading}
+          className="w-full"
+        >
+          {isLoading ? 'Creating account...' : 'Create Account'}
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 to-secondary-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-primary-900 mb-2">
+            Derji Productions
+          </h1>
+          <p className="text-secondary-600">Admin Dashboard</p>
+        </div>
+
+        <Card className="shadow-xl">
+          <CardHeader>
+            <h2 className="text-2xl font-semibold text-center text-secondary-900">
+              Accept Invitation
+            </h2>
+          </CardHeader>
+
+          <CardBody>
+            {renderContent()}
+          </CardBody>
+        </Card>
+      </div>
+    </div>
+  );
+}
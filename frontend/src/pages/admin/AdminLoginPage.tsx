@@ -1,19 +1,37 @@
 import React, { useState } from 'react';
-import { useNavigate, Navigate } from 'react-router-dom';
+import { useNavigate, Navigate, Link } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
 import { Button, Input, Card, CardHeader, CardBody } from '@/components/ui';
+import { RecoveryCodesList } from '@/components/admin/RecoveryCodesList';
+import { TwoFactorSetupForm } from '@/components/admin/TwoFactorSetupForm';
+import { TwoFactorChallenge, TwoFactorSetup } from '@/types';
+import { post } from '@/utils/api';
+
+const TITLES = {
+  password: 'Sign In',
+  verify: 'Two-Factor Authentication',
+  setup: 'Set Up Two-Factor Authentication',
+  'recovery-codes': 'Save Your Recovery Codes',
+};
 
 export default function AdminLoginPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Set once the password is accepted but a second factor is still needed
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
   
-  const { login, isAuthenticated, user } = useAuth();
+  const { login, verifyTwoFactor, enableTwoFactorAtLogin, isAuthenticated } = useAuth();
   const navigate = useNavigate();
   
-  // Redirect if already authenticated as admin
-  if (isAuthenticated && user?.role === 'admin') {
+  const step = recoveryCodes ? 'recovery-codes' : challenge?.twoFactor ?? 'password';
+  
+  // Redirect if already signed in, unless the new recovery codes still need saving
+  if (isAuthenticated && !recoveryCodes) {
     return <Navigate to="/admin/dashboard" replace />;
   }
   
@@ -23,15 +41,17 @@ export default function AdminLoginPage() {
     setIsLoading(true);
     
     try {
-      await login(email, password);
-      
-      // Check if user is admin after login
-      if (user?.role !== 'admin') {
-        setError('Access denied. Admin privileges required.');
+      const result = await login(email, password);
+      if (!result) {
+        navigate('/admin/dashboard');
         return;
       }
       
-      navigate('/admin/dashboard');
+      setPassword('');
+      setChallenge(result);
+      if (result.twoFactor === 'setup') {
+        setSetup(await post<TwoFactorSetup>('/auth/login/2fa/setup', { challengeToken: result.challengeToken }));
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
@@ -39,6 +59,108 @@ export default function AdminLoginPage() {
     }
   };
   
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setError('');
+    setIsLoading(true);
+    
+    try {
+      await verifyTwoFactor(challenge.challengeToken, code.trim());
+      navigate('/admin/dashboard');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid authentication code');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  const handleEnable = async (setupCode: string) => {
+    if (!challenge) return;
+    setRecoveryCodes(await enableTwoFactorAtLogin(challenge.challengeToken, setupCode));
+  };
+  
+  // The challenge only lasts a few minutes; after that the password is needed again
+  const startOver = () => {
+    setChallenge(null);
+    setSetup(null);
+    setCode('');
+    setError('');
+  };
+  
+  const renderSecondFactor = () => {
+    if (step === 'recovery-codes' && recoveryCodes) {
+      return <RecoveryCodesList codes={recoveryCodes} onDone={() => navigate('/admin/dashboard')} />;
+    }
+    
+    if (step === 'setup') {
+      return (
+        <div className="space-y-6">
+          <p className="text-sm text-secondary-600">
+            Two-factor authentication is required for every account. Set it up to finish signing in.
+          </p>
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+              {error}
+            </div>
+          )}
+          {setup ? (
+            <TwoFactorSetupForm setup={setup} onSubmit={handleEnable} onCancel={startOver} />
+          ) : (
+            <p className="text-center text-secondary-500">Preparing your authenticator key...</p>
+          )}
+        </div>
+      );
+    }
+    
+    return (
+      <form onSubmit={handleVerify} className="space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+        
+        <div>
+          <label htmlFor="code" className="block text-sm font-medium text-secondary-700 mb-2">
+            Authentication Code
+          </label>
+          <Input
+            id="code"
+            type="text"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="6-digit code or a recovery code"
+            required
+            autoFocus
+            disabled={isLoading}
+            className="w-full"
+          />
+          <p className="text-xs text-secondary-500 mt-1">
+            Open your authenticator app, or use one of your recovery codes if you don't have it.
+          </p>
+        </div>
+        
+        <Button
+          type="submit"
+          variant="primary"
+          size="lg"
+          disabled={isLoading}
+          className="w-full"
+        >
+          {isLoading ? 'Verifying...' : 'Verify'}
+        </Button>
+        
+        <div className="text-center text-sm">
+          <button type="button" onClick={startOver} className="text-primary-600 hover:text-primary-700">
+            Sign in as someone else
+          </button>
+        </div>
+      </form>
+    );
+  };
+  
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary-50 to-secondary-50 flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -52,60 +174,68 @@ export default function AdminLoginPage() {
         <Card className="shadow-xl">
           <CardHeader>
             <h2 className="text-2xl font-semibold text-center text-secondary-900">
-              Sign In
+              {TITLES[step]}
             </h2>
           </CardHeader>
           
           <CardBody>
-            <form onSubmit={handleSubmit} className="space-y-6">
-              {error && (
-                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
-                  {error}
+            {step !== 'password' ? renderSecondFactor() : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {error && (
+                  <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+                    {error}
+                  </div>
+                )}
+              
+                <div>
+                  <label htmlFor="email" className="block text-sm font-medium text-secondary-700 mb-2">
+                    Email Address
+                  </label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="admin@derjiproductions.com"
+                    required
+                    disabled={isLoading}
+                    className="w-full"
+                  />
                 </div>
-              )}
               
-              <div>
-                <label htmlFor="email" className="block text-sm font-medium text-secondary-700 mb-2">
-                  Email Address
-                </label>
-                <Input
-                  id="email"
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  placeholder="admin@derjiproductions.com"
-                  required
-                  disabled={isLoading}
-                  className="w-full"
-                />
-              </div>
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-secondary-700 mb-2">
+                    Password
+                  </label>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Enter your password"
+                    required
+                    disabled={isLoading}
+                    className="w-full"
+                  />
+                </div>
               
-              <div>
-                <label htmlFor="password" className="block text-sm font-medium text-secondary-700 mb-2">
-                  Password
-                </label>
-                <Input
-                  id="password"
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  placeholder="Enter your password"
-                  required
+                <Button
+                  type="submit"
+                  variant="primary"
+                  size="lg"
                   disabled={isLoading}
                   className="w-full"
-                />
-              </div>
-              
-              <Button
-                type="submit"
-                variant="primary"
-                size="lg"
-                disabled={isLoading}
-                className="w-full"
-              >
-                {isLoading ? 'Signing In...' : 'Sign In'}
-              </Button>
-            </form>
+                >
+                  {isLoading ? 'Signing In...' : 'Sign In'}
+                </Button>
+
+                <div className="text-center text-sm">
+                  <Link to="/admin/reset-password" className="text-primary-600 hover:text-primary-700">
+                    Forgot your password?
+                  </Link>
+                </div>
+              </form>
+            )}
           </CardBody>
         </Card>
         
@@ -5,6 +5,7 @@ import { BookingAnalytics } from '@/components/admin/BookingAnalytics';
 import { PortfolioAnalytics } from '@/components/admin/PortfolioAnalytics';
 import { InquiryAnalytics } from '@/components/admin/InquiryAnalytics';
 import { Card, CardHeader, CardBody, Button } from '@/components/ui';
+import { InquiryConversionStats } from '@/types';
 import { get } from '@/utils/api';
 
 interface AnalyticsData {
@@ -37,6 +38,7 @@ interface AnalyticsData {
 
 export default function AnalyticsPage() {
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(null);
+  const [conversions, setConversions] = useState<InquiryConversionStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [dateRange, setDateRange] = useState({
@@ -46,6 +48,7 @@ export default function AnalyticsPage() {
 
   useEffect(() => {
     loadAnalytics();
+    loadConversions();
   }, [dateRange]);
 
   const loadAnalytics = async () => {
@@ -67,6 +70,20 @@ export default function AnalyticsPage() {
     }
   };
 
+  // Inquiry conversion rates come from the inquiry API, whole days inclusive
+  const loadConversions = async () => {
+    try {
+      const queryParams = new URLSearchParams({
+        dateFrom: new Date(`${dateRange.from}T00:00:00`).toISOString(),
+        dateTo: new Date(`${dateRange.to}T23:59:59.999`).toISOString(),
+      });
+
+      setConversions(await get<InquiryConversionStats>(`/contact/conversions?${queryParams.toString()}`));
+    } catch {
+      setConversions(null);
+    }
+  };
+
   const handleExportReport = async () => {
     try {
       const queryParams = new URLSearchParams({
@@ -77,9 +94,7 @@ export default function AnalyticsPage() {
       
       // This would typically trigger a file download
       const response = await fetch(`/api/analytics/export?${queryParams.toString()}`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
-        }
+        credentials: 'include'
       });
       
       if (response.ok) {
@@ -162,7 +177,7 @@ export default function AnalyticsPage() {
             </div>
             
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              <InquiryAnalytics data={analyticsData.inquiries} />
+              <InquiryAnalytics data={analyticsData.inquiries} conversions={conversions} />
               
               {/* Additional metrics can be added here */}
               <Card>
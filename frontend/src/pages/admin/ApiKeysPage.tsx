@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { ApiKeyForm } from '@/components/admin/ApiKeyForm';
+import { Button, Card, CardBody, Modal, ModalHeader, ModalBody } from '@/components/ui';
+import { ApiKey } from '@/types';
+import { get, del } from '@/utils/api';
+
+const isExpired = (apiKey: ApiKey) => !!apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date();
+
+export default function ApiKeysPage() {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  // The key just created, shown until dismissed; it can't be retrieved again
+  const [newKey, setNewKey] = useState<{ name: string; key: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    loadApiKeys();
+  }, []);
+
+  const loadApiKeys = async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+
+      const data = await get<{ apiKeys: ApiKey[]; scopes: string[] }>('/api-keys');
+      setApiKeys(data.apiKeys);
+      setScopes(data.scopes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API keys');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreated = (apiKey: ApiKey, key: string) => {
+    setIsFormOpen(false);
+    setNewKey({ name: apiKey.name, key });
+    setCopied(false);
+    loadApiKeys();
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+
+    try {
+      await navigator.clipboard.writeText(newKey.key);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Integrations using it will stop working straight away.`)) {
+      return;
+    }
+
+    try {
+      await del(`/api-keys/${apiKey.id}`);
+      await loadApiKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke API key');
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-secondary-900">API Keys</h1>
+            <p className="text-secondary-600 mt-2">
+              Let your website builder and automations use the API without sharing a password.
+            </p>
+          </div>
+          <Button variant="primary" onClick={() => setIsFormOpen(true)}>
+            Create Key
+          </Button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {newKey && (
+          <Card>
+            <CardBody>
+              <h2 className="text-xl font-semibold text-secondary-900 mb-2">{newKey.name}</h2>
+              <p className="text-sm text-secondary-600 mb-4">
+                Copy this key into your integration now; it won't be shown again. Send it in the
+                X-API-Key header.
+              </p>
+              <code className="block px-3 py-2 bg-secondary-100 rounded font-mono text-secondary-900 break-all select-all">
+                {newKey.key}
+              </code>
+              <div className="flex justify-end gap-2 mt-4">
+                <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+                  {copied ? 'Copied' : 'Copy'}
+                </Button>
+                <Button type="button" variant="primary" size="sm" onClick={() => setNewKey(null)}>
+                  Done
+                </Button>
+              </div>
+            </CardBody>
+          </Card>
+        )}
+
+        <Card>
+          <CardBody>
+            {isLoading ? (
+              <p className="text-secondary-500">Loading API keys...</p>
+            ) : apiKeys.length === 0 ? (
+              <p className="text-secondary-500">No API keys yet.</p>
+            ) : (
+              <ul className="divide-y divide-secondary-200">
+                {apiKeys.map(apiKey => (
+                  <li key={apiKey.id} className="py-4 flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <p className="font-medium text-secondary-900">
+                        {apiKey.name}
+                        <code className="ml-2 text-xs text-secondary-600">{apiKey.prefix}…</code>
+                        {isExpired(apiKey) && (
+                          <span className="ml-2 px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800">
+                            Expired
+                          </span>
+                        )}
+                      </p>
+                      <div className="flex flex-wrap gap-1">
+                        {apiKey.scopes.map(scope => (
+                          <span key={scope} className="px-2 py-0.5 text-xs rounded bg-secondary-100 text-secondary-700 font-mono">
+                            {scope}
+                          </span>
+                        ))}
+                      </div>
+                      <p className="text-sm text-secondary-600">
+                        Created by {apiKey.createdBy.firstName || apiKey.createdBy.email}
+                        {' · '}
+                        {apiKey.expiresAt
+                          ? `${isExpired(apiKey) ? 'expired' : 'expires'} ${new Date(apiKey.expiresAt).toLocaleDateString()}`
+                          : 'never expires'}
+                        {' · '}
+                        {apiKey.lastUsedAt
+                          ? `last used ${new Date(apiKey.lastUsedAt).toLocaleString()}${apiKey.lastUsedIp ? ` from ${apiKey.lastUsedIp}` : ''}`
+                          : 'never used'}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRevoke(apiKey)}
+                      className="text-red-600 hover:text-red-700 hover:border-red-300"
+                    >
+                      Revoke
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardBody>
+        </Card>
+
+        <Modal isOpen={isFormOpen} onClose={() => setIsFormOpen(false)}>
+          <ModalHeader>Create API Key</ModalHeader>
+          <ModalBody>
+            <ApiKeyForm
+              scopes={scopes}
+              onCreated={handleCreated}
+              onCancel={() => setIsFormOpen(false)}
+            />
+          </ModalBody>
+        </Modal>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -1,17 +1,21 @@
 import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { BookingList } from '@/components/admin/BookingList';
 import { BookingDetails } from '@/components/admin/BookingDetails';
-import { Modal, ModalHeader, ModalBody } from '@/components/ui';
-import { Booking } from '@/types';
-import { get, put } from '@/utils/api';
+import { Card, CardHeader, CardBody, Modal, ModalHeader, ModalBody } from '@/components/ui';
+import { Booking, BookingHistory, WaitlistEntry } from '@/types';
+import { get, put, post, del } from '@/utils/api';
 
 export default function BookingManagementPage() {
+  const navigate = useNavigate();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
+  const [selectedHistory, setSelectedHistory] = useState<BookingHistory | undefined>();
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
   const [filters, setFilters] = useState({
     status: '',
     dateFrom: '',
@@ -23,6 +27,10 @@ export default function BookingManagementPage() {
     loadBookings();
   }, [filters]);
 
+  useEffect(() => {
+    loadWaitlist();
+  }, []);
+
   const loadBookings = async () => {
     try {
       setIsLoading(true);
@@ -43,28 +51,112 @@ export default function BookingManagementPage() {
     }
   };
 
+  const loadWaitlist = async () => {
+    try {
+      const [waiting, offered] = await Promise.all([
+        get<{ entries: WaitlistEntry[] }>('/bookings/waitlist?status=waiting'),
+        get<{ entries: WaitlistEntry[] }>('/bookings/waitlist?status=offered'),
+      ]);
+      setWaitlist([...offered.entries, ...waiting.entries]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load waitlist');
+    }
+  };
+
+  const handleRemoveFromWaitlist = async (entry: WaitlistEntry) => {
+    if (!confirm(`Remove ${entry.clientName} from the waitlist?`)) {
+      return;
+    }
+
+    try {
+      await del(`/bookings/waitlist/${entry.id}`);
+      await loadWaitlist();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove waitlist entry');
+    }
+  };
+
+  const loadHistory = async (bookingId: string) => {
+    try {
+      setSelectedHistory(await get<BookingHistory>(`/bookings/${bookingId}/history`));
+    } catch {
+      // The details still make sense without the history
+      setSelectedHistory(undefined);
+    }
+  };
+
   const handleViewDetails = (booking: Booking) => {
     setSelectedBooking(booking);
+    setSelectedHistory(undefined);
     setIsDetailsOpen(true);
+    loadHistory(booking.id);
   };
 
   const handleStatusUpdate = async (bookingId: string, status: Booking['status']) => {
     try {
       await put(`/bookings/${bookingId}`, { status });
       await loadBookings();
+
+      // A cancellation may have offered the slot to the waitlist
+      if (status === 'cancelled') {
+        await loadWaitlist();
+      }
       
       // Update selected booking if it's the one being updated
       if (selectedBooking?.id === bookingId) {
         setSelectedBooking({ ...selectedBooking, status });
+        await loadHistory(bookingId);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update booking status');
     }
   };
 
+  const handleSpamMarked = async (bookingId: string, spam: boolean) => {
+    try {
+      const { booking } = await put<{ booking: Booking }>(`/bookings/${bookingId}/spam`, { spam });
+      await loadBookings();
+
+      // Spam frees the slot, which may have been offered to the waitlist
+      if (spam) {
+        await loadWaitlist();
+      }
+
+      if (selectedBooking?.id === bookingId) {
+        setSelectedBooking({ ...selectedBooking, ...booking });
+        await loadHistory(bookingId);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update booking');
+    }
+  };
+
+  const handleCancelSeries = async (seriesId: string) => {
+    if (!confirm('Cancel every upcoming session in this series?')) {
+      return;
+    }
+
+    try {
+      await put(`/bookings/series/${seriesId}/cancel`);
+      await loadBookings();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel booking series');
+    }
+  };
+
+  const handleCreateInvoice = async (bookingId: string, type: 'quote' | 'invoice') => {
+    try {
+      await post('/invoices', { bookingId, type });
+      navigate('/admin/invoices');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to create ${type}`);
+    }
+  };
+
   const handleCloseDetails = () => {
     setIsDetailsOpen(false);
     setSelectedBooking(null);
+    setSelectedHistory(undefined);
   };
 
   return (
@@ -92,8 +184,55 @@ export default function BookingManagementPage() {
           onFiltersChange={setFilters}
           onViewDetails={handleViewDetails}
           onStatusUpdate={handleStatusUpdate}
+          onCancelSeries={handleCancelSeries}
         />
 
+        {waitlist.length > 0 && (
+          <Card>
+            <CardHeader>
+              <h2 className="text-xl font-semibold text-secondary-900">Waitlist</h2>
+            </CardHeader>
+            <CardBody>
+              <table className="min-w-full divide-y divide-secondary-200">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-secondary-500 uppercase">
+                    <th className="py-2">Client</th>
+                    <th className="py-2">Day</th>
+                    <th className="py-2">Service</th>
+                    <th className="py-2">Status</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-secondary-100 text-sm">
+                  {waitlist.map(entry => (
+                    <tr key={entry.id}>
+                      <td className="py-2">
+                        <div className="text-secondary-900">{entry.clientName}</div>
+                        <div className="text-secondary-500">{entry.clientEmail}</div>
+                      </td>
+                      <td className="py-2 text-secondary-700">{entry.date.split('T')[0]}</td>
+                      <td className="py-2 text-secondary-700">{entry.service?.name || 'Any service'}</td>
+                      <td className="py-2 text-secondary-700">
+                        {entry.status === 'offered' && entry.holdExpiresAt
+                          ? `Slot held until ${new Date(entry.holdExpiresAt).toLocaleString()}`
+                          : 'Waiting'}
+                      </td>
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => handleRemoveFromWaitlist(entry)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardBody>
+          </Card>
+        )}
+
         <Modal isOpen={isDetailsOpen} onClose={handleCloseDetails}>
           <ModalHeader>
             Booking Details
@@ -102,7 +241,10 @@ export default function BookingManagementPage() {
             {selectedBooking && (
               <BookingDetails
                 booking={selectedBooking}
+                history={selectedHistory}
                 onStatusUpdate={handleStatusUpdate}
+                onCreateInvoice={handleCreateInvoice}
+                onSpamMarked={handleSpamMarked}
                 onClose={handleCloseDetails}
               />
             )}
@@ -0,0 +1,246 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Card, CardBody, Button } from '@/components/ui';
+import { Client, ClientProfile } from '@/types';
+import { get, post } from '@/utils/api';
+import { formatDateInZone, formatTimeInZone } from '@/utils/timeZone';
+
+const formatMoney = (amount: string | number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(Number(amount));
+
+export default function ClientProfilePage() {
+  const { id = '' } = useParams<{ id: string }>();
+  const [client, setClient] = useState<ClientProfile | null>(null);
+  const [duplicates, setDuplicates] = useState<Client[]>([]);
+  const [note, setNote] = useState('');
+  const [isSavingNote, setIsSavingNote] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadClient();
+  }, [id]);
+
+  const loadClient = async () => {
+    try {
+      setError('');
+      const [profile, possibleDuplicates] = await Promise.all([
+        get<{ client: ClientProfile }>(`/clients/${id}`),
+        get<{ clients: Client[] }>(`/clients/${id}/duplicates`),
+      ]);
+      setClient(profile.client);
+      setDuplicates(possibleDuplicates.clients);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load client');
+    }
+  };
+
+  const handleMerge = async (duplicate: Client) => {
+    if (!confirm(`Merge ${duplicate.name} (${duplicate.email}) into this client? Their bookings, inquiries and notes move here and the duplicate is deleted.`)) {
+      return;
+    }
+
+    try {
+      setError('');
+      setSuccess('');
+      await post(`/clients/${id}/merge`, { sourceId: duplicate.id });
+      setSuccess(`${duplicate.email} merged into this client`);
+      await loadClient();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge clients');
+    }
+  };
+
+  const handleAddNote = async () => {
+    try {
+      setIsSavingNote(true);
+      setError('');
+      await post(`/clients/${id}/notes`, { body: note });
+      setNote('');
+      await loadClient();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add note');
+    } finally {
+      setIsSavingNote(false);
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div>
+          <Link to="/admin/clients" className="text-sm text-primary-600 hover:text-primary-700">
+            ← All clients
+          </Link>
+          <h1 className="text-3xl font-bold text-secondary-900 mt-2">{client?.name ?? 'Client'}</h1>
+          {client && (
+            <p className="text-secondary-600 mt-2">
+              {client.email}
+              {client.phone && ` · ${client.phone}`}
+              {` · client since ${new Date(client.createdAt).toLocaleDateString()}`}
+            </p>
+          )}
+          {client && client.emails.length > 0 && (
+            <p className="text-sm text-secondary-500 mt-1">
+              Also writes from {client.emails.map(alias => alias.email).join(', ')}
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+            {success}
+          </div>
+        )}
+
+        {client && (
+          <>
+            {/* Possible Duplicates */}
+            {duplicates.length > 0 && (
+              <Card>
+                <CardBody>
+                  <h2 className="text-xl font-semibold text-secondary-900 mb-2">Possible Duplicates</h2>
+                  <p className="text-sm text-secondary-600 mb-4">
+                    These clients have the same name or phone number.
+                  </p>
+                  <ul className="divide-y divide-secondary-200">
+                    {duplicates.map(duplicate => (
+                      <li key={duplicate.id} className="py-3 flex items-center justify-between gap-3">
+                        <div>
+                          <Link to={`/admin/clients/${duplicate.id}`} className="font-medium text-primary-600 hover:text-primary-700">
+                            {duplicate.name}
+                          </Link>
+                          <p className="text-sm text-secondary-600">
+                            {duplicate.email}
+                            {duplicate.phone && ` · ${duplicate.phone}`}
+                            {` · ${duplicate._count?.bookings ?? 0} bookings, ${duplicate._count?.inquiries ?? 0} inquiries`}
+                          </p>
+                        </div>
+                        <Button variant="outline" size="sm" onClick={() => handleMerge(duplicate)}>
+                          Merge Into This Client
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                </CardBody>
+              </Card>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Bookings */}
+              <Card>
+                <CardBody>
+                  <h2 className="text-xl font-semibold text-secondary-900 mb-4">Bookings</h2>
+                  {client.bookings.length === 0 ? (
+                    <p className="text-secondary-500">No bookings yet.</p>
+                  ) : (
+                    <ul className="divide-y divide-secondary-200">
+                      {client.bookings.map(booking => (
+                        <li key={booking.id} className="py-3">
+                          <p className="font-medium text-secondary-900">{booking.service?.name ?? 'Booking'}</p>
+                          <p className="text-sm text-secondary-600">
+                            {formatDateInZone(booking.startTime, booking.timeZone)},{' '}
+                            {formatTimeInZone(booking.startTime, booking.timeZone)} - {formatTimeInZone(booking.endTime, booking.timeZone)}
+                            {' · '}
+                            <span className="capitalize">{booking.status}</span>
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardBody>
+              </Card>
+
+              {/* Inquiries */}
+              <Card>
+                <CardBody>
+                  <h2 className="text-xl font-semibold text-secondary-900 mb-4">Inquiries</h2>
+                  {client.inquiries.length === 0 ? (
+                    <p className="text-secondary-500">No inquiries yet.</p>
+                  ) : (
+                    <ul className="divide-y divide-secondary-200">
+                      {client.inquiries.map(inquiry => (
+                        <li key={inquiry.id} className="py-3">
+                          <p className="font-medium text-secondary-900">
+                            {inquiry.subject || inquiry.serviceInterest || 'Inquiry'}
+                          </p>
+                          <p className="text-sm text-secondary-600">
+                            {new Date(inquiry.createdAt).toLocaleDateString()} · <span className="capitalize">{inquiry.status}</span>
+                            {inquiry.source && ` · ${inquiry.source}`}
+                          </p>
+                          <p className="text-sm text-secondary-700 mt-1 line-clamp-2">{inquiry.message}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardBody>
+              </Card>
+            </div>
+
+            {/* Invoices */}
+            <Card>
+              <CardBody>
+                <h2 className="text-xl font-semibold text-secondary-900 mb-4">Quotes & Invoices</h2>
+                {client.invoices.length === 0 ? (
+                  <p className="text-secondary-500">No quotes or invoices yet.</p>
+                ) : (
+                  <ul className="divide-y divide-secondary-200">
+                    {client.invoices.map(invoice => (
+                      <li key={invoice.id} className="py-3 flex items-center justify-between">
+                        <span className="font-medium text-secondary-900">
+                          {invoice.number} <span className="text-sm text-secondary-500 capitalize">({invoice.status})</span>
+                        </span>
+                        <span className="text-sm text-secondary-600">
+                          {formatMoney(invoice.total, invoice.currency)}
+                          {invoice.type === 'invoice' && ` · paid ${formatMoney(invoice.amountPaid, invoice.currency)}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardBody>
+            </Card>
+
+            {/* Notes */}
+            <Card>
+              <CardBody>
+                <h2 className="text-xl font-semibold text-secondary-900 mb-4">Notes</h2>
+                {client.notes.length > 0 && (
+                  <ul className="space-y-3 mb-4">
+                    {client.notes.map(clientNote => (
+                      <li key={clientNote.id} className="bg-secondary-50 p-4 rounded-md">
+                        <div className="text-xs text-secondary-500 mb-1">
+                          {clientNote.author?.email ?? 'Former admin'} · {new Date(clientNote.createdAt).toLocaleString()}
+                        </div>
+                        <p className="text-secondary-700 whitespace-pre-wrap">{clientNote.body}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Add a note about this client..."
+                  rows={3}
+                  className="w-full px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                />
+                <div className="flex justify-end mt-2">
+                  <Button variant="primary" onClick={handleAddNote} loading={isSavingNote} disabled={!note.trim()}>
+                    Add Note
+                  </Button>
+                </div>
+              </CardBody>
+            </Card>
+          </>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
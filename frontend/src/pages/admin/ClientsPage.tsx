@@ -0,0 +1,95 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Card, CardBody, Input } from '@/components/ui';
+import { Client } from '@/types';
+import { get } from '@/utils/api';
+
+export default function ClientsPage() {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(loadClients, 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const loadClients = async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+
+      const queryParams = new URLSearchParams({ limit: '50' });
+      if (search.trim()) queryParams.append('search', search.trim());
+
+      const data = await get<{ clients: Client[] }>(`/clients?${queryParams.toString()}`);
+      setClients(data.clients);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load clients');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-secondary-900">Clients</h1>
+          <p className="text-secondary-600 mt-2">
+            Everyone who has booked or contacted the studio, with their full history.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <Card>
+          <CardBody>
+            <div className="mb-4 md:w-1/2">
+              <Input
+                type="search"
+                placeholder="Search by name, email or phone..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+
+            {isLoading ? (
+              <div className="h-40 bg-secondary-100 rounded animate-pulse"></div>
+            ) : clients.length === 0 ? (
+              <p className="text-secondary-500 text-center py-4">
+                {search ? 'No clients match your search.' : 'No clients yet. They are added with their first booking or inquiry.'}
+              </p>
+            ) : (
+              <ul className="divide-y divide-secondary-200">
+                {clients.map(client => (
+                  <li key={client.id} className="py-4 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                    <div>
+                      <Link to={`/admin/clients/${client.id}`} className="font-medium text-primary-600 hover:text-primary-700">
+                        {client.name}
+                      </Link>
+                      <p className="text-sm text-secondary-600">
+                        {client.email}
+                        {client.phone && ` · ${client.phone}`}
+                      </p>
+                    </div>
+                    <p className="text-sm text-secondary-500">
+                      {client._count?.bookings ?? 0} bookings · {client._count?.inquiries ?? 0} inquiries
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardBody>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState, useEffect } from 'react';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Card, CardBody, Button, Input } from '@/components/ui';
+import { EmailPreview, EmailTemplate, EmailTemplateSummary } from '@/types';
+import { get, put, post, del } from '@/utils/api';
+
+export default function EmailTemplatesPage() {
+  const [templates, setTemplates] = useState<EmailTemplateSummary[]>([]);
+  const [selected, setSelected] = useState<EmailTemplate | null>(null);
+  const [draft, setDraft] = useState({ subject: '', body: '' });
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setIsLoading(true);
+      const data = await get<{ templates: EmailTemplateSummary[] }>('/email-templates');
+      setTemplates(data.templates);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load email templates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showTemplate = (template: EmailTemplate) => {
+    setSelected(template);
+    setDraft({ subject: template.subject, body: template.body });
+    setPreview(null);
+  };
+
+  const handleSelect = async (key: string) => {
+    try {
+      setError('');
+      setSuccess('');
+      const data = await get<{ template: EmailTemplate }>(`/email-templates/${key}`);
+      showTemplate(data.template);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load email template');
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!selected) return;
+
+    try {
+      setError('');
+      const data = await post<{ preview: EmailPreview }>(`/email-templates/${selected.key}/preview`, draft);
+      setPreview(data.preview);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview email template');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+
+    try {
+      setIsSaving(true);
+      setError('');
+      setSuccess('');
+
+      const data = await put<{ template: EmailTemplate }>(`/email-templates/${selected.key}`, draft);
+      showTemplate(data.template);
+      setSuccess(`${data.template.name} saved`);
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save email template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!selected || !confirm(`Restore the built-in version of "${selected.name}"? Your changes will be lost.`)) {
+      return;
+    }
+
+    try {
+      setError('');
+      setSuccess('');
+
+      const data = await del<{ template: EmailTemplate }>(`/email-templates/${selected.key}`);
+      showTemplate(data.template);
+      setSuccess(`${data.template.name} restored to the default`);
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset email template');
+    }
+  };
+
+  const isDirty = !!selected && (draft.subject !== selected.subject || draft.body !== selected.body);
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-secondary-900">Email Templates</h1>
+          <p className="text-secondary-600 mt-2">
+            Edit the emails sent to clients and the studio. Values like {'{{booking.clientName}}'} are filled in and escaped automatically.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+            {success}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Template List */}
+          <Card>
+            <CardBody>
+              <h2 className="text-xl font-semibold text-secondary-900 mb-4">Templates</h2>
+
+              {isLoading ? (
+                <div className="h-40 bg-secondary-100 rounded animate-pulse"></div>
+              ) : (
+                <ul className="divide-y divide-secondary-200">
+                  {templates.map(template => (
+                    <li key={template.key}>
+                      <button
+                        type="button"
+                        onClick={() => handleSelect(template.key)}
+                        className={`w-full text-left py-3 px-2 rounded-md hover:bg-secondary-50 ${
+                          selected?.key === template.key ? 'bg-primary-50' : ''
+                        }`}
+                      >
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium text-secondary-900">{template.name}</p>
+                          {template.customised && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                              customised
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-secondary-600">{template.description}</p>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardBody>
+          </Card>
+
+          {/* Editor */}
+          <Card className="lg:col-span-2">
+            <CardBody>
+              {!selected ? (
+                <p className="text-secondary-500 text-center py-12">Select a template to edit it.</p>
+              ) : (
+                <div className="space-y-4">
+                  <div>
+                    <h2 className="text-xl font-semibold text-secondary-900">{selected.name}</h2>
+                    <p className="text-sm text-secondary-600">
+                      {selected.description}
+                      {selected.updatedBy && ` · last edited by ${selected.updatedBy.email}`}
+                    </p>
+                  </div>
+
+                  <Input
+                    label="Subject"
+                    type="text"
+                    value={draft.subject}
+                    onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                  />
+
+                  <div>
+                    <label className="block text-sm font-medium text-secondary-700 mb-2">
+                      Body (HTML)
+                    </label>
+                    <textarea
+                      value={draft.body}
+                      onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                      rows={18}
+                      spellCheck={false}
+                      className="w-full px-3 py-2 border border-secondary-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                    />
+                    <p className="text-xs text-secondary-500 mt-1">
+                      Use {'{{#if name}}...{{else}}...{{/if}}'} for optional parts and {'{{#each list}}...{{/each}}'} for lists.
+                      The shared header and footer are added automatically.
+                    </p>
+                  </div>
+
+                  <div>
+                    <p className="text-sm font-medium text-secondary-700 mb-1">Available values</p>
+                    <div className="flex flex-wrap gap-1">
+                      {selected.variables.map(variable => (
+                        <code key={variable} className="px-2 py-0.5 rounded bg-secondary-100 text-xs text-secondary-700">
+                          {variable}
+                        </code>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 justify-end">
+                    {selected.customised && (
+                      <Button
+                        variant="outline"
+                        onClick={handleReset}
+                        className="text-red-600 hover:text-red-700 hover:border-red-300"
+                      >
+                        Restore Default
+                      </Button>
+                    )}
+                    <Button variant="outline" onClick={handlePreview}>
+                      Preview
+                    </Button>
+                    <Button variant="primary" onClick={handleSave} loading={isSaving} disabled={!isDirty}>
+                      Save Template
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardBody>
+          </Card>
+        </div>
+
+        {/* Preview */}
+        {preview && (
+          <Card>
+            <CardBody>
+              <h2 className="text-xl font-semibold text-secondary-900 mb-1">Preview</h2>
+              <p className="text-sm text-secondary-600 mb-4">
+                <strong>Subject:</strong> {preview.subject}
+              </p>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div>
+                  <p className="text-sm font-medium text-secondary-700 mb-2">HTML</p>
+                  {/* Sandboxed so the preview cannot run scripts */}
+                  <iframe
+                    title="Email HTML preview"
+                    sandbox=""
+                    srcDoc={preview.html}
+                    className="w-full h-[600px] border border-secondary-200 rounded-md bg-white"
+                  />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-secondary-700 mb-2">Plain text</p>
+                  <pre className="h-[600px] overflow-auto whitespace-pre-wrap border border-secondary-200 rounded-md p-3 text-sm text-secondary-800 bg-secondary-50">
+                    {preview.text}
+                  </pre>
+                </div>
+              </div>
+            </CardBody>
+          </Card>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
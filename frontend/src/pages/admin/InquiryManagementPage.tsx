@@ -62,6 +62,32 @@ export default function InquiryManagementPage() {
     }
   };
 
+  // The server marks the inquiry responded when a reply is sent
+  const handleReplySent = async (inquiryId: string) => {
+    await loadInquiries();
+
+    if (selectedInquiry?.id === inquiryId) {
+      setSelectedInquiry({ ...selectedInquiry, status: 'responded' });
+    }
+  };
+
+  const handleConverted = async () => {
+    await loadInquiries();
+  };
+
+  const handleSpamMarked = async (inquiryId: string, spam: boolean) => {
+    try {
+      const inquiry = await put<ContactInquiry>(`/contact/${inquiryId}/spam`, { spam });
+      await loadInquiries();
+
+      if (selectedInquiry?.id === inquiryId) {
+        setSelectedInquiry({ ...selectedInquiry, ...inquiry });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update inquiry');
+    }
+  };
+
   const handleCloseDetails = () => {
     setIsDetailsOpen(false);
     setSelectedInquiry(null);
@@ -103,6 +129,9 @@ export default function InquiryManagementPage() {
               <InquiryDetails
                 inquiry={selectedInquiry}
                 onStatusUpdate={handleStatusUpdate}
+                onReplySent={handleReplySent}
+                onConverted={handleConverted}
+                onSpamMarked={handleSpamMarked}
                 onClose={handleCloseDetails}
               />
             )}
@@ -0,0 +1,292 @@
+import { useState, useEffect } from 'react';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Card, CardBody, Button, Input } from '@/components/ui';
+import { BillingSettings, Invoice } from '@/types';
+import api, { get, put, post } from '@/utils/api';
+
+const STATUS_STYLES: Record<Invoice['status'], string> = {
+  draft: 'bg-secondary-100 text-secondary-700',
+  sent: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  void: 'bg-red-100 text-red-700',
+};
+
+const formatMoney = (amount: string | number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(Number(amount));
+
+export default function InvoicesPage() {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [settings, setSettings] = useState<BillingSettings>({ currency: 'USD', taxRatePercent: 0, depositPercent: 0 });
+  const [filters, setFilters] = useState({ type: '', status: '' });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  useEffect(() => {
+    loadInvoices();
+  }, [filters]);
+
+  const loadSettings = async () => {
+    try {
+      const data = await get<{ settings: BillingSettings }>('/invoices/settings');
+      setSettings(data.settings);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load billing settings');
+    }
+  };
+
+  const loadInvoices = async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+
+      const queryParams = new URLSearchParams();
+      if (filters.type) queryParams.append('type', filters.type);
+      if (filters.status) queryParams.append('status', filters.status);
+
+      const data = await get<{ invoices: Invoice[] }>(`/invoices?${queryParams.toString()}`);
+      setInvoices(data.invoices);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load invoices');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    try {
+      setIsSaving(true);
+      setError('');
+      setSuccess('');
+
+      const data = await put<{ settings: BillingSettings }>('/invoices/settings', settings);
+      setSettings(data.settings);
+      setSuccess('Billing settings saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save billing settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>, message: string, fallbackError: string) => {
+    try {
+      setError('');
+      setSuccess('');
+      await action();
+      setSuccess(message);
+      await loadInvoices();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+    }
+  };
+
+  const handleStatus = (invoice: Invoice, status: 'sent' | 'void') => {
+    if (status === 'void' && !confirm(`Void ${invoice.number}? This cannot be undone.`)) {
+      return;
+    }
+
+    runAction(
+      () => put(`/invoices/${invoice.id}/status`, { status }),
+      `${invoice.number} ${status === 'void' ? 'voided' : 'marked as sent'}`,
+      'Failed to update invoice status'
+    );
+  };
+
+  const handleConvert = (invoice: Invoice) =>
+    runAction(
+      () => post(`/invoices/${invoice.id}/convert`),
+      `Invoice raised from ${invoice.number}`,
+      'Failed to convert quote'
+    );
+
+  const handlePayment = (invoice: Invoice, kind: 'deposit' | 'balance') =>
+    runAction(
+      () => post(`/invoices/${invoice.id}/payments`, { kind }),
+      `${kind === 'deposit' ? 'Deposit' : 'Payment'} received for ${invoice.number}`,
+      'Failed to take payment'
+    );
+
+  // Rendered documents need the auth header, so fetch them as blobs and open them locally
+  const handleOpenDocument = async (invoice: Invoice, format: 'html' | 'pdf') => {
+    try {
+      const response = await api.get(`/invoices/${invoice.id}/${format}`, { responseType: 'blob' });
+      const url = URL.createObjectURL(response.data as Blob);
+      window.open(url, '_blank');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open invoice');
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-secondary-900">Quotes & Invoices</h1>
+          <p className="text-secondary-600 mt-2">
+            Price bookings, send invoices and take deposits before confirming.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+            {success}
+          </div>
+        )}
+
+        {/* Billing Settings */}
+        <Card>
+          <CardBody>
+            <h2 className="text-xl font-semibold text-secondary-900 mb-4">Billing Settings</h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <Input
+                label="Currency"
+                type="text"
+                maxLength={3}
+                value={settings.currency}
+                onChange={(e) => setSettings({ ...settings, currency: e.target.value.toUpperCase() })}
+              />
+              <Input
+                label="Tax rate (%)"
+                type="number"
+                min={0}
+                max={100}
+                step={0.01}
+                value={settings.taxRatePercent}
+                onChange={(e) => setSettings({ ...settings, taxRatePercent: Number(e.target.value) })}
+              />
+              <Input
+                label="Deposit (%)"
+                type="number"
+                min={0}
+                max={100}
+                value={settings.depositPercent}
+                onChange={(e) => setSettings({ ...settings, depositPercent: Number(e.target.value) })}
+              />
+              <Button variant="primary" onClick={handleSaveSettings} loading={isSaving}>
+                Save Settings
+              </Button>
+            </div>
+            <p className="text-sm text-secondary-600 mt-3">
+              With a deposit set, bookings stay pending until their deposit has been paid.
+            </p>
+          </CardBody>
+        </Card>
+
+        {/* Invoice List */}
+        <Card>
+          <CardBody>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+              <h2 className="text-xl font-semibold text-secondary-900">Documents</h2>
+              <div className="flex gap-2">
+                <select
+                  value={filters.type}
+                  onChange={(e) => setFilters({ ...filters, type: e.target.value })}
+                  className="px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="">All types</option>
+                  <option value="quote">Quotes</option>
+                  <option value="invoice">Invoices</option>
+                </select>
+                <select
+                  value={filters.status}
+                  onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+                  className="px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="">All statuses</option>
+                  <option value="draft">Draft</option>
+                  <option value="sent">Sent</option>
+                  <option value="paid">Paid</option>
+                  <option value="void">Void</option>
+                </select>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="h-40 bg-secondary-100 rounded animate-pulse"></div>
+            ) : invoices.length === 0 ? (
+              <p className="text-secondary-500 text-center py-4">
+                No quotes or invoices yet. Raise one from a booking's details.
+              </p>
+            ) : (
+              <ul className="divide-y divide-secondary-200">
+                {invoices.map(invoice => {
+                  const depositOutstanding = Number(invoice.depositAmount) > Number(invoice.amountPaid);
+
+                  return (
+                    <li key={invoice.id} className="py-4 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium text-secondary-900">{invoice.number}</p>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[invoice.status]}`}>
+                            {invoice.status}
+                          </span>
+                        </div>
+                        <p className="text-sm text-secondary-600">
+                          {invoice.booking?.clientName} · {formatMoney(invoice.total, invoice.currency)}
+                          {invoice.type === 'invoice' && ` · paid ${formatMoney(invoice.amountPaid, invoice.currency)}`}
+                          {Number(invoice.depositAmount) > 0 && ` · deposit ${formatMoney(invoice.depositAmount, invoice.currency)}`}
+                        </p>
+                      </div>
+
+                      <div className="flex flex-wrap gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleOpenDocument(invoice, 'html')}>
+                          View
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleOpenDocument(invoice, 'pdf')}>
+                          PDF
+                        </Button>
+                        {invoice.status === 'draft' && (
+                          <Button variant="outline" size="sm" onClick={() => handleStatus(invoice, 'sent')}>
+                            Mark Sent
+                          </Button>
+                        )}
+                        {invoice.type === 'quote' && invoice.status !== 'void' && (
+                          <Button variant="outline" size="sm" onClick={() => handleConvert(invoice)}>
+                            Convert to Invoice
+                          </Button>
+                        )}
+                        {invoice.type === 'invoice' && invoice.status === 'sent' && depositOutstanding && (
+                          <Button variant="primary" size="sm" onClick={() => handlePayment(invoice, 'deposit')}>
+                            Take Deposit
+                          </Button>
+                        )}
+                        {invoice.type === 'invoice' && invoice.status === 'sent' && (
+                          <Button variant="outline" size="sm" onClick={() => handlePayment(invoice, 'balance')}>
+                            Take Balance
+                          </Button>
+                        )}
+                        {invoice.status !== 'void' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleStatus(invoice, 'void')}
+                            className="text-red-600 hover:text-red-700 hover:border-red-300"
+                          >
+                            Void
+                          </Button>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </CardBody>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { TwoFactorSettings } from '@/components/admin/TwoFactorSettings';
+import { Card, CardBody, Button } from '@/components/ui';
+import { useAuth } from '@/context/AuthContext';
+import { Session } from '@/types';
+import { get, del } from '@/utils/api';
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+// The signed-in user's account and the devices signed in to it
+export default function ProfilePage() {
+  const { user, logout, logoutEverywhere } = useAuth();
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      setError('');
+      const data = await get<{ sessions: Session[] }>('/auth/sessions');
+      setSessions(data.sessions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (session: Session) => {
+    if (session.current) {
+      await logout();
+      navigate('/admin/login');
+      return;
+    }
+
+    try {
+      setRevokingId(session.id);
+      setError('');
+      await del(`/auth/sessions/${session.id}`);
+      setSessions(current => current.filter(s => s.id !== session.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out the session');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleLogoutEverywhere = async () => {
+    if (!window.confirm('Sign out of every device, including this one?')) {
+      return;
+    }
+
+    try {
+      setError('');
+      await logoutEverywhere();
+      navigate('/admin/login');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out everywhere');
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-secondary-900">Profile</h1>
+          <p className="text-secondary-600 mt-2">
+            {user?.firstName ? `${user.firstName} ${user.lastName || ''}`.trim() : user?.email}
+            {user?.firstName && <span className="text-secondary-500"> · {user.email}</span>}
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <TwoFactorSettings />
+
+        <Card>
+          <CardBody>
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h2 className="text-xl font-semibold text-secondary-900">Active Sessions</h2>
+                <p className="text-sm text-secondary-600">
+                  Devices signed in to your account. Sign out any you don't recognise.
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleLogoutEverywhere}>
+                Sign Out Everywhere
+              </Button>
+            </div>
+
+            {isLoading ? (
+              <p className="text-secondary-500">Loading sessions...</p>
+            ) : (
+              <ul className="divide-y divide-secondary-200">
+                {sessions.map(session => (
+                  <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-secondary-900">
+                        {session.device}
+                        {session.current && (
+                          <span className="ml-2 text-xs font-medium text-green-700 bg-green-100 px-2 py-0.5 rounded-full">
+                            This device
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-sm text-secondary-600">
+                        {session.ipAddress || 'Unknown IP'} · last active {formatDateTime(session.lastSeenAt)} ·
+                        signed in {formatDateTime(session.createdAt)}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(session)}
+                      loading={revokingId === session.id}
+                    >
+                      Sign Out
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardBody>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
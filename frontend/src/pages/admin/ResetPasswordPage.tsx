@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Button, Input, Card, CardHeader, CardBody } from '@/components/ui';
+import { post } from '@/utils/api';
+
+const PASSWORD_RULE = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/;
+
+// Asks for a reset link, or sets a new password when opened from one
+export default function ResetPasswordPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [email, setEmail] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [done, setDone] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      await post('/auth/forgot-password', { email });
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request a reset link');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword.length < 8 || !PASSWORD_RULE.test(newPassword)) {
+      setError('Password must be at least 8 characters and contain a lowercase letter, an uppercase letter and a number.');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await post('/auth/reset-password', { token, newPassword });
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (done && token) {
+      return (
+        <div className="space-y-6 text-center">
+          <p className="text-secondary-700">Your password has been changed. You can now sign in with it.</p>
+          <Link to="/admin/login" className="text-primary-600 hover:text-primary-700 font-medium">
+            Go to sign in
+          </Link>
+        </div>
+      );
+    }
+
+    if (done) {
+      return (
+        <div className="space-y-6 text-center">
+          <p className="text-secondary-700">
+            If an account exists for {email}, we've emailed it a link to reset the password. The link expires in an hour.
+          </p>
+          <Link to="/admin/login" className="text-primary-600 hover:text-primary-700 font-medium">
+            Back to sign in
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={token ? handleReset : handleRequest} className="space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {token ? (
+          <>
+            <div>
+              <label htmlFor="newPassword" className="block text-sm font-medium text-secondary-700 mb-2">
+                New Password
+              </label>
+              <Input
+                id="newPassword"
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                placeholder="At least 8 characters"
+                autoComplete="new-password"
+                required
+                disabled={isLoading}
+                className="w-full"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="confirmPassword" className="block text-sm font-medium text-secondary-700 mb-2">
+                Confirm Password
+              </label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                placeholder="Enter the password again"
+                autoComplete="new-password"
+                required
+                disabled={isLoading}
+                className="w-full"
+              />
+            </div>
+          </>
+        ) : (
+          <div>
+            <p className="text-sm text-secondary-600 mb-4">
+              Enter the email you sign in with and we'll send you a link to choose a new password.
+            </p>
+            <label htmlFor="email" className="block text-sm font-medium text-secondary-700 mb-2">
+              Email Address
+            </label>
+            <Input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="admin@derjiproductions.com"
+              required
+              disabled={isLoading}
+              className="w-full"
+            />
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          variant="primary"
+          size="lg"
+          disabled={isLoading}
+          className="w-full"
+        >
+          {token
+            ? (isLoading ? 'Saving...' : 'Set New Password')
+            : (isLoading ? 'Sending...' : 'Send Reset Link')}
+        </Button>
+
+        <div className="text-center text-sm">
+          <Link to="/admin/login" className="text-primary-600 hover:text-primary-700">
+            Back to sign in
+          </Link>
+        </div>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 to-secondary-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-primary-900 mb-2">
+            Derji Productions
+          </h1>
+          <p className="text-secondary-600">Admin Dashboard</p>
+        </div>
+
+        <Card className="shadow-xl">
+          <CardHeader>
+            <h2 className="text-2xl font-semibold text-center text-secondary-900">
+              {token ? 'Choose a New Password' : 'Reset Password'}
+            </h2>
+          </CardHeader>
+
+          <CardBody>
+            {renderContent()}
+          </CardBody>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,484 @@
+import { useState, useEffect } from 'react';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Card, CardBody, Button, Input } from '@/components/ui';
+import { DayHours, StudioSchedule, BlackoutDate, ExternalCalendar } from '@/types';
+import { get, put, post, del } from '@/utils/api';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Zones offered as suggestions; any IANA zone the server recognises is accepted
+const TIME_ZONES = [
+  'UTC',
+  'Africa/Accra',
+  'Africa/Lagos',
+  'Africa/Johannesburg',
+  'Europe/London',
+  'Europe/Paris',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'Asia/Dubai',
+];
+
+export default function ScheduleSettingsPage() {
+  const [hours, setHours] = useState<DayHours[]>([]);
+  const [timeZone, setTimeZone] = useState('UTC');
+  const [slotIntervalMinutes, setSlotIntervalMinutes] = useState(30);
+  const [cancellationWindowHours, setCancellationWindowHours] = useState(48);
+  const [blackoutDates, setBlackoutDates] = useState<BlackoutDate[]>([]);
+  const [newBlackout, setNewBlackout] = useState({ date: '', reason: '' });
+  const [calendars, setCalendars] = useState<ExternalCalendar[]>([]);
+  const [newCalendar, setNewCalendar] = useState({ name: '', url: '' });
+  const [syncingCalendarId, setSyncingCalendarId] = useState<string | null>(null);
+  const [feedUrl, setFeedUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadSchedule();
+  }, []);
+
+  const loadSchedule = async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+
+      const [scheduleData, blackoutData, calendarData] = await Promise.all([
+        get<{ schedule: StudioSchedule }>('/schedule'),
+        get<{ blackoutDates: BlackoutDate[] }>('/schedule/blackout-dates'),
+        get<{ calendars: ExternalCalendar[] }>('/schedule/calendars'),
+      ]);
+
+      setHours(scheduleData.schedule.hours);
+      setTimeZone(scheduleData.schedule.timeZone);
+      setSlotIntervalMinutes(scheduleData.schedule.slotIntervalMinutes);
+      setCancellationWindowHours(scheduleData.schedule.cancellationWindowHours);
+      setBlackoutDates(blackoutData.blackoutDates);
+      setCalendars(calendarData.calendars);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load studio schedule');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleHoursChange = (weekday: number, changes: Partial<DayHours>) => {
+    setHours(current => current.map(day => (day.weekday === weekday ? { ...day, ...changes } : day)));
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setError('');
+      setSuccess('');
+
+      const data = await put<{ schedule: StudioSchedule }>('/schedule', {
+        timeZone,
+        slotIntervalMinutes,
+        cancellationWindowHours,
+        hours,
+      });
+      setHours(data.schedule.hours);
+      setTimeZone(data.schedule.timeZone);
+      setSlotIntervalMinutes(data.schedule.slotIntervalMinutes);
+      setCancellationWindowHours(data.schedule.cancellationWindowHours);
+      setSuccess('Opening hours saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save opening hours');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddBlackout = async () => {
+    if (!newBlackout.date) {
+      return;
+    }
+
+    try {
+      setError('');
+      await post('/schedule/blackout-dates', {
+        date: newBlackout.date,
+        ...(newBlackout.reason && { reason: newBlackout.reason }),
+      });
+      setNewBlackout({ date: '', reason: '' });
+      await loadSchedule();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add blackout date');
+    }
+  };
+
+  const handleDeleteBlackout = async (id: string) => {
+    if (!confirm('Are you sure you want to reopen the studio on this date?')) {
+      return;
+    }
+
+    try {
+      await del(`/schedule/blackout-dates/${id}`);
+      await loadSchedule();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove blackout date');
+    }
+  };
+
+  // Files are read in the browser and sent as text; URLs are fetched by the server on every sync
+  const readCalendarFile = (file: File) => file.text();
+
+  const handleAddCalendar = async (file?: File) => {
+    if (!newCalendar.name || (!newCalendar.url && !file)) {
+      return;
+    }
+
+    try {
+      setError('');
+      await post('/schedule/calendars', {
+        name: newCalendar.name,
+        ...(file ? { ics: await readCalendarFile(file) } : { url: newCalendar.url }),
+      });
+      setNewCalendar({ name: '', url: '' });
+      await loadSchedule();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add calendar');
+    }
+  };
+
+  const handleSyncCalendar = async (calendar: ExternalCalendar, file?: File) => {
+    try {
+      setError('');
+      setSyncingCalendarId(calendar.id);
+      await post(`/schedule/calendars/${calendar.id}/sync`, file ? { ics: await readCalendarFile(file) } : {});
+      await loadSchedule();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sync calendar');
+    } finally {
+      setSyncingCalendarId(null);
+    }
+  };
+
+  const handleDeleteCalendar = async (id: string) => {
+    if (!confirm('Are you sure you want to remove this calendar? Its busy times will no longer block bookings.')) {
+      return;
+    }
+
+    try {
+      await del(`/schedule/calendars/${id}`);
+      await loadSchedule();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove calendar');
+    }
+  };
+
+  const handleCreateFeed = async () => {
+    if (!confirm('Creating a new feed link stops any earlier link from working. Continue?')) {
+      return;
+    }
+
+    try {
+      setError('');
+      const data = await post<{ url: string }>('/bookings/calendar/feed');
+      setFeedUrl(data.url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create calendar feed');
+    }
+  };
+
+  const handleRevokeFeed = async () => {
+    if (!confirm('Calendars subscribed to your feed will stop updating. Continue?')) {
+      return;
+    }
+
+    try {
+      setError('');
+      await del('/bookings/calendar/feed');
+      setFeedUrl('');
+      setSuccess('Calendar feed revoked');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke calendar feed');
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-secondary-900">Studio Schedule</h1>
+          <p className="text-secondary-600 mt-2">
+            Set the studio's time zone and weekly opening hours, and close the studio on specific dates.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+            {success}
+          </div>
+        )}
+
+        {/* Weekly Hours */}
+        <Card>
+          <CardBody>
+            <h2 className="text-xl font-semibold text-secondary-900 mb-4">Opening Hours</h2>
+
+            {isLoading ? (
+              <div className="h-40 bg-secondary-100 rounded animate-pulse"></div>
+            ) : (
+              <div className="space-y-3">
+                <div className="grid grid-cols-4 gap-4 items-center pb-4 border-b border-secondary-200">
+                  <span className="font-medium text-secondary-900">Studio time zone</span>
+                  <Input
+                    type="text"
+                    list="time-zones"
+                    placeholder="e.g. Africa/Accra"
+                    value={timeZone}
+                    onChange={(e) => setTimeZone(e.target.value)}
+                  />
+                  <datalist id="time-zones">
+                    {TIME_ZONES.map(zone => (
+                      <option key={zone} value={zone} />
+                    ))}
+                  </datalist>
+                  <span className="col-span-2 text-sm text-secondary-600">
+                    Opening hours and blackout dates are read on this clock
+                  </span>
+                </div>
+
+                {hours.map(day => (
+                  <div key={day.weekday} className="grid grid-cols-4 gap-4 items-center">
+                    <span className="font-medium text-secondary-900">{WEEKDAYS[day.weekday]}</span>
+                    <Input
+                      type="time"
+                      value={day.openTime}
+                      disabled={day.closed}
+                      onChange={(e) => handleHoursChange(day.weekday, { openTime: e.target.value })}
+                    />
+                    <Input
+                      type="time"
+                      value={day.closeTime}
+                      disabled={day.closed}
+                      onChange={(e) => handleHoursChange(day.weekday, { closeTime: e.target.value })}
+                    />
+                    <label className="flex items-center space-x-2 text-sm text-secondary-700">
+                      <input
+                        type="checkbox"
+                        checked={day.closed}
+                        onChange={(e) => handleHoursChange(day.weekday, { closed: e.target.checked })}
+                      />
+                      <span>Closed</span>
+                    </label>
+                  </div>
+                ))}
+
+                <div className="grid grid-cols-4 gap-4 items-center pt-4 border-t border-secondary-200">
+                  <span className="font-medium text-secondary-900">Slot interval (minutes)</span>
+                  <Input
+                    type="number"
+                    min={5}
+                    max={240}
+                    value={slotIntervalMinutes}
+                    onChange={(e) => setSlotIntervalMinutes(Number(e.target.value))}
+                  />
+                </div>
+
+                <div className="grid grid-cols-4 gap-4 items-center">
+                  <span className="font-medium text-secondary-900">Client changes allowed until (hours before)</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={720}
+                    value={cancellationWindowHours}
+                    onChange={(e) => setCancellationWindowHours(Number(e.target.value))}
+                  />
+                </div>
+
+                <div className="flex justify-end">
+                  <Button variant="primary" onClick={handleSave} loading={isSaving}>
+                    Save Hours
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardBody>
+        </Card>
+
+        {/* Blackout Dates */}
+        <Card>
+          <CardBody>
+            <h2 className="text-xl font-semibold text-secondary-900 mb-4">Blackout Dates</h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <Input
+                type="date"
+                value={newBlackout.date}
+                onChange={(e) => setNewBlackout({ ...newBlackout, date: e.target.value })}
+              />
+              <Input
+                type="text"
+                placeholder="Reason (optional)"
+                value={newBlackout.reason}
+                onChange={(e) => setNewBlackout({ ...newBlackout, reason: e.target.value })}
+              />
+              <Button variant="outline" onClick={handleAddBlackout} disabled={!newBlackout.date}>
+                Add Blackout Date
+              </Button>
+            </div>
+
+            {blackoutDates.length === 0 ? (
+              <p className="text-secondary-500 text-center py-4">No blackout dates</p>
+            ) : (
+              <ul className="divide-y divide-secondary-200">
+                {blackoutDates.map(blackout => (
+                  <li key={blackout.id} className="flex items-center justify-between py-3">
+                    <div>
+                      <p className="font-medium text-secondary-900">{blackout.date.split('T')[0]}</p>
+                      {blackout.reason && (
+                        <p className="text-sm text-secondary-600">{blackout.reason}</p>
+                      )}
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => handleDeleteBlackout(blackout.id)}>
+                      Remove
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardBody>
+        </Card>
+
+        {/* External Calendars */}
+        <Card>
+          <CardBody>
+            <h2 className="text-xl font-semibold text-secondary-900 mb-2">External Calendars</h2>
+            <p className="text-sm text-secondary-600 mb-4">
+              Events in these calendars block out studio time. Add a subscription link, or upload an .ics file.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+              <Input
+                type="text"
+                placeholder="Name, e.g. Team calendar"
+                value={newCalendar.name}
+                onChange={(e) => setNewCalendar({ ...newCalendar, name: e.target.value })}
+              />
+              <Input
+                type="url"
+                placeholder="https:// or webcal:// link"
+                value={newCalendar.url}
+                onChange={(e) => setNewCalendar({ ...newCalendar, url: e.target.value })}
+              />
+              <Button
+                variant="outline"
+                onClick={() => handleAddCalendar()}
+                disabled={!newCalendar.name || !newCalendar.url}
+              >
+                Add Link
+              </Button>
+              <label className="flex items-center space-x-2 text-sm text-secondary-700">
+                <span>or upload</span>
+                <input
+                  type="file"
+                  accept=".ics,text/calendar"
+                  disabled={!newCalendar.name}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) {
+                      handleAddCalendar(file);
+                    }
+                  }}
+                />
+              </label>
+            </div>
+
+            {calendars.length === 0 ? (
+              <p className="text-secondary-500 text-center py-4">No external calendars</p>
+            ) : (
+              <ul className="divide-y divide-secondary-200">
+                {calendars.map(calendar => (
+                  <li key={calendar.id} className="flex items-center justify-between py-3">
+                    <div>
+                      <p className="font-medium text-secondary-900">{calendar.name}</p>
+                      <p className="text-sm text-secondary-600">
+                        {calendar._count.busyBlocks} busy {calendar._count.busyBlocks === 1 ? 'block' : 'blocks'}
+                        {calendar.lastSyncedAt && ` · synced ${new Date(calendar.lastSyncedAt).toLocaleString()}`}
+                        {!calendar.url && ' · uploaded file'}
+                      </p>
+                      {calendar.lastSyncError && (
+                        <p className="text-sm text-red-600">Last sync failed: {calendar.lastSyncError}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {calendar.url ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleSyncCalendar(calendar)}
+                          loading={syncingCalendarId === calendar.id}
+                        >
+                          Sync
+                        </Button>
+                      ) : (
+                        <label className="text-sm text-secondary-700">
+                          <span className="sr-only">Upload a new copy of {calendar.name}</span>
+                          <input
+                            type="file"
+                            accept=".ics,text/calendar"
+                            onChange={(e) => {
+                              const file = e.target.files?.[0];
+                              e.target.value = '';
+                              if (file) {
+                                handleSyncCalendar(calendar, file);
+                              }
+                            }}
+                          />
+                        </label>
+                      )}
+                      <Button variant="outline" size="sm" onClick={() => handleDeleteCalendar(calendar.id)}>
+                        Remove
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardBody>
+        </Card>
+
+        {/* Calendar Feed */}
+        <Card>
+          <CardBody>
+            <h2 className="text-xl font-semibold text-secondary-900 mb-2">Calendar Feed</h2>
+            <p className="text-sm text-secondary-600 mb-4">
+              Subscribe to pending and confirmed bookings from Google Calendar, Outlook or Apple Calendar.
+              Add <code>&amp;status=confirmed</code> or <code>&amp;serviceId=…</code> to the link to filter it.
+            </p>
+
+            {feedUrl && (
+              <div className="mb-4">
+                <Input type="text" readOnly value={feedUrl} onFocus={(e) => e.target.select()} />
+                <p className="text-sm text-secondary-600 mt-2">
+                  Copy this link now; it will not be shown again.
+                </p>
+              </div>
+            )}
+
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={handleCreateFeed} disabled={!!feedUrl}>
+                Create Feed Link
+              </Button>
+              <Button variant="outline" onClick={handleRevokeFeed}>
+                Revoke Feed
+              </Button>
+            </div>
+          </CardBody>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Card, CardBody, Button, Input } from '@/components/ui';
+import { SpamSettings } from '@/types';
+import { get, put } from '@/utils/api';
+
+export default function SpamSettingsPage() {
+  const [settings, setSettings] = useState<SpamSettings | null>(null);
+  const [quarantineThreshold, setQuarantineThreshold] = useState(3);
+  const [rejectThreshold, setRejectThreshold] = useState(8);
+  const [points, setPoints] = useState<Record<string, number>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const applySettings = (data: SpamSettings) => {
+    setSettings(data);
+    setQuarantineThreshold(data.quarantineThreshold);
+    setRejectThreshold(data.rejectThreshold);
+    setPoints(Object.fromEntries(data.rules.map(rule => [rule.id, rule.points])));
+  };
+
+  const loadSettings = async () => {
+    try {
+      setError('');
+      applySettings(await get<SpamSettings>('/spam/settings'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load spam filter settings');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settings) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError('');
+      setSuccess('');
+
+      // Only rules moved off their default are stored, so later default changes still apply
+      const ruleWeights = Object.fromEntries(
+        settings.rules
+          .filter(rule => points[rule.id] !== rule.defaultPoints)
+          .map(rule => [rule.id, points[rule.id]])
+      );
+
+      applySettings(await put<SpamSettings>('/spam/settings', { quarantineThreshold, rejectThreshold, ruleWeights }));
+      setSuccess('Spam filter settings saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save spam filter settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-secondary-900">Spam Filter</h1>
+          <p className="text-secondary-600 mt-2">
+            Contact and booking forms add up points for each rule a submission matches. Submissions over the
+            quarantine threshold wait in <Link to="/admin/inquiries" className="text-primary-600 hover:text-primary-700">Inquiries</Link> and{' '}
+            <Link to="/admin/bookings" className="text-primary-600 hover:text-primary-700">Bookings</Link> for review;
+            those over the reject threshold are dropped.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+            {success}
+          </div>
+        )}
+
+        {settings && (
+          <>
+            <Card>
+              <CardBody>
+                <h2 className="text-xl font-semibold text-secondary-900 mb-4">Thresholds</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Input
+                    type="number"
+                    label="Quarantine at (points)"
+                    min={0}
+                    step={0.5}
+                    value={quarantineThreshold}
+                    onChange={(e) => setQuarantineThreshold(Number(e.target.value))}
+                  />
+                  <Input
+                    type="number"
+                    label="Reject at (points)"
+                    min={0}
+                    step={0.5}
+                    value={rejectThreshold}
+                    onChange={(e) => setRejectThreshold(Number(e.target.value))}
+                  />
+                </div>
+              </CardBody>
+            </Card>
+
+            <Card>
+              <CardBody>
+                <h2 className="text-xl font-semibold text-secondary-900 mb-2">Rules</h2>
+                <p className="text-sm text-secondary-600 mb-4">
+                  Set a rule to 0 points to turn it off. The classifier has learned from {settings.training.spam} spam
+                  and {settings.training.ham} genuine submissions marked in the admin, and only scores once it has seen both.
+                </p>
+                <ul className="divide-y divide-secondary-200">
+                  {settings.rules.map(rule => (
+                    <li key={rule.id} className="py-3 grid grid-cols-4 gap-4 items-center">
+                      <div className="col-span-3">
+                        <p className="font-medium text-secondary-900 capitalize">{rule.id.replace(/_/g, ' ')}</p>
+                        <p className="text-sm text-secondary-600">
+                          {rule.description} · default {rule.defaultPoints}
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={points[rule.id] ?? rule.defaultPoints}
+                        onChange={(e) => setPoints(current => ({ ...current, [rule.id]: Number(e.target.value) }))}
+                      />
+                    </li>
+                  ))}
+                </ul>
+              </CardBody>
+            </Card>
+
+            <div className="flex justify-end">
+              <Button variant="primary" onClick={handleSave} loading={isSaving}>
+                Save Spam Filter
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -2,12 +2,14 @@ import { useState, useEffect } from 'react';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { UserList } from '@/components/admin/UserList';
 import { UserForm } from '@/components/admin/UserForm';
-import { Button, Modal, ModalHeader, ModalBody } from '@/components/ui';
-import { User } from '@/types';
-import { get, del } from '@/utils/api';
+import { Button, Card, CardBody, Modal, ModalHeader, ModalBody } from '@/components/ui';
+import { User, UserInvitation } from '@/types';
+import { get, post, put, del } from '@/utils/api';
 
 export default function UserManagementPage() {
   const [users, setUsers] = useState<User[]>([]);
+  const [invitations, setInvitations] = useState<UserInvitation[]>([]);
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [isFormOpen, setIsFormOpen] = useState(false);
@@ -21,6 +23,11 @@ export default function UserManagementPage() {
     loadUsers();
   }, [filters]);
 
+  useEffect(() => {
+    loadInvitations();
+    loadTwoFactorPolicy();
+  }, []);
+
   const loadUsers = async () => {
     try {
       setIsLoading(true);
@@ -30,8 +37,8 @@ export default function UserManagementPage() {
       if (filters.role) queryParams.append('role', filters.role);
       if (filters.search) queryParams.append('search', filters.search);
       
-      const userData = await get<User[]>(`/users?${queryParams.toString()}`);
-      setUsers(userData);
+      const data = await get<{ users: User[] }>(`/users?${queryParams.toString()}`);
+      setUsers(data.users);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load users');
     } finally {
@@ -39,6 +46,82 @@ export default function UserManagementPage() {
     }
   };
 
+  const loadInvitations = async () => {
+    try {
+      const data = await get<{ invitations: UserInvitation[] }>('/users/invitations');
+      setInvitations(data.invitations);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load invitations');
+    }
+  };
+
+  const loadTwoFactorPolicy = async () => {
+    try {
+      const data = await get<{ required: boolean }>('/users/two-factor');
+      setTwoFactorRequired(data.required);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the two-factor policy');
+    }
+  };
+
+  const handleTwoFactorRequiredChange = async (required: boolean) => {
+    if (required && !confirm('Everyone who hasn\'t set up two-factor authentication will be signed out and must set it up at their next sign-in. Continue?')) {
+      return;
+    }
+
+    try {
+      setError('');
+      const data = await put<{ required: boolean }>('/users/two-factor', { required });
+      setTwoFactorRequired(data.required);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the two-factor policy');
+    }
+  };
+
+  const handleResetTwoFactor = async (user: User) => {
+    if (!confirm(`Turn off two-factor authentication for ${user.email}? They will be signed out everywhere.`)) {
+      return;
+    }
+
+    try {
+      await del(`/users/${user.id}/two-factor`);
+      await loadUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset two-factor authentication');
+    }
+  };
+
+  const handleUnlock = async (user: User) => {
+    try {
+      await post(`/users/${user.id}/unlock`);
+      await loadUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock user');
+    }
+  };
+
+  const handleResendInvitation = async (id: string) => {
+    try {
+      await post(`/users/invitations/${id}/resend`);
+      await loadInvitations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resend invitation');
+    }
+  };
+
+  const handleRevokeInvitation = async (id: string) => {
+    if (!confirm('Revoke this invitation? The link in it will stop working.')) {
+      return;
+    }
+
+    try {
+      await del(`/users/invitations/${id}`);
+      await loadInvitations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke invitation');
+    }
+  };
+
   const handleCreate = () => {
     setEditingUser(null);
     setIsFormOpen(true);
@@ -66,6 +149,7 @@ export default function UserManagementPage() {
     setIsFormOpen(false);
     setEditingUser(null);
     loadUsers();
+    loadInvitations();
   };
 
   const handleFormCancel = () => {
@@ -80,11 +164,11 @@ export default function UserManagementPage() {
           <div>
             <h1 className="text-3xl font-bold text-secondary-900">User Management</h1>
             <p className="text-secondary-600 mt-2">
-              Manage system users and their permissions.
+              Invite your team and choose what each of them can do.
             </p>
           </div>
           <Button variant="primary" onClick={handleCreate}>
-            Add User
+            Invite User
           </Button>
         </div>
 
@@ -94,6 +178,62 @@ export default function UserManagementPage() {
           </div>
         )}
 
+        <Card>
+          <CardBody>
+            <label className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={twoFactorRequired}
+                onChange={(e) => handleTwoFactorRequiredChange(e.target.checked)}
+                className="mt-1 h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span>
+                <span className="block font-medium text-secondary-900">Require two-factor authentication</span>
+                <span className="block text-sm text-secondary-600">
+                  Everyone must sign in with a code from an authenticator app. Turn it on for your own account first.
+                </span>
+              </span>
+            </label>
+          </CardBody>
+        </Card>
+
+        {invitations.length > 0 && (
+          <Card>
+            <CardBody>
+              <h2 className="text-xl font-semibold text-secondary-900 mb-4">Pending Invitations</h2>
+              <ul className="divide-y divide-secondary-200">
+                {invitations.map(invitation => (
+                  <li key={invitation.id} className="py-3 flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-secondary-900">
+                        {invitation.email}
+                        <span className="ml-2 text-xs font-medium capitalize text-secondary-600">{invitation.role}</span>
+                      </p>
+                      <p className="text-sm text-secondary-600">
+                        Expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                        {invitation.invitedBy && ` · invited by ${invitation.invitedBy.firstName || invitation.invitedBy.email}`}
+                      </p>
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => handleResendInvitation(invitation.id)}>
+                        Resend
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRevokeInvitation(invitation.id)}
+                        className="text-red-600 hover:text-red-700 hover:border-red-300"
+                      >
+                        Revoke
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </CardBody>
+          </Card>
+        )}
+
         <UserList
           users={users}
           isLoading={isLoading}
@@ -101,11 +241,13 @@ export default function UserManagementPage() {
           onFiltersChange={setFilters}
           onEdit={handleEdit}
           onDelete={handleDelete}
+          onResetTwoFactor={handleResetTwoFactor}
+          onUnlock={handleUnlock}
         />
 
         <Modal isOpen={isFormOpen} onClose={handleFormCancel}>
           <ModalHeader>
-            {editingUser ? 'Edit User' : 'Add User'}
+            {editingUser ? 'Edit User' : 'Invite User'}
           </ModalHeader>
           <ModalBody>
             <UserForm
@@ -0,0 +1,264 @@
+import { useState, useEffect } from 'react';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { WebhookForm } from '@/components/admin/WebhookForm';
+import { WebhookDeliveryLog } from '@/components/admin/WebhookDeliveryLog';
+import { Button, Card, CardBody, Modal, ModalHeader, ModalBody } from '@/components/ui';
+import { Webhook, WebhookDelivery } from '@/types';
+import { get, post, del } from '@/utils/api';
+
+export default function WebhooksPage() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [events, setEvents] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingWebhook, setEditingWebhook] = useState<Webhook | undefined>();
+  // The secret just created or rotated, shown until dismissed; it can't be retrieved again
+  const [newSecret, setNewSecret] = useState<{ url: string; secret: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [logRefreshKey, setLogRefreshKey] = useState(0);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, []);
+
+  const loadWebhooks = async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+
+      const data = await get<{ webhooks: Webhook[]; events: Record<string, string> }>('/webhooks');
+      setWebhooks(data.webhooks);
+      setEvents(data.events);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load webhooks');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openForm = (webhook?: Webhook) => {
+    setEditingWebhook(webhook);
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingWebhook(undefined);
+  };
+
+  const handleSaved = (webhook: Webhook, secret?: string) => {
+    closeForm();
+    if (secret) {
+      setNewSecret({ url: webhook.url, secret });
+      setCopied(false);
+    }
+    loadWebhooks();
+  };
+
+  const handleCopy = async () => {
+    if (!newSecret) return;
+
+    try {
+      await navigator.clipboard.writeText(newSecret.secret);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    try {
+      setTestingId(webhook.id);
+      setError('');
+      setNotice('');
+
+      const data = await post<{ delivery: WebhookDelivery }>(`/webhooks/${webhook.id}/test`);
+      if (data.delivery.status === 'delivered') {
+        setNotice(`Test event delivered to ${webhook.url} (HTTP ${data.delivery.responseStatus}).`);
+      } else {
+        setError(`Test event failed: ${data.delivery.lastError || 'no response'}`);
+      }
+
+      setOpenLogId(webhook.id);
+      setLogRefreshKey(key => key + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send test event');
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleRotate = async (webhook: Webhook) => {
+    if (!confirm(`Rotate the secret for ${webhook.url}? Its receiver must switch to the new secret to keep verifying events.`)) {
+      return;
+    }
+
+    try {
+      const data = await post<{ webhook: Webhook; secret: string }>(`/webhooks/${webhook.id}/rotate-secret`);
+      setNewSecret({ url: data.webhook.url, secret: data.secret });
+      setCopied(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rotate secret');
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Delete the webhook for ${webhook.url}? Events waiting to be sent and its delivery log go too.`)) {
+      return;
+    }
+
+    try {
+      await del(`/webhooks/${webhook.id}`);
+      await loadWebhooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete webhook');
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-secondary-900">Webhooks</h1>
+            <p className="text-secondary-600 mt-2">
+              Tell your CRM, calendar or automations about bookings, inquiries and portfolio changes as they happen.
+            </p>
+          </div>
+          <Button variant="primary" onClick={() => openForm()}>
+            Add Webhook
+          </Button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {notice && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+            {notice}
+          </div>
+        )}
+
+        {newSecret && (
+          <Card>
+            <CardBody>
+              <h2 className="text-xl font-semibold text-secondary-900 mb-2">Signing secret</h2>
+              <p className="text-sm text-secondary-600 mb-4">
+                Copy this into the receiver at {newSecret.url} now; it won't be shown again. Each
+                request carries an X-Webhook-Signature header: <code>sha256=</code> followed by the
+                HMAC-SHA256 of the X-Webhook-Timestamp header, a dot and the raw body, keyed with this secret.
+              </p>
+              <code className="block px-3 py-2 bg-secondary-100 rounded font-mono text-secondary-900 break-all select-all">
+                {newSecret.secret}
+              </code>
+              <div className="flex justify-end gap-2 mt-4">
+                <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+                  {copied ? 'Copied' : 'Copy'}
+                </Button>
+                <Button type="button" variant="primary" size="sm" onClick={() => setNewSecret(null)}>
+                  Done
+                </Button>
+              </div>
+            </CardBody>
+          </Card>
+        )}
+
+        <Card>
+          <CardBody>
+            {isLoading ? (
+              <p className="text-secondary-500">Loading webhooks...</p>
+            ) : webhooks.length === 0 ? (
+              <p className="text-secondary-500">No webhooks yet.</p>
+            ) : (
+              <ul className="divide-y divide-secondary-200">
+                {webhooks.map(webhook => (
+                  <li key={webhook.id} className="py-4 space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="space-y-1 min-w-0">
+                        <p className="font-medium text-secondary-900 break-all">
+                          {webhook.url}
+                          {!webhook.active && (
+                            <span className="ml-2 px-2 py-1 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">
+                              Paused
+                            </span>
+                          )}
+                        </p>
+                        {webhook.description && (
+                          <p className="text-sm text-secondary-600">{webhook.description}</p>
+                        )}
+                        <div className="flex flex-wrap gap-1">
+                          {webhook.events.map(event => (
+                            <span key={event} className="px-2 py-0.5 text-xs rounded bg-secondary-100 text-secondary-700 font-mono">
+                              {event}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap justify-end gap-2 shrink-0">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleTest(webhook)}
+                          loading={testingId === webhook.id}
+                        >
+                          Send Test
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setOpenLogId(openLogId === webhook.id ? null : webhook.id)}
+                        >
+                          {openLogId === webhook.id ? 'Hide Deliveries' : 'Deliveries'}
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => openForm(webhook)}>
+                          Edit
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleRotate(webhook)}>
+                          Rotate Secret
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(webhook)}
+                          className="text-red-600 hover:text-red-700 hover:border-red-300"
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </div>
+
+                    {openLogId === webhook.id && (
+                      <div className="border-t border-secondary-200 pt-3">
+                        <WebhookDeliveryLog webhookId={webhook.id} refreshKey={logRefreshKey} />
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardBody>
+        </Card>
+
+        <Modal isOpen={isFormOpen} onClose={closeForm}>
+          <ModalHeader>{editingWebhook ? 'Edit Webhook' : 'Add Webhook'}</ModalHeader>
+          <ModalBody>
+            <WebhookForm
+              key={editingWebhook?.id ?? 'new'}
+              events={events}
+              {...(editingWebhook && { webhook: editingWebhook })}
+              onSaved={handleSaved}
+              onCancel={closeForm}
+            />
+          </ModalBody>
+        </Modal>
+      </div>
+    </AdminLayout>
+  );
+}
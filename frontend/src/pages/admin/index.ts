@@ -1,8 +1,19 @@
 // Admin Pages Export Index
 export { default as AdminLoginPage } from './AdminLoginPage';
+export { default as ResetPasswordPage } from './ResetPasswordPage';
+export { default as AcceptInvitationPage } from './AcceptInvitationPage';
 export { default as AdminDashboardPage } from './AdminDashboardPage';
 export { default as PortfolioManagementPage } from './PortfolioManagementPage';
 export { default as BookingManagementPage } from './BookingManagementPage';
 export { default as InquiryManagementPage } from './InquiryManagementPage';
 export { default as UserManagementPage } from './UserManagementPage';
-export { default as AnalyticsPage } from './AnalyticsPage';
\ No newline at end of file
+export { default as AnalyticsPage } from './AnalyticsPage';
+export { default as ScheduleSettingsPage } from './ScheduleSettingsPage';
+export { default as InvoicesPage } from './InvoicesPage';
+export { default as EmailTemplatesPage } from './EmailTemplatesPage';
+export { default as ClientsPage } from './ClientsPage';
+export { default as ClientProfilePage } from './ClientProfilePage';
+export { default as SpamSettingsPage } from './SpamSettingsPage';
+export { default as ApiKeysPage } from './ApiKeysPage';
+export { default as WebhooksPage } from './WebhooksPage';
+export { default as ProfilePage } from './ProfilePage';
@@ -5,14 +5,27 @@ export { default as PortfolioPage } from './PortfolioPage';
 export { default as BookPage } from './BookPage';
 export { default as ContactPage } from './ContactPage';
 export { default as LocationPage } from './LocationPage';
+export { default as ManageBookingPage } from './ManageBookingPage';
+export { default as WaitlistOfferPage } from './WaitlistOfferPage';
 
 // Admin Pages
 export {
   AdminLoginPage,
+  ResetPasswordPage,
+  AcceptInvitationPage,
   AdminDashboardPage,
   PortfolioManagementPage,
   BookingManagementPage,
   InquiryManagementPage,
   UserManagementPage,
-  AnalyticsPage
+  AnalyticsPage,
+  ScheduleSettingsPage,
+  InvoicesPage,
+  EmailTemplatesPage,
+  ClientsPage,
+  ClientProfilePage,
+  SpamSettingsPage,
+  ApiKeysPage,
+  WebhooksPage,
+  ProfilePage
 } from './admin';
\ No newline at end of file
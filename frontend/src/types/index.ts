@@ -6,6 +6,108 @@ export interface User {
   firstName?: string;
   lastName?: string;
   role: string;
+  // What the user's role allows, as returned with the profile
+  permissions?: string[];
+  twoFactorEnabledAt?: string | null;
+  // Set while failed sign-ins have the account locked
+  lockedUntil?: string | null;
+}
+
+export type Role = 'owner' | 'admin' | 'manager' | 'editor' | 'photographer';
+
+// Someone invited to join who hasn't accepted yet
+export interface UserInvitation {
+  id: string;
+  email: string;
+  role: Role;
+  firstName?: string;
+  lastName?: string;
+  expiresAt: string;
+  createdAt: string;
+  invitedBy?: Pick<User, 'id' | 'email' | 'firstName' | 'lastName'>;
+}
+
+// A key an integration uses to call the API; the key itself is only shown once
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt?: string | null;
+  lastUsedAt?: string | null;
+  lastUsedIp?: string | null;
+  createdAt: string;
+  createdBy: Pick<User, 'id' | 'email' | 'firstName' | 'lastName'>;
+}
+
+// A URL told about bookings, inquiries and portfolio changes as they happen
+export interface Webhook {
+  id: string;
+  url: string;
+  description?: string | null;
+  events: string[];
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: Pick<User, 'id' | 'email' | 'firstName' | 'lastName'> | null;
+}
+
+// One event sent, or still being sent, to a webhook
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: 'queued' | 'sending' | 'delivered' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  responseStatus?: number | null;
+  responseBody?: string | null;
+  durationMs?: number | null;
+  lastError?: string | null;
+  deliveredAt?: string | null;
+  createdAt: string;
+}
+
+// A device signed in to the admin dashboard
+export interface Session {
+  id: string;
+  device: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+// What login and refresh return; the tokens themselves are set as httpOnly cookies
+export interface AuthSession {
+  user: User;
+  csrfToken: string;
+  expiresIn: number;
+}
+
+// What login returns instead of a session when a second factor is needed: a code
+// ('verify'), or setting up two-factor authentication first ('setup')
+export interface TwoFactorChallenge {
+  twoFactor: 'verify' | 'setup';
+  challengeToken: string;
+  expiresIn: number;
+}
+
+// A new authenticator app secret, while enrolling
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
 }
 
 export interface ServiceCategory {
@@ -30,6 +132,8 @@ export interface Service {
   basePrice?: number;
   priceType: 'fixed' | 'hourly' | 'package';
   duration?: number;
+  setupBufferMinutes?: number;
+  teardownBufferMinutes?: number;
   features?: string[] | Record<string, any>;
   active: boolean;
   createdAt: Date;
@@ -68,14 +172,225 @@ export interface Booking {
   clientPhone?: string;
   serviceId?: string;
   service?: Service;
-  bookingDate: Date;
+  bookingDate: Date; // studio calendar day of startTime
   startTime: Date;
   endTime: Date;
-  status: 'pending' | 'confirmed' | 'cancelled' | 'completed';
+  timeZone?: string; // studio IANA zone the booking was made in
+  status: 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'quarantined' | 'spam';
   projectDetails?: string;
   budgetRange?: string;
   location?: string;
   notes?: string;
+  seriesId?: string; // set when the booking is one session of a series
+  seriesIndex?: number;
+  series?: BookingSeriesSummary;
+  inquiryId?: string; // contact inquiry the booking was converted from
+  clientId?: string;
+  spamScore?: number | null;
+  spamReasons?: SpamReason[] | null;
+  spamLabel?: 'spam' | 'ham' | null; // how an admin labelled it for the spam classifier
+}
+
+export type RecurrenceRule =
+  | { type: 'weekly'; count: number; intervalWeeks?: number }
+  | { type: 'interval'; everyDays: number; count: number }
+  | { type: 'dates'; dates: string[] };
+
+export interface BookingSeriesSummary {
+  id: string;
+  recurrence: RecurrenceRule;
+  _count?: { bookings: number };
+}
+
+// One entry in a booking's status history
+export interface BookingEvent {
+  id: string;
+  type: 'created' | 'status_changed' | 'rescheduled';
+  fromStatus?: Booking['status'];
+  toStatus: Booking['status'];
+  actorType: 'admin' | 'client' | 'system';
+  actorName?: string;
+  reason?: string;
+  createdAt: string;
+}
+
+export interface BookingHistory {
+  bookingId: string;
+  status: Booking['status'];
+  allowedTransitions: Booking['status'][];
+  events: BookingEvent[];
+}
+
+// Client waiting for a slot on a fully booked day
+export interface WaitlistEntry {
+  id: string;
+  clientName: string;
+  clientEmail: string;
+  clientPhone?: string;
+  serviceId?: string; // none means any service will do
+  service?: Pick<Service, 'id' | 'name'>;
+  date: string; // studio calendar day
+  status: 'waiting' | 'offered' | 'booked' | 'expired';
+  holdExpiresAt?: string;
+  offeredBooking?: { id: string; startTime: string; endTime: string };
+  createdAt: string;
+}
+
+// Slot held for a waitlisted client, seen through their emailed link
+export interface WaitlistOffer {
+  clientName: string;
+  startTime: string;
+  endTime: string;
+  timeZone: string;
+  service?: Pick<Service, 'id' | 'name' | 'duration'>;
+  holdExpiresAt: string;
+}
+
+export interface BookingPolicy {
+  cancellationWindowHours: number;
+  changeDeadline: string;
+  canChange: boolean;
+}
+
+export interface ManagedBooking {
+  booking: Booking;
+  policy: BookingPolicy;
+}
+
+export interface DayHours {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  openTime: string; // 'HH:MM'
+  closeTime: string; // 'HH:MM'
+  closed: boolean;
+}
+
+export interface StudioSchedule {
+  timeZone: string; // IANA zone the opening hours are written in
+  slotIntervalMinutes: number;
+  cancellationWindowHours: number;
+  hours: DayHours[];
+}
+
+export interface BlackoutDate {
+  id: string;
+  date: string;
+  reason?: string;
+}
+
+// Calendar whose events block out studio time
+export interface ExternalCalendar {
+  id: string;
+  name: string;
+  url?: string;
+  lastSyncedAt?: string;
+  lastSyncError?: string;
+  _count: {
+    busyBlocks: number;
+  };
+}
+
+// Money fields arrive as decimal strings, e.g. '150.00'
+export interface InvoiceLineItem {
+  id: string;
+  position: number;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  discount: string;
+  total: string;
+}
+
+export interface Payment {
+  id: string;
+  kind: 'deposit' | 'balance';
+  amount: string;
+  currency: string;
+  provider: string;
+  providerReference?: string;
+  status: 'succeeded' | 'pending' | 'failed';
+  failureReason?: string;
+  createdAt: string;
+}
+
+export interface Invoice {
+  id: string;
+  number: string;
+  type: 'quote' | 'invoice';
+  status: 'draft' | 'sent' | 'paid' | 'void';
+  bookingId: string;
+  quoteId?: string;
+  currency: string;
+  subtotal: string;
+  discountTotal: string;
+  taxRatePercent: string;
+  taxTotal: string;
+  total: string;
+  depositAmount: string;
+  amountPaid: string;
+  notes?: string;
+  dueDate?: string;
+  sentAt?: string;
+  paidAt?: string;
+  createdAt: string;
+  lineItems?: InvoiceLineItem[];
+  payments?: Payment[];
+  booking?: Pick<Booking, 'id' | 'clientName' | 'clientEmail' | 'startTime' | 'timeZone'>;
+}
+
+export interface BillingSettings {
+  currency: string;
+  taxRatePercent: number;
+  depositPercent: number; // share of the total required before a booking is confirmed
+}
+
+export interface EmailTemplateSummary {
+  key: string;
+  name: string;
+  description: string;
+  customised: boolean; // an admin's version replaces the built-in one
+  updatedAt: string | null;
+}
+
+export interface EmailTemplate extends EmailTemplateSummary {
+  variables: string[];
+  subject: string;
+  body: string; // HTML inside the shared layout, e.g. <p>Dear {{booking.clientName}},</p>
+  defaultSubject: string;
+  defaultBody: string;
+  updatedBy: { id: string; email: string } | null;
+}
+
+export interface EmailPreview {
+  subject: string;
+  html: string;
+  text: string; // generated from the HTML
+}
+
+// An email in the outbox, with where it got to
+export interface EmailMessage {
+  id: string;
+  toEmail: string;
+  subject: string;
+  templateKey?: string;
+  status: 'queued' | 'sending' | 'sent' | 'failed' | 'suppressed' | 'bounced';
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  transport?: string;
+  sentAt?: string;
+  bookingId?: string;
+  inquiryId?: string;
+  createdAt: string;
+}
+
+// Address that no email is sent to
+export interface EmailSuppression {
+  id: string;
+  email: string;
+  reason: 'bounce' | 'complaint' | 'manual';
+  details?: string;
+  createdAt: string;
 }
 
 export interface ContactInquiry {
@@ -86,10 +401,126 @@ export interface ContactInquiry {
   subject?: string;
   message: string;
   serviceInterest?: string;
-  status: 'new' | 'responded' | 'closed';
+  status: 'new' | 'responded' | 'closed' | 'quarantined' | 'spam';
+  source?: string; // where the inquiry came from, e.g. the utm_source of the contact page
+  clientId?: string;
+  spamScore?: number | null;
+  spamReasons?: SpamReason[] | null;
+  spamLabel?: 'spam' | 'ham' | null; // how an admin labelled it for the spam classifier
   createdAt: Date;
 }
 
+// A spam filter rule a submission matched, with the points it added
+export interface SpamReason {
+  rule: string;
+  points: number;
+}
+
+export interface SpamSettings {
+  quarantineThreshold: number;
+  rejectThreshold: number;
+  rules: Array<{
+    id: string;
+    description: string;
+    defaultPoints: number;
+    points: number;
+  }>;
+  training: { spam: number; ham: number }; // submissions the classifier has learned from
+}
+
+// Booking fields pre-filled from an inquiry, with the bookings already made from it
+export interface InquiryConversion {
+  draft: {
+    clientName: string;
+    clientEmail: string;
+    clientPhone: string | null;
+    serviceId: string | null; // active service best matching the inquiry's service interest
+    duration: number | null; // of that service, in minutes
+    projectDetails: string;
+  };
+  bookings: Array<{
+    id: string;
+    startTime: string;
+    endTime: string;
+    status: Booking['status'];
+    service?: { id: string; name: string };
+    invoices: Array<Pick<Invoice, 'id' | 'number' | 'type' | 'status'>>;
+  }>;
+}
+
+export interface ConversionRate {
+  inquiries: number;
+  converted: number;
+  rate: number; // percentage of inquiries converted into a booking
+}
+
+export interface InquiryConversionStats {
+  overall: ConversionRate;
+  byService: Array<ConversionRate & { service: string }>;
+  bySource: Array<ConversionRate & { source: string }>;
+}
+
+// A message in an inquiry's reply thread
+export interface InquiryMessage {
+  id: string;
+  direction: 'outbound' | 'inbound'; // admin reply, or the client's answer
+  fromEmail: string;
+  body: string;
+  createdAt: string;
+  author?: {
+    id: string;
+    email: string;
+    firstName?: string;
+    lastName?: string;
+  };
+  emailMessage?: Pick<EmailMessage, 'id' | 'status' | 'sentAt' | 'lastError'>;
+}
+
+// A person who has booked or contacted the studio, matched by email or phone
+export interface Client {
+  id: string;
+  name: string;
+  email: string;
+  phone?: string;
+  createdAt: string;
+  updatedAt: string;
+  _count?: {
+    bookings: number;
+    inquiries: number;
+  };
+}
+
+export interface ClientNote {
+  id: string;
+  body: string;
+  createdAt: string;
+  author?: {
+    id: string;
+    email: string;
+    firstName?: string;
+    lastName?: string;
+  };
+}
+
+// A client with everything they have booked, asked and been billed
+export interface ClientProfile extends Client {
+  bookings: Array<{
+    id: string;
+    startTime: string;
+    endTime: string;
+    timeZone: string;
+    status: Booking['status'];
+    service?: { id: string; name: string };
+  }>;
+  inquiries: Array<Pick<ContactInquiry, 'id' | 'subject' | 'message' | 'serviceInterest' | 'status' | 'source'> & {
+    createdAt: string;
+  }>;
+  invoices: Array<Pick<Invoice, 'id' | 'number' | 'type' | 'status' | 'currency' | 'total' | 'amountPaid' | 'bookingId' | 'createdAt'>>;
+  notes: ClientNote[];
+  // Emails of clients merged into this one
+  emails: Array<{ email: string; createdAt: string }>;
+}
+
 export interface ApiResponse<T> {
   data: T;
   message?: string;
@@ -131,6 +562,7 @@ export interface ContactFormData {
   subject?: string;
   message: string;
   serviceInterest?: string;
+  source?: string;
 }
 
 export interface BookingFormData {
@@ -138,15 +570,36 @@ export interface BookingFormData {
   clientEmail: string;
   clientPhone?: string;
   serviceId: string;
-  bookingDate: string;
-  startTime: string;
-  endTime: string;
+  bookingDate?: string; // derived by the server from startTime
+  startTime: string; // ISO instant
+  endTime: string; // ISO instant
   projectDetails?: string;
   budgetRange?: string;
   location?: string;
   notes?: string;
 }
 
+// Proof-of-work challenge the public forms solve before they submit
+export interface Challenge {
+  challenge: string;
+  difficulty: number; // leading zero bits the solution's hash needs
+  expiresAt: string;
+}
+
+// Sent with a form submission in place of a CAPTCHA
+export interface ChallengeSolution {
+  challenge: string;
+  challengeSolution: string;
+}
+
+export interface WaitlistFormData {
+  clientName: string;
+  clientEmail: string;
+  clientPhone?: string;
+  serviceId?: string;
+  date: string; // 'YYYY-MM-DD' on the studio calendar
+}
+
 // Navigation types
 export interface NavigationItem {
   id: string;
@@ -26,21 +26,59 @@ const defaultRetryConfig: RetryConfig = {
   },
 };
 
-// Create axios instance with base configuration
+// Create axios instance with base configuration. The session lives in httpOnly
+// cookies, so requests must carry credentials.
 const api = axios.create({
   baseURL: import.meta.env.VITE_API_URL || 'http://localhost:5000/api',
   timeout: 10000,
+  withCredentials: true,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-// Request interceptor to add auth token and request ID
+// Marks that this browser has signed in, so a reload knows a session is worth refreshing
+export const SESSION_MARKER_KEY = 'hasSession';
+
+// CSRF token handed out with the session; changes must echo it in X-CSRF-Token
+let csrfToken: string | null = null;
+
+export function setCsrfToken(token: string | null): void {
+  csrfToken = token;
+}
+
+// Endpoints whose 401s mean bad credentials rather than an expired access token
+const NO_REFRESH_URLS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/forgot-password', '/auth/reset-password'];
+
+// One refresh at a time; requests that fail together wait for the same one
+let refreshing: Promise<void> | null = null;
+
+function refreshSession(): Promise<void> {
+  if (!refreshing) {
+    refreshing = api
+      .post<ApiResponse<{ csrfToken: string }>>('/auth/refresh', undefined, { _retry: true } as AxiosRequestConfig)
+      .then(response => {
+        setCsrfToken(response.data.data.csrfToken);
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+}
+
+function endSession(): void {
+  localStorage.removeItem(SESSION_MARKER_KEY);
+  setCsrfToken(null);
+  window.location.href = '/admin/login';
+}
+
+// Request interceptor to add the CSRF token and request ID
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem('authToken');
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
+    const method = (config.method || 'get').toUpperCase();
+    if (csrfToken && !['GET', 'HEAD', 'OPTIONS'].includes(method)) {
+      config.headers['X-CSRF-Token'] = csrfToken;
     }
     
     // Add request ID for correlation
@@ -68,36 +106,27 @@ api.interceptors.response.use(
   async (error: AxiosError<ApiError>) => {
     const originalRequest = error.config as AxiosRequestConfig & { _retry?: boolean };
     
-    // Handle 401 errors with token refresh
-    if (error.response?.status === 401 && !originalRequest._retry) {
+    // Handle 401 errors by refreshing the session cookies and retrying once
+    if (
+      error.response?.status === 401 &&
+      originalRequest &&
+      !originalRequest._retry &&
+      !NO_REFRESH_URLS.some(url => originalRequest.url?.startsWith(url))
+    ) {
       originalRequest._retry = true;
       
-      const refreshToken = localStorage.getItem('refreshToken');
-      if (refreshToken) {
+      if (localStorage.getItem(SESSION_MARKER_KEY)) {
         try {
-          const response = await axios.post('/api/auth/refresh', {
-            refreshToken,
-          });
-          
-          const { accessToken } = response.data.data;
-          localStorage.setItem('authToken', accessToken);
-          
-          // Retry original request with new token
-          if (originalRequest.headers) {
-            originalRequest.headers.Authorization = `Bearer ${accessToken}`;
-          }
+          await refreshSession();
           return api(originalRequest);
         } catch (refreshError) {
-          // Refresh failed, clear tokens and redirect
-          localStorage.removeItem('authToken');
-          localStorage.removeItem('refreshToken');
-          window.location.href = '/admin/login';
+          // Refresh failed, the session is over
+          endSession();
           return Promise.reject(refreshError);
         }
       } else {
-        // No refresh token, redirect to login
-        localStorage.removeItem('authToken');
-        window.location.href = '/admin/login';
+        // Never signed in, redirect to login
+        endSession();
       }
     }
     
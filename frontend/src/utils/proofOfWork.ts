@@ -0,0 +1,36 @@
+// Hashes checked per round; the browser digests a round in parallel
+const BATCH_SIZE = 256;
+
+const encoder = new TextEncoder();
+
+function leadingZeroBits(hash: Uint8Array): number {
+  let bits = 0;
+
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+
+  return bits;
+}
+
+/**
+ * Find a string for which SHA-256 of `<challenge>:<solution>` starts with
+ * `difficulty` zero bits, counting up from 0 like the server's own solver
+ */
+export async function solveChallenge(challenge: string, difficulty: number): Promise<string> {
+  for (let start = 0; ; start += BATCH_SIZE) {
+    const candidates = Array.from({ length: BATCH_SIZE }, (_, i) => (start + i).toString(16));
+    const hashes = await Promise.all(
+      candidates.map(candidate => crypto.subtle.digest('SHA-256', encoder.encode(`${challenge}:${candidate}`)))
+    );
+
+    const index = hashes.findIndex(hash => leadingZeroBits(new Uint8Array(hash)) >= difficulty);
+    if (index !== -1) {
+      return candidates[index];
+    }
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Time zone helpers for showing booking times on the studio's clock and the visitor's.
+ *
+ * Calendar days picked in the UI are plain local Dates used as labels ('the 14th'),
+ * while booking times travel as ISO instants and are formatted per zone.
+ */
+
+// The visitor's IANA zone as reported by the browser
+export const getVisitorTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Calendar key for a day picked in the calendar, e.g. '2026-03-14'
+export const toDateKey = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Turn a calendar key back into a local Date for the calendar
+export const fromDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Today's calendar day on the clock of the given zone
+export const todayInZone = (timeZone: string): Date => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date());
+  return fromDateKey(parts);
+};
+
+// Format an instant's time of day in a zone, e.g. '9:00 AM'
+export const formatTimeInZone = (value: string | Date, timeZone: string): string =>
+  new Date(value).toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit' });
+
+// Format an instant's calendar day in a zone, e.g. 'Saturday, March 14, 2026'
+export const formatDateInZone = (value: string | Date, timeZone: string): string =>
+  new Date(value).toLocaleDateString('en-US', {
+    timeZone,
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+// Short zone label for an instant, e.g. 'GMT' or 'EST'
+export const getTimeZoneLabel = (value: string | Date, timeZone: string): string => {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(new Date(value))
+    .find(item => item.type === 'timeZoneName');
+  return part?.value || timeZone;
+};
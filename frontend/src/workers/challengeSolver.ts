@@ -0,0 +1,7 @@
+import { solveChallenge } from '../utils/proofOfWork';
+
+// Solves form challenges off the main thread so typing stays smooth
+self.onmessage = async (event: MessageEvent<{ challenge: string; difficulty: number }>) => {
+  const { challenge, difficulty } = event.data;
+  self.postMessage({ solution: await solveChallenge(challenge, difficulty) });
+};